@@ -11,6 +11,10 @@ import { aiPlugin } from '@/features/ai/server/elysia-plugin.js';
 import { claudeQuotesPlugin } from '@/features/ai/server/elysia-quotes-plugin.js';
 import { blocksPlugin } from '@/features/blocks/server/elysia-plugin.js';
 import { notificationsPlugin } from '@/features/notifications/server/elysia-plugin.js';
+import {
+  recordingPlayerPlugin,
+  recordingsPlugin
+} from '@/features/recording/server/elysia-plugin.js';
 import { sharesPlugin } from '@/features/share/server/elysia-plugin.js';
 
 /**
@@ -23,6 +27,8 @@ export function getFeaturePlugins(): AnyElysia[] {
     aiPlugin,
     claudeQuotesPlugin,
     notificationsPlugin,
-    sharesPlugin
+    sharesPlugin,
+    recordingsPlugin,
+    recordingPlayerPlugin
   ];
 }
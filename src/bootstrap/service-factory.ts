@@ -6,6 +6,7 @@
  * so server.ts only handles server startup.
  */
 
+import { join } from 'node:path';
 import {
   addShare,
   getAllPushSubscriptions,
@@ -15,19 +16,42 @@ import {
   removeShare
 } from '@/core/config/state.js';
 import type { Config } from '@/core/config/types.js';
+import type { AccessControl } from '@/core/server/auth/access-control.js';
 import type { NativeSessionManager, SessionPluginsFactory } from '@/core/server/session-manager.js';
 import { createCommandExecutorManager } from '@/core/terminal/command-executor-manager.js';
 import type { SessionPlugins } from '@/core/terminal/session-plugins.js';
 import { generateTimelineHtml } from '@/features/agent-timeline/client/timeline-page.js';
 import { AgentTimelineService } from '@/features/agent-timeline/server/timeline-service.js';
+import { createAIServiceOptions, getAIService } from '@/features/ai/server/ai-service.js';
+import { AISessionManager } from '@/features/ai/server/ai-session.js';
+import {
+  AI_HISTORY_DB_FILENAME,
+  type AIThreadPersistence,
+  SqliteAIThreadPersistence
+} from '@/features/ai/server/thread-persistence.js';
 import { createBlockEventEmitter } from '@/features/blocks/server/block-event-emitter.js';
 import { BlockModel } from '@/features/blocks/server/block-model.js';
+import {
+  BLOCK_DB_FILENAME,
+  type BlockPersistence,
+  SqliteBlockPersistence
+} from '@/features/blocks/server/block-persistence.js';
 import { createBlockStore } from '@/features/blocks/server/block-store.js';
 import { createRedactor } from '@/features/blocks/server/output-redactor.js';
 import { ClaudeSessionWatcher } from '@/features/claude-watcher/server/index.js';
 import { FileWatcher } from '@/features/file-watcher/server/file-watcher.js';
-import { createNotificationSender } from '@/features/notifications/server/sender.js';
+import { createOutputPatternNotifier } from '@/features/notifications/server/output-notifier.js';
+import {
+  createNotificationSender,
+  type NotificationSender
+} from '@/features/notifications/server/sender.js';
+import { createTerminalNotifier } from '@/features/notifications/server/terminal-notifier.js';
 import { loadOrGenerateVapidKeys } from '@/features/notifications/server/vapid.js';
+import {
+  createRecordingManager,
+  RECORDINGS_DIRNAME,
+  type RecordingManager
+} from '@/features/recording/server/recording-manager.js';
 import { createShareManager, type ShareManager } from '@/features/share/server/share-manager.js';
 import { createLogger } from '@/utils/logger.js';
 
@@ -38,43 +62,63 @@ export interface BootstrappedServices {
   executorManager: ReturnType<typeof createCommandExecutorManager>;
   blockEventEmitter: ReturnType<typeof createBlockEventEmitter>;
   shareManager: ShareManager;
+  recordingManager: RecordingManager;
+  aiSessionManager: AISessionManager;
   generateTimelineHtml: (basePath: string, nonce: string) => string;
 }
 
+/**
+ * Create the Web Push notification sender.
+ * Shared by session plugins (output patterns) and server services.
+ */
+export function createPushNotificationSender(
+  config: Config,
+  accessControl: AccessControl | null
+): NotificationSender {
+  const vapidKeys = loadOrGenerateVapidKeys(getStateDir());
+  const contactEmail = config.notifications?.contact_email ?? 'webmaster@localhost';
+  return createNotificationSender(
+    vapidKeys,
+    contactEmail,
+    {
+      getSubscriptions: () => getAllPushSubscriptions(),
+      getSubscriptionsForSession: (sessionName) =>
+        getAllPushSubscriptions().filter((s) => !s.sessionName || s.sessionName === sessionName),
+      removeSubscription: (_id) => {
+        // Removal handled by notifications plugin
+      }
+    },
+    { basePath: config.base_path, accessControl }
+  );
+}
+
 /**
  * Create all feature services needed by the server.
  */
 export function createServices(
   config: Config,
-  sessionManager: NativeSessionManager
+  sessionManager: NativeSessionManager,
+  notificationSender: NotificationSender
 ): BootstrappedServices {
-  // Notification sender
   const stateDir = getStateDir();
-  const vapidKeys = loadOrGenerateVapidKeys(stateDir);
-  const contactEmail = config.notifications?.contact_email ?? 'webmaster@localhost';
-  const notificationSender = createNotificationSender(vapidKeys, contactEmail, {
-    getSubscriptions: () => getAllPushSubscriptions(),
-    getSubscriptionsForSession: (sessionName) =>
-      getAllPushSubscriptions().filter((s) => !s.sessionName || s.sessionName === sessionName),
-    removeSubscription: (_id) => {
-      // Removal handled by notifications plugin
-    }
-  });
 
   // Agent timeline service (SSE streaming)
   const timelineService = new AgentTimelineService({
     sessionManager,
     onErrorEvent: (event) => {
       notificationSender
-        .sendNotification({
-          pattern: {
-            regex: '',
-            message: `[bunterm] Agent Error: ${event.agentName}`
+        .sendNotification(
+          {
+            pattern: {
+              regex: '',
+              message: `[bunterm] Agent Error: ${event.agentName}`
+            },
+            matchedText: event.summary,
+            sessionName: event.agentName,
+            timestamp: event.timestamp
           },
-          matchedText: event.summary,
-          sessionName: event.agentName,
-          timestamp: event.timestamp
-        })
+          { kind: 'agent', url: `${config.base_path}/agents` }
+        )
         .catch((error) => {
           log.error(`Failed to send error notification: ${String(error)}`);
         });
@@ -83,7 +127,11 @@ export function createServices(
 
   // Block system
   const redactor = createRedactor({ enabled: true });
-  const blockStore = createBlockStore(undefined, redactor);
+  const blockStore = createBlockStore(
+    undefined,
+    redactor,
+    createBlockPersistence(config, stateDir)
+  );
   const blockEventEmitter = createBlockEventEmitter();
 
   // Command executor
@@ -100,23 +148,105 @@ export function createServices(
     getShare: (token: string) => getShare(token)
   });
 
+  // Session recording (asciicast)
+  const recordingManager = createRecordingManager({
+    dir: join(stateDir, RECORDINGS_DIRNAME),
+    getSession: (name) => sessionManager.getSession(name)
+  });
+
+  // AI chat: configure the shared service (runners, cache, rate limit) before first use
+  getAIService({
+    ...createAIServiceOptions(config.ai_chat),
+    persistence: createAIThreadPersistence(config, stateDir)
+  });
+  // AI chat runs (idempotency, watchdog, streaming)
+  const aiSessionManager = new AISessionManager();
+
   return {
     timelineService,
     executorManager,
     blockEventEmitter,
     shareManager: shareManagerInstance,
+    recordingManager,
+    aiSessionManager,
     generateTimelineHtml
   };
 }
 
+/**
+ * Open the on-disk block database when persistence is enabled.
+ * Falls back to in-memory storage (returns undefined) if the database cannot be opened.
+ */
+function createBlockPersistence(config: Config, stateDir: string): BlockPersistence | undefined {
+  if (!config.blocks.persistent) {
+    return undefined;
+  }
+  const dbPath = join(stateDir, BLOCK_DB_FILENAME);
+  try {
+    return new SqliteBlockPersistence(dbPath);
+  } catch (error) {
+    log.error(`Failed to open block database ${dbPath}, using in-memory blocks: ${String(error)}`);
+    return undefined;
+  }
+}
+
+/**
+ * Open the on-disk AI history database when ai_chat.persist_history is enabled.
+ * Falls back to in-memory history (returns undefined) if the database cannot be opened.
+ */
+function createAIThreadPersistence(
+  config: Config,
+  stateDir: string
+): AIThreadPersistence | undefined {
+  if (!config.ai_chat.persist_history) {
+    return undefined;
+  }
+  const dbPath = join(stateDir, AI_HISTORY_DB_FILENAME);
+  try {
+    return new SqliteAIThreadPersistence(dbPath);
+  } catch (error) {
+    log.error(
+      `Failed to open AI history database ${dbPath}, using in-memory history: ${String(error)}`
+    );
+    return undefined;
+  }
+}
+
 /**
  * Factory function that creates SessionPlugins for a given working directory.
- * Wires up feature implementations (BlockModel, ClaudeSessionWatcher, FileWatcher).
+ * Wires up feature implementations (BlockModel, ClaudeSessionWatcher, FileWatcher,
+ * output pattern notifications, OSC terminal notifications).
+ *
+ * @param getConfig - Live config getter, so notification patterns follow `bunterm reload`
  */
-export function createSessionPluginsFactory(): SessionPluginsFactory {
-  return (cwd: string): SessionPlugins => ({
+export function createSessionPluginsFactory(
+  notificationSender: NotificationSender,
+  getConfig: () => Config
+): SessionPluginsFactory {
+  const outputNotifier = createOutputPatternNotifier({
+    getConfig: () => getConfig().notifications,
+    onMatch: (match) => {
+      notificationSender.sendNotification(match).catch((error) => {
+        log.error(`Failed to send pattern notification: ${String(error)}`);
+      });
+    }
+  });
+
+  return (cwd: string, sessionName: string): SessionPlugins => ({
     blockManager: new BlockModel(cwd),
     sessionWatcher: new ClaudeSessionWatcher({ cwd }),
-    fileChangeNotifier: new FileWatcher(cwd, () => {})
+    fileChangeNotifier: new FileWatcher(cwd, () => {}),
+    outputWatcher: outputNotifier.createWatcher(sessionName),
+    notifier: createTerminalNotifier({
+      sessionName,
+      cwd,
+      getConfig: () => getConfig().notifications,
+      url: notificationSender.getSessionUrl(sessionName),
+      send: (payload) => {
+        notificationSender.sendPayload(payload).catch((error) => {
+          log.error(`Failed to send terminal notification: ${String(error)}`);
+        });
+      }
+    })
   });
 }
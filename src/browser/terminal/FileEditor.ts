@@ -0,0 +1,524 @@
+/**
+ * FileEditor - In-browser editor pane for files linked from terminal output
+ *
+ * Opened from the PathLinkManager popup ("Edit"). The file is loaded via
+ * GET /api/files/content and shown in a textarea layered over a
+ * syntax-highlighted copy, with line numbers and jump to `file:line:col`.
+ *
+ * Saves send the etag the file was opened with. If the file changed on disk
+ * in the meantime (e.g. the agent edited it), the server answers 409 with
+ * the current content and the editor shows a diff with three ways out:
+ * merge both edits, overwrite with mine, or take the disk version.
+ */
+
+import { languageForPath, tokenize } from './syntax-highlight.js';
+import { diffLines, mergeThreeWay, splitLines } from './text-diff.js';
+
+export interface FileEditorOptions {
+  /** Session name for API calls */
+  sessionName: string;
+  /** Base path for URLs (e.g., '/bunterm') */
+  basePath: string;
+}
+
+/** File as returned by GET /api/files/content */
+interface EditableFile {
+  path: string;
+  content: string;
+  etag: string;
+  mtime: string;
+  size: number;
+}
+
+interface SaveResponse {
+  etag: string;
+  mtime: string;
+  size: number;
+}
+
+interface ConflictResponse {
+  error: string;
+  message: string;
+  current?: EditableFile;
+}
+
+const TAB_TEXT = '  ';
+
+export class FileEditor {
+  private readonly sessionName: string;
+  private readonly basePath: string;
+
+  private root: HTMLElement | null = null;
+  private titleEl: HTMLElement | null = null;
+  private statusEl: HTMLElement | null = null;
+  private gutter: HTMLElement | null = null;
+  private highlightEl: HTMLElement | null = null;
+  private textarea: HTMLTextAreaElement | null = null;
+  private conflictEl: HTMLElement | null = null;
+
+  /** Path as passed to the API */
+  private path: string | null = null;
+  private language: string | null = null;
+  /** Content as last read from or written to disk */
+  private base = '';
+  /** Etag of base; undefined for a file that does not exist yet */
+  private etag: string | undefined;
+  private saving = false;
+  private renderFrame: number | null = null;
+  private lineCount = 0;
+  private activeLine: number | null = null;
+
+  private cleanupFns: (() => void)[] = [];
+
+  constructor(options: FileEditorOptions) {
+    this.sessionName = options.sessionName;
+    this.basePath = options.basePath;
+  }
+
+  /**
+   * Open a file, optionally placing the cursor at line:column (1-based).
+   * Rejects with a readable message if the file cannot be edited.
+   */
+  async open(path: string, line?: number, column?: number): Promise<void> {
+    if (this.isOpen() && this.isDirty() && !window.confirm('Discard unsaved changes?')) {
+      return;
+    }
+
+    const response = await fetch(this.contentUrl(path));
+    if (!response.ok) {
+      const body = (await response.json().catch(() => null)) as { message?: string } | null;
+      throw new Error(body?.message ?? `HTTP ${response.status}`);
+    }
+    const file = (await response.json()) as EditableFile;
+
+    this.ensureElements();
+    this.path = path;
+    this.language = languageForPath(path);
+    this.base = file.content;
+    this.etag = file.etag;
+    this.hideConflict();
+
+    if (this.titleEl) {
+      this.titleEl.textContent = path;
+      this.titleEl.title = path;
+    }
+    if (this.textarea) {
+      this.textarea.value = file.content;
+    }
+    this.render();
+    this.root?.classList.remove('hidden');
+    this.setStatus(`${file.size} bytes · modified ${new Date(file.mtime).toLocaleString()}`);
+    this.jumpTo(line ?? 1, column ?? 1);
+  }
+
+  isOpen(): boolean {
+    return this.root !== null && !this.root.classList.contains('hidden');
+  }
+
+  /**
+   * Close the editor, asking first if there are unsaved changes
+   */
+  close(): void {
+    if (!this.isOpen()) {
+      return;
+    }
+    if (this.isDirty() && !window.confirm('Discard unsaved changes?')) {
+      return;
+    }
+    this.root?.classList.add('hidden');
+    this.hideConflict();
+    this.path = null;
+  }
+
+  /**
+   * Move the cursor to line:column (1-based) and scroll it into view
+   */
+  jumpTo(line: number, column = 1): void {
+    const textarea = this.textarea;
+    if (!textarea) {
+      return;
+    }
+    const lines = splitLines(textarea.value);
+    const targetLine = Math.min(Math.max(1, line), lines.length);
+    let offset = 0;
+    for (let i = 0; i < targetLine - 1; i++) {
+      offset += (lines[i]?.length ?? 0) + 1;
+    }
+    offset += Math.min(Math.max(0, column - 1), lines[targetLine - 1]?.length ?? 0);
+
+    textarea.focus();
+    textarea.setSelectionRange(offset, offset);
+    const lineHeight = Number.parseFloat(getComputedStyle(textarea).lineHeight) || 18;
+    textarea.scrollTop = Math.max(0, (targetLine - 1) * lineHeight - textarea.clientHeight / 3);
+    this.setActiveLine(targetLine);
+    this.syncScroll();
+  }
+
+  private isDirty(): boolean {
+    return this.textarea !== null && this.textarea.value !== this.base;
+  }
+
+  private contentUrl(path: string): string {
+    const params = new URLSearchParams({ session: this.sessionName, path });
+    return `${this.basePath}/api/files/content?${params.toString()}`;
+  }
+
+  /**
+   * Save the editor content. The server refuses with 409 if the file no
+   * longer matches the etag it was opened with.
+   */
+  private async save(): Promise<void> {
+    if (!this.path || !this.textarea || this.saving) {
+      return;
+    }
+    const path = this.path;
+    const content = this.textarea.value;
+    this.saving = true;
+    this.setStatus('Saving…');
+
+    try {
+      const response = await fetch(this.contentUrl(path), {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ content, etag: this.etag })
+      });
+
+      if (response.status === 409) {
+        const conflict = (await response.json()) as ConflictResponse;
+        this.setStatus(conflict.message, 'error');
+        this.showConflict(content, conflict.current);
+        return;
+      }
+      if (!response.ok) {
+        const body = (await response.json().catch(() => null)) as { message?: string } | null;
+        throw new Error(body?.message ?? `HTTP ${response.status}`);
+      }
+
+      const saved = (await response.json()) as SaveResponse;
+      if (this.path === path) {
+        this.base = content;
+        this.etag = saved.etag;
+        this.updateTitle();
+        this.setStatus(
+          `Saved ${saved.size} bytes at ${new Date(saved.mtime).toLocaleTimeString()}`
+        );
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      this.setStatus(`Save failed: ${message}`, 'error');
+    } finally {
+      this.saving = false;
+    }
+  }
+
+  // === Conflict view ===
+
+  /**
+   * Show the disk version against mine, with the ways to resolve it
+   */
+  private showConflict(mine: string, current: EditableFile | undefined): void {
+    const panel = this.conflictEl;
+    if (!panel) {
+      return;
+    }
+    panel.replaceChildren();
+
+    const heading = document.createElement('div');
+    heading.className = 'file-editor-conflict-heading';
+    heading.textContent = current
+      ? 'The file changed on disk since you opened it. Differences (disk → yours):'
+      : 'The file was deleted on disk since you opened it.';
+    panel.appendChild(heading);
+
+    if (current) {
+      const diffEl = document.createElement('pre');
+      diffEl.className = 'file-editor-diff';
+      for (const line of diffLines(splitLines(current.content), splitLines(mine))) {
+        const row = document.createElement('div');
+        row.className = `diff-${line.type}`;
+        const marker = line.type === 'insert' ? '+' : line.type === 'delete' ? '-' : ' ';
+        row.textContent = `${marker} ${line.text}`;
+        diffEl.appendChild(row);
+      }
+      panel.appendChild(diffEl);
+    }
+
+    const actions = document.createElement('div');
+    actions.className = 'file-editor-conflict-actions';
+    const addButton = (label: string, title: string, handler: () => void) => {
+      const btn = document.createElement('button');
+      btn.type = 'button';
+      btn.textContent = label;
+      btn.title = title;
+      btn.onclick = handler;
+      actions.appendChild(btn);
+    };
+
+    if (current) {
+      addButton('Merge', 'Combine both edits; overlapping changes get conflict markers', () => {
+        const merged = mergeThreeWay(this.base, mine, current.content);
+        this.acceptDiskVersion(current);
+        this.setContent(merged.text);
+        this.setStatus(
+          merged.conflicts > 0
+            ? `Merged with ${merged.conflicts} conflict(s): resolve the <<<<<<< markers, then save`
+            : 'Merged cleanly: review and save'
+        );
+      });
+    }
+    addButton('Overwrite with mine', 'Save my version over the file on disk', () => {
+      this.etag = current?.etag;
+      this.hideConflict();
+      this.save();
+    });
+    if (current) {
+      addButton('Take disk version', 'Discard my edits and load the file from disk', () => {
+        this.acceptDiskVersion(current);
+        this.setContent(current.content);
+        this.setStatus('Loaded the disk version');
+      });
+    }
+    addButton('Cancel', 'Keep editing without saving', () => this.hideConflict());
+
+    panel.appendChild(actions);
+    panel.classList.remove('hidden');
+  }
+
+  private acceptDiskVersion(current: EditableFile): void {
+    this.base = current.content;
+    this.etag = current.etag;
+    this.hideConflict();
+  }
+
+  private hideConflict(): void {
+    this.conflictEl?.classList.add('hidden');
+    this.conflictEl?.replaceChildren();
+  }
+
+  // === Rendering ===
+
+  private setContent(content: string): void {
+    if (this.textarea) {
+      this.textarea.value = content;
+    }
+    this.render();
+    this.textarea?.focus();
+  }
+
+  private scheduleRender(): void {
+    if (this.renderFrame !== null) {
+      return;
+    }
+    this.renderFrame = requestAnimationFrame(() => {
+      this.renderFrame = null;
+      this.render();
+    });
+  }
+
+  private render(): void {
+    if (!this.textarea || !this.highlightEl || !this.gutter) {
+      return;
+    }
+    const content = this.textarea.value;
+    // A trailing newline needs a character after it to get its own line box
+    const text = content.endsWith('\n') ? `${content} ` : content;
+    const highlighted = document.createDocumentFragment();
+    for (const token of tokenize(text, this.language)) {
+      if (token.type) {
+        const span = document.createElement('span');
+        span.className = `tok-${token.type}`;
+        span.textContent = token.text;
+        highlighted.appendChild(span);
+      } else {
+        highlighted.appendChild(document.createTextNode(token.text));
+      }
+    }
+    this.highlightEl.replaceChildren(highlighted);
+
+    const lineCount = splitLines(content).length;
+    if (lineCount !== this.lineCount) {
+      this.lineCount = lineCount;
+      const numbers = document.createDocumentFragment();
+      for (let i = 1; i <= lineCount; i++) {
+        const num = document.createElement('div');
+        num.textContent = String(i);
+        numbers.appendChild(num);
+      }
+      this.gutter.replaceChildren(numbers);
+      this.activeLine = null;
+    }
+    this.updateTitle();
+    this.syncScroll();
+  }
+
+  private setActiveLine(line: number): void {
+    if (!this.gutter || line === this.activeLine) {
+      return;
+    }
+    this.gutter.children[(this.activeLine ?? 0) - 1]?.classList.remove('active');
+    this.gutter.children[line - 1]?.classList.add('active');
+    this.activeLine = line;
+  }
+
+  private updateCursorLine(): void {
+    if (!this.textarea) {
+      return;
+    }
+    const before = this.textarea.value.slice(0, this.textarea.selectionStart);
+    this.setActiveLine(splitLines(before).length);
+  }
+
+  private syncScroll(): void {
+    if (!this.textarea || !this.highlightEl || !this.gutter) {
+      return;
+    }
+    this.highlightEl.style.transform = `translate(${-this.textarea.scrollLeft}px, ${-this.textarea.scrollTop}px)`;
+    this.gutter.scrollTop = this.textarea.scrollTop;
+  }
+
+  private updateTitle(): void {
+    if (this.titleEl && this.path) {
+      this.titleEl.textContent = this.isDirty() ? `● ${this.path}` : this.path;
+    }
+  }
+
+  private setStatus(message: string, type: 'info' | 'error' = 'info'): void {
+    if (this.statusEl) {
+      this.statusEl.textContent = message;
+      this.statusEl.classList.toggle('error', type === 'error');
+    }
+  }
+
+  // === DOM ===
+
+  private handleKeydown(e: KeyboardEvent): void {
+    const textarea = this.textarea;
+    // Keep editor keystrokes away from terminal shortcuts
+    e.stopPropagation();
+
+    if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 's') {
+      e.preventDefault();
+      this.save();
+    } else if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'g') {
+      e.preventDefault();
+      const input = window.prompt('Go to line[:column]');
+      const match = input?.trim().match(/^(\d+)(?::(\d+))?$/);
+      if (match) {
+        this.jumpTo(Number(match[1]), match[2] ? Number(match[2]) : 1);
+      }
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      this.close();
+    } else if (e.key === 'Tab' && !e.shiftKey && textarea && e.target === textarea) {
+      e.preventDefault();
+      textarea.setRangeText(TAB_TEXT, textarea.selectionStart, textarea.selectionEnd, 'end');
+      this.scheduleRender();
+    }
+  }
+
+  private ensureElements(): void {
+    if (this.root) {
+      return;
+    }
+
+    const root = document.createElement('div');
+    root.className = 'file-editor hidden';
+
+    const header = document.createElement('div');
+    header.className = 'file-editor-header';
+    const title = document.createElement('span');
+    title.className = 'file-editor-title';
+    const saveBtn = document.createElement('button');
+    saveBtn.type = 'button';
+    saveBtn.textContent = 'Save';
+    saveBtn.title = 'Save (Ctrl+S)';
+    saveBtn.onclick = () => this.save();
+    const closeBtn = document.createElement('button');
+    closeBtn.type = 'button';
+    closeBtn.className = 'file-editor-close';
+    closeBtn.textContent = '×';
+    closeBtn.title = 'Close (Esc)';
+    closeBtn.onclick = () => this.close();
+    header.append(title, saveBtn, closeBtn);
+
+    const conflict = document.createElement('div');
+    conflict.className = 'file-editor-conflict hidden';
+
+    const body = document.createElement('div');
+    body.className = 'file-editor-body';
+    const gutter = document.createElement('div');
+    gutter.className = 'file-editor-gutter';
+    const code = document.createElement('div');
+    code.className = 'file-editor-code';
+    const highlight = document.createElement('pre');
+    highlight.className = 'file-editor-highlight';
+    highlight.setAttribute('aria-hidden', 'true');
+    const textarea = document.createElement('textarea');
+    textarea.className = 'file-editor-input';
+    textarea.spellcheck = false;
+    textarea.wrap = 'off';
+    textarea.setAttribute('autocapitalize', 'off');
+    textarea.setAttribute('autocomplete', 'off');
+    code.append(highlight, textarea);
+    body.append(gutter, code);
+
+    const status = document.createElement('div');
+    status.className = 'file-editor-status';
+
+    root.append(header, conflict, body, status);
+    document.body.appendChild(root);
+
+    const onInput = () => this.scheduleRender();
+    const onScroll = () => this.syncScroll();
+    const onCursor = () => this.updateCursorLine();
+    const onKeydown = (e: KeyboardEvent) => this.handleKeydown(e);
+    // biome-ignore lint: cleaned up via cleanupFns
+    textarea.addEventListener('input', onInput);
+    // biome-ignore lint: cleaned up via cleanupFns
+    textarea.addEventListener('scroll', onScroll);
+    // biome-ignore lint: cleaned up via cleanupFns
+    textarea.addEventListener('keyup', onCursor);
+    // biome-ignore lint: cleaned up via cleanupFns
+    textarea.addEventListener('click', onCursor);
+    // biome-ignore lint: cleaned up via cleanupFns
+    root.addEventListener('keydown', onKeydown);
+    this.cleanupFns.push(() => {
+      textarea.removeEventListener('input', onInput);
+      textarea.removeEventListener('scroll', onScroll);
+      textarea.removeEventListener('keyup', onCursor);
+      textarea.removeEventListener('click', onCursor);
+      root.removeEventListener('keydown', onKeydown);
+    });
+
+    this.root = root;
+    this.titleEl = title;
+    this.statusEl = status;
+    this.gutter = gutter;
+    this.highlightEl = highlight;
+    this.textarea = textarea;
+    this.conflictEl = conflict;
+  }
+
+  /**
+   * Dispose resources
+   */
+  dispose(): void {
+    if (this.renderFrame !== null) {
+      cancelAnimationFrame(this.renderFrame);
+      this.renderFrame = null;
+    }
+    for (const cleanup of this.cleanupFns) {
+      cleanup();
+    }
+    this.cleanupFns = [];
+    this.root?.remove();
+    this.root = null;
+    this.titleEl = null;
+    this.statusEl = null;
+    this.gutter = null;
+    this.highlightEl = null;
+    this.textarea = null;
+    this.conflictEl = null;
+    this.path = null;
+  }
+}
@@ -2,10 +2,13 @@
  * PathLinkManager - File path detection and interactive link handling
  *
  * This module detects file paths in terminal output and converts them
- * to interactive links with an action popup (Preview / Download / Copy).
+ * to interactive links with an action popup (Preview / Edit / Download /
+ * Download as zip / Copy).
  */
 
 import type { IBufferLine, IDisposable, ILink, ILinkProvider, Terminal } from '@xterm/xterm';
+import { downloadArchive } from '@/features/file-transfer/client/ArchiveDownload.js';
+import { FileEditor } from './FileEditor.js';
 
 // Top-level regex patterns for performance
 const URL_PROTOCOL_PATTERN = /https?:\/?\/?$/;
@@ -54,6 +57,7 @@ export class PathLinkManager {
   private currentLink: PathLink | null = null;
   private disposables: IDisposable[] = [];
   private hidePopupTimer: number | null = null;
+  private editor: FileEditor | null = null;
 
   constructor(options: PathLinkManagerOptions) {
     this.terminal = options.terminal;
@@ -334,8 +338,10 @@ export class PathLinkManager {
     actionsDiv.className = 'popup-actions';
     const actionDefs = [
       { action: 'preview', label: '👁️ Preview' },
+      { action: 'edit', label: '✏️ Edit' },
       { action: 'copy-content', label: '📝 Copy Content' },
       { action: 'download', label: '📥 Download' },
+      { action: 'archive', label: '🗜 Download as zip' },
       { action: 'copy', label: '📋 Copy Path' },
       { action: 'copy-full', label: '📋 Copy Full Path' }
     ];
@@ -498,12 +504,18 @@ export class PathLinkManager {
       case 'preview':
         this.openPreview(link);
         break;
+      case 'edit':
+        this.openEditor(link);
+        break;
       case 'copy-content':
         this.copyFileContent(link);
         break;
       case 'download':
         this.downloadFile(link);
         break;
+      case 'archive':
+        this.downloadArchive(link);
+        break;
       case 'copy':
         this.copyPath(link, false);
         break;
@@ -533,6 +545,21 @@ export class PathLinkManager {
     window.open(url, '_blank', 'noopener,noreferrer');
   }
 
+  /**
+   * Open the file in the editor pane, at the link's line:column if present
+   */
+  private async openEditor(link: PathLink): Promise<void> {
+    if (!this.editor) {
+      this.editor = new FileEditor({ sessionName: this.sessionName, basePath: this.basePath });
+    }
+    try {
+      await this.editor.open(link.fullPath, link.line, link.column);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      this.showToast(`Cannot edit: ${message}`, 'error');
+    }
+  }
+
   /**
    * Download the file
    */
@@ -553,6 +580,22 @@ export class PathLinkManager {
     document.body.removeChild(a);
   }
 
+  /**
+   * Download the path (typically a directory) as a zip archive
+   */
+  private async downloadArchive(link: PathLink): Promise<void> {
+    try {
+      await downloadArchive({
+        basePath: this.basePath,
+        sessionName: this.sessionName,
+        paths: [link.fullPath]
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      this.showToast(`Cannot archive: ${message}`, 'error');
+    }
+  }
+
   /**
    * Copy file content to clipboard
    */
@@ -716,6 +759,9 @@ export class PathLinkManager {
       this.popup = null;
     }
 
+    this.editor?.dispose();
+    this.editor = null;
+
     this.currentLink = null;
   }
 }
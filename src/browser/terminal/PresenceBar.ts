@@ -0,0 +1,210 @@
+/**
+ * PresenceBar - Who is connected and who is driving
+ *
+ * Shown when more than one browser is attached to the session. Viewers
+ * see who holds control and can request it; the driver gets a prompt to
+ * grant or deny incoming requests and can hand control back.
+ */
+
+import { Scope } from '@/browser/shared/lifecycle.js';
+import type { Participant, PresenceMessage } from '@/core/protocol/index.js';
+
+export interface PresenceBarCallbacks {
+  onRequestControl: () => void;
+  onGrantControl: (participantId: string) => void;
+  onDenyControl: (participantId: string) => void;
+  onReleaseControl: () => void;
+}
+
+/** How long status notes ("Request sent", "Request denied") stay visible */
+const NOTE_TIMEOUT_MS = 4000;
+
+/**
+ * Format a participant for display (e.g. "alice (Mac)" or "iPhone")
+ */
+export function describeParticipant(participant: Participant): string {
+  return participant.user ? `${participant.user} (${participant.device})` : participant.device;
+}
+
+export class PresenceBar implements Disposable {
+  private readonly el: HTMLElement;
+  private readonly callbacks: PresenceBarCallbacks;
+  private presence: PresenceMessage | null = null;
+  /** Pending control requests (driver only), keyed by participant ID */
+  private readonly requests: Map<string, Participant> = new Map();
+  private note: string | null = null;
+  private noteTimer: number | null = null;
+  private renderScope: Scope | null = null;
+
+  constructor(callbacks: PresenceBarCallbacks) {
+    this.callbacks = callbacks;
+    this.el = document.createElement('div');
+    this.el.id = 'bunterm-presence-bar';
+    this.el.style.cssText =
+      'position:fixed;top:8px;right:12px;z-index:1000;display:none;' +
+      'flex-direction:column;gap:4px;align-items:flex-end;' +
+      'font-family:system-ui,sans-serif;font-size:12px;color:#ddd;';
+    document.body.appendChild(this.el);
+  }
+
+  /**
+   * Whether this client is a viewer (someone else is driving)
+   */
+  get isViewer(): boolean {
+    const presence = this.presence;
+    return presence !== null && presence.driverId !== null && presence.driverId !== presence.selfId;
+  }
+
+  /**
+   * Apply a presence update from the server
+   */
+  update(presence: PresenceMessage): void {
+    this.presence = presence;
+    // Drop requests from participants who left or no longer need control
+    const present = new Set(presence.participants.map((p) => p.id));
+    for (const id of this.requests.keys()) {
+      if (!present.has(id) || presence.driverId !== presence.selfId || id === presence.driverId) {
+        this.requests.delete(id);
+      }
+    }
+    this.render();
+  }
+
+  /**
+   * A viewer asked the driver (this client) for control
+   */
+  addRequest(participant: Participant): void {
+    this.requests.set(participant.id, participant);
+    this.render();
+  }
+
+  /**
+   * Show a short status note (e.g. "Request denied")
+   */
+  showNote(note: string): void {
+    this.note = note;
+    if (this.noteTimer !== null) {
+      window.clearTimeout(this.noteTimer);
+    }
+    this.noteTimer = window.setTimeout(() => {
+      this.note = null;
+      this.noteTimer = null;
+      this.render();
+    }, NOTE_TIMEOUT_MS);
+    this.render();
+  }
+
+  /**
+   * Forget the presence state (e.g. while reconnecting)
+   */
+  reset(): void {
+    this.presence = null;
+    this.requests.clear();
+    this.render();
+  }
+
+  private render(): void {
+    this.renderScope?.close();
+    this.renderScope = new Scope();
+    this.el.replaceChildren();
+
+    const presence = this.presence;
+    if (!presence || presence.participants.length <= 1) {
+      this.el.style.display = 'none';
+      return;
+    }
+    this.el.style.display = 'flex';
+    const scope = this.renderScope;
+
+    const status = this.createRow();
+    const isDriver = presence.driverId === presence.selfId;
+    const driver = presence.participants.find((p) => p.id === presence.driverId);
+    const others = presence.participants.filter((p) => p.id !== presence.selfId);
+    status.title = others.map((p) => `${describeParticipant(p)} — ${p.role}`).join('\n');
+
+    const label = document.createElement('span');
+    const count = `👥 ${presence.participants.length}`;
+    if (isDriver) {
+      label.textContent = `${count} · You are driving`;
+    } else if (driver) {
+      label.textContent = `${count} · ${describeParticipant(driver)} is driving`;
+    } else {
+      label.textContent = `${count} · Nobody is driving`;
+    }
+    status.appendChild(label);
+
+    const self = presence.participants.find((p) => p.id === presence.selfId);
+    if (isDriver) {
+      status.appendChild(
+        this.createButton(scope, 'Release', () => this.callbacks.onReleaseControl())
+      );
+    } else if (!self?.readOnly) {
+      status.appendChild(
+        this.createButton(scope, 'Request control', () => {
+          this.callbacks.onRequestControl();
+          if (driver) {
+            this.showNote('Request sent');
+          }
+        })
+      );
+    }
+    this.el.appendChild(status);
+
+    for (const request of this.requests.values()) {
+      const row = this.createRow();
+      const text = document.createElement('span');
+      text.textContent = `${describeParticipant(request)} wants control`;
+      row.appendChild(text);
+      row.appendChild(
+        this.createButton(scope, 'Grant', () => {
+          this.requests.delete(request.id);
+          this.callbacks.onGrantControl(request.id);
+          this.render();
+        })
+      );
+      row.appendChild(
+        this.createButton(scope, 'Deny', () => {
+          this.requests.delete(request.id);
+          this.callbacks.onDenyControl(request.id);
+          this.render();
+        })
+      );
+      this.el.appendChild(row);
+    }
+
+    if (this.note) {
+      const row = this.createRow();
+      row.textContent = this.note;
+      this.el.appendChild(row);
+    }
+  }
+
+  private createRow(): HTMLElement {
+    const row = document.createElement('div');
+    row.style.cssText =
+      'display:flex;gap:8px;align-items:center;padding:4px 10px;border-radius:14px;' +
+      'background:rgba(30,30,30,0.85);box-shadow:0 2px 8px rgba(0,0,0,0.3);';
+    return row;
+  }
+
+  private createButton(scope: Scope, text: string, onClick: () => void): HTMLButtonElement {
+    const button = document.createElement('button');
+    button.type = 'button';
+    button.textContent = text;
+    button.style.cssText =
+      'background:#3a3a3a;color:#fff;border:1px solid #555;border-radius:10px;' +
+      'padding:2px 8px;font-size:12px;cursor:pointer;';
+    scope.on(button, 'click', onClick);
+    return button;
+  }
+
+  [Symbol.dispose](): void {
+    if (this.noteTimer !== null) {
+      window.clearTimeout(this.noteTimer);
+      this.noteTimer = null;
+    }
+    this.renderScope?.close();
+    this.renderScope = null;
+    this.el.remove();
+  }
+}
@@ -2,13 +2,15 @@
  * AI Chat Pane Component
  *
  * Right pane containing AI chat interface.
+ * The History view replaces the conversation with the saved-thread browser.
  */
 
-import { type FC, useCallback } from 'react';
+import { type FC, useCallback, useState } from 'react';
 import { useChatStore } from '@/browser/terminal/app/stores/chatStore.js';
 import { ChatInput } from './ChatInput.js';
 import { ChatThread } from './ChatThread.js';
 import { ContextTray } from './ContextTray.js';
+import { HistoryBrowser } from './HistoryBrowser.js';
 import { SuggestedActions } from './SuggestedActions.js';
 
 export interface AIChatPaneProps {
@@ -26,6 +28,8 @@ export const AIChatPane: FC<AIChatPaneProps> = ({
 }) => {
   const clearMessages = useChatStore((s) => s.clearMessages);
   const messages = useChatStore((s) => s.messages);
+  const [showHistory, setShowHistory] = useState(false);
+  const closeHistory = useCallback(() => setShowHistory(false), []);
 
   // Handle citation click
   const handleCitationClick = useCallback(
@@ -57,7 +61,15 @@ export const AIChatPane: FC<AIChatPaneProps> = ({
           <span style={styles.sessionName}>{sessionName}</span>
         </div>
         <div style={styles.headerRight}>
-          {messages.length > 0 && (
+          <button
+            type="button"
+            style={showHistory ? styles.activeButton : styles.clearButton}
+            onClick={() => setShowHistory((prev) => !prev)}
+            title="Saved threads and history search"
+          >
+            History
+          </button>
+          {!showHistory && messages.length > 0 && (
             <button
               type="button"
               style={styles.clearButton}
@@ -70,17 +82,27 @@ export const AIChatPane: FC<AIChatPaneProps> = ({
         </div>
       </div>
 
-      {/* Context tray */}
-      <ContextTray />
+      {showHistory ? (
+        <HistoryBrowser sessionId={sessionId} onClose={closeHistory} />
+      ) : (
+        <>
+          {/* Context tray */}
+          <ContextTray />
 
-      {/* Chat thread */}
-      <ChatThread onCitationClick={handleCitationClick} onCommandClick={handleCommandClick} />
+          {/* Chat thread */}
+          <ChatThread
+            sessionId={sessionId}
+            onCitationClick={handleCitationClick}
+            onCommandClick={handleCommandClick}
+          />
 
-      {/* Suggested actions */}
-      <SuggestedActions sessionId={sessionId} />
+          {/* Suggested actions */}
+          <SuggestedActions sessionId={sessionId} />
 
-      {/* Input */}
-      <ChatInput sessionId={sessionId} />
+          {/* Input */}
+          <ChatInput sessionId={sessionId} />
+        </>
+      )}
     </div>
   );
 };
@@ -129,5 +151,14 @@ const styles: Record<string, React.CSSProperties> = {
     border: '1px solid #555',
     borderRadius: '4px',
     cursor: 'pointer'
+  },
+  activeButton: {
+    padding: '4px 8px',
+    fontSize: '11px',
+    color: '#fff',
+    backgroundColor: 'rgba(59, 130, 246, 0.3)',
+    border: '1px solid #3b82f6',
+    borderRadius: '4px',
+    cursor: 'pointer'
   }
 };
@@ -19,6 +19,8 @@ export const ChatInput: FC<ChatInputProps> = ({ sessionId, disabled = false }) =
   const setInputValue = useChatStore((s) => s.setInputValue);
   const sendMessage = useChatStore((s) => s.sendMessage);
   const isLoading = useChatStore((s) => s.isLoading);
+  const isStreaming = useChatStore((s) => s.activeRun !== null);
+  const cancelRun = useChatStore((s) => s.cancelRun);
   const contextBlockIds = useChatStore((s) => s.contextBlockIds);
   const contextFiles = useChatStore((s) => s.contextFiles);
 
@@ -100,21 +102,32 @@ export const ChatInput: FC<ChatInputProps> = ({ sessionId, disabled = false }) =
           style={styles.textarea}
         />
 
-        {/* Submit button */}
-        <button
-          type="submit"
-          disabled={isDisabled || !inputValue.trim()}
-          style={{
-            ...styles.submitButton,
-            ...(isDisabled || !inputValue.trim() ? styles.submitButtonDisabled : {})
-          }}
-        >
-          {isLoading ? (
-            <span style={styles.spinner}>⏳</span>
-          ) : (
-            <span style={styles.sendIcon}>↑</span>
-          )}
-        </button>
+        {/* Submit button (stops the run while it streams) */}
+        {isStreaming ? (
+          <button
+            type="button"
+            onClick={() => cancelRun()}
+            title="Stop generating"
+            style={styles.submitButton}
+          >
+            <span style={styles.sendIcon}>■</span>
+          </button>
+        ) : (
+          <button
+            type="submit"
+            disabled={isDisabled || !inputValue.trim()}
+            style={{
+              ...styles.submitButton,
+              ...(isDisabled || !inputValue.trim() ? styles.submitButtonDisabled : {})
+            }}
+          >
+            {isLoading ? (
+              <span style={styles.spinner}>⏳</span>
+            ) : (
+              <span style={styles.sendIcon}>↑</span>
+            )}
+          </button>
+        )}
       </div>
 
       {/* Bottom bar */}
@@ -2,20 +2,25 @@
  * Chat Thread Component
  *
  * Displays chat messages with AI responses.
+ * Suggested commands can be pasted into the terminal or run with approval.
  */
 
 import { type FC, useEffect, useRef } from 'react';
 import { type ChatMessage, useChatStore } from '@/browser/terminal/app/stores/chatStore.js';
 import type { Citation, NextCommand } from '@/features/ai/server/types.js';
+import { RunCommandControl } from './RunCommandControl.js';
 
 export interface ChatThreadProps {
+  /** Session suggested commands run in (no Run buttons without it) */
+  sessionId?: string;
   onCitationClick?: (blockId: string) => void;
   onCommandClick?: (command: string) => void;
 }
 
-export const ChatThread: FC<ChatThreadProps> = ({ onCitationClick, onCommandClick }) => {
+export const ChatThread: FC<ChatThreadProps> = ({ sessionId, onCitationClick, onCommandClick }) => {
   const messages = useChatStore((s) => s.messages);
   const isLoading = useChatStore((s) => s.isLoading);
+  const isStreaming = useChatStore((s) => s.streamingRun !== null);
   const scrollRef = useRef<HTMLDivElement>(null);
 
   // Auto-scroll to bottom on new messages
@@ -38,14 +43,15 @@ export const ChatThread: FC<ChatThreadProps> = ({ onCitationClick, onCommandClic
           <MessageItem
             key={message.id}
             message={message}
+            sessionId={sessionId}
             onCitationClick={onCitationClick}
             onCommandClick={onCommandClick}
           />
         ))
       )}
 
-      {/* Loading indicator */}
-      {isLoading && (
+      {/* Loading indicator (until the first streamed content arrives) */}
+      {isLoading && !isStreaming && (
         <div style={styles.loading}>
           <span style={styles.loadingDot}>●</span>
           <span style={styles.loadingDot}>●</span>
@@ -59,11 +65,17 @@ export const ChatThread: FC<ChatThreadProps> = ({ onCitationClick, onCommandClic
 // Message item component
 interface MessageItemProps {
   message: ChatMessage;
+  sessionId?: string;
   onCitationClick?: (blockId: string) => void;
   onCommandClick?: (command: string) => void;
 }
 
-const MessageItem: FC<MessageItemProps> = ({ message, onCitationClick, onCommandClick }) => {
+const MessageItem: FC<MessageItemProps> = ({
+  message,
+  sessionId,
+  onCitationClick,
+  onCommandClick
+}) => {
   const isUser = message.role === 'user';
   const isError = message.role === 'system' || message.error;
 
@@ -91,7 +103,12 @@ const MessageItem: FC<MessageItemProps> = ({ message, onCitationClick, onCommand
 
       {/* Suggested commands */}
       {message.nextCommands && message.nextCommands.length > 0 && (
-        <SuggestedCommands commands={message.nextCommands} onClick={onCommandClick} />
+        <SuggestedCommands
+          commands={message.nextCommands}
+          sessionId={sessionId}
+          runId={message.runId}
+          onClick={onCommandClick}
+        />
       )}
     </div>
   );
@@ -123,31 +140,53 @@ const Citations: FC<CitationsProps> = ({ citations, onClick }) => (
 // Suggested commands component
 interface SuggestedCommandsProps {
   commands: NextCommand[];
+  sessionId?: string;
+  runId?: string;
   onClick?: (command: string) => void;
 }
 
-const SuggestedCommands: FC<SuggestedCommandsProps> = ({ commands, onClick }) => (
-  <div style={styles.commands}>
-    <div style={styles.commandsHeader}>Suggested commands:</div>
-    {commands.map((cmd, index) => (
-      <button
-        key={`${cmd.command}-${index}`}
-        type="button"
-        style={{
-          ...styles.command,
-          borderColor: getRiskColor(cmd.risk)
-        }}
-        onClick={() => onClick?.(cmd.command)}
-        title={cmd.description}
-      >
-        <span style={styles.commandText}>{cmd.command}</span>
-        <span style={{ ...styles.riskBadge, backgroundColor: getRiskColor(cmd.risk) }}>
-          {cmd.risk}
-        </span>
-      </button>
-    ))}
-  </div>
-);
+const SuggestedCommands: FC<SuggestedCommandsProps> = ({ commands, sessionId, runId, onClick }) => {
+  const commandMode = useChatStore((s) => s.commandMode);
+  const setCommandMode = useChatStore((s) => s.setCommandMode);
+
+  return (
+    <div style={styles.commands}>
+      <div style={styles.commandsHeader}>
+        <span>Suggested commands:</span>
+        {sessionId && (
+          <select
+            style={styles.modeSelect}
+            value={commandMode}
+            onChange={(e) => setCommandMode(e.target.value as typeof commandMode)}
+            title="Where Run executes commands"
+          >
+            <option value="ephemeral">new shell</option>
+            <option value="persistent">session shell</option>
+          </select>
+        )}
+      </div>
+      {commands.map((cmd, index) => (
+        <div key={`${cmd.command}-${index}`} style={styles.commandRow}>
+          <button
+            type="button"
+            style={{
+              ...styles.command,
+              borderColor: getRiskColor(cmd.risk)
+            }}
+            onClick={() => onClick?.(cmd.command)}
+            title={`${cmd.description}\n(click to paste into the terminal)`}
+          >
+            <span style={styles.commandText}>{cmd.command}</span>
+            <span style={{ ...styles.riskBadge, backgroundColor: getRiskColor(cmd.risk) }}>
+              {cmd.risk}
+            </span>
+          </button>
+          {sessionId && <RunCommandControl sessionId={sessionId} command={cmd} runId={runId} />}
+        </div>
+      ))}
+    </div>
+  );
+};
 
 // Helper functions
 function formatTime(timestamp: string): string {
@@ -260,9 +299,9 @@ const styles: Record<string, React.CSSProperties> = {
     border: 'none',
     borderRadius: '4px',
     cursor: 'pointer',
-    marginBottom: '4px',
     textAlign: 'left',
-    width: '100%'
+    flex: 1,
+    minWidth: 0
   },
   citationId: {
     color: '#64b5f6',
@@ -281,10 +320,27 @@ const styles: Record<string, React.CSSProperties> = {
     borderTop: '1px solid rgba(255, 255, 255, 0.1)'
   },
   commandsHeader: {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'space-between',
     fontSize: '11px',
     color: '#888',
     marginBottom: '6px'
   },
+  modeSelect: {
+    fontSize: '10px',
+    color: '#aaa',
+    backgroundColor: '#222',
+    border: '1px solid #444',
+    borderRadius: '3px'
+  },
+  commandRow: {
+    display: 'flex',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    gap: '6px',
+    marginBottom: '4px'
+  },
   command: {
     display: 'flex',
     alignItems: 'center',
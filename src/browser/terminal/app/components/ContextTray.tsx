@@ -19,6 +19,7 @@ export const ContextTray: FC<ContextTrayProps> = ({ onClose: _onClose }) => {
 
   // Chat state
   const contextBlockIds = useChatStore((s) => s.contextBlockIds);
+  const contextBlockLabels = useChatStore((s) => s.contextBlockLabels);
   const removeContextBlock = useChatStore((s) => s.removeContextBlock);
   const clearContextBlocks = useChatStore((s) => s.clearContextBlocks);
 
@@ -34,6 +35,13 @@ export const ContextTray: FC<ContextTrayProps> = ({ onClose: _onClose }) => {
       .filter((b): b is NonNullable<typeof b> => b !== undefined);
   }, [contextBlockIds, blocks]);
 
+  // Blocks of suggested commands run from the chat (not in the terminal pane)
+  const commandBlocks = useMemo(() => {
+    return contextBlockIds
+      .filter((id) => contextBlockLabels[id] && !blocks.some((b) => b.id === id))
+      .map((id) => ({ id, command: contextBlockLabels[id] ?? id }));
+  }, [contextBlockIds, contextBlockLabels, blocks]);
+
   // Estimate context size (blocks + files)
   const contextEstimate = useMemo(() => {
     let totalChars = 0;
@@ -89,7 +97,7 @@ export const ContextTray: FC<ContextTrayProps> = ({ onClose: _onClose }) => {
       </div>
 
       {/* Block list */}
-      {contextBlocks.length > 0 && (
+      {(contextBlocks.length > 0 || commandBlocks.length > 0) && (
         <div style={styles.blockList}>
           {contextBlocks.map((block) => (
             <div key={block.id} style={styles.blockItem}>
@@ -107,6 +115,20 @@ export const ContextTray: FC<ContextTrayProps> = ({ onClose: _onClose }) => {
               </button>
             </div>
           ))}
+          {commandBlocks.map((block) => (
+            <div key={block.id} style={styles.blockItem} title="Run from the AI chat">
+              <span style={{ ...styles.statusDot, backgroundColor: '#3a86ff' }} />
+              <span style={styles.command}>{truncateCommand(block.command, 40)}</span>
+              <button
+                type="button"
+                style={styles.removeButton}
+                onClick={() => removeContextBlock(block.id)}
+                title="Remove from context"
+              >
+                ×
+              </button>
+            </div>
+          ))}
         </div>
       )}
 
@@ -0,0 +1,311 @@
+/**
+ * History Browser Component
+ *
+ * Lists the session's saved AI threads and searches the whole history
+ * (questions, answers and context). A thread can be reopened, exported
+ * as Markdown/JSON, or deleted.
+ */
+
+import { type FC, Fragment, useCallback, useEffect, useState } from 'react';
+import { useChatStore } from '@/browser/terminal/app/stores/chatStore.js';
+import type { AIHistorySearchHit, AIThread } from '@/features/ai/server/types.js';
+
+export interface HistoryBrowserProps {
+  sessionId: string;
+  /** Called after a thread has been opened */
+  onClose: () => void;
+}
+
+// API base path
+const getApiBasePath = (): string => {
+  const config = (window as unknown as { __TERMINAL_UI_CONFIG__?: { base_path?: string } })
+    .__TERMINAL_UI_CONFIG__;
+  return config?.base_path ?? '/bunterm';
+};
+
+const threadUrl = (threadId: string): string =>
+  `${getApiBasePath()}/api/ai/threads/${encodeURIComponent(threadId)}`;
+
+/**
+ * Render a search snippet, turning <mark></mark> markers into highlights
+ * without interpreting the rest as HTML
+ */
+function renderSnippet(snippet: string): React.ReactNode {
+  return snippet.split('<mark>').map((part, i) => {
+    const [marked, rest] = i === 0 ? [null, part] : part.split('</mark>', 2);
+    return (
+      <Fragment key={i}>
+        {marked !== null && <mark style={styles.mark}>{marked}</mark>}
+        {rest}
+      </Fragment>
+    );
+  });
+}
+
+export const HistoryBrowser: FC<HistoryBrowserProps> = ({ sessionId, onClose }) => {
+  const [threads, setThreads] = useState<AIThread[]>([]);
+  const [query, setQuery] = useState('');
+  const [hits, setHits] = useState<AIHistorySearchHit[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadThread = useChatStore((s) => s.loadThread);
+  const currentThreadId = useChatStore((s) => s.threadId);
+  const clearMessages = useChatStore((s) => s.clearMessages);
+
+  const fetchThreads = useCallback(async () => {
+    try {
+      const response = await fetch(
+        `${getApiBasePath()}/api/ai/sessions/${encodeURIComponent(sessionId)}/threads`
+      );
+      if (!response.ok) {
+        throw new Error(`Failed to load history: ${response.status}`);
+      }
+      const data = (await response.json()) as AIThread[];
+      setThreads(data.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt)));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load history');
+    }
+  }, [sessionId]);
+
+  useEffect(() => {
+    fetchThreads();
+  }, [fetchThreads]);
+
+  // Debounced full-text search
+  useEffect(() => {
+    const q = query.trim();
+    if (!q) {
+      setHits(null);
+      return;
+    }
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch(
+          `${getApiBasePath()}/api/ai/history/search?q=${encodeURIComponent(q)}&limit=30`
+        );
+        if (!response.ok) {
+          throw new Error(`Search failed: ${response.status}`);
+        }
+        const data = (await response.json()) as { hits: AIHistorySearchHit[] };
+        setHits(data.hits);
+        setError(null);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Search failed');
+      }
+    }, 250);
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  const openThread = useCallback(
+    async (threadId: string) => {
+      try {
+        const response = await fetch(threadUrl(threadId));
+        if (!response.ok) {
+          throw new Error(`Failed to open thread: ${response.status}`);
+        }
+        loadThread((await response.json()) as AIThread);
+        onClose();
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to open thread');
+      }
+    },
+    [loadThread, onClose]
+  );
+
+  const deleteThread = useCallback(
+    async (threadId: string) => {
+      if (!window.confirm('Delete this thread from the history?')) {
+        return;
+      }
+      try {
+        const response = await fetch(threadUrl(threadId), { method: 'DELETE' });
+        if (!response.ok) {
+          throw new Error(`Failed to delete thread: ${response.status}`);
+        }
+        if (threadId === currentThreadId) {
+          clearMessages();
+        }
+        setHits((prev) => prev?.filter((hit) => hit.threadId !== threadId) ?? null);
+        await fetchThreads();
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to delete thread');
+      }
+    },
+    [currentThreadId, clearMessages, fetchThreads]
+  );
+
+  const renderActions = (threadId: string) => (
+    <span style={styles.actions}>
+      <a style={styles.action} href={`${threadUrl(threadId)}/export?format=markdown`} download>
+        .md
+      </a>
+      <a style={styles.action} href={`${threadUrl(threadId)}/export?format=json`} download>
+        .json
+      </a>
+      <button
+        type="button"
+        style={styles.deleteButton}
+        onClick={() => deleteThread(threadId)}
+        title="Delete thread"
+      >
+        ×
+      </button>
+    </span>
+  );
+
+  return (
+    <div style={styles.container}>
+      <input
+        type="search"
+        style={styles.search}
+        placeholder="Search all AI history..."
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+      />
+
+      {error && <div style={styles.error}>{error}</div>}
+
+      <div style={styles.list}>
+        {hits !== null ? (
+          hits.length === 0 ? (
+            <div style={styles.empty}>No matches</div>
+          ) : (
+            hits.map((hit) => (
+              <div key={hit.runId} style={styles.item}>
+                <button
+                  type="button"
+                  style={styles.itemBody}
+                  onClick={() => openThread(hit.threadId)}
+                >
+                  <span style={styles.question}>{hit.question}</span>
+                  <span style={styles.snippet}>{renderSnippet(hit.snippet)}</span>
+                  <span style={styles.meta}>
+                    {hit.sessionId} · {hit.runner} · {new Date(hit.createdAt).toLocaleString()}
+                  </span>
+                </button>
+                {renderActions(hit.threadId)}
+              </div>
+            ))
+          )
+        ) : threads.length === 0 ? (
+          <div style={styles.empty}>No saved threads for this session</div>
+        ) : (
+          threads.map((thread) => (
+            <div
+              key={thread.id}
+              style={thread.id === currentThreadId ? styles.itemActive : styles.item}
+            >
+              <button type="button" style={styles.itemBody} onClick={() => openThread(thread.id)}>
+                <span style={styles.question}>{thread.runs[0]?.request.question ?? thread.id}</span>
+                <span style={styles.meta}>
+                  {thread.runs.length} {thread.runs.length === 1 ? 'run' : 'runs'} ·{' '}
+                  {new Date(thread.updatedAt).toLocaleString()}
+                </span>
+              </button>
+              {renderActions(thread.id)}
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
+
+const item: React.CSSProperties = {
+  display: 'flex',
+  alignItems: 'flex-start',
+  gap: '6px',
+  padding: '8px',
+  borderBottom: '1px solid #2a2a2a'
+};
+
+const styles: Record<string, React.CSSProperties> = {
+  container: {
+    display: 'flex',
+    flexDirection: 'column',
+    flex: 1,
+    minHeight: 0
+  },
+  search: {
+    margin: '8px 12px',
+    padding: '6px 8px',
+    fontSize: '12px',
+    color: '#fff',
+    backgroundColor: '#252525',
+    border: '1px solid #444',
+    borderRadius: '4px'
+  },
+  error: {
+    padding: '4px 12px',
+    fontSize: '11px',
+    color: '#f87171'
+  },
+  list: {
+    flex: 1,
+    overflowY: 'auto',
+    padding: '0 4px'
+  },
+  empty: {
+    padding: '16px',
+    fontSize: '12px',
+    color: '#666',
+    textAlign: 'center'
+  },
+  item,
+  itemActive: {
+    ...item,
+    backgroundColor: 'rgba(59, 130, 246, 0.12)'
+  },
+  itemBody: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '3px',
+    flex: 1,
+    minWidth: 0,
+    padding: 0,
+    textAlign: 'left',
+    background: 'none',
+    border: 'none',
+    cursor: 'pointer'
+  },
+  question: {
+    fontSize: '12px',
+    color: '#ddd',
+    overflow: 'hidden',
+    textOverflow: 'ellipsis',
+    whiteSpace: 'nowrap'
+  },
+  snippet: {
+    fontSize: '11px',
+    color: '#aaa',
+    lineHeight: 1.4
+  },
+  mark: {
+    color: '#111',
+    backgroundColor: '#facc15',
+    borderRadius: '2px'
+  },
+  meta: {
+    fontSize: '10px',
+    color: '#777'
+  },
+  actions: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '6px',
+    flexShrink: 0
+  },
+  action: {
+    fontSize: '10px',
+    color: '#888'
+  },
+  deleteButton: {
+    padding: '0 4px',
+    fontSize: '14px',
+    color: '#888',
+    backgroundColor: 'transparent',
+    border: 'none',
+    cursor: 'pointer'
+  }
+};
@@ -0,0 +1,205 @@
+/**
+ * Run Command Control
+ *
+ * Approve-and-run for an AI suggested command. The approval step scales
+ * with the command's risk (decided by the server):
+ * - click:   runs immediately
+ * - confirm: asks once more
+ * - typed:   the command has to be typed back
+ * - denied:  blocked by ai_chat.command_deny_patterns
+ */
+
+import { type FC, useCallback, useState } from 'react';
+import { useChatStore } from '@/browser/terminal/app/stores/chatStore.js';
+import type { CommandApproval, CommandRisk, NextCommand } from '@/features/ai/server/types.js';
+
+export interface RunCommandControlProps {
+  sessionId: string;
+  command: NextCommand;
+  /** Run that suggested the command */
+  runId?: string;
+}
+
+type Phase = 'idle' | 'confirming' | 'running' | 'started';
+
+const APPROVAL_BY_RISK: Record<CommandRisk, CommandApproval> = {
+  safe: 'click',
+  caution: 'confirm',
+  dangerous: 'typed'
+};
+
+export const RunCommandControl: FC<RunCommandControlProps> = ({ sessionId, command, runId }) => {
+  const runSuggestedCommand = useChatStore((s) => s.runSuggestedCommand);
+  const [phase, setPhase] = useState<Phase>('idle');
+  const [typed, setTyped] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  // Responses saved before approvals existed only carry the risk
+  const approval = command.approval ?? APPROVAL_BY_RISK[command.risk];
+
+  const run = useCallback(
+    async (confirmation?: string) => {
+      setPhase('running');
+      setError(null);
+      const result = await runSuggestedCommand(sessionId, command, { runId, confirmation });
+      if (result.ok) {
+        setPhase('started');
+      } else {
+        setError(result.error);
+        setPhase('idle');
+      }
+    },
+    [runSuggestedCommand, sessionId, command, runId]
+  );
+
+  const handleRunClick = useCallback(() => {
+    if (approval === 'click') {
+      run();
+    } else {
+      setTyped('');
+      setPhase('confirming');
+    }
+  }, [approval, run]);
+
+  if (approval === 'denied') {
+    return (
+      <span style={styles.denied} title="Blocked by ai_chat.command_deny_patterns">
+        blocked
+      </span>
+    );
+  }
+
+  if (phase === 'started') {
+    return <span style={styles.started}>✓ started · in context</span>;
+  }
+
+  if (phase === 'confirming') {
+    const typedOk = typed.trim() === command.command.trim();
+    return (
+      <div style={styles.confirm}>
+        {approval === 'typed' ? (
+          <>
+            <span style={styles.confirmLabel}>Dangerous. Type the command to run it:</span>
+            <input
+              type="text"
+              style={styles.confirmInput}
+              value={typed}
+              onChange={(e) => setTyped(e.target.value)}
+              placeholder={command.command}
+              spellCheck={false}
+              autoComplete="off"
+            />
+          </>
+        ) : (
+          <span style={styles.confirmLabel}>Run this command?</span>
+        )}
+        <span style={styles.confirmButtons}>
+          <button
+            type="button"
+            style={{
+              ...styles.runButton,
+              ...(approval === 'typed' && !typedOk ? styles.disabled : {})
+            }}
+            disabled={approval === 'typed' && !typedOk}
+            onClick={() => run(approval === 'typed' ? typed : 'confirmed')}
+          >
+            Run
+          </button>
+          <button type="button" style={styles.cancelButton} onClick={() => setPhase('idle')}>
+            Cancel
+          </button>
+        </span>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <button
+        type="button"
+        style={{ ...styles.runButton, ...(phase === 'running' ? styles.disabled : {}) }}
+        disabled={phase === 'running'}
+        onClick={handleRunClick}
+        title="Run and attach the output to the AI context"
+      >
+        {phase === 'running' ? '…' : '▶ Run'}
+      </button>
+      {error && (
+        <span style={styles.error} title={error}>
+          {error}
+        </span>
+      )}
+    </>
+  );
+};
+
+const styles: Record<string, React.CSSProperties> = {
+  runButton: {
+    padding: '2px 8px',
+    fontSize: '11px',
+    color: '#fff',
+    backgroundColor: '#2d6a4f',
+    border: 'none',
+    borderRadius: '3px',
+    cursor: 'pointer',
+    flexShrink: 0
+  },
+  cancelButton: {
+    padding: '2px 8px',
+    fontSize: '11px',
+    color: '#aaa',
+    backgroundColor: 'transparent',
+    border: '1px solid #555',
+    borderRadius: '3px',
+    cursor: 'pointer'
+  },
+  disabled: {
+    opacity: 0.4,
+    cursor: 'not-allowed'
+  },
+  denied: {
+    padding: '2px 6px',
+    fontSize: '10px',
+    color: '#f44336',
+    border: '1px solid #f44336',
+    borderRadius: '3px',
+    flexShrink: 0
+  },
+  started: {
+    fontSize: '10px',
+    color: '#4caf50',
+    flexShrink: 0
+  },
+  error: {
+    fontSize: '10px',
+    color: '#f87171',
+    overflow: 'hidden',
+    textOverflow: 'ellipsis',
+    whiteSpace: 'nowrap',
+    maxWidth: '160px'
+  },
+  confirm: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '4px',
+    width: '100%',
+    marginTop: '4px'
+  },
+  confirmLabel: {
+    fontSize: '11px',
+    color: '#ff9800'
+  },
+  confirmInput: {
+    padding: '4px 6px',
+    fontSize: '11px',
+    fontFamily: 'monospace',
+    color: '#fff',
+    backgroundColor: '#1a1a1a',
+    border: '1px solid #f44336',
+    borderRadius: '3px'
+  },
+  confirmButtons: {
+    display: 'flex',
+    gap: '6px'
+  }
+};
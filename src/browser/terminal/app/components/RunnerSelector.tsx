@@ -8,6 +8,9 @@ import { type FC, useCallback, useEffect, useState } from 'react';
 import { useChatStore } from '@/browser/terminal/app/stores/chatStore.js';
 import type { RunnerName, RunnerStatus } from '@/features/ai/server/types.js';
 
+/** Built-in CLI runners (anything else is a configured HTTP runner) */
+const CLI_RUNNERS: RunnerName[] = ['claude', 'codex', 'gemini'];
+
 export interface RunnerSelectorProps {
   disabled?: boolean;
 }
@@ -36,7 +39,7 @@ export const RunnerSelector: FC<RunnerSelectorProps> = ({ disabled = false }) =>
 
   // Get display name for runner
   const getRunnerDisplay = (name: RunnerName, status?: RunnerStatus): string => {
-    const displayNames: Record<RunnerName, string> = {
+    const displayNames: Partial<Record<RunnerName, string>> = {
       claude: 'Claude',
       codex: 'Codex',
       gemini: 'Gemini',
@@ -74,7 +77,13 @@ export const RunnerSelector: FC<RunnerSelectorProps> = ({ disabled = false }) =>
 
   // Get best available runner for auto mode
   const getBestRunner = (): string => {
-    const preferredOrder: RunnerName[] = ['claude', 'gemini', 'codex'];
+    // CLI runners first, then configured HTTP runners
+    const preferredOrder: RunnerName[] = [
+      'claude',
+      'gemini',
+      'codex',
+      ...availableRunners.map((r) => r.name).filter((name) => !CLI_RUNNERS.includes(name))
+    ];
     for (const name of preferredOrder) {
       const status = availableRunners.find((r) => r.name === name);
       if (status?.available && status?.authenticated) {
@@ -152,7 +161,7 @@ export const RunnerSelector: FC<RunnerSelectorProps> = ({ disabled = false }) =>
               <span style={styles.optionDesc}>
                 {runner.available
                   ? runner.authenticated
-                    ? (runner.version ?? '')
+                    ? (runner.model ?? runner.version ?? '')
                     : 'Not authenticated'
                   : 'Not installed'}
               </span>
@@ -7,6 +7,8 @@ export { BlockOverlay, type BlockOverlayProps } from './BlockOverlay.js';
 export { ChatInput, type ChatInputProps } from './ChatInput.js';
 export { ChatThread, type ChatThreadProps } from './ChatThread.js';
 export { ContextTray, type ContextTrayProps } from './ContextTray.js';
+export { HistoryBrowser, type HistoryBrowserProps } from './HistoryBrowser.js';
+export { RunCommandControl, type RunCommandControlProps } from './RunCommandControl.js';
 export { RunnerSelector, type RunnerSelectorProps } from './RunnerSelector.js';
 export { SplitPane, type SplitPaneProps } from './SplitPane.js';
 export { SuggestedActions, type SuggestedActionsProps } from './SuggestedActions.js';
@@ -141,6 +141,16 @@ export function useTerminal(options: UseTerminalOptions): UseTerminalReturn {
           }
           break;
 
+        case 'snapshot':
+          // Full screen state from the server: replaces whatever is on screen
+          if (message.data && terminalRef.current) {
+            const bytes = Uint8Array.from(atob(message.data), (c) => c.charCodeAt(0));
+            const decoder = new TextDecoder('utf-8', { fatal: false });
+            terminalRef.current.reset();
+            terminalRef.current.write(decoder.decode(bytes));
+          }
+          break;
+
         case 'title':
           if (message.title) {
             document.title = message.title;
@@ -1,20 +1,23 @@
 /**
  * Chat Store (Zustand)
  *
- * State management for AI chat with WebSocket streaming support.
+ * State management for AI chat with streaming support.
  * Includes:
+ * - Runs streamed over SSE (POST /api/ai/runs, then /api/ai/runs/:runId/stream)
  * - Sec-WebSocket-Protocol token authentication
  * - ai_stream + ai_final gap compensation
  * - Sequence gap detection and recovery
  */
 
 import { create } from 'zustand';
+import { Scope } from '@/browser/shared/lifecycle.js';
 import {
-  getAllBlockContents,
+  getBlockContent,
   removeBlockContent
 } from '@/browser/terminal/app/hooks/useBlockContextBridge.js';
+import type { ExecutionMode } from '@/core/protocol/index.js';
 import type {
-  AIChatResponse,
+  AIThread,
   Citation,
   FileSource,
   NextCommand,
@@ -55,6 +58,16 @@ interface StreamingRunState {
   gapDetected: boolean;
 }
 
+/** Run whose SSE stream is open */
+interface ActiveRunState {
+  runId: string;
+  /** Owns the EventSource and its listeners */
+  scope: Scope;
+}
+
+/** Outcome of running a suggested command */
+export type RunCommandResult = { ok: true; blockId: string } | { ok: false; error: string };
+
 /** Maximum number of context files */
 const MAX_CONTEXT_FILES = 5;
 
@@ -69,6 +82,11 @@ export interface ChatStoreState {
 
   // Context - blocks
   contextBlockIds: string[];
+  /** Commands of context blocks run from the chat (not shown in the terminal pane) */
+  contextBlockLabels: Record<string, string>;
+
+  // Suggested command execution
+  commandMode: ExecutionMode;
 
   // Context - files
   contextFiles: ContextFileRef[];
@@ -85,6 +103,9 @@ export interface ChatStoreState {
   wsConnection: WebSocket | null;
   streamingRun: StreamingRunState | null;
 
+  // SSE run streaming
+  activeRun: ActiveRunState | null;
+
   // Actions
   addMessage: (message: ChatMessage) => void;
   updateMessage: (id: string, updates: Partial<ChatMessage>) => void;
@@ -99,12 +120,25 @@ export interface ChatStoreState {
   clearContextBlocks: () => void;
   setContextBlocks: (blockIds: string[]) => void;
 
+  setCommandMode: (mode: ExecutionMode) => void;
+  /**
+   * Run a suggested command and attach its block to the context.
+   * confirmation: any value for 'confirm', the typed command for 'typed'.
+   */
+  runSuggestedCommand: (
+    sessionId: string,
+    command: NextCommand,
+    options?: { runId?: string; confirmation?: string }
+  ) => Promise<RunCommandResult>;
+
   // File context actions
   addContextFile: (file: ContextFileRef) => void;
   removeContextFile: (source: FileSource, path: string) => void;
   clearContextFiles: () => void;
 
   setThreadId: (threadId: string | null) => void;
+  /** Replace the conversation with a thread from the history */
+  loadThread: (thread: AIThread) => void;
 
   setOpen: (open: boolean) => void;
   toggleOpen: () => void;
@@ -118,6 +152,11 @@ export interface ChatStoreState {
   handleAIFinal: (data: AIFinalData) => void;
   handleAIError: (data: AIErrorData) => void;
 
+  // Run streaming actions
+  streamRun: (runId: string) => void;
+  stopRunStream: () => void;
+  cancelRun: () => Promise<void>;
+
   // Async actions
   sendMessage: (question: string, sessionId: string) => Promise<void>;
   sendMessageViaWebSocket: (question: string, sessionId: string) => Promise<void>;
@@ -175,6 +214,8 @@ export const useChatStore = create<ChatStoreState>((set, get) => ({
   selectedRunner: 'auto',
   availableRunners: [],
   contextBlockIds: [],
+  contextBlockLabels: {},
+  commandMode: 'ephemeral',
   contextFiles: [],
   threadId: null,
   isOpen: false,
@@ -182,6 +223,7 @@ export const useChatStore = create<ChatStoreState>((set, get) => ({
   wsToken: null,
   wsConnection: null,
   streamingRun: null,
+  activeRun: null,
 
   // Message actions
   addMessage: (message) =>
@@ -224,6 +266,39 @@ export const useChatStore = create<ChatStoreState>((set, get) => ({
 
   setContextBlocks: (blockIds) => set({ contextBlockIds: blockIds }),
 
+  setCommandMode: (mode) => set({ commandMode: mode }),
+
+  runSuggestedCommand: async (sessionId, command, options = {}) => {
+    const state = get();
+    try {
+      const response = await fetch(`${getApiBasePath()}/api/ai/commands/execute`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          sessionId,
+          command: command.command,
+          mode: state.commandMode,
+          risk: command.risk,
+          confirmation: options.confirmation,
+          threadId: state.threadId ?? undefined,
+          runId: options.runId
+        })
+      });
+      const data = (await response.json()) as { blockId?: string; message?: string };
+      if (!response.ok || !data.blockId) {
+        return { ok: false, error: data.message ?? `HTTP ${response.status}` };
+      }
+
+      // The follow-up question sees the command's output
+      const blockId = data.blockId;
+      get().addContextBlock(blockId);
+      set((s) => ({ contextBlockLabels: { ...s.contextBlockLabels, [blockId]: command.command } }));
+      return { ok: true, blockId };
+    } catch (error) {
+      return { ok: false, error: error instanceof Error ? error.message : 'Failed to run command' };
+    }
+  },
+
   // File context actions
   addContextFile: (file) =>
     set((state) => {
@@ -251,6 +326,29 @@ export const useChatStore = create<ChatStoreState>((set, get) => ({
   // Thread actions
   setThreadId: (threadId) => set({ threadId }),
 
+  loadThread: (thread) => {
+    get().stopRunStream();
+    const messages = thread.runs.flatMap((run): ChatMessage[] => [
+      {
+        id: `msg_${run.id}_user`,
+        role: 'user',
+        content: run.request.question,
+        timestamp: run.createdAt
+      },
+      {
+        id: `msg_${run.id}_assistant`,
+        role: 'assistant',
+        content: run.response.content,
+        timestamp: run.createdAt,
+        citations: run.response.citations,
+        nextCommands: run.response.nextCommands,
+        runId: run.id,
+        error: run.response.error
+      }
+    ]);
+    set({ messages, threadId: thread.id, streamingRun: null, isLoading: false });
+  },
+
   // UI actions
   setOpen: (open) => set({ isOpen: open }),
 
@@ -481,7 +579,74 @@ export const useChatStore = create<ChatStoreState>((set, get) => ({
     }
   },
 
-  // Async actions - HTTP fallback
+  /**
+   * Follow a run's SSE stream. EventSource reconnects with Last-Event-ID,
+   * so the server replays whatever was missed.
+   */
+  streamRun: (runId: string) => {
+    get().stopRunStream();
+
+    const scope = new Scope();
+    const source = new EventSource(
+      `${getApiBasePath()}/api/ai/runs/${encodeURIComponent(runId)}/stream`
+    );
+    scope.add(() => source.close());
+    const parse = <T>(event: Event): T => JSON.parse((event as MessageEvent<string>).data) as T;
+
+    scope.on(source, 'ai_stream', (event) => {
+      get().handleAIStream(parse<AIStreamData>(event));
+    });
+    scope.on(source, 'ai_final', (event) => {
+      get().stopRunStream();
+      get().handleAIFinal(parse<AIFinalData>(event));
+    });
+    scope.on(source, 'ai_error', (event) => {
+      get().stopRunStream();
+      get().handleAIError(parse<AIErrorData>(event));
+    });
+    scope.on(source, 'error', () => {
+      // Transient errors are retried by EventSource itself
+      if (source.readyState === EventSource.CLOSED) {
+        get().stopRunStream();
+        get().handleAIError({
+          type: 'ai_error',
+          runId,
+          error: 'Lost connection to the AI run',
+          code: 'unknown'
+        });
+      }
+    });
+
+    set({ activeRun: { runId, scope } });
+  },
+
+  stopRunStream: () => {
+    const activeRun = get().activeRun;
+    if (activeRun) {
+      activeRun.scope.close();
+      set({ activeRun: null });
+    }
+  },
+
+  /**
+   * Cancel the active run. The stream then ends with ai_error (code: canceled).
+   */
+  cancelRun: async () => {
+    const activeRun = get().activeRun;
+    if (!activeRun) {
+      return;
+    }
+    const basePath = getApiBasePath();
+    try {
+      await fetch(`${basePath}/api/ai/runs/${encodeURIComponent(activeRun.runId)}/cancel`, {
+        method: 'POST'
+      });
+    } catch (_error) {
+      // The run keeps streaming; the user can try again
+    }
+  },
+
+  // Async actions - HTTP (streamed over SSE)
   sendMessage: async (question, sessionId) => {
     const state = get();
     const basePath = getApiBasePath();
@@ -506,57 +671,47 @@ export const useChatStore = create<ChatStoreState>((set, get) => ({
           ? state.contextFiles.map((f) => ({ source: f.source, path: f.path }))
           : undefined;
 
-      // Get block contents from registry (includes Claude turns)
-      const blockContents = getAllBlockContents(state.contextBlockIds);
-      const inlineBlocks =
-        blockContents.length > 0
-          ? blockContents.map((entry, index) => ({
-              id: state.contextBlockIds[index],
-              type: entry.type,
-              content: entry.content,
-              metadata: entry.metadata
-            }))
-          : undefined;
-
-      const response = await fetch(`${basePath}/api/ai/runs`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          question,
-          context: {
-            sessionId,
-            blocks: state.contextBlockIds,
-            inlineBlocks, // Include block contents for Claude turns
-            files,
-            renderMode: 'full'
-          },
-          runner: state.selectedRunner === 'auto' ? undefined : state.selectedRunner,
-          conversationId: state.threadId
-        })
+      // Get block contents from registry (includes Claude turns); blocks run from
+      // the chat have no entry and are resolved on the server
+      const blockContents = state.contextBlockIds.flatMap((id) => {
+        const entry = getBlockContent(id);
+        return entry
+          ? [{ id, type: entry.type, content: entry.content, metadata: entry.metadata }]
+          : [];
+      });
+      const inlineBlocks = blockContents.length > 0 ? blockContents : undefined;
+
+      const payload = JSON.stringify({
+        question,
+        context: {
+          sessionId,
+          blocks: state.contextBlockIds,
+          inlineBlocks, // Include block contents for Claude turns
+          files,
+          renderMode: 'full'
+        },
+        runner: state.selectedRunner === 'auto' ? undefined : state.selectedRunner,
+        conversationId: state.threadId ?? undefined
       });
 
-      const data = (await response.json()) as AIChatResponse;
-
-      // Update thread ID from response
-      if (data.runId && !state.threadId) {
-        set({ threadId: data.runId.split('_')[0] });
+      // A network failure is retried once; the idempotency key keeps the retry
+      // from starting a second run
+      const idempotencyKey = crypto.randomUUID();
+      const postRun = () =>
+        fetch(`${basePath}/api/ai/runs`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', 'Idempotency-Key': idempotencyKey },
+          body: payload
+        });
+      const response = await postRun().catch(() => postRun());
+      if (!response.ok) {
+        throw new Error(`AI request failed (HTTP ${response.status})`);
       }
 
-      // Add assistant message
-      const assistantMessage: ChatMessage = {
-        id: `msg_${Date.now()}_assistant`,
-        role: 'assistant',
-        content: data.content,
-        timestamp: new Date().toISOString(),
-        citations: data.citations,
-        nextCommands: data.nextCommands,
-        runId: data.runId,
-        error: data.error
-      };
-      set((s) => ({
-        messages: [...s.messages, assistantMessage],
-        isLoading: false
-      }));
+      const data = (await response.json()) as { runId: string; threadId: string };
+      // Follow-up questions continue the same thread
+      set({ threadId: data.threadId });
+      get().streamRun(data.runId);
     } catch (error) {
       // Add error message
       const errorMessage: ChatMessage = {
@@ -615,7 +770,7 @@ export const useChatStore = create<ChatStoreState>((set, get) => ({
             renderMode: 'full'
           },
           runner: state.selectedRunner === 'auto' ? undefined : state.selectedRunner,
-          conversationId: state.threadId
+          conversationId: state.threadId ?? undefined
         })
       );
     } else {
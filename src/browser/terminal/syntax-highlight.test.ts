@@ -0,0 +1,68 @@
+/**
+ * Tests for the file editor's syntax highlighter
+ */
+
+import { describe, expect, test } from 'bun:test';
+import { languageForPath, tokenize } from './syntax-highlight.js';
+
+const typed = (code: string, language: string | null) =>
+  tokenize(code, language)
+    .filter((token) => token.type !== null)
+    .map((token) => [token.type, token.text]);
+
+describe('languageForPath', () => {
+  test('maps extensions to languages', () => {
+    expect(languageForPath('src/app.tsx')).toBe('javascript');
+    expect(languageForPath('/abs/script.py')).toBe('python');
+    expect(languageForPath('main.go')).toBe('c');
+    expect(languageForPath('config.YAML')).toBe('yaml');
+  });
+
+  test('recognises well-known file names', () => {
+    expect(languageForPath('docker/Dockerfile')).toBe('shell');
+    expect(languageForPath('.env.local')).toBe('shell');
+  });
+
+  test('returns null for unknown files', () => {
+    expect(languageForPath('notes.txt')).toBeNull();
+    expect(languageForPath('LICENSE')).toBeNull();
+  });
+});
+
+describe('tokenize', () => {
+  test('finds keywords, strings, numbers and comments', () => {
+    expect(typed('const x = "hi"; // note\nreturn 42;', 'javascript')).toEqual([
+      ['keyword', 'const'],
+      ['string', '"hi"'],
+      ['comment', '// note'],
+      ['keyword', 'return'],
+      ['number', '42']
+    ]);
+  });
+
+  test('does not highlight keywords inside identifiers or strings', () => {
+    expect(typed('constant = "if"', 'javascript')).toEqual([['string', '"if"']]);
+  });
+
+  test('block comments span lines', () => {
+    expect(typed('/* a\nb */ x', 'javascript')).toEqual([['comment', '/* a\nb */']]);
+  });
+
+  test('json keys are told apart from values', () => {
+    expect(typed('{"name": "bunterm", "ok": true}', 'json')).toEqual([
+      ['key', '"name"'],
+      ['string', '"bunterm"'],
+      ['key', '"ok"'],
+      ['literal', 'true']
+    ]);
+  });
+
+  test('round-trips the original text', () => {
+    const code = 'def f(x):\n    return x * 2  # double\n';
+    expect(
+      tokenize(code, 'python')
+        .map((token) => token.text)
+        .join('')
+    ).toBe(code);
+  });
+});
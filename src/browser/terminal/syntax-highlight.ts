@@ -0,0 +1,203 @@
+/**
+ * Syntax Highlight
+ *
+ * Small regex tokenizer for the file editor. It knows comments, strings,
+ * numbers and keywords for the languages that show up in terminal output,
+ * which is enough to make code readable without an editor dependency.
+ * The editor renders the tokens as `tok-*` spans.
+ */
+
+export type TokenType = 'comment' | 'string' | 'number' | 'keyword' | 'literal' | 'key';
+
+export interface Token {
+  type: TokenType | null;
+  text: string;
+}
+
+interface LanguageDef {
+  /** Patterns tried in order at each position */
+  rules: Array<[TokenType, RegExp]>;
+  keywords?: Set<string>;
+  literals?: Set<string>;
+}
+
+const words = (list: string): Set<string> => new Set(list.split(' '));
+
+const NUMBER: [TokenType, RegExp] = [
+  'number',
+  /\b(?:0[xXbBoO][\da-fA-F_]+|\d[\d_]*(?:\.\d+)?(?:[eE][+-]?\d+)?)\b/y
+];
+const DQ_STRING: [TokenType, RegExp] = ['string', /"(?:[^"\\\n]|\\.)*"?/y];
+const SQ_STRING: [TokenType, RegExp] = ['string', /'(?:[^'\\\n]|\\.)*'?/y];
+const SLASH_COMMENTS: Array<[TokenType, RegExp]> = [
+  ['comment', /\/\/[^\n]*/y],
+  ['comment', /\/\*[\s\S]*?(?:\*\/|$)/y]
+];
+const HASH_COMMENT: [TokenType, RegExp] = ['comment', /#[^\n]*/y];
+
+const LANGUAGES: Record<string, LanguageDef> = {
+  javascript: {
+    rules: [...SLASH_COMMENTS, DQ_STRING, SQ_STRING, ['string', /`(?:[^`\\]|\\.)*`?/y], NUMBER],
+    keywords: words(
+      'as async await break case catch class const continue debugger default delete do else enum export extends finally for from function if implements import in instanceof interface let new of private protected public readonly return static super switch this throw try type typeof var void while with yield'
+    ),
+    literals: words('true false null undefined NaN Infinity')
+  },
+  python: {
+    rules: [
+      HASH_COMMENT,
+      ['string', /(?:[rRbBfFuU]{0,2})(?:"""[\s\S]*?(?:"""|$)|'''[\s\S]*?(?:'''|$))/y],
+      DQ_STRING,
+      SQ_STRING,
+      NUMBER
+    ],
+    keywords: words(
+      'and as assert async await break class continue def del elif else except finally for from global if import in is lambda match case nonlocal not or pass raise return try while with yield'
+    ),
+    literals: words('True False None self')
+  },
+  shell: {
+    rules: [HASH_COMMENT, DQ_STRING, SQ_STRING, NUMBER],
+    keywords: words(
+      'if then else elif fi case esac for while until do done in function return local export readonly set unset shift exit source'
+    )
+  },
+  c: {
+    rules: [
+      ...SLASH_COMMENTS,
+      DQ_STRING,
+      ['string', /'(?:[^'\\\n]|\\.){0,2}'/y],
+      ['string', /`[^`]*`?/y],
+      NUMBER
+    ],
+    keywords: words(
+      'auto break case catch char class const continue default defer delete do double else enum extern fn float for func go goto if impl import int let long loop match mod mut namespace new package pub return self short signed sizeof static struct super switch template this throw trait try type typedef union unsafe unsigned use var void volatile where while'
+    ),
+    literals: words('true false null nil NULL nullptr None Some Ok Err')
+  },
+  json: {
+    rules: [
+      ['key', /"(?:[^"\\\n]|\\.)*"(?=\s*:)/y],
+      DQ_STRING,
+      ['number', /-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?/y]
+    ],
+    literals: words('true false null')
+  },
+  yaml: {
+    rules: [HASH_COMMENT, ['key', /[\w.-]+(?=\s*:(?:\s|$))/y], DQ_STRING, SQ_STRING, NUMBER],
+    literals: words('true false null yes no on off')
+  },
+  css: {
+    rules: [
+      ['comment', /\/\*[\s\S]*?(?:\*\/|$)/y],
+      DQ_STRING,
+      SQ_STRING,
+      ['number', /-?\d+(?:\.\d+)?(?:px|em|rem|%|vh|vw|s|ms|deg)?/y],
+      ['keyword', /@[\w-]+/y]
+    ]
+  },
+  markdown: {
+    rules: [
+      ['keyword', /^#{1,6} [^\n]*/my],
+      ['string', /`[^`\n]+`/y],
+      ['comment', /^> [^\n]*/my]
+    ]
+  }
+};
+
+const EXTENSION_LANGUAGES: Record<string, string> = {
+  js: 'javascript',
+  mjs: 'javascript',
+  cjs: 'javascript',
+  jsx: 'javascript',
+  ts: 'javascript',
+  tsx: 'javascript',
+  mts: 'javascript',
+  py: 'python',
+  sh: 'shell',
+  bash: 'shell',
+  zsh: 'shell',
+  c: 'c',
+  h: 'c',
+  cc: 'c',
+  cpp: 'c',
+  hpp: 'c',
+  go: 'c',
+  rs: 'c',
+  java: 'c',
+  kt: 'c',
+  swift: 'c',
+  cs: 'c',
+  json: 'json',
+  jsonc: 'javascript',
+  yml: 'yaml',
+  yaml: 'yaml',
+  toml: 'yaml',
+  css: 'css',
+  scss: 'css',
+  md: 'markdown'
+};
+
+const WORD = /[A-Za-z_$][\w$]*/y;
+
+/**
+ * Language id for a file path, or null for plain text
+ */
+export function languageForPath(path: string): string | null {
+  const name = path.split('/').pop() ?? path;
+  if (name === 'Dockerfile' || name === 'Makefile' || name.startsWith('.env')) {
+    return 'shell';
+  }
+  const ext = name.includes('.') ? name.split('.').pop()?.toLowerCase() : undefined;
+  return (ext && EXTENSION_LANGUAGES[ext]) || null;
+}
+
+/**
+ * Split code into tokens; untyped tokens are plain text
+ */
+export function tokenize(code: string, language: string | null): Token[] {
+  const def = language ? LANGUAGES[language] : undefined;
+  if (!def) {
+    return [{ type: null, text: code }];
+  }
+
+  const tokens: Token[] = [];
+  let plainStart = 0;
+  let pos = 0;
+  const flushPlain = (end: number) => {
+    if (end > plainStart) {
+      tokens.push({ type: null, text: code.slice(plainStart, end) });
+    }
+  };
+
+  outer: while (pos < code.length) {
+    for (const [type, pattern] of def.rules) {
+      pattern.lastIndex = pos;
+      const match = pattern.exec(code);
+      if (match && match[0].length > 0) {
+        flushPlain(pos);
+        tokens.push({ type, text: match[0] });
+        pos += match[0].length;
+        plainStart = pos;
+        continue outer;
+      }
+    }
+
+    WORD.lastIndex = pos;
+    const word = WORD.exec(code);
+    if (word) {
+      const text = word[0];
+      const type = def.keywords?.has(text) ? 'keyword' : def.literals?.has(text) ? 'literal' : null;
+      if (type) {
+        flushPlain(pos);
+        tokens.push({ type, text });
+        plainStart = pos + text.length;
+      }
+      pos += text.length;
+      continue;
+    }
+    pos++;
+  }
+  flushPlain(pos);
+  return tokens;
+}
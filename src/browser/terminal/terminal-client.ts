@@ -12,13 +12,20 @@ import type { Terminal as XtermTerminal } from '@xterm/xterm';
 import { match, P } from 'ts-pattern';
 import { toolbarEvents } from '@/browser/shared/events.js';
 import { copyToClipboard } from '@/browser/shared/utils.js';
-import { parseServerMessage } from '@/core/protocol/index.js';
+import {
+  BINARY_PROTOCOL,
+  BinaryFrameType,
+  decodeBinaryFrame,
+  encodeBinaryFrame,
+  parseServerMessage
+} from '@/core/protocol/index.js';
 import { type Block, BlockManager } from './BlockManager.js';
 import { BlockRenderer } from './BlockRenderer.js';
 import { ClaudeBlockManager } from './ClaudeBlockManager.js';
 import { type BlockInfo, DecorationManager } from './DecorationManager.js';
 import { FileOpsSidebar } from './FileOpsSidebar.js';
 import { PathLinkManager } from './PathLinkManager.js';
+import { PresenceBar } from './PresenceBar.js';
 import { fetchWebSocketErrorDetail, formatWebSocketConnectionError } from './ws-error-detail.js';
 
 declare global {
@@ -86,11 +93,16 @@ interface ClientMessage {
     | 'unwatchFile'
     | 'watchDir'
     | 'unwatchDir'
-    | 'replayRequest';
+    | 'replayRequest'
+    | 'requestControl'
+    | 'grantControl'
+    | 'denyControl'
+    | 'releaseControl';
   data?: string;
   cols?: number;
   rows?: number;
   path?: string;
+  participantId?: string;
 }
 
 // ServerMessage type is now imported from @/core/protocol/index.js
@@ -138,6 +150,10 @@ export class TerminalClient implements Disposable {
   // File operations sidebar
   private fileOpsSidebar: FileOpsSidebar | null = null;
 
+  // Collaborative sessions: presence and driver/viewer input control
+  private presenceBar: PresenceBar | null = null;
+  private isDriver = false;
+
   // File watcher callbacks
   private fileChangeListeners: Array<(path: string, timestamp: number) => void> = [];
 
@@ -196,6 +212,13 @@ export class TerminalClient implements Disposable {
     terminal.open(this.options.container);
     fitAddon.fit();
 
+    this.presenceBar = new PresenceBar({
+      onRequestControl: () => this.send({ type: 'requestControl' }),
+      onGrantControl: (participantId) => this.send({ type: 'grantControl', participantId }),
+      onDenyControl: (participantId) => this.send({ type: 'denyControl', participantId }),
+      onReleaseControl: () => this.send({ type: 'releaseControl' })
+    });
+
     // Setup auto-copy selection to clipboard on mouseup
     if (window.XtermBundle.setupSelectionAutoCopy) {
       window.XtermBundle.setupSelectionAutoCopy(terminal);
@@ -204,7 +227,7 @@ export class TerminalClient implements Disposable {
     // Setup right-click to paste from clipboard
     if (window.XtermBundle.setupRightClickPaste) {
       window.XtermBundle.setupRightClickPaste(terminal, (text) => {
-        this.send({ type: 'input', data: this.encodeTextInput(text) });
+        this.sendInputBytes(this.encodeTextInput(text));
       });
     }
 
@@ -230,7 +253,7 @@ export class TerminalClient implements Disposable {
         }
       }
 
-      this.send({ type: 'input', data: this.encodeTextInput(inputData) });
+      this.sendInputBytes(this.encodeTextInput(inputData));
     });
 
     // Handle binary input (for non-UTF-8 compatible sequences like X10 mouse mode)
@@ -246,7 +269,7 @@ export class TerminalClient implements Disposable {
         }
       }
 
-      this.send({ type: 'input', data: this.encodeBinaryInput(inputData) });
+      this.sendInputBytes(this.encodeBinaryInput(inputData));
     });
 
     // Handle terminal resize
@@ -614,7 +637,9 @@ export class TerminalClient implements Disposable {
    */
   private async connectWebSocket(): Promise<void> {
     return new Promise((resolve, reject) => {
-      this.ws = new WebSocket(this.options.wsUrl);
+      // Ask for binary terminal I/O; a server that does not select it keeps JSON
+      this.ws = new WebSocket(this.options.wsUrl, [BINARY_PROTOCOL]);
+      this.ws.binaryType = 'arraybuffer';
 
       this.ws.onopen = () => {
         this.reconnectAttempts = 0;
@@ -641,7 +666,11 @@ export class TerminalClient implements Disposable {
       };
 
       this.ws.onmessage = (event) => {
-        this.handleMessage(event.data);
+        if (typeof event.data === 'string') {
+          this.handleMessage(event.data);
+        } else {
+          this.handleBinaryMessage(event.data);
+        }
       };
 
       this.ws.onerror = (_error) => {
@@ -658,6 +687,8 @@ export class TerminalClient implements Disposable {
 
       this.ws.onclose = (_event) => {
         this.stopPing();
+        this.presenceBar?.reset();
+        this.isDriver = false;
 
         if (!this.isClosing && this.options.autoReconnect) {
           this.scheduleReconnect();
@@ -666,6 +697,17 @@ export class TerminalClient implements Disposable {
     });
   }
 
+  /**
+   * Handle an incoming binary frame (binary subprotocol)
+   */
+  private handleBinaryMessage(data: ArrayBuffer): void {
+    const frame = decodeBinaryFrame(data);
+    if (frame?.type === BinaryFrameType.Output && this.terminal) {
+      // xterm.js decodes UTF-8 itself, including sequences split across frames
+      this.terminal.write(frame.payload);
+    }
+  }
+
   /**
    * Handle incoming server messages
    */
@@ -685,6 +727,29 @@ export class TerminalClient implements Disposable {
             this.terminal.write(decoder.decode(bytes));
           }
         })
+        .with({ type: 'snapshot', data: P.string }, ({ data }) => {
+          // Full screen state from the server: replaces whatever is on screen
+          if (this.terminal) {
+            const bytes = Uint8Array.from(atob(data), (c) => c.charCodeAt(0));
+            this.terminal.reset();
+            this.terminal.write(new TextDecoder('utf-8', { fatal: false }).decode(bytes));
+          }
+        })
+        .with({ type: 'presence' }, (presence) => {
+          this.presenceBar?.update(presence);
+          const isDriver = presence.driverId === presence.selfId;
+          if (isDriver && !this.isDriver && this.terminal) {
+            // Took over control: the PTY should follow this client's size
+            this.send({ type: 'resize', cols: this.terminal.cols, rows: this.terminal.rows });
+          }
+          this.isDriver = isDriver;
+        })
+        .with({ type: 'controlRequest' }, ({ participant }) => {
+          this.presenceBar?.addRequest(participant);
+        })
+        .with({ type: 'controlDenied' }, () => {
+          this.presenceBar?.showNote('Control request denied');
+        })
         .with({ type: 'title', title: P.string }, ({ title }) => {
           document.title = title;
         })
@@ -835,11 +900,44 @@ export class TerminalClient implements Disposable {
    * Send a message to the server
    */
   private send(message: ClientMessage): void {
+    if (this.isViewerBlocked(message.type)) {
+      return;
+    }
     if (this.ws?.readyState === WebSocket.OPEN) {
       this.ws.send(JSON.stringify(message));
     }
   }
 
+  /**
+   * Send input for the PTY: a binary frame when the binary subprotocol was
+   * negotiated, otherwise a JSON input message with Base64 data
+   */
+  private sendInputBytes(bytes: Uint8Array): void {
+    if (this.ws?.protocol !== BINARY_PROTOCOL) {
+      this.send({ type: 'input', data: btoa(String.fromCharCode(...bytes)) });
+      return;
+    }
+    if (this.isViewerBlocked('input')) {
+      return;
+    }
+    if (this.ws.readyState === WebSocket.OPEN) {
+      this.ws.send(encodeBinaryFrame(BinaryFrameType.Input, bytes));
+    }
+  }
+
+  /**
+   * Viewers cannot type or resize (the server drops it anyway)
+   */
+  private isViewerBlocked(type: ClientMessage['type']): boolean {
+    if ((type === 'input' || type === 'resize') && this.presenceBar?.isViewer) {
+      if (type === 'input') {
+        this.presenceBar.showNote('Viewing only — request control to type');
+      }
+      return true;
+    }
+    return false;
+  }
+
   /**
    * Start ping interval for keep-alive
    */
@@ -1001,19 +1099,16 @@ export class TerminalClient implements Disposable {
   }
 
   /**
-   * Encode text input (UTF-8) to Base64 for transmission.
+   * Encode text input as UTF-8 bytes for transmission.
    * Used for keyboard text input including IME (Japanese, Chinese, etc.)
    */
-  private encodeTextInput(data: string): string {
+  private encodeTextInput(data: string): Uint8Array {
     // Use TextEncoder for proper UTF-8 encoding of multi-byte characters
-    const encoder = new TextEncoder();
-    const bytes = encoder.encode(data);
-    // Convert Uint8Array to Base64 using spread to avoid undefined issues
-    return btoa(String.fromCharCode(...bytes));
+    return new TextEncoder().encode(data);
   }
 
   /**
-   * Encode binary input to Base64 for transmission.
+   * Encode binary input as bytes for transmission.
    * Used for terminal escape sequences (mouse X10 mode, etc.) where each
    * character code point should be treated as a single byte.
    *
@@ -1024,14 +1119,13 @@ export class TerminalClient implements Disposable {
    * - TextEncoder: 132 -> 0xC2 0x84 (2 bytes, WRONG!)
    * - charCodeAt:  132 -> 0x84 (1 byte, CORRECT!)
    */
-  private encodeBinaryInput(data: string): string {
+  private encodeBinaryInput(data: string): Uint8Array {
     // Each character code point is treated as a single byte (Latin-1 style)
     const bytes = new Uint8Array(data.length);
     for (let i = 0; i < data.length; i++) {
       bytes[i] = data.charCodeAt(i) & 0xff;
     }
-    // Convert Uint8Array to Base64 using spread to avoid undefined issues
-    return btoa(String.fromCharCode(...bytes));
+    return bytes;
   }
 
   /**
@@ -1039,8 +1133,7 @@ export class TerminalClient implements Disposable {
    * This sends the input through the WebSocket to the PTY
    */
   sendInput(data: string): void {
-    const encoded = this.encodeTextInput(data);
-    this.send({ type: 'input', data: encoded });
+    this.sendInputBytes(this.encodeTextInput(data));
   }
 
   /**
@@ -1141,7 +1234,7 @@ export class TerminalClient implements Disposable {
     // Setup right-click to paste from clipboard
     if (window.XtermBundle.setupRightClickPaste) {
       window.XtermBundle.setupRightClickPaste(terminal, (text) => {
-        this.send({ type: 'input', data: this.encodeTextInput(text) });
+        this.sendInputBytes(this.encodeTextInput(text));
       });
     }
 
@@ -1164,7 +1257,7 @@ export class TerminalClient implements Disposable {
           return;
         }
       }
-      this.send({ type: 'input', data: this.encodeTextInput(inputData) });
+      this.sendInputBytes(this.encodeTextInput(inputData));
     });
 
     // Handle binary input
@@ -1176,7 +1269,7 @@ export class TerminalClient implements Disposable {
           return;
         }
       }
-      this.send({ type: 'input', data: this.encodeBinaryInput(inputData) });
+      this.sendInputBytes(this.encodeBinaryInput(inputData));
     });
 
     // Handle terminal resize
@@ -1288,6 +1381,10 @@ export class TerminalClient implements Disposable {
     this.fileOpsSidebar?.dispose();
     this.fileOpsSidebar = null;
 
+    // Cleanup presence bar
+    this.presenceBar?.[Symbol.dispose]();
+    this.presenceBar = null;
+
     if (this.ws) {
       this.ws.close(1000, 'Client disconnect');
       this.ws = null;
@@ -0,0 +1,89 @@
+/**
+ * Tests for the editor's line diff and three-way merge
+ */
+
+import { describe, expect, test } from 'bun:test';
+import { diffLines, mergeThreeWay, splitLines } from './text-diff.js';
+
+describe('diffLines', () => {
+  test('identical input is all equal', () => {
+    const diff = diffLines(['a', 'b'], ['a', 'b']);
+    expect(diff.every((line) => line.type === 'equal')).toBe(true);
+  });
+
+  test('reports inserted and deleted lines in order', () => {
+    const diff = diffLines(splitLines('a\nb\nc'), splitLines('a\nx\nc\nd'));
+    expect(diff).toEqual([
+      { type: 'equal', text: 'a' },
+      { type: 'delete', text: 'b' },
+      { type: 'insert', text: 'x' },
+      { type: 'equal', text: 'c' },
+      { type: 'insert', text: 'd' }
+    ]);
+  });
+
+  test('handles empty sides', () => {
+    expect(diffLines([], ['a'])).toEqual([{ type: 'insert', text: 'a' }]);
+    expect(diffLines(['a'], [])).toEqual([{ type: 'delete', text: 'a' }]);
+  });
+});
+
+describe('mergeThreeWay', () => {
+  const base = ['one', 'two', 'three', 'four', 'five'].join('\n');
+
+  test('combines changes to different lines', () => {
+    const mine = base.replace('two', 'TWO');
+    const theirs = base.replace('five', 'FIVE');
+
+    const result = mergeThreeWay(base, mine, theirs);
+
+    expect(result.conflicts).toBe(0);
+    expect(result.text).toBe(['one', 'TWO', 'three', 'four', 'FIVE'].join('\n'));
+  });
+
+  test('takes the same change on both sides once', () => {
+    const edited = base.replace('three', 'THREE');
+    const result = mergeThreeWay(base, edited, edited);
+
+    expect(result.conflicts).toBe(0);
+    expect(result.text).toBe(edited);
+  });
+
+  test('writes conflict markers for overlapping changes', () => {
+    const result = mergeThreeWay(
+      base,
+      base.replace('three', 'mine'),
+      base.replace('three', 'theirs')
+    );
+
+    expect(result.conflicts).toBe(1);
+    expect(result.text).toBe(
+      [
+        'one',
+        'two',
+        '<<<<<<< mine',
+        'mine',
+        '=======',
+        'theirs',
+        '>>>>>>> disk',
+        'four',
+        'five'
+      ].join('\n')
+    );
+  });
+
+  test('keeps insertions from one side and deletions from the other', () => {
+    const mine = ['zero', base].join('\n');
+    const theirs = base.replace('four\n', '');
+
+    const result = mergeThreeWay(base, mine, theirs);
+
+    expect(result.conflicts).toBe(0);
+    expect(result.text).toBe(['zero', 'one', 'two', 'three', 'five'].join('\n'));
+  });
+
+  test('unchanged mine yields theirs', () => {
+    const theirs = 'completely\nrewritten';
+    expect(mergeThreeWay(base, base, theirs)).toEqual({ text: theirs, conflicts: 0 });
+  });
+});
@@ -0,0 +1,210 @@
+/**
+ * Text Diff
+ *
+ * Line diff and three-way merge used by the file editor when a save is
+ * refused because the file changed on disk. The merge takes the content
+ * the editor opened (base), the user's edit (mine) and the file on disk
+ * (theirs); changes that do not overlap are combined, overlapping ones
+ * are written out with git-style conflict markers.
+ */
+
+export interface DiffLine {
+  type: 'equal' | 'insert' | 'delete';
+  text: string;
+}
+
+export interface MergeResult {
+  text: string;
+  /** Number of conflict blocks written with markers */
+  conflicts: number;
+}
+
+/** A change against base: base[start, end) is replaced by lines */
+interface Hunk {
+  start: number;
+  end: number;
+  lines: string[];
+}
+
+/** Above this many LCS cells the middle section is treated as one replacement */
+const MAX_LCS_CELLS = 4_000_000;
+
+export function splitLines(text: string): string[] {
+  return text.split('\n');
+}
+
+/**
+ * Diff two line arrays (LCS after trimming the common prefix and suffix)
+ */
+export function diffLines(a: string[], b: string[]): DiffLine[] {
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const result: DiffLine[] = a.slice(0, prefix).map((text) => ({ type: 'equal', text }));
+  const midA = a.slice(prefix, a.length - suffix);
+  const midB = b.slice(prefix, b.length - suffix);
+
+  if (midA.length * midB.length > MAX_LCS_CELLS) {
+    for (const text of midA) result.push({ type: 'delete', text });
+    for (const text of midB) result.push({ type: 'insert', text });
+  } else {
+    result.push(...diffLcs(midA, midB));
+  }
+
+  for (const text of a.slice(a.length - suffix)) {
+    result.push({ type: 'equal', text });
+  }
+  return result;
+}
+
+function diffLcs(a: string[], b: string[]): DiffLine[] {
+  const n = a.length;
+  const m = b.length;
+  // lengths[i * (m + 1) + j] = LCS length of a[i..] and b[j..]
+  const lengths = new Uint32Array((n + 1) * (m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lengths[i * (m + 1) + j] =
+        a[i] === b[j]
+          ? (lengths[(i + 1) * (m + 1) + j + 1] ?? 0) + 1
+          : Math.max(lengths[(i + 1) * (m + 1) + j] ?? 0, lengths[i * (m + 1) + j + 1] ?? 0);
+    }
+  }
+
+  const result: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (a[i] === b[j]) {
+      result.push({ type: 'equal', text: a[i] as string });
+      i++;
+      j++;
+    } else if ((lengths[(i + 1) * (m + 1) + j] ?? 0) >= (lengths[i * (m + 1) + j + 1] ?? 0)) {
+      result.push({ type: 'delete', text: a[i] as string });
+      i++;
+    } else {
+      result.push({ type: 'insert', text: b[j] as string });
+      j++;
+    }
+  }
+  for (; i < n; i++) result.push({ type: 'delete', text: a[i] as string });
+  for (; j < m; j++) result.push({ type: 'insert', text: b[j] as string });
+  return result;
+}
+
+/**
+ * Collapse a diff into hunks relative to the first side
+ */
+function toHunks(diff: DiffLine[]): Hunk[] {
+  const hunks: Hunk[] = [];
+  let pos = 0;
+  let current: Hunk | null = null;
+  for (const line of diff) {
+    if (line.type === 'equal') {
+      current = null;
+      pos++;
+      continue;
+    }
+    if (!current) {
+      current = { start: pos, end: pos, lines: [] };
+      hunks.push(current);
+    }
+    if (line.type === 'delete') {
+      current.end++;
+      pos++;
+    } else {
+      current.lines.push(line.text);
+    }
+  }
+  return hunks;
+}
+
+/**
+ * One side's lines for base[start, end), with its hunks in that range applied
+ */
+function applyHunks(base: string[], hunks: Hunk[], start: number, end: number): string[] {
+  const lines: string[] = [];
+  let pos = start;
+  for (const hunk of hunks) {
+    lines.push(...base.slice(pos, hunk.start), ...hunk.lines);
+    pos = hunk.end;
+  }
+  lines.push(...base.slice(pos, end));
+  return lines;
+}
+
+/**
+ * Three-way merge of two edits of the same base text
+ */
+export function mergeThreeWay(base: string, mine: string, theirs: string): MergeResult {
+  const baseLines = splitLines(base);
+  const mineHunks = toHunks(diffLines(baseLines, splitLines(mine)));
+  const theirHunks = toHunks(diffLines(baseLines, splitLines(theirs)));
+
+  const out: string[] = [];
+  let conflicts = 0;
+  let pos = 0;
+  let i = 0;
+  let j = 0;
+
+  while (i < mineHunks.length || j < theirHunks.length) {
+    // Start a cluster at the earliest hunk, then absorb every hunk (from
+    // either side) that overlaps or touches it
+    const mineNext = mineHunks[i];
+    const theirNext = theirHunks[j];
+    const first =
+      theirNext === undefined || (mineNext !== undefined && mineNext.start <= theirNext.start)
+        ? (mineNext as Hunk)
+        : theirNext;
+    const start = first.start;
+    let end = first.end;
+    const mineCluster: Hunk[] = [];
+    const theirCluster: Hunk[] = [];
+
+    let absorbed = true;
+    while (absorbed) {
+      absorbed = false;
+      const m = mineHunks[i];
+      if (m && m.start <= end) {
+        mineCluster.push(m);
+        end = Math.max(end, m.end);
+        i++;
+        absorbed = true;
+      }
+      const th = theirHunks[j];
+      if (th && th.start <= end) {
+        theirCluster.push(th);
+        end = Math.max(end, th.end);
+        j++;
+        absorbed = true;
+      }
+    }
+
+    out.push(...baseLines.slice(pos, start));
+    const mineLines = applyHunks(baseLines, mineCluster, start, end);
+    const theirLines = applyHunks(baseLines, theirCluster, start, end);
+
+    if (theirCluster.length === 0 || mineLines.join('\n') === theirLines.join('\n')) {
+      out.push(...mineLines);
+    } else if (mineCluster.length === 0) {
+      out.push(...theirLines);
+    } else {
+      conflicts++;
+      out.push('<<<<<<< mine', ...mineLines, '=======', ...theirLines, '>>>>>>> disk');
+    }
+    pos = end;
+  }
+
+  out.push(...baseLines.slice(pos));
+  return { text: out.join('\n'), conflicts };
+}
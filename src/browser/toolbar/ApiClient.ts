@@ -127,6 +127,8 @@ export interface SubscriptionData {
     auth: string;
   };
   sessionName?: string;
+  /** Notification kinds to receive (omitted = all) */
+  kinds?: Array<'terminal' | 'pattern' | 'agent'>;
 }
 
 /**
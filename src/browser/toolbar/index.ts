@@ -19,6 +19,8 @@ import type {
 import { STORAGE_KEYS } from '@/browser/shared/types.js';
 import { bindClickScoped, isMobileDevice } from '@/browser/shared/utils.js';
 import { FileTransferManager } from '@/features/file-transfer/client/FileTransferManager.js';
+import { FileTreeSidebar } from '@/features/file-transfer/client/FileTreeSidebar.js';
+import { UploadQueue } from '@/features/file-transfer/client/UploadQueue.js';
 import { FileWatcherClient } from '@/features/file-watcher/client/FileWatcherClient.js';
 import { NotificationManager } from '@/features/notifications/client/NotificationManager.js';
 import { PreviewManager } from '@/features/preview/client/PreviewManager.js';
@@ -62,6 +64,8 @@ class ToolbarApp {
   private snippet: SnippetManager;
   private clipboardHistory: ClipboardHistoryManager;
   private fileTransfer: FileTransferManager;
+  private fileTree: FileTreeSidebar;
+  private uploads: UploadQueue;
   private smartPaste: SmartPasteManager;
   private touch: TouchGestureHandler;
   private fontSizeManager: FontSizeManager;
@@ -95,12 +99,14 @@ class ToolbarApp {
     this.notifications = new NotificationManager(config);
     this.snippet = new SnippetManager(this.input);
     this.clipboardHistory = new ClipboardHistoryManager(this.input);
-    this.fileTransfer = new FileTransferManager(config, this.input);
+    this.uploads = new UploadQueue(config);
+    this.fileTransfer = new FileTransferManager(config, this.input, this.uploads);
     this.smartPaste = new SmartPasteManager(config, this.input, this.clipboardHistory);
     this.touch = new TouchGestureHandler(config, this.terminal, this.input, this.modifiers);
     this.fontSizeManager = new FontSizeManager(config);
     this.autoRun = new AutoRunManager();
     this.fileWatcher = new FileWatcherClient(config);
+    this.fileTree = new FileTreeSidebar(config, this.fileWatcher, this.uploads);
     const previewPane = new PreviewPane();
     this.preview = new PreviewManager(config, {
       pane: previewPane,
@@ -272,6 +278,15 @@ class ToolbarApp {
       document.getElementById('tui-file-upload-btn') as HTMLButtonElement
     );
 
+    this.fileTree.bindElements({
+      toggleBtn: document.getElementById('tui-files') as HTMLButtonElement,
+      pane: document.getElementById('tui-file-tree') as HTMLElement,
+      list: document.getElementById('tui-file-tree-list') as HTMLElement,
+      newFolderBtn: document.getElementById('tui-file-tree-mkdir') as HTMLButtonElement,
+      refreshBtn: document.getElementById('tui-file-tree-refresh') as HTMLButtonElement,
+      closeBtn: document.getElementById('tui-file-tree-close') as HTMLButtonElement
+    });
+
     this.autoRun.bindElement(this.elements.autoBtn);
     this.clipboardHistory.bindPasteButton(this.elements.pasteBtn);
 
@@ -353,6 +368,8 @@ class ToolbarApp {
     this.scope.mount(this.sessionSwitcher);
     this.scope.mount(this.snippet);
     this.scope.mount(this.fileTransfer);
+    this.scope.mount(this.fileTree);
+    this.scope.mount(this.uploads);
     this.scope.mount(this.share);
     this.scope.mount(this.preview);
     this.scope.mount(this.quote);
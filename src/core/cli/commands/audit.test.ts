@@ -0,0 +1,26 @@
+/**
+ * Audit Command Tests
+ */
+
+import { describe, expect, test } from 'bun:test';
+import { CliError } from '@/utils/errors.js';
+import { parseSince } from './audit.js';
+
+describe('parseSince', () => {
+  const now = Date.parse('2026-03-01T12:00:00.000Z');
+
+  test('subtracts durations from now', () => {
+    expect(parseSince('30m', now)).toBe(now - 30 * 60_000);
+    expect(parseSince('12h', now)).toBe(now - 12 * 3_600_000);
+    expect(parseSince('7d', now)).toBe(now - 7 * 86_400_000);
+    expect(parseSince('1w', now)).toBe(now - 604_800_000);
+  });
+
+  test('accepts dates', () => {
+    expect(parseSince('2026-02-28T22:00:00Z', now)).toBe(Date.parse('2026-02-28T22:00:00Z'));
+  });
+
+  test('rejects anything else', () => {
+    expect(() => parseSince('last night', now)).toThrow(CliError);
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * Audit command — Query the daemon's audit log
+ *
+ * e.g. who opened a shell on prod-box last night:
+ *   bunterm audit --since 12h --session prod-box --type ws_connect
+ */
+
+import { guardDaemon } from '@/core/cli/helpers/daemon-guard.js';
+import { getDaemonConnection } from '@/core/client/daemon-url.js';
+import { createClient } from '@/core/client/eden-client.js';
+import { loadConfig } from '@/core/config/config.js';
+import { CliError } from '@/utils/errors.js';
+
+export interface AuditOptions {
+  config?: string;
+  /** Duration back from now (30m, 12h, 7d) or a date/time */
+  since?: string;
+  /** Comma-separated event types */
+  type?: string;
+  session?: string;
+  user?: string;
+  limit?: string;
+  json?: boolean;
+}
+
+const DURATION_UNITS_MS: Record<string, number> = {
+  m: 60_000,
+  h: 3_600_000,
+  d: 86_400_000,
+  w: 604_800_000
+};
+
+/**
+ * Resolve --since to an absolute time (ms since epoch)
+ */
+export function parseSince(value: string, now = Date.now()): number {
+  const duration = /^(\d+)([mhdw])$/.exec(value.trim());
+  if (duration) {
+    return now - Number(duration[1]) * (DURATION_UNITS_MS[duration[2] as string] ?? 0);
+  }
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) {
+    throw new CliError(`Invalid --since '${value}'. Use a duration (30m, 12h, 7d) or a date.`);
+  }
+  return time;
+}
+
+export async function auditCommand(options: AuditOptions): Promise<void> {
+  const config = loadConfig(options.config);
+  const since = options.since ? new Date(parseSince(options.since)).toISOString() : undefined;
+
+  const guard = await guardDaemon({ json: options.json });
+  if (!guard.running) {
+    return;
+  }
+
+  try {
+    const client = createClient(getDaemonConnection(config));
+    const { data, error } = await client.api.audit.get({
+      query: {
+        since,
+        type: options.type?.split(',').map((type) => type.trim()),
+        session: options.session,
+        user: options.user,
+        limit: options.limit ? Number(options.limit) : undefined
+      }
+    });
+    if (error || !data) {
+      const message =
+        (error?.value as { message?: string } | undefined)?.message ??
+        error?.value ??
+        'Unknown error';
+      throw new CliError(`Failed to query audit log: ${message}`);
+    }
+
+    const { events } = data;
+    if (options.json) {
+      console.log(JSON.stringify({ events }));
+      return;
+    }
+
+    if (events.length === 0) {
+      console.log('No matching audit events.');
+      return;
+    }
+
+    console.log('Time                 Type             Session           User        Remote');
+    console.log(
+      '-------------------  ---------------  ----------------  ----------  ------------------------'
+    );
+
+    for (const event of events) {
+      const time = new Date(event.timestamp).toLocaleString().padEnd(19);
+      const type = event.type.padEnd(15);
+      const session = (event.sessionName ?? '-').padEnd(16);
+      const user = (event.user ?? '-').padEnd(10);
+      const remote = event.networkZone
+        ? `${event.remoteAddr} (${event.networkZone})`
+        : event.remoteAddr;
+      console.log(`${time}  ${type}  ${session}  ${user}  ${remote}`);
+      if (event.details) {
+        console.log(`  ${event.details}`);
+      }
+    }
+
+    console.log(`\n${events.length} event(s).`);
+  } catch (error) {
+    throw CliError.from(error, 'Failed to query audit log');
+  }
+}
@@ -43,18 +43,23 @@ export async function connectionsCommand(options: ConnectionsOptions): Promise<v
     }
 
     // Table header
-    console.log('ID        Remote Address          Created                   Expires');
     console.log(
-      '--------  ----------------------  ------------------------  ------------------------'
+      'ID        User        Device          Zone      Remote Address          Last Seen                 Expires'
+    );
+    console.log(
+      '--------  ----------  --------------  --------  ----------------------  ------------------------  ------------------------'
     );
 
     for (const session of sessions) {
-      const created = new Date(session.createdAt).toLocaleString();
+      const lastSeen = new Date(session.lastSeenAt).toLocaleString();
       const expires = new Date(session.expiresAt).toLocaleString();
       const id = session.id.padEnd(8);
+      const user = (session.user ?? '-').padEnd(10);
+      const device = session.device.slice(0, 14).padEnd(14);
+      const zone = (session.networkZone ?? '-').padEnd(8);
       const addr = session.remoteAddr.padEnd(22);
-      const createdStr = created.padEnd(24);
-      console.log(`${id}  ${addr}  ${createdStr}  ${expires}`);
+      const lastSeenStr = lastSeen.padEnd(24);
+      console.log(`${id}  ${user}  ${device}  ${zone}  ${addr}  ${lastSeenStr}  ${expires}`);
     }
 
     console.log(`\n${sessions.length} active session(s).`);
@@ -79,7 +84,11 @@ export async function connectionsRevokeCommand(
     const client = createClient(getDaemonConnection(config));
     const { error: delError } = await client.api.auth.sessions({ id }).delete();
     if (delError) {
-      throw new CliError(`Failed to revoke: ${delError.value ?? 'Unknown error'}`);
+      const message =
+        (delError.value as { message?: string } | undefined)?.message ??
+        delError.value ??
+        'Unknown error';
+      throw new CliError(`Failed to revoke: ${message}`);
     }
 
     console.log(`Session ${id} revoked.`);
@@ -0,0 +1,68 @@
+/**
+ * Login-code command — Issue a one-time code for logging in from another device
+ */
+
+import { guardDaemon } from '@/core/cli/helpers/daemon-guard.js';
+import { renderTerminalQr } from '@/core/cli/helpers/terminal-qr.js';
+import { buildLoginUrl } from '@/core/cli/helpers/url-builder.js';
+import { getDaemonConnection } from '@/core/client/daemon-url.js';
+import { createClient } from '@/core/client/eden-client.js';
+import { loadConfig } from '@/core/config/config.js';
+import { CliError } from '@/utils/errors.js';
+
+export interface LoginCodeOptions {
+  config?: string;
+  /** Code lifetime in seconds (server caps at 3600) */
+  ttl?: string;
+  json?: boolean;
+  /** Set to false by --no-qr */
+  qr?: boolean;
+  /** Named user (from the user file) the code logs in as */
+  user?: string;
+}
+
+export async function loginCodeCommand(options: LoginCodeOptions): Promise<void> {
+  const config = loadConfig(options.config);
+
+  if (!config.security.auth_enabled) {
+    throw new CliError(
+      'Authentication is disabled. Set security.auth_enabled: true in config.yaml and restart the daemon.'
+    );
+  }
+
+  const guard = await guardDaemon({ json: options.json });
+  if (!guard.running) {
+    return;
+  }
+
+  try {
+    const client = createClient(getDaemonConnection(config));
+    const { data, error } = await client.api.auth.otp.generate.post(undefined, {
+      query: { ttl: options.ttl, user: options.user }
+    });
+    if (error || !data) {
+      const message =
+        (error?.value as { message?: string } | undefined)?.message ??
+        error?.value ??
+        'Unknown error';
+      throw new CliError(`Failed to issue login code: ${message}`);
+    }
+
+    const url = buildLoginUrl(config, data.code);
+
+    if (options.json) {
+      console.log(JSON.stringify({ ...data, url }));
+      return;
+    }
+
+    const forUser = options.user ? ` for ${options.user}` : '';
+    console.log(`Login code${forUser}: ${data.code} (expires in ${data.ttlSeconds}s)`);
+    console.log(`URL: ${url}`);
+    if (options.qr !== false) {
+      console.log(`\n${renderTerminalQr(url)}\n`);
+    }
+    console.log('The code works once. Run "bunterm login-code" again for a new one.');
+  } catch (error) {
+    throw CliError.from(error, 'Failed to issue login code');
+  }
+}
@@ -0,0 +1,94 @@
+/**
+ * Passkeys command — List and revoke registered WebAuthn passkeys
+ */
+
+import { guardDaemon } from '@/core/cli/helpers/daemon-guard.js';
+import { getDaemonConnection } from '@/core/client/daemon-url.js';
+import { createClient } from '@/core/client/eden-client.js';
+import { loadConfig } from '@/core/config/config.js';
+import { CliError } from '@/utils/errors.js';
+
+export interface PasskeysOptions {
+  config?: string;
+  json?: boolean;
+}
+
+export interface PasskeysRevokeOptions {
+  config?: string;
+}
+
+export async function passkeysCommand(options: PasskeysOptions): Promise<void> {
+  const config = loadConfig(options.config);
+
+  const guard = await guardDaemon({ json: options.json });
+  if (!guard.running) {
+    return;
+  }
+
+  try {
+    const client = createClient(getDaemonConnection(config));
+    const { data: passkeys, error } = await client.api.auth.passkeys.get();
+    if (error || !passkeys) {
+      throw new CliError(`Failed to list passkeys: ${error?.value ?? 'Unknown error'}`);
+    }
+
+    if (options.json) {
+      console.log(JSON.stringify({ passkeys }));
+      return;
+    }
+
+    if (passkeys.length === 0) {
+      console.log('No passkeys registered.');
+      console.log('Add one from the portal ("Add passkey") while logged in.');
+      return;
+    }
+
+    // Table header
+    console.log('ID        Name                  User        Created                   Last Used');
+    console.log(
+      '--------  --------------------  ----------  ------------------------  ------------------------'
+    );
+
+    for (const passkey of passkeys) {
+      const id = passkey.id.slice(0, 8).padEnd(8);
+      const name = passkey.name.slice(0, 20).padEnd(20);
+      const user = (passkey.user ?? '-').padEnd(10);
+      const created = new Date(passkey.createdAt).toLocaleString().padEnd(24);
+      const lastUsed = passkey.lastUsedAt ? new Date(passkey.lastUsedAt).toLocaleString() : 'never';
+      console.log(`${id}  ${name}  ${user}  ${created}  ${lastUsed}`);
+    }
+
+    console.log(`\n${passkeys.length} passkey(s).`);
+    console.log('Use "bunterm passkeys revoke <id>" to revoke a passkey.');
+  } catch (error) {
+    throw CliError.from(error, 'Failed to list passkeys');
+  }
+}
+
+export async function passkeysRevokeCommand(
+  id: string,
+  options: PasskeysRevokeOptions
+): Promise<void> {
+  const config = loadConfig(options.config);
+
+  const guard = await guardDaemon();
+  if (!guard.running) {
+    return;
+  }
+
+  try {
+    const client = createClient(getDaemonConnection(config));
+    const { data, error } = await client.api.auth.passkeys({ id }).delete();
+    if (error || !data) {
+      const message =
+        (error?.value as { message?: string } | undefined)?.message ??
+        error?.value ??
+        'Unknown error';
+      throw new CliError(`Failed to revoke: ${message}`);
+    }
+
+    console.log(`Passkey "${data.name}" (${data.id.slice(0, 8)}) revoked.`);
+  } catch (error) {
+    throw CliError.from(error, `Failed to revoke passkey ${id}`);
+  }
+}
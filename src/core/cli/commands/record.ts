@@ -0,0 +1,148 @@
+/**
+ * Record command - Start/stop asciicast recording of sessions
+ *
+ * Usage:
+ *   bunterm record start [session]
+ *   bunterm record stop [session]
+ *   bunterm record list [--json]
+ *
+ * When no session is given, BUNTERM_SESSION or the session for the
+ * current directory is used.
+ */
+
+import { guardDaemon } from '@/core/cli/helpers/daemon-guard.js';
+import { requireSessionForCwd } from '@/core/cli/helpers/session-resolver.js';
+import { buildRecordingUrl } from '@/core/cli/helpers/url-builder.js';
+import { getDaemonConnection } from '@/core/client/daemon-url.js';
+import { createClient } from '@/core/client/eden-client.js';
+import { loadConfig } from '@/core/config/config.js';
+import type { Config } from '@/core/config/types.js';
+import { CliError } from '@/utils/errors.js';
+
+export interface RecordOptions {
+  config?: string;
+}
+
+export interface RecordListOptions {
+  config?: string;
+  json?: boolean;
+}
+
+/**
+ * Message of a failed recordings API call
+ */
+function errorMessage(error: { status: unknown; value: unknown } | null): string {
+  return (
+    (error?.value as { message?: string } | undefined)?.message ??
+    `Request failed (${error?.status ?? 'no data'})`
+  );
+}
+
+async function resolveSessionName(config: Config, sessionName?: string): Promise<string> {
+  if (sessionName) {
+    return sessionName;
+  }
+  const envSession = process.env['BUNTERM_SESSION'];
+  if (envSession) {
+    return envSession;
+  }
+  return (await requireSessionForCwd(config)).name;
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+  if (bytes < 1024 * 1024) {
+    return `${(bytes / 1024).toFixed(1)} KB`;
+  }
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Start recording a session
+ */
+export async function recordStartCommand(
+  sessionName: string | undefined,
+  options: RecordOptions
+): Promise<void> {
+  const config = loadConfig(options.config);
+
+  const guard = await guardDaemon();
+  if (!guard.running) {
+    return;
+  }
+
+  const name = await resolveSessionName(config, sessionName);
+  const client = createClient(getDaemonConnection(config));
+  const { data: recording, error } = await client.api.recordings.post({ session: name });
+  if (error || !recording) {
+    throw new CliError(errorMessage(error));
+  }
+
+  console.log(`Recording session '${name}' (${recording.id})`);
+  console.log(`Stop with: bunterm record stop ${name}`);
+}
+
+/**
+ * Stop recording a session
+ */
+export async function recordStopCommand(
+  sessionName: string | undefined,
+  options: RecordOptions
+): Promise<void> {
+  const config = loadConfig(options.config);
+
+  const guard = await guardDaemon();
+  if (!guard.running) {
+    return;
+  }
+
+  const name = await resolveSessionName(config, sessionName);
+  const client = createClient(getDaemonConnection(config));
+  const { data: recording, error } = await client.api.recordings.stop.post({ session: name });
+  if (error || !recording) {
+    throw new CliError(errorMessage(error));
+  }
+
+  console.log(`Stopped recording '${recording.id}' (${formatSize(recording.size)})`);
+  console.log(buildRecordingUrl(config, recording.id));
+}
+
+/**
+ * List recordings
+ */
+export async function recordListCommand(options: RecordListOptions): Promise<void> {
+  const config = loadConfig(options.config);
+
+  const guard = await guardDaemon({ json: options.json });
+  if (!guard.running) {
+    return;
+  }
+
+  const client = createClient(getDaemonConnection(config));
+  const { data: recordings, error } = await client.api.recordings.get();
+  if (error || !recordings) {
+    throw new CliError(errorMessage(error));
+  }
+
+  if (options.json) {
+    console.log(JSON.stringify(recordings, null, 2));
+    return;
+  }
+
+  if (recordings.length === 0) {
+    console.log('No recordings.');
+    return;
+  }
+
+  console.log('Recordings:');
+  for (const recording of recordings) {
+    const started = new Date(recording.startedAt).toLocaleString();
+    const status = recording.active ? ' [recording]' : '';
+    console.log(
+      `  ${recording.id}: ${recording.sessionName}, ${started}, ${formatSize(recording.size)}${status}`
+    );
+    console.log(`    ${buildRecordingUrl(config, recording.id)}`);
+  }
+}
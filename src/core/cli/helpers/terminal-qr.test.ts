@@ -0,0 +1,22 @@
+import { describe, expect, test } from 'bun:test';
+import { renderTerminalQr } from './terminal-qr.js';
+
+describe('renderTerminalQr', () => {
+  test('packs two module rows per line inside a quiet zone', () => {
+    const lines = renderTerminalQr('https://example.com/bunterm/login?code=123456').split('\n');
+    const width = lines[0]?.length ?? 0;
+
+    // Square code: ceil(width / 2) lines of equal width
+    expect(lines).toHaveLength(Math.ceil(width / 2));
+    expect(lines.every((line) => line.length === width)).toBe(true);
+    // Top quiet zone is fully light
+    expect(lines[0]).toBe('█'.repeat(width));
+  });
+
+  test('grows with the amount of data', () => {
+    const short = renderTerminalQr('a').split('\n')[0]?.length ?? 0;
+    const long = renderTerminalQr('x'.repeat(200)).split('\n')[0]?.length ?? 0;
+
+    expect(long).toBeGreaterThan(short);
+  });
+});
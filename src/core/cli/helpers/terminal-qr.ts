@@ -0,0 +1,45 @@
+/**
+ * Terminal QR Code
+ *
+ * Renders a QR code with Unicode half blocks so two module rows fit in one
+ * text line. Light modules are drawn as blocks, which reads correctly on
+ * the usual dark terminal background.
+ */
+
+import qrcode from 'qrcode-generator';
+
+/** Light border around the code, in modules (scanners need a quiet zone) */
+const QUIET_ZONE = 2;
+
+/**
+ * Render text as a QR code for the terminal
+ */
+export function renderTerminalQr(text: string): string {
+  const qr = qrcode(0, 'L');
+  qr.addData(text);
+  qr.make();
+
+  const count = qr.getModuleCount();
+  const size = count + QUIET_ZONE * 2;
+  const isLight = (row: number, col: number): boolean => {
+    const r = row - QUIET_ZONE;
+    const c = col - QUIET_ZONE;
+    if (r < 0 || c < 0 || r >= count || c >= count) {
+      return true;
+    }
+    return !qr.isDark(r, c);
+  };
+
+  const lines: string[] = [];
+  for (let row = 0; row < size; row += 2) {
+    let line = '';
+    for (let col = 0; col < size; col++) {
+      const top = isLight(row, col);
+      // Odd sizes leave a last half row: pad it as quiet zone
+      const bottom = row + 1 < size ? isLight(row + 1, col) : false;
+      line += top ? (bottom ? '█' : '▀') : bottom ? '▄' : ' ';
+    }
+    lines.push(line);
+  }
+  return lines.join('\n');
+}
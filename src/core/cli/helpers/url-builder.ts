@@ -32,3 +32,20 @@ export function buildShareUrl(config: Config, token: string): string {
   const baseUrl = buildBaseUrl(config);
   return `${baseUrl}${config.base_path}/share/${token}`;
 }
+
+/**
+ * Build the URL for a recording's player page
+ */
+export function buildRecordingUrl(config: Config, recordingId: string): string {
+  const baseUrl = buildBaseUrl(config);
+  return `${baseUrl}${config.base_path}/recordings/${encodeURIComponent(recordingId)}`;
+}
+
+/**
+ * Build the URL for the OTP login page, optionally with the code prefilled
+ */
+export function buildLoginUrl(config: Config, code?: string): string {
+  const baseUrl = buildBaseUrl(config);
+  const query = code ? `?code=${encodeURIComponent(code)}` : '';
+  return `${baseUrl}${config.base_path}/login${query}`;
+}
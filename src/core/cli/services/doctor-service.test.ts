@@ -11,7 +11,7 @@ import {
   DEFAULT_SENTRY_CONFIG,
   DEFAULT_TERMINAL_UI_CONFIG
 } from '@/core/config/types.js';
-import { CaddyCheck, SecurityCheck } from './doctor-service.js';
+import { CaddyCheck, SecurityCheck, ShellCheck } from './doctor-service.js';
 
 function createConfig(overrides: Partial<Config> = {}): Config {
   return {
@@ -209,3 +209,22 @@ describe('CaddyCheck', () => {
     expect(calledUrl).toBe('http://caddy:2019/config/');
   });
 });
+
+describe('ShellCheck', () => {
+  const check = new ShellCheck();
+
+  it('passes for zsh sessions', () => {
+    const result = check.run({ config: createConfig({ command: ['/bin/zsh', '-l'] }) });
+
+    expect(result.ok).toBe(true);
+    expect(result.message).toBe('zsh (shell integration auto-injected)');
+  });
+
+  it('warns without failing when the shell is not supported', () => {
+    const result = check.run({ config: createConfig({ command: 'python3' }) });
+
+    expect(result.ok).toBe(true);
+    expect(result.message).toBe('Shell integration unavailable for sh -c python3');
+    expect(result.hint).toBe('Block UI requires bash, zsh or fish');
+  });
+});
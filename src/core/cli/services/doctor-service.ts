@@ -9,6 +9,8 @@ import { isDaemonRunning } from '@/core/client/index.js';
 import { findConfigPath, loadConfig } from '@/core/config/config.js';
 import { validateEnvAtStartup } from '@/core/config/env.js';
 import type { Config } from '@/core/config/types.js';
+import { detectShellType } from '@/core/terminal/shell-detection.js';
+import { buildSpawnArgs } from '@/utils/command-template.js';
 
 const VERSION_REGEX = /(\d+\.\d+[.\d]*)/;
 
@@ -111,6 +113,61 @@ export class TmuxCheck implements DoctorCheck {
   }
 }
 
+/**
+ * Check that the session shell supports Block UI shell integration
+ */
+export class ShellCheck implements DoctorCheck {
+  readonly name = 'shell';
+
+  run(ctx: CheckContext): CheckResult {
+    const command = buildSpawnArgs(ctx.config?.command);
+    const shellType = detectShellType(command, process.env as Record<string, string>);
+
+    if (shellType === 'unknown') {
+      return {
+        name: this.name,
+        ok: true, // Block UI is optional
+        message: `Shell integration unavailable for ${command.join(' ')}`,
+        hint: 'Block UI requires bash, zsh or fish'
+      };
+    }
+
+    if (shellType !== 'fish') {
+      return {
+        name: this.name,
+        ok: true,
+        message: `${shellType} (shell integration auto-injected)`
+      };
+    }
+
+    // fish_preexec/fish_postexec events need fish 3.0+
+    const output = tryExec('fish --version');
+    const version = output?.match(VERSION_REGEX)?.[1];
+    if (!version) {
+      return {
+        name: this.name,
+        ok: false,
+        message: 'fish not found',
+        hint: 'Install fish 3.0+ or change the session command'
+      };
+    }
+    const [major] = version.split('.').map(Number);
+    if (major !== undefined && major >= 3) {
+      return {
+        name: this.name,
+        ok: true,
+        message: `fish ${version} (shell integration auto-injected)`
+      };
+    }
+    return {
+      name: this.name,
+      ok: false,
+      message: `fish ${version} is too old for shell integration`,
+      hint: 'Upgrade to fish 3.0+'
+    };
+  }
+}
+
 /**
  * Check if config file exists and is valid
  */
@@ -314,6 +371,7 @@ export class CaddyCheck implements DoctorCheck {
 export const defaultChecks: DoctorCheck[] = [
   new BunCheck(),
   new TmuxCheck(),
+  new ShellCheck(),
   new ConfigCheck(),
   new EnvCheck(),
   new DaemonCheck(),
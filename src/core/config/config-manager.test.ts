@@ -80,6 +80,30 @@ terminal_ui:
     expect(config.terminal_ui.font_size_default_mobile).toBe(40);
   });
 
+  test('reload detects notification pattern changes', () => {
+    const configPath = join(TEST_CONFIG_DIR, 'config.yaml');
+    writeFileSync(configPath, 'daemon_port: 8000\n');
+
+    const manager = initConfigManager(configPath);
+
+    writeFileSync(
+      configPath,
+      `
+daemon_port: 8000
+notifications:
+  patterns:
+    - regex: "Tests failed"
+      message: "Tests failed"
+`
+    );
+
+    const result = manager.reload();
+
+    expect(result.success).toBe(true);
+    expect(result.reloaded).toEqual(['notifications.patterns']);
+    expect(manager.getConfig().notifications.patterns).toHaveLength(1);
+  });
+
   test('reload detects restart-required changes', () => {
     const configPath = join(TEST_CONFIG_DIR, 'config.yaml');
     writeFileSync(configPath, 'daemon_port: 7680\n');
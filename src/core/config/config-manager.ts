@@ -35,6 +35,9 @@ const TERMINAL_UI_KEYS = [
   'double_tap_delay'
 ] as const;
 
+// Notification keys to check (JSON comparison, read live by output pattern notifications)
+const NOTIFICATION_KEYS = ['enabled', 'patterns', 'default_cooldown'] as const;
+
 function checkSessionChanges(oldConfig: Config, newConfig: Config): boolean {
   const oldSessionNames = new Set(oldConfig.sessions.map((s) => s.name));
   const newSessionNames = new Set(newConfig.sessions.map((s) => s.name));
@@ -44,6 +47,13 @@ function checkSessionChanges(oldConfig: Config, newConfig: Config): boolean {
   );
 }
 
+function checkNotificationChanges(oldConfig: Config, newConfig: Config): string[] {
+  return NOTIFICATION_KEYS.filter(
+    (key) =>
+      JSON.stringify(oldConfig.notifications[key]) !== JSON.stringify(newConfig.notifications[key])
+  ).map((key) => `notifications.${key}`);
+}
+
 /**
  * Compare two configs and identify what changed
  */
@@ -61,6 +71,9 @@ function detectChanges(
     }
   }
 
+  // Check notification patterns
+  hotReloadable.push(...checkNotificationChanges(oldConfig, newConfig));
+
   // Check session definitions
   if (checkSessionChanges(oldConfig, newConfig)) {
     hotReloadable.push('sessions');
@@ -161,6 +161,43 @@ terminal_ui:
     });
   });
 
+  describe('ai_chat.http_runners', () => {
+    const local = { name: 'local', base_url: 'http://localhost:11434/v1', model: 'llama3' };
+
+    test('accepts a configured runner as default_runner', () => {
+      const config = ConfigSchema.parse({
+        ai_chat: { default_runner: 'local', http_runners: [local] }
+      });
+
+      expect(config.ai_chat.default_runner).toBe('local');
+      expect(config.ai_chat.http_runners[0]?.timeout_ms).toBe(120000);
+    });
+
+    test('rejects unknown default runners, duplicates and reserved names', () => {
+      const parse = (ai_chat: unknown) => ConfigSchema.safeParse({ ai_chat }).success;
+
+      expect(parse({ default_runner: 'missing' })).toBe(false);
+      expect(parse({ http_runners: [local, local] })).toBe(false);
+      expect(parse({ http_runners: [{ ...local, name: 'claude' }] })).toBe(false);
+    });
+  });
+
+  describe('ai_chat.command_deny_patterns', () => {
+    test('ships a default deny-list', () => {
+      const config = ConfigSchema.parse({});
+      const denyList = config.ai_chat.command_deny_patterns.map((p) => new RegExp(p, 'i'));
+
+      expect(denyList.some((re) => re.test('rm -rf /'))).toBe(true);
+      expect(denyList.some((re) => re.test('rm -rf ./build'))).toBe(false);
+    });
+
+    test('rejects invalid regular expressions', () => {
+      const result = ConfigSchema.safeParse({ ai_chat: { command_deny_patterns: ['(unclosed'] } });
+
+      expect(result.success).toBe(false);
+    });
+  });
+
   describe('findSessionDefinition', () => {
     test('finds session by name', () => {
       const config = {
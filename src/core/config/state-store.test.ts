@@ -300,6 +300,19 @@ describe('createInMemoryStateStore', () => {
       expect(store.getPushSubscription('sub-1')).toBeUndefined();
     });
 
+    test('setPushSubscriptionKinds updates notification kinds', () => {
+      const store = createInMemoryStateStore();
+      store.addPushSubscription({
+        id: 'sub-1',
+        endpoint: 'https://example.com/push',
+        keys: { p256dh: 'key1', auth: 'auth1' },
+        createdAt: '2024-01-01'
+      });
+      expect(store.setPushSubscriptionKinds('sub-1', ['terminal'])?.kinds).toEqual(['terminal']);
+      expect(store.getPushSubscription('sub-1')?.kinds).toEqual(['terminal']);
+      expect(store.setPushSubscriptionKinds('nonexistent', ['agent'])).toBeUndefined();
+    });
+
     test('removePushSubscription does nothing for non-existent subscription', () => {
       const store = createInMemoryStateStore();
       store.removePushSubscription('nonexistent');
@@ -48,6 +48,10 @@ export interface StateStore {
   // Push subscription state
   addPushSubscription(subscription: PushSubscriptionState): void;
   removePushSubscription(id: string): void;
+  setPushSubscriptionKinds(
+    id: string,
+    kinds: PushSubscriptionState['kinds']
+  ): PushSubscriptionState | undefined;
   getPushSubscription(id: string): PushSubscriptionState | undefined;
   getAllPushSubscriptions(): PushSubscriptionState[];
 }
@@ -115,6 +119,13 @@ export function createInMemoryStateStore(initialState?: Partial<State>): StateSt
     removePushSubscription: (id: string) => {
       state.pushSubscriptions = state.pushSubscriptions.filter((s) => s.id !== id);
     },
+    setPushSubscriptionKinds: (id: string, kinds: PushSubscriptionState['kinds']) => {
+      const subscription = state.pushSubscriptions.find((s) => s.id === id);
+      if (subscription) {
+        subscription.kinds = kinds;
+      }
+      return subscription;
+    },
     getPushSubscription: (id: string) => state.pushSubscriptions.find((s) => s.id === id),
     getAllPushSubscriptions: () => [...state.pushSubscriptions]
   };
@@ -242,6 +242,22 @@ export function removePushSubscription(id: string): void {
   });
 }
 
+export function setPushSubscriptionKinds(
+  id: string,
+  kinds: PushSubscriptionState['kinds']
+): PushSubscriptionState | undefined {
+  return withStateLock(() => {
+    const state = loadState();
+    const subscription = state.pushSubscriptions.find((s) => s.id === id);
+    if (!subscription) {
+      return undefined;
+    }
+    subscription.kinds = kinds;
+    saveState(state);
+    return subscription;
+  });
+}
+
 export function getPushSubscription(id: string): PushSubscriptionState | undefined {
   return loadState().pushSubscriptions.find((s) => s.id === id);
 }
@@ -275,6 +291,7 @@ export const defaultStateStore: StateStore = {
   getAllShares,
   addPushSubscription,
   removePushSubscription,
+  setPushSubscriptionKinds,
   getPushSubscription,
   getAllPushSubscriptions
 };
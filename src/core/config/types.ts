@@ -40,7 +40,21 @@ export const FileTransferConfigSchema = z.object({
     .int()
     .min(1024)
     .default(100 * 1024 * 1024), // 100MB
-  allowed_extensions: z.array(z.string()).default([])
+  allowed_extensions: z.array(z.string()).default([]),
+  /** Where deleted files are moved (default: <state dir>/trash) */
+  trash_dir: z.string().optional(),
+  /** Incomplete resumable uploads are discarded after this long */
+  upload_ttl_seconds: z.number().int().min(60).default(86400), // 24 hours
+  /** Ceiling on the total file size of a directory archive download */
+  max_archive_size: z
+    .number()
+    .int()
+    .min(1024)
+    .default(1024 * 1024 * 1024), // 1GB
+  /** .gitignore-style patterns left out of archives, relative to the session directory */
+  archive_exclude: z.array(z.string()).default(['.git/']),
+  /** Leave out what the .gitignore files in the session directory ignore */
+  archive_gitignore: z.boolean().default(true)
 });
 
 export type FileTransferConfig = z.infer<typeof FileTransferConfigSchema>;
@@ -49,7 +63,11 @@ export type FileTransferConfig = z.infer<typeof FileTransferConfigSchema>;
 export const DEFAULT_FILE_TRANSFER_CONFIG: FileTransferConfig = {
   enabled: true,
   max_file_size: 100 * 1024 * 1024, // 100MB
-  allowed_extensions: []
+  allowed_extensions: [],
+  upload_ttl_seconds: 86400,
+  max_archive_size: 1024 * 1024 * 1024, // 1GB
+  archive_exclude: ['.git/'],
+  archive_gitignore: true
 };
 
 export const NotificationPatternSchema = z.object({
@@ -211,7 +229,8 @@ export const NativeTerminalConfigSchema = z.object({
   enabled: z.boolean().default(false),
   default_shell: z.string().default('/bin/bash'),
   scrollback: z.number().int().min(100).max(100000).default(10000),
-  output_buffer_size: z.number().int().min(100).max(10000).default(1000)
+  output_buffer_size: z.number().int().min(100).max(10000).default(1000),
+  resurrect_sessions: z.boolean().default(false)
 });
 
 export type NativeTerminalConfig = z.infer<typeof NativeTerminalConfigSchema>;
@@ -221,32 +240,142 @@ export const DEFAULT_NATIVE_TERMINAL_CONFIG: NativeTerminalConfig = {
   enabled: false,
   default_shell: '/bin/bash',
   scrollback: 10000,
-  output_buffer_size: 1000
+  output_buffer_size: 1000,
+  resurrect_sessions: false
 };
 
-export const AIChatConfigSchema = z.object({
-  enabled: z.boolean().default(false),
-  default_runner: z.enum(['claude', 'codex', 'gemini', 'auto']).default('auto'),
-  cache_enabled: z.boolean().default(true),
-  cache_ttl_ms: z.number().int().min(0).default(3600000), // 1 hour
-  rate_limit_enabled: z.boolean().default(true),
-  rate_limit_max_requests: z.number().int().min(1).max(100).default(20),
-  rate_limit_window_ms: z.number().int().min(1000).default(60000) // 1 minute
+/** Runner names reserved for the built-in CLI runners */
+const RESERVED_AI_RUNNER_NAMES = ['claude', 'codex', 'gemini', 'auto', 'disabled'];
+
+/** OpenAI-compatible chat completions endpoint (OpenAI, Ollama, vLLM, llama.cpp, ...) */
+export const AIHttpRunnerConfigSchema = z.object({
+  /** Runner name shown in the runner selector */
+  name: z
+    .string()
+    .regex(/^[a-z0-9][a-z0-9_-]*$/, 'Use lowercase letters, digits, "-" and "_"')
+    .refine((name) => !RESERVED_AI_RUNNER_NAMES.includes(name), 'Name is reserved'),
+  /** API base URL including the version prefix (e.g. http://localhost:11434/v1) */
+  base_url: z.string().url(),
+  model: z.string().min(1),
+  /** Environment variable holding the API key (sent as a Bearer token) */
+  api_key_env: z.string().min(1).optional(),
+  timeout_ms: z.number().int().min(1000).default(120000), // 2 minutes
+  max_tokens: z.number().int().min(1).optional()
 });
 
+export type AIHttpRunnerConfig = z.infer<typeof AIHttpRunnerConfigSchema>;
+
+/**
+ * Commands the AI chat never runs, even with approval (case-insensitive regexes):
+ * recursive delete of / or ~, filesystem formatting, raw writes to disks, fork bombs
+ */
+export const DEFAULT_COMMAND_DENY_PATTERNS = [
+  '\\brm\\s+(-\\S+\\s+)*(/|~|\\$HOME)/?(\\s|\\*|$)',
+  '\\bmkfs(\\.|\\s)',
+  '\\bdd\\b.*\\bof=/dev/',
+  ':\\(\\)\\s*\\{\\s*:\\|:&\\s*\\};:'
+];
+
+export const AIChatConfigSchema = z
+  .object({
+    enabled: z.boolean().default(false),
+    /** 'claude' | 'codex' | 'gemini' | 'auto' or the name of an http_runners entry */
+    default_runner: z.string().min(1).default('auto'),
+    http_runners: z.array(AIHttpRunnerConfigSchema).default([]),
+    cache_enabled: z.boolean().default(true),
+    cache_ttl_ms: z.number().int().min(0).default(3600000), // 1 hour
+    rate_limit_enabled: z.boolean().default(true),
+    rate_limit_max_requests: z.number().int().min(1).max(100).default(20),
+    rate_limit_window_ms: z.number().int().min(1000).default(60000), // 1 minute
+    /** Keep threads and runs in the state directory across restarts */
+    persist_history: z.boolean().default(true),
+    /** Suggested commands matching any of these regexes cannot be run from the chat */
+    command_deny_patterns: z.array(z.string().min(1)).default(DEFAULT_COMMAND_DENY_PATTERNS)
+  })
+  .superRefine((config, ctx) => {
+    const names = config.http_runners.map((runner) => runner.name);
+    for (const [i, name] of names.entries()) {
+      if (names.indexOf(name) !== i) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['http_runners', i, 'name'],
+          message: `Duplicate runner name '${name}'`
+        });
+      }
+    }
+    for (const [i, pattern] of config.command_deny_patterns.entries()) {
+      try {
+        new RegExp(pattern);
+      } catch (error) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['command_deny_patterns', i],
+          message: `Invalid regular expression: ${error instanceof Error ? error.message : pattern}`
+        });
+      }
+    }
+    const selectable = ['claude', 'codex', 'gemini', 'auto', ...names];
+    if (!selectable.includes(config.default_runner)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['default_runner'],
+        message: `Unknown runner '${config.default_runner}'`
+      });
+    }
+  });
+
 export type AIChatConfig = z.infer<typeof AIChatConfigSchema>;
 
 /** Default AI chat configuration */
 export const DEFAULT_AI_CHAT_CONFIG: AIChatConfig = {
   enabled: false,
   default_runner: 'auto',
+  http_runners: [],
   cache_enabled: true,
   cache_ttl_ms: 3600000,
   rate_limit_enabled: true,
   rate_limit_max_requests: 20,
-  rate_limit_window_ms: 60000
+  rate_limit_window_ms: 60000,
+  persist_history: true,
+  command_deny_patterns: DEFAULT_COMMAND_DENY_PATTERNS
 };
 
+export const BlocksConfigSchema = z.object({
+  persistent: z.boolean().default(true)
+});
+
+export type BlocksConfig = z.infer<typeof BlocksConfigSchema>;
+
+/** Default command block storage configuration */
+export const DEFAULT_BLOCKS_CONFIG: BlocksConfig = {
+  persistent: true
+};
+
+/** Role of a named user (admin > operator > viewer) */
+export const UserRoleSchema = z.enum(['admin', 'operator', 'viewer']);
+
+export type UserRole = z.infer<typeof UserRoleSchema>;
+
+/** What a user may do in one session */
+export const SessionPermissionSchema = z.enum(['view', 'input', 'files', 'commands']);
+
+export type SessionPermission = z.infer<typeof SessionPermissionSchema>;
+
+export const SessionAclEntrySchema = z.object({
+  /** User name; omit (together with role) to match everyone */
+  user: z.string().min(1).optional(),
+  role: UserRoleSchema.optional(),
+  permissions: z.array(SessionPermissionSchema).min(1)
+});
+
+export const SessionAclSchema = z.object({
+  /** Session name, `*` matches any characters (e.g. "prod-*") */
+  session: z.string().min(1),
+  allow: z.array(SessionAclEntrySchema)
+});
+
+export type SessionAcl = z.infer<typeof SessionAclSchema>;
+
 export const SecurityConfigSchema = z.object({
   dev_mode: z.boolean().default(false),
   allowed_origins: z.array(z.string()).default([]),
@@ -261,7 +390,16 @@ export const SecurityConfigSchema = z.object({
   auth_proxy_header: z.string().default('X-Forwarded-User'),
   auth_adaptive_shield: z.boolean().default(false),
   auth_lan_session_ttl_seconds: z.number().int().min(60).default(604800),
-  auth_internet_session_ttl_seconds: z.number().int().min(60).default(3600)
+  auth_internet_session_ttl_seconds: z.number().int().min(60).default(3600),
+  audit_max_size: z
+    .number()
+    .int()
+    .min(64 * 1024)
+    .default(10 * 1024 * 1024),
+  audit_max_files: z.number().int().min(1).max(100).default(5),
+  auth_users_file: z.string().optional(),
+  auth_default_role: UserRoleSchema.default('admin'),
+  session_acls: z.array(SessionAclSchema).default([])
 });
 
 export type SecurityConfig = z.infer<typeof SecurityConfigSchema>;
@@ -281,7 +419,11 @@ export const DEFAULT_SECURITY_CONFIG: SecurityConfig = {
   auth_proxy_header: 'X-Forwarded-User',
   auth_adaptive_shield: false,
   auth_lan_session_ttl_seconds: 604800,
-  auth_internet_session_ttl_seconds: 3600
+  auth_internet_session_ttl_seconds: 3600,
+  audit_max_size: 10 * 1024 * 1024,
+  audit_max_files: 5,
+  auth_default_role: 'admin',
+  session_acls: []
 };
 
 export const StaticOffloadConfigSchema = z.object({
@@ -320,6 +462,7 @@ export const ConfigSchema = z.object({
   sentry: SentryConfigSchema.default(DEFAULT_SENTRY_CONFIG),
   native_terminal: NativeTerminalConfigSchema.default(DEFAULT_NATIVE_TERMINAL_CONFIG),
   ai_chat: AIChatConfigSchema.default(DEFAULT_AI_CHAT_CONFIG),
+  blocks: BlocksConfigSchema.default(DEFAULT_BLOCKS_CONFIG),
   security: SecurityConfigSchema.default(DEFAULT_SECURITY_CONFIG)
 });
 
@@ -341,7 +484,9 @@ export const SessionStateSchema = z.object({
   pid: z.number().int().positive(),
   path: z.string(),
   dir: z.string(),
-  started_at: z.string()
+  started_at: z.string(),
+  /** Command template the session was created with (used for resurrection) */
+  command: z.union([z.string(), z.array(z.string())]).optional()
 });
 
 export type SessionState = z.infer<typeof SessionStateSchema>;
@@ -361,11 +506,20 @@ export const PushSubscriptionKeysSchema = z.object({
   auth: z.string()
 });
 
+/** Push notification sources a subscription can opt into */
+export const NotificationKindSchema = z.enum(['terminal', 'pattern', 'agent']);
+
+export type NotificationKind = z.infer<typeof NotificationKindSchema>;
+
 export const PushSubscriptionStateSchema = z.object({
   id: z.string().min(1),
   endpoint: z.string().url(),
   keys: PushSubscriptionKeysSchema,
   sessionName: z.string().optional(),
+  /** Notification kinds to receive (omitted = all kinds) */
+  kinds: z.array(NotificationKindSchema).optional(),
+  /** Who subscribed: only sessions this user can view are notified */
+  user: z.object({ name: z.string().optional(), role: UserRoleSchema }).optional(),
   createdAt: z.string()
 });
 
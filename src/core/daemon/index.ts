@@ -1,11 +1,24 @@
 import { existsSync, mkdirSync } from 'node:fs';
 import { join } from 'node:path';
 import { getFeaturePlugins } from '@/bootstrap/plugin-registry.js';
-import { createServices, createSessionPluginsFactory } from '@/bootstrap/service-factory.js';
+import {
+  createPushNotificationSender,
+  createServices,
+  createSessionPluginsFactory
+} from '@/bootstrap/service-factory.js';
 import { getCurrentConfig, initConfigManager } from '@/core/config/config-manager.js';
-import { clearDaemonState, getStateDir, setDaemonState } from '@/core/config/state.js';
+import {
+  clearDaemonState,
+  defaultStateStore,
+  getStateDir,
+  setDaemonState
+} from '@/core/config/state.js';
 import type { Config } from '@/core/config/types.js';
-import { InMemoryCookieSessionStore } from '@/core/server/auth/cookie-session.js';
+import { createAccessControl } from '@/core/server/auth/access-control.js';
+import {
+  COOKIE_SESSION_DB_FILENAME,
+  SqliteCookieSessionStore
+} from '@/core/server/auth/cookie-session-db.js';
 import { createNativeTerminalServer, type NativeTerminalServer } from '@/core/server/server.js';
 import { NativeSessionManager } from '@/core/server/session-manager.js';
 import { createLogger, setLogFile } from '@/utils/logger.js';
@@ -80,17 +93,31 @@ async function startNativeTerminalDaemon(
 ): Promise<void> {
   log.info('Starting native terminal daemon...');
 
-  // Initialize auth session store if auth is enabled
+  // Initialize the persistent auth session store if auth is enabled
   const cookieSessionStore = config.security?.auth_enabled
-    ? new InMemoryCookieSessionStore()
+    ? new SqliteCookieSessionStore(join(getStateDir(), COOKIE_SESSION_DB_FILENAME))
     : null;
   if (cookieSessionStore) {
-    log.info('Auth session store initialized');
+    log.info(`Auth session store initialized (${cookieSessionStore.listSessions().length} active)`);
   }
 
+  // Shared by the server and push notifications, which go only to users who can view the session
+  const accessControl = createAccessControl(config);
+
   // Bootstrap feature services, then create the server
-  const sessionManager = new NativeSessionManager(config, createSessionPluginsFactory());
-  const services = createServices(config, sessionManager);
+  const notificationSender = createPushNotificationSender(config, accessControl);
+  const sessionManager = new NativeSessionManager(
+    config,
+    createSessionPluginsFactory(notificationSender, getCurrentConfig),
+    config.native_terminal.resurrect_sessions ? defaultStateStore : null
+  );
+  const services = createServices(config, sessionManager, notificationSender);
+
+  // Respawn sessions from the previous run before clients can connect
+  const restored = await sessionManager.resurrectSessions();
+  if (restored.length > 0) {
+    log.info(`Restored ${restored.length} session(s): ${restored.join(', ')}`);
+  }
 
   let nativeServer: NativeTerminalServer;
   try {
@@ -99,6 +126,7 @@ async function startNativeTerminalDaemon(
       getConfig: getCurrentConfig,
       sessionManager,
       cookieSessionStore,
+      accessControl,
       featurePlugins: getFeaturePlugins(),
       ...services
     });
@@ -120,6 +148,7 @@ async function startNativeTerminalDaemon(
   const shutdownNative = async () => {
     log.info('Shutdown requested (native mode)');
     await nativeServer.stop();
+    cookieSessionStore?.close();
     clearDaemonState();
     log.info('Native daemon shutdown complete');
     process.exit(0);
@@ -0,0 +1,45 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  acceptsBinaryProtocol,
+  BINARY_PROTOCOL,
+  BinaryFrameType,
+  decodeBinaryFrame,
+  encodeBinaryFrame
+} from './binary.js';
+
+describe('binary framing', () => {
+  test('round-trips a frame', () => {
+    const payload = new TextEncoder().encode('héllo\x1b[0m');
+    const frame = encodeBinaryFrame(BinaryFrameType.Output, payload);
+
+    expect(frame.length).toBe(payload.length + 1);
+    const decoded = decodeBinaryFrame(frame.buffer as ArrayBuffer);
+    expect(decoded?.type).toBe(BinaryFrameType.Output);
+    expect(decoded?.payload).toEqual(payload);
+  });
+
+  test('rejects empty frames and unknown frame types', () => {
+    expect(decodeBinaryFrame(new Uint8Array())).toBeNull();
+    expect(decodeBinaryFrame(new Uint8Array([0x7f, 1, 2]))).toBeNull();
+  });
+
+  test('accepts an input frame with an empty payload', () => {
+    const decoded = decodeBinaryFrame(new Uint8Array([BinaryFrameType.Input]));
+
+    expect(decoded?.type).toBe(BinaryFrameType.Input);
+    expect(decoded?.payload.length).toBe(0);
+  });
+});
+
+describe('acceptsBinaryProtocol', () => {
+  test('finds the protocol among requested subprotocols', () => {
+    expect(acceptsBinaryProtocol(BINARY_PROTOCOL)).toBe(true);
+    expect(acceptsBinaryProtocol(`bearer.abc, ${BINARY_PROTOCOL}`)).toBe(true);
+  });
+
+  test('falls back to JSON otherwise', () => {
+    expect(acceptsBinaryProtocol(null)).toBe(false);
+    expect(acceptsBinaryProtocol('bearer.abc')).toBe(false);
+    expect(acceptsBinaryProtocol(`${BINARY_PROTOCOL}-old`)).toBe(false);
+  });
+});
@@ -120,6 +120,7 @@ export interface CommandRequest {
   agentMeta?: AgentMeta;
   timeoutMs?: number; // default: 300000 (5 minutes)
   captureGitInfo?: boolean; // default: true
+  correlationId?: string; // default: generated per block (workflows share one)
 }
 
 /** Command execution response */
@@ -129,6 +130,56 @@ export interface CommandResponse {
   status: ExtendedBlockStatus;
 }
 
+// === Workflows ===
+
+/** One step of a command workflow */
+export interface WorkflowStep {
+  id: string;
+  command: string;
+  dependsOn?: string[]; // step IDs that must finish first
+  continueOnError?: boolean; // failure does not stop the workflow or its dependents
+  mode?: ExecutionMode; // default: workflow mode
+  cwd?: string;
+  env?: Record<string, string>;
+  timeoutMs?: number;
+  outputVar?: string; // capture trimmed stdout into this variable
+}
+
+/** Workflow submission (steps run in order unless any step declares dependsOn) */
+export interface WorkflowRequest {
+  steps: WorkflowStep[];
+  mode?: ExecutionMode; // default for steps: 'ephemeral'
+  cwd?: string;
+  env?: Record<string, string>;
+  tags?: string[];
+  agentMeta?: AgentMeta;
+}
+
+/** Overall workflow status */
+export type WorkflowStatus = 'running' | 'success' | 'error' | 'canceled';
+
+/** Step status (block status once the step has started) */
+export type WorkflowStepStatus = 'pending' | 'skipped' | ExtendedBlockStatus;
+
+/** Step state within a workflow */
+export interface WorkflowStepState {
+  id: string;
+  status: WorkflowStepStatus;
+  blockId?: string;
+  exitCode?: number;
+}
+
+/** Workflow state (the ID is also the correlationId of every step block) */
+export interface Workflow {
+  id: string;
+  sessionName: string;
+  status: WorkflowStatus;
+  steps: WorkflowStepState[];
+  variables: Record<string, string>; // captured step outputs
+  startedAt: string;
+  endedAt?: string;
+}
+
 /** OSC 633 shell integration status */
 export interface IntegrationStatus {
   osc633: boolean;
@@ -199,7 +250,8 @@ export type BlockEventType =
   | 'block.stderr'
   | 'block.completed'
   | 'block.canceled'
-  | 'block.timeout';
+  | 'block.timeout'
+  | 'block.workflow';
 
 /** SSE event data */
 export interface BlockEvent {
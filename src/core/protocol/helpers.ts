@@ -21,6 +21,7 @@ import type {
   FileChangeMessage,
   OutputMessage,
   PongMessage,
+  SnapshotMessage,
   TitleMessage
 } from './messages.js';
 import {
@@ -149,6 +150,13 @@ export function createOutputMessage(data: Buffer | Uint8Array): OutputMessage {
   return { type: 'output', data: base64 };
 }
 
+/**
+ * Create a snapshot message from serialized screen state
+ */
+export function createSnapshotMessage(serialized: string): SnapshotMessage {
+  return { type: 'snapshot', data: Buffer.from(serialized).toString('base64') };
+}
+
 /**
  * Create an error message
  */
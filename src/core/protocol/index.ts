@@ -15,6 +15,15 @@ export type {
   AIStreamMessage
 } from './ai.js';
 
+// === Binary framing ===
+export {
+  acceptsBinaryProtocol,
+  BINARY_PROTOCOL,
+  type BinaryFrame,
+  BinaryFrameType,
+  decodeBinaryFrame,
+  encodeBinaryFrame
+} from './binary.js';
 // === Blocks ===
 export {
   type AgentMeta,
@@ -42,7 +51,13 @@ export {
   type IntegrationStatus,
   type OutputChunk,
   type RetentionPolicy,
-  type SubmissionSource
+  type SubmissionSource,
+  type Workflow,
+  type WorkflowRequest,
+  type WorkflowStatus,
+  type WorkflowStep,
+  type WorkflowStepState,
+  type WorkflowStepStatus
 } from './blocks.js';
 // === Helpers ===
 export {
@@ -57,6 +72,7 @@ export {
   createFileChangeMessage,
   createOutputMessage,
   createPongMessage,
+  createSnapshotMessage,
   parseClientMessage,
   parseClientMessageSafe,
   parseServerMessage,
@@ -68,9 +84,13 @@ export type {
   BellMessage,
   ClientMessage,
   ClipboardMessage,
+  ControlDeniedMessage,
+  ControlRequestMessage,
+  DenyControlMessage,
   ErrorMessage,
   ExitMessage,
   FileChangeMessage,
+  GrantControlMessage,
   // Client messages
   InputMessage,
   NativeTerminalWebSocket,
@@ -78,9 +98,15 @@ export type {
   NativeTerminalWebSocketData,
   // Server messages
   OutputMessage,
+  Participant,
+  ParticipantRole,
   PingMessage,
   PongMessage,
+  PresenceMessage,
+  ReleaseControlMessage,
+  RequestControlMessage,
   ResizeMessage,
+  SnapshotMessage,
   TerminalSessionInfo,
   // Session types
   TerminalSessionOptions,
@@ -110,11 +136,15 @@ import type {
 import type {
   BellMessage,
   ClipboardMessage,
+  ControlDeniedMessage,
+  ControlRequestMessage,
   ErrorMessage,
   ExitMessage,
   FileChangeMessage,
   OutputMessage,
   PongMessage,
+  PresenceMessage,
+  SnapshotMessage,
   TitleMessage
 } from './messages.js';
 
@@ -135,6 +165,7 @@ import type { ClaudeWatcherMessage } from './extension-messages.js';
 /** All server message types */
 export type ServerMessage =
   | OutputMessage
+  | SnapshotMessage
   | TitleMessage
   | ExitMessage
   | PongMessage
@@ -142,6 +173,9 @@ export type ServerMessage =
   | BellMessage
   | ClipboardMessage
   | FileChangeMessage
+  | PresenceMessage
+  | ControlRequestMessage
+  | ControlDeniedMessage
   | BlockStartMessage
   | BlockEndMessage
   | BlockOutputMessage
@@ -54,6 +54,30 @@ export interface ReplayRequestMessage {
   type: 'replayRequest';
 }
 
+// === Input Control Messages (Client → Server) ===
+
+/** Viewer asks the driver for control (granted at once when nobody drives) */
+export interface RequestControlMessage {
+  type: 'requestControl';
+}
+
+/** Driver hands control to another participant */
+export interface GrantControlMessage {
+  type: 'grantControl';
+  participantId: string;
+}
+
+/** Driver turns down a control request */
+export interface DenyControlMessage {
+  type: 'denyControl';
+  participantId: string;
+}
+
+/** Driver gives up control (the next participant to type takes it) */
+export interface ReleaseControlMessage {
+  type: 'releaseControl';
+}
+
 export type ClientMessage =
   | InputMessage
   | ResizeMessage
@@ -62,7 +86,11 @@ export type ClientMessage =
   | UnwatchFileMessage
   | WatchDirMessage
   | UnwatchDirMessage
-  | ReplayRequestMessage;
+  | ReplayRequestMessage
+  | RequestControlMessage
+  | GrantControlMessage
+  | DenyControlMessage
+  | ReleaseControlMessage;
 
 // === Server → Client Messages ===
 
@@ -72,6 +100,16 @@ export interface OutputMessage {
   data: string;
 }
 
+/**
+ * Serialized screen state (scrollback, alternate buffer, cursor, modes)
+ * sent on connect/replay. The client resets its terminal before writing it.
+ */
+export interface SnapshotMessage {
+  type: 'snapshot';
+  /** Base64 encoded escape sequence stream */
+  data: string;
+}
+
 export interface TitleMessage {
   type: 'title';
   title: string;
@@ -108,6 +146,44 @@ export interface FileChangeMessage {
   timestamp: number;
 }
 
+// === Presence / Input Control (Server → Client) ===
+
+export type ParticipantRole = 'driver' | 'viewer';
+
+export interface Participant {
+  /** Per-connection ID (changes on reconnect) */
+  id: string;
+  /** Authenticated user (reverse proxy auth), if known */
+  user?: string;
+  /** Device description derived from the User-Agent (e.g. "iPhone", "Mac") */
+  device: string;
+  role: ParticipantRole;
+  /** Read-only participants (share link viewers) can never drive */
+  readOnly?: boolean;
+  connectedAt: string;
+}
+
+/** Who is connected and who is driving; sent to every client on change */
+export interface PresenceMessage {
+  type: 'presence';
+  /** The receiving client's own participant ID */
+  selfId: string;
+  /** Current driver, null when nobody holds control */
+  driverId: string | null;
+  participants: Participant[];
+}
+
+/** Sent to the driver when a viewer requests control */
+export interface ControlRequestMessage {
+  type: 'controlRequest';
+  participant: Participant;
+}
+
+/** Sent to a viewer whose control request was denied */
+export interface ControlDeniedMessage {
+  type: 'controlDenied';
+}
+
 // === Session Types ===
 
 export interface TerminalSessionOptions {
@@ -125,6 +201,8 @@ export interface TerminalSessionOptions {
   rows?: number;
   /** Output buffer size for AI features (number of messages to keep) */
   outputBufferSize?: number;
+  /** Scrollback lines kept by the headless screen for reconnect snapshots */
+  scrollback?: number;
   /** API socket path for OSC 633 side-channel (passed as BUNTERM_API_SOCK to shell) */
   apiSocketPath?: string;
 }
@@ -137,6 +215,8 @@ export interface TerminalSessionInfo {
   rows: number;
   clientCount: number;
   startedAt: string;
+  /** True if the session was resurrected after a daemon restart */
+  restored?: boolean;
 }
 
 // === WebSocket Handler Types ===
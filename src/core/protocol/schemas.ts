@@ -49,6 +49,24 @@ export const ReplayRequestMessageSchema = z.object({
   type: z.literal('replayRequest')
 });
 
+export const RequestControlMessageSchema = z.object({
+  type: z.literal('requestControl')
+});
+
+export const GrantControlMessageSchema = z.object({
+  type: z.literal('grantControl'),
+  participantId: z.string().min(1)
+});
+
+export const DenyControlMessageSchema = z.object({
+  type: z.literal('denyControl'),
+  participantId: z.string().min(1)
+});
+
+export const ReleaseControlMessageSchema = z.object({
+  type: z.literal('releaseControl')
+});
+
 export const ClientMessageSchema = z.discriminatedUnion('type', [
   InputMessageSchema,
   ResizeMessageSchema,
@@ -57,7 +75,11 @@ export const ClientMessageSchema = z.discriminatedUnion('type', [
   UnwatchFileMessageSchema,
   WatchDirMessageSchema,
   UnwatchDirMessageSchema,
-  ReplayRequestMessageSchema
+  ReplayRequestMessageSchema,
+  RequestControlMessageSchema,
+  GrantControlMessageSchema,
+  DenyControlMessageSchema,
+  ReleaseControlMessageSchema
 ]);
 
 export type ValidatedClientMessage = z.infer<typeof ClientMessageSchema>;
@@ -69,6 +91,11 @@ export const OutputMessageSchema = z.object({
   data: z.string() // Base64 encoded
 });
 
+export const SnapshotMessageSchema = z.object({
+  type: z.literal('snapshot'),
+  data: z.string() // Base64 encoded
+});
+
 export const TitleMessageSchema = z.object({
   type: z.literal('title'),
   title: z.string()
@@ -103,6 +130,31 @@ export const FileChangeMessageSchema = z.object({
   timestamp: z.number()
 });
 
+export const ParticipantSchema = z.object({
+  id: z.string(),
+  user: z.string().optional(),
+  device: z.string(),
+  role: z.enum(['driver', 'viewer']),
+  readOnly: z.boolean().optional(),
+  connectedAt: z.string()
+});
+
+export const PresenceMessageSchema = z.object({
+  type: z.literal('presence'),
+  selfId: z.string(),
+  driverId: z.string().nullable(),
+  participants: z.array(ParticipantSchema)
+});
+
+export const ControlRequestMessageSchema = z.object({
+  type: z.literal('controlRequest'),
+  participant: ParticipantSchema
+});
+
+export const ControlDeniedMessageSchema = z.object({
+  type: z.literal('controlDenied')
+});
+
 // Block-related schemas
 export const BlockStatusSchema = z.enum(['running', 'success', 'error']);
 
@@ -246,6 +298,7 @@ export const ClaudeSessionEndWSSchema = z.object({
 export const ServerMessageSchema = z.discriminatedUnion('type', [
   // Core messages
   OutputMessageSchema,
+  SnapshotMessageSchema,
   TitleMessageSchema,
   ExitMessageSchema,
   PongMessageSchema,
@@ -253,6 +306,9 @@ export const ServerMessageSchema = z.discriminatedUnion('type', [
   BellMessageSchema,
   ClipboardMessageSchema,
   FileChangeMessageSchema,
+  PresenceMessageSchema,
+  ControlRequestMessageSchema,
+  ControlDeniedMessageSchema,
   // Block messages
   BlockStartMessageSchema,
   BlockEndMessageSchema,
@@ -0,0 +1,154 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { AccessControl, hasRole, loadUsersFile, OWNER } from './access-control.js';
+
+const users = [
+  { name: 'alice', role: 'admin' as const },
+  { name: 'bob', role: 'operator' as const },
+  { name: 'carol', role: 'viewer' as const }
+];
+
+describe('AccessControl', () => {
+  describe('resolveUser', () => {
+    test('looks up the role in the user file', () => {
+      const ac = new AccessControl({ users, defaultRole: 'viewer' });
+
+      expect(ac.resolveUser('bob')).toEqual({ name: 'bob', role: 'operator' });
+    });
+
+    test('gives unknown and anonymous users the default role', () => {
+      const ac = new AccessControl({ users, defaultRole: 'viewer' });
+
+      expect(ac.resolveUser('mallory')).toEqual({ name: 'mallory', role: 'viewer' });
+      expect(ac.resolveUser(undefined)).toEqual({ role: 'viewer' });
+    });
+
+    test('defaults to admin for backward compatibility', () => {
+      expect(new AccessControl().resolveUser('anyone').role).toBe('admin');
+    });
+  });
+
+  describe('without session ACLs', () => {
+    const ac = new AccessControl({ users });
+
+    test('operators have every permission', () => {
+      const bob = ac.resolveUser('bob');
+      expect([...ac.permissions(bob, 'dev')].sort()).toEqual([
+        'commands',
+        'files',
+        'input',
+        'view'
+      ]);
+    });
+
+    test('viewers can only view', () => {
+      const carol = ac.resolveUser('carol');
+      expect(ac.can(carol, 'dev', 'view')).toBe(true);
+      expect(ac.can(carol, 'dev', 'input')).toBe(false);
+      expect(ac.can(carol, 'dev', 'files')).toBe(false);
+    });
+  });
+
+  describe('with session ACLs', () => {
+    const ac = new AccessControl({
+      users,
+      sessionAcls: [
+        {
+          session: 'prod-*',
+          allow: [
+            { user: 'bob', permissions: ['view', 'input'] },
+            { role: 'viewer', permissions: ['view', 'commands'] }
+          ]
+        }
+      ]
+    });
+
+    test('grants only the listed permissions', () => {
+      const bob = ac.resolveUser('bob');
+      expect(ac.can(bob, 'prod-box', 'input')).toBe(true);
+      expect(ac.can(bob, 'prod-box', 'files')).toBe(false);
+      expect(ac.can(bob, 'prod-box', 'commands')).toBe(false);
+    });
+
+    test('caps grants at the role ceiling', () => {
+      const carol = ac.resolveUser('carol');
+      expect(ac.can(carol, 'prod-box', 'view')).toBe(true);
+      expect(ac.can(carol, 'prod-box', 'commands')).toBe(false);
+    });
+
+    test('hides the session from users without an entry', () => {
+      expect(ac.can({ name: 'dave', role: 'operator' }, 'prod-box', 'view')).toBe(false);
+    });
+
+    test('admins bypass ACLs', () => {
+      expect(ac.can(ac.resolveUser('alice'), 'prod-box', 'commands')).toBe(true);
+      expect(ac.can(OWNER, 'prod-box', 'files')).toBe(true);
+    });
+
+    test('only applies to matching sessions', () => {
+      expect(ac.can({ name: 'dave', role: 'operator' }, 'production', 'input')).toBe(true);
+    });
+
+    test('other permissions imply view', () => {
+      const acl = new AccessControl({
+        sessionAcls: [{ session: 'db', allow: [{ user: 'bob', permissions: ['files'] }] }]
+      });
+      expect(acl.can({ name: 'bob', role: 'operator' }, 'db', 'view')).toBe(true);
+    });
+
+    test('the creator keeps full access', () => {
+      const dave = { name: 'dave', role: 'operator' as const };
+      ac.setOwner('prod-new', dave);
+      expect(ac.can(dave, 'prod-new', 'commands')).toBe(true);
+
+      ac.forgetSession('prod-new');
+      expect(ac.can(dave, 'prod-new', 'view')).toBe(false);
+    });
+  });
+});
+
+describe('hasRole', () => {
+  test('orders admin > operator > viewer', () => {
+    expect(hasRole({ role: 'admin' }, 'operator')).toBe(true);
+    expect(hasRole({ role: 'operator' }, 'operator')).toBe(true);
+    expect(hasRole({ role: 'viewer' }, 'operator')).toBe(false);
+  });
+});
+
+describe('loadUsersFile', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'bunterm-users-test-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('reads users and roles', () => {
+    const path = join(dir, 'users.yaml');
+    writeFileSync(
+      path,
+      'users:\n  - name: alice\n    role: admin\n  - name: carol\n    role: viewer\n'
+    );
+
+    expect(loadUsersFile(path)).toEqual([
+      { name: 'alice', role: 'admin' },
+      { name: 'carol', role: 'viewer' }
+    ]);
+  });
+
+  test('returns no users when the file is missing', () => {
+    expect(loadUsersFile(join(dir, 'missing.yaml'))).toEqual([]);
+  });
+
+  test('rejects unknown roles', () => {
+    const path = join(dir, 'users.yaml');
+    writeFileSync(path, 'users:\n  - name: alice\n    role: root\n');
+
+    expect(() => loadUsersFile(path)).toThrow('users.0.role');
+  });
+});
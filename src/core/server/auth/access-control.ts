@@ -0,0 +1,221 @@
+/**
+ * Access Control
+ *
+ * Named users with roles (admin / operator / viewer) and per-session ACLs.
+ *
+ * Users come from a trusted proxy header or from cookie sessions created
+ * with a user-bound login code; their role is looked up in the local user
+ * file (users.yaml), falling back to `security.auth_default_role`.
+ * Owner access (Unix socket, localhost bypass, auth disabled) is admin.
+ *
+ * Session permissions:
+ * - admin: everything in every session
+ * - a session without a matching `security.session_acls` entry is open to
+ *   every role up to the role's ceiling (viewer: view only)
+ * - with ACL entries, only the granted permissions (plus the session's
+ *   creator) apply, still capped by the role's ceiling
+ */
+
+import { existsSync, readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+import { getConfigDir } from '@/core/config/state.js';
+import {
+  type Config,
+  type SessionAcl,
+  type SessionPermission,
+  type UserRole,
+  UserRoleSchema
+} from '@/core/config/types.js';
+
+// === Types ===
+
+export interface AuthUser {
+  /** Undefined for the daemon owner and anonymous cookie sessions */
+  name?: string;
+  role: UserRole;
+}
+
+export interface LocalUser {
+  name: string;
+  role: UserRole;
+}
+
+export interface AccessControlOptions {
+  users?: LocalUser[];
+  /** Role of identities that are not in the user file */
+  defaultRole?: UserRole;
+  sessionAcls?: SessionAcl[];
+}
+
+/** Owner access: Unix socket, localhost bypass, auth disabled */
+export const OWNER: AuthUser = Object.freeze({ role: 'admin' as const });
+
+const ALL_PERMISSIONS: readonly SessionPermission[] = ['view', 'input', 'files', 'commands'];
+
+/** Upper bound of what each role can be granted */
+const ROLE_CEILING: Record<UserRole, readonly SessionPermission[]> = {
+  admin: ALL_PERMISSIONS,
+  operator: ALL_PERMISSIONS,
+  viewer: ['view']
+};
+
+const ROLE_RANK: Record<UserRole, number> = { viewer: 0, operator: 1, admin: 2 };
+
+// === User File ===
+
+const UsersFileSchema = z.object({
+  users: z
+    .array(
+      z.object({
+        name: z.string().min(1),
+        role: UserRoleSchema
+      })
+    )
+    .default([])
+});
+
+/**
+ * Load the local user file. A missing file means no named users.
+ *
+ * @throws Error when the file exists but is not valid
+ */
+export function loadUsersFile(path: string): LocalUser[] {
+  if (!existsSync(path)) {
+    return [];
+  }
+  // biome-ignore lint: sync read required at startup
+  const content = readFileSync(path, 'utf-8');
+  const result = UsersFileSchema.safeParse(parseYaml(content) ?? {});
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new Error(
+      `Invalid user file ${path}: ${issue?.path.join('.') || 'root'}: ${issue?.message}`
+    );
+  }
+  return result.data.users;
+}
+
+// === Helpers ===
+
+/**
+ * Whether `role` is at least `required`
+ */
+export function hasRole(user: AuthUser, required: UserRole): boolean {
+  return ROLE_RANK[user.role] >= ROLE_RANK[required];
+}
+
+function matchesSessionPattern(pattern: string, sessionName: string): boolean {
+  if (!pattern.includes('*')) {
+    return pattern === sessionName;
+  }
+  const source = pattern
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${source}$`).test(sessionName);
+}
+
+// === AccessControl ===
+
+export class AccessControl {
+  private readonly users: Map<string, UserRole>;
+  private readonly defaultRole: UserRole;
+  private readonly sessionAcls: SessionAcl[];
+  /** Session name → name of the user who created it */
+  private readonly owners = new Map<string, string>();
+
+  constructor(options: AccessControlOptions = {}) {
+    this.users = new Map((options.users ?? []).map((user) => [user.name, user.role]));
+    this.defaultRole = options.defaultRole ?? 'admin';
+    this.sessionAcls = options.sessionAcls ?? [];
+  }
+
+  /**
+   * Resolve a user name (proxy header or cookie session) to a user
+   */
+  resolveUser(name: string | undefined): AuthUser {
+    if (name === undefined) {
+      return { role: this.defaultRole };
+    }
+    return { name, role: this.users.get(name) ?? this.defaultRole };
+  }
+
+  /**
+   * Whether a user name is listed in the user file
+   */
+  isKnownUser(name: string): boolean {
+    return this.users.has(name);
+  }
+
+  /**
+   * Permissions of a user in a session
+   */
+  permissions(user: AuthUser, sessionName: string): Set<SessionPermission> {
+    if (user.role === 'admin') {
+      return new Set(ALL_PERMISSIONS);
+    }
+
+    const ceiling = ROLE_CEILING[user.role];
+    const entries = this.sessionAcls
+      .filter((acl) => matchesSessionPattern(acl.session, sessionName))
+      .flatMap((acl) => acl.allow);
+    const isOwner = user.name !== undefined && this.owners.get(sessionName) === user.name;
+    if (entries.length === 0 || isOwner) {
+      return new Set(ceiling);
+    }
+
+    const granted = new Set<SessionPermission>();
+    for (const entry of entries) {
+      const matches =
+        (entry.user === undefined || entry.user === user.name) &&
+        (entry.role === undefined || entry.role === user.role);
+      if (!matches) {
+        continue;
+      }
+      for (const permission of entry.permissions) {
+        if (ceiling.includes(permission)) {
+          granted.add(permission);
+        }
+      }
+    }
+    // Typing, file transfer and commands are pointless without seeing the session
+    if (granted.size > 0) {
+      granted.add('view');
+    }
+    return granted;
+  }
+
+  can(user: AuthUser, sessionName: string, permission: SessionPermission): boolean {
+    return this.permissions(user, sessionName).has(permission);
+  }
+
+  /**
+   * Record who created a session (the creator keeps access under an ACL)
+   */
+  setOwner(sessionName: string, user: AuthUser): void {
+    if (user.name !== undefined) {
+      this.owners.set(sessionName, user.name);
+    }
+  }
+
+  forgetSession(sessionName: string): void {
+    this.owners.delete(sessionName);
+  }
+}
+
+/**
+ * Access control from the security config, or null when auth is disabled
+ * (everyone is then the owner)
+ */
+export function createAccessControl(config: Config): AccessControl | null {
+  if (!config.security?.auth_enabled) {
+    return null;
+  }
+  return new AccessControl({
+    users: loadUsersFile(config.security.auth_users_file ?? join(getConfigDir(), 'users.yaml')),
+    defaultRole: config.security.auth_default_role,
+    sessionAcls: config.security.session_acls
+  });
+}
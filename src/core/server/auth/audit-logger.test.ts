@@ -2,7 +2,7 @@ import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
 import { existsSync, mkdirSync, rmSync } from 'node:fs';
 import { tmpdir } from 'node:os';
 import { join } from 'node:path';
-import { type AuditEvent, AuditLogger } from './audit-logger.js';
+import { type AuditEvent, AuditLogger, summarizeCommand } from './audit-logger.js';
 
 describe('AuditLogger', () => {
   let tempDir: string;
@@ -148,4 +148,110 @@ describe('AuditLogger', () => {
     const parsed = JSON.parse(content);
     expect(parsed.type).toBe('ws_disconnect');
   });
+
+  test('records the network zone', async () => {
+    const logger = new AuditLogger(logPath);
+
+    await logger.log({ type: 'ws_connect', remoteAddr: '203.0.113.7', networkZone: 'internet' });
+    await logger.dispose();
+
+    const parsed = JSON.parse((await Bun.file(logPath).text()).trim());
+    expect(parsed.networkZone).toBe('internet');
+  });
+
+  test('rotates the file when it exceeds the size limit', async () => {
+    const logger = new AuditLogger(logPath, { maxSizeBytes: 300, maxFiles: 2 });
+
+    for (let i = 0; i < 12; i++) {
+      await logger.log({ type: 'ws_connect', remoteAddr: '10.0.0.1', details: `event ${i}` });
+    }
+    await logger.dispose();
+
+    expect(existsSync(`${logPath}.1`)).toBe(true);
+    expect(existsSync(`${logPath}.2`)).toBe(true);
+    expect(existsSync(`${logPath}.3`)).toBe(false);
+    expect(Bun.file(logPath).size).toBeLessThanOrEqual(300);
+
+    // The oldest events were dropped with the third file
+    const details = (await logger.query()).map((record) => record.details);
+    expect(details.at(-1)).toBe('event 11');
+    expect(details).not.toContain('event 0');
+  });
+
+  describe('query', () => {
+    test('searches rotated files oldest first', async () => {
+      const logger = new AuditLogger(logPath, { maxSizeBytes: 200, maxFiles: 5 });
+
+      for (let i = 0; i < 6; i++) {
+        await logger.log({ type: 'auth_success', remoteAddr: '10.0.0.1', details: `${i}` });
+      }
+
+      expect(existsSync(`${logPath}.1`)).toBe(true);
+      const records = await logger.query();
+      expect(records.map((record) => record.details)).toEqual(['0', '1', '2', '3', '4', '5']);
+    });
+
+    test('filters by type, session and user', async () => {
+      const logger = new AuditLogger(logPath);
+
+      await logger.log({ type: 'ws_connect', remoteAddr: 'a', sessionName: 'prod', user: 'alice' });
+      await logger.log({ type: 'ws_connect', remoteAddr: 'b', sessionName: 'dev', user: 'alice' });
+      await logger.log({ type: 'auth_failure', remoteAddr: 'c', sessionName: 'prod' });
+      await logger.log({ type: 'ws_connect', remoteAddr: 'd', sessionName: 'prod', user: 'bob' });
+
+      const records = await logger.query({
+        types: ['ws_connect'],
+        sessionName: 'prod',
+        user: 'alice'
+      });
+      expect(records.map((record) => record.remoteAddr)).toEqual(['a']);
+    });
+
+    test('filters by time range', async () => {
+      const logger = new AuditLogger(logPath);
+      await logger.log({ type: 'ws_connect', remoteAddr: '10.0.0.1' });
+
+      expect(await logger.query({ since: Date.now() - 60_000 })).toHaveLength(1);
+      expect(await logger.query({ since: Date.now() + 60_000 })).toHaveLength(0);
+      expect(await logger.query({ until: Date.now() - 60_000 })).toHaveLength(0);
+    });
+
+    test('returns the newest events up to the limit', async () => {
+      const logger = new AuditLogger(logPath);
+      for (let i = 0; i < 5; i++) {
+        await logger.log({ type: 'ws_connect', remoteAddr: `10.0.0.${i}` });
+      }
+
+      const records = await logger.query({ limit: 2 });
+      expect(records.map((record) => record.remoteAddr)).toEqual(['10.0.0.3', '10.0.0.4']);
+    });
+
+    test('skips malformed lines', async () => {
+      await Bun.write(
+        logPath,
+        '{"timestamp":"2026-01-01T00:00:00.000Z","type":"ws_connect","remoteAddr":"x"}\n{"trunc'
+      );
+      const logger = new AuditLogger(logPath);
+
+      expect(await logger.query()).toHaveLength(1);
+    });
+
+    test('returns nothing when no log exists', async () => {
+      const logger = new AuditLogger(join(tempDir, 'missing.log'));
+
+      expect(await logger.query()).toEqual([]);
+    });
+  });
+});
+
+describe('summarizeCommand', () => {
+  test('collapses whitespace onto one line', () => {
+    expect(summarizeCommand('ls  -la\n  /tmp')).toBe('ls -la /tmp');
+  });
+
+  test('truncates long commands', () => {
+    const summary = summarizeCommand('x'.repeat(500));
+    expect(summary).toHaveLength(201);
+    expect(summary.endsWith('…')).toBe(true);
+  });
 });
@@ -3,11 +3,14 @@
  *
  * Writes audit events as JSON Lines to a log file for
  * tracking who connected, when, and from where.
+ * The file is rotated by size (audit.log → audit.log.1 → … → audit.log.N)
+ * and query() searches the current file and its rotations.
  */
 
-import { chmodSync, closeSync, existsSync, mkdirSync, openSync } from 'node:fs';
-import { appendFile } from 'node:fs/promises';
+import { chmodSync, closeSync, existsSync, mkdirSync, openSync, statSync } from 'node:fs';
+import { appendFile, readFile, rename, rm } from 'node:fs/promises';
 import { dirname } from 'node:path';
+import type { NetworkZone } from './network-classifier.js';
 
 export type AuditEventType =
   | 'auth_success'
@@ -16,57 +19,174 @@ export type AuditEventType =
   | 'session_end'
   | 'otp_attempt'
   | 'ws_connect'
-  | 'ws_disconnect';
+  | 'ws_disconnect'
+  | 'share_view'
+  | 'command_execute'
+  | 'access_denied'
+  | 'passkey_register'
+  | 'passkey_revoke';
+
+export const AUDIT_EVENT_TYPES: readonly AuditEventType[] = [
+  'auth_success',
+  'auth_failure',
+  'session_create',
+  'session_end',
+  'otp_attempt',
+  'ws_connect',
+  'ws_disconnect',
+  'share_view',
+  'command_execute',
+  'access_denied',
+  'passkey_register',
+  'passkey_revoke'
+];
 
 export interface AuditEvent {
   type: AuditEventType;
   remoteAddr: string;
   sessionName?: string;
   user?: string;
+  networkZone?: NetworkZone;
   details?: string;
 }
 
-interface AuditRecord {
+export interface AuditRecord {
   timestamp: string;
   type: AuditEventType;
   remoteAddr: string;
   sessionName?: string;
   user?: string;
+  networkZone?: NetworkZone;
   details?: string;
 }
 
+export interface AuditQuery {
+  /** Only events at or after this time (ms since epoch) */
+  since?: number;
+  /** Only events before this time (ms since epoch) */
+  until?: number;
+  types?: AuditEventType[];
+  sessionName?: string;
+  user?: string;
+  /** Return at most this many of the newest matching events */
+  limit?: number;
+}
+
+export interface AuditLoggerOptions {
+  /** Rotate when the current file would exceed this size (default: 10MB) */
+  maxSizeBytes?: number;
+  /** Number of rotated files to keep (default: 5) */
+  maxFiles?: number;
+}
+
+/** Longest command text kept in an audit record */
+const MAX_COMMAND_DETAILS = 200;
+
+/**
+ * Shorten a command for the details field (one line, bounded length)
+ */
+export function summarizeCommand(command: string): string {
+  const line = command.replace(/\s+/g, ' ').trim();
+  return line.length > MAX_COMMAND_DETAILS ? `${line.slice(0, MAX_COMMAND_DETAILS)}…` : line;
+}
+
 export class AuditLogger {
   private readonly logPath: string;
+  private readonly maxSizeBytes: number;
+  private readonly maxFiles: number;
   private initialized = false;
+  private size = 0;
+  /** Writes are chained so rotation never races an append */
+  private pending: Promise<void> = Promise.resolve();
 
-  constructor(logPath: string) {
+  constructor(logPath: string, options: AuditLoggerOptions = {}) {
     this.logPath = logPath;
+    this.maxSizeBytes = options.maxSizeBytes ?? 10 * 1024 * 1024;
+    this.maxFiles = Math.max(1, options.maxFiles ?? 5);
   }
 
   /**
    * Log an audit event. Appends a JSON line to the log file.
    */
-  async log(event: AuditEvent): Promise<void> {
-    this.ensureInitialized();
-
+  log(event: AuditEvent): Promise<void> {
     const record: AuditRecord = {
       timestamp: new Date().toISOString(),
       type: event.type,
       remoteAddr: event.remoteAddr,
       ...(event.sessionName !== undefined && { sessionName: event.sessionName }),
       ...(event.user !== undefined && { user: event.user }),
+      ...(event.networkZone !== undefined && { networkZone: event.networkZone }),
       ...(event.details !== undefined && { details: event.details })
     };
 
     const line = `${JSON.stringify(record)}\n`;
-    await appendFile(this.logPath, line);
+    const write = this.pending.then(() => this.append(line));
+    this.pending = write.catch(() => {});
+    return write;
+  }
+
+  /**
+   * Search the log and its rotations, oldest first
+   */
+  async query(filter: AuditQuery = {}): Promise<AuditRecord[]> {
+    await this.pending;
+
+    const matches: AuditRecord[] = [];
+    for (const path of this.filesOldestFirst()) {
+      let content: string;
+      try {
+        content = await readFile(path, 'utf-8');
+      } catch {
+        continue;
+      }
+      for (const line of content.split('\n')) {
+        const record = parseRecord(line);
+        if (record && matchesQuery(record, filter)) {
+          matches.push(record);
+        }
+      }
+    }
+
+    return filter.limit !== undefined ? matches.slice(-filter.limit) : matches;
   }
 
   /**
    * Flush and close the audit log.
    */
   async dispose(): Promise<void> {
-    // appendFile flushes on each call, nothing to flush
+    await this.pending;
+  }
+
+  private async append(line: string): Promise<void> {
+    this.ensureInitialized();
+
+    const bytes = Buffer.byteLength(line);
+    if (this.size > 0 && this.size + bytes > this.maxSizeBytes) {
+      await this.rotate();
+    }
+    await appendFile(this.logPath, line, { mode: 0o600 });
+    this.size += bytes;
+  }
+
+  /**
+   * Shift audit.log.N-1 → audit.log.N, …, audit.log → audit.log.1
+   */
+  private async rotate(): Promise<void> {
+    await rm(`${this.logPath}.${this.maxFiles}`, { force: true });
+    for (let i = this.maxFiles - 1; i >= 1; i--) {
+      await rename(`${this.logPath}.${i}`, `${this.logPath}.${i + 1}`).catch(() => {});
+    }
+    await rename(this.logPath, `${this.logPath}.1`);
+    this.size = 0;
+  }
+
+  private filesOldestFirst(): string[] {
+    const files: string[] = [];
+    for (let i = this.maxFiles; i >= 1; i--) {
+      files.push(`${this.logPath}.${i}`);
+    }
+    files.push(this.logPath);
+    return files;
   }
 
   /**
@@ -88,7 +208,31 @@ export class AuditLogger {
       closeSync(fd);
     }
     chmodSync(this.logPath, 0o600);
+    this.size = statSync(this.logPath).size;
 
     this.initialized = true;
   }
 }
+
+function parseRecord(line: string): AuditRecord | null {
+  if (!line) {
+    return null;
+  }
+  try {
+    const record = JSON.parse(line) as AuditRecord;
+    return typeof record.timestamp === 'string' && typeof record.type === 'string' ? record : null;
+  } catch {
+    // Partial line from a crash mid-write
+    return null;
+  }
+}
+
+function matchesQuery(record: AuditRecord, filter: AuditQuery): boolean {
+  const time = Date.parse(record.timestamp);
+  if (filter.since !== undefined && time < filter.since) return false;
+  if (filter.until !== undefined && time >= filter.until) return false;
+  if (filter.types?.length && !filter.types.includes(record.type)) return false;
+  if (filter.sessionName !== undefined && record.sessionName !== filter.sessionName) return false;
+  if (filter.user !== undefined && record.user !== filter.user) return false;
+  return true;
+}
@@ -1,10 +1,13 @@
 import { describe, expect, it } from 'bun:test';
+import { DEFAULT_SECURITY_CONFIG } from '@/core/config/types.js';
 import { InMemoryNonceStore, TokenGenerator } from '@/core/server/ws/session-token.js';
 import {
   type AuthMiddlewareOptions,
   authenticateRequest,
+  createAuthMiddlewareOptions,
   handleTokenExchange,
-  isLocalhost
+  isLocalhost,
+  markLocalSocketRequest
 } from './auth-middleware.js';
 import { InMemoryCookieSessionStore } from './cookie-session.js';
 
@@ -291,6 +294,121 @@ describe('authenticateRequest with proxy auth', () => {
   });
 });
 
+// === Adaptive Shield internet zone ===
+
+describe('authenticateRequest in the internet zone', () => {
+  const internetAddr = '203.0.113.50';
+
+  it('rejects a token-created session with otp_required', () => {
+    const store = new InMemoryCookieSessionStore();
+    const session = store.create(3600, internetAddr, 'token');
+    const options = createOptions({ adaptiveShield: true, cookieSessionStore: store });
+    const req = createRequest('http://example.com/bunterm', {
+      Cookie: `bunterm_session=${session.id}`
+    });
+    const result = authenticateRequest(req, options, internetAddr);
+    expect(result.authenticated).toBe(false);
+    expect(result.reason).toBe('otp_required');
+  });
+
+  it('accepts an OTP-created session', () => {
+    const store = new InMemoryCookieSessionStore();
+    const session = store.create(3600, internetAddr, 'otp');
+    const options = createOptions({ adaptiveShield: true, cookieSessionStore: store });
+    const req = createRequest('http://example.com/bunterm', {
+      Cookie: `bunterm_session=${session.id}`
+    });
+    const result = authenticateRequest(req, options, internetAddr);
+    expect(result.authenticated).toBe(true);
+    expect(result.networkZone).toBe('internet');
+  });
+
+  it('accepts a passkey-created session', () => {
+    const store = new InMemoryCookieSessionStore();
+    const session = store.create(3600, internetAddr, 'passkey', 'alice');
+    const options = createOptions({ adaptiveShield: true, cookieSessionStore: store });
+    const req = createRequest('http://example.com/bunterm', {
+      Cookie: `bunterm_session=${session.id}`
+    });
+    const result = authenticateRequest(req, options, internetAddr);
+    expect(result.authenticated).toBe(true);
+    expect(result.user).toBe('alice');
+  });
+
+  it('no cookie → otp_required', () => {
+    const options = createOptions({ adaptiveShield: true });
+    const result = authenticateRequest(
+      createRequest('http://example.com/bunterm'),
+      options,
+      internetAddr
+    );
+    expect(result.reason).toBe('otp_required');
+  });
+});
+
+// === Unix socket trust ===
+
+describe('authenticateRequest on the local socket', () => {
+  it('marked request → authenticated without cookie or bypass', () => {
+    const options = createOptions({ localhostBypass: false });
+    const req = createRequest('http://localhost/api/auth/otp/generate');
+    markLocalSocketRequest(req);
+    expect(authenticateRequest(req, options).authenticated).toBe(true);
+  });
+
+  it('unmarked request with the same URL → requires cookie', () => {
+    const options = createOptions({ localhostBypass: false });
+    const req = createRequest('http://localhost/api/auth/otp/generate');
+    expect(authenticateRequest(req, options).authenticated).toBe(false);
+  });
+});
+
+// === createAuthMiddlewareOptions ===
+
+describe('createAuthMiddlewareOptions', () => {
+  const tokenGenerator = createOptions().tokenGenerator;
+  const store = new InMemoryCookieSessionStore();
+
+  it('maps security config keys', () => {
+    const options = createAuthMiddlewareOptions(
+      {
+        base_path: '/bunterm',
+        hostname: 'term.example.com',
+        security: {
+          ...DEFAULT_SECURITY_CONFIG,
+          auth_enabled: true,
+          auth_adaptive_shield: true,
+          auth_trusted_proxies: ['10.0.0.1']
+        }
+      } as Parameters<typeof createAuthMiddlewareOptions>[0],
+      store,
+      tokenGenerator
+    );
+    expect(options.enabled).toBe(true);
+    expect(options.basePath).toBe('/bunterm');
+    expect(options.secureCookie).toBe(true);
+    expect(options.adaptiveShield).toBe(true);
+    expect(options.internetSessionTtlSeconds).toBe(3600);
+    expect(options.proxyAuth).toEqual({
+      trustedProxies: ['10.0.0.1'],
+      proxyHeader: 'X-Forwarded-User'
+    });
+  });
+
+  it('uses / as cookie path for an empty base path and skips proxy auth', () => {
+    const options = createAuthMiddlewareOptions(
+      { base_path: '', security: DEFAULT_SECURITY_CONFIG } as Parameters<
+        typeof createAuthMiddlewareOptions
+      >[0],
+      store,
+      tokenGenerator
+    );
+    expect(options.basePath).toBe('/');
+    expect(options.secureCookie).toBe(false);
+    expect(options.proxyAuth).toBeUndefined();
+  });
+});
+
 // === handleTokenExchange ===
 
 describe('handleTokenExchange', () => {
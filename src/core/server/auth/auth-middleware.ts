@@ -5,6 +5,7 @@
  * Supports localhost bypass and configurable cookie attributes.
  */
 
+import type { Config } from '@/core/config/types.js';
 import type { TokenGenerator } from '@/core/server/ws/session-token.js';
 import type { CookieSessionStore } from './cookie-session.js';
 import { buildSetCookieHeader, extractSessionCookie } from './cookie-session.js';
@@ -42,10 +43,60 @@ export interface AuthResult {
   stealth?: boolean;
   /** Username from trusted proxy header, if proxy auth was used */
   proxyUser?: string;
+  /** Named user of the cookie session, if its login code was issued for one */
+  user?: string;
+  /** Daemon owner: auth disabled, Unix socket or localhost bypass */
+  owner?: boolean;
   /** Detected network zone when adaptive shield is active */
   networkZone?: NetworkZone;
 }
 
+/**
+ * Build middleware options from the security config
+ */
+export function createAuthMiddlewareOptions(
+  config: Config,
+  cookieSessionStore: CookieSessionStore,
+  tokenGenerator: TokenGenerator
+): AuthMiddlewareOptions {
+  const security = config.security;
+  return {
+    enabled: security.auth_enabled,
+    localhostBypass: security.auth_localhost_bypass,
+    cookieSessionStore,
+    tokenGenerator,
+    basePath: config.base_path || '/',
+    cookieName: security.auth_cookie_name,
+    sessionTtlSeconds: security.auth_session_ttl_seconds,
+    secureCookie: Boolean(config.hostname),
+    stealthMode: security.auth_stealth_mode,
+    proxyAuth:
+      security.auth_trusted_proxies.length > 0
+        ? { trustedProxies: security.auth_trusted_proxies, proxyHeader: security.auth_proxy_header }
+        : undefined,
+    adaptiveShield: security.auth_adaptive_shield,
+    lanSessionTtlSeconds: security.auth_lan_session_ttl_seconds,
+    internetSessionTtlSeconds: security.auth_internet_session_ttl_seconds
+  };
+}
+
+// === Local Socket Trust ===
+
+const localSocketRequests = new WeakSet<Request>();
+
+/**
+ * Mark a request as received on the owner-only Unix socket (0600).
+ * Only the daemon's user can connect there, so such requests are trusted
+ * the same way as localhost bypass, independent of auth_localhost_bypass.
+ */
+export function markLocalSocketRequest(req: Request): void {
+  localSocketRequests.add(req);
+}
+
+export function isLocalSocketRequest(req: Request): boolean {
+  return localSocketRequests.has(req);
+}
+
 // === Localhost Detection ===
 
 const LOCALHOST_ADDRESSES = new Set(['127.0.0.1', '::1', 'localhost']);
@@ -70,8 +121,9 @@ export function isLocalhost(req: Request): boolean {
 /**
  * Authenticate a request using cookie session.
  * - auth disabled → always authenticated
- * - localhost bypass → local connections skip auth
+ * - Unix socket / localhost bypass → local connections skip auth
  * - Otherwise validates session cookie via CookieSessionStore
+ * - Internet zone (adaptive shield) only accepts sessions created from an OTP or passkey
  */
 export function authenticateRequest(
   req: Request,
@@ -79,11 +131,15 @@ export function authenticateRequest(
   remoteAddr?: string
 ): AuthResult {
   if (!options.enabled) {
-    return { authenticated: true };
+    return { authenticated: true, owner: true };
+  }
+
+  if (isLocalSocketRequest(req)) {
+    return { authenticated: true, owner: true };
   }
 
   if (options.localhostBypass && isLocalhost(req)) {
-    return { authenticated: true };
+    return { authenticated: true, owner: true };
   }
 
   // Check proxy auth (trusted reverse proxy with user header)
@@ -98,36 +154,29 @@ export function authenticateRequest(
   const networkZone: NetworkZone | undefined =
     options.adaptiveShield && remoteAddr ? classifyNetwork(remoteAddr) : undefined;
 
-  // Internet zone requires OTP — cookie alone is insufficient
-  if (networkZone === 'internet') {
-    return {
-      authenticated: false,
-      reason: 'otp_required',
-      stealth: options.stealthMode,
-      networkZone
-    };
-  }
+  const fail = (reason: string): AuthResult => ({
+    authenticated: false,
+    reason,
+    stealth: options.stealthMode,
+    networkZone
+  });
 
   const sessionId = extractSessionCookie(req, options.cookieName);
   if (!sessionId) {
-    return {
-      authenticated: false,
-      reason: 'no_session_cookie',
-      stealth: options.stealthMode,
-      networkZone
-    };
+    return fail(networkZone === 'internet' ? 'otp_required' : 'no_session_cookie');
+  }
+
+  const session = options.cookieSessionStore.get(sessionId);
+  if (!session) {
+    return fail('invalid_or_expired_session');
   }
 
-  if (!options.cookieSessionStore.validate(sessionId)) {
-    return {
-      authenticated: false,
-      reason: 'invalid_or_expired_session',
-      stealth: options.stealthMode,
-      networkZone
-    };
+  // Internet zone requires OTP or passkey — a cookie from a forwarded token link is insufficient
+  if (networkZone === 'internet' && session.authMethod === 'token') {
+    return fail('otp_required');
   }
 
-  return { authenticated: true, networkZone };
+  return { authenticated: true, networkZone, user: session.user };
 }
 
 // === Token Exchange ===
@@ -180,7 +229,13 @@ export async function handleTokenExchange(
   const ttl = resolveSessionTtl(options, remoteAddr);
 
   // Create a new cookie session
-  const session = options.cookieSessionStore.create(ttl, remoteAddr);
+  const session = options.cookieSessionStore.create(
+    ttl,
+    remoteAddr,
+    'token',
+    undefined,
+    req.headers.get('User-Agent') ?? undefined
+  );
 
   // Build Set-Cookie header
   const setCookie = buildSetCookieHeader(options.cookieName, session.id, {
@@ -0,0 +1,114 @@
+/**
+ * Tests for SqliteCookieSessionStore: persistence across restarts,
+ * hashed storage, last-seen tracking and expiry
+ */
+
+import { Database } from 'bun:sqlite';
+import { afterEach, beforeEach, describe, expect, setSystemTime, test } from 'bun:test';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { SqliteCookieSessionStore } from './cookie-session-db.js';
+
+describe('SqliteCookieSessionStore', () => {
+  let dir: string;
+  let dbPath: string;
+  const opened: SqliteCookieSessionStore[] = [];
+
+  function open(): SqliteCookieSessionStore {
+    const store = new SqliteCookieSessionStore(dbPath, { cleanupIntervalMs: 0 });
+    opened.push(store);
+    return store;
+  }
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'bunterm-cookie-session-db-test-'));
+    dbPath = join(dir, 'auth-sessions.db');
+  });
+
+  afterEach(() => {
+    setSystemTime();
+    for (const store of opened.splice(0)) {
+      store.close();
+    }
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('keeps sessions across a restart', () => {
+    const first = open();
+    const session = first.create(3600, '203.0.113.5', 'otp', 'alice', 'Mozilla/5.0 (iPhone)');
+    first.close();
+
+    const second = open();
+
+    expect(second.get(session.id)).toEqual(session);
+    expect(second.listSessions()).toEqual([
+      {
+        key: session.key,
+        createdAt: session.createdAt,
+        expiresAt: session.expiresAt,
+        lastSeenAt: session.lastSeenAt,
+        remoteAddr: '203.0.113.5',
+        userAgent: 'Mozilla/5.0 (iPhone)',
+        networkZone: 'internet',
+        authMethod: 'otp',
+        user: 'alice'
+      }
+    ]);
+  });
+
+  test('stores only the hashed session ID', () => {
+    const store = open();
+    const session = store.create(3600);
+    store.close();
+
+    const db = new Database(dbPath, { readonly: true });
+    const rows = db.query<{ key: string }, []>('SELECT key FROM cookie_sessions').all();
+    db.close();
+
+    expect(rows).toEqual([{ key: session.key }]);
+    expect(session.key).not.toBe(session.id);
+  });
+
+  test('revokes by session ID and by key', () => {
+    const store = open();
+    const a = store.create(3600);
+    const b = store.create(3600);
+
+    store.revoke(a.id);
+    expect(store.revokeByKey(b.key)).toBe(true);
+
+    expect(store.validate(a.id)).toBe(false);
+    expect(store.validate(b.id)).toBe(false);
+    expect(store.revokeByKey(b.key)).toBe(false);
+  });
+
+  test('updates last-seen at most once a minute', () => {
+    const start = new Date('2026-01-01T00:00:00Z');
+    setSystemTime(start);
+    const store = open();
+    const session = store.create(3600);
+
+    setSystemTime(new Date(start.getTime() + 30_000));
+    expect(store.get(session.id)?.lastSeenAt).toBe(start.getTime());
+
+    setSystemTime(new Date(start.getTime() + 90_000));
+    store.get(session.id);
+    expect(store.listSessions()[0]?.lastSeenAt).toBe(start.getTime() + 90_000);
+  });
+
+  test('removes expired sessions on open and cleanup', () => {
+    const first = open();
+    const expired = first.create(0);
+    first.close();
+
+    const second = open();
+    expect(second.get(expired.id)).toBeNull();
+    expect(second.listSessions()).toEqual([]);
+
+    second.create(0);
+    second.create(3600);
+    expect(second.cleanup()).toBe(1);
+    expect(second.listSessions()).toHaveLength(1);
+  });
+});
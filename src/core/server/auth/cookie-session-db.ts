@@ -0,0 +1,216 @@
+/**
+ * Persistent Cookie Session Store
+ *
+ * bun:sqlite implementation of CookieSessionStore under the state
+ * directory, so logged-in devices survive daemon restarts and upgrades.
+ * Only the SHA-256 key of each session ID is stored: a copy of the database
+ * cannot be replayed as cookies. Expired rows are removed on open and by a
+ * periodic cleanup.
+ */
+
+import { Database } from 'bun:sqlite';
+import { chmodSync, existsSync, mkdirSync } from 'node:fs';
+import { dirname } from 'node:path';
+import { createLogger } from '@/utils/logger.js';
+import {
+  type CookieAuthMethod,
+  type CookieSession,
+  type CookieSessionInfo,
+  type CookieSessionStore,
+  hashSessionId,
+  newCookieSession
+} from './cookie-session.js';
+import type { NetworkZone } from './network-classifier.js';
+
+const log = createLogger('cookie-session-db');
+
+/** Schema version stored in PRAGMA user_version */
+const SCHEMA_VERSION = 1;
+
+/** Default database file name (inside the state directory) */
+export const COOKIE_SESSION_DB_FILENAME = 'auth-sessions.db';
+
+/** last_seen_at is written at most this often per session (it is read on every request) */
+const LAST_SEEN_RESOLUTION_MS = 60_000;
+
+const AUTH_METHODS: readonly CookieAuthMethod[] = ['token', 'otp', 'passkey'];
+const NETWORK_ZONES: readonly NetworkZone[] = ['localhost', 'lan', 'internet'];
+
+export interface SqliteCookieSessionStoreOptions {
+  /** Expired-session cleanup interval in ms (default: 10 minutes, 0 disables) */
+  cleanupIntervalMs?: number;
+}
+
+interface SessionRow {
+  key: string;
+  created_at: number;
+  expires_at: number;
+  last_seen_at: number;
+  remote_addr: string;
+  user_agent: string | null;
+  network_zone: string | null;
+  auth_method: string;
+  user: string | null;
+}
+
+function toSessionInfo(row: SessionRow): CookieSessionInfo {
+  const zone = NETWORK_ZONES.find((z) => z === row.network_zone);
+  return {
+    key: row.key,
+    createdAt: row.created_at,
+    expiresAt: row.expires_at,
+    lastSeenAt: row.last_seen_at,
+    remoteAddr: row.remote_addr,
+    ...(row.user_agent !== null && { userAgent: row.user_agent }),
+    ...(zone && { networkZone: zone }),
+    // An unrecognized method gets the most restricted one
+    authMethod: AUTH_METHODS.find((m) => m === row.auth_method) ?? 'token',
+    ...(row.user !== null && { user: row.user })
+  };
+}
+
+export class SqliteCookieSessionStore implements CookieSessionStore {
+  private readonly db: Database;
+  private cleanupTimer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(dbPath: string, options: SqliteCookieSessionStoreOptions = {}) {
+    if (dbPath !== ':memory:') {
+      const dir = dirname(dbPath);
+      if (!existsSync(dir)) {
+        mkdirSync(dir, { recursive: true, mode: 0o700 });
+      }
+    }
+
+    this.db = new Database(dbPath, { create: true });
+    this.db.exec('PRAGMA journal_mode = WAL');
+    this.migrate();
+
+    if (dbPath !== ':memory:') {
+      try {
+        chmodSync(dbPath, 0o600);
+      } catch {
+        log.warn(`Failed to set permissions on ${dbPath}`);
+      }
+    }
+
+    const removed = this.cleanup();
+    if (removed > 0) {
+      log.info(`Removed ${removed} expired session(s)`);
+    }
+
+    const intervalMs = options.cleanupIntervalMs ?? 10 * 60_000;
+    if (intervalMs > 0) {
+      this.cleanupTimer = setInterval(() => this.cleanup(), intervalMs);
+      this.cleanupTimer.unref?.();
+    }
+  }
+
+  create(
+    ttlSeconds: number,
+    remoteAddr?: string,
+    authMethod?: CookieAuthMethod,
+    user?: string,
+    userAgent?: string
+  ): CookieSession {
+    const session = newCookieSession(ttlSeconds, remoteAddr, authMethod, user, userAgent);
+    this.db
+      .query(
+        `INSERT INTO cookie_sessions
+           (key, created_at, expires_at, last_seen_at, remote_addr, user_agent, network_zone, auth_method, user)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        session.key,
+        session.createdAt,
+        session.expiresAt,
+        session.lastSeenAt,
+        session.remoteAddr,
+        session.userAgent ?? null,
+        session.networkZone ?? null,
+        session.authMethod,
+        session.user ?? null
+      );
+    return session;
+  }
+
+  validate(sessionId: string): boolean {
+    return this.get(sessionId) !== null;
+  }
+
+  get(sessionId: string): CookieSession | null {
+    const key = hashSessionId(sessionId);
+    const row = this.db
+      .query<SessionRow, [string]>('SELECT * FROM cookie_sessions WHERE key = ?')
+      .get(key);
+    if (!row) {
+      return null;
+    }
+
+    const now = Date.now();
+    if (row.expires_at <= now) {
+      this.revokeByKey(key);
+      return null;
+    }
+    if (now - row.last_seen_at >= LAST_SEEN_RESOLUTION_MS) {
+      this.db.query('UPDATE cookie_sessions SET last_seen_at = ? WHERE key = ?').run(now, key);
+      row.last_seen_at = now;
+    }
+    return { id: sessionId, ...toSessionInfo(row) };
+  }
+
+  revoke(sessionId: string): void {
+    this.revokeByKey(hashSessionId(sessionId));
+  }
+
+  revokeByKey(key: string): boolean {
+    return this.db.query('DELETE FROM cookie_sessions WHERE key = ?').run(key).changes > 0;
+  }
+
+  cleanup(): number {
+    return this.db.query('DELETE FROM cookie_sessions WHERE expires_at <= ?').run(Date.now())
+      .changes;
+  }
+
+  listSessions(): CookieSessionInfo[] {
+    return this.db
+      .query<SessionRow, [number]>(
+        'SELECT * FROM cookie_sessions WHERE expires_at > ? ORDER BY created_at'
+      )
+      .all(Date.now())
+      .map(toSessionInfo);
+  }
+
+  close(): void {
+    if (this.cleanupTimer) {
+      clearInterval(this.cleanupTimer);
+      this.cleanupTimer = null;
+    }
+    this.db.close();
+  }
+
+  /**
+   * Create tables on first use
+   */
+  private migrate(): void {
+    const row = this.db.query<{ user_version: number }, []>('PRAGMA user_version').get();
+    if ((row?.user_version ?? 0) >= SCHEMA_VERSION) {
+      return;
+    }
+
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS cookie_sessions (
+        key TEXT PRIMARY KEY,
+        created_at INTEGER NOT NULL,
+        expires_at INTEGER NOT NULL,
+        last_seen_at INTEGER NOT NULL,
+        remote_addr TEXT NOT NULL,
+        user_agent TEXT,
+        network_zone TEXT,
+        auth_method TEXT NOT NULL,
+        user TEXT
+      );
+      CREATE INDEX IF NOT EXISTS idx_cookie_sessions_expires ON cookie_sessions (expires_at);
+      PRAGMA user_version = ${SCHEMA_VERSION};
+    `);
+  }
+}
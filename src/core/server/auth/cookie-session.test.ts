@@ -3,6 +3,7 @@ import {
   buildSetCookieHeader,
   clearCookieHeader,
   extractSessionCookie,
+  hashSessionId,
   InMemoryCookieSessionStore,
   parseCookies
 } from './cookie-session.js';
@@ -58,6 +59,47 @@ describe('InMemoryCookieSessionStore', () => {
 
       expect(session.remoteAddr).toBe('unknown');
     });
+
+    it('should key the session by the SHA-256 of its ID', () => {
+      const store = new InMemoryCookieSessionStore();
+      const session = store.create(3600);
+
+      expect(session.key).toBe(hashSessionId(session.id));
+      expect(session.key).not.toBe(session.id);
+    });
+
+    it('should record the client network zone and user agent', () => {
+      const store = new InMemoryCookieSessionStore();
+      const session = store.create(3600, '203.0.113.5', 'otp', undefined, 'Mozilla/5.0 (iPhone)');
+
+      expect(session.networkZone).toBe('internet');
+      expect(session.userAgent).toBe('Mozilla/5.0 (iPhone)');
+      expect(store.create(3600).networkZone).toBeUndefined();
+    });
+
+    it('should record the auth method, defaulting to token', () => {
+      const store = new InMemoryCookieSessionStore();
+
+      expect(store.create(3600).authMethod).toBe('token');
+      expect(store.create(3600, '203.0.113.5', 'otp').authMethod).toBe('otp');
+    });
+  });
+
+  describe('get', () => {
+    it('should return the stored session', () => {
+      const store = new InMemoryCookieSessionStore();
+      const session = store.create(3600, '10.0.0.2', 'otp');
+
+      expect(store.get(session.id)).toEqual(session);
+    });
+
+    it('should return null for unknown or expired sessions', () => {
+      const store = new InMemoryCookieSessionStore();
+      const expired = store.create(0);
+
+      expect(store.get('nonexistent')).toBeNull();
+      expect(store.get(expired.id)).toBeNull();
+    });
   });
 
   describe('validate', () => {
@@ -93,6 +135,15 @@ describe('InMemoryCookieSessionStore', () => {
       expect(store.validate(session.id)).toBe(false);
     });
 
+    it('should revoke by key', () => {
+      const store = new InMemoryCookieSessionStore();
+      const session = store.create(3600);
+
+      expect(store.revokeByKey(session.key)).toBe(true);
+      expect(store.validate(session.id)).toBe(false);
+      expect(store.revokeByKey(session.key)).toBe(false);
+    });
+
     it('should not throw when revoking a nonexistent session', () => {
       const store = new InMemoryCookieSessionStore();
 
@@ -136,7 +187,7 @@ describe('InMemoryCookieSessionStore', () => {
       const sessions = store.listSessions();
 
       expect(sessions).toHaveLength(2);
-      expect(sessions.map((s) => s.id).sort()).toEqual([s1.id, s2.id].sort());
+      expect(sessions.map((s) => s.key).sort()).toEqual([s1.key, s2.key].sort());
     });
 
     it('should exclude expired sessions', () => {
@@ -147,7 +198,14 @@ describe('InMemoryCookieSessionStore', () => {
       const sessions = store.listSessions();
 
       expect(sessions).toHaveLength(1);
-      expect(sessions[0].id).toBe(valid.id);
+      expect(sessions[0].key).toBe(valid.key);
+    });
+
+    it('should not expose session IDs', () => {
+      const store = new InMemoryCookieSessionStore();
+      store.create(3600);
+
+      expect(store.listSessions()[0]).not.toHaveProperty('id');
     });
 
     it('should return empty array when no sessions exist', () => {
@@ -1,36 +1,66 @@
 /**
  * Cookie Session Management
  *
- * In-memory cookie session store with creation, validation, revocation,
- * and cleanup. Includes helpers for parsing and building Cookie headers.
+ * Cookie session store interface and its in-memory implementation
+ * (see cookie-session-db.ts for the persistent one). Includes helpers for
+ * parsing and building Cookie headers.
  */
 
-import { randomBytes } from 'node:crypto';
+import { createHash, randomBytes } from 'node:crypto';
+import { classifyNetwork, type NetworkZone } from './network-classifier.js';
 
 // === Types ===
 
+/** How the client proved itself when the session was created */
+export type CookieAuthMethod = 'token' | 'otp' | 'passkey';
+
 export interface CookieSession {
   /** Session ID (hex string) */
   id: string;
+  /** SHA-256 of the session ID: all a persistent store keeps, safe to display */
+  key: string;
   /** Created timestamp (ms since epoch) */
   createdAt: number;
   /** Expiration timestamp (ms since epoch) */
   expiresAt: number;
+  /** Last time the session authenticated a request (ms since epoch) */
+  lastSeenAt: number;
   /** Remote IP address of the client that created this session */
   remoteAddr: string;
+  /** User-Agent of the client that created this session */
+  userAgent?: string;
+  /** Network zone of remoteAddr at creation (absent when the address is unknown) */
+  networkZone?: NetworkZone;
+  /** Credential exchanged for this session (internet clients need 'otp' or 'passkey') */
+  authMethod: CookieAuthMethod;
+  /** Named user the login code was issued for */
+  user?: string;
 }
 
+/** A listed session: the session ID itself is only known to its client */
+export type CookieSessionInfo = Omit<CookieSession, 'id'>;
+
 export interface CookieSessionStore {
   /** Create a new session with the given TTL in seconds */
-  create(ttlSeconds: number, remoteAddr?: string): CookieSession;
+  create(
+    ttlSeconds: number,
+    remoteAddr?: string,
+    authMethod?: CookieAuthMethod,
+    user?: string,
+    userAgent?: string
+  ): CookieSession;
   /** Validate a session ID (exists and not expired) */
   validate(sessionId: string): boolean;
+  /** Get a valid (non-expired) session by ID and record it as seen */
+  get(sessionId: string): CookieSession | null;
   /** Revoke (delete) a session */
   revoke(sessionId: string): void;
+  /** Revoke a session by its key, return whether it existed */
+  revokeByKey(key: string): boolean;
   /** Remove expired sessions, return count removed */
   cleanup(): number;
   /** List all valid (non-expired) sessions */
-  listSessions(): CookieSession[];
+  listSessions(): CookieSessionInfo[];
 }
 
 export interface SetCookieOptions {
@@ -41,39 +71,88 @@ export interface SetCookieOptions {
   maxAge?: number;
 }
 
+// === Session Helpers ===
+
+/** User-Agent headers are kept for display only, so long ones are cut */
+const MAX_USER_AGENT_LENGTH = 512;
+
+/** Hash a session ID into its key (stores never need the ID to list or revoke) */
+export function hashSessionId(sessionId: string): string {
+  return createHash('sha256').update(sessionId).digest('hex');
+}
+
+/** Build a new session with a random ID (shared by the store implementations) */
+export function newCookieSession(
+  ttlSeconds: number,
+  remoteAddr = 'unknown',
+  authMethod: CookieAuthMethod = 'token',
+  user?: string,
+  userAgent?: string
+): CookieSession {
+  const now = Date.now();
+  const id = randomBytes(32).toString('hex');
+  return {
+    id,
+    key: hashSessionId(id),
+    createdAt: now,
+    expiresAt: now + ttlSeconds * 1000,
+    lastSeenAt: now,
+    remoteAddr,
+    ...(userAgent && { userAgent: userAgent.slice(0, MAX_USER_AGENT_LENGTH) }),
+    ...(remoteAddr !== 'unknown' && { networkZone: classifyNetwork(remoteAddr) }),
+    authMethod,
+    ...(user !== undefined && { user })
+  };
+}
+
 // === InMemoryCookieSessionStore ===
 
 export class InMemoryCookieSessionStore implements CookieSessionStore {
   private readonly sessions = new Map<string, CookieSession>();
 
-  create(ttlSeconds: number, remoteAddr = 'unknown'): CookieSession {
-    const now = Date.now();
-    const session: CookieSession = {
-      id: randomBytes(32).toString('hex'),
-      createdAt: now,
-      expiresAt: now + ttlSeconds * 1000,
-      remoteAddr
-    };
+  create(
+    ttlSeconds: number,
+    remoteAddr?: string,
+    authMethod?: CookieAuthMethod,
+    user?: string,
+    userAgent?: string
+  ): CookieSession {
+    const session = newCookieSession(ttlSeconds, remoteAddr, authMethod, user, userAgent);
     this.sessions.set(session.id, session);
     return session;
   }
 
   validate(sessionId: string): boolean {
+    return this.get(sessionId) !== null;
+  }
+
+  get(sessionId: string): CookieSession | null {
     const session = this.sessions.get(sessionId);
     if (!session) {
-      return false;
+      return null;
     }
-    if (session.expiresAt <= Date.now()) {
+    const now = Date.now();
+    if (session.expiresAt <= now) {
       this.sessions.delete(sessionId);
-      return false;
+      return null;
     }
-    return true;
+    session.lastSeenAt = now;
+    return session;
   }
 
   revoke(sessionId: string): void {
     this.sessions.delete(sessionId);
   }
 
+  revokeByKey(key: string): boolean {
+    for (const session of this.sessions.values()) {
+      if (session.key === key) {
+        return this.sessions.delete(session.id);
+      }
+    }
+    return false;
+  }
+
   cleanup(): number {
     const now = Date.now();
     let removed = 0;
@@ -86,12 +165,12 @@ export class InMemoryCookieSessionStore implements CookieSessionStore {
     return removed;
   }
 
-  listSessions(): CookieSession[] {
+  listSessions(): CookieSessionInfo[] {
     const now = Date.now();
-    const valid: CookieSession[] = [];
-    for (const session of this.sessions.values()) {
-      if (session.expiresAt > now) {
-        valid.push(session);
+    const valid: CookieSessionInfo[] = [];
+    for (const { id: _id, ...info } of this.sessions.values()) {
+      if (info.expiresAt > now) {
+        valid.push(info);
       }
     }
     return valid;
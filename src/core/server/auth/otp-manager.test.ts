@@ -31,6 +31,13 @@ describe('OtpManager', () => {
       expect(result.expiresAt).toBe(1000000 + 60_000);
     });
 
+    it('binds the code to a named user', () => {
+      const { manager } = createManager();
+      const { code } = manager.generate(60, 'alice');
+
+      expect(manager.validate(code)).toEqual({ valid: true, user: 'alice' });
+    });
+
     it('invalidates previous OTP when generating new one', () => {
       const { manager } = createManager();
       const first = manager.generate(60);
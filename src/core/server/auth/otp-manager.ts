@@ -16,6 +16,8 @@ export interface OtpEntry {
   readonly expiresAt: number;
   /** Whether this OTP has been consumed */
   consumed: boolean;
+  /** Named user the resulting cookie session belongs to */
+  readonly user?: string;
 }
 
 export interface OtpGenerateResult {
@@ -30,6 +32,8 @@ export interface OtpGenerateResult {
 export interface OtpValidateResult {
   readonly valid: boolean;
   readonly reason?: 'invalid_code' | 'expired' | 'already_used' | 'locked_out' | 'no_active_otp';
+  /** User the code was issued for (valid codes only) */
+  readonly user?: string;
 }
 
 export interface OtpManagerOptions {
@@ -60,14 +64,16 @@ export class OtpManager {
   /**
    * Generate a new 6-digit OTP.
    * Any previously active OTP is invalidated.
+   *
+   * @param user - Named user that logs in with this code
    */
-  generate(ttlSeconds = 60): OtpGenerateResult {
+  generate(ttlSeconds = 60, user?: string): OtpGenerateResult {
     const now = this.now();
     const code = String(randomInt(0, 1_000_000)).padStart(6, '0');
     const expiresAt = now + ttlSeconds * 1000;
 
     // Invalidate previous OTP
-    this.currentOtp = { code, expiresAt, consumed: false };
+    this.currentOtp = { code, expiresAt, consumed: false, user };
 
     // Reset lockout on new generation
     this.failedAttempts = 0;
@@ -119,7 +125,7 @@ export class OtpManager {
     // Success — consume the OTP
     this.currentOtp.consumed = true;
     this.failedAttempts = 0;
-    return { valid: true };
+    return { valid: true, user: this.currentOtp.user };
   }
 
   /**
@@ -0,0 +1,157 @@
+/**
+ * Passkey Manager Tests
+ */
+
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { mkdtempSync, rmSync, statSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { PasskeyManager } from './passkey-manager.js';
+import { TestAuthenticator } from './test-helpers.js';
+
+const rpId = 'term.example.com';
+
+describe('PasskeyManager', () => {
+  let dir: string;
+  let filePath: string;
+  let time: number;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'bunterm-passkeys-test-'));
+    filePath = join(dir, 'passkeys.json');
+    time = 1_000_000;
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  function createManager() {
+    return new PasskeyManager(filePath, { challengeTtlMs: 60_000, now: () => time });
+  }
+
+  function register(manager: PasskeyManager, authenticator: TestAuthenticator, user?: string) {
+    const options = manager.registrationOptions({ rpId, rpName: 'bunterm', user, name: 'Phone' });
+    return manager.finishRegistration(
+      authenticator.register(options.challenge, rpId).response,
+      user
+    );
+  }
+
+  test('registers a passkey for the session user and persists it (0600)', () => {
+    const manager = createManager();
+    const authenticator = new TestAuthenticator();
+
+    const result = register(manager, authenticator, 'alice');
+
+    expect(result.verified).toBe(true);
+    expect(result.credential).toMatchObject({ id: authenticator.id, user: 'alice', name: 'Phone' });
+    expect(statSync(filePath).mode & 0o777).toBe(0o600);
+    expect(
+      createManager()
+        .list()
+        .map((c) => c.id)
+    ).toEqual([authenticator.id]);
+  });
+
+  test('registration options exclude the user’s existing passkeys', () => {
+    const manager = createManager();
+    const authenticator = new TestAuthenticator();
+    register(manager, authenticator, 'alice');
+
+    const forAlice = manager.registrationOptions({ rpId, rpName: 'bunterm', user: 'alice' });
+    const forBob = manager.registrationOptions({ rpId, rpName: 'bunterm', user: 'bob' });
+
+    expect(forAlice.excludeCredentials.map((c) => c.id)).toEqual([authenticator.id]);
+    expect(forBob.excludeCredentials).toEqual([]);
+    expect(forAlice.user.id).not.toBe(forBob.user.id);
+  });
+
+  test('a registration challenge can only be finished by the same user', () => {
+    const manager = createManager();
+    const options = manager.registrationOptions({ rpId, rpName: 'bunterm', user: 'alice' });
+    const { response } = new TestAuthenticator().register(options.challenge, rpId);
+
+    expect(manager.finishRegistration(response, 'mallory')).toEqual({
+      verified: false,
+      reason: 'unknown_challenge'
+    });
+  });
+
+  test('logs in with a registered passkey and records its use', () => {
+    const manager = createManager();
+    const authenticator = new TestAuthenticator();
+    register(manager, authenticator, 'alice');
+
+    time += 5_000;
+    const { challenge } = manager.loginOptions(rpId);
+    const login = authenticator.login(challenge, rpId);
+    const result = manager.finishLogin(login.id, login.response);
+
+    expect(result.verified).toBe(true);
+    expect(result.credential?.user).toBe('alice');
+    expect(result.credential?.signCount).toBe(2);
+    expect(createManager().list()[0]?.lastUsedAt).toBe(new Date(time).toISOString());
+  });
+
+  test('challenges are one-time and expire', () => {
+    const manager = createManager();
+    const authenticator = new TestAuthenticator();
+    register(manager, authenticator);
+
+    const { challenge } = manager.loginOptions(rpId);
+    const first = authenticator.login(challenge, rpId);
+    expect(manager.finishLogin(first.id, first.response).verified).toBe(true);
+    const replay = authenticator.login(challenge, rpId);
+    expect(manager.finishLogin(replay.id, replay.response).reason).toBe('unknown_challenge');
+
+    const late = manager.loginOptions(rpId);
+    time += 61_000;
+    const expired = authenticator.login(late.challenge, rpId);
+    expect(manager.finishLogin(expired.id, expired.response).reason).toBe('unknown_challenge');
+  });
+
+  test('rejects unknown passkeys and bad signatures', () => {
+    const manager = createManager();
+    const authenticator = new TestAuthenticator();
+    register(manager, authenticator);
+
+    const stranger = new TestAuthenticator();
+    const unknown = stranger.login(manager.loginOptions(rpId).challenge, rpId);
+    expect(manager.finishLogin(unknown.id, unknown.response).reason).toBe('unknown_credential');
+
+    const forged = stranger.login(manager.loginOptions(rpId).challenge, rpId);
+    expect(manager.finishLogin(authenticator.id, forged.response).reason).toBe('invalid_response');
+  });
+
+  test('caps pending challenges', () => {
+    const manager = new PasskeyManager(filePath, { maxPendingChallenges: 2 });
+    const authenticator = new TestAuthenticator();
+    register(manager, authenticator);
+
+    const oldest = manager.loginOptions(rpId).challenge;
+    manager.loginOptions(rpId);
+    manager.loginOptions(rpId);
+
+    const login = authenticator.login(oldest, rpId);
+    expect(manager.finishLogin(login.id, login.response).reason).toBe('unknown_challenge');
+  });
+
+  test('revokes by unique ID prefix', async () => {
+    const manager = createManager();
+    const authenticator = new TestAuthenticator();
+    const other = new TestAuthenticator();
+    register(manager, authenticator);
+    register(manager, other);
+
+    expect(manager.revoke('')).toBeNull();
+    expect(manager.revoke(authenticator.id.slice(0, 8))?.id).toBe(authenticator.id);
+    expect(JSON.parse(await Bun.file(filePath).text()).credentials).toHaveLength(1);
+  });
+
+  test('ignores an invalid credential file', () => {
+    writeFileSync(filePath, '{"credentials": [{"id": 1}]}');
+
+    expect(createManager().list()).toEqual([]);
+  });
+});
@@ -0,0 +1,339 @@
+/**
+ * Passkey Manager
+ *
+ * WebAuthn passkeys for passwordless login. Registration happens from an
+ * authenticated session (localhost counts) and binds the passkey to that
+ * session's named user; login exchanges a passkey assertion for a cookie
+ * session. Credentials (public keys only) are kept in passkeys.json in the
+ * state directory (0600); challenges are one-time and held in memory.
+ */
+
+import { createHash, randomBytes } from 'node:crypto';
+import { chmodSync, existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { dirname } from 'node:path';
+import { z } from 'zod';
+import { createLogger } from '@/utils/logger.js';
+import {
+  type AuthenticationResponse,
+  type RegistrationResponse,
+  readChallenge,
+  SUPPORTED_ALGORITHMS,
+  type VerifiedRegistration,
+  verifyAuthentication,
+  verifyRegistration
+} from './webauthn.js';
+
+const log = createLogger('passkeys');
+
+// === Types ===
+
+const PasskeyCredentialSchema = z.object({
+  /** Credential ID (base64url) */
+  id: z.string().min(1),
+  /** SubjectPublicKeyInfo DER (base64url) */
+  publicKey: z.string().min(1),
+  /** COSE algorithm identifier */
+  algorithm: z.number().int(),
+  signCount: z.number().int().nonnegative(),
+  /** Named user the passkey logs in as */
+  user: z.string().optional(),
+  /** Label chosen at registration (e.g. "iPhone") */
+  name: z.string(),
+  transports: z.array(z.string()).optional(),
+  createdAt: z.string(),
+  lastUsedAt: z.string().optional()
+});
+
+export type PasskeyCredential = z.infer<typeof PasskeyCredentialSchema>;
+
+const PasskeyFileSchema = z.object({
+  credentials: z.array(PasskeyCredentialSchema).default([])
+});
+
+export interface PasskeyManagerOptions {
+  /** Time to finish a ceremony after requesting options (default: 5 minutes) */
+  challengeTtlMs?: number;
+  /** Pending challenges kept at once; the oldest are dropped (default: 100) */
+  maxPendingChallenges?: number;
+  /** Clock function for testing */
+  now?: () => number;
+}
+
+export interface RegistrationOptionsInput {
+  rpId: string;
+  /** Shown by the authenticator */
+  rpName: string;
+  /** Named user of the registering session */
+  user?: string;
+  /** Label for the new passkey */
+  name?: string;
+}
+
+/** PublicKeyCredentialCreationOptions with binary fields as base64url */
+export interface RegistrationOptions {
+  challenge: string;
+  rp: { id: string; name: string };
+  user: { id: string; name: string; displayName: string };
+  pubKeyCredParams: Array<{ type: 'public-key'; alg: number }>;
+  timeout: number;
+  attestation: 'none';
+  authenticatorSelection: { residentKey: 'required'; userVerification: 'required' };
+  excludeCredentials: Array<{ type: 'public-key'; id: string; transports?: string[] }>;
+}
+
+/** PublicKeyCredentialRequestOptions with binary fields as base64url */
+export interface LoginOptions {
+  challenge: string;
+  rpId: string;
+  timeout: number;
+  userVerification: 'required';
+}
+
+export interface PasskeyResult {
+  readonly verified: boolean;
+  readonly reason?: 'unknown_challenge' | 'unknown_credential' | 'invalid_response';
+  /** Registered or used credential (verified results only) */
+  readonly credential?: PasskeyCredential;
+}
+
+interface PendingChallenge {
+  type: 'register' | 'login';
+  rpId: string;
+  expiresAt: number;
+  user?: string;
+  name?: string;
+}
+
+// === PasskeyManager ===
+
+export class PasskeyManager {
+  private readonly filePath: string;
+  private readonly challengeTtlMs: number;
+  private readonly maxPendingChallenges: number;
+  private readonly now: () => number;
+  private credentials: PasskeyCredential[];
+  private readonly challenges = new Map<string, PendingChallenge>();
+
+  constructor(filePath: string, options: PasskeyManagerOptions = {}) {
+    this.filePath = filePath;
+    this.challengeTtlMs = options.challengeTtlMs ?? 5 * 60_000;
+    this.maxPendingChallenges = options.maxPendingChallenges ?? 100;
+    this.now = options.now ?? Date.now;
+    this.credentials = this.load();
+  }
+
+  /**
+   * Registered passkeys
+   */
+  list(): PasskeyCredential[] {
+    return [...this.credentials];
+  }
+
+  /**
+   * Remove the passkey whose ID starts with `idPrefix`
+   *
+   * @returns the removed passkey, or null when none or several match
+   */
+  revoke(idPrefix: string): PasskeyCredential | null {
+    if (!idPrefix) {
+      return null;
+    }
+    const matches = this.credentials.filter((c) => c.id.startsWith(idPrefix));
+    if (matches.length !== 1 || !matches[0]) {
+      return null;
+    }
+    const [target] = matches;
+    this.credentials = this.credentials.filter((c) => c !== target);
+    this.save();
+    return target;
+  }
+
+  /**
+   * Start registering a passkey for the calling session's user
+   */
+  registrationOptions(input: RegistrationOptionsInput): RegistrationOptions {
+    const challenge = this.issueChallenge({
+      type: 'register',
+      rpId: input.rpId,
+      user: input.user,
+      name: input.name
+    });
+    const userName = input.user ?? 'bunterm';
+    return {
+      challenge,
+      rp: { id: input.rpId, name: input.rpName },
+      // Stable per user, so re-registering on the same device replaces the old passkey
+      user: {
+        id: createHash('sha256')
+          .update(`bunterm-user:${input.user ?? ''}`)
+          .digest()
+          .subarray(0, 16)
+          .toString('base64url'),
+        name: userName,
+        displayName: userName
+      },
+      pubKeyCredParams: SUPPORTED_ALGORITHMS.map((alg) => ({ type: 'public-key', alg })),
+      timeout: this.challengeTtlMs,
+      attestation: 'none',
+      authenticatorSelection: { residentKey: 'required', userVerification: 'required' },
+      excludeCredentials: this.credentials
+        .filter((c) => c.user === input.user)
+        .map((c) => ({
+          type: 'public-key',
+          id: c.id,
+          ...(c.transports && { transports: c.transports })
+        }))
+    };
+  }
+
+  /**
+   * Verify and store a new passkey
+   *
+   * @param user - Named user of the session finishing the registration
+   */
+  finishRegistration(
+    response: RegistrationResponse & { transports?: string[] },
+    user?: string
+  ): PasskeyResult {
+    const pending = this.takeChallenge(response.clientDataJSON, 'register');
+    // The session that asked for the challenge must be the one finishing it
+    if (!pending || pending.user !== user) {
+      return { verified: false, reason: 'unknown_challenge' };
+    }
+
+    let verified: VerifiedRegistration;
+    try {
+      verified = verifyRegistration(response, { challenge: pending.challenge, rpId: pending.rpId });
+    } catch (error) {
+      log.warn(`Passkey registration rejected: ${error}`);
+      return { verified: false, reason: 'invalid_response' };
+    }
+
+    const credential: PasskeyCredential = {
+      ...verified,
+      ...(user !== undefined && { user }),
+      name: pending.name?.trim() || 'Passkey',
+      ...(response.transports?.length ? { transports: response.transports } : {}),
+      createdAt: new Date(this.now()).toISOString()
+    };
+    this.credentials = [...this.credentials.filter((c) => c.id !== credential.id), credential];
+    this.save();
+    return { verified: true, credential };
+  }
+
+  /**
+   * Start a passwordless login (any registered passkey on this host)
+   */
+  loginOptions(rpId: string): LoginOptions {
+    return {
+      challenge: this.issueChallenge({ type: 'login', rpId }),
+      rpId,
+      timeout: this.challengeTtlMs,
+      userVerification: 'required'
+    };
+  }
+
+  /**
+   * Verify a login assertion
+   *
+   * @param id - Credential ID reported by the browser (base64url)
+   */
+  finishLogin(id: string, response: AuthenticationResponse): PasskeyResult {
+    const pending = this.takeChallenge(response.clientDataJSON, 'login');
+    if (!pending) {
+      return { verified: false, reason: 'unknown_challenge' };
+    }
+    const stored = this.credentials.find((c) => c.id === id);
+    if (!stored) {
+      return { verified: false, reason: 'unknown_credential' };
+    }
+
+    let signCount: number;
+    try {
+      signCount = verifyAuthentication(response, stored, {
+        challenge: pending.challenge,
+        rpId: pending.rpId
+      });
+    } catch (error) {
+      log.warn(`Passkey login rejected for '${stored.name}': ${error}`);
+      return { verified: false, reason: 'invalid_response' };
+    }
+
+    const credential: PasskeyCredential = {
+      ...stored,
+      signCount,
+      lastUsedAt: new Date(this.now()).toISOString()
+    };
+    this.credentials = this.credentials.map((c) => (c === stored ? credential : c));
+    this.save();
+    return { verified: true, credential };
+  }
+
+  // === Challenges ===
+
+  private issueChallenge(entry: Omit<PendingChallenge, 'expiresAt'>): string {
+    const now = this.now();
+    for (const [challenge, pending] of this.challenges) {
+      if (pending.expiresAt <= now) {
+        this.challenges.delete(challenge);
+      }
+    }
+    // Login options are unauthenticated: bound the memory they can take
+    while (this.challenges.size >= this.maxPendingChallenges) {
+      const oldest = this.challenges.keys().next().value;
+      if (oldest === undefined) break;
+      this.challenges.delete(oldest);
+    }
+
+    const challenge = randomBytes(32).toString('base64url');
+    this.challenges.set(challenge, { ...entry, expiresAt: now + this.challengeTtlMs });
+    return challenge;
+  }
+
+  /**
+   * Consume the challenge echoed in the client data (one-time)
+   */
+  private takeChallenge(
+    clientDataJSON: string,
+    type: PendingChallenge['type']
+  ): (PendingChallenge & { challenge: string }) | null {
+    const challenge = readChallenge(clientDataJSON);
+    const pending = challenge !== undefined ? this.challenges.get(challenge) : undefined;
+    if (challenge === undefined || !pending || pending.type !== type) {
+      return null;
+    }
+    this.challenges.delete(challenge);
+    return pending.expiresAt > this.now() ? { ...pending, challenge } : null;
+  }
+
+  // === Persistence ===
+
+  private load(): PasskeyCredential[] {
+    if (!existsSync(this.filePath)) {
+      return [];
+    }
+    try {
+      // biome-ignore lint: sync read at startup
+      const content = readFileSync(this.filePath, 'utf-8');
+      const result = PasskeyFileSchema.safeParse(JSON.parse(content));
+      if (result.success) {
+        return result.data.credentials;
+      }
+      log.warn(`Ignoring invalid passkey file ${this.filePath}`);
+    } catch (error) {
+      log.warn(`Failed to read passkey file ${this.filePath}: ${error}`);
+    }
+    return [];
+  }
+
+  private save(): void {
+    const dir = dirname(this.filePath);
+    if (!existsSync(dir)) {
+      mkdirSync(dir, { recursive: true });
+    }
+    writeFileSync(this.filePath, JSON.stringify({ credentials: this.credentials }, null, 2), {
+      mode: 0o600
+    });
+    chmodSync(this.filePath, 0o600);
+  }
+}
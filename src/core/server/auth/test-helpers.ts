@@ -0,0 +1,136 @@
+/**
+ * Test helpers for WebAuthn: a software authenticator that produces real
+ * registration and login responses (ES256, `none` attestation).
+ */
+
+import { createHash, generateKeyPairSync, type KeyObject, randomBytes, sign } from 'node:crypto';
+
+export type CborValue = number | string | Buffer | CborValue[] | Map<number | string, CborValue>;
+
+function cborHead(major: number, argument: number): Buffer {
+  if (argument < 24) return Buffer.from([(major << 5) | argument]);
+  if (argument < 0x100) return Buffer.from([(major << 5) | 24, argument]);
+  const head = Buffer.alloc(3);
+  head[0] = (major << 5) | 25;
+  head.writeUInt16BE(argument, 1);
+  return head;
+}
+
+/**
+ * Minimal CBOR encoder (small integers, strings, byte strings, arrays, maps)
+ */
+export function encodeCbor(value: CborValue): Buffer {
+  if (typeof value === 'number') {
+    return value >= 0 ? cborHead(0, value) : cborHead(1, -1 - value);
+  }
+  if (typeof value === 'string') {
+    const bytes = Buffer.from(value, 'utf-8');
+    return Buffer.concat([cborHead(3, bytes.length), bytes]);
+  }
+  if (Buffer.isBuffer(value)) {
+    return Buffer.concat([cborHead(2, value.length), value]);
+  }
+  if (Array.isArray(value)) {
+    return Buffer.concat([cborHead(4, value.length), ...value.map(encodeCbor)]);
+  }
+  const parts = [cborHead(5, value.size)];
+  for (const [key, item] of value) {
+    parts.push(encodeCbor(key), encodeCbor(item));
+  }
+  return Buffer.concat(parts);
+}
+
+function clientData(type: string, challenge: string, origin: string): string {
+  return Buffer.from(JSON.stringify({ type, challenge, origin, crossOrigin: false })).toString(
+    'base64url'
+  );
+}
+
+export class TestAuthenticator {
+  readonly credentialId = randomBytes(16);
+  private readonly privateKey: KeyObject;
+  private readonly publicKey: KeyObject;
+  private signCount: number;
+
+  /**
+   * @param counter - Count signatures (false: always 0, like synced passkeys)
+   */
+  constructor(private readonly counter = true) {
+    const pair = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+    this.privateKey = pair.privateKey;
+    this.publicKey = pair.publicKey;
+    this.signCount = 0;
+  }
+
+  get id(): string {
+    return this.credentialId.toString('base64url');
+  }
+
+  register(challenge: string, rpId: string, origin = `https://${rpId}`) {
+    const jwk = this.publicKey.export({ format: 'jwk' });
+    const coseKey = new Map<number, CborValue>([
+      [1, 2],
+      [3, -7],
+      [-1, 1],
+      [-2, Buffer.from(jwk.x as string, 'base64url')],
+      [-3, Buffer.from(jwk.y as string, 'base64url')]
+    ]);
+    const idLength = Buffer.alloc(2);
+    idLength.writeUInt16BE(this.credentialId.length);
+    const authData = Buffer.concat([
+      this.header(rpId, 0x45),
+      Buffer.alloc(16),
+      idLength,
+      this.credentialId,
+      encodeCbor(coseKey)
+    ]);
+    const attestationObject = encodeCbor(
+      new Map<string, CborValue>([
+        ['fmt', 'none'],
+        ['attStmt', new Map()],
+        ['authData', authData]
+      ])
+    );
+    return {
+      id: this.id,
+      response: {
+        clientDataJSON: clientData('webauthn.create', challenge, origin),
+        attestationObject: attestationObject.toString('base64url')
+      }
+    };
+  }
+
+  login(
+    challenge: string,
+    rpId: string,
+    options: { origin?: string; userVerified?: boolean } = {}
+  ) {
+    const clientDataJSON = clientData(
+      'webauthn.get',
+      challenge,
+      options.origin ?? `https://${rpId}`
+    );
+    const authData = this.header(rpId, options.userVerified === false ? 0x01 : 0x05);
+    const clientDataHash = createHash('sha256')
+      .update(Buffer.from(clientDataJSON, 'base64url'))
+      .digest();
+    const signature = sign('sha256', Buffer.concat([authData, clientDataHash]), this.privateKey);
+    return {
+      id: this.id,
+      response: {
+        clientDataJSON,
+        authenticatorData: authData.toString('base64url'),
+        signature: signature.toString('base64url')
+      }
+    };
+  }
+
+  private header(rpId: string, flags: number): Buffer {
+    if (this.counter) {
+      this.signCount++;
+    }
+    const count = Buffer.alloc(4);
+    count.writeUInt32BE(this.signCount);
+    return Buffer.concat([createHash('sha256').update(rpId).digest(), Buffer.from([flags]), count]);
+  }
+}
@@ -0,0 +1,132 @@
+/**
+ * WebAuthn Verification Tests
+ */
+
+import { describe, expect, test } from 'bun:test';
+import { type CborValue, encodeCbor, TestAuthenticator } from './test-helpers.js';
+import {
+  decodeCbor,
+  isAllowedOrigin,
+  verifyAuthentication,
+  verifyRegistration,
+  WebAuthnError
+} from './webauthn.js';
+
+const expected = { challenge: 'Y2hhbGxlbmdl', rpId: 'term.example.com' };
+
+describe('decodeCbor', () => {
+  test('decodes COSE-style maps with integer keys', () => {
+    const encoded = encodeCbor(
+      new Map<number | string, CborValue>([
+        [1, 2],
+        [-1, 'x'],
+        ['k', Buffer.from([1, 2])]
+      ])
+    );
+    const { value, offset } = decodeCbor(encoded);
+
+    expect(offset).toBe(encoded.length);
+    expect(value).toEqual(
+      new Map<unknown, unknown>([
+        [1, 2],
+        [-1, 'x'],
+        ['k', Buffer.from([1, 2])]
+      ])
+    );
+  });
+
+  test('rejects truncated input', () => {
+    expect(() => decodeCbor(Buffer.from([0x59, 0x01]))).toThrow(WebAuthnError);
+  });
+});
+
+describe('isAllowedOrigin', () => {
+  test('requires https except on localhost', () => {
+    expect(isAllowedOrigin('https://term.example.com', 'term.example.com')).toBe(true);
+    expect(isAllowedOrigin('http://term.example.com', 'term.example.com')).toBe(false);
+    expect(isAllowedOrigin('http://localhost:7680', 'localhost')).toBe(true);
+    expect(isAllowedOrigin('https://evil.example', 'term.example.com')).toBe(false);
+  });
+});
+
+describe('verifyRegistration', () => {
+  test('extracts the credential from a none attestation', () => {
+    const authenticator = new TestAuthenticator();
+    const { response } = authenticator.register(expected.challenge, expected.rpId);
+
+    const credential = verifyRegistration(response, expected);
+
+    expect(credential.id).toBe(authenticator.id);
+    expect(credential.algorithm).toBe(-7);
+    expect(credential.signCount).toBe(1);
+  });
+
+  test('rejects another challenge, origin or relying party', () => {
+    const authenticator = new TestAuthenticator();
+
+    const stale = authenticator.register('b3RoZXI', expected.rpId).response;
+    expect(() => verifyRegistration(stale, expected)).toThrow('Challenge mismatch');
+
+    const phished = authenticator.register(
+      expected.challenge,
+      expected.rpId,
+      'https://evil.example'
+    ).response;
+    expect(() => verifyRegistration(phished, expected)).toThrow('not allowed');
+
+    const otherRp = authenticator.register(
+      expected.challenge,
+      'other.example.com',
+      'https://term.example.com'
+    ).response;
+    expect(() => verifyRegistration(otherRp, expected)).toThrow('different relying party');
+  });
+});
+
+describe('verifyAuthentication', () => {
+  function registered(counter = true) {
+    const authenticator = new TestAuthenticator(counter);
+    const stored = verifyRegistration(
+      authenticator.register(expected.challenge, expected.rpId).response,
+      expected
+    );
+    return { authenticator, stored };
+  }
+
+  test('verifies the signature and returns the new counter', () => {
+    const { authenticator, stored } = registered();
+    const { response } = authenticator.login(expected.challenge, expected.rpId);
+
+    expect(verifyAuthentication(response, stored, expected)).toBe(2);
+  });
+
+  test('rejects a signature from another key', () => {
+    const { stored } = registered();
+    const { response } = new TestAuthenticator().login(expected.challenge, expected.rpId);
+
+    expect(() => verifyAuthentication(response, stored, expected)).toThrow('Invalid signature');
+  });
+
+  test('requires user verification', () => {
+    const { authenticator, stored } = registered();
+    const { response } = authenticator.login(expected.challenge, expected.rpId, {
+      userVerified: false
+    });
+
+    expect(() => verifyAuthentication(response, stored, expected)).toThrow(
+      'User verification required'
+    );
+  });
+
+  test('rejects a counter that did not increase, except for counterless passkeys', () => {
+    const { authenticator, stored } = registered();
+    const { response } = authenticator.login(expected.challenge, expected.rpId);
+    expect(() => verifyAuthentication(response, { ...stored, signCount: 5 }, expected)).toThrow(
+      'Signature counter'
+    );
+
+    const synced = registered(false);
+    const login = synced.authenticator.login(expected.challenge, expected.rpId);
+    expect(verifyAuthentication(login.response, synced.stored, expected)).toBe(0);
+  });
+});
@@ -0,0 +1,382 @@
+/**
+ * WebAuthn Verification
+ *
+ * Server side of passkey registration and login (Web Authentication Level 2).
+ * Registration asks for `attestation: 'none'`: a new credential is trusted
+ * because the caller is already authenticated, not because of who made the
+ * authenticator, so attestation statements are not verified.
+ *
+ * Binary fields travel as base64url strings. Supported key algorithms:
+ * ES256 (-7), EdDSA (-8) and RS256 (-257).
+ */
+
+import { createHash, createPublicKey, type KeyObject, verify } from 'node:crypto';
+
+// === Types ===
+
+export interface RegistrationResponse {
+  clientDataJSON: string;
+  attestationObject: string;
+}
+
+export interface AuthenticationResponse {
+  clientDataJSON: string;
+  authenticatorData: string;
+  signature: string;
+}
+
+export interface WebAuthnExpectation {
+  /** Challenge issued for this ceremony (base64url) */
+  challenge: string;
+  /** Relying party ID: the hostname the browser is on */
+  rpId: string;
+}
+
+export interface VerifiedRegistration {
+  /** Credential ID (base64url) */
+  id: string;
+  /** SubjectPublicKeyInfo DER (base64url) */
+  publicKey: string;
+  /** COSE algorithm identifier */
+  algorithm: number;
+  signCount: number;
+}
+
+export interface StoredCredentialKey {
+  publicKey: string;
+  algorithm: number;
+  signCount: number;
+}
+
+/** The response failed verification */
+export class WebAuthnError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WebAuthnError';
+  }
+}
+
+/** COSE algorithms offered at registration, in order of preference */
+export const SUPPORTED_ALGORITHMS = [-7, -8, -257] as const;
+
+// Authenticator data flags
+const FLAG_USER_PRESENT = 0x01;
+const FLAG_USER_VERIFIED = 0x04;
+const FLAG_ATTESTED_CREDENTIAL = 0x40;
+
+// === CBOR ===
+
+interface CborItem {
+  value: unknown;
+  offset: number;
+}
+
+/**
+ * Decode one CBOR item (RFC 8949) starting at `offset`.
+ * Maps decode to Map so COSE integer keys survive. Indefinite lengths are
+ * rejected: authenticators emit CTAP2 canonical CBOR.
+ */
+export function decodeCbor(bytes: Uint8Array, offset = 0): CborItem {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const read = (at: number, length: number): number => {
+    if (at + length > bytes.length) {
+      throw new WebAuthnError('Truncated CBOR');
+    }
+    switch (length) {
+      case 1:
+        return view.getUint8(at);
+      case 2:
+        return view.getUint16(at);
+      case 4:
+        return view.getUint32(at);
+      default: {
+        const value = view.getBigUint64(at);
+        if (value > BigInt(Number.MAX_SAFE_INTEGER)) {
+          throw new WebAuthnError('CBOR integer too large');
+        }
+        return Number(value);
+      }
+    }
+  };
+
+  const initial = read(offset, 1);
+  const major = initial >> 5;
+  const info = initial & 0x1f;
+  let pos = offset + 1;
+
+  if (major === 7) {
+    switch (info) {
+      case 20:
+        return { value: false, offset: pos };
+      case 21:
+        return { value: true, offset: pos };
+      case 22:
+        return { value: null, offset: pos };
+      case 23:
+        return { value: undefined, offset: pos };
+      case 26:
+        return { value: view.getFloat32(pos), offset: pos + 4 };
+      case 27:
+        return { value: view.getFloat64(pos), offset: pos + 8 };
+      default:
+        throw new WebAuthnError(`Unsupported CBOR simple value ${info}`);
+    }
+  }
+
+  let argument: number;
+  if (info < 24) {
+    argument = info;
+  } else if (info <= 27) {
+    const length = 1 << (info - 24);
+    argument = read(pos, length);
+    pos += length;
+  } else {
+    throw new WebAuthnError('Indefinite-length CBOR is not supported');
+  }
+
+  switch (major) {
+    case 0:
+      return { value: argument, offset: pos };
+    case 1:
+      return { value: -1 - argument, offset: pos };
+    case 2:
+    case 3: {
+      if (pos + argument > bytes.length) {
+        throw new WebAuthnError('Truncated CBOR');
+      }
+      const data = bytes.subarray(pos, pos + argument);
+      return {
+        value: major === 2 ? Buffer.from(data) : Buffer.from(data).toString('utf-8'),
+        offset: pos + argument
+      };
+    }
+    case 4: {
+      const items: unknown[] = [];
+      for (let i = 0; i < argument; i++) {
+        const item = decodeCbor(bytes, pos);
+        items.push(item.value);
+        pos = item.offset;
+      }
+      return { value: items, offset: pos };
+    }
+    case 5: {
+      const map = new Map<unknown, unknown>();
+      for (let i = 0; i < argument; i++) {
+        const key = decodeCbor(bytes, pos);
+        const value = decodeCbor(bytes, key.offset);
+        map.set(key.value, value.value);
+        pos = value.offset;
+      }
+      return { value: map, offset: pos };
+    }
+    default:
+      // Tags (major 6) carry no meaning for WebAuthn; decode the tagged item
+      return decodeCbor(bytes, pos);
+  }
+}
+
+// === Authenticator Data ===
+
+interface AuthenticatorData {
+  rpIdHash: Buffer;
+  flags: number;
+  signCount: number;
+  credentialId?: Buffer;
+  credentialPublicKey?: Map<unknown, unknown>;
+}
+
+function parseAuthenticatorData(data: Buffer): AuthenticatorData {
+  if (data.length < 37) {
+    throw new WebAuthnError('Authenticator data too short');
+  }
+  const parsed: AuthenticatorData = {
+    rpIdHash: data.subarray(0, 32),
+    flags: data[32] as number,
+    signCount: data.readUInt32BE(33)
+  };
+  if (parsed.flags & FLAG_ATTESTED_CREDENTIAL) {
+    // 16-byte AAGUID, 2-byte length, credential ID, COSE public key
+    if (data.length < 55) {
+      throw new WebAuthnError('Attested credential data too short');
+    }
+    const idLength = data.readUInt16BE(53);
+    parsed.credentialId = data.subarray(55, 55 + idLength);
+    const key = decodeCbor(data, 55 + idLength).value;
+    if (!(key instanceof Map)) {
+      throw new WebAuthnError('Credential public key is not a COSE key');
+    }
+    parsed.credentialPublicKey = key;
+  }
+  return parsed;
+}
+
+// === COSE Keys ===
+
+function coseBytes(key: Map<unknown, unknown>, label: number): string {
+  const value = key.get(label);
+  if (!Buffer.isBuffer(value)) {
+    throw new WebAuthnError(`COSE key parameter ${label} missing`);
+  }
+  return value.toString('base64url');
+}
+
+/**
+ * Convert a COSE_Key (RFC 9053) to a public key
+ */
+function coseToPublicKey(key: Map<unknown, unknown>): { key: KeyObject; algorithm: number } {
+  const kty = key.get(1);
+  const algorithm = key.get(3);
+  const crv = key.get(-1);
+
+  if (kty === 2 && algorithm === -7 && crv === 1) {
+    const jwk = { kty: 'EC', crv: 'P-256', x: coseBytes(key, -2), y: coseBytes(key, -3) };
+    return { key: createPublicKey({ key: jwk, format: 'jwk' }), algorithm };
+  }
+  if (kty === 1 && algorithm === -8 && crv === 6) {
+    const jwk = { kty: 'OKP', crv: 'Ed25519', x: coseBytes(key, -2) };
+    return { key: createPublicKey({ key: jwk, format: 'jwk' }), algorithm };
+  }
+  if (kty === 3 && algorithm === -257) {
+    const jwk = { kty: 'RSA', n: coseBytes(key, -1), e: coseBytes(key, -2) };
+    return { key: createPublicKey({ key: jwk, format: 'jwk' }), algorithm };
+  }
+  throw new WebAuthnError(`Unsupported credential key (kty ${kty}, alg ${algorithm})`);
+}
+
+// === Client Data ===
+
+/**
+ * Browsers only run WebAuthn in secure contexts: https, or http on localhost
+ */
+export function isAllowedOrigin(origin: string, rpId: string): boolean {
+  let url: URL;
+  try {
+    url = new URL(origin);
+  } catch {
+    return false;
+  }
+  if (url.hostname !== rpId) {
+    return false;
+  }
+  return url.protocol === 'https:' || (url.protocol === 'http:' && rpId === 'localhost');
+}
+
+/**
+ * Challenge echoed in clientDataJSON, used to look up the pending ceremony
+ */
+export function readChallenge(clientDataJSON: string): string | undefined {
+  try {
+    const clientData = JSON.parse(Buffer.from(clientDataJSON, 'base64url').toString('utf-8'));
+    return typeof clientData?.challenge === 'string' ? clientData.challenge : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function checkClientData(
+  clientDataJSON: string,
+  type: 'webauthn.create' | 'webauthn.get',
+  expected: WebAuthnExpectation
+): Buffer {
+  const raw = Buffer.from(clientDataJSON, 'base64url');
+  let clientData: { type?: unknown; challenge?: unknown; origin?: unknown; crossOrigin?: unknown };
+  try {
+    clientData = JSON.parse(raw.toString('utf-8'));
+  } catch {
+    throw new WebAuthnError('Client data is not JSON');
+  }
+  if (clientData.type !== type) {
+    throw new WebAuthnError(`Expected ${type}, got ${String(clientData.type)}`);
+  }
+  if (clientData.challenge !== expected.challenge) {
+    throw new WebAuthnError('Challenge mismatch');
+  }
+  if (
+    typeof clientData.origin !== 'string' ||
+    !isAllowedOrigin(clientData.origin, expected.rpId) ||
+    clientData.crossOrigin === true
+  ) {
+    throw new WebAuthnError(`Origin ${String(clientData.origin)} not allowed`);
+  }
+  return createHash('sha256').update(raw).digest();
+}
+
+function checkAuthenticatorData(data: AuthenticatorData, rpId: string): void {
+  if (!data.rpIdHash.equals(createHash('sha256').update(rpId).digest())) {
+    throw new WebAuthnError('Credential is for a different relying party');
+  }
+  // Passwordless login: the authenticator must have checked Face ID / PIN
+  if (!(data.flags & FLAG_USER_PRESENT) || !(data.flags & FLAG_USER_VERIFIED)) {
+    throw new WebAuthnError('User verification required');
+  }
+}
+
+// === Ceremonies ===
+
+/**
+ * Verify a navigator.credentials.create() response
+ *
+ * @throws WebAuthnError when the response does not match the expectation
+ */
+export function verifyRegistration(
+  response: RegistrationResponse,
+  expected: WebAuthnExpectation
+): VerifiedRegistration {
+  checkClientData(response.clientDataJSON, 'webauthn.create', expected);
+
+  const attestation = decodeCbor(Buffer.from(response.attestationObject, 'base64url')).value;
+  const authData = attestation instanceof Map ? attestation.get('authData') : undefined;
+  if (!Buffer.isBuffer(authData)) {
+    throw new WebAuthnError('Attestation object has no authenticator data');
+  }
+
+  const data = parseAuthenticatorData(authData);
+  checkAuthenticatorData(data, expected.rpId);
+  if (!data.credentialId || !data.credentialPublicKey) {
+    throw new WebAuthnError('No credential in registration response');
+  }
+
+  const { key, algorithm } = coseToPublicKey(data.credentialPublicKey);
+  return {
+    id: data.credentialId.toString('base64url'),
+    publicKey: key.export({ type: 'spki', format: 'der' }).toString('base64url'),
+    algorithm,
+    signCount: data.signCount
+  };
+}
+
+/**
+ * Verify a navigator.credentials.get() response against a stored credential
+ *
+ * @returns the authenticator's new signature counter
+ * @throws WebAuthnError when the signature or any check fails
+ */
+export function verifyAuthentication(
+  response: AuthenticationResponse,
+  credential: StoredCredentialKey,
+  expected: WebAuthnExpectation
+): number {
+  const clientDataHash = checkClientData(response.clientDataJSON, 'webauthn.get', expected);
+  const authData = Buffer.from(response.authenticatorData, 'base64url');
+  const data = parseAuthenticatorData(authData);
+  checkAuthenticatorData(data, expected.rpId);
+
+  const key = createPublicKey({
+    key: Buffer.from(credential.publicKey, 'base64url'),
+    format: 'der',
+    type: 'spki'
+  });
+  const signed = Buffer.concat([authData, clientDataHash]);
+  const signature = Buffer.from(response.signature, 'base64url');
+  // EdDSA hashes internally; ES256 signatures are DER-encoded, which verify() expects
+  const digest = credential.algorithm === -8 ? null : 'sha256';
+  if (!verify(digest, signed, key, signature)) {
+    throw new WebAuthnError('Invalid signature');
+  }
+
+  // Synced passkeys report 0; a counter that goes backwards means a cloned key
+  if ((data.signCount > 0 || credential.signCount > 0) && data.signCount <= credential.signCount) {
+    throw new WebAuthnError('Signature counter did not increase');
+  }
+  return data.signCount;
+}
@@ -1,13 +1,21 @@
 import { swagger } from '@elysiajs/swagger';
 import { type AnyElysia, Elysia } from 'elysia';
 import type { Config } from '@/core/config/types.js';
+import type { AccessControl } from '@/core/server/auth/access-control.js';
+import type { AuditLogger } from '@/core/server/auth/audit-logger.js';
+import type { AuthMiddlewareOptions } from '@/core/server/auth/auth-middleware.js';
 import type { CookieSessionStore } from '@/core/server/auth/cookie-session.js';
 import type { OtpManager } from '@/core/server/auth/otp-manager.js';
+import type { PasskeyManager } from '@/core/server/auth/passkey-manager.js';
 import type { NativeSessionManager } from '@/core/server/session-manager.js';
 import type { CommandExecutorManager } from '@/core/terminal/command-executor-manager.js';
 import type { AgentTimelineService } from '@/features/agent-timeline/server/timeline-service.js';
+import type { AISessionManager } from '@/features/ai/server/ai-session.js';
 import type { BlockEventEmitter } from '@/features/blocks/server/block-event-emitter.js';
+import type { recordingsPlugin } from '@/features/recording/server/elysia-plugin.js';
+import type { RecordingManager } from '@/features/recording/server/recording-manager.js';
 import type { ShareManager } from '@/features/share/server/share-manager.js';
+import { auditPlugin } from './audit.js';
 import { authRoutesPlugin } from './auth.js';
 import { authSessionsPlugin } from './auth-sessions.js';
 import { clipboardPlugin } from './clipboard.js';
@@ -17,10 +25,13 @@ import { authPlugin } from './middleware/auth.js';
 import { securityHeadersPlugin } from './middleware/security-headers.js';
 import { osc633Plugin } from './osc633.js';
 import { pagesPlugin } from './pages.js';
+import { passkeysPlugin } from './passkeys.js';
 import { previewFilePlugin, previewPlugin } from './preview.js';
 import { sessionsPlugin } from './sessions.js';
+import { shareWebsocketPlugin } from './share-websocket.js';
 import { staticFilesPlugin } from './static-files.js';
 import { systemPlugin } from './system.js';
+import { uploadsPlugin } from './uploads.js';
 import { websocketPlugin } from './websocket.js';
 
 export interface ElysiaAppDeps {
@@ -30,8 +41,16 @@ export interface ElysiaAppDeps {
   executorManager?: CommandExecutorManager | null;
   blockEventEmitter?: BlockEventEmitter | null;
   cookieSessionStore?: CookieSessionStore | null;
+  /** Request authentication; null leaves every route open */
+  authOptions?: AuthMiddlewareOptions | null;
+  /** Roles and session ACLs; null gives every authenticated client full access */
+  accessControl?: AccessControl | null;
   shareManager?: ShareManager | null;
   otpManager?: OtpManager | null;
+  passkeyManager?: PasskeyManager | null;
+  auditLogger?: AuditLogger | null;
+  recordingManager?: RecordingManager | null;
+  aiSessionManager?: AISessionManager | null;
   /** Timeline HTML renderer (injected from bootstrap) */
   generateTimelineHtml?: TimelineHtmlRenderer | null;
   /** Feature plugins registered by the bootstrap layer */
@@ -42,6 +61,8 @@ export function createElysiaApp(deps: ElysiaAppDeps) {
   const app = new Elysia()
     .use(securityHeadersPlugin)
     .use(authPlugin)
+    .state('authOptions', deps.authOptions ?? null)
+    .state('accessControl', deps.accessControl ?? null)
     .use(
       swagger({
         path: '/api/swagger',
@@ -59,31 +80,43 @@ export function createElysiaApp(deps: ElysiaAppDeps) {
             { name: 'files', description: 'File operations' },
             { name: 'notifications', description: 'Push notifications' },
             { name: 'shares', description: 'Session sharing' },
+            { name: 'recordings', description: 'Session recording' },
             { name: 'auth', description: 'Authentication' }
           ]
         }
       })
     )
-    .state('sessionManager', deps.sessionManager)
-    .state('config', deps.config)
-    .state('timelineService', deps.timelineService ?? null)
-    .state('executorManager', deps.executorManager ?? null)
-    .state('blockEventEmitter', deps.blockEventEmitter ?? null)
-    .state('cookieSessionStore', deps.cookieSessionStore ?? null)
-    .state('shareManager', deps.shareManager ?? null)
-    .state('otpManager', deps.otpManager ?? null)
-    .state('generateTimelineHtml', deps.generateTimelineHtml ?? null)
+    // A single state() call: every chained call deepens the App type Eden infers
+    .state({
+      sessionManager: deps.sessionManager,
+      config: deps.config,
+      timelineService: deps.timelineService ?? null,
+      executorManager: deps.executorManager ?? null,
+      blockEventEmitter: deps.blockEventEmitter ?? null,
+      cookieSessionStore: deps.cookieSessionStore ?? null,
+      shareManager: deps.shareManager ?? null,
+      otpManager: deps.otpManager ?? null,
+      passkeyManager: deps.passkeyManager ?? null,
+      auditLogger: deps.auditLogger ?? null,
+      recordingManager: deps.recordingManager ?? null,
+      aiSessionManager: deps.aiSessionManager ?? null,
+      generateTimelineHtml: deps.generateTimelineHtml ?? null
+    })
     .use(systemPlugin)
     .use(sessionsPlugin)
     .use(clipboardPlugin)
     .use(osc633Plugin)
     .use(filesPlugin)
+    .use(uploadsPlugin)
     .use(previewPlugin)
     .use(authRoutesPlugin)
     .use(authSessionsPlugin)
+    .use(passkeysPlugin)
+    .use(auditPlugin)
     .use(staticFilesPlugin)
     .use(previewFilePlugin)
     .use(websocketPlugin())
+    .use(shareWebsocketPlugin())
     .use(pagesPlugin);
 
   // Register feature plugins from bootstrap layer
@@ -94,4 +127,8 @@ export function createElysiaApp(deps: ElysiaAppDeps) {
   return app;
 }
 
-export type App = ReturnType<typeof createElysiaApp>;
+/**
+ * App type for the Eden client. Feature plugins are registered at runtime,
+ * so the routes the CLI calls are merged in here.
+ */
+export type App = ReturnType<typeof createElysiaApp> & Pick<typeof recordingsPlugin, '~Routes'>;
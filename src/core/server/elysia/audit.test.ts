@@ -0,0 +1,91 @@
+/**
+ * Tests for the audit query route (GET /api/audit)
+ */
+
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Elysia } from 'elysia';
+import { AuditLogger } from '@/core/server/auth/audit-logger.js';
+import { auditPlugin } from './audit.js';
+
+describe('GET /api/audit', () => {
+  let tempDir: string;
+  let auditLogger: AuditLogger;
+
+  const createApp = (logger: AuditLogger | null) =>
+    new Elysia().use(auditPlugin).state('auditLogger', logger);
+
+  const get = async (query: string, logger: AuditLogger | null = auditLogger) => {
+    const res = await createApp(logger).handle(new Request(`http://localhost/api/audit${query}`));
+    return { status: res.status, body: (await res.json()) as Record<string, unknown> };
+  };
+
+  beforeEach(async () => {
+    tempDir = mkdtempSync(join(tmpdir(), 'bunterm-audit-route-'));
+    auditLogger = new AuditLogger(join(tempDir, 'audit.log'));
+    await auditLogger.log({ type: 'ws_connect', remoteAddr: '10.0.0.1', sessionName: 'prod' });
+    await auditLogger.log({ type: 'auth_failure', remoteAddr: '203.0.113.7' });
+    await auditLogger.log({
+      type: 'command_execute',
+      remoteAddr: 'unix-socket',
+      sessionName: 'dev',
+      user: 'alice'
+    });
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('returns all events oldest first', async () => {
+    const { status, body } = await get('');
+
+    expect(status).toBe(200);
+    expect((body.events as { type: string }[]).map((event) => event.type)).toEqual([
+      'ws_connect',
+      'auth_failure',
+      'command_execute'
+    ]);
+  });
+
+  test('filters by repeated type and session', async () => {
+    const { body } = await get('?type=ws_connect&type=command_execute&session=prod');
+
+    expect(body.events).toEqual([expect.objectContaining({ remoteAddr: '10.0.0.1' })]);
+  });
+
+  test('filters by user and limit', async () => {
+    expect((await get('?user=alice')).body.events).toHaveLength(1);
+    expect((await get('?limit=2')).body.events).toHaveLength(2);
+  });
+
+  test('accepts ISO and epoch times', async () => {
+    const future = Date.now() + 60_000;
+
+    expect((await get(`?since=${future}`)).body.events).toHaveLength(0);
+    expect((await get(`?until=${new Date(future).toISOString()}`)).body.events).toHaveLength(3);
+  });
+
+  test('rejects an invalid time', async () => {
+    const { status, body } = await get('?since=yesterday-ish');
+
+    expect(status).toBe(400);
+    expect(body.error).toBe('INVALID_TIME');
+  });
+
+  test('rejects an unknown event type', async () => {
+    const { status, body } = await get('?type=shell_open');
+
+    expect(status).toBe(400);
+    expect(body.error).toBe('INVALID_TYPE');
+  });
+
+  test('returns 404 when the audit log is not configured', async () => {
+    const { status, body } = await get('', null);
+
+    expect(status).toBe(404);
+    expect(body.error).toBe('AUDIT_NOT_CONFIGURED');
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Audit Log API Routes (Elysia)
+ *
+ * Query endpoint behind `bunterm audit`. Events come from the JSONL audit
+ * log and its rotations, oldest first.
+ */
+
+import { Elysia, t } from 'elysia';
+import { AUDIT_EVENT_TYPES, type AuditEventType } from '@/core/server/auth/audit-logger.js';
+import { coreContext } from './context.js';
+import { ErrorResponseSchema } from './errors.js';
+
+/** Events returned when no limit is given */
+const DEFAULT_AUDIT_LIMIT = 1000;
+
+// === Response Schemas ===
+
+const AuditRecordSchema = t.Object({
+  timestamp: t.String(),
+  type: t.String(),
+  remoteAddr: t.String(),
+  sessionName: t.Optional(t.String()),
+  user: t.Optional(t.String()),
+  networkZone: t.Optional(t.String()),
+  details: t.Optional(t.String())
+});
+
+// === Helpers ===
+
+/**
+ * Parse an ISO date or epoch milliseconds
+ */
+function parseTime(value: string | undefined): number | undefined | null {
+  if (value === undefined) {
+    return undefined;
+  }
+  const time = /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+  return Number.isFinite(time) ? time : null;
+}
+
+// === Plugin ===
+
+export const auditPlugin = new Elysia({ prefix: '/api' })
+  .use(coreContext)
+
+  // GET /api/audit - Query audit events
+  .get(
+    '/audit',
+    async ({ auditLogger, query, set }) => {
+      if (!auditLogger) {
+        set.status = 404;
+        return { error: 'AUDIT_NOT_CONFIGURED', message: 'Audit log not initialized' };
+      }
+
+      const since = parseTime(query.since);
+      const until = parseTime(query.until);
+      if (since === null || until === null) {
+        set.status = 400;
+        return {
+          error: 'INVALID_TIME',
+          message: 'since/until must be an ISO date or epoch milliseconds'
+        };
+      }
+
+      const types = query.type ?? [];
+      const unknown = types.find((type) => !AUDIT_EVENT_TYPES.includes(type as AuditEventType));
+      if (unknown) {
+        set.status = 400;
+        return {
+          error: 'INVALID_TYPE',
+          message: `Unknown event type '${unknown}' (expected one of: ${AUDIT_EVENT_TYPES.join(', ')})`
+        };
+      }
+
+      const events = await auditLogger.query({
+        since,
+        until,
+        types: types as AuditEventType[],
+        sessionName: query.session,
+        user: query.user,
+        limit: query.limit ?? DEFAULT_AUDIT_LIMIT
+      });
+      return { events };
+    },
+    {
+      query: t.Object({
+        since: t.Optional(t.String()),
+        until: t.Optional(t.String()),
+        type: t.Optional(t.Array(t.String())),
+        session: t.Optional(t.String()),
+        user: t.Optional(t.String()),
+        limit: t.Optional(t.Numeric({ minimum: 1, maximum: 100000 }))
+      }),
+      response: {
+        200: t.Object({ events: t.Array(AuditRecordSchema) }),
+        400: ErrorResponseSchema,
+        404: ErrorResponseSchema
+      }
+    }
+  );
@@ -0,0 +1,71 @@
+/**
+ * Tests for the auth session routes used by `bunterm connections`
+ */
+
+import { describe, expect, test } from 'bun:test';
+import { Elysia } from 'elysia';
+import { InMemoryCookieSessionStore } from '@/core/server/auth/cookie-session.js';
+import { authSessionsPlugin } from './auth-sessions.js';
+
+function createSessionsApp() {
+  const cookieSessionStore = new InMemoryCookieSessionStore();
+  const app = new Elysia().state('cookieSessionStore', cookieSessionStore).use(authSessionsPlugin);
+  return { app, cookieSessionStore };
+}
+
+describe('auth session routes', () => {
+  test('lists sessions by key prefix with device and last-seen', async () => {
+    const { app, cookieSessionStore } = createSessionsApp();
+    const session = cookieSessionStore.create(
+      3600,
+      '192.168.1.20',
+      'otp',
+      'alice',
+      'Mozilla/5.0 (iPhone; CPU iPhone OS 18_0 like Mac OS X)'
+    );
+
+    const res = await app.handle(new Request('http://localhost/api/auth/sessions'));
+
+    const body = await res.json();
+    expect(body).toEqual([
+      {
+        id: session.key.slice(0, 8),
+        remoteAddr: '192.168.1.20',
+        networkZone: 'lan',
+        device: 'iPhone',
+        userAgent: 'Mozilla/5.0 (iPhone; CPU iPhone OS 18_0 like Mac OS X)',
+        authMethod: 'otp',
+        user: 'alice',
+        createdAt: new Date(session.createdAt).toISOString(),
+        lastSeenAt: new Date(session.lastSeenAt).toISOString(),
+        expiresAt: new Date(session.expiresAt).toISOString()
+      }
+    ]);
+    expect(JSON.stringify(body)).not.toContain(session.id);
+  });
+
+  test('revokes a session by key prefix', async () => {
+    const { app, cookieSessionStore } = createSessionsApp();
+    const session = cookieSessionStore.create(3600);
+
+    const res = await app.handle(
+      new Request(`http://localhost/api/auth/sessions/${session.key.slice(0, 8)}`, {
+        method: 'DELETE'
+      })
+    );
+
+    expect(res.status).toBe(200);
+    expect(cookieSessionStore.validate(session.id)).toBe(false);
+  });
+
+  test('returns 404 for an unknown session', async () => {
+    const { app } = createSessionsApp();
+
+    const res = await app.handle(
+      new Request('http://localhost/api/auth/sessions/deadbeef', { method: 'DELETE' })
+    );
+
+    expect(res.status).toBe(404);
+    expect((await res.json()).error).toBe('NOT_FOUND');
+  });
+});
@@ -3,17 +3,20 @@
  *
  * Endpoints for listing and revoking authenticated cookie sessions.
  * Replaces the old auth-session-routes.ts with Elysia's TypeBox validation.
+ * Sessions are identified by a prefix of their key (the SHA-256 of the
+ * session ID), never by the session ID itself.
  */
 
 import { Elysia, t } from 'elysia';
 import { coreContext } from './context.js';
 import { ErrorResponseSchema } from './errors.js';
+import { describeDevice } from './websocket.js';
 
 // === Helpers ===
 
-/** Truncate session ID to short prefix for display (security: never expose full ID) */
-function shortId(id: string): string {
-  return id.slice(0, 8);
+/** Truncate session key to short prefix for display */
+function shortId(key: string): string {
+  return key.slice(0, 8);
 }
 
 // === Response Schemas ===
@@ -21,7 +24,15 @@ function shortId(id: string): string {
 const AuthSessionResponseSchema = t.Object({
   id: t.String(),
   remoteAddr: t.String(),
+  networkZone: t.Optional(
+    t.Union([t.Literal('localhost'), t.Literal('lan'), t.Literal('internet')])
+  ),
+  device: t.String(),
+  userAgent: t.Optional(t.String()),
+  authMethod: t.String(),
+  user: t.Optional(t.String()),
   createdAt: t.String(),
+  lastSeenAt: t.String(),
   expiresAt: t.String()
 });
 
@@ -45,9 +56,15 @@ export const authSessionsPlugin = new Elysia({ prefix: '/api' })
 
       const sessions = cookieSessionStore.listSessions();
       return sessions.map((s) => ({
-        id: shortId(s.id),
+        id: shortId(s.key),
         remoteAddr: s.remoteAddr,
+        networkZone: s.networkZone,
+        device: describeDevice(s.userAgent),
+        userAgent: s.userAgent,
+        authMethod: s.authMethod,
+        user: s.user,
         createdAt: new Date(s.createdAt).toISOString(),
+        lastSeenAt: new Date(s.lastSeenAt).toISOString(),
         expiresAt: new Date(s.expiresAt).toISOString()
       }));
     },
@@ -57,26 +74,24 @@ export const authSessionsPlugin = new Elysia({ prefix: '/api' })
   // DELETE /api/auth/sessions/:id - Revoke an authenticated session
   .delete(
     '/auth/sessions/:id',
-    ({ cookieSessionStore, params, error }) => {
+    ({ cookieSessionStore, params, set }) => {
       const shortSessionId = params.id;
 
-      if (!cookieSessionStore) {
-        return error(404, { error: 'NOT_FOUND', message: `Session '${shortSessionId}' not found` });
-      }
-
-      // Find the full session ID matching the short prefix
-      const sessions = cookieSessionStore.listSessions();
-      const target = sessions.find((s) => s.id.startsWith(shortSessionId));
+      // Find the single session whose key matches the short prefix
+      const matches =
+        cookieSessionStore?.listSessions().filter((s) => s.key.startsWith(shortSessionId)) ?? [];
+      const target = matches.length === 1 ? matches[0] : undefined;
 
-      if (!target) {
-        return error(404, { error: 'NOT_FOUND', message: `Session '${shortSessionId}' not found` });
+      if (!cookieSessionStore || !target) {
+        set.status = 404;
+        return { error: 'NOT_FOUND', message: `Session '${shortSessionId}' not found` };
       }
 
-      cookieSessionStore.revoke(target.id);
+      cookieSessionStore.revokeByKey(target.key);
       return { revoked: true, id: shortSessionId };
     },
     {
-      params: t.Object({ id: t.String() }),
+      params: t.Object({ id: t.String({ minLength: 1 }) }),
       response: {
         200: RevokeResponseSchema,
         404: ErrorResponseSchema
@@ -0,0 +1,164 @@
+/**
+ * Tests for the auth routes: OTP verification (POST /api/auth/otp/verify)
+ */
+
+import { describe, expect, test } from 'bun:test';
+import { Elysia } from 'elysia';
+import { AccessControl } from '@/core/server/auth/access-control.js';
+import type { AuthMiddlewareOptions } from '@/core/server/auth/auth-middleware.js';
+import { hashSessionId, InMemoryCookieSessionStore } from '@/core/server/auth/cookie-session.js';
+import { OtpManager } from '@/core/server/auth/otp-manager.js';
+import { InMemoryNonceStore, TokenGenerator } from '@/core/server/ws/session-token.js';
+import { authRoutesPlugin } from './auth.js';
+import { DEFAULT_MOCK_CONFIG } from './test-helpers.js';
+
+// === Helpers ===
+
+function createAuthApp(overrides: Partial<AuthMiddlewareOptions> = {}) {
+  const accessControl = new AccessControl({ users: [{ name: 'alice', role: 'operator' }] });
+  const otpManager = new OtpManager();
+  const cookieSessionStore = new InMemoryCookieSessionStore();
+  const authOptions: AuthMiddlewareOptions = {
+    enabled: true,
+    localhostBypass: false,
+    cookieSessionStore,
+    tokenGenerator: new TokenGenerator({
+      secret: 'test-secret-key-must-be-at-least-32-bytes-long!!',
+      nonceStore: new InMemoryNonceStore({ cleanupIntervalMs: 999999 }),
+      ttlSeconds: 60
+    }),
+    basePath: '/bunterm',
+    cookieName: 'bunterm_session',
+    sessionTtlSeconds: 86400,
+    secureCookie: false,
+    stealthMode: false,
+    adaptiveShield: true,
+    lanSessionTtlSeconds: 604800,
+    internetSessionTtlSeconds: 3600,
+    ...overrides
+  };
+
+  const app = new Elysia()
+    .state('config', DEFAULT_MOCK_CONFIG)
+    .use(authRoutesPlugin)
+    .state('otpManager', otpManager)
+    .state('cookieSessionStore', cookieSessionStore)
+    .state('authOptions', authOptions)
+    .state('accessControl', accessControl);
+  return { app, otpManager, cookieSessionStore };
+}
+
+function verify(app: ReturnType<typeof createAuthApp>['app'], code: string, remoteAddr?: string) {
+  const request = new Request('http://term.example.com/api/auth/otp/verify', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ code })
+  });
+  if (remoteAddr) {
+    Object.defineProperty(request, 'remoteAddress', { value: remoteAddr });
+  }
+  return app.handle(request);
+}
+
+// === Tests ===
+
+describe('POST /api/auth/otp/verify', () => {
+  test('exchanges a valid code for an OTP cookie session', async () => {
+    const { app, otpManager, cookieSessionStore } = createAuthApp();
+    const { code } = otpManager.generate();
+
+    const res = await verify(app, code, '203.0.113.9');
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ networkZone: 'internet', expiresIn: 3600 });
+    const cookie = res.headers.get('set-cookie') ?? '';
+    expect(cookie).toContain('Max-Age=3600');
+    expect(cookie).toContain('HttpOnly');
+    expect(cookie).toContain('Path=/bunterm');
+
+    const [session] = cookieSessionStore.listSessions();
+    const sessionId = cookie.slice('bunterm_session='.length, cookie.indexOf(';'));
+    expect(session?.key).toBe(hashSessionId(sessionId));
+    expect(session?.authMethod).toBe('otp');
+    expect(session?.remoteAddr).toBe('203.0.113.9');
+  });
+
+  test('creates a session for the user the code was issued for', async () => {
+    const { app, otpManager, cookieSessionStore } = createAuthApp();
+    const { code } = otpManager.generate(60, 'alice');
+
+    expect((await verify(app, code)).status).toBe(200);
+
+    expect(cookieSessionStore.listSessions()[0]?.user).toBe('alice');
+  });
+
+  test('uses the LAN session TTL for private addresses', async () => {
+    const { app, otpManager } = createAuthApp();
+    const { code } = otpManager.generate();
+
+    const res = await verify(app, code, '192.168.1.20');
+
+    expect(await res.json()).toEqual({ networkZone: 'lan', expiresIn: 604800 });
+  });
+
+  test('rejects a wrong code and a reused code', async () => {
+    const { app, otpManager } = createAuthApp();
+    const { code } = otpManager.generate();
+    const wrong = code === '000000' ? '111111' : '000000';
+
+    const bad = await verify(app, wrong);
+    expect(bad.status).toBe(401);
+    expect((await bad.json()).error).toBe('INVALID_OTP');
+
+    expect((await verify(app, code)).status).toBe(200);
+    expect((await verify(app, code)).status).toBe(401);
+  });
+
+  test('returns 429 with Retry-After after too many attempts', async () => {
+    const { app, otpManager } = createAuthApp();
+    const { code } = otpManager.generate();
+    const wrong = code === '000000' ? '111111' : '000000';
+
+    for (let i = 0; i < 3; i++) {
+      await verify(app, wrong);
+    }
+    const res = await verify(app, code);
+
+    expect(res.status).toBe(429);
+    expect(Number(res.headers.get('retry-after'))).toBeGreaterThan(0);
+  });
+
+  test('answers failures with a plain 404 in stealth mode', async () => {
+    const { app, otpManager } = createAuthApp({ stealthMode: true });
+    otpManager.generate();
+
+    const res = await verify(app, 'abcdef');
+
+    expect(res.status).toBe(404);
+    expect(await res.text()).toBe('Not Found');
+  });
+});
+
+describe('POST /api/auth/otp/generate', () => {
+  const generate = (app: ReturnType<typeof createAuthApp>['app'], query: string) =>
+    app.handle(new Request(`http://localhost/api/auth/otp/generate${query}`, { method: 'POST' }));
+
+  test('issues a code for a user from the user file', async () => {
+    const { app, otpManager } = createAuthApp();
+
+    const res = await generate(app, '?user=alice');
+
+    expect(res.status).toBe(200);
+    const { code } = await res.json();
+    expect(otpManager.validate(code).user).toBe('alice');
+  });
+
+  test('rejects users missing from the user file', async () => {
+    const { app } = createAuthApp();
+
+    const res = await generate(app, '?user=mallory');
+
+    expect(res.status).toBe(400);
+    expect((await res.json()).error).toBe('UNKNOWN_USER');
+  });
+});
@@ -1,13 +1,18 @@
 /**
  * Auth API Routes (Elysia)
  *
- * Handles authentication: WebSocket token generation.
+ * Handles authentication: WebSocket token generation, OTP issue and
+ * OTP verification (code → cookie session).
  * Replaces the old auth-routes.ts with Elysia's TypeBox validation.
  */
 
 import { Elysia, t } from 'elysia';
+import { resolveSessionTtl } from '@/core/server/auth/auth-middleware.js';
+import { buildSetCookieHeader } from '@/core/server/auth/cookie-session.js';
+import { classifyNetwork } from '@/core/server/auth/network-classifier.js';
 import { coreContext } from './context.js';
 import { ErrorResponseSchema } from './errors.js';
+import { authContextPlugin } from './middleware/auth.js';
 
 // === Response Schemas ===
 
@@ -21,6 +26,7 @@ const WsTokenResponseSchema = t.Object({
 
 export const authRoutesPlugin = new Elysia({ prefix: '/api' })
   .use(coreContext)
+  .use(authContextPlugin)
 
   // POST /api/auth/ws-token - Generate WebSocket authentication token
   .post(
@@ -60,26 +66,108 @@ export const authRoutesPlugin = new Elysia({ prefix: '/api' })
   // POST /api/auth/otp/generate - Generate a 6-digit OTP for browser authentication
   .post(
     '/auth/otp/generate',
-    async ({ query, otpManager, error }) => {
+    async ({ query, otpManager, store, set, error }) => {
       if (!otpManager) {
         return error(500, { error: 'OTP_NOT_CONFIGURED', message: 'OTP manager not initialized' });
       }
+      // Codes for named users must match the user file (catches typos)
+      if (query.user !== undefined && !store.accessControl?.isKnownUser(query.user)) {
+        set.status = 400;
+        return { error: 'UNKNOWN_USER', message: `User '${query.user}' is not in the user file` };
+      }
       const MAX_OTP_TTL = 3600; // 1 hour max
       const rawTtl = query.ttl ? Number.parseInt(query.ttl, 10) : undefined;
       const ttl =
         rawTtl && Number.isFinite(rawTtl) && rawTtl > 0 ? Math.min(rawTtl, MAX_OTP_TTL) : undefined;
-      const result = otpManager.generate(ttl);
+      const result = otpManager.generate(ttl, query.user);
       return { code: result.code, expiresAt: result.expiresAt, ttlSeconds: result.ttlSeconds };
     },
     {
-      query: t.Object({ ttl: t.Optional(t.String()) }),
+      query: t.Object({
+        ttl: t.Optional(t.String()),
+        user: t.Optional(t.String({ minLength: 1 }))
+      }),
       response: {
         200: t.Object({
           code: t.String(),
           expiresAt: t.Number(),
           ttlSeconds: t.Number()
         }),
+        400: ErrorResponseSchema,
         500: ErrorResponseSchema
       }
     }
+  )
+
+  // POST /api/auth/otp/verify - Exchange an OTP for a cookie session
+  .post(
+    '/auth/otp/verify',
+    ({ body, otpManager, store, request, remoteAddr, audit, set }) => {
+      const options = store.authOptions;
+      if (!otpManager || !options?.enabled) {
+        set.status = 404;
+        return { error: 'OTP_NOT_CONFIGURED', message: 'OTP login is not enabled' };
+      }
+
+      const result = otpManager.validate(body.code.trim());
+      if (!result.valid) {
+        audit({ type: 'otp_attempt', details: result.reason });
+        // Stealth mode: indistinguishable from any unknown path
+        if (options.stealthMode) {
+          set.status = 404;
+          return 'Not Found';
+        }
+        if (result.reason === 'locked_out') {
+          const retryAfter = otpManager.lockoutRemainingSeconds();
+          set.status = 429;
+          set.headers['retry-after'] = String(retryAfter);
+          return {
+            error: 'OTP_LOCKED_OUT',
+            message: `Too many attempts. Try again in ${retryAfter}s`
+          };
+        }
+        set.status = 401;
+        return { error: 'INVALID_OTP', message: 'Invalid or expired code' };
+      }
+
+      // Session lifetime follows the Adaptive Shield zone of the caller
+      const ttl = resolveSessionTtl(options, remoteAddr);
+      const session = options.cookieSessionStore.create(
+        ttl,
+        remoteAddr,
+        'otp',
+        result.user,
+        request.headers.get('User-Agent') ?? undefined
+      );
+      set.headers['set-cookie'] = buildSetCookieHeader(options.cookieName, session.id, {
+        httpOnly: true,
+        sameSite: 'Strict',
+        path: options.basePath,
+        maxAge: ttl,
+        secure: options.secureCookie
+      });
+      audit({
+        type: 'auth_success',
+        details: result.user ? `otp login as ${result.user}` : 'otp login'
+      });
+
+      return {
+        networkZone: remoteAddr ? classifyNetwork(remoteAddr) : undefined,
+        expiresIn: ttl
+      };
+    },
+    {
+      body: t.Object({ code: t.String({ maxLength: 16 }) }),
+      response: {
+        200: t.Object({
+          networkZone: t.Optional(
+            t.Union([t.Literal('localhost'), t.Literal('lan'), t.Literal('internet')])
+          ),
+          expiresIn: t.Number()
+        }),
+        401: ErrorResponseSchema,
+        404: t.Union([ErrorResponseSchema, t.String()]),
+        429: ErrorResponseSchema
+      }
+    }
   );
@@ -9,12 +9,16 @@
 
 import { Elysia } from 'elysia';
 import type { Config } from '@/core/config/types.js';
+import type { AuditLogger } from '@/core/server/auth/audit-logger.js';
 import type { CookieSessionStore } from '@/core/server/auth/cookie-session.js';
 import type { OtpManager } from '@/core/server/auth/otp-manager.js';
+import type { PasskeyManager } from '@/core/server/auth/passkey-manager.js';
 import type { NativeSessionManager } from '@/core/server/session-manager.js';
 import type { CommandExecutorManager } from '@/core/terminal/command-executor-manager.js';
 import type { AgentTimelineService } from '@/features/agent-timeline/server/timeline-service.js';
+import type { AISessionManager } from '@/features/ai/server/ai-session.js';
 import type { BlockEventEmitter } from '@/features/blocks/server/block-event-emitter.js';
+import type { RecordingManager } from '@/features/recording/server/recording-manager.js';
 import type { ShareManager } from '@/features/share/server/share-manager.js';
 
 /** Function type for rendering the agent timeline HTML page */
@@ -29,6 +33,10 @@ export const coreContext = new Elysia({ name: 'core-context' })
   .state('cookieSessionStore', null as null | CookieSessionStore)
   .state('shareManager', null as null | ShareManager)
   .state('otpManager', null as null | OtpManager)
+  .state('passkeyManager', null as null | PasskeyManager)
+  .state('auditLogger', null as null | AuditLogger)
+  .state('recordingManager', null as null | RecordingManager)
+  .state('aiSessionManager', null as null | AISessionManager)
   .state('generateTimelineHtml', null as null | TimelineHtmlRenderer)
   .derive(({ store }) => ({
     sessionManager: store.sessionManager,
@@ -39,6 +47,10 @@ export const coreContext = new Elysia({ name: 'core-context' })
     cookieSessionStore: store.cookieSessionStore,
     shareManager: store.shareManager,
     otpManager: store.otpManager,
+    passkeyManager: store.passkeyManager,
+    auditLogger: store.auditLogger,
+    recordingManager: store.recordingManager,
+    aiSessionManager: store.aiSessionManager,
     generateTimelineHtml: store.generateTimelineHtml
   }))
   .as('global');
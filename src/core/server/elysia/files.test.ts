@@ -0,0 +1,549 @@
+/**
+ * Tests for the files API: editor read/write (GET/PUT /api/files/content),
+ * uploads, the file manager operations and archive downloads
+ */
+
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { existsSync, mkdirSync, mkdtempSync, readdirSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { gunzipSync } from 'node:zlib';
+import { Elysia } from 'elysia';
+import { DEFAULT_FILE_TRANSFER_CONFIG, type FileTransferConfig } from '@/core/config/types.js';
+import { TRASH_ORIGIN_FILE } from '@/features/file-transfer/server/file-operations.js';
+import { filesPlugin } from './files.js';
+import { createMockSessionManager, DEFAULT_MOCK_CONFIG } from './test-helpers.js';
+
+// === Helpers ===
+
+interface EditableFile {
+  path: string;
+  content: string;
+  etag: string;
+  mtime: string;
+  size: number;
+}
+
+function createFilesApp(cwd: string, fileTransfer: Partial<FileTransferConfig> = {}) {
+  const mockSessionManager = createMockSessionManager({
+    getSession: (name: string) =>
+      name === 'test-session' ? { name: 'test-session', pid: 1234, cwd } : undefined
+  });
+  const config = {
+    ...DEFAULT_MOCK_CONFIG,
+    file_transfer: {
+      ...DEFAULT_FILE_TRANSFER_CONFIG,
+      trash_dir: join(cwd, '..', `${cwd.split('/').pop()}-trash`),
+      ...fileTransfer
+    }
+  };
+
+  return new Elysia()
+    .state('sessionManager', mockSessionManager)
+    .state('config', config)
+    .use(filesPlugin);
+}
+
+async function call(
+  app: ReturnType<typeof createFilesApp>,
+  method: string,
+  route: string,
+  params: Record<string, string>,
+  body?: unknown
+) {
+  const query = new URLSearchParams({ session: 'test-session', ...params });
+  const res = await app.handle(
+    new Request(`http://localhost/api/${route}?${query.toString()}`, {
+      method,
+      headers: body === undefined ? {} : { 'Content-Type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body)
+    })
+  );
+  return { status: res.status, data: (await res.json()) as Record<string, unknown> };
+}
+
+function contentUrl(path: string, session = 'test-session'): string {
+  const params = new URLSearchParams({ session, path });
+  return `http://localhost/api/files/content?${params.toString()}`;
+}
+
+async function readContent(app: ReturnType<typeof createFilesApp>, path: string) {
+  const res = await app.handle(new Request(contentUrl(path)));
+  return { status: res.status, data: (await res.json()) as Record<string, unknown> };
+}
+
+async function saveContent(
+  app: ReturnType<typeof createFilesApp>,
+  path: string,
+  body: { content: string; etag?: string }
+) {
+  const res = await app.handle(
+    new Request(contentUrl(path), {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    })
+  );
+  return { status: res.status, data: (await res.json()) as Record<string, unknown> };
+}
+
+function archive(
+  app: ReturnType<typeof createFilesApp>,
+  paths: string[],
+  params: Record<string, string> = {}
+) {
+  const query = new URLSearchParams({ session: 'test-session', ...params });
+  for (const path of paths) {
+    query.append('path', path);
+  }
+  return app.handle(new Request(`http://localhost/api/files/archive?${query.toString()}`));
+}
+
+// === Tests ===
+
+describe('/api/files/content', () => {
+  let cwd: string;
+  let app: ReturnType<typeof createFilesApp>;
+
+  beforeEach(() => {
+    cwd = mkdtempSync(join(tmpdir(), 'bunterm-files-test-'));
+    app = createFilesApp(cwd);
+  });
+
+  afterEach(() => {
+    rmSync(cwd, { recursive: true, force: true });
+  });
+
+  describe('GET', () => {
+    test('returns content with an etag and mtime', async () => {
+      writeFileSync(join(cwd, 'a.ts'), 'const a = 1;\n');
+
+      const { status, data } = await readContent(app, 'a.ts');
+
+      expect(status).toBe(200);
+      const file = data as unknown as EditableFile;
+      expect(file.content).toBe('const a = 1;\n');
+      expect(file.size).toBe(13);
+      expect(file.etag).toMatch(/^[0-9a-f]{32}$/);
+      expect(Number.isNaN(Date.parse(file.mtime))).toBe(false);
+    });
+
+    test('etag changes when the content changes', async () => {
+      writeFileSync(join(cwd, 'a.ts'), 'one');
+      const first = (await readContent(app, 'a.ts')).data['etag'];
+      writeFileSync(join(cwd, 'a.ts'), 'two');
+      const second = (await readContent(app, 'a.ts')).data['etag'];
+
+      expect(first).not.toBe(second);
+    });
+
+    test('refuses binary files with 415', async () => {
+      writeFileSync(join(cwd, 'image.bin'), Buffer.from([0x89, 0x50, 0x00, 0x01]));
+
+      const { status, data } = await readContent(app, 'image.bin');
+
+      expect(status).toBe(415);
+      expect(data['error']).toBe('BINARY_FILE');
+    });
+
+    test('returns 404 for a missing file', async () => {
+      const { status } = await readContent(app, 'missing.ts');
+      expect(status).toBe(404);
+    });
+
+    test('returns 403 for paths outside the session cwd', async () => {
+      const { status, data } = await readContent(app, '../../etc/passwd');
+
+      expect(status).toBe(403);
+      expect(data['error']).toBe('PATH_TRAVERSAL');
+    });
+  });
+
+  describe('PUT', () => {
+    test('saves when the etag matches and returns the new etag', async () => {
+      writeFileSync(join(cwd, 'a.ts'), 'old');
+      const { data: opened } = await readContent(app, 'a.ts');
+
+      const { status, data } = await saveContent(app, 'a.ts', {
+        content: 'new',
+        etag: opened['etag'] as string
+      });
+
+      expect(status).toBe(200);
+      expect(await Bun.file(join(cwd, 'a.ts')).text()).toBe('new');
+      expect(data['etag']).not.toBe(opened['etag']);
+      expect((await readContent(app, 'a.ts')).data['etag']).toBe(data['etag']);
+    });
+
+    test('returns 409 with the current file when it changed since it was opened', async () => {
+      writeFileSync(join(cwd, 'a.ts'), 'base');
+      const { data: opened } = await readContent(app, 'a.ts');
+      writeFileSync(join(cwd, 'a.ts'), 'edited by the agent');
+
+      const { status, data } = await saveContent(app, 'a.ts', {
+        content: 'edited in the browser',
+        etag: opened['etag'] as string
+      });
+
+      expect(status).toBe(409);
+      expect(data['error']).toBe('FILE_CHANGED');
+      const current = data['current'] as EditableFile;
+      expect(current.content).toBe('edited by the agent');
+      expect(await Bun.file(join(cwd, 'a.ts')).text()).toBe('edited by the agent');
+    });
+
+    test('returns 409 when an existing file is saved without an etag', async () => {
+      writeFileSync(join(cwd, 'a.ts'), 'existing');
+
+      const { status } = await saveContent(app, 'a.ts', { content: 'blind write' });
+
+      expect(status).toBe(409);
+      expect(await Bun.file(join(cwd, 'a.ts')).text()).toBe('existing');
+    });
+
+    test('creates a new file when no etag is given', async () => {
+      const { status } = await saveContent(app, 'new.txt', { content: 'hello' });
+
+      expect(status).toBe(200);
+      expect(await Bun.file(join(cwd, 'new.txt')).text()).toBe('hello');
+    });
+
+    test('returns 409 without current content when the file was deleted', async () => {
+      const { status, data } = await saveContent(app, 'gone.txt', {
+        content: 'hello',
+        etag: 'deadbeef'
+      });
+
+      expect(status).toBe(409);
+      expect(data['current']).toBeUndefined();
+    });
+
+    test('returns 403 for paths outside the session cwd', async () => {
+      const { status } = await saveContent(app, '../escape.txt', { content: 'x' });
+      expect(status).toBe(403);
+    });
+  });
+});
+
+describe('POST /api/files/upload', () => {
+  let cwd: string;
+
+  beforeEach(() => {
+    cwd = mkdtempSync(join(tmpdir(), 'bunterm-files-test-'));
+  });
+
+  afterEach(() => {
+    rmSync(cwd, { recursive: true, force: true });
+  });
+
+  async function upload(app: ReturnType<typeof createFilesApp>, path: string, body: BodyInit) {
+    const query = new URLSearchParams({ session: 'test-session', path });
+    const res = await app.handle(
+      new Request(`http://localhost/api/files/upload?${query.toString()}`, {
+        method: 'POST',
+        body
+      })
+    );
+    return { status: res.status, data: (await res.json()) as Record<string, unknown> };
+  }
+
+  test('writes a raw body to the given path', async () => {
+    const { status } = await upload(createFilesApp(cwd), 'raw.txt', 'raw content');
+
+    expect(status).toBe(200);
+    expect(await Bun.file(join(cwd, 'raw.txt')).text()).toBe('raw content');
+  });
+
+  test('writes a multipart file into the given directory under its own name', async () => {
+    mkdirSync(join(cwd, 'docs'));
+    const form = new FormData();
+    form.append('file', new File(['hello'], 'note.md'));
+
+    const { status, data } = await upload(createFilesApp(cwd), 'docs', form);
+
+    expect(status).toBe(200);
+    expect(data['path']).toBe('docs/note.md');
+    expect(await Bun.file(join(cwd, 'docs/note.md')).text()).toBe('hello');
+  });
+
+  test('enforces file_transfer.max_file_size', async () => {
+    const app = createFilesApp(cwd, { max_file_size: 4 });
+
+    const { status } = await upload(app, 'big.txt', 'more than four bytes');
+
+    expect(status).toBe(413);
+    expect(existsSync(join(cwd, 'big.txt'))).toBe(false);
+  });
+
+  test('enforces file_transfer.allowed_extensions', async () => {
+    const app = createFilesApp(cwd, { allowed_extensions: ['.txt'] });
+
+    expect((await upload(app, 'ok.txt', 'x')).status).toBe(200);
+    const { status, data } = await upload(app, 'script.sh', 'x');
+    expect(status).toBe(403);
+    expect(data['error']).toBe('EXTENSION_NOT_ALLOWED');
+  });
+
+  test('is refused when file transfer is disabled', async () => {
+    const { status, data } = await upload(createFilesApp(cwd, { enabled: false }), 'a.txt', 'x');
+
+    expect(status).toBe(403);
+    expect(data['error']).toBe('FILE_TRANSFER_DISABLED');
+  });
+});
+
+describe('file manager operations', () => {
+  let cwd: string;
+  let app: ReturnType<typeof createFilesApp>;
+
+  beforeEach(() => {
+    cwd = mkdtempSync(join(tmpdir(), 'bunterm-files-test-'));
+    app = createFilesApp(cwd);
+  });
+
+  afterEach(() => {
+    rmSync(cwd, { recursive: true, force: true });
+    rmSync(`${cwd}-trash`, { recursive: true, force: true });
+  });
+
+  describe('GET /api/files/stat', () => {
+    test('describes a file', async () => {
+      writeFileSync(join(cwd, 'a.txt'), 'abc');
+
+      const { status, data } = await call(app, 'GET', 'files/stat', { path: 'a.txt' });
+
+      expect(status).toBe(200);
+      expect(data).toMatchObject({ name: 'a.txt', isFile: true, isDirectory: false, size: 3 });
+      expect(data['mode']).toMatch(/^[0-7]{3}$/);
+    });
+
+    test('returns 404 for a missing path', async () => {
+      expect((await call(app, 'GET', 'files/stat', { path: 'nope' })).status).toBe(404);
+    });
+  });
+
+  describe('POST /api/files/mkdir', () => {
+    test('creates nested directories', async () => {
+      const { status } = await call(app, 'POST', 'files/mkdir', { path: 'a/b/c' });
+
+      expect(status).toBe(200);
+      expect(existsSync(join(cwd, 'a/b/c'))).toBe(true);
+    });
+
+    test('returns 409 when the path exists', async () => {
+      mkdirSync(join(cwd, 'a'));
+      expect((await call(app, 'POST', 'files/mkdir', { path: 'a' })).status).toBe(409);
+    });
+
+    test('returns 403 outside the session cwd', async () => {
+      expect((await call(app, 'POST', 'files/mkdir', { path: '../outside' })).status).toBe(403);
+    });
+  });
+
+  describe('POST /api/files/rename', () => {
+    test('renames within the same directory', async () => {
+      mkdirSync(join(cwd, 'src'));
+      writeFileSync(join(cwd, 'src/old.ts'), 'x');
+
+      const { status, data } = await call(
+        app,
+        'POST',
+        'files/rename',
+        { path: 'src/old.ts' },
+        { name: 'new.ts' }
+      );
+
+      expect(status).toBe(200);
+      expect(data['path']).toBe('src/new.ts');
+      expect(existsSync(join(cwd, 'src/new.ts'))).toBe(true);
+      expect(existsSync(join(cwd, 'src/old.ts'))).toBe(false);
+    });
+
+    test('rejects names containing a path', async () => {
+      writeFileSync(join(cwd, 'a.txt'), 'x');
+
+      const { status } = await call(
+        app,
+        'POST',
+        'files/rename',
+        { path: 'a.txt' },
+        { name: '../a.txt' }
+      );
+
+      expect(status).toBe(400);
+    });
+
+    test('does not overwrite an existing file', async () => {
+      writeFileSync(join(cwd, 'a.txt'), 'a');
+      writeFileSync(join(cwd, 'b.txt'), 'b');
+
+      const { status } = await call(
+        app,
+        'POST',
+        'files/rename',
+        { path: 'a.txt' },
+        { name: 'b.txt' }
+      );
+
+      expect(status).toBe(409);
+      expect(await Bun.file(join(cwd, 'b.txt')).text()).toBe('b');
+    });
+
+    test('applies allowed_extensions to the new name', async () => {
+      const restricted = createFilesApp(cwd, { allowed_extensions: ['.txt'] });
+      writeFileSync(join(cwd, 'a.txt'), 'x');
+
+      const { status } = await call(
+        restricted,
+        'POST',
+        'files/rename',
+        { path: 'a.txt' },
+        { name: 'a.sh' }
+      );
+
+      expect(status).toBe(403);
+    });
+  });
+
+  describe('POST /api/files/move and /api/files/copy', () => {
+    test('moves a file into a directory', async () => {
+      mkdirSync(join(cwd, 'dest'));
+      writeFileSync(join(cwd, 'a.txt'), 'x');
+
+      const { status } = await call(
+        app,
+        'POST',
+        'files/move',
+        {},
+        { from: 'a.txt', to: 'dest/a.txt' }
+      );
+
+      expect(status).toBe(200);
+      expect(existsSync(join(cwd, 'dest/a.txt'))).toBe(true);
+      expect(existsSync(join(cwd, 'a.txt'))).toBe(false);
+    });
+
+    test('refuses to move a directory into itself', async () => {
+      mkdirSync(join(cwd, 'dir'));
+
+      const { status } = await call(app, 'POST', 'files/move', {}, { from: 'dir', to: 'dir/sub' });
+
+      expect(status).toBe(400);
+    });
+
+    test('refuses a destination outside the session cwd', async () => {
+      writeFileSync(join(cwd, 'a.txt'), 'x');
+
+      const { status } = await call(
+        app,
+        'POST',
+        'files/move',
+        {},
+        { from: 'a.txt', to: '../escaped.txt' }
+      );
+
+      expect(status).toBe(403);
+      expect(existsSync(join(cwd, 'a.txt'))).toBe(true);
+    });
+
+    test('copies a directory recursively', async () => {
+      mkdirSync(join(cwd, 'src/nested'), { recursive: true });
+      writeFileSync(join(cwd, 'src/nested/file.txt'), 'deep');
+
+      const { status } = await call(app, 'POST', 'files/copy', {}, { from: 'src', to: 'backup' });
+
+      expect(status).toBe(200);
+      expect(await Bun.file(join(cwd, 'backup/nested/file.txt')).text()).toBe('deep');
+      expect(existsSync(join(cwd, 'src/nested/file.txt'))).toBe(true);
+    });
+  });
+
+  describe('DELETE /api/files', () => {
+    test('moves the entry to the trash and records its origin', async () => {
+      writeFileSync(join(cwd, 'doomed.txt'), 'bye');
+
+      const { status, data } = await call(app, 'DELETE', 'files', { path: 'doomed.txt' });
+
+      expect(status).toBe(200);
+      expect(existsSync(join(cwd, 'doomed.txt'))).toBe(false);
+      const trashPath = data['trashPath'] as string;
+      expect(await Bun.file(trashPath).text()).toBe('bye');
+      const slot = join(trashPath, '..');
+      expect(readdirSync(slot)).toContain(TRASH_ORIGIN_FILE);
+      expect(await Bun.file(join(slot, TRASH_ORIGIN_FILE)).text()).toBe(
+        `${join(cwd, 'doomed.txt')}\n`
+      );
+    });
+
+    test('refuses to delete the session directory', async () => {
+      expect((await call(app, 'DELETE', 'files', { path: '.' })).status).toBe(400);
+    });
+
+    test('is refused when file transfer is disabled', async () => {
+      writeFileSync(join(cwd, 'a.txt'), 'x');
+      const disabled = createFilesApp(cwd, { enabled: false });
+
+      expect((await call(disabled, 'DELETE', 'files', { path: 'a.txt' })).status).toBe(403);
+      expect(existsSync(join(cwd, 'a.txt'))).toBe(true);
+    });
+  });
+
+  describe('GET /api/files/archive', () => {
+    beforeEach(() => {
+      mkdirSync(join(cwd, 'dist', 'assets'), { recursive: true });
+      mkdirSync(join(cwd, 'logs'));
+      writeFileSync(join(cwd, '.gitignore'), '*.map\n');
+      writeFileSync(join(cwd, 'dist', 'app.js'), 'app');
+      writeFileSync(join(cwd, 'dist', 'app.js.map'), 'map');
+      writeFileSync(join(cwd, 'dist', 'assets', 'logo.svg'), '<svg/>');
+      writeFileSync(join(cwd, 'logs', 'server.log'), 'log');
+    });
+
+    test('streams a directory as tar.gz without ignored files', async () => {
+      const res = await archive(app, ['dist'], { format: 'tar.gz' });
+
+      expect(res.status).toBe(200);
+      expect(res.headers.get('content-type')).toBe('application/gzip');
+      expect(res.headers.get('content-disposition')).toContain("filename*=UTF-8''dist.tar.gz");
+      const tar = new TextDecoder().decode(gunzipSync(new Uint8Array(await res.arrayBuffer())));
+      expect(tar).toContain('dist/assets/logo.svg');
+      expect(tar).not.toContain('app.js.map');
+    });
+
+    test('names a multi-selection after the common directory', async () => {
+      const res = await archive(app, ['dist/app.js', 'logs']);
+
+      expect(res.status).toBe(200);
+      expect(res.headers.get('content-type')).toBe('application/zip');
+      const name = cwd.split('/').pop() as string;
+      expect(res.headers.get('content-disposition')).toContain(`${name}.zip`);
+      const zip = new TextDecoder().decode(await res.arrayBuffer());
+      expect(zip).toContain('dist/app.js');
+      expect(zip).toContain('logs/server.log');
+    });
+
+    test('check=true reports the archive without streaming it', async () => {
+      const res = await archive(app, ['dist'], { check: 'true' });
+
+      expect(await res.json()).toEqual({ name: 'dist.zip', entries: 4, size: 9 });
+    });
+
+    test('returns 413 over file_transfer.max_archive_size', async () => {
+      const limited = createFilesApp(cwd, { max_archive_size: 1024 });
+      writeFileSync(join(cwd, 'dist', 'big.bin'), new Uint8Array(2048));
+
+      const res = await archive(limited, ['dist']);
+
+      expect(res.status).toBe(413);
+      expect(((await res.json()) as { error: string }).error).toBe('PAYLOAD_TOO_LARGE');
+    });
+
+    test('refuses paths outside the session cwd', async () => {
+      expect((await archive(app, ['dist', '../'])).status).toBe(403);
+    });
+
+    test('returns 404 for a missing path', async () => {
+      expect((await archive(app, ['nope'])).status).toBe(404);
+    });
+  });
+});
@@ -1,26 +1,210 @@
 /**
  * Files API Routes (Elysia)
  *
- * Handles file operations: list, upload, clipboard images.
+ * Handles file operations: list, upload, clipboard images, the
+ * read/write pair behind the in-browser editor, and the file manager
+ * operations (stat, mkdir, rename, move, copy, delete to trash), and
+ * zip/tar.gz archive downloads of directories and multi-selections.
+ * Transfers and mutations are gated by config.file_transfer.
  * Replaces the old files-routes.ts with Elysia's TypeBox validation.
  *
  * NOTE: File download (binary response) is handled separately in Phase 2-3.
  */
 
-import { randomBytes } from 'node:crypto';
+import { createHash, randomBytes } from 'node:crypto';
 // biome-ignore lint: existsSync used for quick path validation in handlers
 import { existsSync } from 'node:fs';
-import { mkdir, readdir, stat, writeFile } from 'node:fs/promises';
+import { mkdir, readdir, readFile, stat, writeFile } from 'node:fs/promises';
 import { tmpdir } from 'node:os';
-import { join } from 'node:path';
+import { basename, dirname, join, resolve } from 'node:path';
 import { Elysia, t } from 'elysia';
+import type { Config } from '@/core/config/types.js';
+import type { NativeSessionManager } from '@/core/server/session-manager.js';
+import {
+  type ArchiveFormat,
+  ArchiveTooLargeError,
+  collectArchiveEntries,
+  createArchiveStream
+} from '@/features/file-transfer/server/archive.js';
+import {
+  copyPath,
+  getTrashDir,
+  isSameOrInside,
+  makeDirectory,
+  movePath,
+  moveToTrash,
+  statPath
+} from '@/features/file-transfer/server/file-operations.js';
+import { IgnoreMatcher } from '@/features/file-transfer/server/ignore-rules.js';
 import { createLogger } from '@/utils/logger.js';
 import { coreContext } from './context.js';
 import { ErrorResponseSchema } from './errors.js';
-import { validateFilePath } from './route-helpers.js';
+import { checkTransfer, fsError, type RouteError, validateFilePath } from './route-helpers.js';
 
 const log = createLogger('files-api');
 
+/** Largest file the editor will open (the editor keeps it all in a textarea) */
+const MAX_EDITABLE_SIZE = 2 * 1024 * 1024; // 2MB
+
+/** Bytes sniffed for NUL characters to tell binary files apart */
+const BINARY_SNIFF_BYTES = 8000;
+
+// === Guards ===
+
+type PairResult =
+  | { valid: true; fromPath: string; toPath: string; isDirectory: boolean }
+  | ({ valid: false } & RouteError);
+
+/**
+ * Validate a source/destination pair for move and copy: both inside the
+ * session cwd, the source exists and is not the cwd itself, the
+ * destination is free and not inside the source
+ */
+async function validatePair(
+  sessionManager: NativeSessionManager,
+  config: Config,
+  sessionName: string,
+  from: string,
+  to: string
+): Promise<PairResult> {
+  const source = validateFilePath(sessionManager, sessionName, from, { checkExistence: true });
+  if (!source.valid) {
+    return source;
+  }
+  const target = validateFilePath(sessionManager, sessionName, to);
+  if (!target.valid) {
+    return target;
+  }
+
+  if (source.targetPath === resolve(source.session.cwd)) {
+    return {
+      valid: false,
+      status: 400,
+      error: 'VALIDATION_FAILED',
+      message: 'The session directory itself cannot be moved or copied'
+    };
+  }
+  if (isSameOrInside(source.targetPath, target.targetPath)) {
+    return {
+      valid: false,
+      status: 400,
+      error: 'VALIDATION_FAILED',
+      message: 'Destination is inside the source'
+    };
+  }
+  if (existsSync(target.targetPath)) {
+    return {
+      valid: false,
+      status: 409,
+      error: 'ALREADY_EXISTS',
+      message: `Destination already exists: ${to}`
+    };
+  }
+
+  const { isDirectory } = await statPath(source.targetPath);
+  const denied = checkTransfer(config, isDirectory ? undefined : target.targetPath);
+  if (denied) {
+    return { valid: false, ...denied };
+  }
+  return { valid: true, fromPath: source.targetPath, toPath: target.targetPath, isDirectory };
+}
+
+type ArchiveTargetsResult =
+  | { valid: true; cwd: string; targets: string[]; base: string; name: string }
+  | ({ valid: false } & RouteError);
+
+/**
+ * Validate the paths picked for an archive. Entry names are relative to
+ * the closest directory containing all of them, so "dist" is archived as
+ * dist/... and a multi-selection keeps its relative layout.
+ */
+function validateArchiveTargets(
+  sessionManager: NativeSessionManager,
+  sessionName: string,
+  paths: string[]
+): ArchiveTargetsResult {
+  const targets: string[] = [];
+  let cwd = '';
+  for (const path of paths) {
+    const result = validateFilePath(sessionManager, sessionName, path, { checkExistence: true });
+    if (!result.valid) {
+      return result;
+    }
+    cwd = resolve(result.session.cwd);
+    targets.push(result.targetPath);
+  }
+
+  let base = dirname(targets[0] as string);
+  while (!targets.every((target) => isSameOrInside(base, dirname(target)))) {
+    base = dirname(base);
+  }
+  const name =
+    (targets.length === 1 ? basename(targets[0] as string) : basename(base)) || 'archive';
+  return { valid: true, cwd, targets, base, name };
+}
+
+/**
+ * Collect the archive entries under the configured ignore rules and size
+ * ceiling
+ */
+async function collectSelection(
+  config: Config,
+  selection: { cwd: string; targets: string[]; base: string },
+  format: ArchiveFormat
+): Promise<Awaited<ReturnType<typeof collectArchiveEntries>> | RouteError> {
+  const { file_transfer: fileTransfer } = config;
+  try {
+    return await collectArchiveEntries(selection.targets, {
+      base: selection.base,
+      matcher: new IgnoreMatcher(selection.cwd, {
+        gitignore: fileTransfer.archive_gitignore,
+        exclude: fileTransfer.archive_exclude
+      }),
+      maxSize: fileTransfer.max_archive_size,
+      format
+    });
+  } catch (err) {
+    if (err instanceof ArchiveTooLargeError) {
+      return { status: 413, error: 'PAYLOAD_TOO_LARGE', message: err.message };
+    }
+    return fsError(err);
+  }
+}
+
+// === Editor helpers ===
+
+interface EditableFile {
+  content: string;
+  etag: string;
+  mtime: string;
+  size: number;
+}
+
+/** Content hash used as the editor's concurrency token */
+function computeEtag(data: Buffer): string {
+  return createHash('sha256').update(data).digest('hex').slice(0, 32);
+}
+
+function isBinary(data: Buffer): boolean {
+  return data.subarray(0, BINARY_SNIFF_BYTES).includes(0);
+}
+
+/**
+ * Read a file for editing, or null if it does not exist
+ */
+async function readEditableFile(targetPath: string): Promise<EditableFile | null> {
+  if (!existsSync(targetPath)) {
+    return null;
+  }
+  const [data, info] = await Promise.all([readFile(targetPath), stat(targetPath)]);
+  return {
+    content: data.toString('utf-8'),
+    etag: computeEtag(data),
+    mtime: info.mtime.toISOString(),
+    size: info.size
+  };
+}
+
 // === Response Schemas ===
 
 const FileEntrySchema = t.Object({
@@ -39,6 +223,56 @@ const UploadResponseSchema = t.Object({
   path: t.String()
 });
 
+const EditableFileSchema = t.Object({
+  path: t.String(),
+  content: t.String(),
+  etag: t.String(),
+  mtime: t.String(),
+  size: t.Number()
+});
+
+const SaveResponseSchema = t.Object({
+  path: t.String(),
+  etag: t.String(),
+  mtime: t.String(),
+  size: t.Number()
+});
+
+const ConflictResponseSchema = t.Object({
+  error: t.String(),
+  message: t.String(),
+  /** Current file on disk; absent when it was deleted */
+  current: t.Optional(EditableFileSchema)
+});
+
+const FileOperationResponseSchema = t.Object({
+  success: t.Boolean(),
+  path: t.String()
+});
+
+const TrashResponseSchema = t.Object({
+  success: t.Boolean(),
+  path: t.String(),
+  /** Where the entry now lives inside the trash */
+  trashPath: t.String()
+});
+
+const StatResponseSchema = t.Object({
+  path: t.String(),
+  name: t.String(),
+  isDirectory: t.Boolean(),
+  isFile: t.Boolean(),
+  isSymlink: t.Boolean(),
+  size: t.Number(),
+  modifiedAt: t.String(),
+  mode: t.String()
+});
+
+const PairBodySchema = t.Object({
+  from: t.String({ minLength: 1 }),
+  to: t.String({ minLength: 1 })
+});
+
 const ClipboardResponseSchema = t.Object({
   success: t.Boolean(),
   paths: t.Array(t.String())
@@ -95,38 +329,81 @@ export const filesPlugin = new Elysia({ prefix: '/api' })
   )
 
   // POST /api/files/upload?session=xxx&path=yyy
+  // Raw body: path is the file to write. multipart/form-data: path is the
+  // target directory and the `file` field keeps its own name.
   .post(
     '/files/upload',
-    async ({ sessionManager, query, request, error }) => {
+    async ({ sessionManager, config, query, request, set }) => {
       const sessionName = query.session;
-      const filePath = query.path;
+      const maxSize = config.file_transfer.max_file_size;
+      const tooLarge = {
+        error: 'PAYLOAD_TOO_LARGE',
+        message: `File exceeds the ${Math.round(maxSize / 1024 / 1024)}MB limit (file_transfer.max_file_size)`
+      };
 
-      const MAX_UPLOAD_SIZE = 100 * 1024 * 1024; // 100MB
       const contentLength = Number(request.headers.get('content-length') || '0');
-      if (contentLength > MAX_UPLOAD_SIZE) {
-        return error(413, { error: 'PAYLOAD_TOO_LARGE', message: 'File exceeds 100MB limit' });
+      if (contentLength > maxSize) {
+        set.status = 413;
+        return tooLarge;
+      }
+
+      let filePath = query.path ?? '';
+      let content: Uint8Array;
+      if (request.headers.get('content-type')?.startsWith('multipart/form-data')) {
+        const file = (await request.formData()).get('file');
+        if (!(file instanceof Blob)) {
+          set.status = 400;
+          return { error: 'VALIDATION_FAILED', message: "Missing 'file' field" };
+        }
+        const name = basename(file instanceof File ? file.name : '') || 'upload';
+        filePath = filePath && filePath !== '.' ? join(filePath, name) : name;
+        content = new Uint8Array(await file.arrayBuffer());
+      } else {
+        content = new Uint8Array(await request.arrayBuffer());
+      }
+      if (!filePath) {
+        set.status = 400;
+        return { error: 'VALIDATION_FAILED', message: 'Missing file path' };
+      }
+      if (content.byteLength > maxSize) {
+        set.status = 413;
+        return tooLarge;
+      }
+
+      const denied = checkTransfer(config, filePath);
+      if (denied) {
+        set.status = denied.status;
+        return { error: denied.error, message: denied.message };
       }
 
       const result = validateFilePath(sessionManager, sessionName, filePath);
       if (!result.valid) {
-        return error(result.status as 403, { error: result.error, message: result.message });
+        set.status = result.status;
+        return { error: result.error, message: result.message };
       }
-      const { targetPath } = result;
 
-      const content = await request.arrayBuffer();
-      await writeFile(targetPath, Buffer.from(content));
+      try {
+        await writeFile(result.targetPath, content);
+      } catch (err) {
+        const failure = fsError(err);
+        set.status = failure.status;
+        return { error: failure.error, message: failure.message };
+      }
+      log.info(`Uploaded ${result.targetPath} (${content.byteLength} bytes)`);
 
       return { success: true, path: filePath };
     },
     {
       query: t.Object({
         session: t.String({ minLength: 1 }),
-        path: t.String({ minLength: 1 })
+        path: t.Optional(t.String())
       }),
       response: {
         200: UploadResponseSchema,
+        400: ErrorResponseSchema,
         403: ErrorResponseSchema,
         404: ErrorResponseSchema,
+        409: ErrorResponseSchema,
         413: ErrorResponseSchema
       }
     }
@@ -210,10 +487,16 @@ export const filesPlugin = new Elysia({ prefix: '/api' })
   // GET /api/files/download?session=xxx&path=yyy - Binary file download
   .get(
     '/files/download',
-    async ({ sessionManager, query, set }) => {
+    async ({ sessionManager, config, query, set }) => {
       const sessionName = query.session;
       const filePath = query.path;
 
+      const denied = checkTransfer(config);
+      if (denied) {
+        set.status = denied.status;
+        return { error: denied.error, message: denied.message };
+      }
+
       const result = validateFilePath(sessionManager, sessionName, filePath, {
         checkExistence: true
       });
@@ -223,6 +506,14 @@ export const filesPlugin = new Elysia({ prefix: '/api' })
       }
       const { targetPath } = result;
 
+      if (Bun.file(targetPath).size > config.file_transfer.max_file_size) {
+        set.status = 413;
+        return {
+          error: 'PAYLOAD_TOO_LARGE',
+          message: 'File exceeds file_transfer.max_file_size'
+        };
+      }
+
       const content = await Bun.file(targetPath).arrayBuffer();
       const filename = filePath.split('/').pop() || 'download';
 
@@ -239,8 +530,433 @@ export const filesPlugin = new Elysia({ prefix: '/api' })
         path: t.String({ minLength: 1 })
       }),
       response: {
+        403: ErrorResponseSchema,
+        404: ErrorResponseSchema,
+        413: ErrorResponseSchema
+      }
+    }
+  )
+
+  // GET /api/files/archive?session=xxx&path=a&path=b&format=zip|tar.gz
+  // Streams a directory or multi-selection as an archive; .gitignore and
+  // file_transfer.archive_exclude apply to what is inside the selection.
+  // check=true only validates and reports the size, so the browser can show
+  // errors before handing the real download to a plain link.
+  .get(
+    '/files/archive',
+    async ({ sessionManager, config, query, set }) => {
+      const denied = checkTransfer(config);
+      if (denied) {
+        set.status = denied.status;
+        return { error: denied.error, message: denied.message };
+      }
+
+      const result = validateArchiveTargets(sessionManager, query.session, query.path);
+      if (!result.valid) {
+        set.status = result.status;
+        return { error: result.error, message: result.message };
+      }
+
+      const format = query.format ?? 'zip';
+      const collected = await collectSelection(config, result, format);
+      if ('status' in collected) {
+        set.status = collected.status;
+        return { error: collected.error, message: collected.message };
+      }
+      const filename = `${result.name}.${format}`;
+      if (query.check) {
+        return { name: filename, entries: collected.entries.length, size: collected.totalSize };
+      }
+
+      log.info(
+        `Archiving ${collected.entries.length} entries (${collected.totalSize} bytes) as ${format}`
+      );
+      return new Response(createArchiveStream(collected.entries, format), {
+        headers: {
+          'Content-Type': format === 'zip' ? 'application/zip' : 'application/gzip',
+          'Content-Disposition': `attachment; filename*=UTF-8''${encodeURIComponent(filename)}`
+        }
+      });
+    },
+    {
+      query: t.Object({
+        session: t.String({ minLength: 1 }),
+        path: t.Array(t.String({ minLength: 1 }), { minItems: 1 }),
+        format: t.Optional(t.Union([t.Literal('zip'), t.Literal('tar.gz')])),
+        check: t.Optional(t.Boolean())
+      }),
+      response: {
+        400: ErrorResponseSchema,
+        403: ErrorResponseSchema,
+        404: ErrorResponseSchema,
+        413: ErrorResponseSchema
+      }
+    }
+  )
+
+  // GET /api/files/content?session=xxx&path=yyy - Text file for the editor
+  .get(
+    '/files/content',
+    async ({ sessionManager, config, query, set }) => {
+      const denied = checkTransfer(config);
+      if (denied) {
+        set.status = denied.status;
+        return { error: denied.error, message: denied.message };
+      }
+
+      const result = validateFilePath(sessionManager, query.session, query.path, {
+        checkExistence: true
+      });
+      if (!result.valid) {
+        set.status = result.status;
+        return { error: result.error, message: result.message };
+      }
+      const { targetPath } = result;
+
+      const info = await stat(targetPath);
+      if (!info.isFile()) {
+        set.status = 400;
+        return { error: 'VALIDATION_FAILED', message: 'Path is not a file' };
+      }
+      if (info.size > MAX_EDITABLE_SIZE) {
+        set.status = 413;
+        return {
+          error: 'PAYLOAD_TOO_LARGE',
+          message: `File exceeds the ${MAX_EDITABLE_SIZE / 1024 / 1024}MB editor limit`
+        };
+      }
+
+      const data = await readFile(targetPath);
+      if (isBinary(data)) {
+        set.status = 415;
+        return { error: 'BINARY_FILE', message: 'Binary files cannot be edited' };
+      }
+
+      return {
+        path: query.path,
+        content: data.toString('utf-8'),
+        etag: computeEtag(data),
+        mtime: info.mtime.toISOString(),
+        size: info.size
+      };
+    },
+    {
+      query: t.Object({
+        session: t.String({ minLength: 1 }),
+        path: t.String({ minLength: 1 })
+      }),
+      response: {
+        200: EditableFileSchema,
+        400: ErrorResponseSchema,
+        403: ErrorResponseSchema,
+        404: ErrorResponseSchema,
+        413: ErrorResponseSchema,
+        415: ErrorResponseSchema
+      }
+    }
+  )
+
+  // PUT /api/files/content?session=xxx&path=yyy - Save from the editor
+  // The etag from the last read must still match the file on disk; otherwise
+  // the save is refused with the current content so the client can merge.
+  .put(
+    '/files/content',
+    async ({ sessionManager, config, query, body, set }) => {
+      const result = validateFilePath(sessionManager, query.session, query.path);
+      if (!result.valid) {
+        set.status = result.status;
+        return { error: result.error, message: result.message };
+      }
+      const { targetPath } = result;
+
+      // A new file needs an allowed extension, like an upload
+      const denied = checkTransfer(config, existsSync(targetPath) ? undefined : targetPath);
+      if (denied) {
+        set.status = denied.status;
+        return { error: denied.error, message: denied.message };
+      }
+
+      const data = Buffer.from(body.content, 'utf-8');
+      if (data.length > MAX_EDITABLE_SIZE) {
+        set.status = 413;
+        return {
+          error: 'PAYLOAD_TOO_LARGE',
+          message: `File exceeds the ${MAX_EDITABLE_SIZE / 1024 / 1024}MB editor limit`
+        };
+      }
+
+      const current = await readEditableFile(targetPath);
+      if (current ? current.etag !== body.etag : body.etag !== undefined) {
+        set.status = 409;
+        return {
+          error: 'FILE_CHANGED',
+          message: current ? 'File was modified since it was opened' : 'File was deleted',
+          current: current ? { path: query.path, ...current } : undefined
+        };
+      }
+
+      await writeFile(targetPath, data);
+      const info = await stat(targetPath);
+      log.info(`Saved ${targetPath} from editor (${info.size} bytes)`);
+
+      return {
+        path: query.path,
+        etag: computeEtag(data),
+        mtime: info.mtime.toISOString(),
+        size: info.size
+      };
+    },
+    {
+      query: t.Object({
+        session: t.String({ minLength: 1 }),
+        path: t.String({ minLength: 1 })
+      }),
+      body: t.Object({
+        content: t.String(),
+        /** Etag from the last read; omit only when creating a new file */
+        etag: t.Optional(t.String())
+      }),
+      response: {
+        200: SaveResponseSchema,
+        403: ErrorResponseSchema,
+        404: ErrorResponseSchema,
+        409: ConflictResponseSchema,
+        413: ErrorResponseSchema
+      }
+    }
+  )
+
+  // === File manager operations ===
+
+  // GET /api/files/stat?session=xxx&path=yyy
+  .get(
+    '/files/stat',
+    async ({ sessionManager, query, set }) => {
+      const result = validateFilePath(sessionManager, query.session, query.path, {
+        checkExistence: true
+      });
+      if (!result.valid) {
+        set.status = result.status;
+        return { error: result.error, message: result.message };
+      }
+      return { path: query.path, ...(await statPath(result.targetPath)) };
+    },
+    {
+      query: t.Object({
+        session: t.String({ minLength: 1 }),
+        path: t.String({ minLength: 1 })
+      }),
+      response: {
+        200: StatResponseSchema,
         403: ErrorResponseSchema,
         404: ErrorResponseSchema
       }
     }
+  )
+
+  // POST /api/files/mkdir?session=xxx&path=yyy - Creates missing parents too
+  .post(
+    '/files/mkdir',
+    async ({ sessionManager, config, query, set }) => {
+      const denied = checkTransfer(config);
+      if (denied) {
+        set.status = denied.status;
+        return { error: denied.error, message: denied.message };
+      }
+      const result = validateFilePath(sessionManager, query.session, query.path);
+      if (!result.valid) {
+        set.status = result.status;
+        return { error: result.error, message: result.message };
+      }
+      if (existsSync(result.targetPath)) {
+        set.status = 409;
+        return { error: 'ALREADY_EXISTS', message: `Already exists: ${query.path}` };
+      }
+
+      try {
+        await makeDirectory(result.targetPath);
+      } catch (err) {
+        const failure = fsError(err);
+        set.status = failure.status;
+        return { error: failure.error, message: failure.message };
+      }
+      log.info(`Created directory ${result.targetPath}`);
+      return { success: true, path: query.path };
+    },
+    {
+      query: t.Object({
+        session: t.String({ minLength: 1 }),
+        path: t.String({ minLength: 1 })
+      }),
+      response: {
+        200: FileOperationResponseSchema,
+        400: ErrorResponseSchema,
+        403: ErrorResponseSchema,
+        404: ErrorResponseSchema,
+        409: ErrorResponseSchema
+      }
+    }
+  )
+
+  // POST /api/files/rename?session=xxx&path=yyy - New name in the same directory
+  .post(
+    '/files/rename',
+    async ({ sessionManager, config, query, body, set }) => {
+      if (body.name !== basename(body.name) || body.name === '.' || body.name === '..') {
+        set.status = 400;
+        return { error: 'VALIDATION_FAILED', message: 'Name must not contain a path' };
+      }
+      const to = join(dirname(query.path), body.name);
+      const pair = await validatePair(sessionManager, config, query.session, query.path, to);
+      if (!pair.valid) {
+        set.status = pair.status;
+        return { error: pair.error, message: pair.message };
+      }
+
+      try {
+        await movePath(pair.fromPath, pair.toPath);
+      } catch (err) {
+        const failure = fsError(err);
+        set.status = failure.status;
+        return { error: failure.error, message: failure.message };
+      }
+      log.info(`Renamed ${pair.fromPath} -> ${pair.toPath}`);
+      return { success: true, path: to };
+    },
+    {
+      query: t.Object({
+        session: t.String({ minLength: 1 }),
+        path: t.String({ minLength: 1 })
+      }),
+      body: t.Object({
+        name: t.String({ minLength: 1 })
+      }),
+      response: {
+        200: FileOperationResponseSchema,
+        400: ErrorResponseSchema,
+        403: ErrorResponseSchema,
+        404: ErrorResponseSchema,
+        409: ErrorResponseSchema
+      }
+    }
+  )
+
+  // POST /api/files/move?session=xxx - { from, to } (to is the full new path)
+  .post(
+    '/files/move',
+    async ({ sessionManager, config, query, body, set }) => {
+      const pair = await validatePair(sessionManager, config, query.session, body.from, body.to);
+      if (!pair.valid) {
+        set.status = pair.status;
+        return { error: pair.error, message: pair.message };
+      }
+
+      try {
+        await movePath(pair.fromPath, pair.toPath);
+      } catch (err) {
+        const failure = fsError(err);
+        set.status = failure.status;
+        return { error: failure.error, message: failure.message };
+      }
+      log.info(`Moved ${pair.fromPath} -> ${pair.toPath}`);
+      return { success: true, path: body.to };
+    },
+    {
+      query: t.Object({
+        session: t.String({ minLength: 1 })
+      }),
+      body: PairBodySchema,
+      response: {
+        200: FileOperationResponseSchema,
+        400: ErrorResponseSchema,
+        403: ErrorResponseSchema,
+        404: ErrorResponseSchema,
+        409: ErrorResponseSchema
+      }
+    }
+  )
+
+  // POST /api/files/copy?session=xxx - { from, to }; directories are copied recursively
+  .post(
+    '/files/copy',
+    async ({ sessionManager, config, query, body, set }) => {
+      const pair = await validatePair(sessionManager, config, query.session, body.from, body.to);
+      if (!pair.valid) {
+        set.status = pair.status;
+        return { error: pair.error, message: pair.message };
+      }
+
+      try {
+        await copyPath(pair.fromPath, pair.toPath);
+      } catch (err) {
+        const failure = fsError(err);
+        set.status = failure.status;
+        return { error: failure.error, message: failure.message };
+      }
+      log.info(`Copied ${pair.fromPath} -> ${pair.toPath}`);
+      return { success: true, path: body.to };
+    },
+    {
+      query: t.Object({
+        session: t.String({ minLength: 1 })
+      }),
+      body: PairBodySchema,
+      response: {
+        200: FileOperationResponseSchema,
+        400: ErrorResponseSchema,
+        403: ErrorResponseSchema,
+        404: ErrorResponseSchema,
+        409: ErrorResponseSchema
+      }
+    }
+  )
+
+  // DELETE /api/files?session=xxx&path=yyy - Moves the entry to the trash
+  .delete(
+    '/files',
+    async ({ sessionManager, config, query, set }) => {
+      const denied = checkTransfer(config);
+      if (denied) {
+        set.status = denied.status;
+        return { error: denied.error, message: denied.message };
+      }
+      const result = validateFilePath(sessionManager, query.session, query.path, {
+        checkExistence: true
+      });
+      if (!result.valid) {
+        set.status = result.status;
+        return { error: result.error, message: result.message };
+      }
+      if (result.targetPath === resolve(result.session.cwd)) {
+        set.status = 400;
+        return {
+          error: 'VALIDATION_FAILED',
+          message: 'The session directory itself cannot be deleted'
+        };
+      }
+
+      let trashPath: string;
+      try {
+        trashPath = await moveToTrash(result.targetPath, getTrashDir(config.file_transfer));
+      } catch (err) {
+        const failure = fsError(err);
+        set.status = failure.status;
+        return { error: failure.error, message: failure.message };
+      }
+      log.info(`Moved ${result.targetPath} to trash: ${trashPath}`);
+      return { success: true, path: query.path, trashPath };
+    },
+    {
+      query: t.Object({
+        session: t.String({ minLength: 1 }),
+        path: t.String({ minLength: 1 })
+      }),
+      response: {
+        200: TrashResponseSchema,
+        400: ErrorResponseSchema,
+        403: ErrorResponseSchema,
+        404: ErrorResponseSchema,
+        409: ErrorResponseSchema
+      }
+    }
   );
@@ -0,0 +1,74 @@
+/**
+ * Route Access Rules Tests
+ */
+
+import { describe, expect, test } from 'bun:test';
+import { checkAccess, findAccessRule } from './access-rules.js';
+
+const request = (overrides: Partial<Parameters<typeof checkAccess>[3]> = {}) => ({
+  params: {},
+  query: {},
+  body: undefined,
+  ...overrides
+});
+
+describe('findAccessRule', () => {
+  test('matches exact routes and prefixes', () => {
+    expect(findAccessRule('POST', '/api/shutdown')?.role).toBe('admin');
+    expect(findAccessRule('GET', '/api/files/content')?.permission).toBe('files');
+    expect(findAccessRule('DELETE', '/api/files')?.permission).toBe('files');
+  });
+
+  test('picks the first matching rule', () => {
+    expect(findAccessRule('POST', '/api/sessions/:name/commands')?.permission).toBe('commands');
+    expect(findAccessRule('GET', '/api/sessions/:name/stats')?.permission).toBe('view');
+  });
+
+  test('respects methods', () => {
+    expect(findAccessRule('GET', '/api/sessions')).toBeUndefined();
+    expect(findAccessRule('GET', '/api/blocks/:blockId')).toBeUndefined();
+    expect(findAccessRule('POST', '/api/blocks/:blockId/cancel')?.role).toBe('operator');
+    expect(findAccessRule('DELETE', '/api/ai/sessions/:sessionId/history')?.role).toBe('operator');
+    expect(findAccessRule('GET', '/api/ai/sessions/:sessionId/threads')?.role).toBeUndefined();
+  });
+});
+
+describe('checkAccess', () => {
+  const allowAll = () => true;
+  const denyAll = () => false;
+
+  test('reads the session from query, params and body', () => {
+    const files = findAccessRule('GET', '/api/files/content');
+    const run = findAccessRule('POST', '/api/ai/runs');
+    if (!files || !run) throw new Error('missing rule');
+
+    expect(
+      checkAccess(files, { role: 'operator' }, denyAll, request({ query: { session: 'db' } }))
+    ).toEqual({ sessionName: 'db', message: "No files permission for session 'db'" });
+    expect(
+      checkAccess(
+        run,
+        { role: 'operator' },
+        denyAll,
+        request({ body: { context: { sessionId: 'db' } } })
+      )?.sessionName
+    ).toBe('db');
+  });
+
+  test('checks the role before the session', () => {
+    const run = findAccessRule('POST', '/api/ai/runs');
+    if (!run) throw new Error('missing rule');
+
+    expect(checkAccess(run, { role: 'viewer' }, allowAll, request())?.message).toBe(
+      'Requires the operator role'
+    );
+  });
+
+  test('falls back to the role when no session is named', () => {
+    const clipboard = findAccessRule('POST', '/api/clipboard');
+    if (!clipboard) throw new Error('missing rule');
+
+    expect(checkAccess(clipboard, { role: 'viewer' }, allowAll, request())).not.toBeNull();
+    expect(checkAccess(clipboard, { role: 'operator' }, allowAll, request())).toBeNull();
+  });
+});
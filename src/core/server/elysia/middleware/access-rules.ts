@@ -0,0 +1,214 @@
+/**
+ * Route Access Rules
+ *
+ * Table-driven authorization applied by authPlugin after authentication.
+ * Each rule is keyed by the Elysia route template (e.g.
+ * '/api/sessions/:name') and requires a minimum role and/or a permission in
+ * the session named by the request. Routes without a rule are open to every
+ * authenticated user; handlers that list sessions filter them with `can()`.
+ *
+ * Routes that address a resource by id carry no session name. Block,
+ * workflow, recording, share link, AI run and AI thread handlers look up
+ * the owning session and check it with `can()`, answering 404 for sessions
+ * the user cannot view.
+ */
+
+import type { SessionPermission, UserRole } from '@/core/config/types.js';
+import { type AuthUser, hasRole } from '@/core/server/auth/access-control.js';
+
+// === Types ===
+
+/** Request parts a session name can be read from */
+export interface AccessRequest {
+  params: Record<string, string | undefined>;
+  query: Record<string, unknown>;
+  body: unknown;
+}
+
+export interface AccessRule {
+  /** Elysia route template (exact) or prefix ending in '/*' */
+  route: string;
+  /** Methods the rule applies to (default: all) */
+  methods?: string[];
+  /** Minimum role */
+  role?: UserRole;
+  /** Permission required in the session named by the request */
+  permission?: SessionPermission;
+  /** Where the session name comes from */
+  session?: (request: AccessRequest) => string | undefined;
+}
+
+export interface AccessDenial {
+  sessionName?: string;
+  message: string;
+}
+
+// === Session Name Sources ===
+
+const fromParam =
+  (name: string) =>
+  ({ params }: AccessRequest): string | undefined =>
+    params[name];
+
+const fromQuery =
+  (name: string) =>
+  ({ query }: AccessRequest): string | undefined => {
+    const value = query[name];
+    return typeof value === 'string' ? value : undefined;
+  };
+
+const fromBody =
+  (...path: string[]) =>
+  ({ body }: AccessRequest): string | undefined => {
+    let value: unknown = body;
+    for (const key of path) {
+      value =
+        value && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined;
+    }
+    return typeof value === 'string' ? value : undefined;
+  };
+
+const MUTATIONS = ['POST', 'PUT', 'PATCH', 'DELETE'];
+
+// === Rules ===
+
+export const ACCESS_RULES: readonly AccessRule[] = [
+  // Daemon administration
+  { route: '/api/shutdown', role: 'admin' },
+  { route: '/api/reload', role: 'admin' },
+  { route: '/api/audit', role: 'admin' },
+  { route: '/api/auth/sessions/*', role: 'admin' },
+  { route: '/api/auth/otp/generate', role: 'admin' },
+  { route: '/api/auth/passkeys', methods: ['GET'], role: 'admin' },
+  { route: '/api/auth/passkeys/:id', methods: ['DELETE'], role: 'admin' },
+  { route: '/api/ai/cache', role: 'admin' },
+
+  // Sessions
+  { route: '/api/sessions', methods: ['POST'], role: 'operator' },
+  { route: '/api/tmux/sessions', role: 'operator' },
+  {
+    route: '/api/sessions/:name',
+    methods: ['DELETE'],
+    permission: 'input',
+    session: fromParam('name')
+  },
+  { route: '/api/sessions/:name/commands', permission: 'commands', session: fromParam('name') },
+  { route: '/api/sessions/:name/workflows', permission: 'commands', session: fromParam('name') },
+  { route: '/api/sessions/:name/*', permission: 'view', session: fromParam('name') },
+
+  // Terminal page and WebSocket (typing is limited in the WebSocket handler)
+  { route: '/:sessionName', permission: 'view', session: fromParam('sessionName') },
+  { route: '/:sessionName/ws', permission: 'view', session: fromParam('sessionName') },
+  { route: '/api/auth/ws-token', permission: 'view', session: fromBody('sessionId') },
+  { route: '/api/clipboard', permission: 'input', session: fromBody('session') },
+  { route: '/api/osc633', permission: 'input', session: fromBody('session') },
+
+  // File transfer
+  { route: '/api/files/*', permission: 'files', session: fromQuery('session') },
+  { route: '/api/clipboard-image', permission: 'files', session: fromQuery('session') },
+  { route: '/api/preview', permission: 'files', session: fromQuery('session') },
+  { route: '/api/context-files/*', permission: 'files', session: fromQuery('session') },
+
+  // API commands
+  { route: '/api/blocks/*', methods: MUTATIONS, role: 'operator' },
+  { route: '/api/workflows/*', methods: MUTATIONS, role: 'operator' },
+  { route: '/api/ai/commands/execute', permission: 'commands', session: fromBody('sessionId') },
+  {
+    route: '/api/ai/runs',
+    methods: ['POST'],
+    role: 'operator',
+    permission: 'view',
+    session: fromBody('context', 'sessionId')
+  },
+  { route: '/api/ai/runs/*', methods: MUTATIONS, role: 'operator' },
+  { route: '/api/ai/threads/*', methods: MUTATIONS, role: 'operator' },
+  {
+    route: '/api/ai/sessions/:sessionId/*',
+    methods: MUTATIONS,
+    role: 'operator',
+    permission: 'view',
+    session: fromParam('sessionId')
+  },
+  {
+    route: '/api/ai/sessions/:sessionId/*',
+    permission: 'view',
+    session: fromParam('sessionId')
+  },
+  { route: '/api/ai/history/search', permission: 'view', session: fromQuery('sessionId') },
+  { route: '/api/claude-quotes/*', role: 'operator' },
+
+  // Recordings and share links expose the session to others
+  {
+    route: '/api/recordings/*',
+    methods: ['POST'],
+    role: 'operator',
+    permission: 'view',
+    session: fromBody('session')
+  },
+  {
+    route: '/api/shares',
+    methods: ['POST'],
+    role: 'operator',
+    permission: 'view',
+    session: fromBody('sessionName')
+  },
+  { route: '/api/shares/*', methods: ['DELETE'], role: 'operator' }
+];
+
+// === Matching ===
+
+function matchesRoute(pattern: string, route: string): boolean {
+  if (pattern.endsWith('/*')) {
+    const prefix = pattern.slice(0, -2);
+    return route === prefix || route.startsWith(`${prefix}/`);
+  }
+  return pattern === route;
+}
+
+/**
+ * First rule matching the route template and method
+ */
+export function findAccessRule(
+  method: string,
+  route: string,
+  rules: readonly AccessRule[] = ACCESS_RULES
+): AccessRule | undefined {
+  return rules.find(
+    (rule) => matchesRoute(rule.route, route) && (!rule.methods || rule.methods.includes(method))
+  );
+}
+
+/**
+ * Check a request against its rule
+ *
+ * @param can - Session permission check for this user
+ * @returns why access is denied, or null when allowed
+ */
+export function checkAccess(
+  rule: AccessRule,
+  user: AuthUser,
+  can: (sessionName: string, permission: SessionPermission) => boolean,
+  request: AccessRequest
+): AccessDenial | null {
+  if (rule.role && !hasRole(user, rule.role)) {
+    return { message: `Requires the ${rule.role} role` };
+  }
+  if (!rule.permission) {
+    return null;
+  }
+
+  const sessionName = rule.session?.(request);
+  if (sessionName === undefined) {
+    // Nothing to scope by: viewers may still only view
+    return rule.permission === 'view' || hasRole(user, 'operator')
+      ? null
+      : { message: `Requires ${rule.permission} permission` };
+  }
+  if (!can(sessionName, rule.permission)) {
+    return {
+      sessionName,
+      message: `No ${rule.permission} permission for session '${sessionName}'`
+    };
+  }
+  return null;
+}
@@ -10,8 +10,10 @@
 
 import { describe, expect, test } from 'bun:test';
 import { Elysia } from 'elysia';
+import { AccessControl } from '@/core/server/auth/access-control.js';
+import type { AuditEvent, AuditLogger } from '@/core/server/auth/audit-logger.js';
 import type { AuthMiddlewareOptions } from '@/core/server/auth/auth-middleware.js';
-import type { CookieSessionStore } from '@/core/server/auth/cookie-session.js';
+import type { CookieAuthMethod, CookieSessionStore } from '@/core/server/auth/cookie-session.js';
 import { authPlugin } from './auth.js';
 
 // === Mocks ===
@@ -21,14 +23,30 @@ const VALID_TOKEN = 'valid-otp-token';
 
 function makeCookieStore(validId = VALID_SESSION_ID): CookieSessionStore {
   return {
-    create: (ttlSeconds: number, remoteAddr?: string) => ({
+    create: (ttlSeconds: number, remoteAddr?: string, authMethod?: CookieAuthMethod) => ({
       id: `new-session-${Date.now()}`,
+      key: 'new-session-key',
       createdAt: Date.now(),
       expiresAt: Date.now() + ttlSeconds * 1000,
-      remoteAddr: remoteAddr ?? 'unknown'
+      lastSeenAt: Date.now(),
+      remoteAddr: remoteAddr ?? 'unknown',
+      authMethod: authMethod ?? 'token'
     }),
     validate: (id: string) => id === validId,
+    get: (id: string) =>
+      id === validId
+        ? {
+            id,
+            key: 'valid-session-key',
+            createdAt: Date.now(),
+            expiresAt: Date.now() + 3600_000,
+            lastSeenAt: Date.now(),
+            remoteAddr: 'unknown',
+            authMethod: 'token'
+          }
+        : null,
     revoke: () => {},
+    revokeByKey: () => false,
     cleanup: () => 0,
     listSessions: () => []
   };
@@ -213,47 +231,240 @@ describe('authPlugin', () => {
     });
   });
 
-  describe('OTP path exemption', () => {
-    test('allows unauthenticated request to /api/auth/otp', async () => {
+  describe('audit', () => {
+    function createAuditedApp(authOptions: AuthMiddlewareOptions) {
+      const events: AuditEvent[] = [];
+      const auditLogger = {
+        log: async (event: AuditEvent) => {
+          events.push(event);
+        }
+      } as unknown as AuditLogger;
       const app = new Elysia()
         .use(authPlugin)
-        .state('authOptions', makeAuthOptions())
-        .get('/api/auth/otp', () => ({ ok: true }));
+        .state('authOptions', authOptions)
+        .state('auditLogger', auditLogger)
+        .get('/test', ({ audit }) => {
+          audit({ type: 'session_create', sessionName: 'dev' });
+          return { ok: true };
+        });
+      return { app, events };
+    }
+
+    test('records rejected requests as auth_failure', async () => {
+      const { app, events } = createAuditedApp(makeAuthOptions());
+
+      const request = new Request('http://term.example.com/test');
+      Object.defineProperty(request, 'remoteAddress', { value: '203.0.113.7' });
+      await app.handle(request);
+
+      expect(events).toEqual([
+        expect.objectContaining({
+          type: 'auth_failure',
+          remoteAddr: '203.0.113.7',
+          networkZone: 'internet'
+        })
+      ]);
+      expect(events[0]?.details).toContain('GET /test');
+    });
+
+    test('attributes route events to the client', async () => {
+      const { app, events } = createAuditedApp(makeAuthOptions());
+
+      const request = new Request('http://term.example.com/test', {
+        headers: { Cookie: `bunterm-session=${VALID_SESSION_ID}` }
+      });
+      Object.defineProperty(request, 'remoteAddress', { value: '192.168.1.20' });
+      await app.handle(request);
+
+      expect(events).toEqual([
+        {
+          type: 'session_create',
+          sessionName: 'dev',
+          remoteAddr: '192.168.1.20',
+          user: undefined,
+          networkZone: 'lan'
+        }
+      ]);
+    });
+  });
+
+  describe('access control', () => {
+    const accessControl = new AccessControl({
+      users: [
+        { name: 'alice', role: 'admin' },
+        { name: 'carol', role: 'viewer' }
+      ],
+      defaultRole: 'operator',
+      sessionAcls: [{ session: 'prod', allow: [{ user: 'bob', permissions: ['view'] }] }]
+    });
+
+    function createAccessApp(overrides: Partial<AuthMiddlewareOptions> = {}) {
+      return new Elysia()
+        .use(authPlugin)
+        .state(
+          'authOptions',
+          makeAuthOptions({
+            proxyAuth: { trustedProxies: ['10.0.0.1'], proxyHeader: 'X-Forwarded-User' },
+            ...overrides
+          })
+        )
+        .state('accessControl', accessControl)
+        .post('/api/shutdown', () => ({ ok: true }))
+        .get('/api/status', ({ user }) => ({ user }))
+        .get('/api/sessions/:name/stats', () => ({ ok: true }));
+    }
+
+    function requestAs(user: string, path: string, method = 'GET') {
+      const request = new Request(`http://term.example.com${path}`, {
+        method,
+        headers: { 'X-Forwarded-User': user }
+      });
+      Object.defineProperty(request, 'remoteAddress', { value: '10.0.0.1' });
+      return request;
+    }
+
+    test('admin-only routes reject other roles with 403', async () => {
+      const app = createAccessApp();
+
+      const denied = await app.handle(requestAs('carol', '/api/shutdown', 'POST'));
+      expect(denied.status).toBe(403);
+      expect((await denied.json()).error).toBe('FORBIDDEN');
+
+      const allowed = await app.handle(requestAs('alice', '/api/shutdown', 'POST'));
+      expect(allowed.status).toBe(200);
+    });
+
+    test('session routes follow the session ACL', async () => {
+      const app = createAccessApp();
+
+      expect((await app.handle(requestAs('dave', '/api/sessions/prod/stats'))).status).toBe(403);
+      expect((await app.handle(requestAs('bob', '/api/sessions/prod/stats'))).status).toBe(200);
+      expect((await app.handle(requestAs('dave', '/api/sessions/dev/stats'))).status).toBe(200);
+    });
+
+    test('routes without a rule are open to every user', async () => {
+      const app = createAccessApp();
 
-      const res = await app.handle(new Request('http://192.168.1.1/api/auth/otp'));
+      const res = await app.handle(requestAs('carol', '/api/status'));
+      expect(await res.json()).toEqual({ user: { name: 'carol', role: 'viewer' } });
+    });
+
+    test('the owner (localhost bypass) is admin', async () => {
+      const app = createAccessApp({ localhostBypass: true });
+
+      const res = await app.handle(
+        new Request('http://localhost/api/shutdown', { method: 'POST' })
+      );
       expect(res.status).toBe(200);
     });
 
-    test('allows unauthenticated request to paths containing /auth/otp (with base path)', async () => {
+    test('records denials as access_denied', async () => {
+      const events: AuditEvent[] = [];
+      const app = createAccessApp().state('auditLogger', {
+        log: async (event: AuditEvent) => {
+          events.push(event);
+        }
+      } as unknown as AuditLogger);
+
+      await app.handle(requestAs('dave', '/api/sessions/prod/stats'));
+
+      expect(events).toEqual([
+        expect.objectContaining({ type: 'access_denied', sessionName: 'prod', user: 'dave' })
+      ]);
+    });
+  });
+
+  describe('login path exemption', () => {
+    test('allows unauthenticated request to /api/auth/otp/verify', async () => {
       const app = new Elysia()
         .use(authPlugin)
         .state('authOptions', makeAuthOptions())
-        .get('/bunterm/api/auth/otp', () => ({ ok: true }));
+        .post('/api/auth/otp/verify', () => ({ ok: true }));
 
-      const res = await app.handle(new Request('http://192.168.1.1/bunterm/api/auth/otp'));
+      const res = await app.handle(
+        new Request('http://192.168.1.1/api/auth/otp/verify', { method: 'POST' })
+      );
+      expect(res.status).toBe(200);
+    });
+
+    test('allows unauthenticated request to OTP verify with base path', async () => {
+      const app = new Elysia()
+        .use(authPlugin)
+        .state('authOptions', makeAuthOptions({ basePath: '/bunterm' }))
+        .post('/bunterm/api/auth/otp/verify', () => ({ ok: true }));
+
+      const res = await app.handle(
+        new Request('http://192.168.1.1/bunterm/api/auth/otp/verify', { method: 'POST' })
+      );
       expect(res.status).toBe(200);
     });
 
-    test('allows unauthenticated request to /auth/ws-token', async () => {
+    test('blocks unauthenticated request to /api/auth/otp/generate', async () => {
       const app = new Elysia()
         .use(authPlugin)
         .state('authOptions', makeAuthOptions())
-        .get('/auth/ws-token', () => ({ ok: true }));
+        .post('/api/auth/otp/generate', () => ({ code: '123456' }));
 
-      const res = await app.handle(new Request('http://192.168.1.1/auth/ws-token'));
+      const res = await app.handle(
+        new Request('http://192.168.1.1/api/auth/otp/generate', { method: 'POST' })
+      );
+      expect(res.status).toBe(401);
+    });
+
+    test('allows unauthenticated request to /api/auth/ws-token', async () => {
+      const app = new Elysia()
+        .use(authPlugin)
+        .state('authOptions', makeAuthOptions())
+        .get('/api/auth/ws-token', () => ({ ok: true }));
+
+      const res = await app.handle(new Request('http://192.168.1.1/api/auth/ws-token'));
       expect(res.status).toBe(200);
     });
 
-    test('stealth mode still exempts /api/auth/otp path', async () => {
+    test('stealth mode still exempts /login', async () => {
       const app = new Elysia()
         .use(authPlugin)
         .state('authOptions', makeAuthOptions({ stealthMode: true }))
-        .get('/api/auth/otp', () => ({ ok: true }));
+        .get('/login', () => ({ ok: true }));
 
-      const res = await app.handle(new Request('http://192.168.1.1/api/auth/otp'));
+      const res = await app.handle(new Request('http://192.168.1.1/login'));
       expect(res.status).toBe(200);
     });
 
+    test('does not exempt other routes ending in an exempt name', async () => {
+      const app = new Elysia()
+        .use(authPlugin)
+        .state('authOptions', makeAuthOptions())
+        .delete('/api/sessions/:name', () => ({ ok: true }))
+        .post('/api/sessions/:name/auth/otp/verify', () => ({ ok: true }));
+
+      const del = await app.handle(
+        new Request('http://192.168.1.1/api/sessions/login', { method: 'DELETE' })
+      );
+      expect(del.status).toBe(401);
+
+      const nested = await app.handle(
+        new Request('http://192.168.1.1/api/sessions/x/auth/otp/verify', { method: 'POST' })
+      );
+      expect(nested.status).toBe(401);
+    });
+
+    test('allows unauthenticated requests to share links only', async () => {
+      const app = new Elysia()
+        .use(authPlugin)
+        .state('authOptions', makeAuthOptions({ basePath: '/bunterm' }))
+        .get('/share/:token', () => ({ ok: true }))
+        .post('/api/sessions/:name/commands', () => ({ ok: true }));
+
+      const share = await app.handle(new Request('http://192.168.1.1/share/abc123'));
+      expect(share.status).toBe(200);
+
+      const command = await app.handle(
+        new Request('http://192.168.1.1/api/sessions/share/commands', { method: 'POST' })
+      );
+      expect(command.status).toBe(401);
+    });
+
     test('blocks unauthenticated request to unrelated /api paths', async () => {
       const app = new Elysia()
         .use(authPlugin)
@@ -264,4 +475,27 @@ describe('authPlugin', () => {
       expect(res.status).toBe(401);
     });
   });
+
+  describe('login redirect', () => {
+    test('redirects page navigations to the login page', async () => {
+      const app = createApp(makeAuthOptions({ basePath: '/bunterm' }));
+      const res = await app.handle(
+        new Request('http://192.168.1.1/test?x=1', { headers: { Accept: 'text/html' } })
+      );
+
+      expect(res.status).toBe(302);
+      expect(res.headers.get('Location')).toBe(
+        `/bunterm/login?next=${encodeURIComponent('/bunterm/test?x=1')}`
+      );
+    });
+
+    test('does not redirect in stealth mode', async () => {
+      const app = createApp(makeAuthOptions({ stealthMode: true }));
+      const res = await app.handle(
+        new Request('http://192.168.1.1/test', { headers: { Accept: 'text/html' } })
+      );
+
+      expect(res.status).toBe(404);
+    });
+  });
 });
@@ -2,7 +2,8 @@
  * Elysia Auth Middleware Plugin
  *
  * Wraps the existing auth-middleware.ts logic into an Elysia plugin.
- * Uses derive() to add `authenticated` and `proxyUser` to the request context.
+ * Uses derive() to add `authenticated`, `proxyUser`, the resolved `user`,
+ * a session permission check and an audit recorder to the request context.
  *
  * Auth check order:
  * 1. Localhost bypass (if enabled)
@@ -10,44 +11,149 @@
  * 3. Cookie session validation
  * 4. OTP token exchange via query parameter
  * 5. Stealth mode: 404 instead of 401 for unauthenticated requests
+ * 6. Role and session permission rules (access-rules.ts): 403
  */
 
 import { Elysia } from 'elysia';
+import type { SessionPermission } from '@/core/config/types.js';
+import { type AccessControl, type AuthUser, OWNER } from '@/core/server/auth/access-control.js';
+import type { AuditEvent, AuditLogger } from '@/core/server/auth/audit-logger.js';
 import {
   type AuthMiddlewareOptions,
   type AuthResult,
   authenticateRequest,
-  handleTokenExchange
+  handleTokenExchange,
+  isLocalSocketRequest
 } from '@/core/server/auth/auth-middleware.js';
-import type { NetworkZone } from '@/core/server/auth/network-classifier.js';
+import { classifyNetwork, type NetworkZone } from '@/core/server/auth/network-classifier.js';
+import { createLogger } from '@/utils/logger.js';
+import { checkAccess, findAccessRule } from './access-rules.js';
+
+const log = createLogger('auth');
+
+/** remoteAddr recorded for CLI requests on the owner-only Unix socket */
+export const LOCAL_SOCKET_ADDR = 'unix-socket';
+
+/** Paths reachable without a session, relative to base_path and matched exactly */
+const EXEMPT_PATHS: ReadonlySet<string> = new Set([
+  '/login',
+  '/api/auth/otp/verify',
+  '/api/auth/passkeys/login/options',
+  '/api/auth/passkeys/login',
+  '/api/auth/ws-token'
+]);
+
+/** Read-only share page and its WebSocket (both validate the share token themselves) */
+const SHARE_PATH = /^\/share\/[^/]+(\/ws)?$/;
+
+/** Request path relative to base_path (the reverse proxy normally strips it already) */
+function pathUnderBase(pathname: string, basePath: string): string {
+  const base = basePath.replace(/\/$/, '');
+  return base && pathname.startsWith(`${base}/`) ? pathname.slice(base.length) : pathname;
+}
+
+/** Audit event fields filled in from the request */
+export type RequestAuditEvent = Omit<AuditEvent, 'remoteAddr' | 'user' | 'networkZone'>;
 
 export interface AuthContext {
   readonly authenticated: boolean;
   readonly proxyUser?: string;
+  /** Authenticated user and role, null when unauthenticated */
+  readonly user: AuthUser | null;
+  /** Whether the user has a permission in a session */
+  readonly can: (sessionName: string, permission: SessionPermission) => boolean;
   readonly networkZone?: NetworkZone;
+  /** Peer address (or LOCAL_SOCKET_ADDR), undefined when unknown */
+  readonly remoteAddr?: string;
+  /** Record an audit event attributed to this request's client */
+  readonly audit: (event: RequestAuditEvent) => void;
 }
 
+/**
+ * Request identity without enforcement.
+ *
+ * Derives `authenticated`, `proxyUser`, `user`, `can()`, `networkZone`,
+ * `remoteAddr` and an `audit()` recorder into the request context. Route plugins that only need
+ * to know who is calling use this instead of authPlugin, whose guard
+ * responses would otherwise widen their response types.
+ */
+export const authContextPlugin = new Elysia({ name: 'auth-context' })
+  .state('authOptions', null as AuthMiddlewareOptions | null)
+  .state('auditLogger', null as AuditLogger | null)
+  .state('accessControl', null as AccessControl | null)
+  .derive(({ request, server, store }) => {
+    const options = store.authOptions;
+    const localSocket = isLocalSocketRequest(request);
+    const remoteAddr = localSocket ? LOCAL_SOCKET_ADDR : extractRemoteAddr(request, server);
+
+    // Auth disabled or not configured — allow all
+    const result: AuthResult = options?.enabled
+      ? authenticateRequest(request, options, localSocket ? undefined : remoteAddr)
+      : { authenticated: true };
+
+    // Zone is recorded even when adaptive shield does not act on it
+    const networkZone =
+      result.networkZone ??
+      (localSocket ? 'localhost' : remoteAddr ? classifyNetwork(remoteAddr) : undefined);
+    const auditLogger = store.auditLogger;
+    const accessControl = store.accessControl;
+
+    // Without access control every authenticated client has full access
+    const userName = result.proxyUser ?? result.user;
+    const user: AuthUser | null = !result.authenticated
+      ? null
+      : result.owner
+        ? OWNER
+        : (accessControl?.resolveUser(userName) ?? { name: userName, role: 'admin' });
+
+    return {
+      authenticated: result.authenticated,
+      authFailureReason: result.reason,
+      proxyUser: result.proxyUser,
+      user,
+      can: (sessionName: string, permission: SessionPermission): boolean =>
+        user !== null && (accessControl?.can(user, sessionName, permission) ?? true),
+      networkZone: result.networkZone as NetworkZone | undefined,
+      remoteAddr,
+      audit: (event: RequestAuditEvent): void => {
+        auditLogger
+          ?.log({
+            ...event,
+            remoteAddr: remoteAddr ?? 'unknown',
+            user: userName,
+            networkZone
+          })
+          .catch((error) => log.warn(`Failed to write audit event: ${error}`));
+      }
+    };
+  })
+  .as('global');
+
 /**
  * Elysia auth plugin.
  *
  * Expects `authOptions` in store (set via .state() before .use(authPlugin)).
- * Derives `authenticated`, `proxyUser`, and `networkZone` into the request context.
+ * Adds enforcement on top of authContextPlugin.
  *
  * Token exchange (OTP via ?token= query param) is handled as a beforeHandle hook
  * that short-circuits with a redirect response when a valid token is present.
  */
 export const authPlugin = new Elysia({ name: 'auth' })
-  .state('authOptions', null as AuthMiddlewareOptions | null)
-  .onBeforeHandle(async ({ request, store }) => {
+  .use(authContextPlugin)
+  .onBeforeHandle(async ({ request, remoteAddr, store, audit }) => {
     const options = store.authOptions;
     if (!options?.enabled) {
       return undefined;
     }
 
     // Handle OTP token exchange — returns a redirect Response or null
-    const remoteAddr = extractRemoteAddr(request);
     const tokenResponse = await handleTokenExchange(request, options, remoteAddr);
     if (tokenResponse) {
+      audit(
+        tokenResponse.status === 302
+          ? { type: 'auth_success', details: 'token exchange' }
+          : { type: 'auth_failure', details: 'invalid token' }
+      );
       // Short-circuit: return the redirect response directly
       return new Response(null, {
         status: tokenResponse.status,
@@ -56,51 +162,85 @@ export const authPlugin = new Elysia({ name: 'auth' })
     }
     return undefined;
   })
-  .derive(({ request, store }) => {
-    const options = store.authOptions;
-
-    // Auth disabled or not configured — allow all
-    if (!options?.enabled) {
-      return {
-        authenticated: true as boolean,
-        proxyUser: undefined as string | undefined,
-        networkZone: undefined as NetworkZone | undefined
-      };
-    }
-
-    const remoteAddr = extractRemoteAddr(request);
-    const result: AuthResult = authenticateRequest(request, options, remoteAddr);
-
-    return {
-      authenticated: result.authenticated,
-      proxyUser: result.proxyUser,
-      networkZone: result.networkZone
-    };
-  })
-  .onBeforeHandle(({ authenticated, set, store, request }) => {
+  .onBeforeHandle(({ authenticated, authFailureReason, set, store, request, audit }) => {
     const authOptions = store.authOptions as AuthMiddlewareOptions | null;
     if (!authOptions?.enabled) return; // auth disabled, allow all
     if (authenticated) return; // authenticated, allow
 
-    // Exempt paths: OTP token exchange, WebSocket token
+    // Exempt paths: login page, OTP verification, passkey login, WebSocket token, read-only
+    // share links
     const url = new URL(request.url);
-    if (url.pathname.includes('/auth/otp') || url.pathname.includes('/auth/ws-token')) return;
+    const path = pathUnderBase(url.pathname, authOptions.basePath);
+    if (EXEMPT_PATHS.has(path) || SHARE_PATH.test(path)) return;
+
+    audit({
+      type: 'auth_failure',
+      details: `${authFailureReason ?? 'unauthenticated'}: ${request.method} ${url.pathname}`
+    });
 
     if (authOptions.stealthMode) {
       set.status = 404;
       return 'Not Found';
     }
+    if (wantsLoginRedirect(request, url)) {
+      // The reverse proxy strips base_path, so add it back for the browser
+      const basePath = authOptions.basePath.replace(/\/$/, '');
+      const next = `${basePath}${url.pathname}${url.search}`;
+      return new Response(null, {
+        status: 302,
+        headers: { Location: `${basePath}/login?next=${encodeURIComponent(next)}` }
+      });
+    }
     set.status = 401;
     return { error: 'UNAUTHORIZED', message: 'Authentication required' };
   })
+  .onBeforeHandle(({ user, can, route, request, params, query, body, set, audit }) => {
+    // Unauthenticated requests that got here are on exempt paths
+    if (!user) return;
+
+    const rule = findAccessRule(request.method, route);
+    if (!rule) return;
+
+    const denial = checkAccess(rule, user, can, { params, query, body });
+    if (!denial) return;
+
+    audit({
+      type: 'access_denied',
+      sessionName: denial.sessionName,
+      details: `${request.method} ${new URL(request.url).pathname}: ${denial.message}`
+    });
+    set.status = 403;
+    return { error: 'FORBIDDEN', message: denial.message };
+  })
   .as('global');
 
+/**
+ * Browser page navigations are sent to the login page instead of a bare 401
+ */
+function wantsLoginRedirect(request: Request, url: URL): boolean {
+  return (
+    request.method === 'GET' &&
+    !url.pathname.includes('/api/') &&
+    (request.headers.get('Accept') ?? '').includes('text/html')
+  );
+}
+
 /**
  * Extract remote address from the request.
- * Bun's server passes remoteAddress on the Request object at runtime,
- * but it's not in the standard Request type.
+ * Bun exposes the peer address via server.requestIP(); requests handed to
+ * app.handle() in tests have no server and fall back to remoteAddress.
  */
-function extractRemoteAddr(request: Request): string | undefined {
-  // Bun attaches remoteAddress to the server request object
+export function extractRemoteAddr(
+  request: Request,
+  server?: { requestIP(request: Request): { address: string } | null } | null
+): string | undefined {
+  try {
+    const address = server?.requestIP(request)?.address;
+    if (address) {
+      return address;
+    }
+  } catch {
+    // Request did not arrive on this server (e.g. the Unix socket listener)
+  }
   return (request as Request & { remoteAddress?: string }).remoteAddress;
 }
@@ -1,16 +1,20 @@
 /**
  * Page Routes (Elysia)
  *
- * Handles HTML page rendering: portal, terminal sessions, share pages, agent timeline.
+ * Handles HTML page rendering: portal, login, terminal sessions, share pages, agent timeline.
  * Replaces the old page-routes.ts handlePageRoutes function.
  */
 
 import { randomBytes } from 'node:crypto';
 import { Elysia, t } from 'elysia';
+import { hasRole } from '@/core/server/auth/access-control.js';
 import { generateNativeTerminalHtml } from '@/core/server/html-template.js';
+import { generateLoginHtml } from '@/core/server/login-page.js';
 import { generatePortalHtml } from '@/core/server/portal.js';
 import { createLogger } from '@/utils/logger.js';
 import { coreContext } from './context.js';
+import { authContextPlugin } from './middleware/auth.js';
+import { visibleSessions } from './sessions.js';
 
 const log = createLogger('pages-elysia');
 
@@ -26,22 +30,26 @@ function generateNonce(): string {
 
 export const pagesPlugin = new Elysia()
   .use(coreContext)
+  .use(authContextPlugin)
 
   // GET /basePath/ - Portal page
   .get(
     '/',
-    ({ sessionManager, config, store }) => {
+    ({ sessionManager, config, store, can, passkeyManager }) => {
       const nonce = generateNonce();
       store.cspNonce = nonce;
-      const sessions = sessionManager.listSessions().map((s) => ({
+      const sessions = visibleSessions(sessionManager.listSessions(), can).map((s) => ({
         name: s.name,
         pid: s.pid,
         port: 0,
         path: `/${s.name}`,
         dir: s.dir,
-        started_at: s.startedAt
+        started_at: s.startedAt,
+        restored: s.restored
       }));
-      const html = generatePortalHtml(config, sessions, nonce);
+      const html = generatePortalHtml(config, sessions, nonce, {
+        passkeys: passkeyManager !== null
+      });
       return new Response(html, {
         headers: { 'Content-Type': 'text/html; charset=utf-8' }
       });
@@ -72,7 +80,7 @@ export const pagesPlugin = new Elysia()
   // GET /basePath/share/:token - Share page
   .get(
     '/share/:token',
-    ({ sessionManager, config, params, set, store, shareManager }) => {
+    ({ sessionManager, config, params, set, store, shareManager, audit }) => {
       const token = decodeURIComponent(params.token);
       const share = shareManager?.validateShare(token);
 
@@ -93,6 +101,8 @@ export const pagesPlugin = new Elysia()
         });
       }
 
+      audit({ type: 'share_view', sessionName, details: `token ${token.slice(0, 8)}…` });
+
       const nonce = generateNonce();
       store.cspNonce = nonce;
 
@@ -103,6 +113,7 @@ export const pagesPlugin = new Elysia()
         sessionPath: `${basePath}/${sessionName}`,
         config,
         isShared: true,
+        shareToken: token,
         nonce
       });
       return new Response(html, {
@@ -114,17 +125,55 @@ export const pagesPlugin = new Elysia()
     }
   )
 
+  // GET /basePath/login - OTP login page (404 status in stealth mode)
+  .get(
+    '/login',
+    ({ config, query, store, passkeyManager }) => {
+      const nonce = generateNonce();
+      store.cspNonce = nonce;
+      const stealth = config.security.auth_stealth_mode;
+      const html = generateLoginHtml({
+        basePath: config.base_path,
+        stealth,
+        nonce,
+        code: query.code,
+        next: query.next,
+        passkeys: passkeyManager !== null
+      });
+      return new Response(html, {
+        status: stealth ? 404 : 200,
+        headers: {
+          'Content-Type': 'text/html; charset=utf-8',
+          'Cache-Control': 'no-store',
+          'Referrer-Policy': 'no-referrer'
+        }
+      });
+    },
+    {
+      query: t.Object({
+        code: t.Optional(t.String()),
+        next: t.Optional(t.String())
+      })
+    }
+  )
+
   // GET /basePath/:sessionName - Terminal session page
   .get(
     '/:sessionName',
-    async ({ sessionManager, config, params, set, store }) => {
+    async ({ sessionManager, config, params, set, store, user, audit }) => {
       const sessionName = params.sessionName;
       const basePath = config.base_path;
 
       let session = sessionManager.getSession(sessionName);
 
-      // If session doesn't exist, try to create it
+      // If session doesn't exist, try to create it (viewers cannot)
       if (!session) {
+        if (!user || !hasRole(user, 'operator')) {
+          return new Response('Session not found', {
+            status: 404,
+            headers: { 'Content-Type': 'text/plain' }
+          });
+        }
         try {
           session = await sessionManager.createSession({
             name: sessionName,
@@ -132,6 +181,8 @@ export const pagesPlugin = new Elysia()
             path: `${basePath}/${sessionName}`
           });
           log.info(`Created session on demand: ${sessionName}`);
+          store.accessControl?.setOwner(sessionName, user);
+          audit({ type: 'session_create', sessionName, details: 'created on page load' });
         } catch (error) {
           log.error(`Failed to create session ${sessionName}: ${error}`);
           set.status = 500;
@@ -0,0 +1,182 @@
+/**
+ * Tests for the passkey routes: registration from an authenticated session,
+ * passwordless login and revocation
+ */
+
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Elysia } from 'elysia';
+import type { AuthMiddlewareOptions } from '@/core/server/auth/auth-middleware.js';
+import { InMemoryCookieSessionStore } from '@/core/server/auth/cookie-session.js';
+import { PasskeyManager } from '@/core/server/auth/passkey-manager.js';
+import { TestAuthenticator } from '@/core/server/auth/test-helpers.js';
+import { InMemoryNonceStore, TokenGenerator } from '@/core/server/ws/session-token.js';
+import { authPlugin } from './middleware/auth.js';
+import { passkeysPlugin } from './passkeys.js';
+
+// === Helpers ===
+
+const HOST = 'term.example.com';
+
+let dir: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), 'bunterm-passkey-routes-test-'));
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+function createPasskeyApp(overrides: Partial<AuthMiddlewareOptions> = {}) {
+  const passkeyManager = new PasskeyManager(join(dir, 'passkeys.json'));
+  const cookieSessionStore = new InMemoryCookieSessionStore();
+  const authOptions: AuthMiddlewareOptions = {
+    enabled: true,
+    localhostBypass: false,
+    cookieSessionStore,
+    tokenGenerator: new TokenGenerator({
+      secret: 'test-secret-key-must-be-at-least-32-bytes-long!!',
+      nonceStore: new InMemoryNonceStore({ cleanupIntervalMs: 999999 }),
+      ttlSeconds: 60
+    }),
+    basePath: '/bunterm',
+    cookieName: 'bunterm_session',
+    sessionTtlSeconds: 86400,
+    secureCookie: true,
+    stealthMode: false,
+    adaptiveShield: true,
+    lanSessionTtlSeconds: 604800,
+    internetSessionTtlSeconds: 3600,
+    ...overrides
+  };
+
+  const app = new Elysia()
+    .use(authPlugin)
+    .state('authOptions', authOptions)
+    .state('cookieSessionStore', cookieSessionStore)
+    .state('passkeyManager', passkeyManager)
+    .use(passkeysPlugin);
+  return { app, passkeyManager, cookieSessionStore };
+}
+
+type PasskeyApp = ReturnType<typeof createPasskeyApp>['app'];
+
+function post(app: PasskeyApp, path: string, body: unknown, headers: Record<string, string> = {}) {
+  const request = new Request(`http://${HOST}/api/auth/passkeys${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body)
+  });
+  Object.defineProperty(request, 'remoteAddress', { value: '203.0.113.9' });
+  return app.handle(request);
+}
+
+/** Register a passkey from a cookie session logged in as `user` */
+async function registerPasskey(
+  { app, cookieSessionStore }: ReturnType<typeof createPasskeyApp>,
+  authenticator: TestAuthenticator,
+  user?: string
+) {
+  const session = cookieSessionStore.create(3600, '203.0.113.9', 'otp', user);
+  const cookie = { Cookie: `bunterm_session=${session.id}` };
+  const options = await (await post(app, '/register/options', { name: 'Phone' }, cookie)).json();
+  return post(app, '/register', authenticator.register(options.challenge, HOST), cookie);
+}
+
+async function loginWithPasskey(app: PasskeyApp, authenticator: TestAuthenticator) {
+  const options = await (await post(app, '/login/options', {})).json();
+  return post(app, '/login', authenticator.login(options.challenge, HOST));
+}
+
+// === Tests ===
+
+describe('passkey registration', () => {
+  test('requires an authenticated session', async () => {
+    const { app } = createPasskeyApp();
+
+    const res = await post(app, '/register/options', {});
+
+    expect(res.status).toBe(401);
+  });
+
+  test('binds the passkey to the session user', async () => {
+    const context = createPasskeyApp();
+    const authenticator = new TestAuthenticator();
+
+    const res = await registerPasskey(context, authenticator, 'alice');
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toMatchObject({ id: authenticator.id, name: 'Phone', user: 'alice' });
+    expect(context.passkeyManager.list()).toHaveLength(1);
+  });
+
+  test('rejects a response for another host', async () => {
+    const { app, cookieSessionStore } = createPasskeyApp();
+    const session = cookieSessionStore.create(3600, '203.0.113.9', 'otp');
+    const cookie = { Cookie: `bunterm_session=${session.id}` };
+    const options = await (await post(app, '/register/options', {}, cookie)).json();
+
+    const res = await post(
+      app,
+      '/register',
+      new TestAuthenticator().register(options.challenge, 'evil.example'),
+      cookie
+    );
+
+    expect(res.status).toBe(400);
+    expect((await res.json()).error).toBe('INVALID_PASSKEY');
+  });
+});
+
+describe('passkey login', () => {
+  test('creates a passkey cookie session with the internet TTL', async () => {
+    const context = createPasskeyApp();
+    const authenticator = new TestAuthenticator();
+    await registerPasskey(context, authenticator, 'alice');
+
+    const res = await loginWithPasskey(context.app, authenticator);
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ networkZone: 'internet', expiresIn: 3600 });
+    const cookie = res.headers.get('set-cookie') ?? '';
+    expect(cookie).toContain('Max-Age=3600');
+    expect(cookie).toContain('Secure');
+    const sessionId = cookie.slice('bunterm_session='.length, cookie.indexOf(';'));
+    expect(context.cookieSessionStore.get(sessionId)).toMatchObject({
+      authMethod: 'passkey',
+      user: 'alice'
+    });
+  });
+
+  test('rejects an unknown passkey (404 in stealth mode)', async () => {
+    const { app } = createPasskeyApp();
+    const res = await loginWithPasskey(app, new TestAuthenticator());
+    expect(res.status).toBe(401);
+
+    const stealth = createPasskeyApp({ stealthMode: true });
+    expect((await loginWithPasskey(stealth.app, new TestAuthenticator())).status).toBe(404);
+  });
+});
+
+describe('passkey management', () => {
+  test('lists and revokes passkeys', async () => {
+    const context = createPasskeyApp({ localhostBypass: true });
+    const authenticator = new TestAuthenticator();
+    await registerPasskey(context, authenticator);
+
+    const list = await context.app.handle(new Request('http://localhost/api/auth/passkeys'));
+    expect((await list.json()).map((p: { id: string }) => p.id)).toEqual([authenticator.id]);
+
+    const revoke = await context.app.handle(
+      new Request(`http://localhost/api/auth/passkeys/${authenticator.id.slice(0, 8)}`, {
+        method: 'DELETE'
+      })
+    );
+    expect(revoke.status).toBe(200);
+    expect(context.passkeyManager.list()).toEqual([]);
+    expect((await loginWithPasskey(context.app, authenticator)).status).toBe(401);
+  });
+});
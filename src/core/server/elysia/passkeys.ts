@@ -0,0 +1,271 @@
+/**
+ * Passkey API Routes (Elysia)
+ *
+ * WebAuthn passkey registration (from an authenticated session), passwordless
+ * login (passkey → cookie session) and passkey management for the CLI.
+ * The relying party ID is the hostname the browser used, so passkeys
+ * registered through the reverse proxy work on the public hostname.
+ */
+
+import { Elysia, t } from 'elysia';
+import { resolveSessionTtl } from '@/core/server/auth/auth-middleware.js';
+import { buildSetCookieHeader } from '@/core/server/auth/cookie-session.js';
+import { classifyNetwork } from '@/core/server/auth/network-classifier.js';
+import type { PasskeyCredential } from '@/core/server/auth/passkey-manager.js';
+import { coreContext } from './context.js';
+import { ErrorResponseSchema } from './errors.js';
+import { authContextPlugin } from './middleware/auth.js';
+
+// === Helpers ===
+
+function relyingPartyId(request: Request): string {
+  return new URL(request.url).hostname.replace(/^\[|\]$/g, '');
+}
+
+function toResponse(credential: PasskeyCredential) {
+  return {
+    id: credential.id,
+    name: credential.name,
+    user: credential.user,
+    createdAt: credential.createdAt,
+    lastUsedAt: credential.lastUsedAt
+  };
+}
+
+const NOT_CONFIGURED = { error: 'PASSKEYS_NOT_CONFIGURED', message: 'Passkeys are not enabled' };
+
+// === Schemas ===
+
+/** base64url fields of a WebAuthn response (bounded, attestation objects are small) */
+const Base64Url = t.String({ maxLength: 16384 });
+
+const PasskeyResponseSchema = t.Object({
+  id: t.String(),
+  name: t.String(),
+  user: t.Optional(t.String()),
+  createdAt: t.String(),
+  lastUsedAt: t.Optional(t.String())
+});
+
+const PublicKeyDescriptorSchema = t.Object({
+  type: t.Literal('public-key'),
+  id: t.String(),
+  transports: t.Optional(t.Array(t.String()))
+});
+
+const RegistrationOptionsSchema = t.Object({
+  challenge: t.String(),
+  rp: t.Object({ id: t.String(), name: t.String() }),
+  user: t.Object({ id: t.String(), name: t.String(), displayName: t.String() }),
+  pubKeyCredParams: t.Array(t.Object({ type: t.Literal('public-key'), alg: t.Number() })),
+  timeout: t.Number(),
+  attestation: t.Literal('none'),
+  authenticatorSelection: t.Object({
+    residentKey: t.Literal('required'),
+    userVerification: t.Literal('required')
+  }),
+  excludeCredentials: t.Array(PublicKeyDescriptorSchema)
+});
+
+const LoginOptionsSchema = t.Object({
+  challenge: t.String(),
+  rpId: t.String(),
+  timeout: t.Number(),
+  userVerification: t.Literal('required')
+});
+
+// === Plugin ===
+
+export const passkeysPlugin = new Elysia({ prefix: '/api' })
+  .use(coreContext)
+  .use(authContextPlugin)
+
+  // GET /api/auth/passkeys - List registered passkeys
+  .get('/auth/passkeys', ({ passkeyManager }) => passkeyManager?.list().map(toResponse) ?? [], {
+    response: t.Array(PasskeyResponseSchema)
+  })
+
+  // DELETE /api/auth/passkeys/:id - Revoke a passkey by ID prefix
+  .delete(
+    '/auth/passkeys/:id',
+    ({ passkeyManager, params, set, audit }) => {
+      const revoked = passkeyManager?.revoke(params.id);
+      if (!revoked) {
+        set.status = 404;
+        return { error: 'NOT_FOUND', message: `No single passkey matches '${params.id}'` };
+      }
+      audit({ type: 'passkey_revoke', details: `${revoked.name} (${revoked.id.slice(0, 8)})` });
+      return { revoked: true, id: revoked.id, name: revoked.name };
+    },
+    {
+      params: t.Object({ id: t.String({ minLength: 1 }) }),
+      response: {
+        200: t.Object({ revoked: t.Boolean(), id: t.String(), name: t.String() }),
+        404: ErrorResponseSchema
+      }
+    }
+  )
+
+  // POST /api/auth/passkeys/register/options - Start registering a passkey
+  .post(
+    '/auth/passkeys/register/options',
+    ({ passkeyManager, store, request, body, user, set }) => {
+      if (!passkeyManager) {
+        set.status = 404;
+        return NOT_CONFIGURED;
+      }
+      if (!user) {
+        set.status = 401;
+        return { error: 'UNAUTHORIZED', message: 'Authentication required' };
+      }
+      const rpId = relyingPartyId(request);
+      return passkeyManager.registrationOptions({
+        rpId,
+        rpName: store.authOptions?.stealthMode ? rpId : 'bunterm',
+        user: user.name,
+        name: body?.name
+      });
+    },
+    {
+      body: t.Optional(t.Object({ name: t.Optional(t.String({ maxLength: 64 })) })),
+      response: {
+        200: RegistrationOptionsSchema,
+        401: ErrorResponseSchema,
+        404: ErrorResponseSchema
+      }
+    }
+  )
+
+  // POST /api/auth/passkeys/register - Verify and store the new passkey
+  .post(
+    '/auth/passkeys/register',
+    ({ passkeyManager, body, user, set, audit }) => {
+      if (!passkeyManager) {
+        set.status = 404;
+        return NOT_CONFIGURED;
+      }
+      if (!user) {
+        set.status = 401;
+        return { error: 'UNAUTHORIZED', message: 'Authentication required' };
+      }
+
+      const result = passkeyManager.finishRegistration(body.response, user.name);
+      if (!result.verified || !result.credential) {
+        set.status = 400;
+        return {
+          error: 'INVALID_PASSKEY',
+          message: `Passkey registration failed (${result.reason})`
+        };
+      }
+      audit({ type: 'passkey_register', details: result.credential.name });
+      return toResponse(result.credential);
+    },
+    {
+      body: t.Object({
+        id: t.String(),
+        response: t.Object({
+          clientDataJSON: Base64Url,
+          attestationObject: Base64Url,
+          transports: t.Optional(t.Array(t.String({ maxLength: 32 }), { maxItems: 8 }))
+        })
+      }),
+      response: {
+        200: PasskeyResponseSchema,
+        400: ErrorResponseSchema,
+        401: ErrorResponseSchema,
+        404: ErrorResponseSchema
+      }
+    }
+  )
+
+  // POST /api/auth/passkeys/login/options - Start a passwordless login
+  .post(
+    '/auth/passkeys/login/options',
+    ({ passkeyManager, store, request, set }) => {
+      if (!passkeyManager || !store.authOptions?.enabled) {
+        set.status = 404;
+        return NOT_CONFIGURED;
+      }
+      return passkeyManager.loginOptions(relyingPartyId(request));
+    },
+    {
+      response: {
+        200: LoginOptionsSchema,
+        404: ErrorResponseSchema
+      }
+    }
+  )
+
+  // POST /api/auth/passkeys/login - Exchange a passkey assertion for a cookie session
+  .post(
+    '/auth/passkeys/login',
+    ({ passkeyManager, store, request, body, remoteAddr, audit, set }) => {
+      const options = store.authOptions;
+      if (!passkeyManager || !options?.enabled) {
+        set.status = 404;
+        return NOT_CONFIGURED;
+      }
+
+      const result = passkeyManager.finishLogin(body.id, body.response);
+      if (!result.verified || !result.credential) {
+        audit({ type: 'auth_failure', details: `passkey: ${result.reason}` });
+        // Stealth mode: indistinguishable from any unknown path
+        if (options.stealthMode) {
+          set.status = 404;
+          return 'Not Found';
+        }
+        set.status = 401;
+        return { error: 'INVALID_PASSKEY', message: 'Passkey not recognized' };
+      }
+
+      // Session lifetime follows the Adaptive Shield zone of the caller
+      const { credential } = result;
+      const ttl = resolveSessionTtl(options, remoteAddr);
+      const session = options.cookieSessionStore.create(
+        ttl,
+        remoteAddr,
+        'passkey',
+        credential.user,
+        request.headers.get('User-Agent') ?? undefined
+      );
+      set.headers['set-cookie'] = buildSetCookieHeader(options.cookieName, session.id, {
+        httpOnly: true,
+        sameSite: 'Strict',
+        path: options.basePath,
+        maxAge: ttl,
+        secure: options.secureCookie
+      });
+      audit({
+        type: 'auth_success',
+        details: credential.user
+          ? `passkey login as ${credential.user} (${credential.name})`
+          : `passkey login (${credential.name})`
+      });
+
+      return {
+        networkZone: remoteAddr ? classifyNetwork(remoteAddr) : undefined,
+        expiresIn: ttl
+      };
+    },
+    {
+      body: t.Object({
+        id: t.String({ maxLength: 1024 }),
+        response: t.Object({
+          clientDataJSON: Base64Url,
+          authenticatorData: Base64Url,
+          signature: Base64Url,
+          userHandle: t.Optional(t.String({ maxLength: 256 }))
+        })
+      }),
+      response: {
+        200: t.Object({
+          networkZone: t.Optional(
+            t.Union([t.Literal('localhost'), t.Literal('lan'), t.Literal('internet')])
+          ),
+          expiresIn: t.Number()
+        }),
+        401: ErrorResponseSchema,
+        404: t.Union([ErrorResponseSchema, t.String()])
+      }
+    }
+  );
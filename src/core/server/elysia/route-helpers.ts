@@ -2,13 +2,16 @@
  * Shared route helpers for Elysia handlers.
  *
  * Eliminates duplicated session-lookup + path-validation sequences
- * across files.ts, preview.ts, and similar route modules.
+ * across files.ts, uploads.ts, preview.ts, and similar route modules.
  */
 
 // biome-ignore lint: existsSync used for synchronous path existence check in validation helper
 import { existsSync } from 'node:fs';
+import { extname } from 'node:path';
+import type { Config } from '@/core/config/types.js';
 import type { NativeSessionManager } from '@/core/server/session-manager.js';
 import type { TerminalSession } from '@/core/terminal/session.js';
+import { isExtensionAllowed } from '@/features/file-transfer/server/file-operations.js';
 import { validateSecurePath } from '@/utils/path-security.js';
 
 // =============================================================================
@@ -90,3 +93,63 @@ export function validateFilePath(
     session
   };
 }
+
+// =============================================================================
+// File transfer guards
+// =============================================================================
+
+/** Error status + body for a route to return */
+export interface RouteError {
+  status: number;
+  error: string;
+  message: string;
+}
+
+/**
+ * file_transfer gate: transfers must be enabled, and a new file name
+ * (upload, rename/move/copy target) must have an allowed extension
+ */
+export function checkTransfer(config: Config, newFileName?: string): RouteError | null {
+  const transfer = config.file_transfer;
+  if (!transfer.enabled) {
+    return {
+      status: 403,
+      error: 'FILE_TRANSFER_DISABLED',
+      message: 'File transfer is disabled (file_transfer.enabled)'
+    };
+  }
+  if (newFileName !== undefined && !isExtensionAllowed(transfer, newFileName)) {
+    return {
+      status: 403,
+      error: 'EXTENSION_NOT_ALLOWED',
+      message: `Extension not allowed: ${extname(newFileName) || '(none)'}`
+    };
+  }
+  return null;
+}
+
+/**
+ * Map a filesystem error to a response; unexpected errors are rethrown
+ */
+export function fsError(err: unknown): RouteError {
+  const code = (err as NodeJS.ErrnoException).code;
+  switch (code) {
+    case 'ENOENT':
+      return { status: 404, error: 'NOT_FOUND', message: 'Path not found' };
+    case 'EEXIST':
+    case 'ENOTEMPTY':
+    case 'ERR_FS_CP_EEXIST':
+      return { status: 409, error: 'ALREADY_EXISTS', message: 'Destination already exists' };
+    case 'EACCES':
+    case 'EPERM':
+      return { status: 403, error: 'PERMISSION_DENIED', message: 'Permission denied' };
+    case 'ENOTDIR':
+    case 'EISDIR':
+    case 'ERR_FS_CP_EINVAL':
+    case 'ERR_FS_CP_DIR_TO_NON_DIR':
+    case 'ERR_FS_CP_NON_DIR_TO_DIR':
+      return { status: 400, error: 'VALIDATION_FAILED', message: 'Invalid source or destination' };
+    default:
+      throw err;
+  }
+}
@@ -1,5 +1,6 @@
 import { describe, expect, test } from 'bun:test';
-import { createTestElysiaApp } from './test-helpers.js';
+import { visibleSessions } from './sessions.js';
+import { createMockSessionManager, createTestElysiaApp } from './test-helpers.js';
 
 // === Setup ===
 
@@ -94,6 +95,40 @@ describe('sessions API via Eden', () => {
     });
   });
 
+  describe('GET /api/sessions/:name/stats', () => {
+    const stats = {
+      bytesIn: 4096,
+      bytesOut: 8192,
+      bytesSkipped: 0,
+      frames: 3,
+      resyncs: 0,
+      bytesInPerSecond: 1024,
+      bytesOutPerSecond: 2048,
+      clients: 2,
+      laggingClients: 0,
+      maxBufferedAmount: 0
+    };
+    const { client: statsClient } = createTestElysiaApp({
+      sessionManager: createMockSessionManager({
+        getSession: (name: string) =>
+          name === 'test-session' ? { name, throughputStats: stats } : undefined
+      })
+    });
+
+    test('returns throughput stats of the session', async () => {
+      const { data, error } = await statsClient.api.sessions({ name: 'test-session' }).stats.get();
+
+      expect(error).toBeNull();
+      expect(data).toEqual(stats);
+    });
+
+    test('returns 404 for nonexistent session', async () => {
+      const { status } = await statsClient.api.sessions({ name: 'nonexistent' }).stats.get();
+
+      expect(status).toBe(404);
+    });
+  });
+
   describe('Eden type inference', () => {
     test('status response types are correctly inferred', async () => {
       const { data } = await client.api.status.get();
@@ -115,3 +150,11 @@ describe('sessions API via Eden', () => {
     });
   });
 });
+
+describe('visibleSessions', () => {
+  test('lists only sessions the caller can view', () => {
+    const sessions = [{ name: 'dev' }, { name: 'prod' }];
+
+    expect(visibleSessions(sessions, (name) => name !== 'prod')).toEqual([{ name: 'dev' }]);
+  });
+});
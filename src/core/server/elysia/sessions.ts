@@ -1,7 +1,7 @@
 /**
  * Sessions API Routes (Elysia)
  *
- * Handles session management: list, create, delete sessions.
+ * Handles session management: list, create, delete sessions, throughput stats.
  * Replaces the old sessions-routes.ts with Elysia's TypeBox validation.
  */
 
@@ -9,6 +9,7 @@ import { Elysia, t } from 'elysia';
 import { createTmuxClient } from '@/utils/tmux-client.js';
 import { coreContext } from './context.js';
 import { ErrorResponseSchema } from './errors.js';
+import { authContextPlugin } from './middleware/auth.js';
 
 // === Response Schemas ===
 
@@ -19,7 +20,8 @@ const SessionInfoSchema = t.Object({
   path: t.String(),
   dir: t.String(),
   started_at: t.String(),
-  clients: t.Optional(t.Number())
+  clients: t.Optional(t.Number()),
+  restored: t.Optional(t.Boolean())
 });
 
 const StatusResponseSchema = t.Object({
@@ -37,7 +39,8 @@ const SessionListItemSchema = t.Object({
   port: t.Number(),
   path: t.String(),
   dir: t.String(),
-  started_at: t.String()
+  started_at: t.String(),
+  restored: t.Optional(t.Boolean())
 });
 
 const TmuxSessionInfoSchema = t.Object({
@@ -71,23 +74,50 @@ const DeleteSessionResponseSchema = t.Object({
   success: t.Boolean()
 });
 
+const ThroughputStatsSchema = t.Object({
+  bytesIn: t.Number(),
+  bytesOut: t.Number(),
+  bytesSkipped: t.Number(),
+  frames: t.Number(),
+  resyncs: t.Number(),
+  bytesInPerSecond: t.Number(),
+  bytesOutPerSecond: t.Number(),
+  clients: t.Number(),
+  laggingClients: t.Number(),
+  maxBufferedAmount: t.Number()
+});
+
+// === Helpers ===
+
+/**
+ * Sessions the caller may view (the rest are not listed at all)
+ */
+export function visibleSessions<T extends { name: string }>(
+  sessions: T[],
+  can: (sessionName: string, permission: 'view') => boolean
+): T[] {
+  return sessions.filter((session) => can(session.name, 'view'));
+}
+
 // === Plugin ===
 
 export const sessionsPlugin = new Elysia({ prefix: '/api' })
   .use(coreContext)
+  .use(authContextPlugin)
 
   // GET /api/status - daemon status + sessions list
   .get(
     '/status',
-    ({ sessionManager, config }) => {
-      const sessions = sessionManager.listSessions().map((s) => ({
+    ({ sessionManager, config, can }) => {
+      const sessions = visibleSessions(sessionManager.listSessions(), can).map((s) => ({
         name: s.name,
         pid: s.pid,
         port: 0,
         path: `/${s.name}`,
         dir: s.dir,
         started_at: s.startedAt,
-        clients: s.clientCount
+        clients: s.clientCount,
+        restored: s.restored
       }));
 
       return {
@@ -105,14 +135,15 @@ export const sessionsPlugin = new Elysia({ prefix: '/api' })
   // GET /api/sessions - sessions array
   .get(
     '/sessions',
-    ({ sessionManager }) => {
-      return sessionManager.listSessions().map((s) => ({
+    ({ sessionManager, can }) => {
+      return visibleSessions(sessionManager.listSessions(), can).map((s) => ({
         name: s.name,
         pid: s.pid,
         port: 0,
         path: `/${s.name}`,
         dir: s.dir,
-        started_at: s.startedAt
+        started_at: s.startedAt,
+        restored: s.restored
       }));
     },
     { response: t.Array(SessionListItemSchema) }
@@ -155,7 +186,7 @@ export const sessionsPlugin = new Elysia({ prefix: '/api' })
   // POST /api/sessions - create a session
   .post(
     '/sessions',
-    async ({ sessionManager, config, body, set }) => {
+    async ({ sessionManager, config, body, set, store, user, audit }) => {
       const { name, dir, command } = body;
 
       // Check if session name already exists
@@ -173,6 +204,10 @@ export const sessionsPlugin = new Elysia({ prefix: '/api' })
         path: `${config.base_path}/${name}`,
         command
       });
+      if (user) {
+        store.accessControl?.setOwner(name, user);
+      }
+      audit({ type: 'session_create', sessionName: name, details: `dir ${session.cwd}` });
 
       set.status = 201;
       return {
@@ -192,10 +227,33 @@ export const sessionsPlugin = new Elysia({ prefix: '/api' })
     }
   )
 
+  // GET /api/sessions/:name/stats - output throughput
+  .get(
+    '/sessions/:name/stats',
+    ({ sessionManager, params, set }) => {
+      const session = sessionManager.getSession(params.name);
+      if (!session) {
+        set.status = 404;
+        return {
+          error: 'SESSION_NOT_FOUND',
+          message: `Session '${params.name}' not found`
+        };
+      }
+      return session.throughputStats;
+    },
+    {
+      params: t.Object({ name: t.String() }),
+      response: {
+        200: ThroughputStatsSchema,
+        404: ErrorResponseSchema
+      }
+    }
+  )
+
   // DELETE /api/sessions/:name - delete a session
   .delete(
     '/sessions/:name',
-    async ({ sessionManager, params, set }) => {
+    async ({ sessionManager, params, set, store, audit }) => {
       const sessionName = params.name;
 
       if (!sessionManager.hasSession(sessionName)) {
@@ -207,6 +265,8 @@ export const sessionsPlugin = new Elysia({ prefix: '/api' })
       }
 
       await sessionManager.stopSession(sessionName);
+      store.accessControl?.forgetSession(sessionName);
+      audit({ type: 'session_end', sessionName, details: 'deleted via API' });
       return { success: true };
     },
     {
@@ -0,0 +1,131 @@
+/**
+ * shareWebsocketPlugin tests
+ *
+ * As in websocket.test.ts, Bun's test HTTP handler cannot complete a real
+ * WebSocket upgrade: a 400 response means beforeHandle accepted the request.
+ */
+
+import { describe, expect, test } from 'bun:test';
+import { Elysia } from 'elysia';
+import type { Config } from '@/core/config/types.js';
+import type { NativeSessionManager } from '@/core/server/session-manager.js';
+import type { ShareManager, ShareState } from '@/features/share/server/share-manager.js';
+import { isShareViewerMessage, shareWebsocketPlugin } from './share-websocket.js';
+
+// === Helpers ===
+
+/** Only the sessionManager method the share socket touches */
+const fakeSessionManager: Pick<NativeSessionManager, 'getSession'> = {
+  getSession: () => undefined
+};
+
+function buildConfig() {
+  return {
+    base_path: '/bunterm',
+    daemon_port: 7680,
+    security: {
+      dev_mode: false,
+      allowed_origins: ['https://allowed.example.com']
+    }
+  };
+}
+
+function createShareManager(
+  shares: ShareState[]
+): Pick<ShareManager, 'validateShare' | 'getShare'> {
+  return {
+    validateShare: (token: string) => shares.find((s) => s.token === token) ?? null,
+    getShare: (token: string) => shares.find((s) => s.token === token)
+  };
+}
+
+function createTestApp(shares: ShareState[]) {
+  return new Elysia()
+    .state('sessionManager', fakeSessionManager as unknown as NativeSessionManager)
+    .state('config', buildConfig() as unknown as Config)
+    .state('shareManager', createShareManager(shares) as unknown as ShareManager)
+    .state('auditLogger', null)
+    .use(shareWebsocketPlugin());
+}
+
+function makeWsUpgradeRequest(url: string, originHeader?: string) {
+  const headers: Record<string, string> = {
+    Upgrade: 'websocket',
+    Connection: 'Upgrade',
+    'Sec-WebSocket-Key': 'dGhlIHNhbXBsZSBub25jZQ==',
+    'Sec-WebSocket-Version': '13'
+  };
+  if (originHeader !== undefined) {
+    headers['Origin'] = originHeader;
+  }
+  return new Request(url, { headers });
+}
+
+const validShare: ShareState = {
+  token: 'abc123',
+  sessionName: 'demo',
+  createdAt: new Date().toISOString(),
+  expiresAt: new Date(Date.now() + 3600_000).toISOString()
+};
+
+// === Tests ===
+
+describe('isShareViewerMessage', () => {
+  test('allows ping and replayRequest', () => {
+    expect(isShareViewerMessage({ type: 'ping' })).toBe(true);
+    expect(isShareViewerMessage({ type: 'replayRequest' })).toBe(true);
+  });
+
+  test('drops input, resize and file watch messages', () => {
+    for (const type of ['input', 'resize', 'watchFile', 'unwatchFile', 'watchDir', 'unwatchDir']) {
+      expect(isShareViewerMessage({ type })).toBe(false);
+    }
+  });
+});
+
+describe('shareWebsocketPlugin - upgrade validation', () => {
+  test('rejects unknown share token with 404', async () => {
+    const app = createTestApp([validShare]);
+
+    const res = await app.handle(
+      makeWsUpgradeRequest('http://localhost:7680/share/unknown/ws', 'https://allowed.example.com')
+    );
+
+    expect(res.status).toBe(404);
+  });
+
+  test('rejects disallowed origin with 403 even for a valid token', async () => {
+    const app = createTestApp([validShare]);
+
+    const res = await app.handle(
+      makeWsUpgradeRequest('http://127.0.0.1:7680/share/abc123/ws', 'https://evil.example.com')
+    );
+
+    expect(res.status).toBe(403);
+  });
+
+  test('passes validation (400 in test env) for a valid token and origin', async () => {
+    const app = createTestApp([validShare]);
+
+    const res = await app.handle(
+      makeWsUpgradeRequest('http://127.0.0.1:7680/share/abc123/ws', 'https://allowed.example.com')
+    );
+
+    expect(res.status).not.toBe(403);
+    expect(res.status).not.toBe(404);
+  });
+
+  test('rejects with 404 when no share manager is configured', async () => {
+    const app = new Elysia()
+      .state('sessionManager', fakeSessionManager as unknown as NativeSessionManager)
+      .state('config', buildConfig() as unknown as Config)
+      .state('shareManager', null)
+      .use(shareWebsocketPlugin());
+
+    const res = await app.handle(
+      makeWsUpgradeRequest('http://127.0.0.1:7680/share/abc123/ws', 'https://allowed.example.com')
+    );
+
+    expect(res.status).toBe(404);
+  });
+});
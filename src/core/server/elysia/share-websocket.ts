@@ -0,0 +1,167 @@
+/**
+ * Share WebSocket Plugin (Elysia)
+ *
+ * Read-only WebSocket endpoint for share links (/share/:token/ws).
+ * Unlike /:sessionName/ws, access is enforced on the server:
+ * - The share token is validated via ShareManager on upgrade and on open
+ * - Only ping/replayRequest are forwarded to the session; input, resize and
+ *   file-watch requests are dropped
+ * - Viewers are disconnected when the share expires or is revoked
+ * - Viewer connect/disconnect is recorded in the audit log
+ */
+
+import { Elysia } from 'elysia';
+import type { ClientMessage, NativeTerminalWebSocket } from '@/core/protocol/index.js';
+import { createErrorMessage, serializeServerMessage } from '@/core/protocol/index.js';
+import { createLogger } from '@/utils/logger.js';
+import { coreContext } from './context.js';
+import { authContextPlugin } from './middleware/auth.js';
+import { describeDevice, rejectDisallowedOrigin, WsClientMessage } from './websocket.js';
+
+const log = createLogger('share-websocket');
+
+/** How often viewers re-check that their share is still valid */
+const SHARE_REVALIDATE_INTERVAL_MS = 10_000;
+
+/** Close code for expired/revoked shares (policy violation) */
+const SHARE_CLOSE_CODE = 1008;
+
+/** Client→server message types a share viewer may send */
+const SHARE_VIEWER_MESSAGE_TYPES: ReadonlySet<string> = new Set<ClientMessage['type']>([
+  'ping',
+  'replayRequest'
+]);
+
+export interface ShareWebSocketPluginOptions {
+  /** Revalidation interval in ms (default: 10s) */
+  revalidateIntervalMs?: number;
+}
+
+interface ShareViewer {
+  sessionName: string;
+  timer: ReturnType<typeof setInterval>;
+}
+
+/**
+ * Whether a client message may be forwarded from a read-only share viewer.
+ */
+export function isShareViewerMessage(message: { type: string }): boolean {
+  return SHARE_VIEWER_MESSAGE_TYPES.has(message.type);
+}
+
+/**
+ * Shorten a share token for logs and audit records (the full token is a credential).
+ */
+function redactToken(token: string): string {
+  return `${token.slice(0, 8)}…`;
+}
+
+export const shareWebsocketPlugin = (options: ShareWebSocketPluginOptions = {}) => {
+  const { revalidateIntervalMs = SHARE_REVALIDATE_INTERVAL_MS } = options;
+
+  // Shares can be revoked out of process (`bunterm share revoke` edits state.json),
+  // so each viewer polls validateShare() rather than waiting for an in-process event.
+  const viewers = new Map<NativeTerminalWebSocket, ShareViewer>();
+
+  return new Elysia({ name: 'share-websocket' })
+    .use(coreContext)
+    .use(authContextPlugin)
+    .ws('/share/:token/ws', {
+      // Same schema as the session socket so regular clients don't get validation errors;
+      // disallowed messages are dropped in message()
+      body: WsClientMessage,
+      perMessageDeflate: true,
+      beforeHandle({ request, config, params, shareManager }) {
+        const originRejection = rejectDisallowedOrigin(request, config);
+        if (originRejection) {
+          return originRejection;
+        }
+
+        if (!shareManager?.validateShare(decodeURIComponent(params.token))) {
+          return new Response('Share link not found or expired', { status: 404 });
+        }
+        return;
+      },
+
+      open(ws) {
+        const token = decodeURIComponent(ws.data.params.token);
+        const { sessionManager, shareManager, audit } = ws.data;
+        const raw = ws.raw as unknown as NativeTerminalWebSocket;
+
+        // The share may have expired between upgrade and open
+        const share = shareManager?.validateShare(token);
+        if (!share) {
+          ws.send(serializeServerMessage(createErrorMessage('Share link not found or expired')));
+          ws.close();
+          return;
+        }
+
+        // Unlike the session socket, never auto-create a session for viewers
+        const session = sessionManager.getSession(share.sessionName);
+        if (!session) {
+          ws.send(serializeServerMessage(createErrorMessage('Session not found')));
+          ws.close();
+          return;
+        }
+
+        session.addClient(raw, {
+          device: describeDevice(ws.data.request?.headers.get('User-Agent')),
+          readOnly: true
+        });
+
+        const timer = setInterval(() => {
+          if (shareManager?.validateShare(token)) {
+            return;
+          }
+          log.info(`Share ${redactToken(token)} expired or revoked, closing viewer`);
+          ws.send(serializeServerMessage(createErrorMessage('Share link expired or revoked')));
+          ws.close(SHARE_CLOSE_CODE, 'Share expired or revoked');
+        }, revalidateIntervalMs);
+        viewers.set(raw, { sessionName: share.sessionName, timer });
+
+        audit({
+          type: 'ws_connect',
+          sessionName: share.sessionName,
+          details: `share viewer (token ${redactToken(token)})`
+        });
+      },
+
+      message(ws, message) {
+        // Binary frames only carry input, which viewers may not send
+        if (message instanceof Uint8Array || !isShareViewerMessage(message)) {
+          return;
+        }
+
+        const raw = ws.raw as unknown as NativeTerminalWebSocket;
+        const viewer = viewers.get(raw);
+        const session = viewer ? ws.data.sessionManager.getSession(viewer.sessionName) : undefined;
+        if (!session) {
+          ws.send(serializeServerMessage(createErrorMessage('Session not found')));
+          return;
+        }
+
+        session.handleMessage(raw, message);
+      },
+
+      close(ws) {
+        const token = decodeURIComponent(ws.data.params.token);
+        const { sessionManager, audit } = ws.data;
+        const raw = ws.raw as unknown as NativeTerminalWebSocket;
+
+        const viewer = viewers.get(raw);
+        if (!viewer) {
+          // Rejected in open() before registration
+          return;
+        }
+        clearInterval(viewer.timer);
+        viewers.delete(raw);
+        sessionManager.handleWebSocketClose(viewer.sessionName, raw);
+
+        audit({
+          type: 'ws_disconnect',
+          sessionName: viewer.sessionName,
+          details: `share viewer (token ${redactToken(token)})`
+        });
+      }
+    });
+};
@@ -4,6 +4,9 @@
  */
 
 import { treaty } from '@elysiajs/eden';
+import type { AuthMiddlewareOptions } from '@/core/server/auth/auth-middleware.js';
+import { InMemoryCookieSessionStore } from '@/core/server/auth/cookie-session.js';
+import { InMemoryNonceStore, TokenGenerator } from '@/core/server/ws/session-token.js';
 import { createElysiaApp } from './app.js';
 
 type MockSessionManager = Record<string, unknown>;
@@ -47,3 +50,44 @@ export function createTestElysiaApp(options?: {
   });
   return { app, client: treaty(app), sessionManager: sm, config: cfg };
 }
+
+// === Proxy-authenticated users (for session ACL tests) ===
+
+const TRUSTED_PROXY_ADDR = '10.0.0.1';
+
+/**
+ * Auth options that take the user from X-Forwarded-User sent by a trusted proxy
+ */
+export function createProxyAuthOptions(): AuthMiddlewareOptions {
+  return {
+    enabled: true,
+    localhostBypass: false,
+    cookieSessionStore: new InMemoryCookieSessionStore(),
+    tokenGenerator: new TokenGenerator({
+      secret: 'x'.repeat(32),
+      nonceStore: new InMemoryNonceStore()
+    }),
+    basePath: '/',
+    cookieName: 'bunterm-session',
+    sessionTtlSeconds: 3600,
+    secureCookie: false,
+    stealthMode: false,
+    proxyAuth: { trustedProxies: [TRUSTED_PROXY_ADDR], proxyHeader: 'X-Forwarded-User' },
+    adaptiveShield: false,
+    lanSessionTtlSeconds: 43200,
+    internetSessionTtlSeconds: 3600
+  };
+}
+
+/**
+ * Request from `user` through the trusted proxy of createProxyAuthOptions()
+ */
+export function requestAsUser(user: string, path: string, method = 'GET'): Request {
+  const request = new Request(`http://term.example.com${path}`, {
+    method,
+    headers: { 'X-Forwarded-User': user, 'Content-Type': 'application/json' },
+    body: method === 'GET' ? undefined : '{}'
+  });
+  Object.defineProperty(request, 'remoteAddress', { value: TRUSTED_PROXY_ADDR });
+  return request;
+}
@@ -0,0 +1,201 @@
+/**
+ * Tests for the resumable upload protocol (/api/files/uploads)
+ */
+
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { existsSync, mkdtempSync, readdirSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Elysia } from 'elysia';
+import { DEFAULT_FILE_TRANSFER_CONFIG, type FileTransferConfig } from '@/core/config/types.js';
+import { createMockSessionManager, DEFAULT_MOCK_CONFIG } from './test-helpers.js';
+import { uploadsPlugin } from './uploads.js';
+
+// === Helpers ===
+
+function createUploadsApp(cwd: string, fileTransfer: Partial<FileTransferConfig> = {}) {
+  const mockSessionManager = createMockSessionManager({
+    getSession: (name: string) =>
+      name === 'test-session' ? { name: 'test-session', pid: 1234, cwd } : undefined
+  });
+  const config = {
+    ...DEFAULT_MOCK_CONFIG,
+    file_transfer: { ...DEFAULT_FILE_TRANSFER_CONFIG, ...fileTransfer }
+  };
+
+  return new Elysia()
+    .state('sessionManager', mockSessionManager)
+    .state('config', config)
+    .use(uploadsPlugin);
+}
+
+type App = ReturnType<typeof createUploadsApp>;
+
+async function create(app: App, path: string, length: number | string) {
+  const query = new URLSearchParams({ session: 'test-session', path });
+  const res = await app.handle(
+    new Request(`http://localhost/api/files/uploads?${query.toString()}`, {
+      method: 'POST',
+      headers: { 'Upload-Length': String(length) }
+    })
+  );
+  return { res, data: (await res.json()) as Record<string, unknown> };
+}
+
+function patch(app: App, id: string, offset: number, chunk: string) {
+  return app.handle(
+    new Request(`http://localhost/api/files/uploads/${id}?session=test-session`, {
+      method: 'PATCH',
+      headers: {
+        'Content-Type': 'application/offset+octet-stream',
+        'Upload-Offset': String(offset)
+      },
+      body: chunk
+    })
+  );
+}
+
+function head(app: App, id: string) {
+  return app.handle(
+    new Request(`http://localhost/api/files/uploads/${id}?session=test-session`, {
+      method: 'HEAD'
+    })
+  );
+}
+
+// === Tests ===
+
+describe('resumable uploads', () => {
+  let cwd: string;
+  let stateDir: string;
+  let previousStateDir: string | undefined;
+  let app: App;
+
+  beforeEach(() => {
+    cwd = mkdtempSync(join(tmpdir(), 'bunterm-uploads-test-'));
+    stateDir = mkdtempSync(join(tmpdir(), 'bunterm-uploads-state-'));
+    previousStateDir = process.env['BUNTERM_STATE_DIR'];
+    process.env['BUNTERM_STATE_DIR'] = stateDir;
+    app = createUploadsApp(cwd);
+  });
+
+  afterEach(() => {
+    if (previousStateDir === undefined) {
+      delete process.env['BUNTERM_STATE_DIR'];
+    } else {
+      process.env['BUNTERM_STATE_DIR'] = previousStateDir;
+    }
+    rmSync(cwd, { recursive: true, force: true });
+    rmSync(stateDir, { recursive: true, force: true });
+  });
+
+  test('uploads a file in chunks and moves it into place', async () => {
+    const { res, data } = await create(app, 'big.txt', 11);
+    expect(res.status).toBe(201);
+    expect(res.headers.get('location')).toBe(`/api/files/uploads/${data['id']}`);
+    const id = data['id'] as string;
+
+    const first = await patch(app, id, 0, 'hello ');
+    expect(first.status).toBe(200);
+    expect(first.headers.get('upload-offset')).toBe('6');
+    expect(existsSync(join(cwd, 'big.txt'))).toBe(false);
+
+    const last = await patch(app, id, 6, 'world');
+    expect(await last.json()).toEqual({ offset: 11, length: 11, complete: true, path: 'big.txt' });
+    expect(await Bun.file(join(cwd, 'big.txt')).text()).toBe('hello world');
+    expect(readdirSync(join(stateDir, 'uploads'))).toEqual([]);
+  });
+
+  test('HEAD reports the offset to resume from', async () => {
+    const { data } = await create(app, 'a.bin', 10);
+    const id = data['id'] as string;
+    await patch(app, id, 0, 'abcd');
+
+    const res = await head(app, id);
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get('upload-offset')).toBe('4');
+    expect(res.headers.get('upload-length')).toBe('10');
+  });
+
+  test('rejects a chunk at the wrong offset with the current one', async () => {
+    const { data } = await create(app, 'a.bin', 10);
+    const id = data['id'] as string;
+    await patch(app, id, 0, 'abcd');
+
+    const res = await patch(app, id, 0, 'abcd');
+
+    expect(res.status).toBe(409);
+    expect(((await res.json()) as { offset: number }).offset).toBe(4);
+  });
+
+  test('appends only one of two overlapping chunks at the same offset', async () => {
+    const { data } = await create(app, 'a.bin', 10);
+    const id = data['id'] as string;
+
+    const statuses = (await Promise.all([patch(app, id, 0, 'abcd'), patch(app, id, 0, 'abcd')]))
+      .map((res) => res.status)
+      .sort();
+
+    expect(statuses).toEqual([200, 409]);
+    expect((await head(app, id)).headers.get('upload-offset')).toBe('4');
+  });
+
+  test('rejects a chunk that goes past Upload-Length', async () => {
+    const { data } = await create(app, 'a.bin', 3);
+
+    expect((await patch(app, data['id'] as string, 0, 'abcd')).status).toBe(413);
+  });
+
+  test('enforces max_file_size and allowed_extensions on create', async () => {
+    const limited = createUploadsApp(cwd, { max_file_size: 1024, allowed_extensions: ['.txt'] });
+
+    expect((await create(limited, 'a.txt', 2048)).res.status).toBe(413);
+    expect((await create(limited, 'a.sh', 10)).res.status).toBe(403);
+    expect((await create(limited, 'a.txt', 'abc')).res.status).toBe(400);
+  });
+
+  test('refuses destinations outside the session cwd', async () => {
+    expect((await create(app, '../escape.txt', 1)).res.status).toBe(403);
+  });
+
+  test('expired uploads are gone', async () => {
+    const { data } = await create(app, 'a.bin', 10);
+    const id = data['id'] as string;
+    const recordPath = join(stateDir, 'uploads', `${id}.json`);
+    const record = JSON.parse(await Bun.file(recordPath).text()) as Record<string, unknown>;
+    await Bun.write(
+      recordPath,
+      JSON.stringify({ ...record, expiresAt: new Date(0).toISOString() })
+    );
+
+    expect((await head(app, id)).status).toBe(404);
+    expect(existsSync(recordPath)).toBe(false);
+  });
+
+  test('DELETE cancels an upload', async () => {
+    const { data } = await create(app, 'a.bin', 10);
+    const id = data['id'] as string;
+
+    const res = await app.handle(
+      new Request(`http://localhost/api/files/uploads/${id}?session=test-session`, {
+        method: 'DELETE'
+      })
+    );
+
+    expect(res.status).toBe(200);
+    expect((await head(app, id)).status).toBe(404);
+  });
+
+  test('an upload is only visible to its own session', async () => {
+    const { data } = await create(app, 'a.bin', 10);
+
+    const res = await app.handle(
+      new Request(`http://localhost/api/files/uploads/${data['id']}?session=other`, {
+        method: 'HEAD'
+      })
+    );
+
+    expect(res.status).toBe(404);
+  });
+});
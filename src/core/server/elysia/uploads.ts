@@ -0,0 +1,339 @@
+/**
+ * Resumable Upload Routes (Elysia)
+ *
+ * tus-style protocol for large uploads over flaky connections:
+ *
+ *   POST   /api/files/uploads?session=&path=   Upload-Length: <bytes>  → 201 + Location
+ *   HEAD   /api/files/uploads/:id?session=     → Upload-Offset / Upload-Length
+ *   PATCH  /api/files/uploads/:id?session=     Upload-Offset: <bytes>, body = next chunk
+ *   DELETE /api/files/uploads/:id?session=     → cancel
+ *
+ * The client sends chunks at the offset the server reports; after a
+ * dropped connection it asks HEAD for the offset and continues from there.
+ * When the last byte arrives the file is moved to its destination.
+ * Gated by config.file_transfer like the other file routes.
+ */
+
+import { existsSync, statSync } from 'node:fs';
+import { dirname } from 'node:path';
+import { Elysia, t } from 'elysia';
+import type { Config } from '@/core/config/types.js';
+import type { NativeSessionManager } from '@/core/server/session-manager.js';
+import { movePath } from '@/features/file-transfer/server/file-operations.js';
+import {
+  appendChunk,
+  createUpload,
+  getPartPath,
+  getUpload,
+  getUploadsDir,
+  pruneExpiredUploads,
+  removeUpload,
+  type UploadStatus
+} from '@/features/file-transfer/server/resumable-upload.js';
+import { createLogger } from '@/utils/logger.js';
+import { coreContext } from './context.js';
+import { ErrorResponseSchema } from './errors.js';
+import { checkTransfer, fsError, type RouteError, validateFilePath } from './route-helpers.js';
+
+const log = createLogger('uploads-api');
+
+/** Content type of PATCH bodies (as in tus) */
+const CHUNK_CONTENT_TYPE = 'application/offset+octet-stream';
+
+/** Last queued PATCH per upload id: chunks of one upload are appended one at a time */
+const uploadQueues = new Map<string, Promise<unknown>>();
+
+/**
+ * Run `task` after every earlier task for the same upload has settled
+ * (a client retrying after a timeout may overlap its first request)
+ */
+async function serializeUpload<T>(id: string, task: () => Promise<T>): Promise<T> {
+  const run = (uploadQueues.get(id) ?? Promise.resolve()).then(task);
+  const settled = run.catch(() => undefined);
+  uploadQueues.set(id, settled);
+  try {
+    return await run;
+  } finally {
+    if (uploadQueues.get(id) === settled) {
+      uploadQueues.delete(id);
+    }
+  }
+}
+
+function offsetMismatch(offset: number) {
+  return {
+    error: 'OFFSET_MISMATCH',
+    message: `Upload is at offset ${offset}`,
+    offset
+  };
+}
+
+function tooLarge(config: Config): RouteError {
+  const maxSize = config.file_transfer.max_file_size;
+  return {
+    status: 413,
+    error: 'PAYLOAD_TOO_LARGE',
+    message: `File exceeds the ${Math.round(maxSize / 1024 / 1024)}MB limit (file_transfer.max_file_size)`
+  };
+}
+
+/**
+ * Resolve an upload's destination inside its session; the destination
+ * directory must exist and the destination must not be a directory
+ */
+function resolveDestination(
+  sessionManager: NativeSessionManager,
+  session: string,
+  path: string
+): { valid: true; targetPath: string } | ({ valid: false } & RouteError) {
+  const result = validateFilePath(sessionManager, session, path);
+  if (!result.valid) {
+    return result;
+  }
+  if (!existsSync(dirname(result.targetPath))) {
+    return { valid: false, status: 404, error: 'NOT_FOUND', message: 'Directory not found' };
+  }
+  if (existsSync(result.targetPath) && statSync(result.targetPath).isDirectory()) {
+    return {
+      valid: false,
+      status: 400,
+      error: 'VALIDATION_FAILED',
+      message: 'Path is a directory'
+    };
+  }
+  return { valid: true, targetPath: result.targetPath };
+}
+
+/**
+ * Move a fully received upload to its destination (overwriting, like a
+ * plain upload)
+ */
+async function completeUpload(
+  sessionManager: NativeSessionManager,
+  dir: string,
+  upload: UploadStatus
+): Promise<RouteError | null> {
+  const destination = resolveDestination(sessionManager, upload.session, upload.path);
+  if (!destination.valid) {
+    return destination;
+  }
+  try {
+    await movePath(getPartPath(dir, upload.id), destination.targetPath);
+  } catch (err) {
+    return fsError(err);
+  }
+  await removeUpload(dir, upload.id);
+  log.info(`Uploaded ${destination.targetPath} (${upload.length} bytes, resumable)`);
+  return null;
+}
+
+const UploadCreatedSchema = t.Object({
+  id: t.String(),
+  offset: t.Number(),
+  length: t.Number(),
+  expiresAt: t.String(),
+  complete: t.Boolean()
+});
+
+const ChunkResponseSchema = t.Object({
+  offset: t.Number(),
+  length: t.Number(),
+  complete: t.Boolean(),
+  path: t.String()
+});
+
+const OffsetConflictSchema = t.Object({
+  error: t.String(),
+  message: t.String(),
+  offset: t.Number()
+});
+
+const UploadParamsSchema = t.Object({ id: t.String() });
+const SessionQuerySchema = t.Object({ session: t.String({ minLength: 1 }) });
+
+export const uploadsPlugin = new Elysia({ prefix: '/api' })
+  .use(coreContext)
+
+  // POST /api/files/uploads?session=xxx&path=yyy - Start an upload of Upload-Length bytes
+  .post(
+    '/files/uploads',
+    async ({ sessionManager, config, query, request, set }) => {
+      const denied = checkTransfer(config, query.path);
+      if (denied) {
+        set.status = denied.status;
+        return { error: denied.error, message: denied.message };
+      }
+
+      const lengthHeader = request.headers.get('upload-length') ?? '';
+      const length = Number(lengthHeader);
+      if (!/^\d+$/.test(lengthHeader) || !Number.isSafeInteger(length)) {
+        set.status = 400;
+        return { error: 'VALIDATION_FAILED', message: 'Missing or invalid Upload-Length header' };
+      }
+      if (length > config.file_transfer.max_file_size) {
+        const failure = tooLarge(config);
+        set.status = failure.status;
+        return { error: failure.error, message: failure.message };
+      }
+
+      const destination = resolveDestination(sessionManager, query.session, query.path);
+      if (!destination.valid) {
+        set.status = destination.status;
+        return { error: destination.error, message: destination.message };
+      }
+
+      const dir = getUploadsDir();
+      await pruneExpiredUploads(dir);
+      const record = await createUpload(dir, {
+        session: query.session,
+        path: query.path,
+        length,
+        ttlSeconds: config.file_transfer.upload_ttl_seconds
+      });
+
+      let complete = false;
+      if (length === 0) {
+        const failure = await completeUpload(sessionManager, dir, { ...record, offset: 0 });
+        if (failure) {
+          set.status = failure.status;
+          return { error: failure.error, message: failure.message };
+        }
+        complete = true;
+      }
+
+      set.status = 201;
+      set.headers['location'] = `${new URL(request.url).pathname}/${record.id}`;
+      set.headers['upload-offset'] = '0';
+      return { id: record.id, offset: 0, length, expiresAt: record.expiresAt, complete };
+    },
+    {
+      query: t.Object({
+        session: t.String({ minLength: 1 }),
+        path: t.String({ minLength: 1 })
+      }),
+      response: {
+        201: UploadCreatedSchema,
+        400: ErrorResponseSchema,
+        403: ErrorResponseSchema,
+        404: ErrorResponseSchema,
+        409: ErrorResponseSchema,
+        413: ErrorResponseSchema
+      }
+    }
+  )
+
+  // HEAD /api/files/uploads/:id?session=xxx - Current offset
+  .head(
+    '/files/uploads/:id',
+    async ({ query, params, set }) => {
+      const upload = await getUpload(getUploadsDir(), params.id);
+      set.headers['cache-control'] = 'no-store';
+      if (!upload || upload.session !== query.session) {
+        set.status = 404;
+        return '';
+      }
+      set.headers['upload-offset'] = String(upload.offset);
+      set.headers['upload-length'] = String(upload.length);
+      return '';
+    },
+    { query: SessionQuerySchema, params: UploadParamsSchema }
+  )
+
+  // PATCH /api/files/uploads/:id?session=xxx - Append the chunk at Upload-Offset
+  .patch(
+    '/files/uploads/:id',
+    async ({ sessionManager, config, query, params, request, set }) => {
+      const denied = checkTransfer(config);
+      if (denied) {
+        set.status = denied.status;
+        return { error: denied.error, message: denied.message };
+      }
+
+      const dir = getUploadsDir();
+      const upload = await getUpload(dir, params.id);
+      if (!upload || upload.session !== query.session) {
+        set.status = 404;
+        return { error: 'NOT_FOUND', message: 'Upload not found or expired' };
+      }
+      if (request.headers.get('content-type') !== CHUNK_CONTENT_TYPE) {
+        set.status = 415;
+        return { error: 'UNSUPPORTED_MEDIA_TYPE', message: `Expected ${CHUNK_CONTENT_TYPE}` };
+      }
+      const claimedOffset = request.headers.get('upload-offset');
+      if (claimedOffset !== String(upload.offset)) {
+        // Client is out of sync (e.g. a retried chunk already landed)
+        set.status = 409;
+        set.headers['upload-offset'] = String(upload.offset);
+        return offsetMismatch(upload.offset);
+      }
+
+      const chunk = new Uint8Array(await request.arrayBuffer());
+
+      return serializeUpload(upload.id, async () => {
+        // Re-read the part file size: an overlapping PATCH may have appended meanwhile
+        const current = await getUpload(dir, upload.id);
+        if (!current) {
+          set.status = 404;
+          return { error: 'NOT_FOUND', message: 'Upload not found or expired' };
+        }
+        if (claimedOffset !== String(current.offset)) {
+          set.status = 409;
+          set.headers['upload-offset'] = String(current.offset);
+          return offsetMismatch(current.offset);
+        }
+        if (current.offset + chunk.byteLength > current.length) {
+          set.status = 413;
+          return { error: 'PAYLOAD_TOO_LARGE', message: 'Chunk goes past Upload-Length' };
+        }
+
+        const offset = await appendChunk(dir, current, chunk);
+        set.headers['upload-offset'] = String(offset);
+
+        const complete = offset === current.length;
+        if (complete) {
+          const failure = await completeUpload(sessionManager, dir, { ...current, offset });
+          if (failure) {
+            set.status = failure.status;
+            return { error: failure.error, message: failure.message };
+          }
+        }
+        return { offset, length: current.length, complete, path: current.path };
+      });
+    },
+    {
+      query: SessionQuerySchema,
+      params: UploadParamsSchema,
+      response: {
+        200: ChunkResponseSchema,
+        400: ErrorResponseSchema,
+        403: ErrorResponseSchema,
+        404: ErrorResponseSchema,
+        409: t.Union([OffsetConflictSchema, ErrorResponseSchema]),
+        413: ErrorResponseSchema,
+        415: ErrorResponseSchema
+      }
+    }
+  )
+
+  // DELETE /api/files/uploads/:id?session=xxx - Cancel an upload
+  .delete(
+    '/files/uploads/:id',
+    async ({ query, params, set }) => {
+      const dir = getUploadsDir();
+      const upload = await getUpload(dir, params.id);
+      if (!upload || upload.session !== query.session) {
+        set.status = 404;
+        return { error: 'NOT_FOUND', message: 'Upload not found or expired' };
+      }
+      await removeUpload(dir, upload.id);
+      return { success: true };
+    },
+    {
+      query: SessionQuerySchema,
+      params: UploadParamsSchema,
+      response: {
+        200: t.Object({ success: t.Boolean() }),
+        404: ErrorResponseSchema
+      }
+    }
+  );
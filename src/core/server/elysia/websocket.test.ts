@@ -41,7 +41,11 @@ function buildConfig(overrides?: {
       auth_proxy_header: 'X-Forwarded-User',
       auth_adaptive_shield: false,
       auth_lan_session_ttl_seconds: 604800,
-      auth_internet_session_ttl_seconds: 3600
+      auth_internet_session_ttl_seconds: 3600,
+      audit_max_size: 10 * 1024 * 1024,
+      audit_max_files: 5,
+      auth_default_role: 'admin',
+      session_acls: []
     },
     hostname: overrides?.hostname
   };
@@ -7,11 +7,23 @@
  * Security features:
  * - Origin validation for CSWSH protection
  * - Optional Sec-WebSocket-Protocol bearer token authentication
+ * - Session ACLs: no `view` permission closes the socket, no `input`
+ *   permission joins as a read-only participant
+ *
+ * Clients requesting the `bunterm.binary.v1` subprotocol exchange terminal
+ * output/input as binary frames (see core/protocol/binary.ts); other clients
+ * keep the JSON protocol.
  */
 
 import { Elysia, t } from 'elysia';
+import type { Config } from '@/core/config/types.js';
 import type { NativeTerminalWebSocket } from '@/core/protocol/index.js';
-import { createErrorMessage, serializeServerMessage } from '@/core/protocol/index.js';
+import {
+  acceptsBinaryProtocol,
+  BINARY_PROTOCOL,
+  createErrorMessage,
+  serializeServerMessage
+} from '@/core/protocol/index.js';
 
 // === WebSocket Message Schemas (TypeBox) ===
 // Single source of truth for client→server WS protocol.
@@ -41,8 +53,20 @@ const WsUnwatchDirMessage = t.Object({
   path: t.String({ minLength: 1 })
 });
 const WsReplayRequestMessage = t.Object({ type: t.Literal('replayRequest') });
+const WsRequestControlMessage = t.Object({ type: t.Literal('requestControl') });
+const WsGrantControlMessage = t.Object({
+  type: t.Literal('grantControl'),
+  participantId: t.String({ minLength: 1 })
+});
+const WsDenyControlMessage = t.Object({
+  type: t.Literal('denyControl'),
+  participantId: t.String({ minLength: 1 })
+});
+const WsReleaseControlMessage = t.Object({ type: t.Literal('releaseControl') });
+// Binary frame (binary subprotocol only), decoded by TerminalSession
+const WsBinaryFrame = t.Uint8Array();
 
-const WsClientMessage = t.Union([
+export const WsClientMessage = t.Union([
   WsInputMessage,
   WsResizeMessage,
   WsPingMessage,
@@ -50,9 +74,15 @@ const WsClientMessage = t.Union([
   WsUnwatchFileMessage,
   WsWatchDirMessage,
   WsUnwatchDirMessage,
-  WsReplayRequestMessage
+  WsReplayRequestMessage,
+  WsRequestControlMessage,
+  WsGrantControlMessage,
+  WsDenyControlMessage,
+  WsReleaseControlMessage,
+  WsBinaryFrame
 ]);
 
+import { hasRole } from '@/core/server/auth/access-control.js';
 import {
   createSecurityConfig,
   extractBearerToken,
@@ -60,128 +90,214 @@ import {
   validateOrigin
 } from '@/core/server/ws/index.js';
 import { coreContext } from './context.js';
+import { authPlugin } from './middleware/auth.js';
 
 export interface WebSocketPluginOptions {
   /** Enable token authentication (default: false for backward compatibility) */
   enableTokenAuth?: boolean;
 }
 
+/** User-Agent fragments mapped to device names, checked in order */
+const DEVICE_PATTERNS: ReadonlyArray<[RegExp, string]> = [
+  [/iPad/, 'iPad'],
+  [/iPhone/, 'iPhone'],
+  [/Android/, 'Android'],
+  [/Macintosh|Mac OS X/, 'Mac'],
+  [/Windows/, 'Windows'],
+  [/CrOS/, 'ChromeOS'],
+  [/Linux/, 'Linux']
+];
+
+/**
+ * Describe the client device from its User-Agent (for presence)
+ */
+export function describeDevice(userAgent: string | null | undefined): string {
+  if (!userAgent) {
+    return 'Unknown device';
+  }
+  const found = DEVICE_PATTERNS.find(([pattern]) => pattern.test(userAgent));
+  return found ? found[1] : 'Unknown device';
+}
+
+/**
+ * Validate the Origin header of a WebSocket upgrade request.
+ * Returns a 403 Response when rejected, undefined when allowed.
+ */
+export function rejectDisallowedOrigin(request: Request, config: Config): Response | undefined {
+  // Build SecurityConfig from coreContext config on each request
+  const securityConfig = createSecurityConfig({
+    devMode: config.security.dev_mode,
+    allowedOrigins: config.security.allowed_origins,
+    hostname: config.hostname
+  });
+
+  const originResult = validateOrigin(request, securityConfig);
+  if (!originResult.allowed) {
+    return new Response(`Forbidden: ${originResult.reason}`, { status: 403 });
+  }
+  return undefined;
+}
+
 export const websocketPlugin = (options: WebSocketPluginOptions = {}) => {
   const { enableTokenAuth = false } = options;
 
-  return new Elysia({ name: 'websocket' }).use(coreContext).ws('/:sessionName/ws', {
-    body: WsClientMessage,
-    // Enable WebSocket per-message compression (deflate) to reduce bandwidth
-    // for long terminal output on mobile networks
-    perMessageDeflate: true,
-    beforeHandle({ request, config }) {
-      // Build SecurityConfig from coreContext config on each request
-      const securityConfig = createSecurityConfig({
-        devMode: config.security.dev_mode,
-        allowedOrigins: config.security.allowed_origins,
-        hostname: config.hostname
-      });
-
-      // Origin validation on upgrade
-      const originResult = validateOrigin(request, securityConfig);
-      if (!originResult.allowed) {
-        return new Response(`Forbidden: ${originResult.reason}`, { status: 403 });
-      }
+  // Clients that got past open(), so disconnects are only audited for real connections
+  const connected = new WeakSet<NativeTerminalWebSocket>();
+
+  return new Elysia({ name: 'websocket' })
+    .use(coreContext)
+    .use(authPlugin)
+    .ws('/:sessionName/ws', {
+      body: WsClientMessage,
+      // Enable WebSocket per-message compression (deflate) to reduce bandwidth
+      // for long terminal output on mobile networks
+      perMessageDeflate: true,
+      upgrade({ request, set }) {
+        // Select the binary subprotocol explicitly; Bun would otherwise echo
+        // the first requested protocol (e.g. bearer.<token>)
+        if (acceptsBinaryProtocol(request.headers.get('Sec-WebSocket-Protocol'))) {
+          set.headers['sec-websocket-protocol'] = BINARY_PROTOCOL;
+        }
+      },
+      beforeHandle({ request, config }) {
+        // Origin validation on upgrade
+        const originRejection = rejectDisallowedOrigin(request, config);
+        if (originRejection) {
+          return originRejection;
+        }
 
-      // Token authentication (optional)
-      if (enableTokenAuth) {
-        const protocols = request.headers.get('Sec-WebSocket-Protocol');
-        const token = extractBearerToken(protocols);
+        // Token authentication (optional)
+        if (enableTokenAuth) {
+          const protocols = request.headers.get('Sec-WebSocket-Protocol');
+          const token = extractBearerToken(protocols);
 
-        if (!token) {
-          return new Response('Unauthorized: Token required', { status: 401 });
+          if (!token) {
+            return new Response('Unauthorized: Token required', { status: 401 });
+          }
         }
-      }
-      return;
-    },
-
-    async open(ws) {
-      const sessionName = ws.data.params.sessionName;
-      const sessionManager = ws.data.sessionManager;
-      const config = ws.data.config;
-
-      // Token validation (if enabled)
-      if (enableTokenAuth) {
-        const protocols = ws.data.request?.headers.get('Sec-WebSocket-Protocol') ?? null;
-        const token = extractBearerToken(protocols);
-
-        if (token) {
-          const tokenGenerator = getTokenGenerator();
-          const validation = await tokenGenerator.validate(token);
-
-          if (!validation.valid) {
-            ws.send(
-              serializeServerMessage(createErrorMessage(`Unauthorized: ${validation.error}`))
-            );
+        return;
+      },
+
+      async open(ws) {
+        const sessionName = ws.data.params.sessionName;
+        const sessionManager = ws.data.sessionManager;
+        const config = ws.data.config;
+
+        // Token validation (if enabled)
+        if (enableTokenAuth) {
+          const protocols = ws.data.request?.headers.get('Sec-WebSocket-Protocol') ?? null;
+          const token = extractBearerToken(protocols);
+
+          if (token) {
+            const tokenGenerator = getTokenGenerator();
+            const validation = await tokenGenerator.validate(token);
+
+            if (!validation.valid) {
+              ws.send(
+                serializeServerMessage(createErrorMessage(`Unauthorized: ${validation.error}`))
+              );
+              ws.close();
+              return;
+            }
+
+            if (validation.session?.sid !== sessionName) {
+              ws.send(
+                serializeServerMessage(createErrorMessage('Unauthorized: Token session mismatch'))
+              );
+              ws.close();
+              return;
+            }
+          }
+        }
+
+        // Enforced by the auth guard on upgrade too; checked again on the open socket
+        const user = ws.data.user;
+        if (!user || !ws.data.can(sessionName, 'view')) {
+          ws.send(serializeServerMessage(createErrorMessage('Forbidden')));
+          ws.close();
+          return;
+        }
+
+        // Create session if it doesn't exist (auto-create on connect, not for viewers)
+        if (!sessionManager.hasSession(sessionName)) {
+          if (!hasRole(user, 'operator')) {
+            ws.send(serializeServerMessage(createErrorMessage('Session not found')));
             ws.close();
             return;
           }
-
-          if (validation.session?.sid !== sessionName) {
-            ws.send(
-              serializeServerMessage(createErrorMessage('Unauthorized: Token session mismatch'))
-            );
+          try {
+            const basePath = config.base_path;
+            await sessionManager.createSession({
+              name: sessionName,
+              dir: process.cwd(),
+              path: `${basePath}/${sessionName}`
+            });
+            ws.data.store.accessControl?.setOwner(sessionName, user);
+            ws.data.audit({
+              type: 'session_create',
+              sessionName,
+              details: 'created on WebSocket connect'
+            });
+          } catch {
+            ws.send(serializeServerMessage(createErrorMessage('Failed to create session')));
             ws.close();
             return;
           }
         }
-      }
 
-      // Create session if it doesn't exist (auto-create on connect)
-      if (!sessionManager.hasSession(sessionName)) {
-        try {
-          const basePath = config.base_path;
-          await sessionManager.createSession({
-            name: sessionName,
-            dir: process.cwd(),
-            path: `${basePath}/${sessionName}`
-          });
-        } catch {
-          ws.send(serializeServerMessage(createErrorMessage('Failed to create session')));
+        const session = sessionManager.getSession(sessionName);
+        if (!session) {
+          ws.send(serializeServerMessage(createErrorMessage('Session not found')));
           ws.close();
           return;
         }
-      }
 
-      const session = sessionManager.getSession(sessionName);
-      if (!session) {
-        ws.send(serializeServerMessage(createErrorMessage('Session not found')));
-        ws.close();
-        return;
-      }
+        // Add client to session — cast to match existing NativeTerminalWebSocket interface
+        const raw = ws.raw as unknown as NativeTerminalWebSocket;
+        session.addClient(
+          raw,
+          {
+            user: user.name,
+            device: describeDevice(ws.data.request?.headers.get('User-Agent')),
+            readOnly: !ws.data.can(sessionName, 'input')
+          },
+          {
+            binary: acceptsBinaryProtocol(ws.data.request?.headers.get('Sec-WebSocket-Protocol'))
+          }
+        );
+        connected.add(raw);
+        ws.data.audit({ type: 'ws_connect', sessionName });
+      },
 
-      // Add client to session — cast to match existing NativeTerminalWebSocket interface
-      session.addClient(ws.raw as unknown as NativeTerminalWebSocket);
-    },
+      message(ws, message) {
+        const sessionName = ws.data.params.sessionName;
+        const sessionManager = ws.data.sessionManager;
 
-    message(ws, message) {
-      const sessionName = ws.data.params.sessionName;
-      const sessionManager = ws.data.sessionManager;
+        const session = sessionManager.getSession(sessionName);
+        if (!session) {
+          ws.send(serializeServerMessage(createErrorMessage('Session not found')));
+          return;
+        }
 
-      const session = sessionManager.getSession(sessionName);
-      if (!session) {
-        ws.send(serializeServerMessage(createErrorMessage('Session not found')));
-        return;
-      }
+        if (message instanceof Uint8Array) {
+          session.handleBinaryMessage(ws.raw as unknown as NativeTerminalWebSocket, message);
+          return;
+        }
 
-      // Elysia validates and auto-parses the message via TypeBox body schema.
-      // Pass the already-validated object directly to avoid double-parse.
-      session.handleMessage(ws.raw as unknown as NativeTerminalWebSocket, message);
-    },
+        // Elysia validates and auto-parses the message via TypeBox body schema.
+        // Pass the already-validated object directly to avoid double-parse.
+        session.handleMessage(ws.raw as unknown as NativeTerminalWebSocket, message);
+      },
 
-    close(ws) {
-      const sessionName = ws.data.params.sessionName;
-      const sessionManager = ws.data.sessionManager;
+      close(ws) {
+        const sessionName = ws.data.params.sessionName;
+        const sessionManager = ws.data.sessionManager;
 
-      sessionManager.handleWebSocketClose(
-        sessionName,
-        ws.raw as unknown as NativeTerminalWebSocket
-      );
-    }
-  });
+        const raw = ws.raw as unknown as NativeTerminalWebSocket;
+        sessionManager.handleWebSocketClose(sessionName, raw);
+        if (connected.delete(raw)) {
+          ws.data.audit({ type: 'ws_disconnect', sessionName });
+        }
+      }
+    });
 };
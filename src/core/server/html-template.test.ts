@@ -189,6 +189,20 @@ describe('generateNativeTerminalHtml', () => {
     expect(html).toContain('"isShared":true');
   });
 
+  test('connects shared views to the read-only share WebSocket', () => {
+    const html = generateNativeTerminalHtml({
+      sessionName: 'test-session',
+      basePath: '/bunterm',
+      sessionPath: '/bunterm/test-session',
+      config: createTestConfig(),
+      isShared: true,
+      shareToken: 'abc123'
+    });
+
+    expect(html).toContain("'/bunterm/share/abc123/ws'");
+    expect(html).not.toContain("'/bunterm/test-session/ws'");
+  });
+
   test('escapes HTML special characters in title', () => {
     const html = generateNativeTerminalHtml({
       sessionName: '<script>alert("xss")</script>',
@@ -20,6 +20,8 @@ export interface NativeTerminalHtmlOptions {
   config: Config;
   /** Whether this is a shared (read-only) view */
   isShared?: boolean;
+  /** Share token; when set, the client connects to the read-only share WebSocket */
+  shareToken?: string;
   /** Page title override */
   title?: string;
   /** Current working directory of the session */
@@ -38,6 +40,7 @@ export function generateNativeTerminalHtml(options: NativeTerminalHtmlOptions):
     sessionPath,
     config,
     isShared = false,
+    shareToken,
     title = `${sessionName} - bunterm`,
     cwd = '',
     nonce
@@ -46,7 +49,9 @@ export function generateNativeTerminalHtml(options: NativeTerminalHtmlOptions):
   // Build nonce attribute string for script tags
   const nonceAttr = nonce ? ` nonce="${nonce}"` : '';
 
-  const wsPath = `${sessionPath}/ws`;
+  const wsPath = shareToken
+    ? `${basePath}/share/${encodeURIComponent(shareToken)}/ws`
+    : `${sessionPath}/ws`;
 
   // Terminal UI config as JSON
   const terminalUiConfig = JSON.stringify({
@@ -0,0 +1,53 @@
+import { describe, expect, test } from 'bun:test';
+import { generateLoginHtml, sanitizeLoginRedirect } from './login-page.js';
+
+describe('login page', () => {
+  const base = { basePath: '/bunterm', nonce: 'abc123' };
+
+  test('posts to the verify route and carries the nonce', () => {
+    const html = generateLoginHtml({ ...base, stealth: false });
+
+    expect(html).toContain('data-verify="/bunterm/api/auth/otp/verify"');
+    expect(html).toContain('data-next="/bunterm/"');
+    expect(html).toContain('<script nonce="abc123">');
+    expect(html).toContain('bunterm login-code');
+  });
+
+  test('offers passkey sign-in when enabled', () => {
+    expect(generateLoginHtml({ ...base, stealth: false })).not.toContain('passkey-login');
+
+    const html = generateLoginHtml({ ...base, stealth: false, passkeys: true });
+    expect(html).toContain('data-options="/bunterm/api/auth/passkeys/login/options"');
+    expect(html).toContain('navigator.credentials.get');
+  });
+
+  test('prefills only a 6-digit code', () => {
+    expect(generateLoginHtml({ ...base, stealth: false, code: '042917' })).toContain(
+      'value="042917"'
+    );
+    expect(generateLoginHtml({ ...base, stealth: false, code: '"><script>' })).not.toContain(
+      '<script>"'
+    );
+  });
+
+  test('stealth mode drops branding and PWA metadata', () => {
+    const html = generateLoginHtml({ ...base, basePath: '/x', stealth: true });
+
+    expect(html).not.toContain('bunterm');
+    expect(html).not.toContain('manifest.json');
+    expect(html).toContain('<title>Sign in</title>');
+  });
+});
+
+describe('sanitizeLoginRedirect', () => {
+  test('keeps same-origin paths', () => {
+    expect(sanitizeLoginRedirect('/bunterm/dev?x=1', '/bunterm')).toBe('/bunterm/dev?x=1');
+  });
+
+  test('falls back to the portal for other targets', () => {
+    expect(sanitizeLoginRedirect(undefined, '/bunterm')).toBe('/bunterm/');
+    expect(sanitizeLoginRedirect('https://evil.example', '/bunterm')).toBe('/bunterm/');
+    expect(sanitizeLoginRedirect('//evil.example', '/bunterm')).toBe('/bunterm/');
+    expect(sanitizeLoginRedirect('/\\evil.example', '/bunterm')).toBe('/bunterm/');
+  });
+});
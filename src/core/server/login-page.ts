@@ -0,0 +1,207 @@
+/**
+ * Login Page
+ *
+ * OTP login form for remote devices. The code is issued on the host with
+ * `bunterm login-code` and exchanged via POST /api/auth/otp/verify for a
+ * cookie session. A `?code=` query (from the QR link) is submitted
+ * automatically. Browsers with WebAuthn also get a passkey sign-in button. In stealth mode the page carries no bunterm branding,
+ * PWA metadata or hints, and is served with status 404.
+ */
+
+import { generatePasskeyLoginScript } from './passkey-script.js';
+import { escapeHtml, generatePwaHead } from './portal-utils.js';
+
+export interface LoginPageOptions {
+  basePath: string;
+  stealth: boolean;
+  nonce: string;
+  /** Code prefilled from the QR link */
+  code?: string;
+  /** Where to go after login (same-origin path) */
+  next?: string;
+  /** Offer passkey sign-in */
+  passkeys?: boolean;
+}
+
+/**
+ * Only same-origin absolute paths are followed after login
+ */
+export function sanitizeLoginRedirect(next: string | undefined, basePath: string): string {
+  const fallback = `${basePath}/`;
+  if (!next || !next.startsWith('/') || next.startsWith('//') || next.includes('\\')) {
+    return fallback;
+  }
+  return next;
+}
+
+const loginStyles = `
+    * {
+      box-sizing: border-box;
+    }
+    body {
+      font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, "Helvetica Neue", Arial, sans-serif;
+      margin: 0;
+      min-height: 100vh;
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      background: #1a1a2e;
+      color: #eee;
+    }
+    form {
+      width: min(320px, 90vw);
+      padding: 2rem 1.5rem;
+      background: #16213e;
+      border-radius: 12px;
+      text-align: center;
+    }
+    h1 {
+      font-size: 1.3rem;
+      margin: 0 0 1.5rem 0;
+    }
+    .branded h1 {
+      color: #00d9ff;
+    }
+    input {
+      width: 100%;
+      padding: 0.75rem;
+      font-size: 1.8rem;
+      letter-spacing: 0.4em;
+      text-align: center;
+      font-family: "SF Mono", Monaco, "Cascadia Code", monospace;
+      background: #0f0f23;
+      color: #eee;
+      border: 1px solid #2a4a6e;
+      border-radius: 8px;
+    }
+    button {
+      width: 100%;
+      margin-top: 1rem;
+      padding: 0.75rem;
+      font-size: 1rem;
+      background: #00d9ff;
+      color: #1a1a2e;
+      border: none;
+      border-radius: 8px;
+      cursor: pointer;
+    }
+    button:disabled {
+      opacity: 0.6;
+    }
+    button.secondary {
+      background: transparent;
+      color: #00d9ff;
+      border: 1px solid #00d9ff;
+    }
+    .status {
+      min-height: 1.2em;
+      margin: 1rem 0 0 0;
+      font-size: 0.9rem;
+      color: #ff6b6b;
+    }
+    .hint {
+      margin: 1rem 0 0 0;
+      font-size: 0.8rem;
+      color: #888;
+    }`;
+
+function generateLoginScript(nonceAttr: string): string {
+  return `
+  <script${nonceAttr}>
+    (function() {
+      var form = document.getElementById('login-form');
+      var input = document.getElementById('code');
+      var button = form.querySelector('button');
+      var status = document.getElementById('status');
+      var busy = false;
+
+      // Drop the code from the address bar and history
+      if (location.search.indexOf('code=') !== -1) {
+        var url = new URL(location.href);
+        url.searchParams.delete('code');
+        history.replaceState(null, '', url.pathname + url.search);
+      }
+
+      function submit() {
+        if (busy) return;
+        busy = true;
+        button.disabled = true;
+        status.textContent = '';
+        fetch(form.dataset.verify, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          credentials: 'same-origin',
+          body: JSON.stringify({ code: input.value })
+        }).then(function(res) {
+          if (res.ok) {
+            location.replace(form.dataset.next);
+            return;
+          }
+          return res.json().catch(function() { return {}; }).then(function(data) {
+            status.textContent = data.message || 'Invalid code';
+            input.value = '';
+            input.focus();
+          });
+        }).catch(function() {
+          status.textContent = 'Network error';
+        }).then(function() {
+          busy = false;
+          button.disabled = false;
+        });
+      }
+
+      form.addEventListener('submit', function(e) {
+        e.preventDefault();
+        submit();
+      });
+      input.addEventListener('input', function() {
+        if (/^\\d{6}$/.test(input.value)) submit();
+      });
+      if (/^\\d{6}$/.test(input.value)) submit();
+    })();
+  </script>`;
+}
+
+/**
+ * Generate the login page HTML
+ */
+export function generateLoginHtml(options: LoginPageOptions): string {
+  const { basePath, stealth, nonce } = options;
+  const nonceAttr = nonce ? ` nonce="${escapeHtml(nonce)}"` : '';
+  const code = options.code && /^\d{6}$/.test(options.code) ? options.code : '';
+  const next = sanitizeLoginRedirect(options.next, basePath);
+
+  const head = stealth
+    ? '<title>Sign in</title>'
+    : `<title>bunterm - Login</title>${generatePwaHead(basePath)}`;
+  const heading = stealth ? 'Sign in' : 'bunterm';
+  const hint = stealth
+    ? ''
+    : '<p class="hint">Run <code>bunterm login-code</code> on the host to get a code</p>';
+  const passkeyButton = options.passkeys
+    ? `<button type="button" id="passkey-login" class="secondary" data-options="${escapeHtml(`${basePath}/api/auth/passkeys/login/options`)}" data-login="${escapeHtml(`${basePath}/api/auth/passkeys/login`)}" data-next="${escapeHtml(next)}" hidden>Sign in with a passkey</button>`
+    : '';
+  const passkeyScript = options.passkeys ? generatePasskeyLoginScript(nonceAttr) : '';
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <meta name="robots" content="noindex">
+  ${head}
+  <style>${loginStyles}
+  </style>
+</head>
+<body${stealth ? '' : ' class="branded"'}>
+  <form id="login-form" data-verify="${escapeHtml(`${basePath}/api/auth/otp/verify`)}" data-next="${escapeHtml(next)}">
+    <h1>${heading}</h1>
+    <input id="code" name="code" inputmode="numeric" autocomplete="one-time-code" pattern="\\d{6}" maxlength="6" placeholder="000000" value="${code}" autofocus required>
+    <button type="submit">Sign in</button>
+    ${passkeyButton}
+    <p id="status" class="status" role="alert"></p>
+    ${hint}
+  </form>${generateLoginScript(nonceAttr)}${passkeyScript}
+</body>
+</html>`;
+}
@@ -0,0 +1,145 @@
+/**
+ * Passkey Browser Scripts
+ *
+ * Inline scripts for the WebAuthn ceremonies: passwordless login on the
+ * login page and passkey registration from the portal. The server sends and
+ * expects binary fields as base64url strings (see elysia/passkeys.ts).
+ * Both scripts leave their trigger hidden when the browser lacks WebAuthn.
+ */
+
+const passkeyHelpers = `
+      function fromBase64Url(value) {
+        var base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+        var binary = atob(base64 + '==='.slice((base64.length + 3) % 4));
+        return Uint8Array.from(binary, function(c) { return c.charCodeAt(0); }).buffer;
+      }
+      function toBase64Url(buffer) {
+        var binary = String.fromCharCode.apply(null, new Uint8Array(buffer));
+        return btoa(binary).replace(/\\+/g, '-').replace(/\\//g, '_').replace(/=+$/, '');
+      }
+      function postJson(url, body) {
+        return fetch(url, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          credentials: 'same-origin',
+          body: JSON.stringify(body)
+        }).then(function(res) {
+          return res.json().catch(function() { return {}; }).then(function(data) {
+            if (!res.ok) throw new Error(data.message || 'Request failed');
+            return data;
+          });
+        });
+      }`;
+
+/**
+ * Passwordless login for the `#passkey-login` button
+ * (data-options, data-login: API URLs; data-next: where to go afterwards)
+ */
+export function generatePasskeyLoginScript(nonceAttr: string): string {
+  return `
+  <script${nonceAttr}>
+    (function() {
+      var button = document.getElementById('passkey-login');
+      var status = document.getElementById('status');
+      if (!button || !window.PublicKeyCredential) return;
+      button.hidden = false;
+${passkeyHelpers}
+
+      button.addEventListener('click', function() {
+        button.disabled = true;
+        status.textContent = '';
+        postJson(button.dataset.options, {}).then(function(options) {
+          return navigator.credentials.get({
+            publicKey: {
+              challenge: fromBase64Url(options.challenge),
+              rpId: options.rpId,
+              timeout: options.timeout,
+              userVerification: options.userVerification
+            }
+          });
+        }).then(function(credential) {
+          return postJson(button.dataset.login, {
+            id: credential.id,
+            response: {
+              clientDataJSON: toBase64Url(credential.response.clientDataJSON),
+              authenticatorData: toBase64Url(credential.response.authenticatorData),
+              signature: toBase64Url(credential.response.signature)
+            }
+          });
+        }).then(function() {
+          location.replace(button.dataset.next);
+        }).catch(function(error) {
+          status.textContent = error.name === 'NotAllowedError'
+            ? 'Passkey sign-in cancelled'
+            : error.message || 'Passkey sign-in failed';
+          button.disabled = false;
+        });
+      });
+    })();
+  </script>`;
+}
+
+/**
+ * Passkey registration for the `#passkey-register` link
+ * (data-options, data-register: API URLs)
+ */
+export function generatePasskeyRegisterScript(nonceAttr: string): string {
+  return `
+  <script${nonceAttr}>
+    (function() {
+      var link = document.getElementById('passkey-register');
+      if (!link || !window.PublicKeyCredential) return;
+      link.hidden = false;
+      var busy = false;
+${passkeyHelpers}
+
+      link.addEventListener('click', function(e) {
+        e.preventDefault();
+        if (busy) return;
+        var name = prompt('Name for this passkey (e.g. iPhone)', '');
+        if (name === null) return;
+        busy = true;
+        postJson(link.dataset.options, { name: name }).then(function(options) {
+          return navigator.credentials.create({
+            publicKey: {
+              challenge: fromBase64Url(options.challenge),
+              rp: options.rp,
+              user: {
+                id: fromBase64Url(options.user.id),
+                name: options.user.name,
+                displayName: options.user.displayName
+              },
+              pubKeyCredParams: options.pubKeyCredParams,
+              timeout: options.timeout,
+              attestation: options.attestation,
+              authenticatorSelection: options.authenticatorSelection,
+              excludeCredentials: options.excludeCredentials.map(function(c) {
+                return { type: c.type, id: fromBase64Url(c.id), transports: c.transports };
+              })
+            }
+          });
+        }).then(function(credential) {
+          var response = credential.response;
+          return postJson(link.dataset.register, {
+            id: credential.id,
+            response: {
+              clientDataJSON: toBase64Url(response.clientDataJSON),
+              attestationObject: toBase64Url(response.attestationObject),
+              transports: response.getTransports ? response.getTransports() : undefined
+            }
+          });
+        }).then(function(passkey) {
+          alert('Passkey "' + passkey.name + '" added. Use it on the login page to sign in.');
+        }).catch(function(error) {
+          if (error.name === 'InvalidStateError') {
+            alert('This device already has a passkey for this account.');
+          } else if (error.name !== 'NotAllowedError') {
+            alert('Passkey registration failed: ' + error.message);
+          }
+        }).then(function() {
+          busy = false;
+        });
+      });
+    })();
+  </script>`;
+}
@@ -152,12 +152,43 @@ describe('portal', () => {
       expect(html).toContain('session-3');
     });
 
+    test('marks restored sessions with a badge', () => {
+      const html = generatePortalHtml(baseConfig, [
+        {
+          name: 'restored-session',
+          pid: 12345,
+          path: '/restored-session',
+          dir: '/home/user/restored',
+          started_at: '2024-01-01T00:00:00Z',
+          restored: true
+        },
+        {
+          name: 'fresh-session',
+          pid: 12346,
+          path: '/fresh-session',
+          dir: '/home/user/fresh',
+          started_at: '2024-01-01T00:00:00Z'
+        }
+      ]);
+
+      expect(html.match(/class="restored-badge"/g)?.length).toBe(1);
+    });
+
     test('includes refresh link', () => {
       const html = generatePortalHtml(baseConfig, []);
 
       expect(html).toContain('Refresh');
       expect(html).toContain('location.reload()');
     });
+
+    test('offers passkey registration only when enabled', () => {
+      expect(generatePortalHtml(baseConfig, [])).not.toContain('id="passkey-register"');
+
+      const html = generatePortalHtml(baseConfig, [], 'abc', { passkeys: true });
+      expect(html).toContain('id="passkey-register"');
+      expect(html).toContain('/api/auth/passkeys/register/options');
+      expect(html).toContain('navigator.credentials.create');
+    });
   });
 
   describe('generateJsonResponse', () => {
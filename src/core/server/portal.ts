@@ -1,5 +1,6 @@
 import { getFullPath } from '@/core/config/config.js';
 import type { Config, SessionState } from '@/core/config/types.js';
+import { generatePasskeyRegisterScript } from './passkey-script.js';
 import {
   directoryBrowserStyles,
   escapeHtml,
@@ -581,20 +582,29 @@ function generateDirectoryBrowserScript(basePath: string, nonceAttr: string): st
   </script>`;
 }
 
+export interface PortalOptions {
+  /** Offer passkey registration (auth enabled) */
+  passkeys?: boolean;
+}
+
 export function generatePortalHtml(
   config: Config,
-  sessions: SessionState[],
-  nonce?: string
+  sessions: Array<SessionState & { restored?: boolean }>,
+  nonce?: string,
+  options: PortalOptions = {}
 ): string {
   const basePath = config.base_path;
   const sessionItems = sessions
     .map((session) => {
       const fullPath = getFullPath(config, session.path);
+      const restoredBadge = session.restored
+        ? '\n            <span class="restored-badge" title="Restored after daemon restart">restored</span>'
+        : '';
       return `      <li class="session" data-session-name="${escapeHtml(session.name)}">
         <a href="${fullPath}/" target="_blank">
           <span class="session-header">
             <span class="name">${escapeHtml(session.name)}</span>
-            <span class="agent-badge agent-badge--unknown" data-agent-badge="${escapeHtml(session.name)}"></span>
+            <span class="agent-badge agent-badge--unknown" data-agent-badge="${escapeHtml(session.name)}"></span>${restoredBadge}
           </span>
           <span class="info">${escapeHtml(session.dir)}</span>
         </a>
@@ -615,6 +625,12 @@ export function generatePortalHtml(
     : '';
   const dirBrowserCss = dirBrowserEnabled ? directoryBrowserStyles : '';
 
+  // Passkey registration link (shown by its script when WebAuthn is available)
+  const passkeyLink = options.passkeys
+    ? `\n    <a href="#" id="passkey-register" class="passkey-register" data-options="${escapeHtml(`${basePath}/api/auth/passkeys/register/options`)}" data-register="${escapeHtml(`${basePath}/api/auth/passkeys/register`)}" hidden>Add passkey</a>`
+    : '';
+  const passkeyScript = options.passkeys ? generatePasskeyRegisterScript(nonceAttr) : '';
+
   // tmux sessions section
   const tmuxSessionsSection = generateTmuxSessionsSection();
   const tmuxSessionsStyles = generateTmuxSessionsStyles();
@@ -651,6 +667,9 @@ ${sessionItems}
     }
     .refresh a:hover {
       text-decoration: underline;
+    }
+    .refresh .passkey-register {
+      margin-left: 1.5rem;
     }${dirBrowserCss}${tmuxSessionsStyles}
   </style>
 </head>
@@ -661,8 +680,8 @@ ${sessionItems}
   ${activeSessionsSection}
   ${newSessionButton}
   <div class="refresh">
-    <a href="#" data-action="refresh">Refresh</a>
-  </div>${dirBrowserModal}${generateSwRegistration(basePath, nonceAttr)}${generateAutoReloadScript(nonceAttr)}${dirBrowserScript}${tmuxSessionsScript}
+    <a href="#" data-action="refresh">Refresh</a>${passkeyLink}
+  </div>${dirBrowserModal}${generateSwRegistration(basePath, nonceAttr)}${generateAutoReloadScript(nonceAttr)}${dirBrowserScript}${tmuxSessionsScript}${passkeyScript}
 </body>
 </html>
 `;
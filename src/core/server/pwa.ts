@@ -81,7 +81,7 @@ self.addEventListener('push', (event) => {
       data: {
         sessionName: data.sessionName,
         timestamp: data.timestamp,
-        url: data.sessionName ? '/bunterm/' + data.sessionName : '/bunterm/'
+        url: data.url || (data.sessionName ? '/bunterm/' + data.sessionName : '/bunterm/')
       }
     };
 
@@ -102,12 +102,19 @@ self.addEventListener('notificationclick', (event) => {
   event.waitUntil(
     clients.matchAll({ type: 'window', includeUncontrolled: true })
       .then((clientList) => {
-        // Try to focus existing window
+        // Focus a window already showing the target page
+        const target = new URL(url, self.location.origin).href;
         for (const client of clientList) {
-          if (client.url.includes('/bunterm/') && 'focus' in client) {
+          if (client.url === target && 'focus' in client) {
             return client.focus();
           }
         }
+        // Otherwise reuse an existing bunterm window
+        for (const client of clientList) {
+          if (client.url.includes('/bunterm/') && 'focus' in client) {
+            return client.navigate(target).then((c) => (c || client).focus());
+          }
+        }
         // Open new window if none exists
         if (clients.openWindow) {
           return clients.openWindow(url);
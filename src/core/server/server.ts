@@ -6,13 +6,22 @@
  */
 
 import { chmodSync, existsSync, unlinkSync } from 'node:fs';
+import { join } from 'node:path';
 import type { AnyElysia } from 'elysia';
 import { getApiSocketPath, getStateDir } from '@/core/config/state.js';
 import type { Config } from '@/core/config/types.js';
+import type { AccessControl } from '@/core/server/auth/access-control.js';
+import { AuditLogger } from '@/core/server/auth/audit-logger.js';
+import {
+  createAuthMiddlewareOptions,
+  markLocalSocketRequest
+} from '@/core/server/auth/auth-middleware.js';
 import { OtpManager } from '@/core/server/auth/otp-manager.js';
+import { PasskeyManager } from '@/core/server/auth/passkey-manager.js';
 import { createElysiaApp } from '@/core/server/elysia/app.js';
 import { rateLimiterPlugin } from '@/core/server/elysia/middleware/rate-limiter.js';
 import type { NativeSessionManager } from '@/core/server/session-manager.js';
+import { getTokenGenerator } from '@/core/server/ws/session-token.js';
 import type { CommandExecutorManager } from '@/core/terminal/command-executor-manager.js';
 import type { AgentTimelineService } from '@/features/agent-timeline/server/timeline-service.js';
 import type { BlockEventEmitter } from '@/features/blocks/server/block-event-emitter.js';
@@ -25,7 +34,13 @@ export interface NativeTerminalServerOptions {
   getConfig: () => Config;
   sessionManager: NativeSessionManager;
   cookieSessionStore?: import('@/core/server/auth/cookie-session.js').CookieSessionStore | null;
+  /** Named users, roles and per-session ACLs (see createAccessControl) */
+  accessControl?: AccessControl | null;
   shareManager?: import('@/features/share/server/share-manager.js').ShareManager | null;
+  recordingManager?:
+    | import('@/features/recording/server/recording-manager.js').RecordingManager
+    | null;
+  aiSessionManager?: import('@/features/ai/server/ai-session.js').AISessionManager | null;
   timelineService: AgentTimelineService;
   executorManager: CommandExecutorManager;
   blockEventEmitter: BlockEventEmitter;
@@ -50,6 +65,26 @@ export function createNativeTerminalServer(
   // Initialize OTP manager for browser authentication
   const otpManager = config.security?.auth_enabled ? new OtpManager() : null;
 
+  // Cookie / OTP authentication for browser clients
+  const authOptions =
+    config.security?.auth_enabled && options.cookieSessionStore
+      ? createAuthMiddlewareOptions(config, options.cookieSessionStore, getTokenGenerator())
+      : null;
+
+  // Named users, roles and per-session ACLs (without auth everyone is the owner)
+  const accessControl = authOptions ? (options.accessControl ?? null) : null;
+
+  // Passkey credentials for passwordless login (public keys only, 0600)
+  const passkeyManager = authOptions
+    ? new PasskeyManager(join(getStateDir(), 'passkeys.json'))
+    : null;
+
+  // Audit log (JSON Lines, 0600) for connection and auth events
+  const auditLogger = new AuditLogger(join(getStateDir(), 'audit.log'), {
+    maxSizeBytes: config.security.audit_max_size,
+    maxFiles: config.security.audit_max_files
+  });
+
   // Create and start the Elysia app (rate limiter added here, not in createElysiaApp, to avoid affecting tests)
   const app = createElysiaApp({
     sessionManager,
@@ -58,8 +93,14 @@ export function createNativeTerminalServer(
     executorManager,
     blockEventEmitter,
     cookieSessionStore: options.cookieSessionStore ?? null,
+    authOptions,
+    accessControl,
     shareManager: options.shareManager ?? null,
+    recordingManager: options.recordingManager ?? null,
+    aiSessionManager: options.aiSessionManager ?? null,
     otpManager,
+    passkeyManager,
+    auditLogger,
     generateTimelineHtml: options.generateTimelineHtml ?? null,
     featurePlugins: options.featurePlugins
   }).use(rateLimiterPlugin);
@@ -91,7 +132,11 @@ export function createNativeTerminalServer(
 
   const unixServer = Bun.serve({
     unix: apiSocketPath,
-    fetch: app.fetch
+    fetch(request) {
+      // Only the owner can connect (0600), so the CLI is trusted without a cookie
+      markLocalSocketRequest(request);
+      return app.fetch(request);
+    }
   });
 
   // Restrict API socket to owner only (defense in depth)
@@ -108,9 +153,13 @@ export function createNativeTerminalServer(
     apiSocketPath,
     async stop() {
       timelineService.dispose();
+      options.recordingManager?.stopAll();
+      options.aiSessionManager?.dispose();
       await sessionManager.stopAll();
+      executorManager.getBlockStore().close?.();
       app.stop();
       unixServer.stop();
+      await auditLogger.dispose();
       if (existsSync(apiSocketPath)) {
         try {
           unlinkSync(apiSocketPath);
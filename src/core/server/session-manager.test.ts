@@ -6,9 +6,14 @@
  */
 
 import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { mkdirSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { createInMemoryStateStore, type StateStore } from '@/core/config/state-store.js';
 import type { Config } from '@/core/config/types.js';
 import { nullPlugins } from '@/core/terminal/session-plugins.js';
 import { NativeSessionManager } from './session-manager.js';
+import { loadSessionSnapshot, saveSessionSnapshot } from './session-snapshot.js';
 
 // Test config
 const createTestConfig = (): Config =>
@@ -94,7 +99,11 @@ const createTestConfig = (): Config =>
       auth_proxy_header: 'X-Forwarded-User',
       auth_adaptive_shield: false,
       auth_lan_session_ttl_seconds: 604800,
-      auth_internet_session_ttl_seconds: 3600
+      auth_internet_session_ttl_seconds: 3600,
+      audit_max_size: 10 * 1024 * 1024,
+      audit_max_files: 5,
+      auth_default_role: 'admin',
+      session_acls: []
     },
     static_offload: {
       enabled: false,
@@ -357,3 +366,150 @@ describe.skipIf(!hasPtySupport)('NativeSessionManager with real PTY', () => {
     expect(session.name).toBe('override-test');
   });
 });
+
+describe.skipIf(!hasPtySupport)('NativeSessionManager session resurrection', () => {
+  let stateDir: string;
+  let stateStore: StateStore;
+  const managers: NativeSessionManager[] = [];
+  const testDir = process.cwd();
+
+  function createManager(): NativeSessionManager {
+    const manager = new NativeSessionManager(createTestConfig(), () => nullPlugins, stateStore);
+    managers.push(manager);
+    return manager;
+  }
+
+  async function waitFor(condition: () => boolean, timeoutMs = 2000): Promise<void> {
+    const deadline = Date.now() + timeoutMs;
+    while (!condition() && Date.now() < deadline) {
+      await new Promise((resolve) => setTimeout(resolve, 20));
+    }
+  }
+
+  beforeEach(() => {
+    stateDir = join(
+      tmpdir(),
+      `session-resurrect-test-${Date.now()}-${Math.random().toString(36).slice(2)}`
+    );
+    mkdirSync(stateDir, { recursive: true });
+    stateStore = { ...createInMemoryStateStore(), getStateDir: () => stateDir };
+  });
+
+  afterEach(async () => {
+    for (const manager of managers.splice(0)) {
+      await manager.stopAll();
+    }
+    rmSync(stateDir, { recursive: true, force: true });
+  });
+
+  test('records created sessions and forgets explicitly stopped ones', async () => {
+    const manager = createManager();
+    await manager.createSession({
+      name: 'recorded',
+      dir: testDir,
+      path: '/bunterm/recorded',
+      command: ['cat']
+    });
+
+    const record = stateStore.getSession('recorded');
+    expect(record?.dir).toBe(testDir);
+    expect(record?.command).toEqual(['cat']);
+
+    await manager.stopSession('recorded');
+    expect(stateStore.getSession('recorded')).toBeUndefined();
+  });
+
+  test('keeps sessions on shutdown and resurrects them with their snapshot', async () => {
+    const first = createManager();
+    const session = await first.createSession({
+      name: 'survivor',
+      dir: testDir,
+      path: '/bunterm/survivor',
+      command: ['cat'],
+      cols: 100,
+      rows: 30
+    });
+    session.resize(120, 40);
+    await first.stopAll();
+
+    expect(stateStore.getSession('survivor')).toBeDefined();
+    expect(loadSessionSnapshot(stateDir, 'survivor')?.cols).toBe(120);
+
+    // Simulate scrollback captured before the restart
+    saveSessionSnapshot(stateDir, {
+      name: 'survivor',
+      savedAt: new Date().toISOString(),
+      cols: 120,
+      rows: 40,
+      output: [Buffer.from('before restart').toString('base64')],
+      blocks: []
+    });
+
+    const second = createManager();
+    expect(await second.resurrectSessions()).toEqual(['survivor']);
+
+    const info = second.getSessionInfo('survivor');
+    expect(info?.restored).toBe(true);
+    expect(info?.cwd).toBe(testDir);
+    expect(info?.cols).toBe(120);
+    expect(info?.rows).toBe(40);
+    expect(second.listSessions()[0]?.restored).toBe(true);
+
+    const restored = second.getSession('survivor');
+    const replay = restored?.outputBuffer.map((c) => Buffer.from(c, 'base64').toString()) ?? [];
+    expect(replay[0]).toBe('before restart');
+  });
+
+  test('snapshots sessions with new output on a periodic flush', async () => {
+    const manager = createManager();
+    const session = await manager.createSession({
+      name: 'busy',
+      dir: testDir,
+      path: '/bunterm/busy',
+      command: ['sh', '-c', 'echo periodic; cat']
+    });
+    await waitFor(() => session.outputBuffer.length > 0);
+
+    await manager.flushSnapshots();
+
+    const output = loadSessionSnapshot(stateDir, 'busy')?.output ?? [];
+    expect(output.map((c) => Buffer.from(c, 'base64').toString()).join('')).toContain('periodic');
+  });
+
+  test('forgets sessions whose directory no longer exists', async () => {
+    stateStore.addSession({
+      name: 'orphan',
+      pid: 12345,
+      path: '/bunterm/orphan',
+      dir: join(stateDir, 'missing'),
+      started_at: new Date().toISOString()
+    });
+
+    const manager = createManager();
+    expect(await manager.resurrectSessions()).toEqual([]);
+    expect(manager.hasSession('orphan')).toBe(false);
+    expect(stateStore.getSession('orphan')).toBeUndefined();
+  });
+
+  test('forgets sessions whose process exits on its own', async () => {
+    const manager = createManager();
+    await manager.createSession({
+      name: 'short-lived',
+      dir: testDir,
+      path: '/bunterm/short-lived',
+      command: ['true']
+    });
+
+    await waitFor(() => stateStore.getSession('short-lived') === undefined);
+    expect(stateStore.getSession('short-lived')).toBeUndefined();
+  });
+
+  test('does not record sessions without a state store', async () => {
+    const manager = new NativeSessionManager(createTestConfig(), () => nullPlugins);
+    managers.push(manager);
+    await manager.createSession({ name: 'plain', dir: testDir, path: '/bunterm/plain' });
+
+    expect(manager.getSessionInfo('plain')?.restored).toBe(false);
+    expect(await manager.resurrectSessions()).toEqual([]);
+  });
+});
@@ -3,18 +3,40 @@
  *
  * This class provides session lifecycle management for Bun.Terminal-based
  * terminal sessions, similar to SessionManager for terminal sessions.
+ *
+ * When a StateStore is injected (native_terminal.resurrect_sessions), sessions
+ * are recorded in state.json and their scrollback is snapshotted so they can
+ * be respawned by resurrectSessions() after a daemon restart.
  */
 
+import { access } from 'node:fs/promises';
 import { getApiSocketPath } from '@/core/config/state.js';
+import type { StateStore } from '@/core/config/state-store.js';
 import type { Config, NativeTerminalConfig } from '@/core/config/types.js';
 import type { NativeTerminalWebSocket, TerminalSessionInfo } from '@/core/protocol/index.js';
 import { TerminalSession } from '@/core/terminal/session.js';
 import type { SessionPlugins } from '@/core/terminal/session-plugins.js';
 import { buildSpawnArgs, expandCommand, sanitizeName } from '@/utils/command-template.js';
+import { createLogger } from '@/utils/logger.js';
+import {
+  loadSessionSnapshot,
+  removeSessionSnapshot,
+  type SessionSnapshot,
+  saveSessionSnapshot,
+  writeSessionSnapshot
+} from './session-snapshot.js';
 import { createSessionSocket, type SessionSocketResult } from './session-socket.js';
 
-/** Factory function that creates SessionPlugins for a given working directory */
-export type SessionPluginsFactory = (cwd: string) => SessionPlugins;
+const log = createLogger('session-manager');
+
+/** How often snapshots of sessions with new output are written */
+const SNAPSHOT_INTERVAL_MS = 30_000;
+
+/** Number of recent blocks kept in a snapshot (same as sent on reconnect) */
+const SNAPSHOT_BLOCK_COUNT = 20;
+
+/** Factory function that creates SessionPlugins for a given working directory and session */
+export type SessionPluginsFactory = (cwd: string, sessionName: string) => SessionPlugins;
 
 export interface NativeSessionOptions {
   /** Session name */
@@ -38,6 +60,8 @@ export interface NativeSessionState {
   pid: number;
   startedAt: string;
   clientCount: number;
+  /** True if the session was resurrected after a daemon restart */
+  restored: boolean;
 }
 
 export class NativeSessionManager {
@@ -46,17 +70,87 @@ export class NativeSessionManager {
   private readonly config: Config;
   private readonly nativeConfig: NativeTerminalConfig;
   private readonly pluginsFactory: SessionPluginsFactory;
+  private readonly stateStore: StateStore | null;
+  private readonly dirtySnapshots: Set<string> = new Set();
+  private snapshotTimer: ReturnType<typeof setInterval> | null = null;
+  /** Periodic snapshot write in progress (awaited before the shutdown flush) */
+  private snapshotFlush: Promise<void> | null = null;
 
-  constructor(config: Config, pluginsFactory: SessionPluginsFactory) {
+  /**
+   * @param stateStore - Where to record sessions for resurrection (null disables it)
+   */
+  constructor(
+    config: Config,
+    pluginsFactory: SessionPluginsFactory,
+    stateStore: StateStore | null = null
+  ) {
     this.config = config;
     this.nativeConfig = config.native_terminal;
     this.pluginsFactory = pluginsFactory;
+    this.stateStore = stateStore;
   }
 
   /**
    * Create and start a new native terminal session
    */
   async createSession(options: NativeSessionOptions): Promise<TerminalSession> {
+    return this.spawnSession(options, null);
+  }
+
+  /**
+   * Respawn the sessions recorded before the last daemon shutdown or crash,
+   * with their original directory, command and size, and restore their last
+   * scrollback snapshot. Returns the names of the restored sessions.
+   */
+  async resurrectSessions(): Promise<string[]> {
+    if (!this.stateStore) {
+      return [];
+    }
+
+    const restored: string[] = [];
+    for (const record of this.stateStore.getAllSessions()) {
+      if (this.sessions.has(record.name)) {
+        continue;
+      }
+      const dirExists = await access(record.dir).then(
+        () => true,
+        () => false
+      );
+      if (!dirExists) {
+        log.warn(`Not restoring session ${record.name}: ${record.dir} no longer exists`);
+        this.forgetSession(record.name);
+        continue;
+      }
+
+      const snapshot = loadSessionSnapshot(this.stateStore.getStateDir(), record.name);
+      try {
+        await this.spawnSession(
+          {
+            name: record.name,
+            dir: record.dir,
+            path: record.path,
+            command: record.command,
+            cols: snapshot?.cols,
+            rows: snapshot?.rows
+          },
+          snapshot ?? { output: [], blocks: [] }
+        );
+        restored.push(record.name);
+      } catch (error) {
+        log.warn(`Failed to restore session ${record.name}: ${error}`);
+        this.forgetSession(record.name);
+      }
+    }
+    return restored;
+  }
+
+  /**
+   * Spawn a session, optionally preloading restored scrollback (resurrection)
+   */
+  private async spawnSession(
+    options: NativeSessionOptions,
+    restore: Pick<SessionSnapshot, 'output' | 'blocks'> | null
+  ): Promise<TerminalSession> {
     const { name, dir, cols, rows } = options;
 
     // Check if session already exists
@@ -79,7 +173,7 @@ export class NativeSessionManager {
     }
 
     // Build session plugins via injected factory
-    const plugins = this.pluginsFactory(dir);
+    const plugins = this.pluginsFactory(dir, name);
 
     // Create terminal session
     const session = new TerminalSession(
@@ -90,11 +184,17 @@ export class NativeSessionManager {
         cols: cols ?? 80,
         rows: rows ?? 24,
         outputBufferSize: this.nativeConfig.output_buffer_size,
+        scrollback: this.nativeConfig.scrollback,
         apiSocketPath: getApiSocketPath()
       },
       plugins
     );
 
+    // Restored scrollback must be buffered before the new shell prints anything
+    if (restore) {
+      session.restoreSnapshot(restore);
+    }
+
     // Start the session
     await session.start();
 
@@ -118,9 +218,131 @@ export class NativeSessionManager {
       }
     }
 
+    this.trackSession(session, options);
+
     return session;
   }
 
+  /**
+   * Record a session for resurrection and watch it for snapshot/exit events
+   */
+  private trackSession(session: TerminalSession, options: NativeSessionOptions): void {
+    if (!this.stateStore) {
+      return;
+    }
+
+    const { name } = options;
+    this.stateStore.addSession({
+      name,
+      pid: session.info.pid,
+      path: options.path,
+      dir: options.dir,
+      started_at: session.info.startedAt,
+      ...(options.command !== undefined && { command: options.command })
+    });
+
+    session.addRawOutputListener(() => this.dirtySnapshots.add(name));
+    session.addExitListener(() => {
+      // Explicit stops remove the session from the map first and handle state themselves
+      if (this.sessions.get(name) === session) {
+        this.forgetSession(name);
+      }
+    });
+
+    if (!this.snapshotTimer) {
+      this.snapshotTimer = setInterval(() => {
+        this.snapshotFlush ??= this.flushSnapshots().finally(() => {
+          this.snapshotFlush = null;
+        });
+      }, SNAPSHOT_INTERVAL_MS);
+      this.snapshotTimer.unref?.();
+    }
+  }
+
+  /**
+   * Snapshot sessions with output since the last flush
+   * (or all running sessions when `all` is set)
+   */
+  private takeSnapshots(all: boolean): SessionSnapshot[] {
+    const names = all ? Array.from(this.sessions.keys()) : Array.from(this.dirtySnapshots);
+    this.dirtySnapshots.clear();
+
+    const snapshots: SessionSnapshot[] = [];
+    for (const name of names) {
+      const session = this.sessions.get(name);
+      if (!session?.isRunning) {
+        continue;
+      }
+      const { cols, rows } = session.info;
+      snapshots.push({
+        name,
+        savedAt: new Date().toISOString(),
+        cols,
+        rows,
+        output: session.outputBuffer,
+        blocks: session.blocks.slice(-SNAPSHOT_BLOCK_COUNT)
+      });
+    }
+    return snapshots;
+  }
+
+  /**
+   * Write snapshots for sessions with output since the last flush
+   */
+  async flushSnapshots(): Promise<void> {
+    if (!this.stateStore) {
+      return;
+    }
+
+    const stateDir = this.stateStore.getStateDir();
+    for (const snapshot of this.takeSnapshots(false)) {
+      try {
+        await writeSessionSnapshot(stateDir, snapshot);
+        // The session may have been stopped while the snapshot was written
+        if (!this.sessions.has(snapshot.name)) {
+          removeSessionSnapshot(stateDir, snapshot.name);
+        }
+      } catch (error) {
+        log.warn(`Failed to save snapshot for ${snapshot.name}: ${error}`);
+      }
+    }
+  }
+
+  /**
+   * Write snapshots of all running sessions before the daemon exits
+   */
+  private saveAllSnapshots(): void {
+    if (!this.stateStore) {
+      return;
+    }
+
+    const stateDir = this.stateStore.getStateDir();
+    for (const snapshot of this.takeSnapshots(true)) {
+      try {
+        saveSessionSnapshot(stateDir, snapshot);
+      } catch (error) {
+        log.warn(`Failed to save snapshot for ${snapshot.name}: ${error}`);
+      }
+    }
+  }
+
+  /**
+   * Drop a session's resurrection record and snapshot
+   */
+  private forgetSession(name: string): void {
+    if (!this.stateStore) {
+      return;
+    }
+
+    this.dirtySnapshots.delete(name);
+    try {
+      this.stateStore.removeSession(name);
+      removeSessionSnapshot(this.stateStore.getStateDir(), name);
+    } catch (error) {
+      log.warn(`Failed to remove persisted state for ${name}: ${error}`);
+    }
+  }
+
   /**
    * Get a session by name
    */
@@ -166,13 +388,43 @@ export class NativeSessionManager {
   }
 
   /**
-   * Stop a session
+   * Stop a session (it will not be restored after a daemon restart)
    */
   async stopSession(name: string): Promise<void> {
+    if (!this.sessions.has(name)) {
+      throw new Error(`Session ${name} not found`);
+    }
+
+    this.forgetSession(name);
+    await this.terminateSession(name);
+  }
+
+  /**
+   * Stop all sessions (daemon shutdown).
+   * Sessions stay recorded so they can be resurrected on the next start.
+   */
+  async stopAll(): Promise<void> {
+    if (this.snapshotTimer) {
+      clearInterval(this.snapshotTimer);
+      this.snapshotTimer = null;
+    }
+    await this.snapshotFlush;
+    this.saveAllSnapshots();
+
+    const names = Array.from(this.sessions.keys());
+
+    await Promise.all(names.map((name) => this.terminateSession(name).catch((_err) => {})));
+  }
+
+  /**
+   * Kill a session's process and release its resources
+   */
+  private async terminateSession(name: string): Promise<void> {
     const session = this.sessions.get(name);
     if (!session) {
       throw new Error(`Session ${name} not found`);
     }
+    this.sessions.delete(name);
 
     // Cleanup session socket
     const socketResult = this.sessionSockets.get(name);
@@ -182,16 +434,6 @@ export class NativeSessionManager {
     }
 
     await session.stop();
-    this.sessions.delete(name);
-  }
-
-  /**
-   * Stop all sessions
-   */
-  async stopAll(): Promise<void> {
-    const names = Array.from(this.sessions.keys());
-
-    await Promise.all(names.map((name) => this.stopSession(name).catch((_err) => {})));
   }
 
   /**
@@ -229,7 +471,8 @@ export class NativeSessionManager {
         path: `${this.config.base_path}/${info.name}`,
         pid: info.pid,
         startedAt: info.startedAt,
-        clientCount: info.clientCount
+        clientCount: info.clientCount,
+        restored: info.restored ?? false
       };
     });
   }
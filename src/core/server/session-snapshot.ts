@@ -0,0 +1,142 @@
+/**
+ * Session Snapshots - Scrollback persistence for session resurrection
+ *
+ * When native_terminal.resurrect_sessions is enabled, NativeSessionManager
+ * periodically writes each session's replay buffer, recent blocks and
+ * terminal size to `<stateDir>/snapshots/<name>.json`. After a daemon
+ * restart the snapshot is loaded back into the respawned session so
+ * reconnecting clients see their previous scrollback.
+ */
+
+import {
+  chmodSync,
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  renameSync,
+  rmSync,
+  writeFileSync
+} from 'node:fs';
+import { chmod, mkdir, rename, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { z } from 'zod';
+import type { Block } from '@/core/protocol/index.js';
+import { createLogger } from '@/utils/logger.js';
+import { parseJsonString } from '@/utils/parse-helpers.js';
+
+const log = createLogger('session-snapshot');
+
+/** Snapshot format version */
+const SNAPSHOT_VERSION = 1;
+
+/** Directory (inside the state directory) holding snapshot files */
+export const SNAPSHOT_DIRNAME = 'snapshots';
+
+const BlockSnapshotSchema = z
+  .object({
+    id: z.string().min(1),
+    command: z.string(),
+    output: z.string(),
+    startedAt: z.string(),
+    status: z.enum(['running', 'success', 'error']),
+    startLine: z.number()
+  })
+  .passthrough();
+
+const SessionSnapshotSchema = z.object({
+  version: z.literal(SNAPSHOT_VERSION),
+  name: z.string().min(1),
+  savedAt: z.string(),
+  cols: z.number().int().positive(),
+  rows: z.number().int().positive(),
+  /** Base64-encoded output chunks (ClientBroadcaster replay buffer) */
+  output: z.array(z.string()),
+  blocks: z.array(BlockSnapshotSchema)
+});
+
+export interface SessionSnapshot {
+  name: string;
+  savedAt: string;
+  cols: number;
+  rows: number;
+  output: string[];
+  blocks: Block[];
+}
+
+function snapshotPath(stateDir: string, name: string): string {
+  // Session names may contain characters that are unsafe in file names
+  return join(stateDir, SNAPSHOT_DIRNAME, `${encodeURIComponent(name)}.json`);
+}
+
+function serializeSnapshot(snapshot: SessionSnapshot): string {
+  return JSON.stringify({ version: SNAPSHOT_VERSION, ...snapshot });
+}
+
+/**
+ * Write a snapshot atomically (temp file + rename, owner-only permissions)
+ */
+export async function writeSessionSnapshot(
+  stateDir: string,
+  snapshot: SessionSnapshot
+): Promise<void> {
+  await mkdir(join(stateDir, SNAPSHOT_DIRNAME), { recursive: true, mode: 0o700 });
+
+  const path = snapshotPath(stateDir, snapshot.name);
+  const tmpPath = `${path}.tmp`;
+  // Scrollback may contain secrets, so keep it owner-only like the state file
+  await writeFile(tmpPath, serializeSnapshot(snapshot), { mode: 0o600 });
+  await chmod(tmpPath, 0o600);
+  await rename(tmpPath, path);
+}
+
+/**
+ * Synchronous writeSessionSnapshot() for daemon shutdown, which must not
+ * exit before the final snapshots are on disk
+ */
+export function saveSessionSnapshot(stateDir: string, snapshot: SessionSnapshot): void {
+  const dir = join(stateDir, SNAPSHOT_DIRNAME);
+  if (!existsSync(dir)) {
+    mkdirSync(dir, { recursive: true, mode: 0o700 });
+  }
+
+  const path = snapshotPath(stateDir, snapshot.name);
+  const tmpPath = `${path}.tmp`;
+  writeFileSync(tmpPath, serializeSnapshot(snapshot), { mode: 0o600 });
+  chmodSync(tmpPath, 0o600);
+  renameSync(tmpPath, path);
+}
+
+/**
+ * Load a snapshot, or null if missing or unreadable
+ */
+export function loadSessionSnapshot(stateDir: string, name: string): SessionSnapshot | null {
+  const path = snapshotPath(stateDir, name);
+  if (!existsSync(path)) {
+    return null;
+  }
+
+  let content: string;
+  try {
+    // biome-ignore lint: sync read at startup (session resurrection)
+    content = readFileSync(path, 'utf-8');
+  } catch (error) {
+    log.warn(`Failed to read snapshot for ${name}: ${error}`);
+    return null;
+  }
+
+  const parsed = parseJsonString(SessionSnapshotSchema, 'file', content);
+  if (!parsed.ok) {
+    log.warn(`Ignoring unreadable snapshot for ${name}: ${parsed.error.message}`);
+    return null;
+  }
+
+  const { version: _version, ...snapshot } = parsed.value;
+  return { ...snapshot, blocks: snapshot.blocks as Block[] };
+}
+
+/**
+ * Delete a session's snapshot (no-op if missing)
+ */
+export function removeSessionSnapshot(stateDir: string, name: string): void {
+  rmSync(snapshotPath(stateDir, name), { force: true });
+}
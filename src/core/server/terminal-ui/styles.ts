@@ -1355,7 +1355,8 @@ body:has(#tui.hidden) .xterm-screen {
   flex-shrink: 0;
 }
 
-.tui-file-spa-btn {
+.tui-file-spa-btn,
+.tui-file-archive-btn {
   background: #3a5a8a;
   border: none;
   border-radius: 4px;
@@ -1368,7 +1369,8 @@ body:has(#tui.hidden) .xterm-screen {
   transition: background 0.15s;
 }
 
-.tui-file-spa-btn:hover {
+.tui-file-spa-btn:hover,
+.tui-file-archive-btn:hover {
   background: #4a6a9a;
 }
 
@@ -3346,6 +3348,510 @@ body.preview-open .xterm-screen {
   }
 }
 
+/* =============================================================================
+   File Editor
+   ============================================================================= */
+
+.file-editor {
+  position: fixed;
+  inset: 4vh 4vw;
+  z-index: 10050;
+  display: flex;
+  flex-direction: column;
+  background: #1e1e1e;
+  border: 1px solid #555;
+  border-radius: 6px;
+  box-shadow: 0 8px 24px rgba(0, 0, 0, 0.5);
+  font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif;
+  font-size: 13px;
+  color: #e0e0e0;
+  overflow: hidden;
+}
+
+.file-editor.hidden {
+  display: none;
+}
+
+.file-editor-header {
+  display: flex;
+  align-items: center;
+  gap: 8px;
+  padding: 6px 12px;
+  background: #2d2d2d;
+  border-bottom: 1px solid #444;
+}
+
+.file-editor-title {
+  flex: 1;
+  min-width: 0;
+  color: #4fc3f7;
+  font-family: 'Menlo', 'Monaco', 'Courier New', monospace;
+  font-size: 12px;
+  overflow: hidden;
+  text-overflow: ellipsis;
+  white-space: nowrap;
+}
+
+.file-editor-header button,
+.file-editor-conflict-actions button {
+  padding: 3px 10px;
+  background: #3a3a3a;
+  border: 1px solid #555;
+  border-radius: 3px;
+  color: #e0e0e0;
+  font-size: 12px;
+  cursor: pointer;
+}
+
+.file-editor-header button:hover,
+.file-editor-conflict-actions button:hover {
+  background: #4a4a4a;
+}
+
+.file-editor-header .file-editor-close {
+  background: transparent;
+  border: none;
+  font-size: 18px;
+  line-height: 1;
+  color: #888;
+}
+
+.file-editor-body {
+  flex: 1;
+  min-height: 0;
+  display: flex;
+}
+
+.file-editor-gutter,
+.file-editor-highlight,
+.file-editor-input {
+  font-family: 'Menlo', 'Monaco', 'Courier New', monospace;
+  font-size: 13px;
+  line-height: 18px;
+}
+
+.file-editor-gutter {
+  flex-shrink: 0;
+  min-width: 3em;
+  padding: 8px 8px 8px 4px;
+  overflow: hidden;
+  text-align: right;
+  color: #666;
+  background: #1a1a1a;
+  border-right: 1px solid #333;
+  user-select: none;
+}
+
+.file-editor-gutter .active {
+  color: #e0e0e0;
+}
+
+.file-editor-code {
+  position: relative;
+  flex: 1;
+  min-width: 0;
+  overflow: hidden;
+}
+
+.file-editor-highlight,
+.file-editor-input {
+  margin: 0;
+  padding: 8px;
+  border: none;
+  white-space: pre;
+  tab-size: 4;
+}
+
+.file-editor-highlight {
+  position: absolute;
+  top: 0;
+  left: 0;
+  min-width: 100%;
+  pointer-events: none;
+  color: #d4d4d4;
+}
+
+.file-editor-input {
+  position: absolute;
+  inset: 0;
+  width: 100%;
+  height: 100%;
+  resize: none;
+  outline: none;
+  overflow: auto;
+  background: transparent;
+  color: transparent;
+  caret-color: #fff;
+}
+
+.file-editor-input::selection {
+  background: rgba(79, 195, 247, 0.3);
+}
+
+.file-editor .tok-comment { color: #6a9955; }
+.file-editor .tok-string { color: #ce9178; }
+.file-editor .tok-number { color: #b5cea8; }
+.file-editor .tok-keyword { color: #c586c0; }
+.file-editor .tok-literal { color: #569cd6; }
+.file-editor .tok-key { color: #9cdcfe; }
+
+.file-editor-status {
+  padding: 4px 12px;
+  font-size: 11px;
+  color: #888;
+  background: #2d2d2d;
+  border-top: 1px solid #444;
+}
+
+.file-editor-status.error {
+  color: #f87171;
+}
+
+.file-editor-conflict {
+  display: flex;
+  flex-direction: column;
+  gap: 6px;
+  max-height: 45%;
+  padding: 8px 12px;
+  background: #2a2320;
+  border-bottom: 1px solid #ff9800;
+}
+
+.file-editor-conflict.hidden {
+  display: none;
+}
+
+.file-editor-conflict-heading {
+  color: #ff9800;
+  font-size: 12px;
+}
+
+.file-editor-diff {
+  flex: 1;
+  min-height: 0;
+  margin: 0;
+  overflow: auto;
+  font-family: 'Menlo', 'Monaco', 'Courier New', monospace;
+  font-size: 12px;
+  line-height: 16px;
+  background: #1a1a1a;
+}
+
+.file-editor-diff .diff-insert {
+  color: #86efac;
+  background: rgba(34, 197, 94, 0.12);
+}
+
+.file-editor-diff .diff-delete {
+  color: #fca5a5;
+  background: rgba(239, 68, 68, 0.12);
+}
+
+.file-editor-diff .diff-equal {
+  color: #888;
+}
+
+.file-editor-conflict-actions {
+  display: flex;
+  flex-wrap: wrap;
+  gap: 6px;
+}
+
+@media (max-width: 768px) {
+  .file-editor {
+    inset: 0;
+    border-radius: 0;
+  }
+}
+
+/* =============================================================================
+   Upload Queue
+   ============================================================================= */
+
+#tui-upload-queue {
+  position: fixed;
+  right: 12px;
+  bottom: calc(var(--tui-h, 0px) + 12px);
+  width: 300px;
+  max-height: 40vh;
+  overflow-y: auto;
+  z-index: 10020;
+  display: flex;
+  flex-direction: column;
+  gap: 6px;
+  padding: 8px;
+  background: #252526;
+  border: 1px solid #454545;
+  border-radius: 6px;
+  box-shadow: 0 4px 12px rgba(0,0,0,0.4);
+  font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif;
+  color: #ccc;
+  font-size: 12px;
+}
+
+.upload-queue-item {
+  display: grid;
+  grid-template-columns: 1fr auto;
+  gap: 4px 8px;
+  align-items: center;
+}
+
+.upload-queue-name {
+  overflow: hidden;
+  text-overflow: ellipsis;
+  white-space: nowrap;
+  color: #fff;
+}
+
+.upload-queue-actions {
+  display: flex;
+  gap: 4px;
+}
+
+.upload-queue-actions button {
+  background: transparent;
+  border: 1px solid #555;
+  border-radius: 4px;
+  color: #fff;
+  cursor: pointer;
+  font-size: 12px;
+  min-width: 24px;
+  padding: 1px 4px;
+}
+
+.upload-queue-actions button:hover {
+  background: #333;
+}
+
+.upload-queue-track {
+  grid-column: 1 / -1;
+  height: 4px;
+  background: #3c3c3c;
+  border-radius: 2px;
+  overflow: hidden;
+}
+
+.upload-queue-bar {
+  height: 100%;
+  width: 0;
+  background: #007acc;
+  transition: width 0.2s;
+}
+
+.upload-queue-item[data-state="paused"] .upload-queue-bar {
+  background: #888;
+}
+
+.upload-queue-item[data-state="error"] .upload-queue-bar {
+  background: #f44336;
+}
+
+.upload-queue-item[data-state="done"] .upload-queue-bar {
+  background: #4caf50;
+}
+
+.upload-queue-status {
+  grid-column: 1 / -1;
+  color: #999;
+}
+
+.upload-queue-item[data-state="error"] .upload-queue-status {
+  color: #f48771;
+}
+
+@media (max-width: 768px) {
+  #tui-upload-queue {
+    left: 8px;
+    right: 8px;
+    width: auto;
+  }
+}
+
+/* =============================================================================
+   File Tree Sidebar
+   ============================================================================= */
+
+#tui-file-tree {
+  position: fixed;
+  left: 0;
+  top: 0;
+  bottom: var(--tui-h, 0px);
+  width: var(--file-tree-width, 260px);
+  background: #1e1e1e;
+  border-right: 2px solid #007acc;
+  z-index: 9998;
+  display: flex;
+  flex-direction: column;
+  box-shadow: 2px 0 10px rgba(0,0,0,0.3);
+  font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif;
+}
+
+#tui-file-tree.hidden {
+  display: none !important;
+}
+
+#tui-file-tree-header {
+  display: flex;
+  justify-content: space-between;
+  align-items: center;
+  padding: 8px 12px;
+  background: #252526;
+  border-bottom: 1px solid #333;
+  font-size: 13px;
+  font-weight: bold;
+  color: #fff;
+  flex-shrink: 0;
+}
+
+#tui-file-tree-actions {
+  display: flex;
+  gap: 4px;
+}
+
+#tui-file-tree-actions button {
+  background: transparent;
+  border: 1px solid #555;
+  border-radius: 4px;
+  color: #fff;
+  cursor: pointer;
+  font-size: 13px;
+  padding: 2px 6px;
+  min-width: 28px;
+}
+
+#tui-file-tree-actions button:hover {
+  background: #333;
+}
+
+#tui-file-tree-list {
+  flex: 1;
+  overflow: auto;
+  padding: 4px 0;
+  user-select: none;
+}
+
+#tui-file-tree-list.drop-root {
+  background: rgba(0, 122, 204, 0.15);
+}
+
+.file-tree-row {
+  display: flex;
+  align-items: center;
+  gap: 4px;
+  padding: 2px 8px;
+  color: #ccc;
+  font-size: 13px;
+  white-space: nowrap;
+  cursor: pointer;
+}
+
+.file-tree-row:hover {
+  background: #2a2d2e;
+}
+
+.file-tree-row.selected {
+  background: #094771;
+  color: #fff;
+}
+
+.file-tree-row.drop-target {
+  outline: 1px dashed #007acc;
+  outline-offset: -1px;
+  background: rgba(0, 122, 204, 0.25);
+}
+
+.file-tree-twisty {
+  width: 10px;
+  flex-shrink: 0;
+  color: #888;
+}
+
+.file-tree-name {
+  overflow: hidden;
+  text-overflow: ellipsis;
+}
+
+.file-tree-empty {
+  padding: 12px;
+  color: #777;
+  font-size: 12px;
+}
+
+.file-tree-menu {
+  position: fixed;
+  z-index: 10060;
+  min-width: 160px;
+  padding: 4px 0;
+  background: #252526;
+  border: 1px solid #454545;
+  border-radius: 4px;
+  box-shadow: 0 4px 12px rgba(0,0,0,0.4);
+  display: flex;
+  flex-direction: column;
+}
+
+.file-tree-menu button {
+  background: transparent;
+  border: none;
+  color: #ccc;
+  font-size: 13px;
+  text-align: left;
+  padding: 6px 14px;
+  cursor: pointer;
+}
+
+.file-tree-menu button:hover,
+.file-tree-menu button:focus {
+  background: #094771;
+  color: #fff;
+  outline: none;
+}
+
+.file-tree-menu button.danger {
+  color: #f48771;
+}
+
+#tui-files.active {
+  background: #007acc !important;
+  border-color: #005a9e !important;
+}
+
+/* Shift the terminal right of the sidebar */
+body.file-tree-open #terminal {
+  margin-left: var(--file-tree-width, 260px);
+  width: calc(100vw - var(--file-tree-width, 260px)) !important;
+  max-width: calc(100vw - var(--file-tree-width, 260px)) !important;
+}
+
+body.file-tree-open .terminal,
+body.file-tree-open .xterm {
+  max-width: calc(100vw - var(--file-tree-width, 260px)) !important;
+}
+
+body.preview-open.file-tree-open #terminal {
+  width: calc(100vw - var(--preview-width, 400px) - var(--file-tree-width, 260px)) !important;
+  max-width: calc(100vw - var(--preview-width, 400px) - var(--file-tree-width, 260px)) !important;
+}
+
+body.preview-open.file-tree-open .terminal,
+body.preview-open.file-tree-open .xterm {
+  max-width: calc(100vw - var(--preview-width, 400px) - var(--file-tree-width, 260px)) !important;
+}
+
+/* Hide the tree on mobile */
+@media (max-width: 768px) {
+  #tui-file-tree,
+  #tui-files {
+    display: none !important;
+  }
+
+  body.file-tree-open #terminal {
+    margin-left: 0;
+    width: 100vw !important;
+    max-width: 100vw !important;
+  }
+}
+
 /* =============================================================================
    File Operations Sidebar
    ============================================================================= */
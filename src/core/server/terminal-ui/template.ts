@@ -39,6 +39,7 @@ export const terminalUiHtml = `
       <button id="tui-snippet" title="スニペット">📌</button>
       <button id="tui-download" title="ダウンロード">📥</button>
       <button id="tui-upload" title="アップロード">📤</button>
+      <button id="tui-files" title="ファイルツリー">🗂</button>
       <button id="tui-preview" title="HTMLプレビュー">👁</button>
       <button id="tui-notify" title="Push通知">🔔</button>
       <button id="tui-share" title="共有リンク">🔗</button>
@@ -168,6 +169,17 @@ export const terminalUiHtml = `
     📁 ここに画像をドロップ
   </div>
 </div>
+<div id="tui-file-tree" class="hidden">
+  <div id="tui-file-tree-header">
+    <span>ファイル</span>
+    <div id="tui-file-tree-actions">
+      <button id="tui-file-tree-mkdir" title="新しいフォルダ">＋</button>
+      <button id="tui-file-tree-refresh" title="更新">🔄</button>
+      <button id="tui-file-tree-close" title="閉じる">×</button>
+    </div>
+  </div>
+  <div id="tui-file-tree-list"></div>
+</div>
 <div id="tui-preview-pane" class="hidden">
   <div id="tui-preview-header">
     <span id="tui-preview-title">プレビュー</span>
@@ -14,6 +14,17 @@ export {
   type ValidationResult,
   validateOrigin
 } from './origin-validator.js';
+export {
+  AdaptiveQoS,
+  type AdaptiveQoSOptions,
+  AIStreamThrottler,
+  type AIStreamThrottlerOptions,
+  type DynamicQoS,
+  getAdaptiveQoS,
+  resetAdaptiveQoS,
+  TerminalOutputThrottler,
+  type TerminalOutputThrottlerOptions
+} from './qos.js';
 export {
   createBearerProtocol,
   extractBearerToken,
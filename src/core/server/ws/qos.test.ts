@@ -0,0 +1,60 @@
+/**
+ * Tests for QoS priorities and terminal output throttling
+ */
+
+import { afterEach, describe, expect, test } from 'bun:test';
+import { AdaptiveQoS, TerminalOutputThrottler } from './qos.js';
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('TerminalOutputThrottler', () => {
+  let throttler: TerminalOutputThrottler;
+
+  afterEach(() => {
+    throttler.stop();
+  });
+
+  test('batches chunks until the flush interval', async () => {
+    throttler = new TerminalOutputThrottler({ flushIntervalMs: 5 });
+    const flushed: string[] = [];
+    throttler.start((data) => flushed.push(data));
+
+    throttler.append('foo');
+    throttler.append('bar');
+    expect(flushed).toEqual([]);
+
+    await sleep(30);
+    expect(flushed).toEqual(['foobar']);
+    expect(throttler.isEmpty).toBe(true);
+  });
+
+  test('flushes immediately when a batch is full instead of dropping output', () => {
+    throttler = new TerminalOutputThrottler({ maxBufferSize: 3, maxBatchSize: 1000 });
+    const flushed: string[] = [];
+    throttler.start((data) => flushed.push(data));
+
+    for (const chunk of ['a', 'b', 'c', 'd']) {
+      throttler.append(chunk);
+    }
+    expect(flushed).toEqual(['abc']);
+
+    throttler.append('x'.repeat(1000));
+    expect(flushed).toEqual(['abc', `d${'x'.repeat(1000)}`]);
+  });
+
+  test('stretches the interval while terminal priority is lowered', () => {
+    const qos = new AdaptiveQoS();
+    throttler = new TerminalOutputThrottler({ flushIntervalMs: 16, qos });
+
+    expect(throttler.currentIntervalMs).toBe(16);
+    qos.setAIRunActive(true);
+    expect(throttler.currentIntervalMs).toBe(32);
+  });
+
+  test('ignores output when not started', () => {
+    throttler = new TerminalOutputThrottler();
+
+    throttler.append('lost');
+    expect(throttler.bufferSize).toBe(0);
+  });
+});
@@ -2,7 +2,8 @@
  * QoS (Quality of Service) Manager
  *
  * Manages dynamic priority between terminal and AI streams.
- * Implements output throttling for high-throughput scenarios.
+ * Implements output throttling for high-throughput scenarios: terminal
+ * output is batched by ClientBroadcaster, less often while an AI run is active.
  */
 
 // === Priority Types ===
@@ -67,22 +68,38 @@ export class AdaptiveQoS implements DynamicQoS {
 // === Output Throttler ===
 
 export interface TerminalOutputThrottlerOptions {
-  /** Maximum buffer size in chunks (default: 1000) */
+  /** Chunks buffered before an immediate flush (default: 1000) */
   maxBufferSize?: number;
-  /** Flush interval in ms (default: 16ms for ~60fps) */
+  /** Characters buffered before an immediate flush (default: 64KB) */
+  maxBatchSize?: number;
+  /** Flush interval in ms at full terminal priority (default: 16ms for ~60fps) */
   flushIntervalMs?: number;
+  /** Priority source; the interval stretches while terminal priority is lowered */
+  qos?: DynamicQoS;
 }
 
+/**
+ * Coalesces terminal output into frame-sized batches.
+ *
+ * The first chunk after a flush schedules the next one, so an idle session
+ * keeps no timer running. Output is never dropped: a full buffer is flushed
+ * immediately instead.
+ */
 export class TerminalOutputThrottler {
   private buffer: string[] = [];
+  private bufferedLength = 0;
   private readonly maxBufferSize: number;
+  private readonly maxBatchSize: number;
   private readonly flushIntervalMs: number;
-  private flushTimer: ReturnType<typeof setInterval> | null = null;
+  private readonly qos: DynamicQoS | undefined;
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
   private flushCallback: ((data: string) => void) | null = null;
 
   constructor(options: TerminalOutputThrottlerOptions = {}) {
     this.maxBufferSize = options.maxBufferSize ?? 1000;
+    this.maxBatchSize = options.maxBatchSize ?? 64 * 1024;
     this.flushIntervalMs = options.flushIntervalMs ?? 16;
+    this.qos = options.qos;
   }
 
   /**
@@ -90,32 +107,38 @@ export class TerminalOutputThrottler {
    */
   start(onFlush: (data: string) => void): void {
     this.flushCallback = onFlush;
-    this.flushTimer = setInterval(() => {
-      this.flushNow();
-    }, this.flushIntervalMs);
   }
 
   /**
    * Stop the throttler
    */
   stop(): void {
-    if (this.flushTimer) {
-      clearInterval(this.flushTimer);
-      this.flushTimer = null;
-    }
+    this.clearTimer();
     this.flushCallback = null;
     this.buffer = [];
+    this.bufferedLength = 0;
   }
 
   /**
    * Append data to the buffer
    */
   append(data: string): void {
+    if (!this.flushCallback) {
+      return; // Not started, or stopped
+    }
     this.buffer.push(data);
+    this.bufferedLength += data.length;
+
+    if (this.buffer.length >= this.maxBufferSize || this.bufferedLength >= this.maxBatchSize) {
+      this.flushNow();
+      return;
+    }
 
-    // Buffer overflow protection: drop old data
-    while (this.buffer.length > this.maxBufferSize) {
-      this.buffer.shift();
+    if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => {
+        this.flushTimer = null;
+        this.flushNow();
+      }, this.currentIntervalMs);
     }
   }
 
@@ -123,15 +146,25 @@ export class TerminalOutputThrottler {
    * Flush the buffer immediately
    */
   flushNow(): void {
+    this.clearTimer();
     if (this.buffer.length === 0 || !this.flushCallback) {
       return;
     }
 
     const combined = this.buffer.join('');
     this.buffer = [];
+    this.bufferedLength = 0;
     this.flushCallback(combined);
   }
 
+  /**
+   * Flush interval for the current terminal priority
+   */
+  get currentIntervalMs(): number {
+    const priority = this.qos?.terminalPriority ?? 100;
+    return Math.round((this.flushIntervalMs * 100) / Math.max(1, priority));
+  }
+
   /**
    * Get current buffer size
    */
@@ -145,6 +178,13 @@ export class TerminalOutputThrottler {
   get isEmpty(): boolean {
     return this.buffer.length === 0;
   }
+
+  private clearTimer(): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+  }
 }
 
 // === AI Stream Throttler ===
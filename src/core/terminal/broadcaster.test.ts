@@ -0,0 +1,155 @@
+/**
+ * Tests for ClientBroadcaster output batching and per-client backpressure
+ */
+
+import { afterEach, describe, expect, test } from 'bun:test';
+import {
+  BinaryFrameType,
+  decodeBinaryFrame,
+  type NativeTerminalWebSocket
+} from '@/core/protocol/index.js';
+import { ClientBroadcaster } from './broadcaster.js';
+import { HeadlessScreen } from './headless-screen.js';
+
+type MockWebSocket = NativeTerminalWebSocket & {
+  sentMessages: string[];
+  sentFrames: Uint8Array[];
+  buffered: number;
+};
+
+function createMockWebSocket(): MockWebSocket {
+  const ws = {
+    sentMessages: [] as string[],
+    sentFrames: [] as Uint8Array[],
+    buffered: 0,
+    data: { sessionName: 'test-session' },
+    send(data: string | Uint8Array) {
+      if (typeof data !== 'string') {
+        this.sentFrames.push(data);
+        return;
+      }
+      this.sentMessages.push(data);
+    },
+    getBufferedAmount() {
+      return this.buffered;
+    },
+    close() {}
+  };
+  return ws as MockWebSocket;
+}
+
+function decode(message: string): { type: string; text: string } {
+  const parsed = JSON.parse(message) as { type: string; data?: string };
+  return { type: parsed.type, text: Buffer.from(parsed.data ?? '', 'base64').toString('utf-8') };
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('ClientBroadcaster output flow', () => {
+  let broadcaster: ClientBroadcaster;
+  let screen: HeadlessScreen | undefined;
+
+  afterEach(() => {
+    broadcaster.closeAll();
+    screen?.dispose();
+    screen = undefined;
+  });
+
+  test('coalesces output chunks into one frame', async () => {
+    broadcaster = new ClientBroadcaster({ flushIntervalMs: 5 });
+    const ws = createMockWebSocket();
+    broadcaster.addClient(ws);
+
+    broadcaster.broadcastOutput('a');
+    broadcaster.broadcastOutput('b');
+    broadcaster.broadcastOutput('c');
+    expect(ws.sentMessages).toHaveLength(0);
+
+    await sleep(30);
+
+    expect(ws.sentMessages.map(decode)).toEqual([{ type: 'output', text: 'abc' }]);
+    expect(broadcaster.getStats()).toMatchObject({ bytesIn: 3, bytesOut: 3, frames: 1 });
+  });
+
+  test('sends output as binary frames to binary clients', () => {
+    broadcaster = new ClientBroadcaster({ flushIntervalMs: 1000 });
+    const json = createMockWebSocket();
+    const binary = createMockWebSocket();
+    broadcaster.addClient(json);
+    broadcaster.addClient(binary, { binary: true });
+
+    broadcaster.broadcastOutput('ok ✓');
+    broadcaster.flushOutput();
+    broadcaster.broadcast({ type: 'bell' });
+
+    expect(json.sentMessages.map(decode)).toEqual([
+      { type: 'output', text: 'ok ✓' },
+      { type: 'bell', text: '' }
+    ]);
+    const frame = decodeBinaryFrame(binary.sentFrames[0] as Uint8Array);
+    expect(frame?.type).toBe(BinaryFrameType.Output);
+    expect(new TextDecoder().decode(frame?.payload)).toBe('ok ✓');
+    // Control messages stay JSON
+    expect(binary.sentMessages.map((m) => decode(m).type)).toEqual(['bell']);
+  });
+
+  test('flushes pending output before other messages', () => {
+    broadcaster = new ClientBroadcaster({ flushIntervalMs: 1000 });
+    const ws = createMockWebSocket();
+    broadcaster.addClient(ws);
+
+    broadcaster.broadcastOutput('$ ls');
+    broadcaster.broadcast({ type: 'bell' });
+
+    expect(ws.sentMessages.map((m) => decode(m).type)).toEqual(['output', 'bell']);
+  });
+
+  test('does not repeat queued output after a replay snapshot', async () => {
+    screen = new HeadlessScreen({ cols: 20, rows: 3 });
+    broadcaster = new ClientBroadcaster({ screen, flushIntervalMs: 1000 });
+    const ws = createMockWebSocket();
+    broadcaster.addClient(ws);
+
+    screen.write('HELLO\r\n');
+    broadcaster.broadcastOutput('HELLO\r\n');
+    await broadcaster.replayTo(ws);
+    broadcaster.flushOutput();
+
+    const types = ws.sentMessages.map((m) => decode(m).type);
+    expect(types.slice(types.indexOf('snapshot'))).not.toContain('output');
+  });
+
+  test('skips output for a lagging client and resyncs it with a snapshot', async () => {
+    screen = new HeadlessScreen({ cols: 20, rows: 3 });
+    broadcaster = new ClientBroadcaster({
+      screen,
+      flushIntervalMs: 1000,
+      highWaterMark: 100,
+      lowWaterMark: 10
+    });
+    const fast = createMockWebSocket();
+    const slow = createMockWebSocket();
+    broadcaster.addClient(fast);
+    broadcaster.addClient(slow);
+
+    slow.buffered = 500;
+    screen.write('latest');
+    broadcaster.broadcastOutput('latest');
+    broadcaster.flushOutput();
+
+    expect(fast.sentMessages).toHaveLength(1);
+    expect(slow.sentMessages).toHaveLength(0);
+    expect(broadcaster.getStats()).toMatchObject({ laggingClients: 1, bytesSkipped: 6 });
+
+    // Control messages still reach the lagging client
+    broadcaster.broadcast({ type: 'bell' });
+    expect(slow.sentMessages.map((m) => decode(m).type)).toEqual(['bell']);
+
+    slow.buffered = 0;
+    await sleep(250);
+
+    const snapshot = slow.sentMessages.map(decode).find((m) => m.type === 'snapshot');
+    expect(snapshot?.text).toContain('latest');
+    expect(broadcaster.getStats()).toMatchObject({ laggingClients: 0, resyncs: 1 });
+  });
+});
@@ -4,21 +4,92 @@
  * This class handles:
  * - Adding/removing WebSocket client connections
  * - Broadcasting messages to all connected clients
- * - Replaying buffered output to reconnecting clients
+ * - Replaying the screen (or buffered output) to reconnecting clients
+ * - Batching PTY output and skipping slow clients to the latest screen
+ *
+ * PTY output goes through broadcastOutput(), which coalesces it into
+ * frame-sized batches. A client whose socket buffer grows past the high
+ * water mark stops receiving output ("lagging") instead of queueing it;
+ * once its buffer drains below the low water mark it gets a fresh screen
+ * snapshot and continues from there.
+ *
+ * Clients that negotiated the binary subprotocol get output as binary
+ * frames; everyone else gets JSON output messages.
  */
 
 import type { Block, NativeTerminalWebSocket, ServerMessage } from '@/core/protocol/index.js';
-import { createBlockListMessage, serializeServerMessage } from '@/core/protocol/index.js';
+import {
+  BinaryFrameType,
+  createBlockListMessage,
+  createOutputMessage,
+  createSnapshotMessage,
+  encodeBinaryFrame,
+  serializeServerMessage
+} from '@/core/protocol/index.js';
+import { type DynamicQoS, TerminalOutputThrottler } from '@/core/server/ws/qos.js';
+import type { HeadlessScreen } from './headless-screen.js';
 
 export interface BroadcasterOptions {
   /** Maximum number of output lines to buffer for replay (default: 1000) */
   maxOutputBuffer?: number;
   /** Maximum number of output lines to replay on reconnect (default: 100) */
   replayCount?: number;
+  /**
+   * Headless emulator mirroring the session screen. When set, reconnecting
+   * clients get a serialized snapshot instead of the last raw output chunks.
+   */
+  screen?: HeadlessScreen;
+  /** Blocks sent along with the snapshot when a lagging client catches up */
+  getBlocks?: () => Block[];
+  /** Output batch interval in ms (default: 16) */
+  flushIntervalMs?: number;
+  /** Socket buffer size in bytes at which a client starts lagging (default: 1MB) */
+  highWaterMark?: number;
+  /** Socket buffer size in bytes at which a lagging client resyncs (default: 64KB) */
+  lowWaterMark?: number;
+  /** Terminal/AI priority; output is batched less often while AI runs */
+  qos?: DynamicQoS;
+}
+
+export interface ClientOptions {
+  /** Client negotiated binary framing for output */
+  binary?: boolean;
+}
+
+/** Data as sent over the socket: JSON text or a binary frame */
+type Frame = string | Uint8Array;
+
+/**
+ * Output throughput of a session
+ */
+export interface ThroughputStats {
+  /** Output bytes received from the PTY */
+  bytesIn: number;
+  /** Output bytes sent, summed over clients */
+  bytesOut: number;
+  /** Output bytes not sent to lagging clients */
+  bytesSkipped: number;
+  /** Output batches sent */
+  frames: number;
+  /** Snapshots sent to lagging clients that caught up */
+  resyncs: number;
+  /** Input rate over the last full second */
+  bytesInPerSecond: number;
+  /** Output rate over the last full second */
+  bytesOutPerSecond: number;
+  clients: number;
+  laggingClients: number;
+  /** Largest socket buffer among clients, in bytes */
+  maxBufferedAmount: number;
 }
 
 const DEFAULT_MAX_OUTPUT_BUFFER = 1000;
 const DEFAULT_REPLAY_COUNT = 100;
+const DEFAULT_HIGH_WATER_MARK = 1024 * 1024;
+const DEFAULT_LOW_WATER_MARK = 64 * 1024;
+/** How often lagging clients are checked for a drained buffer */
+const DRAIN_CHECK_INTERVAL_MS = 100;
+const RATE_WINDOW_MS = 1000;
 
 /**
  * Manages WebSocket client connections and message broadcasting
@@ -28,17 +99,51 @@ export class ClientBroadcaster {
   private readonly outputBuffer: string[] = [];
   private readonly maxOutputBuffer: number;
   private readonly replayCount: number;
+  private readonly screen: HeadlessScreen | undefined;
+  /** Messages held back from clients whose snapshot is still being serialized */
+  private readonly pendingReplays: Map<NativeTerminalWebSocket, Frame[]> = new Map();
+  /** Clients receiving output as binary frames */
+  private readonly binaryClients: Set<NativeTerminalWebSocket> = new Set();
+  private readonly getBlocks: () => Block[];
+  private readonly throttler: TerminalOutputThrottler;
+  private readonly highWaterMark: number;
+  private readonly lowWaterMark: number;
+  /** Clients skipping output until their socket buffer drains */
+  private readonly laggingClients: Set<NativeTerminalWebSocket> = new Set();
+  private drainTimer: ReturnType<typeof setInterval> | null = null;
+
+  private readonly stats = {
+    bytesIn: 0,
+    bytesOut: 0,
+    bytesSkipped: 0,
+    frames: 0,
+    resyncs: 0
+  };
+  private rateWindow = { startedAt: Date.now(), bytesIn: 0, bytesOut: 0 };
+  private lastRate = { at: 0, bytesIn: 0, bytesOut: 0 };
 
   constructor(options: BroadcasterOptions = {}) {
     this.maxOutputBuffer = options.maxOutputBuffer ?? DEFAULT_MAX_OUTPUT_BUFFER;
     this.replayCount = options.replayCount ?? DEFAULT_REPLAY_COUNT;
+    this.screen = options.screen;
+    this.getBlocks = options.getBlocks ?? (() => []);
+    this.highWaterMark = options.highWaterMark ?? DEFAULT_HIGH_WATER_MARK;
+    this.lowWaterMark = options.lowWaterMark ?? DEFAULT_LOW_WATER_MARK;
+    this.throttler = new TerminalOutputThrottler({
+      flushIntervalMs: options.flushIntervalMs,
+      qos: options.qos
+    });
+    this.throttler.start((text) => this.sendOutput(text));
   }
 
   /**
    * Add a new client connection
    */
-  addClient(ws: NativeTerminalWebSocket): void {
+  addClient(ws: NativeTerminalWebSocket, options: ClientOptions = {}): void {
     this.clients.add(ws);
+    if (options.binary) {
+      this.binaryClients.add(ws);
+    }
   }
 
   /**
@@ -46,6 +151,9 @@ export class ClientBroadcaster {
    */
   removeClient(ws: NativeTerminalWebSocket): void {
     this.clients.delete(ws);
+    this.pendingReplays.delete(ws);
+    this.laggingClients.delete(ws);
+    this.binaryClients.delete(ws);
   }
 
   /**
@@ -56,22 +164,50 @@ export class ClientBroadcaster {
   }
 
   /**
-   * Broadcast a message to all connected clients
+   * Broadcast a message to all connected clients.
+   * Block output is skipped for lagging clients like terminal output.
    */
   broadcast(message: ServerMessage): void {
     const serialized = serializeServerMessage(message);
-    const failedClients: NativeTerminalWebSocket[] = [];
-    for (const ws of this.clients) {
-      try {
-        ws.send(serialized);
-      } catch {
-        // Client disconnected - mark for removal
-        failedClients.push(ws);
-      }
+    if (message.type === 'blockOutput') {
+      this.throttler.flushNow();
+      this.sendToClients(serialized, true);
+      return;
     }
-    // Remove failed clients
-    for (const ws of failedClients) {
-      this.clients.delete(ws);
+    this.broadcastRaw(serialized);
+  }
+
+  /**
+   * Queue PTY output for the next batch
+   */
+  broadcastOutput(text: string): void {
+    const bytes = Buffer.byteLength(text);
+    this.stats.bytesIn += bytes;
+    this.countRate(bytes, 0);
+    this.throttler.append(text);
+  }
+
+  /**
+   * Send pending output now instead of at the end of the batch interval
+   */
+  flushOutput(): void {
+    this.throttler.flushNow();
+  }
+
+  /**
+   * Send a message to one client (held back while its snapshot is serialized)
+   */
+  sendTo(ws: NativeTerminalWebSocket, message: ServerMessage): void {
+    const serialized = serializeServerMessage(message);
+    const pending = this.pendingReplays.get(ws);
+    if (pending) {
+      pending.push(serialized);
+      return;
+    }
+    try {
+      ws.send(serialized);
+    } catch {
+      // Client disconnected
     }
   }
 
@@ -79,10 +215,82 @@ export class ClientBroadcaster {
    * Broadcast raw serialized data to all connected clients
    */
   broadcastRaw(serialized: string): void {
+    // Keep order: output queued before this message goes out first
+    this.throttler.flushNow();
+    this.sendToClients(serialized, false);
+  }
+
+  /**
+   * Get output throughput statistics
+   */
+  getStats(): ThroughputStats {
+    const now = Date.now();
+    this.countRate(0, 0, now);
+    // A rate older than one window means nothing was sent since
+    const fresh = now - this.lastRate.at <= 2 * RATE_WINDOW_MS;
+    let maxBufferedAmount = 0;
+    for (const ws of this.clients) {
+      maxBufferedAmount = Math.max(maxBufferedAmount, ws.getBufferedAmount());
+    }
+    return {
+      ...this.stats,
+      bytesInPerSecond: fresh ? this.lastRate.bytesIn : 0,
+      bytesOutPerSecond: fresh ? this.lastRate.bytesOut : 0,
+      clients: this.clients.size,
+      laggingClients: this.laggingClients.size,
+      maxBufferedAmount
+    };
+  }
+
+  /**
+   * Send a batch of PTY output to every client that keeps up
+   */
+  private sendOutput(text: string): void {
+    const data = new TextEncoder().encode(text);
+    const bytes = data.length;
+    // Each encoding is built only if some client needs it
+    let json: string | undefined;
+    let binary: Uint8Array | undefined;
+    const sent = this.sendToClients((ws) => {
+      if (this.binaryClients.has(ws)) {
+        binary ??= encodeBinaryFrame(BinaryFrameType.Output, data);
+        return binary;
+      }
+      json ??= serializeServerMessage(createOutputMessage(data));
+      return json;
+    }, true);
+    this.stats.frames++;
+    this.stats.bytesOut += bytes * sent;
+    this.stats.bytesSkipped += bytes * (this.clients.size - sent);
+    this.countRate(0, bytes * sent);
+  }
+
+  /**
+   * Send serialized data (or a per-client frame) to all clients.
+   * Droppable data (output) is withheld from lagging clients.
+   *
+   * @returns number of clients the data was sent or queued to
+   */
+  private sendToClients(
+    frame: Frame | ((ws: NativeTerminalWebSocket) => Frame),
+    droppable: boolean
+  ): number {
     const failedClients: NativeTerminalWebSocket[] = [];
+    let delivered = 0;
     for (const ws of this.clients) {
+      // Delivered after the snapshot, which does not include this output
+      const pending = this.pendingReplays.get(ws);
+      if (pending) {
+        pending.push(typeof frame === 'function' ? frame(ws) : frame);
+        delivered++;
+        continue;
+      }
+      if (droppable && this.isLagging(ws)) {
+        continue;
+      }
       try {
-        ws.send(serialized);
+        ws.send(typeof frame === 'function' ? frame(ws) : frame);
+        delivered++;
       } catch {
         // Client disconnected - mark for removal
         failedClients.push(ws);
@@ -90,8 +298,60 @@ export class ClientBroadcaster {
     }
     // Remove failed clients
     for (const ws of failedClients) {
-      this.clients.delete(ws);
+      this.removeClient(ws);
+    }
+    return delivered;
+  }
+
+  /**
+   * Whether a client is (or just became) too far behind to receive output
+   */
+  private isLagging(ws: NativeTerminalWebSocket): boolean {
+    if (this.laggingClients.has(ws)) {
+      return true;
+    }
+    if (ws.getBufferedAmount() < this.highWaterMark) {
+      return false;
+    }
+    this.laggingClients.add(ws);
+    this.drainTimer ??= setInterval(() => this.checkDrained(), DRAIN_CHECK_INTERVAL_MS);
+    return true;
+  }
+
+  /**
+   * Resync lagging clients whose socket buffer has drained
+   */
+  private checkDrained(): void {
+    for (const ws of this.laggingClients) {
+      if (ws.getBufferedAmount() > this.lowWaterMark) {
+        continue;
+      }
+      this.laggingClients.delete(ws);
+      this.stats.resyncs++;
+      // Skip to the latest screen; output from now on is queued behind the snapshot
+      this.replayTo(ws, this.getBlocks()).catch(() => {
+        this.removeClient(ws);
+      });
     }
+    if (this.laggingClients.size === 0 && this.drainTimer) {
+      clearInterval(this.drainTimer);
+      this.drainTimer = null;
+    }
+  }
+
+  private countRate(bytesIn: number, bytesOut: number, now = Date.now()): void {
+    const elapsed = now - this.rateWindow.startedAt;
+    if (elapsed >= RATE_WINDOW_MS) {
+      const perSecond = (bytes: number) => Math.round((bytes * 1000) / elapsed);
+      this.lastRate = {
+        at: now,
+        bytesIn: perSecond(this.rateWindow.bytesIn),
+        bytesOut: perSecond(this.rateWindow.bytesOut)
+      };
+      this.rateWindow = { startedAt: now, bytesIn: 0, bytesOut: 0 };
+    }
+    this.rateWindow.bytesIn += bytesIn;
+    this.rateWindow.bytesOut += bytesOut;
   }
 
   /**
@@ -105,9 +365,52 @@ export class ClientBroadcaster {
   }
 
   /**
-   * Replay buffered output to a specific client
+   * Replay the session to a specific client, followed by the block list.
+   *
+   * With a headless screen the client receives one snapshot message;
+   * messages broadcast while it is serialized are queued and sent after it
+   * so nothing is lost or duplicated. Without one, the last `replayCount`
+   * raw output chunks are replayed.
    */
-  replayTo(ws: NativeTerminalWebSocket): void {
+  async replayTo(ws: NativeTerminalWebSocket, blocks: Block[] = []): Promise<void> {
+    if (!this.screen) {
+      this.replayBufferTo(ws);
+      this.sendBlockList(ws, blocks);
+      return;
+    }
+
+    // The screen already holds queued output: send it now so it is not
+    // replayed again after the snapshot
+    this.throttler.flushNow();
+
+    // Registered synchronously so output arriving from now on is held back
+    const pending: Frame[] = [];
+    this.pendingReplays.set(ws, pending);
+    const snapshot = await this.screen.snapshot();
+    if (this.pendingReplays.get(ws) !== pending) {
+      return; // Client removed (or replay restarted) meanwhile
+    }
+    this.pendingReplays.delete(ws);
+
+    try {
+      ws.send(serializeServerMessage(createSnapshotMessage(snapshot)));
+    } catch {
+      return; // Client disconnected
+    }
+    this.sendBlockList(ws, blocks);
+    for (const frame of pending) {
+      try {
+        ws.send(frame);
+      } catch {
+        break; // Client disconnected
+      }
+    }
+  }
+
+  /**
+   * Replay the last buffered raw output chunks to a specific client
+   */
+  private replayBufferTo(ws: NativeTerminalWebSocket): void {
     if (this.outputBuffer.length === 0) {
       return;
     }
@@ -157,6 +460,12 @@ export class ClientBroadcaster {
    * Close all client connections
    */
   closeAll(code = 1000, reason = 'Session ended'): void {
+    this.throttler.flushNow();
+    this.throttler.stop();
+    if (this.drainTimer) {
+      clearInterval(this.drainTimer);
+      this.drainTimer = null;
+    }
     for (const ws of this.clients) {
       try {
         ws.close(code, reason);
@@ -165,5 +474,8 @@ export class ClientBroadcaster {
       }
     }
     this.clients.clear();
+    this.pendingReplays.clear();
+    this.laggingClients.clear();
+    this.binaryClients.clear();
   }
 }
@@ -6,6 +6,7 @@
  * - PersistentExecutor instances per session
  * - Shared BlockStore and EventEmitter
  * - Unified API for command execution
+ * - Multi-step workflows (via WorkflowRunner)
  */
 
 import type {
@@ -14,13 +15,35 @@ import type {
   CommandRequest,
   CommandResponse,
   ExtendedBlock,
-  IntegrationStatus
+  IntegrationStatus,
+  Workflow,
+  WorkflowRequest
 } from '@/core/protocol/index.js';
 import type { NativeSessionManager } from '@/core/server/session-manager.js';
 import type { TerminalSession } from '@/core/terminal/session.js';
-import { createEphemeralExecutor, type EphemeralExecutor } from './ephemeral-executor.js';
-import { createPersistentExecutor, type PersistentExecutor } from './persistent-executor.js';
+import { err, ok, type Result } from '@/utils/result.js';
+import {
+  createEphemeralExecutor,
+  type EphemeralExecutor,
+  type ExecutorEvent
+} from './ephemeral-executor.js';
+import {
+  createPersistentExecutor,
+  type PersistentExecutor,
+  type PersistentExecutorEvent
+} from './persistent-executor.js';
 import type { ExecutorBlockEventEmitter, ExecutorBlockStore } from './session-plugins.js';
+import { type CancelSignal, validateWorkflow, WorkflowRunner } from './workflow-runner.js';
+
+/** Finished workflows kept for status queries */
+const MAX_FINISHED_WORKFLOWS = 100;
+
+/**
+ * Generate a unique workflow ID (also the correlationId of its step blocks)
+ */
+function generateWorkflowId(): string {
+  return `wf_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+}
 
 /**
  * Session executor state
@@ -38,6 +61,8 @@ export class CommandExecutorManager {
   private readonly blockStore: ExecutorBlockStore;
   private readonly eventEmitter: ExecutorBlockEventEmitter;
   private readonly executors: Map<string, SessionExecutors> = new Map();
+  private readonly workflows: Map<string, { sessionName: string; runner: WorkflowRunner }> =
+    new Map();
 
   constructor(
     sessionManager: NativeSessionManager,
@@ -53,13 +78,19 @@ export class CommandExecutorManager {
 
   /**
    * Execute a command in a session
+   *
+   * @param onStarted - Called with the block once the command starts
    */
-  async executeCommand(sessionName: string, request: CommandRequest): Promise<CommandResponse> {
+  async executeCommand(
+    sessionName: string,
+    request: CommandRequest,
+    onStarted?: (block: ExtendedBlock) => void
+  ): Promise<CommandResponse> {
     const mode = request.mode ?? 'ephemeral';
     const executors = this.getOrCreateExecutors(sessionName);
 
     if (mode === 'ephemeral') {
-      return this.executeEphemeral(executors.ephemeral, request);
+      return executors.ephemeral.execute(request, onStarted);
     }
     // Ensure persistent executor exists
     if (!executors.persistent) {
@@ -69,16 +100,13 @@ export class CommandExecutorManager {
       }
       executors.persistent = this.createPersistentExecutor(session);
     }
-    return this.executePersistent(executors.persistent, request);
+    return executors.persistent.execute(request, onStarted);
   }
 
   /**
-   * Execute command in ephemeral mode
+   * Forward ephemeral executor events to the event emitter
    */
-  private async executeEphemeral(
-    executor: EphemeralExecutor,
-    request: CommandRequest
-  ): Promise<CommandResponse> {
+  private readonly forwardEphemeralEvent = (event: ExecutorEvent): void => {
     // Hook up event emitter using lookup table
     const eventHandlers: Record<string, (event: any) => void> = {
       started: (e) => this.eventEmitter.emitStarted(e.block),
@@ -86,38 +114,89 @@ export class CommandExecutorManager {
       stderr: (e) => this.eventEmitter.emitStderr(e.blockId, e.chunk),
       completed: (e) => this.eventEmitter.emitCompleted(e.block)
     };
-    const onEvent = (event: any) => eventHandlers[event.type]?.(event);
-
-    // biome-ignore lint: server-side process lifetime listener
-    executor.addEventListener(onEvent);
-    try {
-      return await executor.execute(request);
-    } finally {
-      executor.removeEventListener(onEvent);
-    }
-  }
+    eventHandlers[event.type]?.(event);
+  };
 
   /**
-   * Execute command in persistent mode
+   * Forward persistent executor events to the event emitter
    */
-  private async executePersistent(
-    executor: PersistentExecutor,
-    request: CommandRequest
-  ): Promise<CommandResponse> {
-    // Hook up event emitter using lookup table
+  private readonly forwardPersistentEvent = (event: PersistentExecutorEvent): void => {
     const eventHandlers: Record<string, (event: any) => void> = {
       started: (e) => this.eventEmitter.emitStarted(e.block),
       output: (e) => this.eventEmitter.emitStdout(e.blockId, e.chunk),
       completed: (e) => this.eventEmitter.emitCompleted(e.block)
     };
-    const onEvent = (event: any) => eventHandlers[event.type]?.(event);
+    eventHandlers[event.type]?.(event);
+  };
 
-    // biome-ignore lint: server-side process lifetime listener
-    executor.addEventListener(onEvent);
-    try {
-      return await executor.execute(request);
-    } finally {
-      executor.removeEventListener(onEvent);
+  /**
+   * Start a workflow in a session. Steps run in the background; follow
+   * them with getWorkflow() or the workflow ID's block event stream.
+   *
+   * @returns the initial workflow state, or a validation error message
+   */
+  startWorkflow(sessionName: string, request: WorkflowRequest): Result<Workflow, string> {
+    const validated = validateWorkflow(request);
+    if (!validated.ok) {
+      return err(validated.error);
+    }
+
+    const runner = new WorkflowRunner({
+      id: generateWorkflowId(),
+      sessionName,
+      request,
+      steps: validated.value,
+      eventEmitter: this.eventEmitter,
+      executor: {
+        execute: (stepRequest, onStarted) =>
+          this.executeCommand(sessionName, stepRequest, onStarted),
+        cancel: (blockId, signal) => {
+          this.cancelCommand(sessionName, blockId, signal);
+        },
+        getBlock: (blockId) => this.blockStore.getBlock(blockId),
+        readStdout: (blockId) => this.readStdout(blockId)
+      }
+    });
+    this.workflows.set(runner.id, { sessionName, runner });
+    this.pruneWorkflows();
+    runner.start();
+    return ok(runner.snapshot());
+  }
+
+  /**
+   * Get a workflow's current state
+   */
+  getWorkflow(workflowId: string): Workflow | undefined {
+    return this.workflows.get(workflowId)?.runner.snapshot();
+  }
+
+  /**
+   * Cancel a workflow and all of its running steps
+   *
+   * @returns false if the workflow is unknown or already finished
+   */
+  cancelWorkflow(workflowId: string, signal: CancelSignal = 'SIGTERM'): boolean {
+    return this.workflows.get(workflowId)?.runner.cancel(signal) ?? false;
+  }
+
+  /**
+   * Full stdout of a block (decoded)
+   */
+  private readStdout(blockId: string): string {
+    const { chunks } = this.blockStore.getBlockChunks(blockId, {
+      stream: 'stdout',
+      limit: Number.MAX_SAFE_INTEGER
+    });
+    return chunks.map((chunk) => Buffer.from(chunk.content, 'base64').toString('utf-8')).join('');
+  }
+
+  /**
+   * Drop the oldest finished workflows beyond MAX_FINISHED_WORKFLOWS
+   */
+  private pruneWorkflows(): void {
+    const finished = [...this.workflows].filter(([, entry]) => entry.runner.finished);
+    for (const [id] of finished.slice(0, Math.max(0, finished.length - MAX_FINISHED_WORKFLOWS))) {
+      this.workflows.delete(id);
     }
   }
 
@@ -127,7 +206,7 @@ export class CommandExecutorManager {
   cancelCommand(
     sessionName: string,
     blockId: string,
-    signal: 'SIGTERM' | 'SIGINT' | 'SIGKILL' = 'SIGTERM'
+    signal: CancelSignal = 'SIGTERM'
   ): CancelResponse {
     const executors = this.executors.get(sessionName);
     if (!executors) {
@@ -188,6 +267,13 @@ export class CommandExecutorManager {
     return this.blockStore.getBlock(blockId);
   }
 
+  /**
+   * Get the name of the session a block ran in
+   */
+  getBlockSession(blockId: string): string | undefined {
+    return this.blockStore.getBlockSession(blockId);
+  }
+
   /**
    * Get all blocks for a session
    */
@@ -250,9 +336,10 @@ export class CommandExecutorManager {
       const session = this.sessionManager.getSession(sessionName);
       const cwd = session?.cwd ?? process.cwd();
 
-      executors = {
-        ephemeral: createEphemeralExecutor(sessionName, cwd, this.blockStore)
-      };
+      const ephemeral = createEphemeralExecutor(sessionName, cwd, this.blockStore);
+      // biome-ignore lint: server-side process lifetime listener
+      ephemeral.addEventListener(this.forwardEphemeralEvent);
+      executors = { ephemeral };
       this.executors.set(sessionName, executors);
     }
     return executors;
@@ -262,13 +349,22 @@ export class CommandExecutorManager {
    * Create a persistent executor for a session
    */
   private createPersistentExecutor(session: TerminalSession): PersistentExecutor {
-    return createPersistentExecutor(session, this.blockStore);
+    const executor = createPersistentExecutor(session, this.blockStore);
+    // biome-ignore lint: server-side process lifetime listener
+    executor.addEventListener(this.forwardPersistentEvent);
+    return executor;
   }
 
   /**
    * Clean up executors for a session
    */
   async cleanupSession(sessionName: string): Promise<void> {
+    for (const [id, entry] of this.workflows) {
+      if (entry.sessionName === sessionName) {
+        entry.runner.cancel('SIGKILL');
+        this.workflows.delete(id);
+      }
+    }
     const executors = this.executors.get(sessionName);
     if (executors) {
       await executors.ephemeral.cleanup();
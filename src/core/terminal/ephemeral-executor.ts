@@ -22,6 +22,9 @@ import type { ExecutorBlockStore } from './session-plugins.js';
 /** Default timeout: 5 minutes */
 const DEFAULT_TIMEOUT_MS = 5 * 60 * 1000;
 
+/** How long to keep reading output after the process exits (pipes held by background children) */
+const OUTPUT_DRAIN_MS = 1000;
+
 /** Event emitter callback types */
 export type ExecutorEventCallback = (event: ExecutorEvent) => void;
 
@@ -60,8 +63,13 @@ export class EphemeralExecutor {
 
   /**
    * Execute a command
+   *
+   * @param onStarted - Called with the block before its started event is emitted
    */
-  async execute(request: CommandRequest): Promise<CommandResponse> {
+  async execute(
+    request: CommandRequest,
+    onStarted?: (block: ExtendedBlock) => void
+  ): Promise<CommandResponse> {
     const cwd = request.cwd ?? this.defaultCwd;
     const timeoutMs = request.timeoutMs ?? DEFAULT_TIMEOUT_MS;
 
@@ -80,13 +88,15 @@ export class EphemeralExecutor {
       effectiveCwd: cwd,
       gitInfo,
       tags: request.tags,
-      agentMeta: request.agentMeta
+      agentMeta: request.agentMeta,
+      correlationId: request.correlationId
     });
 
     // Update status to running
     this.blockStore.updateStatus(block.id, 'running');
     block.status = 'running';
 
+    onStarted?.(block);
     this.emit({ type: 'started', block });
 
     // Build environment
@@ -123,14 +133,15 @@ export class EphemeralExecutor {
     };
     this.runningCommands.set(block.id, running);
 
-    // Handle stdout
-    this.streamOutput(block.id, proc.stdout, 'stdout');
-
-    // Handle stderr
-    this.streamOutput(block.id, proc.stderr, 'stderr');
+    // Handle stdout and stderr
+    const outputDone = Promise.all([
+      this.streamOutput(block.id, proc.stdout, 'stdout'),
+      this.streamOutput(block.id, proc.stderr, 'stderr')
+    ]);
 
-    // Wait for process to complete
+    // Wait for process to complete, then for the remaining buffered output
     const exitCode = await proc.exited;
+    await Promise.race([outputDone, Bun.sleep(OUTPUT_DRAIN_MS)]);
 
     // Clear timeout
     if (timeoutId) {
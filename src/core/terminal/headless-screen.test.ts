@@ -0,0 +1,141 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import type { NativeTerminalWebSocket } from '@/core/protocol/index.js';
+import { ClientBroadcaster } from './broadcaster.js';
+import { HeadlessScreen } from './headless-screen.js';
+
+function createMockWebSocket(): NativeTerminalWebSocket & { sentMessages: string[] } {
+  const ws = {
+    sentMessages: [] as string[],
+    data: { sessionName: 'test-session' },
+    send(data: string) {
+      this.sentMessages.push(data);
+    },
+    getBufferedAmount() {
+      return 0;
+    },
+    close() {}
+  };
+  return ws as NativeTerminalWebSocket & { sentMessages: string[] };
+}
+
+function decodeSnapshot(message: string): string {
+  const parsed = JSON.parse(message) as { type: string; data: string };
+  expect(parsed.type).toBe('snapshot');
+  return Buffer.from(parsed.data, 'base64').toString('utf-8');
+}
+
+describe('HeadlessScreen', () => {
+  let screen: HeadlessScreen;
+
+  afterEach(() => {
+    screen.dispose();
+  });
+
+  test('serializes screen contents and scrollback', async () => {
+    screen = new HeadlessScreen({ cols: 20, rows: 3 });
+    screen.write('line1\r\nline2\r\nline3\r\nline4\r\n');
+
+    const snapshot = await screen.snapshot();
+
+    expect(snapshot).toContain('line1');
+    expect(snapshot).toContain('line4');
+  });
+
+  test('keeps the alternate screen and cursor position', async () => {
+    screen = new HeadlessScreen({ cols: 20, rows: 5 });
+    screen.write('shell prompt\r\n');
+    screen.write('\x1b[?1049h\x1b[Hvim buffer\x1b[3;5H');
+
+    const snapshot = await screen.snapshot();
+
+    expect(snapshot).toContain('shell prompt');
+    expect(snapshot).toContain('\x1b[?1049h');
+    expect(snapshot.indexOf('vim buffer')).toBeGreaterThan(snapshot.indexOf('\x1b[?1049h'));
+
+    // Replaying the snapshot reproduces the same state
+    const replica = new HeadlessScreen({ cols: 20, rows: 5 });
+    replica.write(snapshot);
+    expect(await replica.snapshot()).toBe(snapshot);
+    replica.dispose();
+  });
+
+  test('settles pending snapshots on dispose', async () => {
+    screen = new HeadlessScreen({ cols: 20, rows: 5 });
+    screen.write('hello');
+    const pending = screen.snapshot();
+    screen.dispose();
+
+    expect(await pending).toBe('');
+  });
+});
+
+describe('ClientBroadcaster with HeadlessScreen', () => {
+  let screen: HeadlessScreen;
+
+  afterEach(() => {
+    screen.dispose();
+  });
+
+  test('replays a snapshot instead of raw output chunks', async () => {
+    screen = new HeadlessScreen({ cols: 20, rows: 5 });
+    const broadcaster = new ClientBroadcaster({ screen });
+    broadcaster.bufferOutput(Buffer.from('hello').toString('base64'));
+    screen.write('hello');
+
+    const ws = createMockWebSocket();
+    broadcaster.addClient(ws);
+    await broadcaster.replayTo(ws);
+
+    expect(ws.sentMessages).toHaveLength(1);
+    expect(decodeSnapshot(ws.sentMessages[0] ?? '')).toBe('hello');
+  });
+
+  test('delivers output broadcast during serialization after the snapshot', async () => {
+    screen = new HeadlessScreen({ cols: 20, rows: 5 });
+    const broadcaster = new ClientBroadcaster({ screen });
+    screen.write('before');
+
+    const ws = createMockWebSocket();
+    broadcaster.addClient(ws);
+    const replay = broadcaster.replayTo(ws);
+
+    screen.write(' after');
+    broadcaster.broadcast({ type: 'output', data: Buffer.from(' after').toString('base64') });
+    expect(ws.sentMessages).toHaveLength(0);
+
+    await replay;
+
+    expect(ws.sentMessages).toHaveLength(2);
+    expect(decodeSnapshot(ws.sentMessages[0] ?? '')).toBe('before');
+    expect(JSON.parse(ws.sentMessages[1] ?? '')).toEqual({
+      type: 'output',
+      data: Buffer.from(' after').toString('base64')
+    });
+  });
+
+  test('sends the block list between the snapshot and queued output', async () => {
+    screen = new HeadlessScreen({ cols: 20, rows: 5 });
+    const broadcaster = new ClientBroadcaster({ screen });
+    const ws = createMockWebSocket();
+    broadcaster.addClient(ws);
+
+    const replay = broadcaster.replayTo(ws, [
+      {
+        id: 'b1',
+        command: 'ls',
+        output: '',
+        startedAt: new Date().toISOString(),
+        status: 'success',
+        startLine: 0
+      }
+    ]);
+    broadcaster.broadcast({ type: 'bell' });
+    await replay;
+
+    expect(ws.sentMessages.map((m) => JSON.parse(m).type)).toEqual([
+      'snapshot',
+      'blockList',
+      'bell'
+    ]);
+  });
+});
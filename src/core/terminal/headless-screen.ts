@@ -0,0 +1,105 @@
+/**
+ * HeadlessScreen - Server-side terminal emulator for reconnect snapshots
+ *
+ * Every session feeds its PTY output into a headless xterm.js instance.
+ * When a client connects (or asks for a replay) the current screen,
+ * scrollback, alternate buffer, cursor position and terminal modes are
+ * serialized into a single escape sequence stream, so full-screen TUIs
+ * (vim, htop, Claude Code) come back exactly as they were instead of
+ * being rebuilt from the last few raw output chunks.
+ */
+
+import { SerializeAddon } from '@xterm/addon-serialize/lib/addon-serialize.js';
+import { Terminal } from '@xterm/headless';
+
+export interface HeadlessScreenOptions {
+  cols: number;
+  rows: number;
+  /** Scrollback lines kept for snapshots (default: 10000) */
+  scrollback?: number;
+}
+
+const DEFAULT_SCROLLBACK = 10000;
+
+/**
+ * Headless terminal mirroring a session's screen state
+ */
+export class HeadlessScreen {
+  private readonly terminal: Terminal;
+  private readonly serializer: SerializeAddon;
+  private readonly pendingSnapshots: Set<(snapshot: string) => void> = new Set();
+  private disposed = false;
+
+  constructor(options: HeadlessScreenOptions) {
+    this.terminal = new Terminal({
+      cols: options.cols,
+      rows: options.rows,
+      scrollback: options.scrollback ?? DEFAULT_SCROLLBACK,
+      allowProposedApi: true
+    });
+    this.serializer = new SerializeAddon();
+    this.terminal.loadAddon(this.serializer);
+  }
+
+  /**
+   * Feed terminal output (already stripped of OSC 633/notification sequences)
+   */
+  write(data: string | Uint8Array): void {
+    if (this.disposed) {
+      return;
+    }
+    this.terminal.write(data);
+  }
+
+  /**
+   * Resize the emulated screen to match the PTY
+   */
+  resize(cols: number, rows: number): void {
+    if (this.disposed || cols <= 0 || rows <= 0) {
+      return;
+    }
+    this.terminal.resize(cols, rows);
+  }
+
+  get cols(): number {
+    return this.terminal.cols;
+  }
+
+  get rows(): number {
+    return this.terminal.rows;
+  }
+
+  /**
+   * Serialize the screen once all output written so far has been parsed.
+   * Output written after this call is not included in the snapshot.
+   */
+  snapshot(): Promise<string> {
+    if (this.disposed) {
+      return Promise.resolve('');
+    }
+    return new Promise((resolve) => {
+      this.pendingSnapshots.add(resolve);
+      this.terminal.write('', () => {
+        if (this.pendingSnapshots.delete(resolve)) {
+          resolve(this.serializer.serialize());
+        }
+      });
+    });
+  }
+
+  /**
+   * Release the emulator
+   */
+  dispose(): void {
+    if (this.disposed) {
+      return;
+    }
+    this.disposed = true;
+    // Write callbacks never fire after dispose; settle waiting snapshots now
+    for (const resolve of this.pendingSnapshots) {
+      resolve('');
+    }
+    this.pendingSnapshots.clear();
+    this.terminal.dispose();
+  }
+}
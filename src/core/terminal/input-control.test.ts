@@ -0,0 +1,120 @@
+import { describe, expect, test } from 'bun:test';
+import type { NativeTerminalWebSocket } from '@/core/protocol/index.js';
+import { InputControl } from './input-control.js';
+
+function createMockWebSocket(): NativeTerminalWebSocket {
+  return {
+    data: { sessionName: 'test-session' },
+    send() {},
+    close() {}
+  } as unknown as NativeTerminalWebSocket;
+}
+
+describe('InputControl', () => {
+  test('first interactive participant becomes the driver', () => {
+    const control = new InputControl();
+    const viewer = createMockWebSocket();
+    const a = createMockWebSocket();
+    const b = createMockWebSocket();
+
+    control.join(viewer, { device: 'iPhone', readOnly: true });
+    const first = control.join(a, { user: 'alice', device: 'Mac' });
+    const second = control.join(b, { device: 'iPad' });
+
+    expect(control.driverId).toBe(first.id);
+    expect(first.role).toBe('driver');
+    expect(second.role).toBe('viewer');
+    expect(control.list().map((p) => p.role)).toEqual(['viewer', 'driver', 'viewer']);
+  });
+
+  test('only the driver may send input', () => {
+    const control = new InputControl();
+    const a = createMockWebSocket();
+    const b = createMockWebSocket();
+    control.join(a, { device: 'Mac' });
+    control.join(b, { device: 'iPad' });
+
+    expect(control.claimInput(a)).toEqual({ allowed: true, changed: false });
+    expect(control.claimInput(b)).toEqual({ allowed: false, changed: false });
+  });
+
+  test('unregistered sockets are not restricted', () => {
+    const control = new InputControl();
+    control.join(createMockWebSocket(), { device: 'Mac' });
+
+    expect(control.claimInput(createMockWebSocket()).allowed).toBe(true);
+  });
+
+  test('input claims control when nobody drives', () => {
+    const control = new InputControl();
+    const a = createMockWebSocket();
+    const b = createMockWebSocket();
+    control.join(a, { device: 'Mac' });
+    const joinedB = control.join(b, { device: 'iPad' });
+
+    expect(control.release(a)).toBe(true);
+    expect(control.driverId).toBeNull();
+    expect(control.claimInput(b)).toEqual({ allowed: true, changed: true });
+    expect(control.driverId).toBe(joinedB.id);
+  });
+
+  test('read-only participants can never drive', () => {
+    const control = new InputControl();
+    const viewer = createMockWebSocket();
+    control.join(viewer, { device: 'iPhone', readOnly: true });
+
+    expect(control.driverId).toBeNull();
+    expect(control.claimInput(viewer).allowed).toBe(false);
+    expect(control.request(viewer)).toEqual({ type: 'ignored' });
+  });
+
+  test('requests are forwarded to the driver, who grants or denies', () => {
+    const control = new InputControl();
+    const a = createMockWebSocket();
+    const b = createMockWebSocket();
+    control.join(a, { device: 'Mac' });
+    const joinedB = control.join(b, { device: 'iPad' });
+
+    const result = control.request(b);
+    expect(result.type).toBe('forward');
+    if (result.type === 'forward') {
+      expect(result.driver).toBe(a);
+      expect(result.participant.id).toBe(joinedB.id);
+    }
+
+    // Only the driver can answer
+    expect(control.deny(b, joinedB.id)).toBeNull();
+    expect(control.deny(a, joinedB.id)).toBe(b);
+    expect(control.grant(b, joinedB.id)).toBe(false);
+    expect(control.grant(a, joinedB.id)).toBe(true);
+    expect(control.driverId).toBe(joinedB.id);
+  });
+
+  test('request is granted immediately when nobody drives', () => {
+    const control = new InputControl();
+    const a = createMockWebSocket();
+    const b = createMockWebSocket();
+    control.join(a, { device: 'Mac' });
+    control.join(b, { device: 'iPad' });
+    control.release(a);
+
+    expect(control.request(b)).toEqual({ type: 'granted' });
+    expect(control.driverId).toBe(control.idOf(b) ?? '');
+  });
+
+  test('a leaving driver hands control to the oldest interactive participant', () => {
+    const control = new InputControl();
+    const a = createMockWebSocket();
+    const viewer = createMockWebSocket();
+    const b = createMockWebSocket();
+    const c = createMockWebSocket();
+    control.join(a, { device: 'Mac' });
+    control.join(viewer, { device: 'iPhone', readOnly: true });
+    const joinedB = control.join(b, { device: 'iPad' });
+    control.join(c, { device: 'Linux' });
+
+    expect(control.leave(a)).toBe(true);
+    expect(control.driverId).toBe(joinedB.id);
+    expect(control.leave(a)).toBe(false);
+  });
+});
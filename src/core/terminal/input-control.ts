@@ -0,0 +1,208 @@
+/**
+ * InputControl - Driver/viewer roles for collaborative sessions
+ *
+ * Every browser attached to a session is a participant. Exactly one of
+ * them (the driver) may type and resize; the others watch. Viewers ask
+ * for control and the driver grants or denies it. When nobody drives,
+ * the next participant that types or asks takes control.
+ *
+ * Sockets that never joined (internal callers, tests) are not restricted.
+ */
+
+import { randomUUID } from 'node:crypto';
+import type { NativeTerminalWebSocket, Participant } from '@/core/protocol/index.js';
+
+/** Who a connection belongs to (resolved by the WebSocket layer) */
+export interface ParticipantIdentity {
+  /** Authenticated user, if any */
+  user?: string;
+  /** Device description (e.g. "iPhone", "Mac") */
+  device: string;
+  /** Read-only participants (share viewers) can never drive */
+  readOnly?: boolean;
+}
+
+/** Outcome of a control request */
+export type ControlRequestResult =
+  | { type: 'granted' }
+  | { type: 'forward'; driver: NativeTerminalWebSocket; participant: Participant }
+  | { type: 'ignored' };
+
+interface ParticipantEntry extends ParticipantIdentity {
+  id: string;
+  connectedAt: string;
+}
+
+/**
+ * Tracks participants and the current driver of one session
+ */
+export class InputControl {
+  // Insertion order = connection order (used to pick the next driver)
+  private readonly participants: Map<NativeTerminalWebSocket, ParticipantEntry> = new Map();
+  private driver: NativeTerminalWebSocket | null = null;
+
+  /**
+   * Register a connection. The first interactive participant becomes the driver.
+   */
+  join(ws: NativeTerminalWebSocket, identity: ParticipantIdentity): Participant {
+    const entry: ParticipantEntry = {
+      ...identity,
+      id: randomUUID(),
+      connectedAt: new Date().toISOString()
+    };
+    this.participants.set(ws, entry);
+    if (!this.driver && !entry.readOnly) {
+      this.driver = ws;
+    }
+    return this.toParticipant(ws, entry);
+  }
+
+  /**
+   * Unregister a connection. A leaving driver hands control to the
+   * longest-connected interactive participant.
+   *
+   * @returns true if the participant was registered
+   */
+  leave(ws: NativeTerminalWebSocket): boolean {
+    if (!this.participants.delete(ws)) {
+      return false;
+    }
+    if (this.driver === ws) {
+      this.driver = null;
+      for (const [candidate, entry] of this.participants) {
+        if (!entry.readOnly) {
+          this.driver = candidate;
+          break;
+        }
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Whether input/resize from this connection may reach the PTY.
+   * Claims control when nobody drives.
+   *
+   * @returns allowed, and whether the driver changed as a result
+   */
+  claimInput(ws: NativeTerminalWebSocket): { allowed: boolean; changed: boolean } {
+    const entry = this.participants.get(ws);
+    if (!entry) {
+      return { allowed: true, changed: false };
+    }
+    if (this.driver === ws) {
+      return { allowed: true, changed: false };
+    }
+    if (!this.driver && !entry.readOnly) {
+      this.driver = ws;
+      return { allowed: true, changed: true };
+    }
+    return { allowed: false, changed: false };
+  }
+
+  /**
+   * Handle a viewer's request for control
+   */
+  request(ws: NativeTerminalWebSocket): ControlRequestResult {
+    const entry = this.participants.get(ws);
+    if (!entry || entry.readOnly || this.driver === ws) {
+      return { type: 'ignored' };
+    }
+    if (!this.driver) {
+      this.driver = ws;
+      return { type: 'granted' };
+    }
+    return { type: 'forward', driver: this.driver, participant: this.toParticipant(ws, entry) };
+  }
+
+  /**
+   * Hand control to another participant (driver only)
+   *
+   * @returns true if the driver changed
+   */
+  grant(from: NativeTerminalWebSocket, participantId: string): boolean {
+    if (this.driver !== from) {
+      return false;
+    }
+    const target = this.findById(participantId);
+    if (!target || target === from || this.participants.get(target)?.readOnly) {
+      return false;
+    }
+    this.driver = target;
+    return true;
+  }
+
+  /**
+   * Resolve the viewer whose request the driver denies
+   *
+   * @returns the viewer's socket, or null if the sender is not the driver
+   */
+  deny(from: NativeTerminalWebSocket, participantId: string): NativeTerminalWebSocket | null {
+    if (this.driver !== from) {
+      return null;
+    }
+    const target = this.findById(participantId);
+    return target && target !== from ? target : null;
+  }
+
+  /**
+   * Give up control (driver only)
+   *
+   * @returns true if the driver changed
+   */
+  release(ws: NativeTerminalWebSocket): boolean {
+    if (this.driver !== ws) {
+      return false;
+    }
+    this.driver = null;
+    return true;
+  }
+
+  /**
+   * Participant ID of a connection
+   */
+  idOf(ws: NativeTerminalWebSocket): string | undefined {
+    return this.participants.get(ws)?.id;
+  }
+
+  /**
+   * Current driver's participant ID
+   */
+  get driverId(): string | null {
+    return this.driver ? (this.participants.get(this.driver)?.id ?? null) : null;
+  }
+
+  /**
+   * All participants in connection order
+   */
+  list(): Participant[] {
+    return [...this.participants].map(([ws, entry]) => this.toParticipant(ws, entry));
+  }
+
+  /**
+   * Registered connections
+   */
+  sockets(): NativeTerminalWebSocket[] {
+    return [...this.participants.keys()];
+  }
+
+  private findById(participantId: string): NativeTerminalWebSocket | undefined {
+    for (const [ws, entry] of this.participants) {
+      if (entry.id === participantId) {
+        return ws;
+      }
+    }
+    return undefined;
+  }
+
+  private toParticipant(ws: NativeTerminalWebSocket, entry: ParticipantEntry): Participant {
+    return {
+      id: entry.id,
+      ...(entry.user !== undefined && { user: entry.user }),
+      device: entry.device,
+      role: this.driver === ws ? 'driver' : 'viewer',
+      ...(entry.readOnly && { readOnly: true }),
+      connectedAt: entry.connectedAt
+    };
+  }
+}
@@ -19,6 +19,7 @@ import type {
 } from '@/core/protocol/index.js';
 import type { TerminalSession } from '@/core/terminal/session.js';
 import type { ExecutorBlockStore } from './session-plugins.js';
+import { detectShellType } from './shell-detection.js';
 
 /** Timeout for OSC 633 marker detection (ms) */
 const MARKER_TIMEOUT_MS = 2000;
@@ -41,6 +42,7 @@ export type PersistentExecutorEvent =
  */
 interface QueuedCommand {
   request: CommandRequest;
+  onStarted?: (block: ExtendedBlock) => void;
   resolve: (response: CommandResponse) => void;
   reject: (error: Error) => void;
 }
@@ -119,14 +121,11 @@ export class PersistentExecutor {
           markerDetected = true;
           clearTimeout(timeoutId);
 
-          // Try to detect shell type from environment
-          const shell = process.env['SHELL'] || '';
-          if (shell.includes('zsh')) {
-            shellType = 'zsh';
-          } else if (shell.includes('bash')) {
-            shellType = 'bash';
-          } else if (shell.includes('fish')) {
-            shellType = 'fish';
+          // Detect shell type from the session command, falling back to $SHELL
+          const env = process.env as Record<string, string>;
+          shellType = detectShellType(this.session.command, env);
+          if (shellType === 'unknown' && env['SHELL']) {
+            shellType = detectShellType([env['SHELL']]);
           }
 
           resolve({
@@ -171,8 +170,13 @@ export class PersistentExecutor {
 
   /**
    * Execute a command through the persistent session
+   *
+   * @param onStarted - Called with the block before its started event is emitted
    */
-  async execute(request: CommandRequest): Promise<CommandResponse> {
+  async execute(
+    request: CommandRequest,
+    onStarted?: (block: ExtendedBlock) => void
+  ): Promise<CommandResponse> {
     // Check integration status
     if (!this.integrationStatus) {
       await this.initialize();
@@ -187,7 +191,7 @@ export class PersistentExecutor {
     }
 
     return new Promise<CommandResponse>((resolve, reject) => {
-      this.commandQueue.push({ request, resolve, reject });
+      this.commandQueue.push({ request, onStarted, resolve, reject });
       this.processQueue();
     });
   }
@@ -203,10 +207,10 @@ export class PersistentExecutor {
     this.processing = true;
 
     const queued = this.commandQueue.shift()!;
-    const { request, resolve, reject } = queued;
+    const { request, onStarted, resolve, reject } = queued;
 
     try {
-      const response = await this.executeCommand(request);
+      const response = await this.executeCommand(request, onStarted);
       resolve(response);
     } catch (error) {
       reject(error instanceof Error ? error : new Error(String(error)));
@@ -220,7 +224,10 @@ export class PersistentExecutor {
   /**
    * Execute a single command
    */
-  private async executeCommand(request: CommandRequest): Promise<CommandResponse> {
+  private async executeCommand(
+    request: CommandRequest,
+    onStarted?: (block: ExtendedBlock) => void
+  ): Promise<CommandResponse> {
     const timeoutMs = request.timeoutMs ?? DEFAULT_TIMEOUT_MS;
 
     // Capture git info if requested
@@ -241,7 +248,8 @@ export class PersistentExecutor {
       effectiveCwd,
       gitInfo,
       tags: request.tags,
-      agentMeta: request.agentMeta
+      agentMeta: request.agentMeta,
+      correlationId: request.correlationId
     });
 
     // Set up pending command state
@@ -282,6 +290,7 @@ export class PersistentExecutor {
     this.blockStore.updateStatus(block.id, 'running');
     block.status = 'running';
 
+    onStarted?.(block);
     this.emit({ type: 'started', block });
 
     // Wait for completion (detected via OSC 633;D)
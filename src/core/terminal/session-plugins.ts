@@ -7,13 +7,16 @@
  */
 
 import type { Block } from '@/core/protocol/blocks.js';
+import type { ClaudeAssistantTextWS, ClaudeToolUseWS } from '@/core/protocol/extension-messages.js';
 import type {
   ChunkQueryResponse,
   ExtendedBlock,
   ExtendedBlockStatus,
   OutputChunk,
-  ServerMessage
+  ServerMessage,
+  Workflow
 } from '@/core/protocol/index.js';
+import type { OscNotification } from './osc-notification-parser.js';
 
 // === Block Manager ===
 
@@ -25,6 +28,7 @@ export interface BlockManager {
   startBlock(command: string, startLine: number): Block;
   endBlock(blockId: string, exitCode: number, endLine: number): Block | null;
   appendOutput(blockId: string, data: string): void;
+  restoreBlocks(blocks: Block[]): void;
   setCwd(cwd: string): void;
   getBlock(blockId: string): Block | undefined;
   getRecentBlocks(count?: number): Block[];
@@ -56,6 +60,24 @@ export interface FileChangeNotifier {
   close(): void;
 }
 
+// === Output Watcher ===
+
+/** Decoded PTY output observer (implemented by features/notifications output patterns) */
+export interface OutputWatcher {
+  handleOutput(text: string): void;
+  dispose(): void;
+}
+
+// === Session Notifier ===
+
+/** Last thing a coding agent did in the session (from the session watcher) */
+export type AgentActivity = ClaudeToolUseWS | ClaudeAssistantTextWS;
+
+/** Delivers terminal-raised notifications (implemented by features/notifications) */
+export interface SessionNotifier {
+  notify(notification: OscNotification, activity: AgentActivity | null): void;
+}
+
 // === Executor Dependencies ===
 // Interfaces for features/blocks dependencies used by command executors.
 // Concrete implementations live in features/blocks/server/.
@@ -71,6 +93,7 @@ export interface ExecutorBlockStore {
   completeBlock(blockId: string, exitCode: number, errorType?: ExtendedBlock['errorType']): void;
   appendOutput(blockId: string, stream: 'stdout' | 'stderr', data: string): OutputChunk[];
   getBlock(blockId: string): ExtendedBlock | undefined;
+  getBlockSession(blockId: string): string | undefined;
   getSessionBlocks(sessionName: string): ExtendedBlock[];
   getBlockChunks(
     blockId: string,
@@ -79,6 +102,8 @@ export interface ExecutorBlockStore {
   pinBlock(blockId: string): boolean;
   unpinBlock(blockId: string): boolean;
   clearSession(sessionName: string): void;
+  /** Release storage on shutdown (persistent stores close their database) */
+  close?(): void;
 }
 
 /** Block event emitter for SSE streaming (implemented by features/blocks/server/block-event-emitter.ts) */
@@ -88,6 +113,9 @@ export interface ExecutorBlockEventEmitter {
   emitStderr(blockId: string, chunk: OutputChunk): unknown;
   emitCompleted(block: ExtendedBlock): unknown;
   emitCanceled(blockId: string, signal: string): unknown;
+  emitWorkflow(workflow: Workflow): unknown;
+  /** Also publish a block's events on another stream (e.g. its workflow) */
+  linkBlock(blockId: string, streamId: string): void;
 }
 
 // === Plugin Bundle ===
@@ -97,6 +125,8 @@ export interface SessionPlugins {
   blockManager: BlockManager;
   sessionWatcher: SessionWatcher;
   fileChangeNotifier: FileChangeNotifier;
+  outputWatcher: OutputWatcher;
+  notifier: SessionNotifier;
 }
 
 // === Null Object Implementations (feature disabled) ===
@@ -126,6 +156,7 @@ class NullBlockManager implements BlockManager {
     return null;
   }
   appendOutput(_blockId: string, _data: string): void {}
+  restoreBlocks(_blocks: Block[]): void {}
   setCwd(_cwd: string): void {}
   getBlock(_blockId: string): undefined {
     return undefined;
@@ -155,12 +186,25 @@ class NullFileChangeNotifier implements FileChangeNotifier {
   close(): void {}
 }
 
+class NullOutputWatcher implements OutputWatcher {
+  handleOutput(_text: string): void {}
+  dispose(): void {}
+}
+
+class NullSessionNotifier implements SessionNotifier {
+  notify(_notification: OscNotification, _activity: AgentActivity | null): void {}
+}
+
 const nullBlockManager: BlockManager = new NullBlockManager();
 const nullSessionWatcher: SessionWatcher = new NullSessionWatcher();
 const nullFileChangeNotifier: FileChangeNotifier = new NullFileChangeNotifier();
+const nullOutputWatcher: OutputWatcher = new NullOutputWatcher();
+const nullSessionNotifier: SessionNotifier = new NullSessionNotifier();
 
 export const nullPlugins: SessionPlugins = {
   blockManager: nullBlockManager,
   sessionWatcher: nullSessionWatcher,
-  fileChangeNotifier: nullFileChangeNotifier
+  fileChangeNotifier: nullFileChangeNotifier,
+  outputWatcher: nullOutputWatcher,
+  notifier: nullSessionNotifier
 };
@@ -4,6 +4,7 @@
  * This class wraps Bun's built-in Terminal API to provide:
  * - PTY lifecycle management
  * - Multi-client broadcasting (via ClientBroadcaster)
+ * - Driver/viewer input control and presence (via InputControl)
  * - Output buffering for AI features
  * - OSC 633 parsing for block UI (via Osc633Parser)
  * - WebSocket protocol handling
@@ -14,6 +15,7 @@ import { dirname, join } from 'node:path';
 import { fileURLToPath } from 'node:url';
 import { match } from 'ts-pattern';
 import {
+  BinaryFrameType,
   type Block,
   type ClientMessage,
   createBellMessage,
@@ -24,16 +26,20 @@ import {
   createFileChangeMessage,
   createOutputMessage,
   createPongMessage,
+  decodeBinaryFrame,
   type NativeTerminalWebSocket,
   parseClientMessage,
   serializeServerMessage,
   type TerminalSessionInfo,
   type TerminalSessionOptions
 } from '@/core/protocol/index.js';
-import { ClientBroadcaster } from './broadcaster.js';
+import { getAdaptiveQoS } from '@/core/server/ws/qos.js';
+import { ClientBroadcaster, type ClientOptions, type ThroughputStats } from './broadcaster.js';
 import { applyCjkWorkaround, needsCjkWorkaround } from './cjk-workaround.js';
 import { filterDAResponses, filterFocusEvents } from './da-responder.js';
 import { fixOsc52ClipboardTarget } from './dcs-handler.js';
+import { HeadlessScreen } from './headless-screen.js';
+import { InputControl, type ParticipantIdentity } from './input-control.js';
 import { type OscNotification, parseOscNotifications } from './osc-notification-parser.js';
 import {
   type OSC633Sequence,
@@ -42,13 +48,23 @@ import {
   parseProperty,
   unescapeOsc633Command
 } from './osc633-parser.js';
-import type { BlockManager, FileChangeNotifier, SessionWatcher } from './session-plugins.js';
+import type {
+  AgentActivity,
+  BlockManager,
+  FileChangeNotifier,
+  OutputWatcher,
+  SessionNotifier,
+  SessionWatcher
+} from './session-plugins.js';
 import { nullPlugins, type SessionPlugins } from './session-plugins.js';
 import { buildShellEnvInjection } from './shell-env-injection.js';
 
 // Bell character (ASCII 7)
 const BELL_CHAR = 0x07;
 
+// Shown after restored scrollback so users can tell where the new shell begins
+const RESTORED_NOTICE = '\r\n\x1b[2m[bunterm] Session restored after daemon restart\x1b[0m\r\n';
+
 // Resolve osc633-sender binary path (built with bun build --compile)
 // Try multiple locations: project root dist/ (dev mode) and relative to compiled output
 const __dirname = dirname(fileURLToPath(import.meta.url));
@@ -81,17 +97,30 @@ export class TerminalSession implements AsyncDisposable {
   private currentCols: number;
   private currentRows: number;
   private exitCode: number | null = null;
+  private restored = false;
 
   // Extracted components
   private readonly broadcaster: ClientBroadcaster;
+  // Server-side emulator used for exact reconnect snapshots
+  private readonly screen: HeadlessScreen;
+  // Who is connected and who may type
+  private readonly inputControl = new InputControl();
   private readonly oscParser: Osc633Parser;
   private readonly blockModel: BlockManager;
   private readonly claudeWatcher: SessionWatcher;
   private readonly fileWatcher: FileChangeNotifier;
+  private readonly outputWatcher: OutputWatcher;
+  private readonly notifier: SessionNotifier;
 
   // Raw output listeners (for Unix socket relay)
   private readonly rawOutputListeners: Set<(data: Uint8Array) => void> = new Set();
 
+  // Process exit listeners (for session manager bookkeeping)
+  private readonly exitListeners: Set<(code: number) => void> = new Set();
+
+  // Resize listeners (for session recording)
+  private readonly resizeListeners: Set<(cols: number, rows: number) => void> = new Set();
+
   // PTY master file descriptor (for fd passing to CLI attach clients)
   private _ptyMasterFd: number | null = null;
 
@@ -109,6 +138,9 @@ export class TerminalSession implements AsyncDisposable {
   // Claude watcher last message tracking (for agent status)
   private lastWatcherMessage: { type: string; timestamp: string; toolName?: string } | null = null;
 
+  // Last Claude tool use / assistant text (context for push notifications)
+  private lastAgentActivity: AgentActivity | null = null;
+
   readonly name: string;
   readonly cwd: string;
   readonly command: string[];
@@ -125,8 +157,16 @@ export class TerminalSession implements AsyncDisposable {
     this.startedAt = new Date().toISOString();
 
     // Initialize extracted components
+    this.screen = new HeadlessScreen({
+      cols: this.currentCols,
+      rows: this.currentRows,
+      scrollback: options.scrollback
+    });
     this.broadcaster = new ClientBroadcaster({
-      maxOutputBuffer: options.outputBufferSize ?? DEFAULT_OUTPUT_BUFFER_SIZE
+      maxOutputBuffer: options.outputBufferSize ?? DEFAULT_OUTPUT_BUFFER_SIZE,
+      screen: this.screen,
+      getBlocks: () => (this.blockUIEnabled ? this.blockModel.getRecentBlocks(20) : []),
+      qos: getAdaptiveQoS()
     });
     this.oscParser = new Osc633Parser();
 
@@ -135,6 +175,8 @@ export class TerminalSession implements AsyncDisposable {
     this.claudeWatcher = plugins.sessionWatcher;
     this.fileWatcher = plugins.fileChangeNotifier;
     this.fileWatcher.setOnChange((path) => this.broadcastFileChange(path));
+    this.outputWatcher = plugins.outputWatcher;
+    this.notifier = plugins.notifier;
 
     // Wire claude watcher events to broadcaster
     this.claudeWatcher.on('message', (msg) => {
@@ -149,6 +191,11 @@ export class TerminalSession implements AsyncDisposable {
         timestamp: 'timestamp' in msg ? (msg as any).timestamp : new Date().toISOString(),
         toolName
       };
+      if (msg.type === 'claudeToolUse' || msg.type === 'claudeAssistantText') {
+        this.lastAgentActivity = msg;
+      } else if (msg.type === 'claudeSessionEnd') {
+        this.lastAgentActivity = null;
+      }
       this.broadcaster.broadcast(msg);
     });
     this.claudeWatcher.on('error', (err) => {
@@ -167,14 +214,18 @@ export class TerminalSession implements AsyncDisposable {
     // Snapshot PTY fds before spawn to detect new master fd
     const ptyFdsBefore = this.detectPtmxFds();
 
-    // Build shell-specific env injection (e.g. PROMPT_COMMAND for bash, ZDOTDIR for zsh)
+    // Build shell-specific injection (PROMPT_COMMAND for bash, ZDOTDIR for zsh, --init-command for fish)
     const injection = buildShellEnvInjection(this.command, process.env as Record<string, string>);
     if (injection.cleanupDir) {
       this.injectionCleanupDir = injection.cleanupDir;
     }
+    const [executable = '', ...args] = this.command;
+    const spawnCommand = injection.shellArgs
+      ? [executable, ...injection.shellArgs, ...args]
+      : this.command;
 
     // Use Bun.Terminal for PTY management
-    this.proc = Bun.spawn(this.command, {
+    this.proc = Bun.spawn(spawnCommand, {
       cwd: this.cwd,
       env: {
         ...process.env,
@@ -218,6 +269,13 @@ export class TerminalSession implements AsyncDisposable {
       this.exitCode = code;
       this.broadcaster.broadcast(createExitMessage(code));
       this.cleanup();
+      for (const listener of this.exitListeners) {
+        try {
+          listener(code);
+        } catch {
+          // Listener error — ignore to avoid breaking other listeners
+        }
+      }
     });
 
     // Start Claude Session Watcher
@@ -274,10 +332,13 @@ export class TerminalSession implements AsyncDisposable {
     // Create output message from filtered output (without OSC sequences)
     const filteredData = new TextEncoder().encode(notifFiltered);
     const message = createOutputMessage(filteredData);
-    const serialized = serializeServerMessage(message);
 
     // Buffer for AI features using extracted broadcaster
     this.broadcaster.bufferOutput(message.data);
+    this.screen.write(notifFiltered);
+
+    // Feed output pattern notifications
+    this.outputWatcher.handleOutput(notifFiltered);
 
     // Append to active block if exists
     const activeBlockId = this.blockModel.activeBlockId;
@@ -286,8 +347,8 @@ export class TerminalSession implements AsyncDisposable {
       this.broadcaster.broadcast(createBlockOutputMessage(activeBlockId, message.data));
     }
 
-    // Broadcast to all clients
-    this.broadcaster.broadcastRaw(serialized);
+    // Broadcast to all clients (batched per frame)
+    this.broadcaster.broadcastOutput(notifFiltered);
   }
 
   /**
@@ -363,10 +424,11 @@ export class TerminalSession implements AsyncDisposable {
   /**
    * Handle an OSC 9/99/777 notification
    */
-  private handleOscNotification(_notif: OscNotification): void {
+  private handleOscNotification(notif: OscNotification): void {
     // Send bell message to trigger browser notification UI
-    // TODO: Use notif.title/body + ClaudeSessionWatcher context for rich push notifications
     this.broadcaster.broadcast(createBellMessage());
+    // Web Push with title/body, enriched with what the agent was last doing
+    this.notifier.notify(notif, this.lastAgentActivity);
   }
 
   /**
@@ -428,6 +490,15 @@ export class TerminalSession implements AsyncDisposable {
 
     this.currentCols = cols;
     this.currentRows = rows;
+    this.screen.resize(cols, rows);
+
+    for (const listener of this.resizeListeners) {
+      try {
+        listener(cols, rows);
+      } catch {
+        // Listener error — ignore to avoid breaking other listeners
+      }
+    }
 
     if (this.terminal && !this.terminal.closed && this.isRunning) {
       try {
@@ -438,6 +509,20 @@ export class TerminalSession implements AsyncDisposable {
     }
   }
 
+  /**
+   * Handle an incoming binary frame (binary subprotocol)
+   */
+  handleBinaryMessage(ws: NativeTerminalWebSocket, data: Uint8Array): void {
+    const frame = decodeBinaryFrame(data);
+    if (frame?.type !== BinaryFrameType.Input) {
+      ws.send(serializeServerMessage({ type: 'error', message: 'Invalid binary frame' }));
+      return;
+    }
+    if (this.acceptInputFrom(ws)) {
+      this.writeBytes(frame.payload);
+    }
+  }
+
   /**
    * Handle an incoming WebSocket message
    */
@@ -456,6 +541,9 @@ export class TerminalSession implements AsyncDisposable {
 
     match(message)
       .with({ type: 'input' }, ({ data }) => {
+        if (!this.acceptInputFrom(ws)) {
+          return;
+        }
         // Decode Base64 input data and write to PTY
         try {
           const bytes = Buffer.from(data, 'base64');
@@ -466,6 +554,9 @@ export class TerminalSession implements AsyncDisposable {
         }
       })
       .with({ type: 'resize' }, ({ cols, rows }) => {
+        if (!this.acceptInputFrom(ws)) {
+          return;
+        }
         this.resize(cols, rows);
       })
       .with({ type: 'ping' }, () => {
@@ -484,17 +575,64 @@ export class TerminalSession implements AsyncDisposable {
         this.fileWatcher.unwatchDir(path);
       })
       .with({ type: 'replayRequest' }, () => {
-        // Replay buffered output to this client (used after terminal reinitialize)
-        this.broadcaster.replayTo(ws);
-        // Also send block list if block UI is enabled
-        if (this.blockUIEnabled) {
-          const blocks = this.blockModel.getRecentBlocks(20);
-          this.broadcaster.sendBlockList(ws, blocks);
+        // Replay the screen to this client (used after terminal reinitialize)
+        this.replayTo(ws);
+      })
+      .with({ type: 'requestControl' }, () => {
+        const result = this.inputControl.request(ws);
+        if (result.type === 'granted') {
+          this.broadcastPresence();
+        } else if (result.type === 'forward') {
+          this.broadcaster.sendTo(result.driver, {
+            type: 'controlRequest',
+            participant: result.participant
+          });
+        }
+      })
+      .with({ type: 'grantControl' }, ({ participantId }) => {
+        if (this.inputControl.grant(ws, participantId)) {
+          this.broadcastPresence();
+        }
+      })
+      .with({ type: 'denyControl' }, ({ participantId }) => {
+        const viewer = this.inputControl.deny(ws, participantId);
+        if (viewer) {
+          this.broadcaster.sendTo(viewer, { type: 'controlDenied' });
+        }
+      })
+      .with({ type: 'releaseControl' }, () => {
+        if (this.inputControl.release(ws)) {
+          this.broadcastPresence();
         }
       })
       .exhaustive();
   }
 
+  /**
+   * Whether input/resize from this client may reach the PTY (drivers only)
+   */
+  private acceptInputFrom(ws: NativeTerminalWebSocket): boolean {
+    const { allowed, changed } = this.inputControl.claimInput(ws);
+    if (changed) {
+      this.broadcastPresence();
+    }
+    return allowed;
+  }
+
+  /**
+   * Send the participant list to every participant (each with its own selfId)
+   */
+  private broadcastPresence(): void {
+    const participants = this.inputControl.list();
+    const driverId = this.inputControl.driverId;
+    for (const ws of this.inputControl.sockets()) {
+      const selfId = this.inputControl.idOf(ws);
+      if (selfId) {
+        this.broadcaster.sendTo(ws, { type: 'presence', selfId, driverId, participants });
+      }
+    }
+  }
+
   /**
    * Broadcast file change to all connected clients
    */
@@ -511,26 +649,43 @@ export class TerminalSession implements AsyncDisposable {
   }
 
   /**
-   * Add a client WebSocket connection
+   * Add a client WebSocket connection.
+   * With an identity the client takes part in presence and input control.
    */
-  addClient(ws: NativeTerminalWebSocket): void {
-    this.broadcaster.addClient(ws);
+  addClient(
+    ws: NativeTerminalWebSocket,
+    identity?: ParticipantIdentity,
+    options: ClientOptions = {}
+  ): void {
+    this.broadcaster.addClient(ws, options);
 
-    // Replay buffered output to reconnecting client
-    this.broadcaster.replayTo(ws);
+    // Replay screen state to reconnecting client
+    this.replayTo(ws);
 
-    // Send block list for reconnection
-    if (this.blockUIEnabled) {
-      const blocks = this.blockModel.getRecentBlocks(20);
-      this.broadcaster.sendBlockList(ws, blocks);
+    if (identity) {
+      this.inputControl.join(ws, identity);
+      this.broadcastPresence();
     }
   }
 
+  /**
+   * Send the screen snapshot, then the block list if block UI is enabled
+   */
+  private replayTo(ws: NativeTerminalWebSocket): void {
+    const blocks = this.blockUIEnabled ? this.blockModel.getRecentBlocks(20) : [];
+    this.broadcaster.replayTo(ws, blocks).catch((err) => {
+      console.debug(`[Session:${this.name}] Replay failed:`, err);
+    });
+  }
+
   /**
    * Remove a client WebSocket connection
    */
   removeClient(ws: NativeTerminalWebSocket): void {
     this.broadcaster.removeClient(ws);
+    if (this.inputControl.leave(ws)) {
+      this.broadcastPresence();
+    }
   }
 
   /**
@@ -548,6 +703,50 @@ export class TerminalSession implements AsyncDisposable {
     this.rawOutputListeners.delete(listener);
   }
 
+  /**
+   * Add a process exit listener.
+   */
+  addExitListener(listener: (code: number) => void): void {
+    this.exitListeners.add(listener);
+  }
+
+  /**
+   * Remove a process exit listener.
+   */
+  removeExitListener(listener: (code: number) => void): void {
+    this.exitListeners.delete(listener);
+  }
+
+  /**
+   * Add a resize listener.
+   * Receives the new size whenever a client resizes the terminal.
+   */
+  addResizeListener(listener: (cols: number, rows: number) => void): void {
+    this.resizeListeners.add(listener);
+  }
+
+  /**
+   * Remove a resize listener.
+   */
+  removeResizeListener(listener: (cols: number, rows: number) => void): void {
+    this.resizeListeners.delete(listener);
+  }
+
+  /**
+   * Preload scrollback and blocks saved before a daemon restart.
+   * Must be called before start() so restored output precedes new shell output.
+   */
+  restoreSnapshot(snapshot: { output: string[]; blocks: Block[] }): void {
+    for (const data of snapshot.output) {
+      this.broadcaster.bufferOutput(data);
+      this.screen.write(Buffer.from(data, 'base64'));
+    }
+    this.broadcaster.bufferOutput(Buffer.from(RESTORED_NOTICE).toString('base64'));
+    this.screen.write(RESTORED_NOTICE);
+    this.blockModel.restoreBlocks(snapshot.blocks);
+    this.restored = true;
+  }
+
   /**
    * Get the number of connected clients
    */
@@ -588,10 +787,18 @@ export class TerminalSession implements AsyncDisposable {
       cols: this.currentCols,
       rows: this.currentRows,
       clientCount: this.broadcaster.clientCount,
-      startedAt: this.startedAt
+      startedAt: this.startedAt,
+      restored: this.restored
     };
   }
 
+  /**
+   * Get output throughput statistics
+   */
+  get throughputStats(): ThroughputStats {
+    return this.broadcaster.getStats();
+  }
+
   /**
    * Get buffered output for AI features
    */
@@ -723,9 +930,15 @@ export class TerminalSession implements AsyncDisposable {
     // Close all file watchers
     this.fileWatcher.close();
 
+    // Drop any buffered partial output line
+    this.outputWatcher.dispose();
+
     // Close all client connections
     this.broadcaster.closeAll(1000, 'Session ended');
 
+    // Release the headless screen emulator
+    this.screen.dispose();
+
     // Reset OSC parser state
     this.oscParser.reset();
 
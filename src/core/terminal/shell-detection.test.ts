@@ -48,6 +48,20 @@ describe('detectShellType - zsh detection', () => {
   });
 });
 
+describe('detectShellType - fish detection', () => {
+  test('["fish"] returns fish', () => {
+    expect(detectShellType(['fish'])).toBe('fish');
+  });
+
+  test('["/usr/bin/fish", "-l"] returns fish', () => {
+    expect(detectShellType(['/usr/bin/fish', '-l'])).toBe('fish');
+  });
+
+  test('tmux with SHELL=/usr/bin/fish returns fish', () => {
+    expect(detectShellType(['tmux', 'new-session'], { SHELL: '/usr/bin/fish' })).toBe('fish');
+  });
+});
+
 // === Unit Tests: Unknown shells (no env var) ===
 
 describe('detectShellType - unknown shells', () => {
@@ -63,10 +77,6 @@ describe('detectShellType - unknown shells', () => {
     expect(detectShellType([])).toBe('unknown');
   });
 
-  test('["fish"] returns unknown (unsupported shell)', () => {
-    expect(detectShellType(['fish'])).toBe('unknown');
-  });
-
   test('["sh"] returns unknown (plain sh not supported)', () => {
     expect(detectShellType(['sh'])).toBe('unknown');
   });
@@ -164,7 +174,7 @@ describe('detectShellType - edge cases', () => {
   });
 
   test('multiplexer with SHELL set to unknown shell returns unknown', () => {
-    expect(detectShellType(['tmux', 'new-session'], { SHELL: '/bin/fish' })).toBe('unknown');
+    expect(detectShellType(['tmux', 'new-session'], { SHELL: '/bin/ksh' })).toBe('unknown');
   });
 
   test('multiplexer with SHELL set to plain /bin/sh returns unknown', () => {
@@ -12,7 +12,7 @@
 
 import { basename } from 'node:path';
 
-export type ShellType = 'bash' | 'zsh' | 'unknown';
+export type ShellType = 'bash' | 'zsh' | 'fish' | 'unknown';
 
 /**
  * Terminal multiplexers that do not directly name the shell; fall back to
@@ -28,6 +28,7 @@ function resolveShellName(name: string): ShellType {
   const base = basename(name);
   if (base === 'bash') return 'bash';
   if (base === 'zsh') return 'zsh';
+  if (base === 'fish') return 'fish';
   return 'unknown';
 }
 
@@ -36,7 +37,7 @@ function resolveShellName(name: string): ShellType {
  *
  * @param command - Argv-style command array (e.g. ['bash', '-i']).
  * @param env     - Optional environment variables map.
- * @returns       - 'bash' | 'zsh' | 'unknown'
+ * @returns       - 'bash' | 'zsh' | 'fish' | 'unknown'
  */
 export function detectShellType(command: string[], env?: Record<string, string>): ShellType {
   if (command.length === 0) return 'unknown';
@@ -45,8 +46,9 @@ export function detectShellType(command: string[], env?: Record<string, string>)
   const execBase = basename(executable);
 
   // Direct shell: the executable itself names the shell.
-  if (execBase === 'bash' || execBase === 'zsh') {
-    return resolveShellName(executable);
+  const direct = resolveShellName(executable);
+  if (direct !== 'unknown') {
+    return direct;
   }
 
   // Multiplexer: consult $SHELL env var.
@@ -2,19 +2,20 @@
  * Tests for buildShellEnvInjection()
  *
  * Shell environment injection for automatic shell-integration sourcing.
- * Uses PROMPT_COMMAND for bash and ZDOTDIR temp-dir for zsh.
+ * Uses PROMPT_COMMAND for bash, ZDOTDIR temp-dir for zsh and --init-command for fish.
  *
  * Behavior by shell type:
  * - bash:    sets PROMPT_COMMAND to source /path/to/bash.sh
  * - zsh:     sets ZDOTDIR to a temp dir containing .zshrc and .zshenv
  *            that source bunterm zsh.sh and then delegate to the user's files
+ * - fish:    adds --init-command 'source /path/to/fish.fish' shell args
  * - unknown: empty env (no injection)
  */
 
 import { afterEach, describe, expect, test } from 'bun:test';
 import { existsSync, readFileSync, rmSync } from 'node:fs';
 import { buildShellEnvInjection } from './shell-env-injection.js';
-import { getBashIntegrationPath } from './shell-integration/index.js';
+import { getBashIntegrationPath, getFishIntegrationPath } from './shell-integration/index.js';
 
 // Track temp dirs created during zsh tests for cleanup
 const createdDirs: string[] = [];
@@ -122,10 +123,25 @@ describe('buildShellEnvInjection - unknown shell', () => {
     const result = buildShellEnvInjection(['tmux', 'new-session'], {});
     expect(result.env).toEqual({});
   });
+});
 
-  test('fish shell returns empty env object (unsupported)', () => {
-    const result = buildShellEnvInjection(['fish']);
+// === Unit Tests: fish → --init-command ===
+
+describe('buildShellEnvInjection - fish', () => {
+  test('fish command adds --init-command sourcing fish.fish', () => {
+    const result = buildShellEnvInjection(['/usr/bin/fish', '-l']);
+    expect(result.env).toEqual({});
+    expect(result.shellArgs).toEqual(['--init-command', `source '${getFishIntegrationPath()}'`]);
+  });
+
+  test('tmux with SHELL=fish gets no injection (cannot pass shell args)', () => {
+    const result = buildShellEnvInjection(['tmux', 'new-session'], { SHELL: '/usr/bin/fish' });
     expect(result.env).toEqual({});
+    expect(result.shellArgs).toBeUndefined();
+  });
+
+  test('bash does not add shell args', () => {
+    expect(buildShellEnvInjection(['bash']).shellArgs).toBeUndefined();
   });
 });
 
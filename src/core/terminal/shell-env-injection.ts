@@ -12,13 +12,21 @@
  * - zsh:     Create a temporary ZDOTDIR containing .zshrc and .zshenv that
  *            source bunterm's zsh.sh and then delegate to the user's files.
  *            Mirrors the VS Code approach: no permanent changes to user config.
+ * - fish:    Pass `--init-command 'source /path/to/fish.fish'` to the shell.
+ *            Runs after config.fish, so the user's prompt is already defined
+ *            when fish.fish wraps it.  Only possible when fish is spawned
+ *            directly (a multiplexer starts $SHELL itself without our args).
  * - unknown: No injection.
  */
 
 import { mkdirSync, writeFileSync } from 'node:fs';
 import { join } from 'node:path';
 import { detectShellType } from './shell-detection.js';
-import { getBashIntegrationPath, getZshIntegrationPath } from './shell-integration/index.js';
+import {
+  getBashIntegrationPath,
+  getFishIntegrationPath,
+  getZshIntegrationPath
+} from './shell-integration/index.js';
 
 export interface ShellEnvInjection {
   /** Additional environment variables to inject into the spawned shell process. */
@@ -28,6 +36,11 @@ export interface ShellEnvInjection {
    * created for zsh injection).  Undefined when no cleanup is needed.
    */
   cleanupDir?: string;
+  /**
+   * Extra arguments to insert right after the shell executable (used for
+   * fish's --init-command).  Undefined when the command is spawned as-is.
+   */
+  shellArgs?: string[];
 }
 
 /**
@@ -40,6 +53,8 @@ export interface ShellEnvInjection {
  * @returns       - A ShellEnvInjection whose `env` record should be merged into
  *                  the spawned process environment.  If `cleanupDir` is set,
  *                  the caller must delete it when the session terminates.
+ *                  If `shellArgs` is set, the caller must insert them after
+ *                  command[0].
  */
 export function buildShellEnvInjection(
   command: string[],
@@ -59,6 +74,19 @@ export function buildShellEnvInjection(
 
     case 'zsh':
       return buildZshInjection(env);
+
+    case 'fish': {
+      // A multiplexer launches the shell itself; there is nowhere to pass args
+      if (detectShellType(command.slice(0, 1)) !== 'fish') {
+        return { env: {} };
+      }
+      const fishPath = getFishIntegrationPath();
+      return {
+        env: {},
+        shellArgs: ['--init-command', `source ${quoteFishString(fishPath)}`]
+      };
+    }
+
     default:
       return { env: {} };
   }
@@ -119,3 +147,10 @@ function buildZshInjection(env?: Record<string, string>): ShellEnvInjection {
     cleanupDir: tmpDir
   };
 }
+
+/**
+ * Quote a string for fish (inside single quotes only \ and ' need escaping)
+ */
+function quoteFishString(value: string): string {
+  return `'${value.replace(/[\\']/g, '\\$&')}'`;
+}
@@ -0,0 +1,86 @@
+#!/usr/bin/env fish
+# bunterm shell integration for fish
+#
+# This script emits OSC 633 control sequences to enable block UI features.
+# bunterm injects it automatically with `fish --init-command 'source ...'`.
+#
+# OSC 633 Sequences (VS Code terminal integration compatible):
+#   A - Prompt start
+#   B - Prompt end (command start)
+#   C - Pre-execution (right before command runs)
+#   D;exitcode - Command finished with exit code
+#   E;commandline - Explicit command line
+#   P;Key=Value - Property (e.g., Cwd)
+#
+# Usage:
+#   source /path/to/fish.fish
+#   # or add to config.fish:
+#   # if set -q BUNTERM_NATIVE; source /path/to/fish.fish; end
+#
+# Requires fish 3.0+ (fish_preexec/fish_postexec events, disown).
+
+# Only enable if running in bunterm native terminal (BUNTERM_NATIVE=1),
+# and prevent double-sourcing
+if set -q BUNTERM_NATIVE; and not set -q __BUNTERM_SHELL_INTEGRATION__
+    set -gx __BUNTERM_SHELL_INTEGRATION__ 1
+
+    # OSC escape sequence helper
+    function __bunterm_osc_633
+        # Traditional stdout output (for xterm.js via tmux passthrough)
+        printf '\e]633;%s\a' $argv[1]
+        # Side-channel: send directly to bunterm daemon via osc633-sender binary
+        if set -q BUNTERM_OSC633_SENDER; and test -x "$BUNTERM_OSC633_SENDER"
+            set -l parts (string split -m 1 ';' -- $argv[1])
+            set -l data ''
+            if test (count $parts) -gt 1
+                set data $parts[2]
+            end
+            "$BUNTERM_OSC633_SENDER" "$BUNTERM_SESSION" $parts[1] "$data" &>/dev/null &
+            disown 2>/dev/null
+        end
+    end
+
+    # Escape a command line for E: backslashes, newlines and semicolons
+    function __bunterm_escape_command
+        string replace -a -- '\\' '\\\\' $argv[1] | string replace -a -- ';' '\\;' | string join '\\n'
+    end
+
+    # Pre-execution (E + C) - right before command runs
+    function __bunterm_preexec --on-event fish_preexec
+        set -l cmd (__bunterm_escape_command $argv[1])
+        __bunterm_osc_633 "E;$cmd"
+        __bunterm_osc_633 C
+    end
+
+    # Remember the exit code of the command that just ran
+    function __bunterm_postexec --on-event fish_postexec
+        set -g __bunterm_last_status $status
+    end
+
+    # Command finished (D;exitcode), cwd (P) and prompt start (A)
+    function __bunterm_prompt_start --on-event fish_prompt
+        if set -q __bunterm_last_status
+            __bunterm_osc_633 "D;$__bunterm_last_status"
+            set -e __bunterm_last_status
+        end
+        __bunterm_osc_633 "P;Cwd=$PWD"
+        __bunterm_osc_633 A
+    end
+
+    # Prompt end marker (B) after the user's prompt.
+    # --init-command runs after config.fish, so prompt managers are already set up.
+    if functions -q fish_prompt
+        functions -c fish_prompt __bunterm_original_fish_prompt
+    else
+        function __bunterm_original_fish_prompt
+            printf '%s> ' $PWD
+        end
+    end
+    function fish_prompt
+        __bunterm_original_fish_prompt
+        printf '\e]633;B\a'
+    end
+
+    # Send initial state
+    __bunterm_osc_633 "P;Cwd=$PWD"
+end
@@ -3,6 +3,7 @@ import { existsSync, readFileSync, statSync } from 'node:fs';
 import {
   getBashIntegration,
   getBashIntegrationPath,
+  getFishIntegrationPath,
   getShellIntegrationDir,
   getZshIntegrationPath
 } from './index.js';
@@ -41,6 +42,18 @@ describe('getZshIntegrationPath()', () => {
   });
 });
 
+describe('getFishIntegrationPath()', () => {
+  it('points to an existing file', () => {
+    const path = getFishIntegrationPath();
+    expect(existsSync(path)).toBe(true);
+  });
+
+  it('ends with fish.fish', () => {
+    const path = getFishIntegrationPath();
+    expect(path.endsWith('fish.fish')).toBe(true);
+  });
+});
+
 describe('getShellIntegrationDir()', () => {
   it('returns a path that exists as a directory', () => {
     const dir = getShellIntegrationDir();
@@ -28,15 +28,25 @@ function getZshIntegration(): string {
   return readFileSync(join(__dirname, 'zsh.sh'), 'utf-8');
 }
 
+/**
+ * Get the fish shell integration script
+ */
+function getFishIntegration(): string {
+  // biome-ignore lint: sync read at startup
+  return readFileSync(join(__dirname, 'fish.fish'), 'utf-8');
+}
+
 /**
  * Get shell integration script by shell name
  */
-function _getShellIntegration(shell: 'bash' | 'zsh'): string {
+function _getShellIntegration(shell: 'bash' | 'zsh' | 'fish'): string {
   switch (shell) {
     case 'bash':
       return getBashIntegration();
     case 'zsh':
       return getZshIntegration();
+    case 'fish':
+      return getFishIntegration();
     default:
       throw new Error(`Unsupported shell: ${shell}`);
   }
@@ -56,6 +66,13 @@ export function getZshIntegrationPath(): string {
   return join(__dirname, 'zsh.sh');
 }
 
+/**
+ * Get the absolute path to the fish shell integration script
+ */
+export function getFishIntegrationPath(): string {
+  return join(__dirname, 'fish.fish');
+}
+
 /**
  * Get the absolute path to the shell-integration directory
  * (used when copying scripts to a temp directory for ZDOTDIR)
@@ -20,6 +20,9 @@ function createMockWebSocket(): NativeTerminalWebSocket & {
     send(data: string) {
       this.sentMessages.push(data);
     },
+    getBufferedAmount() {
+      return 0;
+    },
     close() {
       this.closed = true;
     }
@@ -175,6 +178,26 @@ describe.skipIf(!hasPtySupport)('TerminalSession with real PTY', () => {
     expect(response.type).toBe('error');
   });
 
+  test('addClient sends a screen snapshot of earlier output', async () => {
+    session = new TerminalSession({
+      name: 'snapshot-test',
+      command: ['cat'],
+      cwd: process.cwd()
+    });
+
+    await session.start();
+    session.writeString('snapshot output\n');
+    await new Promise((resolve) => setTimeout(resolve, 200));
+
+    const ws = createMockWebSocket();
+    session.addClient(ws);
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    const message = JSON.parse(ws.sentMessages[0] ?? '{}');
+    expect(message.type).toBe('snapshot');
+    expect(Buffer.from(message.data, 'base64').toString('utf-8')).toContain('snapshot output');
+  });
+
   test('output buffer management', async () => {
     session = new TerminalSession({
       name: 'buffer-test',
@@ -229,3 +252,68 @@ describe('TerminalSession message handling (no PTY)', () => {
     expect(response.type).toBe('error');
   });
 });
+
+describe('TerminalSession input control (no PTY)', () => {
+  const lastOfType = (ws: { sentMessages: string[] }, type: string) =>
+    ws.sentMessages
+      .map((m) => JSON.parse(m))
+      .filter((m) => m.type === type)
+      .at(-1);
+
+  test('broadcasts presence and hands control over on grant', async () => {
+    const session = new TerminalSession({
+      name: 'presence-test',
+      command: ['cat'],
+      cwd: process.cwd()
+    });
+    const a = createMockWebSocket();
+    const b = createMockWebSocket();
+    session.addClient(a, { user: 'alice', device: 'Mac' });
+    session.addClient(b, { device: 'iPhone' });
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    const presenceA = lastOfType(a, 'presence');
+    const presenceB = lastOfType(b, 'presence');
+    expect(presenceA.participants).toHaveLength(2);
+    expect(presenceA.driverId).toBe(presenceA.selfId);
+    expect(presenceB.driverId).toBe(presenceA.selfId);
+
+    // Viewer input is ignored and does not take control
+    session.handleMessage(b, JSON.stringify({ type: 'input', data: 'eA==' }));
+    expect(lastOfType(b, 'presence').driverId).toBe(presenceA.selfId);
+
+    session.handleMessage(b, JSON.stringify({ type: 'requestControl' }));
+    expect(lastOfType(a, 'controlRequest').participant.id).toBe(presenceB.selfId);
+
+    session.handleMessage(
+      a,
+      JSON.stringify({ type: 'grantControl', participantId: presenceB.selfId })
+    );
+    expect(lastOfType(a, 'presence').driverId).toBe(presenceB.selfId);
+    expect(lastOfType(b, 'presence').driverId).toBe(presenceB.selfId);
+
+    await session.stop();
+  });
+
+  test('denying a request notifies the viewer', async () => {
+    const session = new TerminalSession({
+      name: 'deny-test',
+      command: ['cat'],
+      cwd: process.cwd()
+    });
+    const a = createMockWebSocket();
+    const b = createMockWebSocket();
+    session.addClient(a, { device: 'Mac' });
+    session.addClient(b, { device: 'iPad' });
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    const viewerId = lastOfType(b, 'presence').selfId;
+    session.handleMessage(b, JSON.stringify({ type: 'requestControl' }));
+    session.handleMessage(a, JSON.stringify({ type: 'denyControl', participantId: viewerId }));
+
+    expect(lastOfType(b, 'controlDenied')).toEqual({ type: 'controlDenied' });
+    expect(lastOfType(b, 'presence').driverId).not.toBe(viewerId);
+
+    await session.stop();
+  });
+});
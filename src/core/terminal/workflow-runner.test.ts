@@ -0,0 +1,247 @@
+import { describe, expect, test } from 'bun:test';
+import type {
+  CommandRequest,
+  CommandResponse,
+  ExtendedBlock,
+  ExtendedBlockStatus,
+  Workflow,
+  WorkflowRequest
+} from '@/core/protocol/index.js';
+import type { ExecutorBlockEventEmitter } from './session-plugins.js';
+import { validateWorkflow, WorkflowRunner, type WorkflowStepExecutor } from './workflow-runner.js';
+
+/**
+ * Fake executor: `ok` succeeds, `fail` exits 1, `echo X` prints X,
+ * `hang` runs until canceled. Records every request it receives.
+ */
+function createFakeExecutor() {
+  const requests: CommandRequest[] = [];
+  const blocks = new Map<string, ExtendedBlock>();
+  const hanging = new Map<string, (status: ExtendedBlockStatus) => void>();
+  const canceled: string[] = [];
+  let nextId = 0;
+
+  const executor: WorkflowStepExecutor = {
+    async execute(request, onStarted) {
+      requests.push(request);
+      const id = `block-${++nextId}`;
+      const block = {
+        id,
+        correlationId: request.correlationId,
+        command: request.command,
+        status: 'running'
+      } as ExtendedBlock;
+      blocks.set(id, block);
+      await Promise.resolve();
+      onStarted(block);
+
+      const status = await new Promise<ExtendedBlockStatus>((resolve) => {
+        if (request.command === 'hang') {
+          hanging.set(id, resolve);
+        } else {
+          setTimeout(() => resolve(request.command === 'fail' ? 'error' : 'success'), 1);
+        }
+      });
+      block.status = status;
+      block.exitCode = status === 'success' ? 0 : status === 'error' ? 1 : -1;
+      return { blockId: id, correlationId: request.correlationId ?? '', status } as CommandResponse;
+    },
+    cancel(blockId) {
+      canceled.push(blockId);
+      hanging.get(blockId)?.('canceled');
+    },
+    getBlock: (blockId) => blocks.get(blockId),
+    readStdout(blockId) {
+      const command = blocks.get(blockId)?.command ?? '';
+      return command.startsWith('echo ') ? `${command.slice(5)}\n` : '';
+    }
+  };
+  return { executor, requests, canceled };
+}
+
+function createFakeEmitter() {
+  const workflows: Workflow[] = [];
+  const links: Array<[string, string]> = [];
+  const emitter = {
+    emitStarted() {},
+    emitStdout() {},
+    emitStderr() {},
+    emitCompleted() {},
+    emitCanceled() {},
+    emitWorkflow(workflow: Workflow) {
+      workflows.push(workflow);
+    },
+    linkBlock(blockId: string, streamId: string) {
+      links.push([blockId, streamId]);
+    }
+  } satisfies ExecutorBlockEventEmitter;
+  return { emitter, workflows, links };
+}
+
+function startWorkflow(request: WorkflowRequest) {
+  const validated = validateWorkflow(request);
+  if (!validated.ok) {
+    throw new Error(validated.error);
+  }
+  const fake = createFakeExecutor();
+  const events = createFakeEmitter();
+  const runner = new WorkflowRunner({
+    id: 'wf-test',
+    sessionName: 'test',
+    request,
+    steps: validated.value,
+    executor: fake.executor,
+    eventEmitter: events.emitter
+  });
+  runner.start();
+  return { runner, ...fake, ...events };
+}
+
+const statuses = (workflow: Workflow) =>
+  Object.fromEntries(workflow.steps.map((step) => [step.id, step.status]));
+
+describe('validateWorkflow', () => {
+  test('chains a plain list into sequential steps', () => {
+    const result = validateWorkflow({
+      steps: [
+        { id: 'a', command: 'ok' },
+        { id: 'b', command: 'ok' }
+      ]
+    });
+
+    expect(result.ok && result.value.map((step) => step.dependsOn)).toEqual([undefined, ['a']]);
+  });
+
+  test('rejects duplicate IDs, unknown dependencies and cycles', () => {
+    const dup = validateWorkflow({
+      steps: [
+        { id: 'a', command: 'ok' },
+        { id: 'a', command: 'ok' }
+      ]
+    });
+    const unknown = validateWorkflow({ steps: [{ id: 'a', command: 'ok', dependsOn: ['x'] }] });
+    const cycle = validateWorkflow({
+      steps: [
+        { id: 'a', command: 'ok', dependsOn: ['b'] },
+        { id: 'b', command: 'ok', dependsOn: ['a'] }
+      ]
+    });
+
+    expect(dup.ok).toBe(false);
+    expect(unknown.ok).toBe(false);
+    expect(cycle.ok).toBe(false);
+  });
+
+  test('rejects output variables that are not environment variable names', () => {
+    const result = validateWorkflow({
+      steps: [{ id: 'a', command: 'ok', outputVar: 'not-valid' }]
+    });
+
+    expect(result.ok).toBe(false);
+  });
+});
+
+describe('WorkflowRunner', () => {
+  test('runs a DAG and shares the workflow correlationId', async () => {
+    const { runner, requests, links } = startWorkflow({
+      steps: [
+        { id: 'build', command: 'ok' },
+        { id: 'lint', command: 'ok', dependsOn: [] },
+        { id: 'test', command: 'ok', dependsOn: ['build', 'lint'] }
+      ]
+    });
+
+    const workflow = await runner.done;
+
+    expect(workflow.status).toBe('success');
+    expect(statuses(workflow)).toEqual({ build: 'success', lint: 'success', test: 'success' });
+    expect(requests.map((r) => r.command)).toHaveLength(3);
+    expect(requests.every((r) => r.correlationId === 'wf-test')).toBe(true);
+    expect(links.every(([, streamId]) => streamId === 'wf-test')).toBe(true);
+  });
+
+  test('passes captured output to later steps as environment variables', async () => {
+    const { runner, requests } = startWorkflow({
+      env: { BASE: '1' },
+      steps: [
+        { id: 'version', command: 'echo 1.2.3', outputVar: 'VERSION' },
+        { id: 'tag', command: 'ok', env: { EXTRA: 'x' } }
+      ]
+    });
+
+    const workflow = await runner.done;
+
+    expect(workflow.variables).toEqual({ VERSION: '1.2.3' });
+    expect(requests[1]?.env).toEqual({ BASE: '1', VERSION: '1.2.3', EXTRA: 'x' });
+  });
+
+  test('stops on failure and skips the remaining steps', async () => {
+    const { runner, requests } = startWorkflow({
+      steps: [
+        { id: 'a', command: 'fail' },
+        { id: 'b', command: 'ok' }
+      ]
+    });
+
+    const workflow = await runner.done;
+
+    expect(workflow.status).toBe('error');
+    expect(statuses(workflow)).toEqual({ a: 'error', b: 'skipped' });
+    expect(requests).toHaveLength(1);
+    expect(workflow.steps[0]?.exitCode).toBe(1);
+  });
+
+  test('continueOnError lets dependents run', async () => {
+    const { runner } = startWorkflow({
+      steps: [
+        { id: 'a', command: 'fail', continueOnError: true },
+        { id: 'b', command: 'ok' }
+      ]
+    });
+
+    const workflow = await runner.done;
+
+    expect(workflow.status).toBe('success');
+    expect(statuses(workflow)).toEqual({ a: 'error', b: 'success' });
+  });
+
+  test('cancel cancels running steps and skips pending ones', async () => {
+    const { runner, canceled } = startWorkflow({
+      steps: [
+        { id: 'a', command: 'hang', dependsOn: [] },
+        { id: 'b', command: 'hang', dependsOn: [] },
+        { id: 'c', command: 'ok', dependsOn: ['a'] }
+      ]
+    });
+    await Bun.sleep(5);
+
+    expect(runner.cancel('SIGINT')).toBe(true);
+    const workflow = await runner.done;
+
+    expect(workflow.status).toBe('canceled');
+    expect(statuses(workflow)).toEqual({ a: 'canceled', b: 'canceled', c: 'skipped' });
+    expect(canceled).toHaveLength(2);
+    expect(runner.cancel()).toBe(false);
+  });
+
+  test('cancels a step that starts after the workflow was canceled', async () => {
+    const { runner, canceled } = startWorkflow({ steps: [{ id: 'a', command: 'hang' }] });
+
+    // The step has been submitted but its block does not exist yet
+    runner.cancel();
+    const workflow = await runner.done;
+
+    expect(workflow.status).toBe('canceled');
+    expect(canceled).toEqual(['block-1']);
+  });
+
+  test('publishes workflow state changes', async () => {
+    const { runner, workflows } = startWorkflow({ steps: [{ id: 'a', command: 'ok' }] });
+
+    await runner.done;
+
+    expect(workflows[0]?.status).toBe('running');
+    expect(workflows.at(-1)?.status).toBe('success');
+    expect(workflows.some((w) => w.steps[0]?.status === 'running')).toBe(true);
+  });
+});
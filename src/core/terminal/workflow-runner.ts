@@ -0,0 +1,316 @@
+/**
+ * WorkflowRunner - Multi-step command workflows
+ *
+ * Runs a list or DAG of command steps through the session executors:
+ * - Steps start as soon as their dependencies finish (a plain list runs in order)
+ * - A failing step stops the workflow unless it has continueOnError
+ * - Captured step output is passed to later steps as environment variables
+ *
+ * Every step becomes an ExtendedBlock whose correlationId is the workflow ID.
+ * Workflow state and the step block events are published on the workflow ID,
+ * so a single /blocks/:id/stream subscription follows the whole run.
+ */
+
+import type {
+  CommandRequest,
+  CommandResponse,
+  ExtendedBlock,
+  Workflow,
+  WorkflowRequest,
+  WorkflowStep,
+  WorkflowStepState
+} from '@/core/protocol/index.js';
+import { createLogger } from '@/utils/logger.js';
+import { err, ok, type Result } from '@/utils/result.js';
+import type { ExecutorBlockEventEmitter } from './session-plugins.js';
+
+const log = createLogger('workflow');
+
+/** Environment variable names usable as outputVar */
+const OUTPUT_VAR_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+export type CancelSignal = 'SIGTERM' | 'SIGINT' | 'SIGKILL';
+
+/** Command execution used by a workflow (bound to one session) */
+export interface WorkflowStepExecutor {
+  execute(
+    request: CommandRequest,
+    onStarted: (block: ExtendedBlock) => void
+  ): Promise<CommandResponse>;
+  cancel(blockId: string, signal: CancelSignal): void;
+  getBlock(blockId: string): ExtendedBlock | undefined;
+  readStdout(blockId: string): string;
+}
+
+export interface WorkflowRunnerOptions {
+  id: string;
+  sessionName: string;
+  request: WorkflowRequest;
+  /** Steps returned by validateWorkflow() */
+  steps: WorkflowStep[];
+  executor: WorkflowStepExecutor;
+  eventEmitter: ExecutorBlockEventEmitter;
+}
+
+/**
+ * Validate a workflow and resolve step dependencies.
+ * When no step declares dependsOn, each step depends on the previous one.
+ */
+export function validateWorkflow(request: WorkflowRequest): Result<WorkflowStep[], string> {
+  if (request.steps.length === 0) {
+    return err('Workflow has no steps');
+  }
+
+  const ids = new Set<string>();
+  const outputVars = new Set<string>();
+  for (const step of request.steps) {
+    if (ids.has(step.id)) {
+      return err(`Duplicate step ID '${step.id}'`);
+    }
+    ids.add(step.id);
+    if (step.outputVar !== undefined) {
+      if (!OUTPUT_VAR_PATTERN.test(step.outputVar)) {
+        return err(`Step '${step.id}': invalid outputVar '${step.outputVar}'`);
+      }
+      if (outputVars.has(step.outputVar)) {
+        return err(`Step '${step.id}': outputVar '${step.outputVar}' is already used`);
+      }
+      outputVars.add(step.outputVar);
+    }
+  }
+
+  const isDag = request.steps.some((step) => step.dependsOn !== undefined);
+  const steps = isDag
+    ? request.steps
+    : request.steps.map((step, i) => {
+        const previous = request.steps[i - 1];
+        return previous ? { ...step, dependsOn: [previous.id] } : step;
+      });
+
+  for (const step of steps) {
+    for (const dep of step.dependsOn ?? []) {
+      if (!ids.has(dep)) {
+        return err(`Step '${step.id}' depends on unknown step '${dep}'`);
+      }
+    }
+  }
+
+  // Kahn's algorithm: every step must be reachable from the roots
+  const remaining = new Map(steps.map((step) => [step.id, new Set(step.dependsOn ?? [])]));
+  let progressed = true;
+  while (progressed) {
+    progressed = false;
+    for (const [id, deps] of remaining) {
+      if ([...deps].every((dep) => !remaining.has(dep))) {
+        remaining.delete(id);
+        progressed = true;
+      }
+    }
+  }
+  if (remaining.size > 0) {
+    return err(`Dependency cycle between steps: ${[...remaining.keys()].join(', ')}`);
+  }
+
+  return ok(steps);
+}
+
+/**
+ * Whether a step has reached a final state
+ */
+function isFinished(state: WorkflowStepState): boolean {
+  return state.status !== 'pending' && state.status !== 'queued' && state.status !== 'running';
+}
+
+/**
+ * Runs one workflow to completion
+ */
+export class WorkflowRunner {
+  readonly id: string;
+  /** Resolves with the final state once every step has finished or been skipped */
+  readonly done: Promise<Workflow>;
+
+  private readonly request: WorkflowRequest;
+  private readonly steps: WorkflowStep[];
+  private readonly executor: WorkflowStepExecutor;
+  private readonly eventEmitter: ExecutorBlockEventEmitter;
+  private readonly workflow: Workflow;
+  private readonly states: Map<string, WorkflowStepState> = new Map();
+  private readonly running: Set<string> = new Set();
+  private failed = false;
+  private cancelSignal: CancelSignal | null = null;
+  private resolveDone: (workflow: Workflow) => void = () => {};
+
+  constructor(options: WorkflowRunnerOptions) {
+    this.id = options.id;
+    this.request = options.request;
+    this.steps = options.steps;
+    this.executor = options.executor;
+    this.eventEmitter = options.eventEmitter;
+
+    const steps = this.steps.map((step): WorkflowStepState => ({ id: step.id, status: 'pending' }));
+    for (const state of steps) {
+      this.states.set(state.id, state);
+    }
+    this.workflow = {
+      id: options.id,
+      sessionName: options.sessionName,
+      status: 'running',
+      steps,
+      variables: {},
+      startedAt: new Date().toISOString()
+    };
+    this.done = new Promise((resolve) => {
+      this.resolveDone = resolve;
+    });
+  }
+
+  /**
+   * Start the steps that have no dependencies
+   */
+  start(): void {
+    this.publish();
+    this.schedule();
+  }
+
+  /**
+   * Current workflow state
+   */
+  snapshot(): Workflow {
+    return {
+      ...this.workflow,
+      steps: this.workflow.steps.map((state) => ({ ...state })),
+      variables: { ...this.workflow.variables }
+    };
+  }
+
+  get finished(): boolean {
+    return this.workflow.status !== 'running';
+  }
+
+  /**
+   * Cancel running steps and skip the ones that have not started
+   *
+   * @returns false if the workflow already finished
+   */
+  cancel(signal: CancelSignal = 'SIGTERM'): boolean {
+    if (this.finished) {
+      return false;
+    }
+    this.cancelSignal = signal;
+    for (const stepId of this.running) {
+      const blockId = this.states.get(stepId)?.blockId;
+      // Steps still starting are canceled as soon as their block exists
+      if (blockId) {
+        this.executor.cancel(blockId, signal);
+      }
+    }
+    this.schedule();
+    return true;
+  }
+
+  /**
+   * Start every step whose dependencies are satisfied and skip the ones
+   * that can no longer run. Finishes the workflow when nothing is left.
+   */
+  private schedule(): void {
+    const stopped = this.failed || this.cancelSignal !== null;
+    let changed = true;
+    while (changed) {
+      changed = false;
+      for (const step of this.steps) {
+        const state = this.states.get(step.id);
+        if (state?.status !== 'pending') {
+          continue;
+        }
+        const deps = (step.dependsOn ?? []).map((id) => this.states.get(id));
+        if (!stopped && deps.some((dep) => !dep || !isFinished(dep))) {
+          continue;
+        }
+        if (stopped || deps.some((dep) => dep && !this.isSatisfied(dep))) {
+          state.status = 'skipped';
+        } else {
+          this.runStep(step, state);
+        }
+        changed = true;
+      }
+    }
+
+    if (this.running.size === 0 && !this.finished) {
+      this.finish();
+    }
+  }
+
+  /**
+   * A finished dependency lets its dependents run
+   */
+  private isSatisfied(dep: WorkflowStepState): boolean {
+    if (dep.status === 'success') {
+      return true;
+    }
+    const step = this.steps.find((s) => s.id === dep.id);
+    return dep.status !== 'skipped' && step?.continueOnError === true;
+  }
+
+  private runStep(step: WorkflowStep, state: WorkflowStepState): void {
+    state.status = 'queued';
+    this.running.add(step.id);
+
+    const request: CommandRequest = {
+      command: step.command,
+      mode: step.mode ?? this.request.mode,
+      cwd: step.cwd ?? this.request.cwd,
+      env: { ...this.request.env, ...this.workflow.variables, ...step.env },
+      timeoutMs: step.timeoutMs,
+      tags: this.request.tags,
+      agentMeta: this.request.agentMeta,
+      correlationId: this.id
+    };
+
+    const onStarted = (block: ExtendedBlock): void => {
+      state.blockId = block.id;
+      state.status = 'running';
+      this.eventEmitter.linkBlock(block.id, this.id);
+      this.publish();
+      const signal = this.cancelSignal;
+      if (signal) {
+        // The executor starts tracking the process right after this callback
+        queueMicrotask(() => this.executor.cancel(block.id, signal));
+      }
+    };
+
+    this.executor
+      .execute(request, onStarted)
+      .then((response) => {
+        state.status = response.status;
+        state.exitCode = this.executor.getBlock(response.blockId)?.exitCode;
+        if (step.outputVar && response.status !== 'canceled') {
+          this.workflow.variables[step.outputVar] = this.executor
+            .readStdout(response.blockId)
+            .replace(/\r?\n+$/, '');
+        }
+      })
+      .catch((error: unknown) => {
+        log.warn(`Workflow ${this.id} step '${step.id}' failed to run: ${error}`);
+        state.status = 'error';
+      })
+      .finally(() => {
+        this.running.delete(step.id);
+        if (state.status !== 'success' && !step.continueOnError) {
+          this.failed = true;
+        }
+        this.publish();
+        this.schedule();
+      });
+  }
+
+  private finish(): void {
+    this.workflow.status = this.cancelSignal ? 'canceled' : this.failed ? 'error' : 'success';
+    this.workflow.endedAt = new Date().toISOString();
+    this.publish();
+    this.resolveDone(this.snapshot());
+  }
+
+  private publish(): void {
+    this.eventEmitter.emitWorkflow(this.snapshot());
+  }
+}
@@ -0,0 +1,22 @@
+/**
+ * Daemon-side typings for @xterm/addon-serialize
+ *
+ * The package's own typings import @xterm/xterm, whose `/// <reference lib="dom"/>`
+ * would leak DOM globals (Headers, BodyInit, ...) into the server build.
+ * HeadlessScreen imports the bundle directly and types it against @xterm/headless.
+ */
+declare module '@xterm/addon-serialize/lib/addon-serialize.js' {
+  import type { ITerminalAddon, Terminal } from '@xterm/headless';
+
+  export interface ISerializeOptions {
+    scrollback?: number;
+    excludeModes?: boolean;
+    excludeAltBuffer?: boolean;
+  }
+
+  export class SerializeAddon implements ITerminalAddon {
+    activate(terminal: Terminal): void;
+    serialize(options?: ISerializeOptions): string;
+    dispose(): void;
+  }
+}
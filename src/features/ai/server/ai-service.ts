@@ -6,6 +6,13 @@
  */
 
 import { randomUUID } from 'node:crypto';
+import type { AIChatConfig, AIHttpRunnerConfig } from '@/core/config/types.js';
+import { createLogger } from '@/utils/logger.js';
+import {
+  assessSuggestedCommand,
+  type CommandAssessment,
+  compileDenyPatterns
+} from './command-approval.js';
 import { renderCombinedContext, renderContext } from './context-renderer.js';
 import { RateLimiter } from './rate-limiter.js';
 import { parseResponse } from './response-parser.js';
@@ -14,17 +21,28 @@ import { DisabledRunner, type Runner } from './runner.js';
 import { ClaudeRunner } from './runners/claude-runner.js';
 import { CodexRunner } from './runners/codex-runner.js';
 import { GeminiRunner } from './runners/gemini-runner.js';
+import { OpenAICompatibleRunner } from './runners/openai-runner.js';
+import {
+  type AIHistorySearchOptions,
+  type AIThreadPersistence,
+  SqliteAIThreadPersistence
+} from './thread-persistence.js';
 import type {
   AIChatRequest,
   AIChatResponse,
+  AIHistorySearchHit,
   AIRun,
   AIThread,
   BlockContext,
   BlockSnapshot,
+  CommandRisk,
   FileContext,
   FileSnapshot,
+  RunChunk,
   RunnerName,
-  RunnerStatus
+  RunnerStatus,
+  RunRequest,
+  RunResult
 } from './types.js';
 
 export interface AIServiceOptions {
@@ -38,19 +56,57 @@ export interface AIServiceOptions {
   rateLimitMaxRequests?: number;
   /** Rate limit: window duration in ms */
   rateLimitWindowMs?: number;
-  /** Default runner */
+  /** Runner used when a request does not name one ('auto' picks the best available) */
   defaultRunner?: RunnerName;
+  /** OpenAI-compatible HTTP endpoints, registered as runners under their names */
+  httpRunners?: AIHttpRunnerConfig[];
+  /** Regexes of suggested commands that must never run (ai_chat.command_deny_patterns) */
+  commandDenyPatterns?: string[];
+  /** History storage (default: in-memory SQLite, lost on restart) */
+  persistence?: AIThreadPersistence;
 }
 
-const DEFAULT_OPTIONS: Required<AIServiceOptions> = {
+const log = createLogger('ai-service');
+
+const DEFAULT_OPTIONS: Required<Omit<AIServiceOptions, 'persistence'>> = {
   enableCache: true,
   cacheTtlMs: 60 * 60 * 1000, // 1 hour
   enableRateLimit: true,
   rateLimitMaxRequests: 20,
   rateLimitWindowMs: 60 * 1000, // 1 minute
-  defaultRunner: 'auto'
+  defaultRunner: 'auto',
+  httpRunners: [],
+  commandDenyPatterns: []
 };
 
+/**
+ * Map the ai_chat config section to service options
+ */
+export function createAIServiceOptions(config: AIChatConfig): AIServiceOptions {
+  return {
+    enableCache: config.cache_enabled,
+    cacheTtlMs: config.cache_ttl_ms,
+    enableRateLimit: config.rate_limit_enabled,
+    rateLimitMaxRequests: config.rate_limit_max_requests,
+    rateLimitWindowMs: config.rate_limit_window_ms,
+    defaultRunner: config.default_runner,
+    httpRunners: config.http_runners,
+    commandDenyPatterns: config.command_deny_patterns
+  };
+}
+
+/** Streaming hooks for AIService.chat() */
+export interface ChatStreamOptions {
+  /** Run ID to use instead of a generated one */
+  runId?: string;
+  /** Aborts the runner */
+  signal?: AbortSignal;
+  /** Called once the runner has been selected */
+  onStart?: (runner: RunnerName) => void;
+  /** Receives content as it is generated (uses the runner's stream() when available) */
+  onDelta?: (delta: string) => void;
+}
+
 const SYSTEM_PROMPT = `You are a helpful terminal assistant analyzing command outputs.
 Your task is to help users understand terminal errors, suggest fixes, and provide guidance.
 
@@ -75,12 +131,17 @@ export class AIService {
   private runners: Map<RunnerName, Runner> = new Map();
   private cache: RunCache;
   private rateLimiter: RateLimiter;
-  private options: Required<AIServiceOptions>;
+  private options: Required<Omit<AIServiceOptions, 'persistence'>>;
+  private persistence: AIThreadPersistence;
+  private commandDenyList: RegExp[];
   private threads: Map<string, AIThread> = new Map();
   private runSnapshots: Map<string, AIRun> = new Map();
 
   constructor(options: AIServiceOptions = {}) {
-    this.options = { ...DEFAULT_OPTIONS, ...options };
+    const { persistence, ...rest } = options;
+    this.options = { ...DEFAULT_OPTIONS, ...rest };
+    this.persistence = persistence ?? new SqliteAIThreadPersistence(':memory:');
+    this.commandDenyList = compileDenyPatterns(this.options.commandDenyPatterns);
 
     // Initialize cache
     this.cache = new RunCache({
@@ -97,6 +158,14 @@ export class AIService {
 
     // Initialize runners
     this.initializeRunners();
+
+    // Restore history
+    for (const thread of this.persistence.loadThreads()) {
+      this.threads.set(thread.id, thread);
+      for (const run of thread.runs) {
+        this.runSnapshots.set(run.id, run);
+      }
+    }
   }
 
   /**
@@ -107,6 +176,9 @@ export class AIService {
     this.runners.set('codex', new CodexRunner());
     this.runners.set('gemini', new GeminiRunner());
     this.runners.set('disabled', new DisabledRunner());
+    for (const config of this.options.httpRunners) {
+      this.runners.set(config.name, new OpenAICompatibleRunner(config));
+    }
   }
 
   /**
@@ -130,8 +202,13 @@ export class AIService {
    * Get the best available runner
    */
   async getBestRunner(): Promise<Runner> {
-    // Check preferred runners in order
-    const preferredOrder: RunnerName[] = ['claude', 'gemini', 'codex'];
+    // Check preferred runners in order (CLI runners, then HTTP runners as configured)
+    const preferredOrder: RunnerName[] = [
+      'claude',
+      'gemini',
+      'codex',
+      ...this.options.httpRunners.map((config) => config.name)
+    ];
 
     for (const name of preferredOrder) {
       const runner = this.runners.get(name);
@@ -162,10 +239,11 @@ export class AIService {
     blocks: BlockContext[],
     files?: FileContext[],
     userId?: string,
-    inlineBlocks?: import('./types.js').InlineBlock[]
+    inlineBlocks?: import('./types.js').InlineBlock[],
+    stream: ChatStreamOptions = {}
   ): Promise<AIChatResponse> {
     const startTime = Date.now();
-    const runId = `run_${randomUUID().slice(0, 8)}`;
+    const runId = stream.runId ?? `run_${randomUUID().slice(0, 8)}`;
 
     // Rate limit check
     const rateLimitKey = userId ?? 'default';
@@ -200,8 +278,9 @@ export class AIService {
 
     // Select runner
     let runner: Runner;
-    if (request.runner && request.runner !== 'auto') {
-      const requestedRunner = this.runners.get(request.runner);
+    const requested = request.runner ?? this.options.defaultRunner;
+    if (requested !== 'auto') {
+      const requestedRunner = this.runners.get(requested);
       if (requestedRunner) {
         runner = requestedRunner;
       } else {
@@ -210,6 +289,7 @@ export class AIService {
     } else {
       runner = await this.getBestRunner();
     }
+    stream.onStart?.(runner.name);
 
     // Check cache
     const cacheKey = this.cache.generateKey(request.question, contextText, runner.name);
@@ -226,12 +306,17 @@ export class AIService {
 
     // Execute request
     try {
-      const result = await runner.run({
+      const runRequest: RunRequest = {
         prompt: request.question,
         systemPrompt: SYSTEM_PROMPT,
         context: contextText,
-        conversationId: request.conversationId
-      });
+        conversationId: request.conversationId,
+        signal: stream.signal
+      };
+      const result =
+        stream.onDelta && runner.stream
+          ? await this.collectStream(runner.stream(runRequest), stream.onDelta, startTime)
+          : await runner.run(runRequest);
 
       if (result.error) {
         return {
@@ -253,10 +338,17 @@ export class AIService {
         runId,
         content: parsed.answer || result.content,
         citations: parsed.citations,
-        nextCommands: parsed.nextCommands,
+        nextCommands: parsed.nextCommands.map((next) => {
+          const { risk, approval } = this.assessCommand(next.command, next.risk);
+          return { ...next, risk, approval };
+        }),
         cached: false,
         durationMs: Date.now() - startTime,
-        runner: runner.name
+        runner: runner.name,
+        usage: result.tokenCount && {
+          inputTokens: result.tokenCount.input,
+          outputTokens: result.tokenCount.output
+        }
       };
 
       // Store in cache
@@ -281,6 +373,46 @@ export class AIService {
     }
   }
 
+  /**
+   * Rate a suggested command and decide which approval it needs before it runs
+   */
+  assessCommand(command: string, claimedRisk?: CommandRisk): CommandAssessment {
+    return assessSuggestedCommand(command, claimedRisk, this.commandDenyList);
+  }
+
+  /**
+   * Forward streamed chunks and assemble them into a RunResult
+   */
+  private async collectStream(
+    chunks: AsyncIterable<RunChunk>,
+    onDelta: (delta: string) => void,
+    startTime: number
+  ): Promise<RunResult> {
+    let content = '';
+    let tokenCount: RunResult['tokenCount'];
+    for await (const chunk of chunks) {
+      if (chunk.type === 'content' && chunk.content) {
+        content += chunk.content;
+        onDelta(chunk.content);
+      } else if (chunk.type === 'done') {
+        tokenCount = chunk.tokenCount;
+      } else if (chunk.type === 'error') {
+        return {
+          content: '',
+          raw: content,
+          error: chunk.error,
+          durationMs: Date.now() - startTime
+        };
+      }
+    }
+    return {
+      content: content.trim(),
+      raw: content,
+      durationMs: Date.now() - startTime,
+      tokenCount
+    };
+  }
+
   /**
    * Create a run snapshot for history
    */
@@ -342,11 +474,19 @@ export class AIService {
     this.runSnapshots.set(runId, run);
 
     // Limit history size (keep last 100 runs per thread)
-    if (thread.runs.length > 100) {
-      const removed = thread.runs.shift();
+    const removed = thread.runs.length > 100 ? thread.runs.shift() : undefined;
+    if (removed) {
+      this.runSnapshots.delete(removed.id);
+    }
+
+    // A failed write only loses durability; the response is still returned
+    try {
+      this.persistence.saveRun(thread, run);
       if (removed) {
-        this.runSnapshots.delete(removed.id);
+        this.persistence.deleteRun(removed.id);
       }
+    } catch (error) {
+      log.warn(`Failed to persist AI run ${runId}: ${String(error)}`);
     }
   }
 
@@ -403,18 +543,38 @@ export class AIService {
    * Clear history for a session
    */
   clearSessionHistory(sessionId: string): void {
-    for (const [threadId, thread] of this.threads.entries()) {
+    for (const thread of [...this.threads.values()]) {
       if (thread.sessionId === sessionId) {
-        // Remove runs
-        for (const run of thread.runs) {
-          this.runSnapshots.delete(run.id);
-        }
-        // Remove thread
-        this.threads.delete(threadId);
+        this.deleteThread(thread.id);
       }
     }
   }
 
+  /**
+   * Delete a thread and its runs
+   *
+   * @returns false if the thread does not exist
+   */
+  deleteThread(threadId: string): boolean {
+    const thread = this.threads.get(threadId);
+    if (!thread) {
+      return false;
+    }
+    for (const run of thread.runs) {
+      this.runSnapshots.delete(run.id);
+    }
+    this.threads.delete(threadId);
+    this.persistence.deleteThread(threadId);
+    return true;
+  }
+
+  /**
+   * Full-text search over questions, answers and context snapshots
+   */
+  searchHistory(query: string, options?: AIHistorySearchOptions): AIHistorySearchHit[] {
+    return this.persistence.search(query, options);
+  }
+
   /**
    * Get service statistics
    */
@@ -440,6 +600,7 @@ export class AIService {
     this.cache.clear();
     this.threads.clear();
     this.runSnapshots.clear();
+    this.persistence.close();
   }
 }
 
@@ -3,8 +3,10 @@
  */
 
 import { afterEach, describe, expect, test } from 'bun:test';
+import type { AIMessage } from '@/core/protocol/index.js';
 import {
   AISessionManager,
+  createAIRunSSEStream,
   createContextSnapshot,
   DEFAULT_SNAPSHOT_CONFIG,
   IdempotencyStore,
@@ -36,6 +38,25 @@ describe('IdempotencyStore', () => {
     store.dispose();
   });
 
+  test('scopes keys to the session and user', () => {
+    const store = new IdempotencyStore();
+
+    const first = store.getOrCreate('key1', 'prod', 'alice');
+    const otherUser = store.getOrCreate('key1', 'prod', 'bob');
+    const otherSession = store.getOrCreate('key1', 'dev', 'alice');
+    const retry = store.getOrCreate('key1', 'prod', 'alice');
+
+    expect(otherUser.isNew).toBe(true);
+    expect(otherSession.isNew).toBe(true);
+    expect(otherUser.entry.runId).not.toBe(first.entry.runId);
+    expect(otherSession.entry.runId).not.toBe(first.entry.runId);
+    expect(retry.isNew).toBe(false);
+    expect(retry.entry.runId).toBe(first.entry.runId);
+    expect(store.getByRunId(otherUser.entry.runId)?.sessionName).toBe('prod');
+
+    store.dispose();
+  });
+
   test('updates status', () => {
     const store = new IdempotencyStore();
 
@@ -315,3 +336,152 @@ describe('AISessionManager', () => {
     manager.dispose();
   });
 });
+
+function chatResponse(runId: string, overrides: Partial<AIChatResponse> = {}): AIChatResponse {
+  return {
+    runId,
+    content: 'Hello world',
+    citations: [],
+    nextCommands: [],
+    cached: false,
+    durationMs: 1,
+    runner: 'claude',
+    ...overrides
+  };
+}
+
+function collect(manager: AISessionManager, runId: string, lastEventId?: number) {
+  const messages: AIMessage[] = [];
+  manager.subscribe(runId, (message) => messages.push(message), lastEventId);
+  return messages;
+}
+
+describe('AISessionManager streaming', () => {
+  test('publishes started, deltas and the final result', async () => {
+    const manager = new AISessionManager();
+    const { runId } = manager.startRun('test-session', 'idem-key-1');
+    const live: AIMessage[] = [];
+
+    let finish: () => void = () => {};
+    manager.streamRun(runId, async ({ onStart, onDelta }) => {
+      onStart('claude');
+      onDelta('Hello ');
+      await new Promise<void>((resolve) => {
+        finish = resolve;
+      });
+      onDelta('world');
+      return chatResponse(runId);
+    });
+    manager.subscribe(runId, (message) => live.push(message));
+    finish();
+    await Bun.sleep(0);
+
+    expect(live.map((m) => m.type)).toEqual([
+      'ai_run_started',
+      'ai_stream',
+      'ai_stream',
+      'ai_final'
+    ]);
+    expect(live.filter((m) => m.type === 'ai_stream').map((m) => m.seq)).toEqual([0, 1]);
+    expect(manager.getRun(runId)?.status).toBe('completed');
+
+    manager.dispose();
+  });
+
+  test('replays buffered messages after lastEventId', async () => {
+    const manager = new AISessionManager();
+    const { runId } = manager.startRun('test-session', 'idem-key-1');
+
+    manager.streamRun(runId, async ({ onStart, onDelta }) => {
+      onStart('claude');
+      onDelta('a');
+      onDelta('b');
+      return chatResponse(runId, { content: 'ab' });
+    });
+    await Bun.sleep(0);
+
+    expect(collect(manager, runId)).toHaveLength(4);
+    const missed = collect(manager, runId, 1);
+    // ids: 0 started, 1 'a', 2 'b', 3 final
+    expect(missed.map((m) => m.type)).toEqual(['ai_stream', 'ai_final']);
+    expect(missed[1]?.type === 'ai_final' && missed[1].result.content).toBe('ab');
+
+    manager.dispose();
+  });
+
+  test('cancel aborts the run and ignores its late result', async () => {
+    const manager = new AISessionManager();
+    const { runId } = manager.startRun('test-session', 'idem-key-1');
+    let signal: AbortSignal | undefined;
+
+    manager.streamRun(runId, async (context) => {
+      signal = context.signal;
+      await new Promise((resolve) => {
+        context.signal.onabort = resolve;
+      });
+      return chatResponse(runId, { error: 'aborted' });
+    });
+
+    expect(manager.cancelRun(runId)).toBe(true);
+    await Bun.sleep(0);
+
+    expect(signal?.aborted).toBe(true);
+    const messages = collect(manager, runId);
+    expect(messages.at(-1)).toMatchObject({ type: 'ai_error', code: 'canceled' });
+    expect(messages.filter((m) => m.type === 'ai_error')).toHaveLength(1);
+    expect(manager.getRun(runId)?.status).toBe('canceled');
+
+    manager.dispose();
+  });
+
+  test('watchdog times out stale runs', async () => {
+    const manager = new AISessionManager({ maxRunDuration: 10, watchdogInterval: 5 });
+    const { runId } = manager.startRun('test-session', 'idem-key-1');
+    let signal: AbortSignal | undefined;
+
+    manager.streamRun(runId, (context) => {
+      signal = context.signal;
+      return new Promise<AIChatResponse>(() => {});
+    });
+    await Bun.sleep(40);
+
+    expect(signal?.aborted).toBe(true);
+    expect(collect(manager, runId).at(-1)).toMatchObject({ type: 'ai_error', code: 'timeout' });
+
+    manager.dispose();
+  });
+
+  test('runner errors end the stream with ai_error', async () => {
+    const manager = new AISessionManager();
+    const { runId } = manager.startRun('test-session', 'idem-key-1');
+
+    manager.streamRun(runId, async () => chatResponse(runId, { error: 'CLI exited with code 1' }));
+    await Bun.sleep(0);
+
+    expect(collect(manager, runId)).toMatchObject([
+      { type: 'ai_run_started', runner: 'claude' },
+      { type: 'ai_error', code: 'runner_error', error: 'CLI exited with code 1' }
+    ]);
+    expect(manager.getRun(runId)?.status).toBe('error');
+
+    manager.dispose();
+  });
+
+  test('SSE stream ends after the final message', async () => {
+    const manager = new AISessionManager();
+    const { runId } = manager.startRun('test-session', 'idem-key-1');
+
+    manager.streamRun(runId, async ({ onStart, onDelta }) => {
+      onStart('claude');
+      onDelta('Hi');
+      return chatResponse(runId, { content: 'Hi' });
+    });
+    const text = await new Response(createAIRunSSEStream(manager, runId)).text();
+
+    expect(text).toContain('id: 0\nevent: ai_run_started');
+    expect(text).toContain('event: ai_stream');
+    expect(text).toContain('id: 2\nevent: ai_final');
+
+    manager.dispose();
+  });
+});
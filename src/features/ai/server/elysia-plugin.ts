@@ -2,18 +2,32 @@
  * AI API Routes (Elysia)
  *
  * Handles AI chat, runners, and thread management.
+ * Chat runs are started asynchronously and streamed over SSE.
+ * Runs and threads of sessions the user cannot view are reported as missing.
  * Replaces the old ai-routes.ts with Elysia's TypeBox validation.
  */
 
+import { randomUUID } from 'node:crypto';
 import { existsSync, statSync } from 'node:fs';
 import { homedir } from 'node:os';
 import { basename, join } from 'node:path';
-import { Elysia, t } from 'elysia';
+import { Elysia, type Static, t } from 'elysia';
+import type { ExtendedBlock } from '@/core/protocol/index.js';
+import { summarizeCommand } from '@/core/server/auth/audit-logger.js';
 import { coreContext } from '@/core/server/elysia/context.js';
 import { ErrorResponseSchema } from '@/core/server/elysia/errors.js';
+import { authContextPlugin } from '@/core/server/elysia/middleware/auth.js';
+import type { NativeSessionManager } from '@/core/server/session-manager.js';
+import type { CommandExecutorManager } from '@/core/terminal/command-executor-manager.js';
+import { createAIRunSSEStream } from '@/features/ai/server/ai-session.js';
+import { checkApproval } from '@/features/ai/server/command-approval.js';
+import { formatThreadMarkdown } from '@/features/ai/server/thread-export.js';
 import type { BlockContext, FileContext } from '@/features/ai/server/types.js';
+import { createLogger } from '@/utils/logger.js';
 import { validateSecurePath } from '@/utils/path-security.js';
 
+const log = createLogger('ai-routes');
+
 // === Request/Response Schemas ===
 
 const InlineBlockSchema = t.Object({
@@ -44,20 +58,137 @@ const AiRunBodySchema = t.Object({
       ])
     )
   }),
-  runner: t.Optional(
-    t.Union([t.Literal('claude'), t.Literal('codex'), t.Literal('gemini'), t.Literal('auto')])
-  ),
+  /** 'claude' | 'codex' | 'gemini' | 'auto' or a configured HTTP runner name */
+  runner: t.Optional(t.String({ minLength: 1 })),
   conversationId: t.Optional(t.String())
 });
 
+const RiskSchema = t.Union([t.Literal('safe'), t.Literal('caution'), t.Literal('dangerous')]);
+
+const ExecuteCommandBodySchema = t.Object({
+  sessionId: t.String({ minLength: 1 }),
+  command: t.String({ minLength: 1 }),
+  mode: t.Optional(t.Union([t.Literal('ephemeral'), t.Literal('persistent')])),
+  /** Risk label from the AI response (the server never rates lower than its own assessment) */
+  risk: t.Optional(RiskSchema),
+  /** Any value confirms 'confirm'; 'typed' needs the command typed back */
+  confirmation: t.Optional(t.String()),
+  /** Thread and run that suggested the command (recorded in the block's agentMeta) */
+  threadId: t.Optional(t.String()),
+  runId: t.Optional(t.String())
+});
+
+const ExecuteCommandResponseSchema = t.Object({
+  blockId: t.String(),
+  status: t.String(),
+  risk: RiskSchema,
+  approval: t.String()
+});
+
 const SuccessResponseSchema = t.Object({
   success: t.Boolean()
 });
 
+const AiRunAcceptedSchema = t.Object({
+  runId: t.String(),
+  /** Thread the run is recorded in; send it back as conversationId to continue it */
+  threadId: t.String(),
+  status: t.String()
+});
+
+// === Helpers ===
+
+type AiRunBody = Static<typeof AiRunBodySchema>;
+
+/**
+ * Resolve the blocks and files referenced by a run request
+ */
+async function collectContexts(
+  body: AiRunBody,
+  sessionManager: NativeSessionManager,
+  executorManager: CommandExecutorManager | null
+): Promise<{ blockContexts: BlockContext[]; fileContexts: FileContext[] }> {
+  const blockContexts: BlockContext[] = [];
+
+  for (const blockId of body.context.blocks) {
+    const block = executorManager?.getBlock(blockId);
+    if (block) {
+      let status: 'running' | 'success' | 'error';
+      switch (block.status) {
+        case 'queued':
+        case 'running':
+          status = 'running';
+          break;
+        case 'success':
+          status = 'success';
+          break;
+        default:
+          status = 'error';
+      }
+
+      const output = [block.stdoutPreview, block.stderrPreview].filter(Boolean).join('\n');
+
+      blockContexts.push({
+        id: block.id,
+        command: block.command,
+        output,
+        exitCode: block.exitCode,
+        status,
+        cwd: block.effectiveCwd,
+        startedAt: block.startedAt,
+        endedAt: block.endedAt
+      });
+    }
+  }
+
+  const fileContexts: FileContext[] = [];
+  if (body.context.files && Array.isArray(body.context.files)) {
+    const session = sessionManager.getSession(body.context.sessionId);
+    const sessionCwd = session?.cwd ?? process.cwd();
+
+    for (const fileRef of body.context.files) {
+      try {
+        let baseDir: string;
+        if (fileRef.source === 'plans') {
+          baseDir = join(homedir(), '.claude', 'plans');
+        } else {
+          baseDir = sessionCwd;
+        }
+
+        const pathResult = validateSecurePath(baseDir, fileRef.path);
+        if (!pathResult.valid) continue;
+        const targetPath = pathResult.targetPath!;
+
+        if (!existsSync(targetPath)) continue;
+
+        const stat = statSync(targetPath);
+        if (stat.size > 100 * 1024) continue;
+
+        const content = await Bun.file(targetPath).text();
+        const name = basename(targetPath);
+
+        fileContexts.push({
+          source: fileRef.source,
+          path: fileRef.path,
+          name,
+          content,
+          size: stat.size,
+          modifiedAt: stat.mtime.toISOString()
+        });
+      } catch {
+        // Skip files that can't be read
+      }
+    }
+  }
+
+  return { blockContexts, fileContexts };
+}
+
 // === Plugin ===
 
 export const aiPlugin = new Elysia({ prefix: '/api' })
   .use(coreContext)
+  .use(authContextPlugin)
 
   // GET /api/ai/runners - runner statuses
   .get('/ai/runners', async () => {
@@ -67,123 +198,219 @@ export const aiPlugin = new Elysia({ prefix: '/api' })
     return { runners };
   })
 
-  // POST /api/ai/runs - submit AI chat request
+  // POST /api/ai/runs - start an AI chat run (streamed via /ai/runs/:runId/stream)
+  // An Idempotency-Key header makes retries by the same user in the same
+  // session return the existing run.
   .post(
     '/ai/runs',
-    async ({ sessionManager, executorManager, body, set }) => {
-      const aiModule = await import('@/features/ai/server/index.js');
-      const aiService = aiModule.getAIService();
-
-      const blockContexts: BlockContext[] = [];
-
-      for (const blockId of body.context.blocks) {
-        const block = executorManager?.getBlock(blockId);
-        if (block) {
-          let status: 'running' | 'success' | 'error';
-          switch (block.status) {
-            case 'queued':
-            case 'running':
-              status = 'running';
-              break;
-            case 'success':
-              status = 'success';
-              break;
-            default:
-              status = 'error';
-          }
-
-          const output = [block.stdoutPreview, block.stderrPreview].filter(Boolean).join('\n');
-
-          blockContexts.push({
-            id: block.id,
-            command: block.command,
-            output,
-            exitCode: block.exitCode,
-            status,
-            cwd: block.effectiveCwd,
-            startedAt: block.startedAt,
-            endedAt: block.endedAt
-          });
-        }
+    async ({ sessionManager, executorManager, aiSessionManager, body, request, set, user }) => {
+      if (!aiSessionManager) {
+        set.status = 500;
+        return { error: 'INTERNAL_ERROR', message: 'AI session manager not initialized' };
       }
 
-      const fileContexts: FileContext[] = [];
-      if (body.context.files && Array.isArray(body.context.files)) {
-        const session = sessionManager.getSession(body.context.sessionId);
-        const sessionCwd = session?.cwd ?? process.cwd();
-
-        for (const fileRef of body.context.files) {
-          try {
-            let baseDir: string;
-            if (fileRef.source === 'plans') {
-              baseDir = join(homedir(), '.claude', 'plans');
-            } else {
-              baseDir = sessionCwd;
-            }
-
-            const pathResult = validateSecurePath(baseDir, fileRef.path);
-            if (!pathResult.valid) continue;
-            const targetPath = pathResult.targetPath!;
-
-            if (!existsSync(targetPath)) continue;
-
-            const stat = statSync(targetPath);
-            if (stat.size > 100 * 1024) continue;
-
-            const content = await Bun.file(targetPath).text();
-            const name = basename(targetPath);
-
-            fileContexts.push({
-              source: fileRef.source,
-              path: fileRef.path,
-              name,
-              content,
-              size: stat.size,
-              modifiedAt: stat.mtime.toISOString()
-            });
-          } catch {
-            // Skip files that can't be read
-          }
-        }
+      const idempotencyKey = request.headers.get('Idempotency-Key') ?? randomUUID();
+      const { runId, isNew } = aiSessionManager.startRun(
+        body.context.sessionId,
+        idempotencyKey,
+        user?.name
+      );
+      // Derived from the run ID so that a retried request reports the same thread
+      const threadId = body.conversationId ?? `thread_${runId.replace(/^run_/, '')}`;
+      if (!isNew) {
+        set.status = 200;
+        return { runId, threadId, status: aiSessionManager.getRun(runId)?.status ?? 'completed' };
       }
 
-      const renderMode = body.context.renderMode ?? 'full';
-
-      const response = await aiService.chat(
-        {
-          question: body.question,
-          context: {
-            sessionId: body.context.sessionId,
-            blocks: body.context.blocks,
-            inlineBlocks: body.context.inlineBlocks,
-            files: body.context.files,
-            renderMode
+      const { getAIService } = await import('@/features/ai/server/index.js');
+      const aiService = getAIService();
+
+      aiSessionManager.streamRun(runId, async (stream) => {
+        const { blockContexts, fileContexts } = await collectContexts(
+          body,
+          sessionManager,
+          executorManager
+        );
+        return aiService.chat(
+          {
+            question: body.question,
+            context: {
+              sessionId: body.context.sessionId,
+              blocks: body.context.blocks,
+              inlineBlocks: body.context.inlineBlocks,
+              files: body.context.files,
+              renderMode: body.context.renderMode ?? 'full'
+            },
+            runner: body.runner,
+            conversationId: threadId
           },
-          runner: body.runner,
-          conversationId: body.conversationId
-        },
-        blockContexts,
-        fileContexts,
-        undefined,
-        body.context.inlineBlocks
-      );
+          blockContexts,
+          fileContexts,
+          undefined,
+          body.context.inlineBlocks,
+          stream
+        );
+      });
+
+      set.status = 202;
+      return { runId, threadId, status: 'running' };
+    },
+    {
+      body: AiRunBodySchema,
+      response: {
+        200: AiRunAcceptedSchema,
+        202: AiRunAcceptedSchema,
+        500: ErrorResponseSchema
+      }
+    }
+  )
+
+  // GET /api/ai/runs/:runId/stream - SSE stream of ai_run_started/ai_stream/ai_final/ai_error
+  .get(
+    '/ai/runs/:runId/stream',
+    ({ aiSessionManager, params, request, set, can }) => {
+      const sessionName = aiSessionManager?.getRun(params.runId)?.sessionName;
+      if (
+        !aiSessionManager?.hasStream(params.runId) ||
+        sessionName === undefined ||
+        !can(sessionName, 'view')
+      ) {
+        set.status = 404;
+        return { error: 'NOT_FOUND', message: `Run "${params.runId}" not found` };
+      }
+
+      const lastEventIdHeader = request.headers.get('Last-Event-ID');
+      const lastEventId = lastEventIdHeader ? Number.parseInt(lastEventIdHeader, 10) : undefined;
+      const sseStream = createAIRunSSEStream(aiSessionManager, params.runId, { lastEventId });
+
+      return new Response(sseStream, {
+        headers: {
+          'Content-Type': 'text/event-stream',
+          'Cache-Control': 'no-cache',
+          Connection: 'keep-alive',
+          'X-Accel-Buffering': 'no'
+        }
+      });
+    },
+    {
+      params: t.Object({ runId: t.String() }),
+      response: { 404: ErrorResponseSchema }
+    }
+  )
+
+  // POST /api/ai/runs/:runId/cancel - cancel a running run
+  .post(
+    '/ai/runs/:runId/cancel',
+    ({ aiSessionManager, params, set, can }) => {
+      const sessionName = aiSessionManager?.getRun(params.runId)?.sessionName;
+      if (!aiSessionManager || sessionName === undefined || !can(sessionName, 'view')) {
+        set.status = 404;
+        return { error: 'NOT_FOUND', message: `Run "${params.runId}" not found` };
+      }
+      if (!aiSessionManager.cancelRun(params.runId)) {
+        set.status = 409;
+        return { error: 'RUN_FINISHED', message: `Run "${params.runId}" has already finished` };
+      }
+      return { success: true };
+    },
+    {
+      params: t.Object({ runId: t.String() }),
+      response: {
+        200: SuccessResponseSchema,
+        404: ErrorResponseSchema,
+        409: ErrorResponseSchema
+      }
+    }
+  )
+
+  // POST /api/ai/commands/execute - run a suggested command after risk-gated approval
+  // Responds once the block has started; follow it with /api/blocks/:id/stream.
+  .post(
+    '/ai/commands/execute',
+    async ({ sessionManager, executorManager, body, set, audit }) => {
+      if (!sessionManager.hasSession(body.sessionId)) {
+        set.status = 404;
+        return {
+          error: 'SESSION_NOT_FOUND',
+          message: `Session '${body.sessionId}' not found`
+        };
+      }
+      if (!executorManager) {
+        set.status = 500;
+        return { error: 'INTERNAL_ERROR', message: 'Command executor not initialized' };
+      }
+
+      const { getAIService } = await import('@/features/ai/server/index.js');
+      const assessment = getAIService().assessCommand(body.command, body.risk);
+      const approved = checkApproval(body.command, assessment, body.confirmation);
+      if (!approved.ok) {
+        set.status = approved.error.code === 'COMMAND_DENIED' ? 403 : 428;
+        return { error: approved.error.code, message: approved.error.message };
+      }
+      audit({
+        type: 'command_execute',
+        sessionName: body.sessionId,
+        details: `ai-suggested (risk ${assessment.risk}): ${summarizeCommand(body.command)}`
+      });
+
+      let block: ExtendedBlock;
+      try {
+        block = await new Promise<ExtendedBlock>((resolve, reject) => {
+          executorManager
+            .executeCommand(
+              body.sessionId,
+              {
+                command: body.command,
+                mode: body.mode,
+                tags: ['ai-suggested', `risk:${assessment.risk}`],
+                agentMeta: { agentId: 'ai-chat', contextId: body.threadId, requestId: body.runId }
+              },
+              resolve
+            )
+            .catch((error: unknown) => {
+              log.warn(`Suggested command failed to run: ${String(error)}`);
+              reject(error);
+            });
+        });
+      } catch (error) {
+        set.status = 500;
+        return {
+          error: 'EXECUTION_FAILED',
+          message: error instanceof Error ? error.message : 'Failed to start command'
+        };
+      }
 
-      set.status = 200;
-      return response;
+      set.status = 202;
+      return {
+        blockId: block.id,
+        status: block.status,
+        risk: assessment.risk,
+        approval: assessment.approval
+      };
     },
-    { body: AiRunBodySchema }
+    {
+      body: ExecuteCommandBodySchema,
+      response: {
+        202: ExecuteCommandResponseSchema,
+        403: ErrorResponseSchema,
+        404: ErrorResponseSchema,
+        428: ErrorResponseSchema,
+        500: ErrorResponseSchema
+      }
+    }
   )
 
   // GET /api/ai/runs/:runId - get specific run
   .get(
     '/ai/runs/:runId',
-    async ({ params, error }) => {
+    async ({ params, set, can }) => {
       const { getAIService } = await import('@/features/ai/server/index.js');
       const aiService = getAIService();
       const run = aiService.getRun(params.runId);
 
-      if (!run) {
-        return error(404, { error: 'NOT_FOUND', message: `Run "${params.runId}" not found` });
+      if (!run || !can(run.request.context.sessionId, 'view')) {
+        set.status = 404;
+        return { error: 'NOT_FOUND', message: `Run "${params.runId}" not found` };
       }
 
       return run;
@@ -197,13 +424,14 @@ export const aiPlugin = new Elysia({ prefix: '/api' })
   // GET /api/ai/threads/:threadId - get specific thread
   .get(
     '/ai/threads/:threadId',
-    async ({ params, error }) => {
+    async ({ params, set, can }) => {
       const { getAIService } = await import('@/features/ai/server/index.js');
       const aiService = getAIService();
       const thread = aiService.getThread(params.threadId);
 
-      if (!thread) {
-        return error(404, { error: 'NOT_FOUND', message: `Thread "${params.threadId}" not found` });
+      if (!thread || !can(thread.sessionId, 'view')) {
+        set.status = 404;
+        return { error: 'NOT_FOUND', message: `Thread "${params.threadId}" not found` };
       }
 
       return thread;
@@ -214,6 +442,77 @@ export const aiPlugin = new Elysia({ prefix: '/api' })
     }
   )
 
+  // DELETE /api/ai/threads/:threadId - delete a thread and its runs
+  .delete(
+    '/ai/threads/:threadId',
+    async ({ params, set, can }) => {
+      const { getAIService } = await import('@/features/ai/server/index.js');
+      const aiService = getAIService();
+      const thread = aiService.getThread(params.threadId);
+      if (!thread || !can(thread.sessionId, 'view') || !aiService.deleteThread(thread.id)) {
+        set.status = 404;
+        return { error: 'NOT_FOUND', message: `Thread "${params.threadId}" not found` };
+      }
+      return { success: true };
+    },
+    {
+      params: t.Object({ threadId: t.String() }),
+      response: { 200: SuccessResponseSchema, 404: ErrorResponseSchema }
+    }
+  )
+
+  // GET /api/ai/threads/:threadId/export - download a thread as Markdown or JSON
+  .get(
+    '/ai/threads/:threadId/export',
+    async ({ params, query, set, can }) => {
+      const { getAIService } = await import('@/features/ai/server/index.js');
+      const thread = getAIService().getThread(params.threadId);
+      if (!thread || !can(thread.sessionId, 'view')) {
+        set.status = 404;
+        return { error: 'NOT_FOUND', message: `Thread "${params.threadId}" not found` };
+      }
+
+      const markdown = (query.format ?? 'markdown') === 'markdown';
+      const body = markdown ? formatThreadMarkdown(thread) : JSON.stringify(thread, null, 2);
+      // conversationId is client-chosen, so keep the header value safe
+      const filename = `${thread.id.replace(/[^A-Za-z0-9_-]/g, '_')}.${markdown ? 'md' : 'json'}`;
+      return new Response(body, {
+        headers: {
+          'Content-Type': markdown ? 'text/markdown; charset=utf-8' : 'application/json',
+          'Content-Disposition': `attachment; filename="${filename}"`,
+          'Cache-Control': 'no-store'
+        }
+      });
+    },
+    {
+      params: t.Object({ threadId: t.String() }),
+      query: t.Object({
+        format: t.Optional(t.Union([t.Literal('markdown'), t.Literal('json')]))
+      }),
+      response: { 404: ErrorResponseSchema }
+    }
+  )
+
+  // GET /api/ai/history/search - full-text search over questions, answers and context
+  // (without sessionId, hits in sessions the user cannot view are left out)
+  .get(
+    '/ai/history/search',
+    async ({ query, can }) => {
+      const { getAIService } = await import('@/features/ai/server/index.js');
+      const hits = getAIService()
+        .searchHistory(query.q, { sessionId: query.sessionId, limit: query.limit })
+        .filter((hit) => can(hit.sessionId, 'view'));
+      return { hits };
+    },
+    {
+      query: t.Object({
+        q: t.String({ minLength: 1 }),
+        sessionId: t.Optional(t.String()),
+        limit: t.Optional(t.Number({ minimum: 1, maximum: 100, default: 20 }))
+      })
+    }
+  )
+
   // GET /api/ai/sessions/:sessionId/threads - threads for a session
   .get(
     '/ai/sessions/:sessionId/threads',
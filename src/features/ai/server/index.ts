@@ -4,7 +4,13 @@
  * Central export point for AI-related functionality.
  */
 
-export { AIService, getAIService, resetAIService } from './ai-service.js';
+export {
+  AIService,
+  type ChatStreamOptions,
+  createAIServiceOptions,
+  getAIService,
+  resetAIService
+} from './ai-service.js';
 // Utilities
 export {
   type ContextRendererOptions,
@@ -25,5 +31,14 @@ export { CLIRunner, DisabledRunner, type Runner } from './runner.js';
 export { ClaudeRunner } from './runners/claude-runner.js';
 export { CodexRunner } from './runners/codex-runner.js';
 export { GeminiRunner } from './runners/gemini-runner.js';
+export { OpenAICompatibleRunner } from './runners/openai-runner.js';
+// History
+export { formatThreadMarkdown } from './thread-export.js';
+export {
+  AI_HISTORY_DB_FILENAME,
+  type AIHistorySearchOptions,
+  type AIThreadPersistence,
+  SqliteAIThreadPersistence
+} from './thread-persistence.js';
 // Types
 export * from './types.js';
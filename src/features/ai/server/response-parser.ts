@@ -355,7 +355,7 @@ function looksLikeCommand(text: string): boolean {
 /**
  * Assess risk level of a command
  */
-function assessCommandRisk(command: string): CommandRisk {
+export function assessCommandRisk(command: string): CommandRisk {
   const lower = command.toLowerCase();
 
   // Dangerous commands
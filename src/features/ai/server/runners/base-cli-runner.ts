@@ -129,7 +129,8 @@ export abstract class BaseCLIRunner extends CLIRunner {
       const proc = Bun.spawn([this.cliCommand, ...args], {
         stdout: 'pipe',
         stderr: 'pipe',
-        env: this.getSpawnEnv()
+        env: this.getSpawnEnv(),
+        signal: request.signal
       });
 
       const [exitCode, stdout, stderr] = await Promise.all([
@@ -175,7 +176,8 @@ export abstract class BaseCLIRunner extends CLIRunner {
       const proc = Bun.spawn([this.cliCommand, ...args], {
         stdout: 'pipe',
         stderr: 'pipe',
-        env: this.getSpawnEnv()
+        env: this.getSpawnEnv(),
+        signal: request.signal
       });
 
       const reader = proc.stdout.getReader();
@@ -0,0 +1,163 @@
+/**
+ * OpenAI-compatible Runner Tests
+ *
+ * Uses a real Bun.serve instance (ephemeral port) as a fake
+ * /v1/chat/completions server.
+ */
+
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import type { Server } from 'bun';
+import type { RunChunk } from '@/features/ai/server/types.js';
+import { OpenAICompatibleRunner } from './openai-runner.js';
+
+interface RecordedRequest {
+  authorization: string | null;
+  body: { model: string; messages: Array<{ role: string; content: string }>; stream: boolean };
+}
+
+const API_KEY_ENV = 'BUNTERM_TEST_OPENAI_KEY';
+
+describe('OpenAICompatibleRunner', () => {
+  let server: Server;
+  let baseUrl: string;
+  const requests: RecordedRequest[] = [];
+
+  beforeAll(() => {
+    server = Bun.serve({
+      port: 0,
+      async fetch(req) {
+        const url = new URL(req.url);
+        if (url.pathname === '/v1/models') {
+          return req.headers.get('Authorization') === 'Bearer wrong'
+            ? new Response('unauthorized', { status: 401 })
+            : Response.json({ data: [{ id: 'test-model' }] });
+        }
+
+        const body = (await req.json()) as RecordedRequest['body'];
+        requests.push({ authorization: req.headers.get('Authorization'), body });
+
+        if (body.model === 'broken') {
+          return new Response('model not found', { status: 404 });
+        }
+        if (!body.stream) {
+          return Response.json({
+            choices: [{ message: { content: ' The answer \n' } }],
+            usage: { prompt_tokens: 12, completion_tokens: 3 }
+          });
+        }
+
+        const events = [
+          { choices: [{ delta: { content: 'Hel' } }] },
+          { choices: [{ delta: { content: 'lo' } }] },
+          { choices: [], usage: { prompt_tokens: 7, completion_tokens: 2 } }
+        ];
+        const sse = `${events.map((e) => `data: ${JSON.stringify(e)}\n\n`).join('')}data: [DONE]\n\n`;
+        return new Response(sse, { headers: { 'Content-Type': 'text/event-stream' } });
+      }
+    });
+    baseUrl = `http://localhost:${server.port}/v1/`;
+  });
+
+  afterAll(() => {
+    server.stop();
+    delete process.env[API_KEY_ENV];
+  });
+
+  function createRunner(overrides: { model?: string; api_key_env?: string } = {}) {
+    return new OpenAICompatibleRunner({
+      name: 'local',
+      base_url: baseUrl,
+      model: overrides.model ?? 'test-model',
+      api_key_env: overrides.api_key_env,
+      timeout_ms: 5000
+    });
+  }
+
+  test('run() returns the completion with token usage', async () => {
+    const result = await createRunner().run({
+      prompt: 'Why?',
+      systemPrompt: 'Be brief',
+      context: '$ make'
+    });
+
+    expect(result.error).toBeUndefined();
+    expect(result.content).toBe('The answer');
+    expect(result.tokenCount).toEqual({ input: 12, output: 3 });
+
+    const request = requests.at(-1);
+    expect(request?.body.model).toBe('test-model');
+    expect(request?.body.messages[0]).toEqual({ role: 'system', content: 'Be brief' });
+    expect(request?.body.messages[1]?.content).toContain('$ make');
+  });
+
+  test('stream() yields deltas and reports usage on done', async () => {
+    const chunks: RunChunk[] = [];
+    for await (const chunk of createRunner().stream({ prompt: 'Hi', context: '' })) {
+      chunks.push(chunk);
+    }
+
+    expect(chunks).toEqual([
+      { type: 'content', content: 'Hel' },
+      { type: 'content', content: 'lo' },
+      { type: 'done', tokenCount: { input: 7, output: 2 } }
+    ]);
+  });
+
+  test('HTTP errors are returned as run errors', async () => {
+    const result = await createRunner({ model: 'broken' }).run({ prompt: 'Hi', context: '' });
+
+    expect(result.error).toBe('local returned HTTP 404: model not found');
+  });
+
+  test('sends the API key from the configured environment variable', async () => {
+    process.env[API_KEY_ENV] = 'secret';
+    await createRunner({ api_key_env: API_KEY_ENV }).run({ prompt: 'Hi', context: '' });
+
+    expect(requests.at(-1)?.authorization).toBe('Bearer secret');
+  });
+
+  test('availability reflects reachability and the API key', async () => {
+    const runner = createRunner({ api_key_env: API_KEY_ENV });
+
+    delete process.env[API_KEY_ENV];
+    expect(await runner.checkAvailability()).toMatchObject({
+      available: true,
+      authenticated: false
+    });
+
+    process.env[API_KEY_ENV] = 'wrong';
+    expect(await runner.checkAvailability()).toMatchObject({
+      authenticated: false,
+      error: 'API key rejected'
+    });
+
+    process.env[API_KEY_ENV] = 'secret';
+    expect(await runner.checkAvailability()).toMatchObject({
+      name: 'local',
+      model: 'test-model',
+      available: true,
+      authenticated: true
+    });
+
+    const unreachable = new OpenAICompatibleRunner({
+      name: 'down',
+      base_url: 'http://127.0.0.1:1/v1',
+      model: 'm',
+      timeout_ms: 1000
+    });
+    expect((await unreachable.checkAvailability()).available).toBe(false);
+  });
+
+  test('an aborted request stops the run', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    const result = await createRunner().run({
+      prompt: 'Hi',
+      context: '',
+      signal: controller.signal
+    });
+
+    expect(result.error).toBeDefined();
+  });
+});
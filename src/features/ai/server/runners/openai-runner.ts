@@ -0,0 +1,256 @@
+/**
+ * OpenAI-compatible HTTP Runner
+ *
+ * Runs queries against a `/chat/completions` endpoint instead of a CLI.
+ * Works with OpenAI and with local servers that speak the same API
+ * (Ollama at http://localhost:11434/v1, vLLM, llama.cpp server, ...).
+ * Configured per endpoint in ai_chat.http_runners.
+ */
+
+import type { AIHttpRunnerConfig } from '@/core/config/types.js';
+import type { Runner } from '@/features/ai/server/runner.js';
+import type {
+  RunChunk,
+  RunnerCapabilities,
+  RunnerName,
+  RunnerStatus,
+  RunRequest,
+  RunResult
+} from '@/features/ai/server/types.js';
+
+/** Timeout for the availability check (GET /models) */
+const AVAILABILITY_TIMEOUT_MS = 3000;
+
+interface ChatMessage {
+  role: 'system' | 'user';
+  content: string;
+}
+
+interface CompletionUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+}
+
+interface ChatCompletion {
+  choices?: Array<{ message?: { content?: string | null } }>;
+  usage?: CompletionUsage;
+}
+
+interface ChatCompletionChunk {
+  choices?: Array<{ delta?: { content?: string | null } }>;
+  usage?: CompletionUsage | null;
+}
+
+/**
+ * Convert OpenAI usage to RunResult.tokenCount
+ */
+function toTokenCount(usage: CompletionUsage | null | undefined): RunResult['tokenCount'] {
+  if (usage?.prompt_tokens === undefined || usage.completion_tokens === undefined) {
+    return undefined;
+  }
+  return { input: usage.prompt_tokens, output: usage.completion_tokens };
+}
+
+/**
+ * Yield the `data:` payloads of a server-sent event stream
+ */
+async function* readSSEData(body: ReadableStream<Uint8Array>): AsyncIterable<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    buffer += decoder.decode(value, { stream: true });
+
+    let newline = buffer.indexOf('\n');
+    while (newline !== -1) {
+      const line = buffer.slice(0, newline).replace(/\r$/, '');
+      buffer = buffer.slice(newline + 1);
+      if (line.startsWith('data:')) {
+        yield line.slice(5).trim();
+      }
+      newline = buffer.indexOf('\n');
+    }
+  }
+}
+
+export class OpenAICompatibleRunner implements Runner {
+  readonly name: RunnerName;
+  private readonly config: AIHttpRunnerConfig;
+  private readonly baseUrl: string;
+
+  constructor(config: AIHttpRunnerConfig) {
+    this.name = config.name;
+    this.config = config;
+    this.baseUrl = config.base_url.replace(/\/+$/, '');
+  }
+
+  capabilities(): RunnerCapabilities {
+    return {
+      supportsStreaming: true,
+      supportsConversation: false,
+      maxContextLength: 0, // Depends on the served model
+      supportedFeatures: ['code-analysis', 'error-explanation', 'command-suggestion']
+    };
+  }
+
+  /**
+   * The endpoint is available when GET /models answers.
+   * 401/403 means it is reachable but the API key was rejected.
+   */
+  async checkAvailability(): Promise<RunnerStatus> {
+    const status = { name: this.name, model: this.config.model };
+
+    if (this.config.api_key_env && !process.env[this.config.api_key_env]) {
+      return {
+        ...status,
+        available: true,
+        authenticated: false,
+        error: `${this.config.api_key_env} is not set`
+      };
+    }
+
+    try {
+      const response = await fetch(`${this.baseUrl}/models`, {
+        headers: this.buildHeaders(),
+        signal: AbortSignal.timeout(AVAILABILITY_TIMEOUT_MS)
+      });
+      if (response.status === 401 || response.status === 403) {
+        return { ...status, available: true, authenticated: false, error: 'API key rejected' };
+      }
+      return { ...status, available: true, authenticated: true };
+    } catch (error) {
+      return {
+        ...status,
+        available: false,
+        authenticated: false,
+        error: error instanceof Error ? error.message : `${this.baseUrl} is unreachable`
+      };
+    }
+  }
+
+  /**
+   * Execute a run request and return the result
+   */
+  async run(request: RunRequest): Promise<RunResult> {
+    const startTime = Date.now();
+    const timeout = AbortSignal.timeout(this.config.timeout_ms);
+
+    try {
+      const response = await this.postCompletion(request, false, timeout);
+      if (!response.ok) {
+        return {
+          content: '',
+          error: await this.describeHttpError(response),
+          durationMs: Date.now() - startTime
+        };
+      }
+
+      const completion = (await response.json()) as ChatCompletion;
+      const content = completion.choices?.[0]?.message?.content ?? '';
+      return {
+        content: content.trim(),
+        raw: content,
+        durationMs: Date.now() - startTime,
+        tokenCount: toTokenCount(completion.usage)
+      };
+    } catch (error) {
+      return {
+        content: '',
+        error: this.describeError(error, timeout),
+        durationMs: Date.now() - startTime
+      };
+    }
+  }
+
+  /**
+   * Stream execution using server-sent events
+   */
+  async *stream(request: RunRequest): AsyncIterable<RunChunk> {
+    const timeout = AbortSignal.timeout(this.config.timeout_ms);
+
+    try {
+      const response = await this.postCompletion(request, true, timeout);
+      if (!response.ok || !response.body) {
+        yield { type: 'error', error: await this.describeHttpError(response) };
+        return;
+      }
+
+      let tokenCount: RunResult['tokenCount'];
+      for await (const data of readSSEData(response.body)) {
+        if (data === '[DONE]') {
+          break;
+        }
+        const chunk = JSON.parse(data) as ChatCompletionChunk;
+        const delta = chunk.choices?.[0]?.delta?.content;
+        if (delta) {
+          yield { type: 'content', content: delta };
+        }
+        // Sent in the last chunk when stream_options.include_usage is honored
+        tokenCount = toTokenCount(chunk.usage) ?? tokenCount;
+      }
+
+      yield { type: 'done', tokenCount };
+    } catch (error) {
+      yield { type: 'error', error: this.describeError(error, timeout) };
+    }
+  }
+
+  private buildHeaders(): Record<string, string> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    const apiKey = this.config.api_key_env ? process.env[this.config.api_key_env] : undefined;
+    if (apiKey) {
+      headers['Authorization'] = `Bearer ${apiKey}`;
+    }
+    return headers;
+  }
+
+  private buildMessages(request: RunRequest): ChatMessage[] {
+    const messages: ChatMessage[] = [];
+    if (request.systemPrompt) {
+      messages.push({ role: 'system', content: request.systemPrompt });
+    }
+    const content = request.context
+      ? `## Context\n${request.context}\n\n## Question\n${request.prompt}`
+      : request.prompt;
+    messages.push({ role: 'user', content });
+    return messages;
+  }
+
+  private postCompletion(
+    request: RunRequest,
+    stream: boolean,
+    timeout: AbortSignal
+  ): Promise<Response> {
+    const signals = request.signal ? [request.signal, timeout] : [timeout];
+    return fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: this.buildHeaders(),
+      body: JSON.stringify({
+        model: this.config.model,
+        messages: this.buildMessages(request),
+        max_tokens: request.maxTokens ?? this.config.max_tokens,
+        stream,
+        ...(stream ? { stream_options: { include_usage: true } } : {})
+      }),
+      signal: AbortSignal.any(signals)
+    });
+  }
+
+  private async describeHttpError(response: Response): Promise<string> {
+    const body = await response.text().catch(() => '');
+    const detail = body.trim().slice(0, 500);
+    return `${this.name} returned HTTP ${response.status}${detail ? `: ${detail}` : ''}`;
+  }
+
+  private describeError(error: unknown, timeout: AbortSignal): string {
+    if (timeout.aborted) {
+      return `${this.name} did not respond within ${this.config.timeout_ms}ms`;
+    }
+    return error instanceof Error ? error.message : `${this.name} request failed`;
+  }
+}
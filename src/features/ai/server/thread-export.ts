@@ -0,0 +1,84 @@
+/**
+ * AI Thread Export
+ *
+ * Renders a thread as a Markdown document: one section per run with the
+ * question, the context snapshot, the answer, citations and suggested commands.
+ */
+
+import type { AIRun, AIThread } from './types.js';
+
+/**
+ * Longest run of backticks in text, so fences can be made longer than it
+ */
+function fenceFor(text: string): string {
+  const longest = Math.max(0, ...(text.match(/`+/g) ?? []).map((run) => run.length));
+  return '`'.repeat(Math.max(3, longest + 1));
+}
+
+function formatRun(run: AIRun, index: number): string {
+  const { request, response, contextSnapshot } = run;
+  const lines: string[] = [
+    `## ${index + 1}. ${request.question.split('\n')[0]}`,
+    '',
+    `- Time: ${run.createdAt}`,
+    `- Runner: ${response.runner}`,
+    `- Duration: ${response.durationMs}ms`
+  ];
+  if (response.usage) {
+    lines.push(`- Tokens: ${response.usage.inputTokens} in / ${response.usage.outputTokens} out`);
+  }
+
+  lines.push('', '### Question', '', request.question);
+
+  if (contextSnapshot.blocks.length > 0 || contextSnapshot.files?.length) {
+    lines.push('', '### Context', '');
+    for (const block of contextSnapshot.blocks) {
+      const exit = block.exitCode === undefined ? block.status : `exit ${block.exitCode}`;
+      const fence = fenceFor(block.outputPreview);
+      lines.push(`- \`${block.id}\` (${exit}): \`${block.command}\``);
+      if (block.outputPreview) {
+        lines.push('', `${fence}text`, block.outputPreview, fence, '');
+      }
+    }
+    for (const file of contextSnapshot.files ?? []) {
+      lines.push(`- File \`${file.path}\` (${file.size} bytes)`);
+    }
+  }
+
+  lines.push(
+    '',
+    '### Answer',
+    '',
+    response.error ? `**Error:** ${response.error}` : response.content
+  );
+
+  if (response.citations.length > 0) {
+    lines.push('', '### Citations', '');
+    for (const citation of response.citations) {
+      lines.push(`- \`${citation.blockId}\`: ${citation.reason}`);
+    }
+  }
+
+  if (response.nextCommands.length > 0) {
+    lines.push('', '### Suggested commands', '');
+    for (const next of response.nextCommands) {
+      lines.push(`- \`${next.command}\` (${next.risk}): ${next.description}`);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Render a thread as Markdown
+ */
+export function formatThreadMarkdown(thread: AIThread): string {
+  const header = [
+    `# AI thread ${thread.id}`,
+    '',
+    `- Session: ${thread.sessionId}`,
+    `- Created: ${thread.createdAt}`,
+    `- Updated: ${thread.updatedAt}`
+  ].join('\n');
+  return `${[header, ...thread.runs.map(formatRun)].join('\n\n')}\n`;
+}
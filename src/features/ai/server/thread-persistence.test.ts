@@ -0,0 +1,183 @@
+/**
+ * Tests for SqliteAIThreadPersistence, history restore and thread export
+ */
+
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { mkdirSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { AIService } from './ai-service.js';
+import { formatThreadMarkdown } from './thread-export.js';
+import { SqliteAIThreadPersistence, toFtsQuery } from './thread-persistence.js';
+import type { AIRun, AIThread } from './types.js';
+
+function makeThread(id: string, sessionId = 'session1'): AIThread {
+  return {
+    id,
+    sessionId,
+    runs: [],
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z'
+  };
+}
+
+function makeRun(id: string, threadId: string, question: string, answer: string): AIRun {
+  return {
+    id,
+    threadId,
+    request: {
+      question,
+      context: { sessionId: 'session1', blocks: ['block_1'], renderMode: 'full' }
+    },
+    contextSnapshot: {
+      blocks: [
+        {
+          id: 'block_1',
+          command: 'cargo build',
+          outputPreview: 'error[E0425]: cannot find value `config`',
+          exitCode: 101,
+          status: 'error'
+        }
+      ]
+    },
+    response: {
+      runId: id,
+      content: answer,
+      citations: [{ blockId: 'block_1', reason: 'compiler error' }],
+      nextCommands: [{ command: 'cargo check', description: 'Re-check', risk: 'safe' }],
+      cached: false,
+      durationMs: 1200,
+      runner: 'claude'
+    },
+    createdAt: '2026-01-01T00:00:01.000Z'
+  };
+}
+
+describe('SqliteAIThreadPersistence', () => {
+  let tempDir: string;
+  let dbPath: string;
+  const opened: SqliteAIThreadPersistence[] = [];
+
+  function open(): SqliteAIThreadPersistence {
+    const persistence = new SqliteAIThreadPersistence(dbPath);
+    opened.push(persistence);
+    return persistence;
+  }
+
+  beforeEach(() => {
+    tempDir = join(
+      tmpdir(),
+      `ai-history-test-${Date.now()}-${Math.random().toString(36).slice(2)}`
+    );
+    mkdirSync(tempDir, { recursive: true });
+    dbPath = join(tempDir, 'ai-history.db');
+  });
+
+  afterEach(() => {
+    for (const p of opened.splice(0)) {
+      p.close();
+    }
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('restores threads and runs in order', () => {
+    const persistence = open();
+    const thread = makeThread('thread_a');
+    persistence.saveRun(thread, makeRun('run_1', 'thread_a', 'Why did it fail?', 'Missing var'));
+    persistence.saveRun(thread, makeRun('run_2', 'thread_a', 'How to fix?', 'Declare it'));
+
+    const threads = open().loadThreads();
+
+    expect(threads.map((t) => t.id)).toEqual(['thread_a']);
+    expect(threads[0]?.runs.map((r) => r.id)).toEqual(['run_1', 'run_2']);
+    expect(threads[0]?.runs[0]?.response.citations).toEqual([
+      { blockId: 'block_1', reason: 'compiler error' }
+    ]);
+  });
+
+  test('searches questions, answers and context with highlighted snippets', () => {
+    const persistence = open();
+    persistence.saveRun(
+      makeThread('thread_a'),
+      makeRun('run_1', 'thread_a', 'Why did the build fail?', 'The variable is undefined')
+    );
+    persistence.saveRun(
+      makeThread('thread_b', 'session2'),
+      makeRun('run_2', 'thread_b', 'What is a lifetime?', 'A borrow scope')
+    );
+
+    const byAnswer = persistence.search('undefined');
+    const byContext = persistence.search('E0425');
+    const bySession = persistence.search('cargo', { sessionId: 'session2' });
+
+    expect(byAnswer.map((hit) => hit.runId)).toEqual(['run_1']);
+    expect(byAnswer[0]?.snippet).toContain('<mark>undefined</mark>');
+    expect(byAnswer[0]?.runner).toBe('claude');
+    expect(byContext.map((hit) => hit.threadId).sort()).toEqual(['thread_a', 'thread_b']);
+    expect(bySession.map((hit) => hit.runId)).toEqual(['run_2']);
+    expect(persistence.search('"')).toEqual([]);
+  });
+
+  test('deletes runs and threads from storage and the index', () => {
+    const persistence = open();
+    const thread = makeThread('thread_a');
+    persistence.saveRun(thread, makeRun('run_1', 'thread_a', 'first question', 'a'));
+    persistence.saveRun(thread, makeRun('run_2', 'thread_a', 'second question', 'b'));
+
+    persistence.deleteRun('run_1');
+    expect(persistence.search('question').map((hit) => hit.runId)).toEqual(['run_2']);
+
+    persistence.deleteThread('thread_a');
+    expect(persistence.search('question')).toEqual([]);
+    expect(open().loadThreads()).toEqual([]);
+  });
+
+  test('toFtsQuery quotes terms and prefix-matches the last one', () => {
+    expect(toFtsQuery('build fa')).toBe('"build" "fa"*');
+    expect(toFtsQuery('say "hi" OR')).toBe('"say" "hi" "OR"*');
+    expect(toFtsQuery('   ')).toBe('');
+  });
+});
+
+describe('AIService history', () => {
+  test('restores persisted threads and deletes them through the service', () => {
+    const persistence = new SqliteAIThreadPersistence(':memory:');
+    persistence.saveRun(makeThread('thread_a'), makeRun('run_1', 'thread_a', 'Why?', 'Because'));
+    persistence.saveRun(
+      makeThread('thread_b', 'session2'),
+      makeRun('run_2', 'thread_b', 'How?', 'Like this')
+    );
+    const service = new AIService({ persistence });
+
+    expect(service.getRun('run_1')?.response.content).toBe('Because');
+    expect(service.getSessionThreads('session1').map((t) => t.id)).toEqual(['thread_a']);
+    expect(service.searchHistory('because').map((hit) => hit.threadId)).toEqual(['thread_a']);
+
+    expect(service.deleteThread('thread_a')).toBe(true);
+    expect(service.deleteThread('thread_a')).toBe(false);
+    expect(service.getRun('run_1')).toBeNull();
+    expect(service.searchHistory('because')).toEqual([]);
+
+    service.clearSessionHistory('session2');
+    expect(persistence.loadThreads()).toEqual([]);
+    service.dispose();
+  });
+});
+
+describe('formatThreadMarkdown', () => {
+  test('renders question, context, answer, citations and commands', () => {
+    const thread = makeThread('thread_a');
+    thread.runs.push(makeRun('run_1', 'thread_a', 'Why did it fail?', 'Missing `config`'));
+
+    const markdown = formatThreadMarkdown(thread);
+
+    expect(markdown).toStartWith('# AI thread thread_a\n');
+    expect(markdown).toContain('## 1. Why did it fail?');
+    expect(markdown).toContain('- `block_1` (exit 101): `cargo build`');
+    // The output preview contains a backtick; the fence is still three long
+    expect(markdown).toContain('```text\nerror[E0425]');
+    expect(markdown).toContain('### Answer\n\nMissing `config`');
+    expect(markdown).toContain('- `block_1`: compiler error');
+    expect(markdown).toContain('- `cargo check` (safe): Re-check');
+  });
+});
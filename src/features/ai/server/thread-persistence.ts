@@ -0,0 +1,304 @@
+/**
+ * AIThreadPersistence - Durable storage for AI chat history
+ *
+ * AIService keeps threads and runs in memory and writes every new run
+ * through to an AIThreadPersistence, so history survives daemon restarts.
+ *
+ * SqliteAIThreadPersistence stores runs as JSON rows in a bun:sqlite
+ * database under the state directory, with an FTS5 index over the
+ * question, the answer and the context commands/output for search.
+ */
+
+import { Database } from 'bun:sqlite';
+import { chmodSync, existsSync, mkdirSync } from 'node:fs';
+import { dirname } from 'node:path';
+import { z } from 'zod';
+import { createLogger } from '@/utils/logger.js';
+import { parseJsonString } from '@/utils/parse-helpers.js';
+import type { AIHistorySearchHit, AIRun, AIThread } from './types.js';
+
+const log = createLogger('ai-history');
+
+/** Schema version stored in PRAGMA user_version */
+const SCHEMA_VERSION = 1;
+
+/** Default database file name (inside the state directory) */
+export const AI_HISTORY_DB_FILENAME = 'ai-history.db';
+
+/** Markers around matched terms in search snippets */
+export const SNIPPET_MATCH_START = '<mark>';
+export const SNIPPET_MATCH_END = '</mark>';
+
+export interface AIHistorySearchOptions {
+  /** Only search threads of this session */
+  sessionId?: string;
+  /** Maximum number of hits (default: 20) */
+  limit?: number;
+}
+
+/**
+ * Storage backend used by AIService (allows DI for testing)
+ */
+export interface AIThreadPersistence {
+  /** Load all threads with their runs, oldest first */
+  loadThreads(): AIThread[];
+  /** Insert or update a thread and insert one of its runs */
+  saveRun(thread: AIThread, run: AIRun): void;
+  /** Delete a single run (history size limit) */
+  deleteRun(runId: string): void;
+  /** Delete a thread and its runs */
+  deleteThread(threadId: string): void;
+  /** Full-text search over runs, best match first */
+  search(query: string, options?: AIHistorySearchOptions): AIHistorySearchHit[];
+  close(): void;
+}
+
+// Loose validation of the JSON column: required fields only, rest passed through
+const PersistedRunSchema = z
+  .object({
+    id: z.string().min(1),
+    threadId: z.string().min(1),
+    request: z
+      .object({
+        question: z.string(),
+        context: z
+          .object({ sessionId: z.string(), blocks: z.array(z.string()), renderMode: z.string() })
+          .passthrough()
+      })
+      .passthrough(),
+    contextSnapshot: z.object({ blocks: z.array(z.unknown()) }).passthrough(),
+    response: z
+      .object({
+        runId: z.string(),
+        content: z.string(),
+        runner: z.string(),
+        citations: z.array(z.unknown()),
+        nextCommands: z.array(z.unknown()),
+        cached: z.boolean(),
+        durationMs: z.number()
+      })
+      .passthrough(),
+    createdAt: z.string()
+  })
+  .passthrough();
+
+interface ThreadRow {
+  id: string;
+  session_id: string;
+  created_at: string;
+  updated_at: string;
+}
+
+interface RunRow {
+  id: string;
+  data: string;
+}
+
+interface SearchRow {
+  run_id: string;
+  thread_id: string;
+  session_id: string;
+  question: string;
+  snippet: string;
+  runner: string;
+  created_at: string;
+}
+
+/**
+ * Turn free text into an FTS5 query: every word must match (prefix match on the last one)
+ */
+export function toFtsQuery(query: string): string {
+  const terms = query
+    .split(/\s+/)
+    .map((term) => term.replace(/"/g, ''))
+    .filter(Boolean)
+    .map((term) => `"${term}"`);
+  if (terms.length > 0) {
+    terms[terms.length - 1] += '*';
+  }
+  return terms.join(' ');
+}
+
+/**
+ * Text of the context snapshot that is indexed for search
+ */
+function contextText(run: AIRun): string {
+  return run.contextSnapshot.blocks
+    .map((block) => `${block.command}\n${block.outputPreview}`)
+    .join('\n');
+}
+
+/**
+ * bun:sqlite implementation of AIThreadPersistence
+ */
+export class SqliteAIThreadPersistence implements AIThreadPersistence {
+  private readonly db: Database;
+
+  constructor(dbPath: string) {
+    if (dbPath !== ':memory:') {
+      const dir = dirname(dbPath);
+      if (!existsSync(dir)) {
+        mkdirSync(dir, { recursive: true, mode: 0o700 });
+      }
+    }
+
+    this.db = new Database(dbPath, { create: true });
+    this.db.exec('PRAGMA journal_mode = WAL');
+    this.migrate();
+
+    if (dbPath !== ':memory:') {
+      // Questions and context snapshots may contain secrets
+      try {
+        chmodSync(dbPath, 0o600);
+      } catch {
+        log.warn(`Failed to set permissions on ${dbPath}`);
+      }
+    }
+  }
+
+  loadThreads(): AIThread[] {
+    const threads = new Map<string, AIThread>();
+    const threadRows = this.db
+      .query<ThreadRow, []>(
+        'SELECT id, session_id, created_at, updated_at FROM threads ORDER BY created_at, rowid'
+      )
+      .all();
+    for (const row of threadRows) {
+      threads.set(row.id, {
+        id: row.id,
+        sessionId: row.session_id,
+        runs: [],
+        createdAt: row.created_at,
+        updatedAt: row.updated_at
+      });
+    }
+
+    const runRows = this.db
+      .query<RunRow, []>('SELECT id, data FROM runs ORDER BY created_at, rowid')
+      .all();
+    for (const row of runRows) {
+      const parsed = parseJsonString(PersistedRunSchema, 'file', row.data);
+      if (!parsed.ok) {
+        log.warn(`Skipping unreadable AI run ${row.id}: ${parsed.error.message}`);
+        continue;
+      }
+      const run = parsed.value as AIRun;
+      threads.get(run.threadId)?.runs.push(run);
+    }
+
+    return [...threads.values()];
+  }
+
+  saveRun(thread: AIThread, run: AIRun): void {
+    this.db.transaction(() => {
+      this.db
+        .query(
+          `INSERT INTO threads (id, session_id, created_at, updated_at) VALUES (?, ?, ?, ?)
+           ON CONFLICT (id) DO UPDATE SET updated_at = excluded.updated_at`
+        )
+        .run(thread.id, thread.sessionId, thread.createdAt, thread.updatedAt);
+      this.db
+        .query('INSERT OR REPLACE INTO runs (id, thread_id, created_at, data) VALUES (?, ?, ?, ?)')
+        .run(run.id, thread.id, run.createdAt, JSON.stringify(run));
+      this.db.query('DELETE FROM runs_fts WHERE run_id = ?').run(run.id);
+      this.db
+        .query('INSERT INTO runs_fts (run_id, question, answer, context) VALUES (?, ?, ?, ?)')
+        .run(run.id, run.request.question, run.response.content, contextText(run));
+    })();
+  }
+
+  deleteRun(runId: string): void {
+    this.db.transaction(() => {
+      this.db.query('DELETE FROM runs_fts WHERE run_id = ?').run(runId);
+      this.db.query('DELETE FROM runs WHERE id = ?').run(runId);
+    })();
+  }
+
+  deleteThread(threadId: string): void {
+    this.db.transaction(() => {
+      this.db
+        .query('DELETE FROM runs_fts WHERE run_id IN (SELECT id FROM runs WHERE thread_id = ?)')
+        .run(threadId);
+      this.db.query('DELETE FROM runs WHERE thread_id = ?').run(threadId);
+      this.db.query('DELETE FROM threads WHERE id = ?').run(threadId);
+    })();
+  }
+
+  search(query: string, options: AIHistorySearchOptions = {}): AIHistorySearchHit[] {
+    const ftsQuery = toFtsQuery(query);
+    if (!ftsQuery) {
+      return [];
+    }
+
+    const rows = this.db
+      .query<SearchRow, [string, string, string, string | null, string | null, number]>(
+        `SELECT runs_fts.run_id AS run_id, runs.thread_id AS thread_id,
+                threads.session_id AS session_id, runs_fts.question AS question,
+                snippet(runs_fts, -1, ?, ?, '…', 16) AS snippet,
+                json_extract(runs.data, '$.response.runner') AS runner,
+                runs.created_at AS created_at
+         FROM runs_fts
+         JOIN runs ON runs.id = runs_fts.run_id
+         JOIN threads ON threads.id = runs.thread_id
+         WHERE runs_fts MATCH ? AND (? IS NULL OR threads.session_id = ?)
+         ORDER BY bm25(runs_fts)
+         LIMIT ?`
+      )
+      .all(
+        SNIPPET_MATCH_START,
+        SNIPPET_MATCH_END,
+        ftsQuery,
+        options.sessionId ?? null,
+        options.sessionId ?? null,
+        options.limit ?? 20
+      );
+
+    return rows.map((row) => ({
+      threadId: row.thread_id,
+      runId: row.run_id,
+      sessionId: row.session_id,
+      question: row.question,
+      snippet: row.snippet,
+      runner: row.runner,
+      createdAt: row.created_at
+    }));
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  /**
+   * Create tables on first use
+   */
+  private migrate(): void {
+    const row = this.db.query<{ user_version: number }, []>('PRAGMA user_version').get();
+    if ((row?.user_version ?? 0) >= SCHEMA_VERSION) {
+      return;
+    }
+
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS threads (
+        id TEXT PRIMARY KEY,
+        session_id TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_threads_session ON threads (session_id, updated_at);
+      CREATE TABLE IF NOT EXISTS runs (
+        id TEXT PRIMARY KEY,
+        thread_id TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        data TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_runs_thread ON runs (thread_id, created_at);
+      CREATE VIRTUAL TABLE IF NOT EXISTS runs_fts USING fts5(
+        run_id UNINDEXED,
+        question,
+        answer,
+        context
+      );
+      PRAGMA user_version = ${SCHEMA_VERSION};
+    `);
+  }
+}
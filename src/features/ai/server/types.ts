@@ -95,11 +95,20 @@ export interface Citation {
 /** Risk level for suggested commands */
 export type CommandRisk = 'safe' | 'caution' | 'dangerous';
 
+/**
+ * Approval a suggested command needs before it runs:
+ * a click (safe), a confirmation (caution), typing the command (dangerous),
+ * or none possible (matches ai_chat.command_deny_patterns)
+ */
+export type CommandApproval = 'click' | 'confirm' | 'typed' | 'denied';
+
 /** Suggested next command */
 export interface NextCommand {
   command: string;
   description: string;
   risk: CommandRisk;
+  /** Set by AIService from the risk and the deny-list */
+  approval?: CommandApproval;
 }
 
 /** AI chat response */
@@ -112,10 +121,21 @@ export interface AIChatResponse {
   durationMs: number;
   runner: RunnerName;
   error?: string;
+  /** Token usage reported by the runner (HTTP runners only) */
+  usage?: {
+    inputTokens: number;
+    outputTokens: number;
+  };
 }
 
-/** Runner names */
-export type RunnerName = 'claude' | 'codex' | 'gemini' | 'auto' | 'disabled';
+/** Built-in CLI runner names */
+export type CLIRunnerName = 'claude' | 'codex' | 'gemini';
+
+/**
+ * Runner names: the CLI runners, 'auto', 'disabled', or the name of a
+ * configured HTTP runner (ai_chat.http_runners)
+ */
+export type RunnerName = CLIRunnerName | 'auto' | 'disabled' | (string & Record<never, never>);
 
 /** Runner availability status */
 export interface RunnerStatus {
@@ -124,6 +144,8 @@ export interface RunnerStatus {
   authenticated: boolean;
   error?: string;
   version?: string;
+  /** Model served by an HTTP runner */
+  model?: string;
 }
 
 /** Runner capabilities */
@@ -141,6 +163,8 @@ export interface RunRequest {
   context: string;
   conversationId?: string;
   maxTokens?: number;
+  /** Aborts the run (the CLI process is killed) */
+  signal?: AbortSignal;
 }
 
 /** Run result from runner */
@@ -160,6 +184,11 @@ export interface RunChunk {
   type: 'content' | 'done' | 'error';
   content?: string;
   error?: string;
+  /** Token usage (on 'done', when the runner reports it) */
+  tokenCount?: {
+    input: number;
+    output: number;
+  };
 }
 
 /** Block snapshot for AI run history */
@@ -200,3 +229,15 @@ export interface AIThread {
   createdAt: string;
   updatedAt: string;
 }
+
+/** Full-text search hit in the AI history */
+export interface AIHistorySearchHit {
+  threadId: string;
+  runId: string;
+  sessionId: string;
+  question: string;
+  /** Matching excerpt; matched terms are wrapped in <mark></mark> */
+  snippet: string;
+  runner: RunnerName;
+  createdAt: string;
+}
@@ -153,6 +153,37 @@ describe('BlockEventEmitter', () => {
     });
   });
 
+  describe('linkBlock', () => {
+    it('should mirror linked block events onto the stream', () => {
+      const events: BlockEvent[] = [];
+      emitter.subscribe('wf-1', (event) => events.push(event));
+      emitter.linkBlock('block-1', 'wf-1');
+
+      emitter.emit('block.started', 'block-1', {});
+      emitter.emit('block.started', 'block-2', {}); // Not linked
+
+      expect(events.length).toBe(1);
+      expect(events[0].blockId).toBe('block-1');
+      expect(emitter.getHistory('wf-1').length).toBe(1);
+      expect(emitter.getHistory('block-1').length).toBe(1);
+    });
+
+    it('should emit workflow state on the workflow ID', () => {
+      const event = emitter.emitWorkflow({
+        id: 'wf-1',
+        sessionName: 'test',
+        status: 'running',
+        steps: [{ id: 'build', status: 'pending' }],
+        variables: {},
+        startedAt: new Date().toISOString()
+      });
+
+      expect(event.type).toBe('block.workflow');
+      expect(event.blockId).toBe('wf-1');
+      expect(event.data.status).toBe('running');
+    });
+  });
+
   describe('subscribeAll', () => {
     it('should receive events for all blocks', () => {
       const events: BlockEvent[] = [];
@@ -12,7 +12,8 @@ import type {
   BlockEvent,
   BlockEventType,
   ExtendedBlock,
-  OutputChunk
+  OutputChunk,
+  Workflow
 } from '@/core/protocol/index.js';
 import type { ExecutorBlockEventEmitter } from '@/core/terminal/session-plugins.js';
 
@@ -39,6 +40,7 @@ export class BlockEventEmitter implements ExecutorBlockEventEmitter {
   private eventHistory: Map<string, BlockEvent[]> = new Map(); // blockId -> events
   private subscriptions: Map<string, Set<BlockSubscription>> = new Map(); // blockId -> subscriptions
   private allBlockListeners: Set<BlockEventListener> = new Set(); // listeners for all blocks
+  private links: Map<string, string> = new Map(); // blockId -> stream that mirrors its events
 
   /**
    * Emit a block event
@@ -52,19 +54,13 @@ export class BlockEventEmitter implements ExecutorBlockEventEmitter {
       timestamp: new Date().toISOString()
     };
 
-    // Store in history
-    this.addToHistory(blockId, event);
+    // Store in history and notify block-specific subscribers
+    this.deliver(blockId, event);
 
-    // Notify block-specific subscribers
-    const subs = this.subscriptions.get(blockId);
-    if (subs) {
-      for (const sub of subs) {
-        if (!sub.fromSeq || event.seq > sub.fromSeq) {
-          try {
-            sub.listener(event);
-          } catch (_error) {}
-        }
-      }
+    // Mirror onto the linked stream (e.g. the block's workflow)
+    const streamId = this.links.get(blockId);
+    if (streamId) {
+      this.deliver(streamId, event);
     }
 
     // Notify all-block listeners
@@ -152,6 +148,26 @@ export class BlockEventEmitter implements ExecutorBlockEventEmitter {
     });
   }
 
+  /**
+   * Emit workflow state (published on the workflow ID)
+   */
+  emitWorkflow(workflow: Workflow): BlockEvent {
+    return this.emit('block.workflow', workflow.id, {
+      workflowId: workflow.id,
+      status: workflow.status,
+      steps: workflow.steps,
+      variables: workflow.variables,
+      endedAt: workflow.endedAt
+    });
+  }
+
+  /**
+   * Publish a block's future events on another stream as well
+   */
+  linkBlock(blockId: string, streamId: string): void {
+    this.links.set(blockId, streamId);
+  }
+
   /**
    * Subscribe to events for a specific block
    */
@@ -253,6 +269,7 @@ export class BlockEventEmitter implements ExecutorBlockEventEmitter {
    */
   clearBlockHistory(blockId: string): void {
     this.eventHistory.delete(blockId);
+    this.links.delete(blockId);
   }
 
   /**
@@ -260,6 +277,25 @@ export class BlockEventEmitter implements ExecutorBlockEventEmitter {
    */
   clearAllHistory(): void {
     this.eventHistory.clear();
+    this.links.clear();
+  }
+
+  /**
+   * Store an event in a stream's history and notify its subscribers
+   */
+  private deliver(streamId: string, event: BlockEvent): void {
+    this.addToHistory(streamId, event);
+
+    const subs = this.subscriptions.get(streamId);
+    if (subs) {
+      for (const sub of subs) {
+        if (!sub.fromSeq || event.seq > sub.fromSeq) {
+          try {
+            sub.listener(event);
+          } catch (_error) {}
+        }
+      }
+    }
   }
 
   /**
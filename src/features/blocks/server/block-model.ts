@@ -89,6 +89,21 @@ export class BlockModel {
     }
   }
 
+  /**
+   * Restore blocks from a session snapshot (after daemon restart).
+   * Blocks that were still running when the snapshot was taken are closed
+   * as errors, since their process no longer exists.
+   */
+  restoreBlocks(blocks: Block[]): void {
+    const endedAt = new Date().toISOString();
+    this.blocks = blocks
+      .slice(-MAX_BLOCKS)
+      .map((block) =>
+        block.status === 'running' ? { ...block, status: 'error', endedAt } : { ...block }
+      );
+    this._activeBlockId = null;
+  }
+
   /**
    * Update the current working directory
    */
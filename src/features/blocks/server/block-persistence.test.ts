@@ -0,0 +1,162 @@
+/**
+ * Tests for SqliteBlockPersistence and BlockStore restore
+ */
+
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { mkdirSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { RetentionPolicy } from '@/core/protocol/index.js';
+import { SqliteBlockPersistence } from './block-persistence.js';
+import { createBlockStore } from './block-store.js';
+
+describe('SqliteBlockPersistence', () => {
+  let tempDir: string;
+  let dbPath: string;
+  const opened: SqliteBlockPersistence[] = [];
+
+  function open(): SqliteBlockPersistence {
+    const persistence = new SqliteBlockPersistence(dbPath);
+    opened.push(persistence);
+    return persistence;
+  }
+
+  beforeEach(() => {
+    tempDir = join(
+      tmpdir(),
+      `block-persistence-test-${Date.now()}-${Math.random().toString(36).slice(2)}`
+    );
+    mkdirSync(tempDir, { recursive: true });
+    dbPath = join(tempDir, 'blocks.db');
+  });
+
+  afterEach(() => {
+    for (const p of opened.splice(0)) {
+      p.close();
+    }
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('restores blocks and chunks into a new store', () => {
+    const store = createBlockStore(undefined, undefined, open());
+    const block = store.createBlock('session1', 'make build');
+    store.updateStatus(block.id, 'running');
+    store.appendOutput(block.id, 'stdout', 'compiling...');
+    store.appendOutput(block.id, 'stderr', 'error: boom');
+    store.completeBlock(block.id, 2);
+
+    const restored = createBlockStore(undefined, undefined, open());
+    const reloaded = restored.getBlock(block.id);
+
+    expect(reloaded?.command).toBe('make build');
+    expect(reloaded?.status).toBe('error');
+    expect(reloaded?.exitCode).toBe(2);
+    expect(reloaded?.stdoutPreview).toBe('compiling...');
+    expect(restored.getSessionBlocks('session1').map((b) => b.id)).toEqual([block.id]);
+
+    const { chunks } = restored.getBlockChunks(block.id);
+    expect(chunks.map((c) => c.stream)).toEqual(['stdout', 'stderr']);
+    expect(Buffer.from(chunks[1]!.content, 'base64').toString()).toBe('error: boom');
+  });
+
+  test('continues sequence numbers after restore', () => {
+    const store = createBlockStore(undefined, undefined, open());
+    const block = store.createBlock('session1', 'echo a');
+    store.appendOutput(block.id, 'stdout', 'a');
+    const seqBefore = store.getCurrentSeq();
+
+    const restored = createBlockStore(undefined, undefined, open());
+    expect(restored.getCurrentSeq()).toBe(seqBefore);
+
+    const next = restored.createBlock('session1', 'echo b');
+    const [chunk] = restored.appendOutput(next.id, 'stdout', 'b');
+    expect(chunk?.seq).toBe(seqBefore + 1);
+  });
+
+  test('marks blocks interrupted by a restart as canceled', () => {
+    const store = createBlockStore(undefined, undefined, open());
+    const block = store.createBlock('session1', 'sleep 100');
+    store.updateStatus(block.id, 'running');
+
+    const restored = createBlockStore(undefined, undefined, open());
+    const reloaded = restored.getBlock(block.id);
+
+    expect(reloaded?.status).toBe('canceled');
+    expect(reloaded?.errorType).toBe('canceled');
+    expect(reloaded?.endedAt).toBeDefined();
+  });
+
+  test('persists pin state and deletions', () => {
+    const store = createBlockStore(undefined, undefined, open());
+    const pinned = store.createBlock('session1', 'echo keep');
+    const removed = store.createBlock('session1', 'echo drop');
+    store.pinBlock(pinned.id);
+    store.deleteBlock(removed.id);
+
+    const restored = createBlockStore(undefined, undefined, open());
+    expect(restored.getBlock(pinned.id)?.pinned).toBe(true);
+    expect(restored.getBlock(removed.id)).toBeUndefined();
+  });
+
+  test('applies the retention policy on disk', () => {
+    const policy: RetentionPolicy = {
+      maxRecentBlocks: 2,
+      maxFailedBlocks: 10,
+      failedRetentionDays: 30,
+      fullOutputRecentCount: 1,
+      olderBlocksPreviewOnly: true,
+      maxPinnedBlocks: 10
+    };
+    const persistence = open();
+    const store = createBlockStore(policy, undefined, persistence);
+
+    const ids: string[] = [];
+    for (let i = 0; i < 3; i++) {
+      const block = store.createBlock('session1', `echo ${i}`);
+      store.appendOutput(block.id, 'stdout', `out ${i}`);
+      store.completeBlock(block.id, 0);
+      ids.push(block.id);
+    }
+    // Trigger retention once more after all blocks completed
+    store.createBlock('session1', 'echo last');
+
+    const onDisk = persistence.loadBlocks().map((r) => r.block.id);
+    for (const id of onDisk) {
+      expect(store.getBlock(id)).toBeDefined();
+    }
+    expect(onDisk).not.toContain(ids[0]);
+
+    // Compressed blocks keep their preview but lose chunks on disk
+    const compressed = persistence.loadBlocks().filter((r) => r.compressedAt);
+    expect(compressed.length).toBeGreaterThan(0);
+    for (const record of compressed) {
+      expect(persistence.loadChunks(record.block.id)).toEqual([]);
+    }
+  });
+
+  test('clear removes everything from disk', () => {
+    const persistence = open();
+    const store = createBlockStore(undefined, undefined, persistence);
+    const block = store.createBlock('session1', 'echo hi');
+    store.appendOutput(block.id, 'stdout', 'hi');
+
+    store.clear();
+
+    expect(persistence.loadBlocks()).toEqual([]);
+    expect(persistence.loadChunks(block.id)).toEqual([]);
+  });
+
+  test('keeps the in-memory store working when deletes fail on disk', () => {
+    const persistence = open();
+    persistence.deleteBlock = () => {
+      throw new Error('database is locked');
+    };
+    persistence.deleteChunks = persistence.deleteBlock;
+    const store = createBlockStore(undefined, undefined, persistence);
+    const block = store.createBlock('session1', 'echo hi');
+
+    expect(store.compressBlock(block.id)).toBe(true);
+    expect(store.deleteBlock(block.id)).toBe(true);
+    expect(store.getBlock(block.id)).toBeUndefined();
+  });
+});
@@ -0,0 +1,245 @@
+/**
+ * BlockPersistence - Durable storage backend for BlockStore
+ *
+ * BlockStore keeps its working set in memory and writes every mutation
+ * through to a BlockPersistence. On startup the store reloads all
+ * persisted blocks and chunks, so command history survives daemon restarts.
+ *
+ * SqliteBlockPersistence stores blocks as JSON rows and chunks as
+ * individual rows in a bun:sqlite database under the state directory.
+ */
+
+import { Database } from 'bun:sqlite';
+import { chmodSync, existsSync, mkdirSync } from 'node:fs';
+import { dirname } from 'node:path';
+import { z } from 'zod';
+import type { ExtendedBlock, OutputChunk } from '@/core/protocol/index.js';
+import { createLogger } from '@/utils/logger.js';
+import { parseJsonString } from '@/utils/parse-helpers.js';
+
+const log = createLogger('block-persistence');
+
+/** Schema version stored in PRAGMA user_version */
+const SCHEMA_VERSION = 1;
+
+/** Default database file name (inside the state directory) */
+export const BLOCK_DB_FILENAME = 'blocks.db';
+
+/**
+ * A block as stored on disk
+ */
+export interface PersistedBlock {
+  sessionName: string;
+  block: ExtendedBlock;
+  /** Set when full output was dropped by the retention policy */
+  compressedAt?: string;
+}
+
+/**
+ * Storage backend used by BlockStore (allows DI for testing)
+ */
+export interface BlockPersistence {
+  /** Load all blocks, oldest first */
+  loadBlocks(): PersistedBlock[];
+  /** Load all chunks of a block, ordered by seq */
+  loadChunks(blockId: string): OutputChunk[];
+  /** Insert or replace a block */
+  saveBlock(record: PersistedBlock): void;
+  /** Insert chunks */
+  saveChunks(chunks: OutputChunk[]): void;
+  /** Delete a block and its chunks */
+  deleteBlock(blockId: string): void;
+  /** Delete the chunks of a block (compression) */
+  deleteChunks(blockId: string): void;
+  /** Delete everything */
+  clear(): void;
+  close(): void;
+}
+
+// Loose validation of the JSON column: required fields only, rest passed through
+const PersistedBlockDataSchema = z
+  .object({
+    id: z.string().min(1),
+    command: z.string(),
+    mode: z.enum(['ephemeral', 'persistent']),
+    submittedVia: z.enum(['api', 'interactive']),
+    status: z.enum(['queued', 'running', 'success', 'error', 'timeout', 'canceled']),
+    startedAt: z.string(),
+    stdoutPreview: z.string(),
+    stderrPreview: z.string(),
+    stdoutBytes: z.number(),
+    stderrBytes: z.number(),
+    truncated: z.boolean()
+  })
+  .passthrough();
+
+interface BlockRow {
+  id: string;
+  session_name: string;
+  compressed_at: string | null;
+  data: string;
+}
+
+interface ChunkRow {
+  id: string;
+  block_id: string;
+  seq: number;
+  stream: string;
+  content: string;
+  timestamp: string;
+}
+
+/**
+ * bun:sqlite implementation of BlockPersistence
+ */
+export class SqliteBlockPersistence implements BlockPersistence {
+  private readonly db: Database;
+
+  constructor(dbPath: string) {
+    if (dbPath !== ':memory:') {
+      const dir = dirname(dbPath);
+      if (!existsSync(dir)) {
+        mkdirSync(dir, { recursive: true, mode: 0o700 });
+      }
+    }
+
+    this.db = new Database(dbPath, { create: true });
+    this.db.exec('PRAGMA journal_mode = WAL');
+    this.migrate();
+
+    if (dbPath !== ':memory:') {
+      // Command output may contain secrets the redactor missed
+      try {
+        chmodSync(dbPath, 0o600);
+      } catch {
+        log.warn(`Failed to set permissions on ${dbPath}`);
+      }
+    }
+  }
+
+  loadBlocks(): PersistedBlock[] {
+    const rows = this.db
+      .query<BlockRow, []>(
+        'SELECT id, session_name, compressed_at, data FROM blocks ORDER BY started_at, rowid'
+      )
+      .all();
+
+    const records: PersistedBlock[] = [];
+    for (const row of rows) {
+      const parsed = parseJsonString(PersistedBlockDataSchema, 'file', row.data);
+      if (!parsed.ok) {
+        log.warn(`Skipping unreadable block ${row.id}: ${parsed.error.message}`);
+        continue;
+      }
+      records.push({
+        sessionName: row.session_name,
+        block: parsed.value as ExtendedBlock,
+        ...(row.compressed_at !== null && { compressedAt: row.compressed_at })
+      });
+    }
+    return records;
+  }
+
+  loadChunks(blockId: string): OutputChunk[] {
+    return this.db
+      .query<ChunkRow, [string]>(
+        'SELECT id, block_id, seq, stream, content, timestamp FROM chunks WHERE block_id = ? ORDER BY seq'
+      )
+      .all(blockId)
+      .map((row) => ({
+        id: row.id,
+        blockId: row.block_id,
+        stream: row.stream === 'stderr' ? 'stderr' : 'stdout',
+        seq: row.seq,
+        content: row.content,
+        timestamp: row.timestamp
+      }));
+  }
+
+  saveBlock(record: PersistedBlock): void {
+    this.db
+      .query(
+        `INSERT OR REPLACE INTO blocks (id, session_name, started_at, compressed_at, data)
+         VALUES (?, ?, ?, ?, ?)`
+      )
+      .run(
+        record.block.id,
+        record.sessionName,
+        record.block.startedAt,
+        record.compressedAt ?? null,
+        JSON.stringify(record.block)
+      );
+  }
+
+  saveChunks(chunks: OutputChunk[]): void {
+    if (chunks.length === 0) {
+      return;
+    }
+    const insert = this.db.query(
+      `INSERT OR REPLACE INTO chunks (id, block_id, seq, stream, content, timestamp)
+       VALUES (?, ?, ?, ?, ?, ?)`
+    );
+    this.db.transaction((batch: OutputChunk[]) => {
+      for (const chunk of batch) {
+        insert.run(
+          chunk.id,
+          chunk.blockId,
+          chunk.seq,
+          chunk.stream,
+          chunk.content,
+          chunk.timestamp
+        );
+      }
+    })(chunks);
+  }
+
+  deleteBlock(blockId: string): void {
+    this.db.transaction(() => {
+      this.db.query('DELETE FROM chunks WHERE block_id = ?').run(blockId);
+      this.db.query('DELETE FROM blocks WHERE id = ?').run(blockId);
+    })();
+  }
+
+  deleteChunks(blockId: string): void {
+    this.db.query('DELETE FROM chunks WHERE block_id = ?').run(blockId);
+  }
+
+  clear(): void {
+    this.db.exec('DELETE FROM chunks; DELETE FROM blocks;');
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  /**
+   * Create tables on first use
+   */
+  private migrate(): void {
+    const row = this.db.query<{ user_version: number }, []>('PRAGMA user_version').get();
+    if ((row?.user_version ?? 0) >= SCHEMA_VERSION) {
+      return;
+    }
+
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS blocks (
+        id TEXT PRIMARY KEY,
+        session_name TEXT NOT NULL,
+        started_at TEXT NOT NULL,
+        compressed_at TEXT,
+        data TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_blocks_session ON blocks (session_name, started_at);
+      CREATE TABLE IF NOT EXISTS chunks (
+        id TEXT PRIMARY KEY,
+        block_id TEXT NOT NULL,
+        seq INTEGER NOT NULL,
+        stream TEXT NOT NULL,
+        content TEXT NOT NULL,
+        timestamp TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_chunks_block ON chunks (block_id, seq);
+      PRAGMA user_version = ${SCHEMA_VERSION};
+    `);
+  }
+}
@@ -372,6 +372,15 @@ describe('BlockStore', () => {
     });
   });
 
+  describe('getBlockSession', () => {
+    it('should return the session a block ran in', () => {
+      const block = store.createBlock('session1', 'echo 1');
+
+      expect(store.getBlockSession(block.id)).toBe('session1');
+      expect(store.getBlockSession('missing')).toBeUndefined();
+    });
+  });
+
   describe('getStats', () => {
     it('should return store statistics', () => {
       const block1 = store.createBlock('session1', 'echo 1');
@@ -6,6 +6,7 @@
  * - Sequence number management for streaming
  * - Retention policy (ring buffer, failed preservation, pinned)
  * - Automatic compression of old blocks
+ * - Optional write-through persistence (reloaded on startup)
  */
 
 import {
@@ -16,8 +17,12 @@ import {
   type RetentionPolicy
 } from '@/core/protocol/index.js';
 import type { ExecutorBlockStore } from '@/core/terminal/session-plugins.js';
+import { createLogger } from '@/utils/logger.js';
+import type { BlockPersistence } from './block-persistence.js';
 import { createRedactor, type OutputRedactor } from './output-redactor.js';
 
+const log = createLogger('block-store');
+
 /** Preview size in characters */
 const PREVIEW_SIZE = 500;
 
@@ -52,6 +57,7 @@ function generateCorrelationId(): string {
  * Block metadata stored separately from chunks
  */
 interface BlockMetadata {
+  sessionName: string;
   block: ExtendedBlock;
   chunkSeqs: number[]; // Sequence numbers of chunks belonging to this block
   compressedAt?: string; // If set, full output was removed
@@ -67,13 +73,20 @@ export class BlockStore implements ExecutorBlockStore {
   private globalSeq = 0;
   private readonly retentionPolicy: RetentionPolicy;
   private readonly redactor: OutputRedactor;
+  private readonly persistence: BlockPersistence | null;
 
   constructor(
     retentionPolicy: RetentionPolicy = DEFAULT_RETENTION_POLICY,
-    redactor?: OutputRedactor
+    redactor?: OutputRedactor,
+    persistence?: BlockPersistence
   ) {
     this.retentionPolicy = retentionPolicy;
     this.redactor = redactor ?? createRedactor();
+    this.persistence = persistence ?? null;
+
+    if (this.persistence) {
+      this.restore(this.persistence);
+    }
   }
 
   /**
@@ -112,11 +125,13 @@ export class BlockStore implements ExecutorBlockStore {
     };
 
     const metadata: BlockMetadata = {
+      sessionName,
       block,
       chunkSeqs: []
     };
 
     this.blocks.set(id, metadata);
+    this.persist(metadata);
 
     // Add to session index
     const sessionBlocks = this.blocksBySession.get(sessionName) ?? [];
@@ -143,6 +158,8 @@ export class BlockStore implements ExecutorBlockStore {
     if (status === 'running') {
       metadata.block.startedAt = new Date().toISOString();
     }
+
+    this.persist(metadata);
   }
 
   /**
@@ -173,6 +190,8 @@ export class BlockStore implements ExecutorBlockStore {
     } else {
       metadata.block.status = 'error';
     }
+
+    this.persist(metadata);
   }
 
   /**
@@ -212,6 +231,7 @@ export class BlockStore implements ExecutorBlockStore {
 
     // Skip chunk creation if truncated
     if (metadata.block.truncated) {
+      this.persist(metadata);
       return [];
     }
 
@@ -239,6 +259,7 @@ export class BlockStore implements ExecutorBlockStore {
       offset += CHUNK_SIZE;
     }
 
+    this.persist(metadata, chunks);
     return chunks;
   }
 
@@ -249,6 +270,13 @@ export class BlockStore implements ExecutorBlockStore {
     return this.blocks.get(blockId)?.block;
   }
 
+  /**
+   * Get the name of the session a block ran in
+   */
+  getBlockSession(blockId: string): string | undefined {
+    return this.blocks.get(blockId)?.sessionName;
+  }
+
   /**
    * Get all blocks for a session
    */
@@ -332,6 +360,7 @@ export class BlockStore implements ExecutorBlockStore {
     }
 
     metadata.block.pinned = true;
+    this.persist(metadata);
     return true;
   }
 
@@ -345,6 +374,7 @@ export class BlockStore implements ExecutorBlockStore {
     }
 
     metadata.block.pinned = false;
+    this.persist(metadata);
     return true;
   }
 
@@ -367,6 +397,7 @@ export class BlockStore implements ExecutorBlockStore {
 
     // Remove from blocks
     this.blocks.delete(blockId);
+    this.unpersist(blockId, 'block');
 
     // Remove from session index
     for (const [sessionName, blockIds] of this.blocksBySession) {
@@ -403,6 +434,9 @@ export class BlockStore implements ExecutorBlockStore {
     metadata.chunkSeqs = [];
     metadata.compressedAt = new Date().toISOString();
 
+    this.unpersist(blockId, 'chunks');
+    this.persist(metadata);
+
     return true;
   }
 
@@ -534,6 +568,7 @@ export class BlockStore implements ExecutorBlockStore {
       const metadata = this.blocks.get(oldest.id);
       if (metadata) {
         metadata.block.pinned = false;
+        this.persist(metadata);
       }
     }
   }
@@ -597,6 +632,109 @@ export class BlockStore implements ExecutorBlockStore {
     this.chunks.clear();
     this.blocksBySession.clear();
     this.globalSeq = 0;
+    try {
+      this.persistence?.clear();
+    } catch (error) {
+      log.warn(`Failed to clear persisted blocks: ${error}`);
+    }
+  }
+
+  /**
+   * Close the persistence backend (daemon shutdown)
+   */
+  close(): void {
+    this.persistence?.close();
+  }
+
+  /**
+   * Delete a block (or only its chunks) from persistence.
+   * Also runs on eviction inside appendOutput, so errors must not escape.
+   */
+  private unpersist(blockId: string, target: 'block' | 'chunks'): void {
+    if (!this.persistence) {
+      return;
+    }
+    try {
+      if (target === 'block') {
+        this.persistence.deleteBlock(blockId);
+      } else {
+        this.persistence.deleteChunks(blockId);
+      }
+    } catch (error) {
+      log.warn(`Failed to delete persisted ${target} of ${blockId}: ${error}`);
+    }
+  }
+
+  /**
+   * Write a block (and newly created chunks) through to persistence
+   */
+  private persist(metadata: BlockMetadata, chunks: OutputChunk[] = []): void {
+    if (!this.persistence) {
+      return;
+    }
+    try {
+      this.persistence.saveChunks(chunks);
+      this.persistence.saveBlock({
+        sessionName: metadata.sessionName,
+        block: metadata.block,
+        compressedAt: metadata.compressedAt
+      });
+    } catch (error) {
+      // Persistence is best-effort; the in-memory store stays authoritative
+      log.warn(`Failed to persist block ${metadata.block.id}: ${error}`);
+    }
+  }
+
+  /**
+   * Reload persisted blocks and chunks, then re-apply the retention policy.
+   * Blocks that were still queued/running when the daemon stopped can never
+   * complete, so they are marked as canceled.
+   */
+  private restore(persistence: BlockPersistence): void {
+    let records: ReturnType<BlockPersistence['loadBlocks']>;
+    try {
+      records = persistence.loadBlocks();
+    } catch (error) {
+      log.warn(`Failed to load persisted blocks: ${error}`);
+      return;
+    }
+
+    for (const record of records) {
+      const chunks = record.compressedAt ? [] : persistence.loadChunks(record.block.id);
+      const metadata: BlockMetadata = {
+        sessionName: record.sessionName,
+        block: record.block,
+        chunkSeqs: chunks.map((c) => c.seq),
+        compressedAt: record.compressedAt
+      };
+
+      for (const chunk of chunks) {
+        this.chunks.set(chunk.id, chunk);
+        this.globalSeq = Math.max(this.globalSeq, chunk.seq);
+      }
+      this.blocks.set(record.block.id, metadata);
+
+      const sessionBlocks = this.blocksBySession.get(record.sessionName) ?? [];
+      sessionBlocks.push(record.block.id);
+      this.blocksBySession.set(record.sessionName, sessionBlocks);
+
+      if (record.block.status === 'queued' || record.block.status === 'running') {
+        record.block.status = 'canceled';
+        record.block.errorType = 'canceled';
+        record.block.endedAt = new Date().toISOString();
+        this.persist(metadata);
+      }
+    }
+
+    for (const sessionName of [...this.blocksBySession.keys()]) {
+      this.applyRetention(sessionName);
+    }
+
+    if (records.length > 0) {
+      log.info(
+        `Restored ${this.blocks.size} blocks for ${this.blocksBySession.size} sessions from disk`
+      );
+    }
   }
 }
 
@@ -605,7 +743,8 @@ export class BlockStore implements ExecutorBlockStore {
  */
 export function createBlockStore(
   retentionPolicy?: RetentionPolicy,
-  redactor?: OutputRedactor
+  redactor?: OutputRedactor,
+  persistence?: BlockPersistence
 ): BlockStore {
-  return new BlockStore(retentionPolicy, redactor);
+  return new BlockStore(retentionPolicy, redactor, persistence);
 }
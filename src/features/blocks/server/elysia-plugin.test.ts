@@ -0,0 +1,113 @@
+/**
+ * Tests for the session ACL on block and workflow routes addressed by ID
+ */
+
+import { describe, expect, test } from 'bun:test';
+import { Elysia } from 'elysia';
+import type { ExtendedBlock, Workflow } from '@/core/protocol/index.js';
+import { AccessControl } from '@/core/server/auth/access-control.js';
+import {
+  createProxyAuthOptions,
+  DEFAULT_MOCK_CONFIG,
+  requestAsUser
+} from '@/core/server/elysia/test-helpers.js';
+import type { CommandExecutorManager } from '@/core/terminal/command-executor-manager.js';
+import { blocksPlugin } from './elysia-plugin.js';
+
+function createBlocksApp() {
+  const blocks = new Map<string, { sessionName: string; block: ExtendedBlock }>([
+    ['blk_prod', { sessionName: 'prod', block: makeBlock('blk_prod') }],
+    ['blk_dev', { sessionName: 'dev', block: makeBlock('blk_dev') }]
+  ]);
+  const workflow: Workflow = {
+    id: 'wf_prod',
+    sessionName: 'prod',
+    status: 'running',
+    steps: [],
+    variables: {},
+    startedAt: '2026-01-01T00:00:00Z'
+  };
+  const canceled: string[] = [];
+
+  const executor: Pick<
+    CommandExecutorManager,
+    'getBlock' | 'getBlockSession' | 'getBlockChunks' | 'getWorkflow' | 'cancelCommand'
+  > = {
+    getBlock: (id) => blocks.get(id)?.block,
+    getBlockSession: (id) => blocks.get(id)?.sessionName,
+    getBlockChunks: () => ({ chunks: [], hasMore: false }),
+    getWorkflow: (id) => (id === workflow.id ? workflow : undefined),
+    cancelCommand: (_sessionName, blockId) => {
+      canceled.push(blockId);
+      return { success: true, blockId };
+    }
+  };
+
+  const accessControl = new AccessControl({
+    defaultRole: 'operator',
+    sessionAcls: [{ session: 'prod', allow: [{ user: 'bob', permissions: ['view'] }] }]
+  });
+
+  const app = new Elysia()
+    .state('config', DEFAULT_MOCK_CONFIG)
+    .state('executorManager', executor as unknown as CommandExecutorManager)
+    .state('authOptions', createProxyAuthOptions())
+    .state('accessControl', accessControl)
+    .use(blocksPlugin);
+  return { app, canceled };
+}
+
+function makeBlock(id: string): ExtendedBlock {
+  return {
+    id,
+    command: 'echo hi',
+    mode: 'ephemeral',
+    submittedVia: 'api',
+    stdoutPreview: '',
+    stderrPreview: '',
+    stdoutBytes: 0,
+    stderrBytes: 0,
+    truncated: false,
+    status: 'running',
+    startedAt: '2026-01-01T00:00:00Z'
+  };
+}
+
+describe('blocks plugin session ACL', () => {
+  test('reports blocks of sessions the user cannot view as missing', async () => {
+    const { app } = createBlocksApp();
+
+    for (const path of ['/api/blocks/blk_prod', '/api/blocks/blk_prod/chunks']) {
+      const denied = await app.handle(requestAsUser('carol', path));
+      expect(denied.status).toBe(404);
+      expect((await denied.json()).error).toBe('BLOCK_NOT_FOUND');
+    }
+    expect((await app.handle(requestAsUser('carol', '/api/blocks/blk_dev'))).status).toBe(200);
+    expect((await app.handle(requestAsUser('bob', '/api/blocks/blk_prod'))).status).toBe(200);
+  });
+
+  test('reports workflows and their streams of hidden sessions as missing', async () => {
+    const { app } = createBlocksApp();
+
+    expect((await app.handle(requestAsUser('carol', '/api/workflows/wf_prod'))).status).toBe(404);
+    expect((await app.handle(requestAsUser('carol', '/api/blocks/wf_prod/stream'))).status).toBe(
+      404
+    );
+    expect((await app.handle(requestAsUser('bob', '/api/workflows/wf_prod'))).status).toBe(200);
+  });
+
+  test('cancels only with commands permission in the block session', async () => {
+    const { app, canceled } = createBlocksApp();
+
+    const viewOnly = await app.handle(requestAsUser('bob', '/api/blocks/blk_prod/cancel', 'POST'));
+    expect(viewOnly.status).toBe(403);
+    expect((await viewOnly.json()).error).toBe('FORBIDDEN');
+
+    const hidden = await app.handle(requestAsUser('carol', '/api/blocks/blk_prod/cancel', 'POST'));
+    expect(hidden.status).toBe(404);
+
+    const allowed = await app.handle(requestAsUser('carol', '/api/blocks/blk_dev/cancel', 'POST'));
+    expect(allowed.status).toBe(200);
+    expect(canceled).toEqual(['blk_dev']);
+  });
+});
@@ -1,14 +1,17 @@
 /**
  * Blocks API Routes (Elysia)
  *
- * Handles command block operations: execute, cancel, stream.
+ * Handles command block operations: execute, cancel, stream, workflows.
  * Replaces the old blocks-routes.ts with Elysia's TypeBox validation.
  */
 
 import { Elysia, t } from 'elysia';
-import type { CommandRequest } from '@/core/protocol/index.js';
+import type { SessionPermission } from '@/core/config/types.js';
+import type { CommandRequest, WorkflowRequest } from '@/core/protocol/index.js';
+import { summarizeCommand } from '@/core/server/auth/audit-logger.js';
 import { coreContext } from '@/core/server/elysia/context.js';
 import { ErrorResponseSchema } from '@/core/server/elysia/errors.js';
+import { authContextPlugin } from '@/core/server/elysia/middleware/auth.js';
 import type { CommandExecutorManager } from '@/core/terminal/command-executor-manager.js';
 import { createBlockSSEStream } from '@/features/blocks/server/block-event-emitter.js';
 
@@ -24,6 +27,26 @@ function requireExecutor(executorManager: CommandExecutorManager | null): Comman
   return executorManager;
 }
 
+/**
+ * Session of a block the user can view. Blocks of other sessions are
+ * reported as missing so their IDs are not confirmed.
+ */
+function viewableBlockSession(
+  executor: CommandExecutorManager,
+  blockId: string,
+  can: (sessionName: string, permission: SessionPermission) => boolean
+): string | undefined {
+  const sessionName = executor.getBlockSession(blockId);
+  return sessionName !== undefined && can(sessionName, 'view') ? sessionName : undefined;
+}
+
+function commandsForbidden(sessionName: string) {
+  return {
+    error: 'FORBIDDEN',
+    message: `No commands permission for session '${sessionName}'`
+  };
+}
+
 // === Response Schemas ===
 
 const BlockSchema = t.Object({
@@ -52,6 +75,44 @@ const PinResponseSchema = t.Object({
   blockId: t.String()
 });
 
+const ExecutionModeSchema = t.Union([t.Literal('ephemeral'), t.Literal('persistent')]);
+
+const WorkflowStepSchema = t.Object({
+  id: t.String({ minLength: 1 }),
+  command: t.String({ minLength: 1 }),
+  dependsOn: t.Optional(t.Array(t.String())),
+  continueOnError: t.Optional(t.Boolean()),
+  mode: t.Optional(ExecutionModeSchema),
+  cwd: t.Optional(t.String()),
+  env: t.Optional(t.Record(t.String(), t.String())),
+  timeoutMs: t.Optional(t.Number({ minimum: 0 })),
+  outputVar: t.Optional(t.String())
+});
+
+const WorkflowSchema = t.Object({
+  id: t.String(),
+  sessionName: t.String(),
+  status: t.String(),
+  steps: t.Array(
+    t.Object({
+      id: t.String(),
+      status: t.String(),
+      blockId: t.Optional(t.String()),
+      exitCode: t.Optional(t.Number())
+    })
+  ),
+  variables: t.Record(t.String(), t.String()),
+  startedAt: t.String(),
+  endedAt: t.Optional(t.String())
+});
+
+const WorkflowCancelResponseSchema = t.Object({
+  success: t.Boolean(),
+  workflowId: t.String()
+});
+
+const SignalSchema = t.Union([t.Literal('SIGTERM'), t.Literal('SIGINT'), t.Literal('SIGKILL')]);
+
 const IntegrationStatusSchema = t.Object({
   osc633: t.Boolean(),
   status: t.String(),
@@ -63,11 +124,12 @@ const IntegrationStatusSchema = t.Object({
 
 export const blocksPlugin = new Elysia({ prefix: '/api' })
   .use(coreContext)
+  .use(authContextPlugin)
 
   // POST /api/sessions/:name/commands - Execute a command in a session
   .post(
     '/sessions/:name/commands',
-    async ({ sessionManager, executorManager, params, body, set, error }) => {
+    async ({ sessionManager, executorManager, params, body, set, error, audit }) => {
       if (!sessionManager.hasSession(params.name)) {
         return error(404, {
           error: 'SESSION_NOT_FOUND',
@@ -76,6 +138,11 @@ export const blocksPlugin = new Elysia({ prefix: '/api' })
       }
 
       const executor = requireExecutor(executorManager);
+      audit({
+        type: 'command_execute',
+        sessionName: params.name,
+        details: summarizeCommand(body.command)
+      });
       const response = await executor.executeCommand(params.name, body as CommandRequest);
       set.status = 201;
       return response;
@@ -86,7 +153,7 @@ export const blocksPlugin = new Elysia({ prefix: '/api' })
         command: t.String({ minLength: 1 }),
         cwd: t.Optional(t.String()),
         env: t.Optional(t.Record(t.String(), t.String())),
-        mode: t.Optional(t.Union([t.Literal('ephemeral'), t.Literal('persistent')]))
+        mode: t.Optional(ExecutionModeSchema)
       }),
       response: {
         201: ExecuteResponseSchema,
@@ -95,6 +162,113 @@ export const blocksPlugin = new Elysia({ prefix: '/api' })
     }
   )
 
+  // POST /api/sessions/:name/workflows - Start a multi-step workflow in a session
+  .post(
+    '/sessions/:name/workflows',
+    ({ sessionManager, executorManager, params, body, set, audit }) => {
+      if (!sessionManager.hasSession(params.name)) {
+        set.status = 404;
+        return { error: 'SESSION_NOT_FOUND', message: `Session '${params.name}' not found` };
+      }
+
+      const executor = requireExecutor(executorManager);
+      const result = executor.startWorkflow(params.name, body as WorkflowRequest);
+      if (!result.ok) {
+        set.status = 400;
+        return { error: 'INVALID_WORKFLOW', message: result.error };
+      }
+      audit({
+        type: 'command_execute',
+        sessionName: params.name,
+        details: `workflow ${result.value.id}: ${summarizeCommand(
+          body.steps.map((step) => step.command).join('; ')
+        )}`
+      });
+      set.status = 201;
+      return result.value;
+    },
+    {
+      params: t.Object({ name: t.String() }),
+      body: t.Object({
+        steps: t.Array(WorkflowStepSchema, { minItems: 1 }),
+        mode: t.Optional(ExecutionModeSchema),
+        cwd: t.Optional(t.String()),
+        env: t.Optional(t.Record(t.String(), t.String())),
+        tags: t.Optional(t.Array(t.String()))
+      }),
+      response: {
+        201: WorkflowSchema,
+        400: ErrorResponseSchema,
+        404: ErrorResponseSchema
+      }
+    }
+  )
+
+  // GET /api/workflows/:workflowId - Get workflow state
+  .get(
+    '/workflows/:workflowId',
+    ({ executorManager, params, set, can }) => {
+      const executor = requireExecutor(executorManager);
+      const workflow = executor.getWorkflow(params.workflowId);
+
+      if (!workflow || !can(workflow.sessionName, 'view')) {
+        set.status = 404;
+        return {
+          error: 'WORKFLOW_NOT_FOUND',
+          message: `Workflow '${params.workflowId}' not found`
+        };
+      }
+
+      return workflow;
+    },
+    {
+      params: t.Object({ workflowId: t.String() }),
+      response: {
+        200: WorkflowSchema,
+        404: ErrorResponseSchema
+      }
+    }
+  )
+
+  // POST /api/workflows/:workflowId/cancel - Cancel a workflow and its running steps
+  .post(
+    '/workflows/:workflowId/cancel',
+    ({ executorManager, params, body, set, can }) => {
+      const executor = requireExecutor(executorManager);
+      const workflow = executor.getWorkflow(params.workflowId);
+      if (!workflow || !can(workflow.sessionName, 'view')) {
+        set.status = 404;
+        return {
+          error: 'WORKFLOW_NOT_FOUND',
+          message: `Workflow '${params.workflowId}' not found`
+        };
+      }
+      if (!can(workflow.sessionName, 'commands')) {
+        set.status = 403;
+        return commandsForbidden(workflow.sessionName);
+      }
+
+      if (!executor.cancelWorkflow(params.workflowId, body.signal ?? 'SIGTERM')) {
+        set.status = 400;
+        return { error: 'CANCEL_FAILED', message: 'Workflow has already finished' };
+      }
+
+      return { success: true, workflowId: params.workflowId };
+    },
+    {
+      params: t.Object({ workflowId: t.String() }),
+      body: t.Object({
+        signal: t.Optional(SignalSchema)
+      }),
+      response: {
+        200: WorkflowCancelResponseSchema,
+        400: ErrorResponseSchema,
+        403: ErrorResponseSchema,
+        404: ErrorResponseSchema
+      }
+    }
+  )
+
   // GET /api/sessions/:name/blocks - List blocks for a session
   .get(
     '/sessions/:name/blocks',
@@ -156,15 +330,18 @@ export const blocksPlugin = new Elysia({ prefix: '/api' })
   // GET /api/blocks/:blockId - Get a specific block
   .get(
     '/blocks/:blockId',
-    ({ executorManager, params, error }) => {
+    ({ executorManager, params, set, can }) => {
       const executor = requireExecutor(executorManager);
-      const block = executor.getBlock(params.blockId);
+      const block = viewableBlockSession(executor, params.blockId, can)
+        ? executor.getBlock(params.blockId)
+        : undefined;
 
       if (!block) {
-        return error(404, {
+        set.status = 404;
+        return {
           error: 'BLOCK_NOT_FOUND',
           message: `Block '${params.blockId}' not found`
-        });
+        };
       }
 
       return block;
@@ -181,32 +358,34 @@ export const blocksPlugin = new Elysia({ prefix: '/api' })
   // POST /api/blocks/:blockId/cancel - Cancel a running command
   .post(
     '/blocks/:blockId/cancel',
-    ({ sessionManager, executorManager, params, body, error }) => {
+    ({ executorManager, params, body, set, can }) => {
       const executor = requireExecutor(executorManager);
-      const block = executor.getBlock(params.blockId);
+      const sessionName = viewableBlockSession(executor, params.blockId, can);
 
-      if (!block) {
-        return error(404, {
+      if (!sessionName) {
+        set.status = 404;
+        return {
           error: 'BLOCK_NOT_FOUND',
           message: `Block '${params.blockId}' not found`
-        });
+        };
       }
-
-      const signal = body.signal ?? 'SIGTERM';
-      let response = null;
-      for (const session of sessionManager.listSessions()) {
-        const result = executor.cancelCommand(session.name, params.blockId, signal);
-        if (result.success) {
-          response = result;
-          break;
-        }
+      if (!can(sessionName, 'commands')) {
+        set.status = 403;
+        return commandsForbidden(sessionName);
       }
 
-      if (!response) {
-        return error(400, {
+      const response = executor.cancelCommand(
+        sessionName,
+        params.blockId,
+        body.signal ?? 'SIGTERM'
+      );
+
+      if (!response.success) {
+        set.status = 400;
+        return {
           error: 'CANCEL_FAILED',
           message: 'Block is not running or cannot be canceled'
-        });
+        };
       }
 
       return response;
@@ -214,13 +393,12 @@ export const blocksPlugin = new Elysia({ prefix: '/api' })
     {
       params: t.Object({ blockId: t.String() }),
       body: t.Object({
-        signal: t.Optional(
-          t.Union([t.Literal('SIGTERM'), t.Literal('SIGINT'), t.Literal('SIGKILL')])
-        )
+        signal: t.Optional(SignalSchema)
       }),
       response: {
         200: CancelResponseSchema,
         400: ErrorResponseSchema,
+        403: ErrorResponseSchema,
         404: ErrorResponseSchema
       }
     }
@@ -229,15 +407,18 @@ export const blocksPlugin = new Elysia({ prefix: '/api' })
   // POST /api/blocks/:blockId/pin - Pin a block
   .post(
     '/blocks/:blockId/pin',
-    ({ executorManager, params, error }) => {
+    ({ executorManager, params, set, can }) => {
       const executor = requireExecutor(executorManager);
-      const success = executor.pinBlock(params.blockId);
+      const success =
+        viewableBlockSession(executor, params.blockId, can) !== undefined &&
+        executor.pinBlock(params.blockId);
 
       if (!success) {
-        return error(404, {
+        set.status = 404;
+        return {
           error: 'BLOCK_NOT_FOUND',
           message: `Block '${params.blockId}' not found`
-        });
+        };
       }
 
       return { success: true, blockId: params.blockId };
@@ -254,15 +435,18 @@ export const blocksPlugin = new Elysia({ prefix: '/api' })
   // DELETE /api/blocks/:blockId/pin - Unpin a block
   .delete(
     '/blocks/:blockId/pin',
-    ({ executorManager, params, error }) => {
+    ({ executorManager, params, set, can }) => {
       const executor = requireExecutor(executorManager);
-      const success = executor.unpinBlock(params.blockId);
+      const success =
+        viewableBlockSession(executor, params.blockId, can) !== undefined &&
+        executor.unpinBlock(params.blockId);
 
       if (!success) {
-        return error(404, {
+        set.status = 404;
+        return {
           error: 'BLOCK_NOT_FOUND',
           message: `Block '${params.blockId}' not found`
-        });
+        };
       }
 
       return { success: true, blockId: params.blockId };
@@ -279,15 +463,15 @@ export const blocksPlugin = new Elysia({ prefix: '/api' })
   // GET /api/blocks/:blockId/chunks - Get output chunks for a block
   .get(
     '/blocks/:blockId/chunks',
-    ({ executorManager, params, query, error }) => {
+    ({ executorManager, params, query, set, can }) => {
       const executor = requireExecutor(executorManager);
-      const block = executor.getBlock(params.blockId);
 
-      if (!block) {
-        return error(404, {
+      if (!viewableBlockSession(executor, params.blockId, can)) {
+        set.status = 404;
+        return {
           error: 'BLOCK_NOT_FOUND',
           message: `Block '${params.blockId}' not found`
-        });
+        };
       }
 
       const parsedFromSeq = query.fromSeq ? Number.parseInt(query.fromSeq, 10) : NaN;
@@ -316,13 +500,16 @@ export const blocksPlugin = new Elysia({ prefix: '/api' })
   )
 
   // GET /api/blocks/:blockId/stream - SSE stream for block events
+  // (a workflow ID streams workflow state plus the events of all its steps)
   .get(
     '/blocks/:blockId/stream',
-    ({ executorManager, blockEventEmitter, params, request, set }) => {
+    ({ executorManager, blockEventEmitter, params, request, set, can }) => {
       const executor = requireExecutor(executorManager);
-      const block = executor.getBlock(params.blockId);
+      const sessionName =
+        executor.getBlockSession(params.blockId) ??
+        executor.getWorkflow(params.blockId)?.sessionName;
 
-      if (!block) {
+      if (!sessionName || !can(sessionName, 'view')) {
         set.status = 404;
         return { error: 'BLOCK_NOT_FOUND', message: `Block '${params.blockId}' not found` };
       }
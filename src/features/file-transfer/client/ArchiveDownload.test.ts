@@ -0,0 +1,48 @@
+/**
+ * ArchiveDownload Tests
+ */
+
+import { describe, expect, test } from 'bun:test';
+import { archiveUrl, checkArchive } from './ArchiveDownload.js';
+
+const options = { basePath: '/bunterm', sessionName: 'dev', paths: ['dist', 'logs/a.log'] };
+
+describe('archiveUrl', () => {
+  test('repeats path for each selected entry', () => {
+    const url = new URL(archiveUrl({ ...options, format: 'tar.gz' }), 'http://localhost');
+
+    expect(url.pathname).toBe('/bunterm/api/files/archive');
+    expect(url.searchParams.getAll('path')).toEqual(['dist', 'logs/a.log']);
+    expect(url.searchParams.get('format')).toBe('tar.gz');
+    expect(url.searchParams.has('check')).toBe(false);
+  });
+});
+
+describe('checkArchive', () => {
+  test('returns the summary from a check request', async () => {
+    let requested = '';
+    const summary = await checkArchive({
+      ...options,
+      fetch: (async (input: string) => {
+        requested = input;
+        return Response.json({ name: 'archive.zip', entries: 3, size: 42 });
+      }) as unknown as typeof fetch
+    });
+
+    expect(summary).toEqual({ name: 'archive.zip', entries: 3, size: 42 });
+    expect(requested).toContain('check=true');
+  });
+
+  test('throws the server message when the archive is refused', async () => {
+    const refused = checkArchive({
+      ...options,
+      fetch: (async () =>
+        Response.json(
+          { error: 'PAYLOAD_TOO_LARGE', message: 'Selection exceeds the 1024MB archive limit' },
+          { status: 413 }
+        )) as unknown as typeof fetch
+    });
+
+    await expect(refused).rejects.toThrow('Selection exceeds the 1024MB archive limit');
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * Archive Download
+ *
+ * Downloads a directory or multi-selection as zip / tar.gz through
+ * /api/files/archive. The archive is streamed, so it is not fetched into
+ * a Blob: the selection is first checked (check=true, which reports
+ * errors such as the size ceiling as JSON), then the real URL is handed
+ * to a plain link and the browser writes the stream straight to disk.
+ */
+
+export type ArchiveFormat = 'zip' | 'tar.gz';
+
+export interface ArchiveDownloadOptions {
+  basePath: string;
+  sessionName: string;
+  /** Paths relative to the session directory (or absolute inside it) */
+  paths: string[];
+  format?: ArchiveFormat;
+  /** Custom fetch (for testing) */
+  fetch?: typeof fetch;
+}
+
+export interface ArchiveSummary {
+  /** File name the browser will save */
+  name: string;
+  entries: number;
+  /** Total size of the files before compression */
+  size: number;
+}
+
+export function archiveUrl(options: ArchiveDownloadOptions, check = false): string {
+  const query = new URLSearchParams({
+    session: options.sessionName,
+    format: options.format ?? 'zip'
+  });
+  for (const path of options.paths) {
+    query.append('path', path);
+  }
+  if (check) {
+    query.set('check', 'true');
+  }
+  return `${options.basePath}/api/files/archive?${query.toString()}`;
+}
+
+/**
+ * Validate the selection without building the archive
+ *
+ * @throws Error with the server's message when the archive would be refused
+ */
+export async function checkArchive(options: ArchiveDownloadOptions): Promise<ArchiveSummary> {
+  const fetchFn = options.fetch ?? fetch.bind(globalThis);
+  const response = await fetchFn(archiveUrl(options, true));
+  const data = (await response.json().catch(() => ({}))) as Partial<ArchiveSummary> & {
+    error?: string;
+    message?: string;
+  };
+  if (!response.ok) {
+    throw new Error(data.message ?? data.error ?? `Request failed with status ${response.status}`);
+  }
+  return data as ArchiveSummary;
+}
+
+/**
+ * Check the selection, then start the streamed download
+ */
+export async function downloadArchive(options: ArchiveDownloadOptions): Promise<ArchiveSummary> {
+  const summary = await checkArchive(options);
+  const a = document.createElement('a');
+  a.href = archiveUrl(options);
+  a.download = summary.name;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  return summary;
+}
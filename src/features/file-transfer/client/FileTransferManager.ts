@@ -2,6 +2,7 @@
  * File Transfer Manager
  *
  * Manages file upload/download operations from the toolbar.
+ * Directories can be downloaded as zip archives from the file list.
  * Uses the file transfer API endpoints for secure file operations.
  */
 
@@ -16,6 +17,8 @@ import {
   isPreviewable as isPreviewableUtil
 } from '@/browser/shared/utils.js';
 import type { InputHandler } from '@/browser/toolbar/InputHandler.js';
+import { downloadArchive } from './ArchiveDownload.js';
+import { UploadQueue } from './UploadQueue.js';
 
 export interface FileInfo {
   name: string;
@@ -55,16 +58,18 @@ export interface PreviewSelection {
 export class FileTransferManager extends BaseModal {
   private config: TerminalUiConfig;
   private inputHandler: InputHandler | null = null;
+  private uploads: UploadQueue;
   private elements: FileTransferElements | null = null;
   private currentPath = '.';
   private sessionName = '';
   private previewMode = false;
   private previewCallback: ((selection: PreviewSelection) => void) | null = null;
 
-  constructor(config: TerminalUiConfig, inputHandler?: InputHandler) {
+  constructor(config: TerminalUiConfig, inputHandler?: InputHandler, uploads?: UploadQueue) {
     super({ backdropClose: true });
     this.config = config;
     this.inputHandler = inputHandler ?? null;
+    this.uploads = uploads ?? new UploadQueue(config);
     // Use sessionName from config if available (server-provided), otherwise extract from URL
     this.sessionName = config.sessionName || getSessionNameFromURL(config.base_path);
   }
@@ -451,6 +456,20 @@ export class FileTransferManager extends BaseModal {
       item.appendChild(spaBtn);
     }
 
+    // Download a directory as a zip archive
+    if (!this.previewMode && file.isDirectory && file.name !== '..') {
+      const archiveBtn = document.createElement('button');
+      archiveBtn.className = 'tui-file-archive-btn';
+      archiveBtn.textContent = '🗜';
+      archiveBtn.title = 'zipでダウンロード';
+      // biome-ignore lint: cleaned up via cleanupFns
+      archiveBtn.addEventListener('click', (e) => {
+        e.stopPropagation();
+        this.downloadDirectory(file.name);
+      });
+      item.appendChild(archiveBtn);
+    }
+
     // Click handler
     // biome-ignore lint: cleaned up via cleanupFns
     item.addEventListener('click', () => {
@@ -584,18 +603,37 @@ export class FileTransferManager extends BaseModal {
     }
   }
 
+  /**
+   * Download a directory as a zip archive (streamed by the browser)
+   */
+  private async downloadDirectory(dirName: string): Promise<void> {
+    const path = this.currentPath === '.' ? dirName : `${this.currentPath}/${dirName}`;
+    try {
+      await downloadArchive({
+        basePath: this.config.base_path,
+        sessionName: this.sessionName,
+        paths: [path]
+      });
+    } catch (error) {
+      alert(
+        `ダウンロードに失敗しました: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
   /**
    * Upload files and send their paths to terminal
    */
   private async uploadFiles(files: FileList): Promise<void> {
-    const uploadedPaths: string[] = [];
-
-    for (const file of files) {
-      const path = await this.uploadFile(file);
-      if (path) {
-        uploadedPaths.push(path);
-      }
-    }
+    // Uploads run through the queue (resumable, with progress); paths are
+    // sent once every file has finished or been cancelled
+    const dir = this.currentPath;
+    const results = await Promise.all(
+      Array.from(files, (file) =>
+        this.uploads.add(file, dir === '.' ? file.name : `${dir}/${file.name}`)
+      )
+    );
+    const uploadedPaths = results.filter((path): path is string => path !== null);
 
     // Send uploaded file paths to terminal
     if (uploadedPaths.length > 0 && this.inputHandler) {
@@ -609,37 +647,4 @@ export class FileTransferManager extends BaseModal {
       await this.loadFileList();
     }
   }
-
-  /**
-   * Upload a single file
-   * Returns the uploaded file path, or null on failure
-   */
-  private async uploadFile(file: File): Promise<string | null> {
-    const path = this.currentPath === '.' ? '' : this.currentPath;
-    const url = `${this.config.base_path}/api/files/upload?session=${encodeURIComponent(this.sessionName)}&path=${encodeURIComponent(path)}`;
-
-    try {
-      const formData = new FormData();
-      formData.append('file', file);
-
-      const response = await fetch(url, {
-        method: 'POST',
-        body: formData
-      });
-
-      if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.error || 'Upload failed');
-      }
-
-      // Parse response to get the uploaded file path
-      const result = (await response.json()) as { success: boolean; path: string };
-      return result.path;
-    } catch (error) {
-      alert(
-        `アップロードに失敗しました: ${error instanceof Error ? error.message : 'Unknown error'}`
-      );
-      return null;
-    }
-  }
 }
@@ -0,0 +1,805 @@
+/**
+ * File Tree Sidebar
+ *
+ * Collapsible tree of the session directory on the left of the terminal.
+ * Directories are loaded lazily through the files API and refreshed live
+ * from file-watcher messages while the sidebar is open.
+ *
+ * Features:
+ * - Click / Ctrl+click / Shift+click selection
+ * - Context menu: edit, download, zip / tar.gz archive of the selection,
+ *   rename, duplicate, move, delete, new folder
+ * - Drop files from the OS onto a folder to upload them there (resumable)
+ * - Drag tree entries onto a folder to move them
+ * - Responsive: hidden on mobile (< 768px)
+ */
+
+import { toolbarEvents } from '@/browser/shared/events.js';
+import type { Mountable, Scope } from '@/browser/shared/lifecycle.js';
+import type { TerminalUiConfig } from '@/browser/shared/types.js';
+import { bindClickScoped, getSessionNameFromURL } from '@/browser/shared/utils.js';
+import { FileEditor } from '@/browser/terminal/FileEditor.js';
+import type {
+  FileChangeEvent,
+  FileWatcherClient
+} from '@/features/file-watcher/client/FileWatcherClient.js';
+import { type ArchiveFormat, downloadArchive } from './ArchiveDownload.js';
+import type { FileInfo } from './FileTransferManager.js';
+import type { UploadQueue } from './UploadQueue.js';
+
+export interface FileTreeElements {
+  toggleBtn: HTMLButtonElement;
+  pane: HTMLElement;
+  list: HTMLElement;
+  newFolderBtn: HTMLButtonElement;
+  refreshBtn: HTMLButtonElement;
+  closeBtn: HTMLButtonElement;
+}
+
+interface TreeNode {
+  /** Path relative to the session directory ('.' for the root) */
+  path: string;
+  name: string;
+  isDirectory: boolean;
+  expanded: boolean;
+  /** Child paths, or null while not loaded */
+  children: string[] | null;
+}
+
+interface MenuItem {
+  label: string;
+  action: () => void | Promise<void>;
+  danger?: boolean;
+}
+
+const ROOT = '.';
+const STORAGE_VISIBLE_KEY = 'bunterm-file-tree-visible';
+/** MIME type used to tell internal drags apart from OS file drops */
+const DRAG_MIME = 'application/x-bunterm-paths';
+const REFRESH_DEBOUNCE_MS = 200;
+
+function parentOf(path: string): string {
+  const index = path.lastIndexOf('/');
+  return index === -1 ? ROOT : path.slice(0, index);
+}
+
+function joinPath(dir: string, name: string): string {
+  return dir === ROOT ? name : `${dir}/${name}`;
+}
+
+function baseName(path: string): string {
+  return path.slice(path.lastIndexOf('/') + 1);
+}
+
+export class FileTreeSidebar implements Mountable {
+  private config: TerminalUiConfig;
+  private watcher: FileWatcherClient;
+  private uploads: UploadQueue;
+  private sessionName: string;
+  private elements: FileTreeElements | null = null;
+  private nodes = new Map<string, TreeNode>();
+  private selection = new Set<string>();
+  /** Anchor for Shift+click range selection */
+  private anchor: string | null = null;
+  private menu: HTMLElement | null = null;
+  private editor: FileEditor | null = null;
+  private pendingRefresh = new Set<string>();
+  private refreshTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(config: TerminalUiConfig, watcher: FileWatcherClient, uploads: UploadQueue) {
+    this.config = config;
+    this.watcher = watcher;
+    this.uploads = uploads;
+    // Use sessionName from config if available (server-provided), otherwise extract from URL
+    this.sessionName = config.sessionName || getSessionNameFromURL(config.base_path);
+    this.nodes.set(ROOT, {
+      path: ROOT,
+      name: ROOT,
+      isDirectory: true,
+      expanded: true,
+      children: null
+    });
+  }
+
+  /**
+   * Bind DOM elements (stores reference only)
+   */
+  bindElements(elements: FileTreeElements): void {
+    this.elements = elements;
+  }
+
+  /**
+   * Mount event listeners to scope for automatic cleanup
+   */
+  mount(scope: Scope): void {
+    const { elements } = this;
+    if (!elements) {
+      return;
+    }
+
+    bindClickScoped(scope, elements.toggleBtn, () => this.toggle());
+    bindClickScoped(scope, elements.closeBtn, () => this.hide());
+    bindClickScoped(scope, elements.refreshBtn, () => this.reload());
+    bindClickScoped(scope, elements.newFolderBtn, () => this.createFolder(this.targetDir()));
+
+    const { list } = elements;
+    scope.on(list, 'click', (e) => this.onClick(e as MouseEvent));
+    scope.on(list, 'dblclick', (e) => this.onDoubleClick(e as MouseEvent));
+    scope.on(list, 'contextmenu', (e) => this.onContextMenu(e as MouseEvent));
+    scope.on(list, 'dragstart', (e) => this.onDragStart(e as DragEvent));
+    scope.on(list, 'dragover', (e) => this.onDragOver(e as DragEvent));
+    scope.on(list, 'dragleave', (e) => this.onDragLeave(e as DragEvent));
+    scope.on(list, 'drop', (e) => this.onDrop(e as DragEvent));
+
+    // Close the context menu on any outside click
+    scope.on(document, 'pointerdown', (e) => {
+      if (this.menu && !this.menu.contains(e.target as Node)) {
+        this.closeMenu();
+      }
+    });
+
+    scope.add(this.watcher.onFileChange((event) => this.onFileChange(event)));
+    scope.add(() => {
+      this.closeMenu();
+      this.editor?.dispose();
+      if (this.refreshTimer) {
+        clearTimeout(this.refreshTimer);
+      }
+    });
+
+    if (localStorage.getItem(STORAGE_VISIBLE_KEY) === 'true') {
+      this.show();
+    }
+  }
+
+  get isVisible(): boolean {
+    return this.elements ? !this.elements.pane.classList.contains('hidden') : false;
+  }
+
+  toggle(): void {
+    if (this.isVisible) {
+      this.hide();
+    } else {
+      this.show();
+    }
+  }
+
+  show(): void {
+    if (!this.elements) {
+      return;
+    }
+    this.elements.pane.classList.remove('hidden');
+    this.elements.toggleBtn.classList.add('active');
+    document.body.classList.add('file-tree-open');
+    localStorage.setItem(STORAGE_VISIBLE_KEY, 'true');
+    this.watcher.watchDir(this.sessionName, ROOT);
+    this.refitTerminal();
+    void this.reload();
+  }
+
+  hide(): void {
+    if (!this.elements) {
+      return;
+    }
+    this.closeMenu();
+    this.elements.pane.classList.add('hidden');
+    this.elements.toggleBtn.classList.remove('active');
+    document.body.classList.remove('file-tree-open');
+    localStorage.setItem(STORAGE_VISIBLE_KEY, 'false');
+    this.watcher.unwatchDir(this.sessionName, ROOT);
+    this.refitTerminal();
+  }
+
+  /**
+   * Reload every loaded directory, keeping expansion state
+   */
+  async reload(): Promise<void> {
+    const loaded = [...this.nodes.values()]
+      .filter((node) => node.isDirectory && (node.path === ROOT || node.children !== null))
+      .map((node) => node.path);
+    await Promise.all(loaded.map((path) => this.loadDir(path)));
+    this.render();
+  }
+
+  // === Loading ===
+
+  private async loadDir(path: string): Promise<void> {
+    const node = this.nodes.get(path);
+    if (!node) {
+      return;
+    }
+
+    let files: FileInfo[];
+    try {
+      ({ files } = await this.request<{ files: FileInfo[] }>('GET', 'files/list', { path }));
+    } catch (error) {
+      // A subdirectory that fails to list went away; drop it from the tree
+      if (path === ROOT) {
+        this.toast(error);
+      } else {
+        this.removeNode(path);
+      }
+      return;
+    }
+
+    files.sort((a, b) =>
+      a.isDirectory === b.isDirectory ? a.name.localeCompare(b.name) : a.isDirectory ? -1 : 1
+    );
+
+    const nextChildren = files.map((file) => joinPath(path, file.name));
+    for (const removed of node.children ?? []) {
+      if (!nextChildren.includes(removed)) {
+        this.removeNode(removed);
+      }
+    }
+    for (const file of files) {
+      const childPath = joinPath(path, file.name);
+      const existing = this.nodes.get(childPath);
+      if (!existing || existing.isDirectory !== file.isDirectory) {
+        this.removeNode(childPath);
+        this.nodes.set(childPath, {
+          path: childPath,
+          name: file.name,
+          isDirectory: file.isDirectory,
+          expanded: false,
+          children: null
+        });
+      }
+    }
+    node.children = nextChildren;
+  }
+
+  private removeNode(path: string): void {
+    const node = this.nodes.get(path);
+    if (!node) {
+      return;
+    }
+    for (const child of node.children ?? []) {
+      this.removeNode(child);
+    }
+    this.nodes.delete(path);
+    this.selection.delete(path);
+  }
+
+  private onFileChange(event: FileChangeEvent): void {
+    if (!this.isVisible) {
+      return;
+    }
+    // A change inside a loaded directory means its listing may differ
+    const dir = parentOf(event.path);
+    if (this.nodes.get(dir)?.children == null) {
+      return;
+    }
+    this.pendingRefresh.add(dir);
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+    }
+    this.refreshTimer = setTimeout(() => {
+      this.refreshTimer = null;
+      const dirs = [...this.pendingRefresh];
+      this.pendingRefresh.clear();
+      void Promise.all(dirs.map((path) => this.loadDir(path))).then(() => this.render());
+    }, REFRESH_DEBOUNCE_MS);
+  }
+
+  // === Rendering ===
+
+  /** Paths in display order */
+  private visiblePaths(): string[] {
+    const paths: string[] = [];
+    const walk = (dir: TreeNode) => {
+      for (const childPath of dir.children ?? []) {
+        const child = this.nodes.get(childPath);
+        if (!child) {
+          continue;
+        }
+        paths.push(child.path);
+        if (child.isDirectory && child.expanded) {
+          walk(child);
+        }
+      }
+    };
+    const root = this.nodes.get(ROOT);
+    if (root) {
+      walk(root);
+    }
+    return paths;
+  }
+
+  private render(): void {
+    if (!this.elements) {
+      return;
+    }
+    const { list } = this.elements;
+    list.replaceChildren();
+
+    const paths = this.visiblePaths();
+    if (paths.length === 0) {
+      const empty = document.createElement('div');
+      empty.className = 'file-tree-empty';
+      empty.textContent = '(空のディレクトリ)';
+      list.appendChild(empty);
+      return;
+    }
+
+    for (const path of paths) {
+      const node = this.nodes.get(path);
+      if (node) {
+        list.appendChild(this.renderRow(node));
+      }
+    }
+  }
+
+  private renderRow(node: TreeNode): HTMLElement {
+    const row = document.createElement('div');
+    row.className = 'file-tree-row';
+    row.classList.toggle('selected', this.selection.has(node.path));
+    row.classList.toggle('directory', node.isDirectory);
+    row.dataset['path'] = node.path;
+    row.draggable = true;
+    row.title = node.path;
+    const depth = node.path.split('/').length - 1;
+    row.style.paddingLeft = `${8 + depth * 14}px`;
+
+    const twisty = document.createElement('span');
+    twisty.className = 'file-tree-twisty';
+    twisty.textContent = node.isDirectory ? (node.expanded ? '▾' : '▸') : '';
+
+    const icon = document.createElement('span');
+    icon.className = 'file-tree-icon';
+    icon.textContent = node.isDirectory ? (node.expanded ? '📂' : '📁') : '📄';
+
+    const name = document.createElement('span');
+    name.className = 'file-tree-name';
+    name.textContent = node.name;
+
+    row.append(twisty, icon, name);
+    return row;
+  }
+
+  private rowFromEvent(e: Event): HTMLElement | null {
+    return (e.target as HTMLElement).closest<HTMLElement>('.file-tree-row');
+  }
+
+  // === Selection and expansion ===
+
+  private onClick(e: MouseEvent): void {
+    const row = this.rowFromEvent(e);
+    if (!row) {
+      this.selection.clear();
+      this.render();
+      return;
+    }
+    const path = row.dataset['path'] as string;
+
+    if (e.shiftKey && this.anchor) {
+      this.selectRange(this.anchor, path, e.ctrlKey || e.metaKey);
+    } else if (e.ctrlKey || e.metaKey) {
+      if (!this.selection.delete(path)) {
+        this.selection.add(path);
+      }
+      this.anchor = path;
+    } else {
+      this.selection.clear();
+      this.selection.add(path);
+      this.anchor = path;
+      const node = this.nodes.get(path);
+      if (node?.isDirectory) {
+        void this.setExpanded(node, !node.expanded);
+        return;
+      }
+    }
+    this.render();
+  }
+
+  /**
+   * Select the visible rows between two paths (inclusive)
+   */
+  private selectRange(from: string, to: string, additive: boolean): void {
+    const paths = this.visiblePaths();
+    const start = paths.indexOf(from);
+    const end = paths.indexOf(to);
+    if (start === -1 || end === -1) {
+      return;
+    }
+    if (!additive) {
+      this.selection.clear();
+    }
+    for (const path of paths.slice(Math.min(start, end), Math.max(start, end) + 1)) {
+      this.selection.add(path);
+    }
+  }
+
+  private onDoubleClick(e: MouseEvent): void {
+    const path = this.rowFromEvent(e)?.dataset['path'];
+    const node = path ? this.nodes.get(path) : undefined;
+    if (node && !node.isDirectory) {
+      void this.openEditor(node.path);
+    }
+  }
+
+  private async setExpanded(node: TreeNode, expanded: boolean): Promise<void> {
+    node.expanded = expanded;
+    if (expanded && node.children === null) {
+      await this.loadDir(node.path);
+    }
+    this.render();
+  }
+
+  /** Directory new entries go into: the selected directory, or the parent of the selected file */
+  private targetDir(): string {
+    if (this.selection.size !== 1) {
+      return ROOT;
+    }
+    const [path] = this.selection as Set<string>;
+    const node = path ? this.nodes.get(path) : undefined;
+    if (!node) {
+      return ROOT;
+    }
+    return node.isDirectory ? node.path : parentOf(node.path);
+  }
+
+  // === Context menu ===
+
+  private onContextMenu(e: MouseEvent): void {
+    e.preventDefault();
+    const row = this.rowFromEvent(e);
+    const path = row?.dataset['path'];
+    if (path && !this.selection.has(path)) {
+      this.selection.clear();
+      this.selection.add(path);
+      this.anchor = path;
+      this.render();
+    }
+    if (!path) {
+      this.selection.clear();
+      this.render();
+    }
+    this.openMenu(e.clientX, e.clientY, this.menuItems());
+  }
+
+  private menuItems(): MenuItem[] {
+    const selected = [...this.selection];
+    const items: MenuItem[] = [];
+    const single = selected.length === 1 ? this.nodes.get(selected[0] as string) : undefined;
+
+    if (single && !single.isDirectory) {
+      items.push({ label: '✏️ 編集', action: () => this.openEditor(single.path) });
+      items.push({ label: '📥 ダウンロード', action: () => this.download(single.path) });
+    }
+    if (single) {
+      items.push({ label: '名前を変更', action: () => this.rename(single.path) });
+      items.push({ label: '複製', action: () => this.duplicate(single.path) });
+    }
+    if (selected.length > 0) {
+      items.push({ label: '🗜 zipでダウンロード', action: () => this.archive(selected, 'zip') });
+      items.push({
+        label: '🗜 tar.gzでダウンロード',
+        action: () => this.archive(selected, 'tar.gz')
+      });
+      items.push({ label: '移動...', action: () => this.promptMove(selected) });
+      items.push({ label: 'パスをコピー', action: () => this.copyPaths(selected) });
+    }
+    items.push({ label: '📁 新しいフォルダ', action: () => this.createFolder(this.targetDir()) });
+    if (selected.length > 0) {
+      items.push({ label: '🗑 削除', action: () => this.deletePaths(selected), danger: true });
+    }
+    return items;
+  }
+
+  private openMenu(x: number, y: number, items: MenuItem[]): void {
+    this.closeMenu();
+    const menu = document.createElement('div');
+    menu.className = 'file-tree-menu';
+    for (const item of items) {
+      const button = document.createElement('button');
+      button.type = 'button';
+      button.textContent = item.label;
+      button.classList.toggle('danger', item.danger === true);
+      button.onclick = () => {
+        this.closeMenu();
+        void item.action();
+      };
+      menu.appendChild(button);
+    }
+    menu.onkeydown = (e) => {
+      if (e.key === 'Escape') {
+        this.closeMenu();
+      }
+    };
+    document.body.appendChild(menu);
+
+    // Keep the menu inside the viewport
+    const rect = menu.getBoundingClientRect();
+    menu.style.left = `${Math.min(x, window.innerWidth - rect.width - 4)}px`;
+    menu.style.top = `${Math.min(y, window.innerHeight - rect.height - 4)}px`;
+    menu.querySelector('button')?.focus();
+    this.menu = menu;
+  }
+
+  private closeMenu(): void {
+    this.menu?.remove();
+    this.menu = null;
+  }
+
+  // === Drag and drop ===
+
+  private onDragStart(e: DragEvent): void {
+    const path = this.rowFromEvent(e)?.dataset['path'];
+    if (!path || !e.dataTransfer) {
+      return;
+    }
+    if (!this.selection.has(path)) {
+      this.selection.clear();
+      this.selection.add(path);
+      this.render();
+    }
+    e.dataTransfer.setData(DRAG_MIME, JSON.stringify([...this.selection]));
+    e.dataTransfer.effectAllowed = 'move';
+  }
+
+  /** Folder a drop at this event would land in */
+  private dropDir(e: DragEvent): string {
+    const path = this.rowFromEvent(e)?.dataset['path'];
+    const node = path ? this.nodes.get(path) : undefined;
+    if (!node) {
+      return ROOT;
+    }
+    return node.isDirectory ? node.path : parentOf(node.path);
+  }
+
+  private onDragOver(e: DragEvent): void {
+    const types = e.dataTransfer?.types ?? [];
+    if (!types.includes('Files') && !types.includes(DRAG_MIME)) {
+      return;
+    }
+    // Keep the terminal's image drop zone out of this
+    e.preventDefault();
+    e.stopPropagation();
+    if (e.dataTransfer) {
+      e.dataTransfer.dropEffect = types.includes('Files') ? 'copy' : 'move';
+    }
+    this.highlightDrop(this.dropDir(e));
+  }
+
+  private onDragLeave(e: DragEvent): void {
+    if (!this.elements?.list.contains(e.relatedTarget as Node | null)) {
+      this.highlightDrop(null);
+    }
+  }
+
+  private highlightDrop(dir: string | null): void {
+    if (!this.elements) {
+      return;
+    }
+    this.elements.list.classList.toggle('drop-root', dir === ROOT);
+    for (const row of this.elements.list.querySelectorAll<HTMLElement>('.file-tree-row')) {
+      row.classList.toggle('drop-target', row.dataset['path'] === dir);
+    }
+  }
+
+  private async onDrop(e: DragEvent): Promise<void> {
+    const { dataTransfer } = e;
+    if (!dataTransfer) {
+      return;
+    }
+    e.preventDefault();
+    e.stopPropagation();
+    const dir = this.dropDir(e);
+    this.highlightDrop(null);
+
+    const internal = dataTransfer.getData(DRAG_MIME);
+    if (internal) {
+      await this.moveInto(JSON.parse(internal) as string[], dir);
+    } else if (dataTransfer.files.length > 0) {
+      await this.upload(dataTransfer.files, dir);
+    }
+  }
+
+  // === Operations ===
+
+  private async upload(files: FileList, dir: string): Promise<void> {
+    const results = await Promise.all(
+      Array.from(files, (file) => this.uploads.add(file, joinPath(dir, file.name)))
+    );
+    if (results.some((path) => path !== null)) {
+      await this.refreshDir(dir);
+    }
+  }
+
+  private async createFolder(dir: string): Promise<void> {
+    const name = window.prompt('新しいフォルダ名');
+    if (!name) {
+      return;
+    }
+    try {
+      await this.request('POST', 'files/mkdir', { path: joinPath(dir, name) });
+      const node = this.nodes.get(dir);
+      if (node && !node.expanded) {
+        node.expanded = true;
+      }
+      await this.refreshDir(dir);
+    } catch (error) {
+      this.toast(error);
+    }
+  }
+
+  private async rename(path: string): Promise<void> {
+    const name = window.prompt('新しい名前', baseName(path));
+    if (!name || name === baseName(path)) {
+      return;
+    }
+    try {
+      await this.request('POST', 'files/rename', { path }, { name });
+      this.selection.clear();
+      await this.refreshDir(parentOf(path));
+    } catch (error) {
+      this.toast(error);
+    }
+  }
+
+  private async duplicate(path: string): Promise<void> {
+    const name = baseName(path);
+    const dot = name.lastIndexOf('.');
+    const copyName = dot > 0 ? `${name.slice(0, dot)} copy${name.slice(dot)}` : `${name} copy`;
+    try {
+      await this.request(
+        'POST',
+        'files/copy',
+        {},
+        { from: path, to: joinPath(parentOf(path), copyName) }
+      );
+      await this.refreshDir(parentOf(path));
+    } catch (error) {
+      this.toast(error);
+    }
+  }
+
+  private async promptMove(paths: string[]): Promise<void> {
+    const dir = window.prompt(
+      '移動先のフォルダ (セッションディレクトリからの相対パス)',
+      this.targetDir()
+    );
+    if (dir === null) {
+      return;
+    }
+    await this.moveInto(paths, dir.replace(/^\.?\/+|\/+$/g, '') || ROOT);
+  }
+
+  private async moveInto(paths: string[], dir: string): Promise<void> {
+    const affected = new Set<string>([dir]);
+    for (const path of paths) {
+      if (parentOf(path) === dir) {
+        continue;
+      }
+      try {
+        await this.request(
+          'POST',
+          'files/move',
+          {},
+          { from: path, to: joinPath(dir, baseName(path)) }
+        );
+        affected.add(parentOf(path));
+      } catch (error) {
+        this.toast(error, path);
+      }
+    }
+    this.selection.clear();
+    await Promise.all([...affected].map((path) => this.loadDir(path)));
+    this.render();
+  }
+
+  private async deletePaths(paths: string[]): Promise<void> {
+    const label = paths.length === 1 ? `「${paths[0]}」` : `${paths.length} 件の項目`;
+    if (!window.confirm(`${label}をゴミ箱に移動しますか？`)) {
+      return;
+    }
+    const affected = new Set<string>();
+    for (const path of paths) {
+      try {
+        await this.request('DELETE', 'files', { path });
+        affected.add(parentOf(path));
+      } catch (error) {
+        this.toast(error, path);
+      }
+    }
+    this.selection.clear();
+    await Promise.all([...affected].map((path) => this.loadDir(path)));
+    this.render();
+  }
+
+  private download(path: string): void {
+    const params = new URLSearchParams({ session: this.sessionName, path });
+    const a = document.createElement('a');
+    a.href = `${this.config.base_path}/api/files/download?${params.toString()}`;
+    a.download = baseName(path);
+    a.click();
+  }
+
+  private async archive(paths: string[], format: ArchiveFormat): Promise<void> {
+    try {
+      await downloadArchive({
+        basePath: this.config.base_path,
+        sessionName: this.sessionName,
+        paths,
+        format
+      });
+    } catch (error) {
+      this.toast(error, 'アーカイブを作成できません');
+    }
+  }
+
+  private async copyPaths(paths: string[]): Promise<void> {
+    try {
+      await navigator.clipboard.writeText(paths.join('\n'));
+      this.notify('パスをコピーしました');
+    } catch (error) {
+      this.toast(error);
+    }
+  }
+
+  private async openEditor(path: string): Promise<void> {
+    if (!this.editor) {
+      this.editor = new FileEditor({
+        sessionName: this.sessionName,
+        basePath: this.config.base_path
+      });
+    }
+    try {
+      await this.editor.open(path);
+    } catch (error) {
+      this.toast(error, 'Cannot edit');
+    }
+  }
+
+  private async refreshDir(dir: string): Promise<void> {
+    await this.loadDir(dir);
+    this.render();
+  }
+
+  // === Helpers ===
+
+  /**
+   * Call the files API, throwing the server's message on failure
+   */
+  private async request<T = unknown>(
+    method: string,
+    route: string,
+    params: Record<string, string>,
+    body?: Record<string, unknown>
+  ): Promise<T> {
+    const query = new URLSearchParams({ session: this.sessionName, ...params });
+    const init: RequestInit = { method };
+    if (body !== undefined) {
+      init.body = JSON.stringify(body);
+      init.headers = { 'Content-Type': 'application/json' };
+    }
+    const response = await fetch(`${this.config.base_path}/api/${route}?${query.toString()}`, init);
+    const data = (await response.json().catch(() => ({}))) as {
+      error?: string;
+      message?: string;
+    };
+    if (!response.ok) {
+      throw new Error(
+        data.message ?? data.error ?? `Request failed with status ${response.status}`
+      );
+    }
+    return data as T;
+  }
+
+  private toast(error: unknown, context?: string): void {
+    const message = error instanceof Error ? error.message : String(error);
+    toolbarEvents.emit('toast:show', {
+      message: context ? `${context}: ${message}` : message,
+      type: 'error'
+    });
+  }
+
+  private notify(message: string): void {
+    toolbarEvents.emit('toast:show', { message, type: 'success' });
+  }
+
+  private refitTerminal(): void {
+    setTimeout(() => window.fitAddon?.fit(), 50);
+  }
+}
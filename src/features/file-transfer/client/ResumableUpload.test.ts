@@ -0,0 +1,257 @@
+/**
+ * ResumableUpload Tests
+ *
+ * Runs the client against an in-memory fake of the upload endpoints.
+ */
+
+import { beforeEach, describe, expect, test } from 'bun:test';
+import { ResumableUpload, type ResumableUploadOptions } from './ResumableUpload.js';
+
+interface FakeUpload {
+  length: number;
+  data: Uint8Array;
+}
+
+/**
+ * In-memory upload server with hooks to break requests
+ */
+function createFakeServer() {
+  const uploads = new Map<string, FakeUpload>();
+  const requests: string[] = [];
+  let nextId = 1;
+  /** Fail this many PATCH requests after storing the chunk (lost response) */
+  let dropResponses = 0;
+  let beforePatch: (() => void) | null = null;
+
+  const fetchFn = (async (input: string | URL | Request, init?: RequestInit) => {
+    const url = new URL(String(input), 'http://localhost');
+    const method = init?.method ?? 'GET';
+    requests.push(`${method} ${url.pathname}`);
+    const id = url.pathname.split('/').pop() as string;
+
+    if (method === 'POST') {
+      const length = Number(new Headers(init?.headers).get('upload-length'));
+      const newId = `u${nextId++}`;
+      uploads.set(newId, { length, data: new Uint8Array(0) });
+      return Response.json({ id: newId, offset: 0, length }, { status: 201 });
+    }
+
+    const upload = uploads.get(id);
+    if (!upload) {
+      return Response.json({ error: 'NOT_FOUND', message: 'Upload not found' }, { status: 404 });
+    }
+    const offsetHeaders = { 'upload-offset': String(upload.data.byteLength) };
+
+    if (method === 'HEAD') {
+      return new Response(null, {
+        headers: { ...offsetHeaders, 'upload-length': String(upload.length) }
+      });
+    }
+    if (method === 'DELETE') {
+      uploads.delete(id);
+      return Response.json({ success: true });
+    }
+
+    // PATCH
+    beforePatch?.();
+    if (init?.signal?.aborted) {
+      throw new DOMException('Aborted', 'AbortError');
+    }
+    const offset = Number(new Headers(init?.headers).get('upload-offset'));
+    if (offset !== upload.data.byteLength) {
+      return Response.json(
+        { error: 'OFFSET_MISMATCH', offset: upload.data.byteLength },
+        { status: 409, headers: offsetHeaders }
+      );
+    }
+    const chunk = new Uint8Array(await new Response(init?.body as BodyInit).arrayBuffer());
+    const data = new Uint8Array(upload.data.byteLength + chunk.byteLength);
+    data.set(upload.data);
+    data.set(chunk, upload.data.byteLength);
+    upload.data = data;
+
+    if (dropResponses > 0) {
+      dropResponses--;
+      throw new TypeError('Network connection lost');
+    }
+    return Response.json(
+      { offset: data.byteLength, complete: data.byteLength === upload.length },
+      { headers: { 'upload-offset': String(data.byteLength) } }
+    );
+  }) as typeof fetch;
+
+  return {
+    fetch: fetchFn,
+    uploads,
+    requests,
+    dropNextResponses: (count: number) => {
+      dropResponses = count;
+    },
+    onPatch: (hook: (() => void) | null) => {
+      beforePatch = hook;
+    },
+    text: (id: string) => new TextDecoder().decode(uploads.get(id)?.data)
+  };
+}
+
+function createMemoryStorage() {
+  const items = new Map<string, string>();
+  return {
+    items,
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => {
+      items.set(key, value);
+    },
+    removeItem: (key: string) => {
+      items.delete(key);
+    }
+  };
+}
+
+const CONTENT = 'abcdefghij';
+
+describe('ResumableUpload', () => {
+  let server: ReturnType<typeof createFakeServer>;
+  let storage: ReturnType<typeof createMemoryStorage>;
+
+  const createUpload = (overrides: Partial<ResumableUploadOptions> = {}) =>
+    new ResumableUpload({
+      basePath: '/bunterm',
+      sessionName: 'dev',
+      file: new File([CONTENT], 'a.txt', { lastModified: 1 }),
+      path: 'a.txt',
+      chunkSize: 4,
+      retryDelayMs: 0,
+      fetch: server.fetch,
+      storage,
+      ...overrides
+    });
+
+  beforeEach(() => {
+    server = createFakeServer();
+    storage = createMemoryStorage();
+  });
+
+  test('sends the file in chunks and reports progress', async () => {
+    const progress: number[] = [];
+    const upload = createUpload({ onProgress: (offset) => progress.push(offset) });
+
+    expect(await upload.start()).toBe(true);
+
+    expect(upload.state).toBe('done');
+    expect(server.text('u1')).toBe(CONTENT);
+    expect(progress).toEqual([4, 8, 10]);
+    expect(server.requests[0]).toBe('POST /bunterm/api/files/uploads');
+    expect(storage.items.size).toBe(0);
+  });
+
+  test('continues from the server offset when a response is lost', async () => {
+    const upload = createUpload();
+    server.dropNextResponses(1);
+
+    expect(await upload.start()).toBe(true);
+
+    // The retried chunk is answered with 409 + offset instead of being written twice
+    expect(server.text('u1')).toBe(CONTENT);
+  });
+
+  test('fails after the retries run out and resumes on the next start', async () => {
+    const upload = createUpload({ maxRetries: 1 });
+    let patches = 0;
+    server.onPatch(() => {
+      patches++;
+      if (patches >= 2) {
+        throw new TypeError('offline');
+      }
+    });
+
+    expect(await upload.start()).toBe(false);
+    expect(upload.state).toBe('error');
+    expect(upload.error).toBe('offline');
+    expect(upload.offset).toBe(4);
+
+    server.onPatch(null);
+    expect(await upload.start()).toBe(true);
+    expect(server.text('u1')).toBe(CONTENT);
+    expect(server.requests).toContain('HEAD /bunterm/api/files/uploads/u1');
+  });
+
+  test('pause stops between chunks and start resumes', async () => {
+    const upload = createUpload();
+    server.onPatch(() => {
+      if (upload.offset === 4) {
+        upload.pause();
+      }
+    });
+
+    expect(await upload.start()).toBe(false);
+    expect(upload.state).toBe('paused');
+    expect(server.text('u1')).toBe('abcd');
+
+    server.onPatch(null);
+    expect(await upload.start()).toBe(true);
+    expect(server.text('u1')).toBe(CONTENT);
+  });
+
+  test('picks up a remembered upload for the same file', async () => {
+    const first = createUpload();
+    server.onPatch(() => {
+      if (first.offset === 4) {
+        first.pause();
+      }
+    });
+    await first.start();
+    server.onPatch(null);
+
+    // e.g. after a page reload
+    const second = createUpload();
+    expect(await second.start()).toBe(true);
+
+    expect(server.uploads.size).toBe(1);
+    expect(server.text('u1')).toBe(CONTENT);
+  });
+
+  test('starts over when the server no longer knows the upload', async () => {
+    const first = createUpload();
+    server.onPatch(() => {
+      if (first.offset === 4) {
+        first.pause();
+      }
+    });
+    await first.start();
+    server.onPatch(null);
+    server.uploads.delete('u1'); // expired
+
+    expect(await first.start()).toBe(true);
+    expect(server.text('u2')).toBe(CONTENT);
+  });
+
+  test('does not retry a rejected upload', async () => {
+    const upload = createUpload({
+      fetch: (async () =>
+        Response.json(
+          { error: 'EXTENSION_NOT_ALLOWED', message: 'Extension not allowed: .txt' },
+          { status: 403 }
+        )) as unknown as typeof fetch
+    });
+
+    expect(await upload.start()).toBe(false);
+    expect(upload.error).toBe('Extension not allowed: .txt');
+  });
+
+  test('cancel deletes the partial upload', async () => {
+    const upload = createUpload();
+    server.onPatch(() => {
+      if (upload.offset === 4) {
+        upload.pause();
+      }
+    });
+    await upload.start();
+
+    await upload.cancel();
+
+    expect(upload.state).toBe('cancelled');
+    expect(server.uploads.size).toBe(0);
+    expect(storage.items.size).toBe(0);
+  });
+});
@@ -0,0 +1,284 @@
+/**
+ * Resumable Upload
+ *
+ * Client side of the tus-style upload protocol (/api/files/uploads).
+ * A file is sent in chunks; each chunk is PATCHed at the offset the
+ * server last confirmed, so a dropped connection costs at most one chunk.
+ * Network failures are retried with backoff before the upload is marked
+ * as failed; pause aborts the chunk in flight and resume asks the server
+ * (HEAD) where to continue. The upload URL is remembered in localStorage
+ * so selecting the same file again after a reload resumes it too.
+ */
+
+export type UploadState = 'pending' | 'uploading' | 'paused' | 'error' | 'done' | 'cancelled';
+
+export interface ResumableUploadOptions {
+  basePath: string;
+  sessionName: string;
+  file: Blob & { name?: string; lastModified?: number };
+  /** Destination relative to the session directory */
+  path: string;
+  chunkSize?: number;
+  /** Automatic retries per chunk before giving up */
+  maxRetries?: number;
+  /** Base delay for the retry backoff */
+  retryDelayMs?: number;
+  /** Custom fetch (for testing) */
+  fetch?: typeof fetch;
+  /** Storage for upload URLs (default: localStorage when available) */
+  storage?: Pick<Storage, 'getItem' | 'setItem' | 'removeItem'> | null;
+  onProgress?: (offset: number, total: number) => void;
+  onStateChange?: (state: UploadState, error?: string) => void;
+}
+
+const DEFAULT_CHUNK_SIZE = 1024 * 1024; // 1MB
+const DEFAULT_MAX_RETRIES = 3;
+const DEFAULT_RETRY_DELAY_MS = 1000;
+const STORAGE_PREFIX = 'bunterm-upload:';
+const CHUNK_CONTENT_TYPE = 'application/offset+octet-stream';
+
+/** Server refused the upload; retrying the same request will not help */
+class UploadRejectedError extends Error {
+  constructor(
+    message: string,
+    readonly status: number
+  ) {
+    super(message);
+    this.name = 'UploadRejectedError';
+  }
+}
+
+/** Upload-Offset header as a number, or null if missing or malformed */
+function readOffset(response: Response): number | null {
+  const header = response.headers.get('upload-offset');
+  return header !== null && /^\d+$/.test(header) ? Number(header) : null;
+}
+
+async function errorMessage(response: Response): Promise<string> {
+  try {
+    const data = (await response.json()) as { message?: string; error?: string };
+    return data.message ?? data.error ?? `HTTP ${response.status}`;
+  } catch {
+    return `HTTP ${response.status}`;
+  }
+}
+
+export class ResumableUpload {
+  readonly path: string;
+  readonly total: number;
+  private options: ResumableUploadOptions;
+  private fetchFn: typeof fetch;
+  private storage: ResumableUploadOptions['storage'];
+  private uploadUrl: string | null = null;
+  private controller: AbortController | null = null;
+  private _state: UploadState = 'pending';
+  private _offset = 0;
+  private _error: string | undefined;
+
+  constructor(options: ResumableUploadOptions) {
+    this.options = options;
+    this.path = options.path;
+    this.total = options.file.size;
+    this.fetchFn = options.fetch ?? fetch.bind(globalThis);
+    this.storage =
+      options.storage !== undefined
+        ? options.storage
+        : typeof localStorage === 'undefined'
+          ? null
+          : localStorage;
+  }
+
+  get state(): UploadState {
+    return this._state;
+  }
+
+  get offset(): number {
+    return this._offset;
+  }
+
+  get error(): string | undefined {
+    return this._error;
+  }
+
+  /**
+   * Upload until done, paused, cancelled or failed.
+   * Also used to resume and to retry after a failure.
+   *
+   * @returns true once the file is complete on the server
+   */
+  async start(): Promise<boolean> {
+    if (this._state === 'uploading' || this._state === 'done' || this._state === 'cancelled') {
+      return this._state === 'done';
+    }
+    const controller = new AbortController();
+    this.controller = controller;
+    this.setState('uploading');
+
+    try {
+      await this.locate(controller.signal);
+      while (this._offset < this.total) {
+        await this.withRetries(() => this.sendChunk(controller.signal), controller.signal);
+      }
+      this.forget();
+      this.setState('done');
+      return true;
+    } catch (error) {
+      if (controller.signal.aborted) {
+        // pause() / cancel() already set the state
+        return false;
+      }
+      if (error instanceof UploadRejectedError && error.status === 404) {
+        // Expired or removed on the server; the next attempt starts over
+        this.forget();
+        this.uploadUrl = null;
+        this._offset = 0;
+      }
+      this._error = error instanceof Error ? error.message : String(error);
+      this.setState('error', this._error);
+      return false;
+    } finally {
+      if (this.controller === controller) {
+        this.controller = null;
+      }
+    }
+  }
+
+  /**
+   * Stop after aborting the chunk in flight; start() continues later
+   */
+  pause(): void {
+    if (this._state !== 'uploading') {
+      return;
+    }
+    this.setState('paused');
+    this.controller?.abort();
+  }
+
+  /**
+   * Abort and delete the partial upload on the server
+   */
+  async cancel(): Promise<void> {
+    if (this._state === 'done' || this._state === 'cancelled') {
+      return;
+    }
+    this.setState('cancelled');
+    this.controller?.abort();
+    this.forget();
+    if (this.uploadUrl) {
+      await this.fetchFn(this.uploadUrl, { method: 'DELETE' }).catch(() => undefined);
+    }
+  }
+
+  // === Protocol ===
+
+  /**
+   * Find the upload to continue (by URL or remembered fingerprint) and
+   * its offset, or create a new one
+   */
+  private async locate(signal: AbortSignal): Promise<void> {
+    this.uploadUrl ??= this.storage?.getItem(this.fingerprint()) ?? null;
+    if (this.uploadUrl) {
+      const response = await this.withRetries(
+        () => this.fetchFn(this.uploadUrl as string, { method: 'HEAD', signal }),
+        signal
+      );
+      const offset = readOffset(response);
+      if (response.ok && offset !== null) {
+        this._offset = offset;
+        this.options.onProgress?.(offset, this.total);
+        return;
+      }
+      this.forget();
+    }
+
+    const query = new URLSearchParams({ session: this.options.sessionName, path: this.path });
+    const response = await this.withRetries(
+      () =>
+        this.fetchFn(`${this.options.basePath}/api/files/uploads?${query.toString()}`, {
+          method: 'POST',
+          headers: { 'Upload-Length': String(this.total) },
+          signal
+        }),
+      signal
+    );
+    if (!response.ok) {
+      throw new UploadRejectedError(await errorMessage(response), response.status);
+    }
+    const { id } = (await response.json()) as { id: string };
+    this.uploadUrl = `${this.options.basePath}/api/files/uploads/${id}?session=${encodeURIComponent(this.options.sessionName)}`;
+    this._offset = 0;
+    this.storage?.setItem(this.fingerprint(), this.uploadUrl);
+  }
+
+  private async sendChunk(signal: AbortSignal): Promise<Response> {
+    const end = Math.min(this._offset + (this.options.chunkSize ?? DEFAULT_CHUNK_SIZE), this.total);
+    const response = await this.fetchFn(this.uploadUrl as string, {
+      method: 'PATCH',
+      headers: {
+        'Content-Type': CHUNK_CONTENT_TYPE,
+        'Upload-Offset': String(this._offset)
+      },
+      body: this.options.file.slice(this._offset, end),
+      signal
+    });
+
+    const serverOffset = readOffset(response);
+    if (response.status >= 500) {
+      throw new Error(await errorMessage(response));
+    }
+    if (response.status === 409 && serverOffset !== null) {
+      // A retried chunk already landed; continue from the server's offset
+      this._offset = serverOffset;
+    } else if (!response.ok) {
+      throw new UploadRejectedError(await errorMessage(response), response.status);
+    } else {
+      this._offset = serverOffset ?? end;
+    }
+    this.options.onProgress?.(this._offset, this.total);
+    return response;
+  }
+
+  /**
+   * Retry network errors and 5xx responses with exponential backoff;
+   * other HTTP errors are final
+   */
+  private async withRetries(send: () => Promise<Response>, signal: AbortSignal): Promise<Response> {
+    const maxRetries = this.options.maxRetries ?? DEFAULT_MAX_RETRIES;
+    const baseDelay = this.options.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS;
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const response = await send();
+        if (response.status < 500 || attempt >= maxRetries) {
+          return response;
+        }
+      } catch (error) {
+        if (signal.aborted || error instanceof UploadRejectedError || attempt >= maxRetries) {
+          throw error;
+        }
+      }
+      await new Promise((resolve) => setTimeout(resolve, baseDelay * 2 ** attempt));
+      if (signal.aborted) {
+        throw new Error('Aborted');
+      }
+    }
+  }
+
+  // === Helpers ===
+
+  private fingerprint(): string {
+    const { file, sessionName } = this.options;
+    return `${STORAGE_PREFIX}${sessionName}:${this.path}:${file.size}:${file.lastModified ?? 0}`;
+  }
+
+  private forget(): void {
+    this.storage?.removeItem(this.fingerprint());
+  }
+
+  private setState(state: UploadState, error?: string): void {
+    this._state = state;
+    if (state !== 'error') {
+      this._error = undefined;
+    }
+    this.options.onStateChange?.(state, error);
+  }
+}
@@ -0,0 +1,201 @@
+/**
+ * Upload Queue
+ *
+ * Floating panel listing uploads in progress, each with a progress bar and
+ * pause/resume, retry and cancel buttons. Files are sent one at a time
+ * through ResumableUpload; a failed upload stays in the list until it is
+ * retried or cancelled. Shared by the file browser and the file tree.
+ */
+
+import type { Mountable, Scope } from '@/browser/shared/lifecycle.js';
+import type { TerminalUiConfig } from '@/browser/shared/types.js';
+import { formatFileSize, getSessionNameFromURL } from '@/browser/shared/utils.js';
+import { ResumableUpload, type UploadState } from './ResumableUpload.js';
+
+interface QueueItem {
+  upload: ResumableUpload;
+  row: HTMLElement;
+  bar: HTMLElement;
+  status: HTMLElement;
+  toggleBtn: HTMLButtonElement;
+  retryBtn: HTMLButtonElement;
+  resolve: (path: string | null) => void;
+}
+
+/** How long a finished upload stays visible */
+const DONE_LINGER_MS = 2000;
+
+export class UploadQueue implements Mountable {
+  private config: TerminalUiConfig;
+  private sessionName: string;
+  private items: QueueItem[] = [];
+  private active: QueueItem | null = null;
+  private panel: HTMLElement | null = null;
+
+  constructor(config: TerminalUiConfig) {
+    this.config = config;
+    // Use sessionName from config if available (server-provided), otherwise extract from URL
+    this.sessionName = config.sessionName || getSessionNameFromURL(config.base_path);
+  }
+
+  /**
+   * Pause everything in flight when the page is torn down; the uploads
+   * resume from the server's offset when the same files are added again
+   */
+  mount(scope: Scope): void {
+    scope.add(() => {
+      for (const item of this.items) {
+        item.upload.pause();
+      }
+      this.panel?.remove();
+      this.panel = null;
+    });
+  }
+
+  /**
+   * Queue a file for upload
+   *
+   * @param path Destination relative to the session directory
+   * @returns The destination once uploaded, or null if cancelled
+   */
+  add(file: File, path: string): Promise<string | null> {
+    return new Promise((resolve) => {
+      const item = this.createItem(file, path, resolve);
+      this.items.push(item);
+      this.getPanel().appendChild(item.row);
+      this.pump();
+    });
+  }
+
+  /**
+   * Start the next pending upload if none is running
+   */
+  private pump(): void {
+    if (this.active) {
+      return;
+    }
+    const next = this.items.find((item) => item.upload.state === 'pending');
+    if (next) {
+      void this.run(next);
+    }
+  }
+
+  private async run(item: QueueItem): Promise<void> {
+    this.active = item;
+    const done = await item.upload.start();
+    if (this.active === item) {
+      this.active = null;
+    }
+    if (done) {
+      item.resolve(item.upload.path);
+      setTimeout(() => this.removeItem(item), DONE_LINGER_MS);
+    }
+    this.pump();
+  }
+
+  private createItem(file: File, path: string, resolve: (path: string | null) => void): QueueItem {
+    const row = document.createElement('div');
+    row.className = 'upload-queue-item';
+
+    const name = document.createElement('div');
+    name.className = 'upload-queue-name';
+    name.textContent = file.name;
+    name.title = path;
+
+    const track = document.createElement('div');
+    track.className = 'upload-queue-track';
+    const bar = document.createElement('div');
+    bar.className = 'upload-queue-bar';
+    track.appendChild(bar);
+
+    const status = document.createElement('div');
+    status.className = 'upload-queue-status';
+
+    const actions = document.createElement('div');
+    actions.className = 'upload-queue-actions';
+    const toggleBtn = this.createButton('⏸', '一時停止');
+    const retryBtn = this.createButton('↻', '再試行');
+    const cancelBtn = this.createButton('×', 'キャンセル');
+    actions.append(toggleBtn, retryBtn, cancelBtn);
+
+    row.append(name, actions, track, status);
+
+    const upload = new ResumableUpload({
+      basePath: this.config.base_path,
+      sessionName: this.sessionName,
+      file,
+      path,
+      onProgress: () => this.renderItem(item),
+      onStateChange: () => this.renderItem(item)
+    });
+    const item: QueueItem = { upload, row, bar, status, toggleBtn, retryBtn, resolve };
+
+    toggleBtn.onclick = () => {
+      if (item.upload.state === 'uploading') {
+        item.upload.pause();
+      } else {
+        void this.run(item);
+      }
+    };
+    retryBtn.onclick = () => void this.run(item);
+    cancelBtn.onclick = () => {
+      void item.upload.cancel();
+      item.resolve(null);
+      this.removeItem(item);
+      this.pump();
+    };
+
+    this.renderItem(item);
+    return item;
+  }
+
+  private createButton(label: string, title: string): HTMLButtonElement {
+    const button = document.createElement('button');
+    button.type = 'button';
+    button.textContent = label;
+    button.title = title;
+    return button;
+  }
+
+  private renderItem(item: QueueItem): void {
+    const { upload } = item;
+    const percent = upload.total === 0 ? 100 : Math.floor((upload.offset / upload.total) * 100);
+    item.bar.style.width = `${percent}%`;
+    item.row.dataset['state'] = upload.state;
+
+    const sizes = `${formatFileSize(upload.offset)} / ${formatFileSize(upload.total)}`;
+    const labels: Record<UploadState, string> = {
+      pending: '待機中',
+      uploading: `${percent}% · ${sizes}`,
+      paused: `一時停止中 · ${sizes}`,
+      error: `失敗: ${upload.error ?? ''}`,
+      done: '完了',
+      cancelled: 'キャンセル'
+    };
+    item.status.textContent = labels[upload.state];
+
+    const paused = upload.state === 'paused';
+    item.toggleBtn.textContent = paused ? '▶' : '⏸';
+    item.toggleBtn.title = paused ? '再開' : '一時停止';
+    item.toggleBtn.hidden = upload.state !== 'uploading' && !paused;
+    item.retryBtn.hidden = upload.state !== 'error';
+  }
+
+  private removeItem(item: QueueItem): void {
+    item.row.remove();
+    this.items = this.items.filter((other) => other !== item);
+    if (this.items.length === 0) {
+      this.panel?.remove();
+      this.panel = null;
+    }
+  }
+
+  private getPanel(): HTMLElement {
+    if (!this.panel) {
+      this.panel = document.createElement('div');
+      this.panel.id = 'tui-upload-queue';
+      document.body.appendChild(this.panel);
+    }
+    return this.panel;
+  }
+}
@@ -0,0 +1,183 @@
+/**
+ * Archive Tests
+ *
+ * Archives are decoded in the test (gunzip + tar headers, zip central
+ * directory + inflate) so no external tools are needed.
+ */
+
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { mkdirSync, mkdtempSync, rmSync, symlinkSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { gunzipSync, inflateRawSync } from 'node:zlib';
+import {
+  type ArchiveFormat,
+  ArchiveTooLargeError,
+  collectArchiveEntries,
+  createArchiveStream
+} from './archive.js';
+import { IgnoreMatcher, parseIgnorePatterns } from './ignore-rules.js';
+
+// === Decoders ===
+
+const decoder = new TextDecoder();
+
+function readString(bytes: Uint8Array, offset: number, length: number): string {
+  const field = bytes.subarray(offset, offset + length);
+  const end = field.indexOf(0);
+  return decoder.decode(end === -1 ? field : field.subarray(0, end));
+}
+
+/** Entry name → content ('' for directories) */
+function readTarGz(data: Uint8Array): Map<string, string> {
+  const tar = gunzipSync(data);
+  const files = new Map<string, string>();
+  let paxPath: string | null = null;
+  for (let offset = 0; offset + 512 <= tar.byteLength; ) {
+    const header = tar.subarray(offset, offset + 512);
+    if (header.every((byte) => byte === 0)) {
+      break;
+    }
+    const size = Number.parseInt(readString(header, 124, 12), 8);
+    const type = readString(header, 156, 1);
+    const body = tar.subarray(offset + 512, offset + 512 + size);
+    offset += 512 + Math.ceil(size / 512) * 512;
+
+    if (type === 'x') {
+      paxPath = /path=(.*)\n/.exec(decoder.decode(body))?.[1] ?? null;
+      continue;
+    }
+    files.set(paxPath ?? readString(header, 0, 100), decoder.decode(body));
+    paxPath = null;
+  }
+  return files;
+}
+
+/** Entry name → content, read through the central directory */
+function readZip(data: Uint8Array): Map<string, string> {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const end = data.byteLength - 22;
+  expect(view.getUint32(end, true)).toBe(0x06054b50);
+  const count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+
+  const files = new Map<string, string>();
+  for (let i = 0; i < count; i++) {
+    expect(view.getUint32(offset, true)).toBe(0x02014b50);
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(data.subarray(offset + 46, offset + 46 + nameLength));
+    offset += 46 + nameLength;
+
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true);
+    const raw = data.subarray(dataStart, dataStart + compressedSize);
+    files.set(name, decoder.decode(method === 8 ? inflateRawSync(raw) : raw));
+  }
+  return files;
+}
+
+// === Tests ===
+
+describe('parseIgnorePatterns', () => {
+  test('skips comments and blank lines', () => {
+    expect(parseIgnorePatterns(['# comment', '', '   ', '*.log'])).toHaveLength(1);
+  });
+
+  test('parses negation, directory-only and anchored patterns', () => {
+    const [rule] = parseIgnorePatterns(['!/build/']);
+    expect(rule).toMatchObject({ negated: true, dirOnly: true, anchored: true });
+  });
+});
+
+describe('archives', () => {
+  let cwd: string;
+
+  const collect = (targets: string[], format: ArchiveFormat, maxSize = 1024 * 1024) =>
+    collectArchiveEntries(
+      targets.map((target) => join(cwd, target)),
+      {
+        base: cwd,
+        matcher: new IgnoreMatcher(cwd, { gitignore: true, exclude: ['.git/'] }),
+        maxSize,
+        format
+      }
+    );
+
+  const encode = async (targets: string[], format: ArchiveFormat) => {
+    const { entries } = await collect(targets, format);
+    const data = new Uint8Array(
+      await new Response(createArchiveStream(entries, format)).arrayBuffer()
+    );
+    return format === 'zip' ? readZip(data) : readTarGz(data);
+  };
+
+  beforeEach(() => {
+    cwd = mkdtempSync(join(tmpdir(), 'bunterm-archive-test-'));
+    mkdirSync(join(cwd, 'project', 'node_modules', 'dep'), { recursive: true });
+    mkdirSync(join(cwd, 'project', 'src'), { recursive: true });
+    mkdirSync(join(cwd, 'project', '.git'), { recursive: true });
+    writeFileSync(join(cwd, 'project', '.gitignore'), 'node_modules/\n*.log\n!keep.log\n');
+    writeFileSync(join(cwd, 'project', 'src', 'index.ts'), 'export {};\n'.repeat(100));
+    writeFileSync(join(cwd, 'project', 'debug.log'), 'noise');
+    writeFileSync(join(cwd, 'project', 'keep.log'), 'kept');
+    writeFileSync(join(cwd, 'project', 'node_modules', 'dep', 'index.js'), 'dep');
+    writeFileSync(join(cwd, 'project', '.git', 'HEAD'), 'ref: refs/heads/main');
+  });
+
+  afterEach(() => {
+    rmSync(cwd, { recursive: true, force: true });
+  });
+
+  test('respects .gitignore and the exclude patterns', async () => {
+    const { entries } = await collect(['project'], 'zip');
+
+    expect(entries.map((entry) => entry.name)).toEqual([
+      'project/',
+      'project/.gitignore',
+      'project/keep.log',
+      'project/src/',
+      'project/src/index.ts'
+    ]);
+  });
+
+  test('includes an explicitly selected ignored path', async () => {
+    const { entries } = await collect(['project/node_modules'], 'zip');
+
+    expect(entries.map((entry) => entry.name)).toContain('project/node_modules/dep/index.js');
+  });
+
+  test('skips symlinks', async () => {
+    symlinkSync('/etc', join(cwd, 'project', 'link'));
+
+    const { entries } = await collect(['project'], 'tar.gz');
+
+    expect(entries.some((entry) => entry.name.includes('link'))).toBe(false);
+  });
+
+  test('refuses a selection over the size ceiling', async () => {
+    await expect(collect(['project'], 'tar.gz', 100)).rejects.toBeInstanceOf(ArchiveTooLargeError);
+  });
+
+  test.each(['zip', 'tar.gz'] as const)('round-trips a %s archive', async (format) => {
+    const files = await encode(['project'], format);
+
+    expect(files.get('project/src/')).toBe('');
+    expect(files.get('project/src/index.ts')).toBe('export {};\n'.repeat(100));
+    expect(files.get('project/keep.log')).toBe('kept');
+    expect(files.has('project/debug.log')).toBe(false);
+  });
+
+  test.each([
+    'zip',
+    'tar.gz'
+  ] as const)('keeps names longer than 100 bytes in %s', async (format) => {
+    const name = `${'n'.repeat(120)}.txt`;
+    writeFileSync(join(cwd, 'project', 'src', name), 'long');
+
+    const files = await encode(['project/src'], format);
+
+    expect(files.get(`project/src/${name}`)).toBe('long');
+  });
+});
@@ -0,0 +1,450 @@
+/**
+ * Archive Downloads
+ *
+ * Streams a zip or tar.gz of directories and files picked in the file
+ * browser. Entries are collected up front (metadata only) so the size
+ * ceiling can be enforced before the first byte is sent; file contents
+ * are then read and encoded chunk by chunk as the client pulls, so the
+ * archive is never held in memory. Symlinks are skipped: they may point
+ * outside the session directory. Unreadable entries inside a selection are
+ * skipped too, rather than breaking the stream halfway through.
+ *
+ * zip entries are deflated with data descriptors (sizes and CRC written
+ * after the data) and without zip64, which caps zip archives at 65535
+ * entries and just under 4GB; tar.gz has no such limits.
+ */
+
+import { access, constants, lstat, readdir } from 'node:fs/promises';
+import { join, relative, sep } from 'node:path';
+import { crc32 } from 'node:zlib';
+import type { IgnoreMatcher } from './ignore-rules.js';
+
+export type ArchiveFormat = 'zip' | 'tar.gz';
+
+export const ARCHIVE_FORMATS: readonly ArchiveFormat[] = ['zip', 'tar.gz'];
+
+export interface ArchiveEntry {
+  /** Path inside the archive ('/'-separated, directories end with '/') */
+  name: string;
+  /** Absolute path on disk */
+  path: string;
+  isDirectory: boolean;
+  size: number;
+  mtime: Date;
+  mode: number;
+}
+
+/** The selection is over the size or entry limit */
+export class ArchiveTooLargeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ArchiveTooLargeError';
+  }
+}
+
+/** Without zip64 sizes and offsets are 32-bit; leave room for headers and deflate overhead */
+const ZIP_MAX_SIZE = 0xf000_0000;
+const ZIP_MAX_ENTRIES = 0xffff;
+
+export interface CollectOptions {
+  /** Entry names are relative to this directory */
+  base: string;
+  matcher: IgnoreMatcher;
+  /** Ceiling on the total size of the files (bytes) */
+  maxSize: number;
+  format: ArchiveFormat;
+}
+
+/**
+ * Collect the entries for the selected paths. Explicitly selected paths
+ * are always included; ignore rules apply to what is found inside them.
+ *
+ * @throws ArchiveTooLargeError as soon as a limit is crossed
+ */
+export async function collectArchiveEntries(
+  targets: string[],
+  options: CollectOptions
+): Promise<{ entries: ArchiveEntry[]; totalSize: number }> {
+  const maxSize =
+    options.format === 'zip' ? Math.min(options.maxSize, ZIP_MAX_SIZE) : options.maxSize;
+  const entries: ArchiveEntry[] = [];
+  const seen = new Set<string>();
+  let totalSize = 0;
+
+  const add = async (path: string, explicit: boolean): Promise<void> => {
+    if (seen.has(path)) {
+      return;
+    }
+    const info = await lstat(path);
+    const isDirectory = info.isDirectory();
+    if (!isDirectory && !info.isFile()) {
+      return;
+    }
+    if (!explicit && (await options.matcher.isIgnored(path, isDirectory))) {
+      return;
+    }
+    const readable = await access(path, constants.R_OK).then(
+      () => true,
+      (err: unknown) => {
+        if (explicit) {
+          throw err;
+        }
+        return false;
+      }
+    );
+    if (!readable) {
+      return;
+    }
+    seen.add(path);
+
+    const name = relative(options.base, path).split(sep).join('/');
+    entries.push({
+      name: isDirectory ? `${name}/` : name,
+      path,
+      isDirectory,
+      size: isDirectory ? 0 : info.size,
+      mtime: info.mtime,
+      mode: info.mode & 0o7777
+    });
+    totalSize += isDirectory ? 0 : info.size;
+    if (totalSize > maxSize) {
+      throw new ArchiveTooLargeError(
+        options.format === 'zip' && maxSize < options.maxSize
+          ? 'Selection is too large for zip; use tar.gz'
+          : `Selection exceeds the ${Math.round(maxSize / 1024 / 1024)}MB archive limit (file_transfer.max_archive_size)`
+      );
+    }
+    if (options.format === 'zip' && entries.length > ZIP_MAX_ENTRIES) {
+      throw new ArchiveTooLargeError('Selection has too many entries for zip; use tar.gz');
+    }
+
+    if (isDirectory) {
+      const children = (await readdir(path)).sort();
+      for (const child of children) {
+        await add(join(path, child), false);
+      }
+    }
+  };
+
+  for (const target of targets) {
+    await add(target, true);
+  }
+  return { entries, totalSize };
+}
+
+/**
+ * Encode the entries as a stream in the given format
+ */
+export function createArchiveStream(
+  entries: ArchiveEntry[],
+  format: ArchiveFormat
+): ReadableStream<Uint8Array> {
+  if (format === 'zip') {
+    return toStream(zipChunks(entries));
+  }
+  return toStream(tarChunks(entries)).pipeThrough(new CompressionStream('gzip'));
+}
+
+/**
+ * Pull-based stream: the next chunk is produced only when the consumer
+ * asks for it, so a slow client slows down the reading
+ */
+function toStream(chunks: AsyncGenerator<Uint8Array>): ReadableStream<Uint8Array> {
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { value, done } = await chunks.next();
+      if (done) {
+        controller.close();
+      } else {
+        controller.enqueue(value);
+      }
+    },
+    async cancel() {
+      await chunks.return(undefined);
+    }
+  });
+}
+
+async function* readFileChunks(path: string): AsyncGenerator<Uint8Array> {
+  const reader = Bun.file(path).stream().getReader();
+  try {
+    for (;;) {
+      const { value, done } = await reader.read();
+      if (done) {
+        return;
+      }
+      yield value;
+    }
+  } finally {
+    // Closes the file when the consumer stops early
+    await reader.cancel();
+  }
+}
+
+// === zip ===
+
+const encoder = new TextEncoder();
+
+/** General purpose flags: data descriptor follows (bit 3), UTF-8 names (bit 11) */
+const ZIP_FLAGS_FILE = 0x0808;
+const ZIP_FLAGS_DIR = 0x0800;
+const ZIP_DEFLATE = 8;
+const ZIP_STORE = 0;
+/** Version needed: 2.0 (deflate); version made by: Unix */
+const ZIP_VERSION = 20;
+const ZIP_MADE_BY = (3 << 8) | ZIP_VERSION;
+
+interface ZipRecord {
+  name: Uint8Array;
+  flags: number;
+  method: number;
+  time: number;
+  date: number;
+  crc: number;
+  compressedSize: number;
+  size: number;
+  externalAttrs: number;
+  offset: number;
+}
+
+function dosDateTime(date: Date): { time: number; date: number } {
+  const year = Math.max(date.getFullYear(), 1980);
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  };
+}
+
+function zipLocalHeader(record: ZipRecord): Uint8Array {
+  const header = new Uint8Array(30 + record.name.byteLength);
+  const view = new DataView(header.buffer);
+  view.setUint32(0, 0x04034b50, true);
+  view.setUint16(4, ZIP_VERSION, true);
+  view.setUint16(6, record.flags, true);
+  view.setUint16(8, record.method, true);
+  view.setUint16(10, record.time, true);
+  view.setUint16(12, record.date, true);
+  // CRC and sizes are zero here; they follow the data in the descriptor
+  view.setUint16(26, record.name.byteLength, true);
+  header.set(record.name, 30);
+  return header;
+}
+
+function zipDataDescriptor(record: ZipRecord): Uint8Array {
+  const descriptor = new Uint8Array(16);
+  const view = new DataView(descriptor.buffer);
+  view.setUint32(0, 0x08074b50, true);
+  view.setUint32(4, record.crc, true);
+  view.setUint32(8, record.compressedSize, true);
+  view.setUint32(12, record.size, true);
+  return descriptor;
+}
+
+function zipCentralHeader(record: ZipRecord): Uint8Array {
+  const header = new Uint8Array(46 + record.name.byteLength);
+  const view = new DataView(header.buffer);
+  view.setUint32(0, 0x02014b50, true);
+  view.setUint16(4, ZIP_MADE_BY, true);
+  view.setUint16(6, ZIP_VERSION, true);
+  view.setUint16(8, record.flags, true);
+  view.setUint16(10, record.method, true);
+  view.setUint16(12, record.time, true);
+  view.setUint16(14, record.date, true);
+  view.setUint32(16, record.crc, true);
+  view.setUint32(20, record.compressedSize, true);
+  view.setUint32(24, record.size, true);
+  view.setUint16(28, record.name.byteLength, true);
+  view.setUint32(38, record.externalAttrs, true);
+  view.setUint32(42, record.offset, true);
+  header.set(record.name, 46);
+  return header;
+}
+
+function zipEndOfCentralDirectory(count: number, size: number, offset: number): Uint8Array {
+  const end = new Uint8Array(22);
+  const view = new DataView(end.buffer);
+  view.setUint32(0, 0x06054b50, true);
+  view.setUint16(8, count, true);
+  view.setUint16(10, count, true);
+  view.setUint32(12, size, true);
+  view.setUint32(16, offset, true);
+  return end;
+}
+
+/**
+ * Deflate a file, updating the record's CRC and sizes as the data passes
+ */
+async function* deflateFile(path: string, record: ZipRecord): AsyncGenerator<Uint8Array> {
+  const measure = new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      record.crc = crc32(chunk, record.crc);
+      record.size += chunk.byteLength;
+      controller.enqueue(chunk);
+    }
+  });
+  const reader = Bun.file(path)
+    .stream()
+    .pipeThrough(measure)
+    .pipeThrough(new CompressionStream('deflate-raw'))
+    .getReader();
+  try {
+    for (;;) {
+      const { value, done } = await reader.read();
+      if (done) {
+        return;
+      }
+      record.compressedSize += value.byteLength;
+      yield value;
+    }
+  } finally {
+    await reader.cancel();
+  }
+}
+
+async function* zipChunks(entries: ArchiveEntry[]): AsyncGenerator<Uint8Array> {
+  const records: ZipRecord[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const unixMode = (entry.isDirectory ? 0o040000 : 0o100000) | entry.mode;
+    const record: ZipRecord = {
+      name: encoder.encode(entry.name),
+      flags: entry.isDirectory ? ZIP_FLAGS_DIR : ZIP_FLAGS_FILE,
+      method: entry.isDirectory ? ZIP_STORE : ZIP_DEFLATE,
+      ...dosDateTime(entry.mtime),
+      crc: 0,
+      compressedSize: 0,
+      size: 0,
+      // Unix mode in the high word; MS-DOS directory bit for other unzippers
+      externalAttrs: ((unixMode << 16) | (entry.isDirectory ? 0x10 : 0)) >>> 0,
+      offset
+    };
+    records.push(record);
+
+    const header = zipLocalHeader(record);
+    offset += header.byteLength;
+    yield header;
+    if (entry.isDirectory) {
+      continue;
+    }
+
+    yield* deflateFile(entry.path, record);
+    offset += record.compressedSize;
+    const descriptor = zipDataDescriptor(record);
+    offset += descriptor.byteLength;
+    yield descriptor;
+  }
+
+  let centralSize = 0;
+  for (const record of records) {
+    const header = zipCentralHeader(record);
+    centralSize += header.byteLength;
+    yield header;
+  }
+  yield zipEndOfCentralDirectory(records.length, centralSize, offset);
+}
+
+// === tar ===
+
+const TAR_BLOCK = 512;
+/** Largest size an 11-digit octal header field holds */
+const TAR_MAX_OCTAL = 0o77777777777;
+
+function writeString(block: Uint8Array, offset: number, length: number, value: string): void {
+  block.set(encoder.encode(value).subarray(0, length), offset);
+}
+
+function writeOctal(block: Uint8Array, offset: number, length: number, value: number): void {
+  writeString(block, offset, length, `${value.toString(8).padStart(length - 1, '0')}\0`);
+}
+
+function tarHeader(
+  name: string,
+  type: string,
+  size: number,
+  mode: number,
+  mtime: Date
+): Uint8Array {
+  const block = new Uint8Array(TAR_BLOCK);
+  writeString(block, 0, 100, name);
+  writeOctal(block, 100, 8, mode);
+  writeOctal(block, 108, 8, 0); // uid
+  writeOctal(block, 116, 8, 0); // gid
+  writeOctal(block, 124, 12, Math.min(size, TAR_MAX_OCTAL));
+  writeOctal(block, 136, 12, Math.max(0, Math.floor(mtime.getTime() / 1000)));
+  block.fill(0x20, 148, 156); // checksum is computed with spaces here
+  writeString(block, 156, 1, type);
+  writeString(block, 257, 8, 'ustar\x0000');
+
+  let checksum = 0;
+  for (const byte of block) {
+    checksum += byte;
+  }
+  writeString(block, 148, 8, `${checksum.toString(8).padStart(6, '0')}\0 `);
+  return block;
+}
+
+/**
+ * One "<length> <key>=<value>\n" record; the length counts itself
+ */
+function paxRecord(key: string, value: string): string {
+  const body = ` ${key}=${value}\n`;
+  const bodyLength = encoder.encode(body).byteLength;
+  let length = bodyLength + String(bodyLength).length;
+  if (String(length).length !== String(bodyLength).length) {
+    length = bodyLength + String(length).length;
+  }
+  return `${length}${body}`;
+}
+
+function padding(size: number): Uint8Array {
+  const remainder = size % TAR_BLOCK;
+  return new Uint8Array(remainder === 0 ? 0 : TAR_BLOCK - remainder);
+}
+
+/**
+ * Exactly size bytes of the file: truncated if it grew since it was
+ * listed, zero-filled if it shrank, so the header stays truthful
+ */
+async function* tarFileData(entry: ArchiveEntry): AsyncGenerator<Uint8Array> {
+  let remaining = entry.size;
+  for await (const chunk of readFileChunks(entry.path)) {
+    if (remaining === 0) {
+      break;
+    }
+    const part = chunk.byteLength > remaining ? chunk.subarray(0, remaining) : chunk;
+    remaining -= part.byteLength;
+    yield part;
+  }
+  if (remaining > 0) {
+    yield new Uint8Array(remaining);
+  }
+  yield padding(entry.size);
+}
+
+async function* tarChunks(entries: ArchiveEntry[]): AsyncGenerator<Uint8Array> {
+  for (const entry of entries) {
+    // Long names and huge sizes go in a PAX extended header
+    let pax = '';
+    if (encoder.encode(entry.name).byteLength > 100) {
+      pax += paxRecord('path', entry.name);
+    }
+    if (entry.size > TAR_MAX_OCTAL) {
+      pax += paxRecord('size', String(entry.size));
+    }
+    if (pax) {
+      const data = encoder.encode(pax);
+      yield tarHeader('././@PaxHeader', 'x', data.byteLength, 0o644, entry.mtime);
+      yield data;
+      yield padding(data.byteLength);
+    }
+
+    const type = entry.isDirectory ? '5' : '0';
+    yield tarHeader(entry.name, type, entry.size, entry.mode, entry.mtime);
+    if (!entry.isDirectory) {
+      yield* tarFileData(entry);
+    }
+  }
+  // End of archive: two empty blocks
+  yield new Uint8Array(TAR_BLOCK * 2);
+}
@@ -0,0 +1,111 @@
+/**
+ * File Operations
+ *
+ * Filesystem operations behind the file manager sidebar: stat, mkdir,
+ * move/rename, copy and delete-to-trash. Paths passed in are already
+ * resolved and validated by the route; this module only does the I/O.
+ */
+
+import { randomBytes } from 'node:crypto';
+import { cp, lstat, mkdir, rename, rm, stat, writeFile } from 'node:fs/promises';
+import { basename, extname, join, sep } from 'node:path';
+import { getStateDir } from '@/core/config/state.js';
+import type { FileTransferConfig } from '@/core/config/types.js';
+
+export interface PathStat {
+  name: string;
+  isDirectory: boolean;
+  isFile: boolean;
+  isSymlink: boolean;
+  size: number;
+  modifiedAt: string;
+  /** Permission bits, e.g. "644" */
+  mode: string;
+}
+
+/** Name of the file written next to a trashed entry, holding its original path */
+export const TRASH_ORIGIN_FILE = '.bunterm-origin';
+
+/**
+ * Check a destination name against file_transfer.allowed_extensions
+ * (empty list = everything allowed)
+ */
+export function isExtensionAllowed(config: FileTransferConfig, path: string): boolean {
+  if (config.allowed_extensions.length === 0) {
+    return true;
+  }
+  return config.allowed_extensions.includes(extname(path).toLowerCase());
+}
+
+export function getTrashDir(config: FileTransferConfig): string {
+  return config.trash_dir ?? join(getStateDir(), 'trash');
+}
+
+/**
+ * True if child is parent itself or lies inside it
+ */
+export function isSameOrInside(parent: string, child: string): boolean {
+  return child === parent || child.startsWith(parent.endsWith(sep) ? parent : parent + sep);
+}
+
+export async function statPath(targetPath: string): Promise<PathStat> {
+  const link = await lstat(targetPath);
+  // Follow symlinks for the type and size, but report that it is one
+  const info = link.isSymbolicLink() ? await stat(targetPath) : link;
+  return {
+    name: basename(targetPath),
+    isDirectory: info.isDirectory(),
+    isFile: info.isFile(),
+    isSymlink: link.isSymbolicLink(),
+    size: info.size,
+    modifiedAt: info.mtime.toISOString(),
+    mode: (info.mode & 0o777).toString(8)
+  };
+}
+
+/**
+ * Create a directory (and missing parents)
+ */
+export async function makeDirectory(targetPath: string): Promise<void> {
+  await mkdir(targetPath, { recursive: true });
+}
+
+/**
+ * Move or rename; falls back to copy + remove across filesystems
+ */
+export async function movePath(from: string, to: string): Promise<void> {
+  try {
+    await rename(from, to);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'EXDEV') {
+      throw error;
+    }
+    await cp(from, to, { recursive: true, errorOnExist: true, force: false });
+    await rm(from, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Copy a file or directory tree; never overwrites
+ */
+export async function copyPath(from: string, to: string): Promise<void> {
+  await cp(from, to, { recursive: true, errorOnExist: true, force: false });
+}
+
+/**
+ * Move a file or directory into the trash.
+ * Each deletion gets its own folder so equal names never collide; the
+ * original path is recorded next to it for manual restore.
+ *
+ * @returns Path of the entry inside the trash
+ */
+export async function moveToTrash(targetPath: string, trashDir: string): Promise<string> {
+  const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+  const slot = join(trashDir, `${stamp}-${randomBytes(3).toString('hex')}`);
+  await mkdir(slot, { recursive: true });
+  await writeFile(join(slot, TRASH_ORIGIN_FILE), `${targetPath}\n`);
+
+  const trashedPath = join(slot, basename(targetPath));
+  await movePath(targetPath, trashedPath);
+  return trashedPath;
+}
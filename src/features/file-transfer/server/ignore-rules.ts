@@ -0,0 +1,140 @@
+/**
+ * Ignore Rules
+ *
+ * Small .gitignore matcher used when archiving directories. Supports
+ * comments, negation (!), directory-only patterns (trailing /), anchored
+ * patterns (containing a /) and globs (*, **, ?, [...]) via Bun.Glob.
+ * Each .gitignore applies below its own directory; deeper files and
+ * later lines win, as in git. Like git, a file inside an ignored
+ * directory cannot be re-included — callers simply do not descend.
+ */
+
+import { readFile } from 'node:fs/promises';
+import { join, relative, sep } from 'node:path';
+import { Glob } from 'bun';
+
+interface IgnoreRule {
+  glob: Glob;
+  negated: boolean;
+  dirOnly: boolean;
+  /** Pattern contains a slash: match the whole relative path, not just the name */
+  anchored: boolean;
+}
+
+/**
+ * Parse .gitignore-style lines into rules
+ */
+export function parseIgnorePatterns(lines: string[]): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+  for (const raw of lines) {
+    let pattern = raw.replace(/(?<!\\)\s+$/, '');
+    if (pattern === '' || pattern.startsWith('#')) {
+      continue;
+    }
+    const negated = pattern.startsWith('!');
+    if (negated) {
+      pattern = pattern.slice(1);
+    } else if (pattern.startsWith('\\#') || pattern.startsWith('\\!')) {
+      pattern = pattern.slice(1);
+    }
+    const dirOnly = pattern.endsWith('/');
+    if (dirOnly) {
+      pattern = pattern.slice(0, -1);
+    }
+    const anchored = pattern.includes('/');
+    if (pattern.startsWith('/')) {
+      pattern = pattern.slice(1);
+    }
+    if (pattern === '') {
+      continue;
+    }
+    rules.push({ glob: new Glob(pattern), negated, dirOnly, anchored });
+  }
+  return rules;
+}
+
+/**
+ * Apply rules to a path relative to their base directory
+ *
+ * @returns true/false if a rule decided, or the previous decision
+ */
+function applyRules(
+  rules: IgnoreRule[],
+  relPath: string,
+  isDirectory: boolean,
+  ignored: boolean
+): boolean {
+  const name = relPath.slice(relPath.lastIndexOf('/') + 1);
+  let result = ignored;
+  for (const rule of rules) {
+    if (rule.dirOnly && !isDirectory) {
+      continue;
+    }
+    if (rule.glob.match(rule.anchored ? relPath : name)) {
+      result = !rule.negated;
+    }
+  }
+  return result;
+}
+
+function toPosix(path: string): string {
+  return sep === '/' ? path : path.split(sep).join('/');
+}
+
+export interface IgnoreMatcherOptions {
+  /** Read .gitignore files from root and the directories below it */
+  gitignore: boolean;
+  /** Extra patterns relative to root, applied after the .gitignore files */
+  exclude: string[];
+}
+
+/**
+ * Decides whether paths under root are ignored; .gitignore files are
+ * read once per directory
+ */
+export class IgnoreMatcher {
+  private root: string;
+  private options: IgnoreMatcherOptions;
+  private excludeRules: IgnoreRule[];
+  private cache = new Map<string, Promise<IgnoreRule[]>>();
+
+  constructor(root: string, options: IgnoreMatcherOptions) {
+    this.root = root;
+    this.options = options;
+    this.excludeRules = parseIgnorePatterns(options.exclude);
+  }
+
+  /**
+   * @param absPath Absolute path inside root
+   */
+  async isIgnored(absPath: string, isDirectory: boolean): Promise<boolean> {
+    const relPath = toPosix(relative(this.root, absPath));
+    if (relPath === '' || relPath.startsWith('..')) {
+      return false;
+    }
+
+    let ignored = false;
+    if (this.options.gitignore) {
+      // Walk from root down to the entry's parent so deeper files win
+      const parts = relPath.split('/');
+      for (let depth = 0; depth < parts.length; depth++) {
+        const dir = join(this.root, ...parts.slice(0, depth));
+        const rules = await this.rulesFor(dir);
+        ignored = applyRules(rules, parts.slice(depth).join('/'), isDirectory, ignored);
+      }
+    }
+    return applyRules(this.excludeRules, relPath, isDirectory, ignored);
+  }
+
+  private rulesFor(dir: string): Promise<IgnoreRule[]> {
+    let rules = this.cache.get(dir);
+    if (!rules) {
+      rules = readFile(join(dir, '.gitignore'), 'utf-8').then(
+        (content) => parseIgnorePatterns(content.split(/\r?\n/)),
+        () => []
+      );
+      this.cache.set(dir, rules);
+    }
+    return rules;
+  }
+}
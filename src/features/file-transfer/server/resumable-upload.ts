@@ -0,0 +1,153 @@
+/**
+ * Resumable Uploads
+ *
+ * Storage behind the tus-style upload protocol: an upload is created with
+ * its final length, receives chunks appended at the current offset, and is
+ * moved to its destination once complete. Each upload is a `<id>.part`
+ * data file plus a `<id>.json` record in the uploads dir, so an interrupted
+ * upload survives reconnects and daemon restarts. The offset is always the
+ * size of the part file. Uploads not finished before `expiresAt` are
+ * discarded.
+ */
+
+import { randomBytes } from 'node:crypto';
+import { appendFile, mkdir, readdir, readFile, rm, stat, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { getStateDir } from '@/core/config/state.js';
+
+export interface UploadRecord {
+  id: string;
+  /** Session the upload belongs to */
+  session: string;
+  /** Destination, relative to the session directory */
+  path: string;
+  /** Total size in bytes */
+  length: number;
+  createdAt: string;
+  expiresAt: string;
+}
+
+export interface UploadStatus extends UploadRecord {
+  /** Bytes received so far */
+  offset: number;
+}
+
+export interface CreateUploadOptions {
+  session: string;
+  path: string;
+  length: number;
+  ttlSeconds: number;
+}
+
+const UPLOAD_ID_PATTERN = /^[a-f0-9]{32}$/;
+
+export function getUploadsDir(): string {
+  return join(getStateDir(), 'uploads');
+}
+
+export function isUploadId(id: string): boolean {
+  return UPLOAD_ID_PATTERN.test(id);
+}
+
+export function getPartPath(dir: string, id: string): string {
+  return join(dir, `${id}.part`);
+}
+
+function recordPath(dir: string, id: string): string {
+  return join(dir, `${id}.json`);
+}
+
+export async function createUpload(
+  dir: string,
+  options: CreateUploadOptions,
+  now = Date.now()
+): Promise<UploadRecord> {
+  await mkdir(dir, { recursive: true, mode: 0o700 });
+  const record: UploadRecord = {
+    id: randomBytes(16).toString('hex'),
+    session: options.session,
+    path: options.path,
+    length: options.length,
+    createdAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + options.ttlSeconds * 1000).toISOString()
+  };
+  // Record first: a part file never exists without one, so pruning sees everything
+  await writeFile(recordPath(dir, record.id), JSON.stringify(record), { mode: 0o600 });
+  await writeFile(getPartPath(dir, record.id), new Uint8Array(0), { mode: 0o600 });
+  return record;
+}
+
+/**
+ * Look up an upload; expired uploads are removed and reported as missing
+ */
+export async function getUpload(
+  dir: string,
+  id: string,
+  now = Date.now()
+): Promise<UploadStatus | null> {
+  if (!isUploadId(id)) {
+    return null;
+  }
+
+  let record: UploadRecord;
+  let offset: number;
+  try {
+    record = JSON.parse(await readFile(recordPath(dir, id), 'utf-8')) as UploadRecord;
+    offset = (await stat(getPartPath(dir, id))).size;
+  } catch {
+    return null;
+  }
+
+  if (Date.parse(record.expiresAt) <= now) {
+    await removeUpload(dir, id);
+    return null;
+  }
+  return { ...record, offset };
+}
+
+/**
+ * Append a chunk; the caller checks the offset and length first
+ *
+ * @returns The new offset
+ */
+export async function appendChunk(
+  dir: string,
+  upload: UploadStatus,
+  chunk: Uint8Array
+): Promise<number> {
+  await appendFile(getPartPath(dir, upload.id), chunk);
+  return upload.offset + chunk.byteLength;
+}
+
+export async function removeUpload(dir: string, id: string): Promise<void> {
+  await rm(getPartPath(dir, id), { force: true });
+  await rm(recordPath(dir, id), { force: true });
+}
+
+/**
+ * Delete every expired upload
+ *
+ * @returns Number of uploads removed
+ */
+export async function pruneExpiredUploads(dir: string, now = Date.now()): Promise<number> {
+  let names: string[];
+  try {
+    names = await readdir(dir);
+  } catch {
+    return 0;
+  }
+
+  let removed = 0;
+  for (const name of names) {
+    const id = name.replace(/\.(json|part)$/, '');
+    if (!name.endsWith('.json') || !isUploadId(id)) {
+      continue;
+    }
+    if ((await getUpload(dir, id, now)) === null) {
+      // getUpload already removed it if it was expired; clean up torn pairs too
+      await removeUpload(dir, id);
+      removed++;
+    }
+  }
+  return removed;
+}
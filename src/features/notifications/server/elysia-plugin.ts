@@ -11,11 +11,13 @@ import {
   addPushSubscription,
   getAllPushSubscriptions,
   getStateDir,
-  removePushSubscription
+  removePushSubscription,
+  setPushSubscriptionKinds
 } from '@/core/config/state.js';
 import type { PushSubscriptionState } from '@/core/config/types.js';
 import { coreContext } from '@/core/server/elysia/context.js';
 import { ErrorResponseSchema } from '@/core/server/elysia/errors.js';
+import { authContextPlugin } from '@/core/server/elysia/middleware/auth.js';
 import { getPublicVapidKey } from '@/features/notifications/server/vapid.js';
 import { createLogger } from '@/utils/logger.js';
 
@@ -28,11 +30,22 @@ const PushSubscriptionKeysSchema = t.Object({
   auth: t.String()
 });
 
+const NotificationKindsSchema = t.Array(
+  t.Union([t.Literal('terminal'), t.Literal('pattern'), t.Literal('agent')])
+);
+
 const PushSubscriptionSchema = t.Object({
   id: t.String(),
   endpoint: t.String(),
   keys: PushSubscriptionKeysSchema,
   sessionName: t.Optional(t.String()),
+  kinds: t.Optional(NotificationKindsSchema),
+  user: t.Optional(
+    t.Object({
+      name: t.Optional(t.String()),
+      role: t.Union([t.Literal('admin'), t.Literal('operator'), t.Literal('viewer')])
+    })
+  ),
   createdAt: t.String()
 });
 
@@ -54,6 +67,7 @@ const SuccessResponseSchema = t.Object({
 
 export const notificationsPlugin = new Elysia({ prefix: '/api' })
   .use(coreContext)
+  .use(authContextPlugin)
 
   // GET /api/notifications/vapid-key
   .get(
@@ -75,12 +89,25 @@ export const notificationsPlugin = new Elysia({ prefix: '/api' })
   )
 
   // POST /api/notifications/subscribe
+  // The subscriber is recorded so that only sessions they can view are notified.
   .post(
     '/notifications/subscribe',
-    ({ body }) => {
-      // Check if subscription already exists
+    ({ body, user }) => {
+      const subscriber = user
+        ? { ...(user.name !== undefined && { name: user.name }), role: user.role }
+        : undefined;
+
+      // Check if subscription already exists (a different user replaces it below)
       const existing = getAllPushSubscriptions().find((s) => s.endpoint === body.endpoint);
-      if (existing) {
+      if (
+        existing &&
+        existing.user?.name === subscriber?.name &&
+        existing.user?.role === subscriber?.role
+      ) {
+        // Re-subscribing may change the kind filter
+        if (body.kinds && JSON.stringify(body.kinds) !== JSON.stringify(existing.kinds)) {
+          return setPushSubscriptionKinds(existing.id, body.kinds) ?? existing;
+        }
         return existing;
       }
 
@@ -90,6 +117,8 @@ export const notificationsPlugin = new Elysia({ prefix: '/api' })
         endpoint: body.endpoint,
         keys: body.keys,
         sessionName: body.sessionName,
+        kinds: body.kinds,
+        user: subscriber,
         createdAt: new Date().toISOString()
       };
 
@@ -105,12 +134,37 @@ export const notificationsPlugin = new Elysia({ prefix: '/api' })
           p256dh: t.String({ minLength: 1 }),
           auth: t.String({ minLength: 1 })
         }),
-        sessionName: t.Optional(t.String())
+        sessionName: t.Optional(t.String()),
+        kinds: t.Optional(NotificationKindsSchema)
       }),
       response: PushSubscriptionSchema
     }
   )
 
+  // PUT /api/notifications/subscribe/:id/kinds - Change which notification kinds are delivered
+  .put(
+    '/notifications/subscribe/:id/kinds',
+    ({ params, body, set }) => {
+      const updated = setPushSubscriptionKinds(params.id, body.kinds ?? undefined);
+      if (!updated) {
+        set.status = 404;
+        return { error: 'NOT_FOUND', message: `Subscription ${params.id} not found` };
+      }
+
+      log.info(`Subscription ${params.id} kinds: ${body.kinds?.join(', ') ?? 'all'}`);
+      return updated;
+    },
+    {
+      params: t.Object({ id: t.String() }),
+      // null = receive all kinds
+      body: t.Object({ kinds: t.Nullable(NotificationKindsSchema) }),
+      response: {
+        200: PushSubscriptionSchema,
+        404: ErrorResponseSchema
+      }
+    }
+  )
+
   // DELETE /api/notifications/subscribe/:id
   .delete(
     '/notifications/subscribe/:id',
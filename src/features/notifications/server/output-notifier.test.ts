@@ -0,0 +1,91 @@
+import { beforeEach, describe, expect, test } from 'bun:test';
+import { createOutputPatternNotifier, stripTerminalEscapes } from './output-notifier.js';
+import type { MatchResult, NotificationConfig } from './types.js';
+
+describe('OutputPatternNotifier', () => {
+  let config: NotificationConfig;
+  let matches: MatchResult[];
+
+  const createWatcher = (sessionName = 'session1') =>
+    createOutputPatternNotifier({
+      getConfig: () => config,
+      onMatch: (match) => matches.push(match)
+    }).createWatcher(sessionName);
+
+  beforeEach(() => {
+    config = {
+      enabled: true,
+      patterns: [{ regex: 'Tests failed', message: 'Tests failed' }],
+      default_cooldown: 300
+    };
+    matches = [];
+  });
+
+  test('matches complete lines with session name and text', () => {
+    const watcher = createWatcher('my-project');
+    watcher.handleOutput('running...\r\n3 Tests failed\r\n');
+
+    expect(matches).toHaveLength(1);
+    expect(matches[0]?.sessionName).toBe('my-project');
+    expect(matches[0]?.matchedText).toBe('3 Tests failed');
+    expect(matches[0]?.pattern.message).toBe('Tests failed');
+  });
+
+  test('buffers lines split across output chunks', () => {
+    const watcher = createWatcher();
+    watcher.handleOutput('Tests ');
+    expect(matches).toHaveLength(0);
+
+    watcher.handleOutput('failed\n');
+    expect(matches).toHaveLength(1);
+    watcher.dispose();
+  });
+
+  test('strips escape sequences before matching', () => {
+    const watcher = createWatcher();
+    watcher.handleOutput('\x1b[31mTests\x1b[0m failed\n');
+
+    expect(matches[0]?.matchedText).toBe('Tests failed');
+  });
+
+  test('matches a partial line after output goes idle', async () => {
+    config.patterns = [{ regex: 'Waiting for approval', message: 'Approval needed' }];
+    const watcher = createWatcher();
+    watcher.handleOutput('Waiting for approval ›');
+
+    expect(matches).toHaveLength(0);
+    await Bun.sleep(1100);
+    expect(matches).toHaveLength(1);
+  });
+
+  test('respects pattern cooldown', () => {
+    const watcher = createWatcher();
+    watcher.handleOutput('Tests failed\nTests failed\n');
+
+    expect(matches).toHaveLength(1);
+  });
+
+  test('picks up pattern changes from reloaded config', () => {
+    const watcher = createWatcher();
+    watcher.handleOutput('Build broken\n');
+    expect(matches).toHaveLength(0);
+
+    config = { ...config, patterns: [{ regex: 'Build broken', message: 'Build broken' }] };
+    watcher.handleOutput('Build broken\n');
+    expect(matches).toHaveLength(1);
+  });
+
+  test('does nothing when notifications are disabled', () => {
+    config.enabled = false;
+    const watcher = createWatcher();
+    watcher.handleOutput('Tests failed\n');
+
+    expect(matches).toHaveLength(0);
+  });
+});
+
+describe('stripTerminalEscapes', () => {
+  test('removes CSI, OSC and control characters', () => {
+    expect(stripTerminalEscapes('\x1b[1;32mok\x1b[0m\x1b]0;title\x07\r')).toBe('ok');
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * Output pattern notifications
+ *
+ * Line-buffers decoded PTY output per session and runs it through the
+ * notification matcher (config.notifications.patterns). Patterns are read
+ * from the live config, so `bunterm reload` takes effect without a restart.
+ */
+
+import type { OutputWatcher } from '@/core/terminal/session-plugins.js';
+import { createNotificationMatcher, type NotificationMatcher } from './matcher.js';
+import type { MatchResult, NotificationConfig } from './types.js';
+
+/** Partial lines are matched after this much output silence (prompts rarely end in a newline) */
+const IDLE_FLUSH_MS = 1000;
+
+/** Maximum buffered partial line length before it is matched anyway */
+const MAX_LINE_LENGTH = 4096;
+
+/** ANSI CSI/OSC escape sequences and other control characters (except tab) */
+const ANSI_PATTERN =
+  /\x1b\[[0-9;?]*[ -/]*[@-~]|\x1b\][^\x07\x1b]*(?:\x07|\x1b\\)|\x1b[@-Z\\-_]|[\x00-\x08\x0b-\x1f\x7f]/g;
+
+export interface OutputPatternNotifierOptions {
+  /** Current notification config (re-read on every line so reloads apply) */
+  getConfig: () => NotificationConfig;
+  /** Called for each match that is not in cooldown */
+  onMatch: (match: MatchResult) => void;
+}
+
+/**
+ * Shared pattern matcher for all sessions
+ */
+export interface OutputPatternNotifier {
+  /** Create a per-session output watcher */
+  createWatcher(sessionName: string): OutputWatcher;
+}
+
+/**
+ * Remove escape sequences and control characters from a line of output
+ */
+export function stripTerminalEscapes(text: string): string {
+  return text.replace(ANSI_PATTERN, '');
+}
+
+/**
+ * Create an output pattern notifier
+ */
+export function createOutputPatternNotifier(
+  options: OutputPatternNotifierOptions
+): OutputPatternNotifier {
+  const { getConfig, onMatch } = options;
+
+  // Rebuilt whenever the patterns change (cooldowns reset with it)
+  let matcher: NotificationMatcher | null = null;
+  let matcherKey = '';
+
+  function getMatcher(): NotificationMatcher | null {
+    const config = getConfig();
+    const patterns = config.patterns ?? [];
+    if (config.enabled === false || patterns.length === 0) {
+      return null;
+    }
+    const key = JSON.stringify([patterns, config.default_cooldown]);
+    if (!matcher || key !== matcherKey) {
+      matcher = createNotificationMatcher({
+        patterns,
+        defaultCooldown: config.default_cooldown ?? 300
+      });
+      matcherKey = key;
+    }
+    return matcher;
+  }
+
+  function matchLine(sessionName: string, rawLine: string): void {
+    const line = stripTerminalEscapes(rawLine).trim();
+    if (!line) {
+      return;
+    }
+    const result = getMatcher()?.match(sessionName, line);
+    if (result) {
+      onMatch(result);
+    }
+  }
+
+  return {
+    createWatcher(sessionName: string): OutputWatcher {
+      let pending = '';
+      let idleTimer: ReturnType<typeof setTimeout> | null = null;
+
+      const clearIdleTimer = () => {
+        if (idleTimer) {
+          clearTimeout(idleTimer);
+          idleTimer = null;
+        }
+      };
+
+      const flushPending = () => {
+        idleTimer = null;
+        const line = pending;
+        pending = '';
+        matchLine(sessionName, line);
+      };
+
+      return {
+        handleOutput(text: string): void {
+          clearIdleTimer();
+          if (!getMatcher()) {
+            pending = '';
+            return;
+          }
+
+          const lines = (pending + text).split('\n');
+          pending = lines.pop() ?? '';
+          for (const line of lines) {
+            matchLine(sessionName, line);
+          }
+
+          if (pending.length > MAX_LINE_LENGTH) {
+            flushPending();
+          } else if (pending) {
+            idleTimer = setTimeout(flushPending, IDLE_FLUSH_MS);
+            idleTimer.unref?.();
+          }
+        },
+
+        dispose(): void {
+          clearIdleTimer();
+          pending = '';
+        }
+      };
+    }
+  };
+}
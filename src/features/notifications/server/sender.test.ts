@@ -0,0 +1,56 @@
+/**
+ * Tests for per-subscription filtering in the push notification sender
+ */
+
+import { describe, expect, test } from 'bun:test';
+import { AccessControl } from '@/core/server/auth/access-control.js';
+import { subscriptionAcceptsKind, subscriptionCanView } from './sender.js';
+import type { PushSubscription } from './types.js';
+
+function makeSubscription(overrides: Partial<PushSubscription> = {}): PushSubscription {
+  return {
+    id: 'sub1',
+    endpoint: 'https://push.example.com/sub1',
+    keys: { p256dh: 'p256dh', auth: 'auth' },
+    createdAt: '2026-01-01T00:00:00.000Z',
+    ...overrides
+  };
+}
+
+describe('subscriptionAcceptsKind', () => {
+  test('accepts every kind without a filter', () => {
+    expect(subscriptionAcceptsKind(makeSubscription(), 'agent')).toBe(true);
+    expect(subscriptionAcceptsKind(makeSubscription({ kinds: ['terminal'] }), 'agent')).toBe(false);
+  });
+});
+
+describe('subscriptionCanView', () => {
+  const accessControl = new AccessControl({
+    users: [{ name: 'alice', role: 'admin' }],
+    defaultRole: 'viewer',
+    sessionAcls: [{ session: 'prod', allow: [{ user: 'bob', permissions: ['view'] }] }]
+  });
+
+  test('skips sessions the subscriber cannot view', () => {
+    const carol = makeSubscription({ user: { name: 'carol', role: 'viewer' } });
+    const bob = makeSubscription({ user: { name: 'bob', role: 'viewer' } });
+
+    expect(subscriptionCanView(carol, 'prod', accessControl)).toBe(false);
+    expect(subscriptionCanView(carol, 'dev', accessControl)).toBe(true);
+    expect(subscriptionCanView(bob, 'prod', accessControl)).toBe(true);
+  });
+
+  test('uses the current role of named users and the default role without a user', () => {
+    // Subscribed as a viewer, promoted to admin in the user file since
+    const alice = makeSubscription({ user: { name: 'alice', role: 'viewer' } });
+    const owner = makeSubscription({ user: { role: 'admin' } });
+
+    expect(subscriptionCanView(alice, 'prod', accessControl)).toBe(true);
+    expect(subscriptionCanView(owner, 'prod', accessControl)).toBe(true);
+    expect(subscriptionCanView(makeSubscription(), 'prod', accessControl)).toBe(false);
+  });
+
+  test('delivers everything without access control', () => {
+    expect(subscriptionCanView(makeSubscription(), 'prod', null)).toBe(true);
+  });
+});
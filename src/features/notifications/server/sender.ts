@@ -3,8 +3,9 @@
  */
 
 import webpush from 'web-push';
+import type { AccessControl } from '@/core/server/auth/access-control.js';
 import { createLogger } from '@/utils/logger.js';
-import type { MatchResult, PushSubscription, VapidKeys } from './types.js';
+import type { MatchResult, NotificationKind, PushSubscription, VapidKeys } from './types.js';
 
 const log = createLogger('notification');
 
@@ -17,10 +18,34 @@ export interface NotificationPayload {
   sessionName: string;
   matchedText: string;
   timestamp: string;
+  /** Notification source, used for per-subscription filtering */
+  kind: NotificationKind;
+  /** Page opened when the notification is clicked */
+  url?: string;
   icon?: string;
   tag?: string;
 }
 
+/**
+ * Overrides for pattern-match notifications
+ */
+export interface SendNotificationOptions {
+  /** Notification kind (default: 'pattern') */
+  kind?: NotificationKind;
+  /** Click-through URL (default: the session page) */
+  url?: string;
+}
+
+/**
+ * Sender options
+ */
+export interface NotificationSenderOptions {
+  /** Base path used to build session deep links (e.g. "/bunterm") */
+  basePath?: string;
+  /** Session ACLs; without it every subscriber receives every session */
+  accessControl?: AccessControl | null;
+}
+
 /**
  * Subscription store interface
  */
@@ -35,7 +60,11 @@ export interface SubscriptionStore {
  */
 export interface NotificationSender {
   /** Send notification to all relevant subscribers */
-  sendNotification(match: MatchResult): Promise<number>;
+  sendNotification(match: MatchResult, options?: SendNotificationOptions): Promise<number>;
+  /** Send a prepared payload to subscribers of its session and kind */
+  sendPayload(payload: NotificationPayload): Promise<number>;
+  /** Session page URL for deep links */
+  getSessionUrl(sessionName: string): string;
   /** Send notification to a specific subscription */
   sendToSubscription(
     subscription: PushSubscription,
@@ -43,71 +72,118 @@ export interface NotificationSender {
   ): Promise<boolean>;
 }
 
+/**
+ * Check whether a subscription opted into a notification kind
+ */
+export function subscriptionAcceptsKind(
+  subscription: PushSubscription,
+  kind: NotificationKind
+): boolean {
+  return !subscription.kinds || subscription.kinds.includes(kind);
+}
+
+/**
+ * Check whether a subscription's user can view a session.
+ * Named users get their current role; subscriptions without a recorded
+ * user get the default role.
+ */
+export function subscriptionCanView(
+  subscription: PushSubscription,
+  sessionName: string,
+  accessControl: AccessControl | null | undefined
+): boolean {
+  if (!accessControl) {
+    return true;
+  }
+  const { user } = subscription;
+  const current = user && user.name === undefined ? user : accessControl.resolveUser(user?.name);
+  return accessControl.can(current, sessionName, 'view');
+}
+
 /**
  * Create a notification sender
  */
 export function createNotificationSender(
   vapidKeys: VapidKeys,
   contactEmail: string,
-  store: SubscriptionStore
+  store: SubscriptionStore,
+  options: NotificationSenderOptions = {}
 ): NotificationSender {
+  const basePath = options.basePath ?? '';
+
   // Configure web-push with VAPID details
   webpush.setVapidDetails(`mailto:${contactEmail}`, vapidKeys.publicKey, vapidKeys.privateKey);
 
-  return {
-    async sendNotification(match: MatchResult): Promise<number> {
-      const payload: NotificationPayload = {
-        title: match.pattern.message,
-        body: match.matchedText.slice(0, 200), // Truncate long text
-        sessionName: match.sessionName,
-        matchedText: match.matchedText,
-        timestamp: match.timestamp,
-        tag: `bunterm-${match.sessionName}`
-      };
+  const getSessionUrl = (sessionName: string): string =>
+    `${basePath}/${encodeURIComponent(sessionName)}/`;
+
+  async function sendPayload(payload: NotificationPayload): Promise<number> {
+    // Get subscriptions for this session (or all if no session filter) and kind
+    const subscriptions = store
+      .getSubscriptionsForSession(payload.sessionName)
+      .filter(
+        (s) =>
+          subscriptionAcceptsKind(s, payload.kind) &&
+          subscriptionCanView(s, payload.sessionName, options.accessControl)
+      );
 
-      // Get subscriptions for this session (or all if no session filter)
-      const subscriptions = store.getSubscriptionsForSession(match.sessionName);
+    if (subscriptions.length === 0) {
+      log.debug(`No ${payload.kind} subscriptions for session: ${payload.sessionName}`);
+      return 0;
+    }
 
-      if (subscriptions.length === 0) {
-        log.debug(`No subscriptions for session: ${match.sessionName}`);
-        return 0;
-      }
+    let sent = 0;
+    const invalidSubscriptions: string[] = [];
 
-      let sent = 0;
-      const invalidSubscriptions: string[] = [];
-
-      for (const subscription of subscriptions) {
-        try {
-          await webpush.sendNotification(
-            {
-              endpoint: subscription.endpoint,
-              keys: subscription.keys
-            },
-            JSON.stringify(payload)
-          );
-          sent++;
-          log.debug(`Sent notification to subscription: ${subscription.id}`);
-        } catch (error) {
-          const err = error as { statusCode?: number };
-          if (err.statusCode === 410 || err.statusCode === 404) {
-            // Subscription no longer valid
-            invalidSubscriptions.push(subscription.id);
-            log.debug(`Subscription expired: ${subscription.id}`);
-          } else {
-            log.error(`Failed to send notification: ${String(error)}`);
-          }
+    for (const subscription of subscriptions) {
+      try {
+        await webpush.sendNotification(
+          {
+            endpoint: subscription.endpoint,
+            keys: subscription.keys
+          },
+          JSON.stringify(payload)
+        );
+        sent++;
+        log.debug(`Sent notification to subscription: ${subscription.id}`);
+      } catch (error) {
+        const err = error as { statusCode?: number };
+        if (err.statusCode === 410 || err.statusCode === 404) {
+          // Subscription no longer valid
+          invalidSubscriptions.push(subscription.id);
+          log.debug(`Subscription expired: ${subscription.id}`);
+        } else {
+          log.error(`Failed to send notification: ${String(error)}`);
         }
       }
+    }
 
-      // Remove invalid subscriptions
-      for (const id of invalidSubscriptions) {
-        store.removeSubscription(id);
-      }
+    // Remove invalid subscriptions
+    for (const id of invalidSubscriptions) {
+      store.removeSubscription(id);
+    }
 
-      log.info(
-        `Sent ${sent}/${subscriptions.length} notifications for pattern: ${match.pattern.message}`
-      );
-      return sent;
+    log.info(
+      `Sent ${sent}/${subscriptions.length} ${payload.kind} notifications: ${payload.title}`
+    );
+    return sent;
+  }
+
+  return {
+    getSessionUrl,
+    sendPayload,
+
+    sendNotification(match: MatchResult, sendOptions: SendNotificationOptions = {}) {
+      return sendPayload({
+        title: match.pattern.message,
+        body: match.matchedText.slice(0, 200), // Truncate long text
+        sessionName: match.sessionName,
+        matchedText: match.matchedText,
+        timestamp: match.timestamp,
+        kind: sendOptions.kind ?? 'pattern',
+        url: sendOptions.url ?? getSessionUrl(match.sessionName),
+        tag: `bunterm-${match.sessionName}`
+      });
     },
 
     async sendToSubscription(
@@ -0,0 +1,139 @@
+import { beforeEach, describe, expect, test } from 'bun:test';
+import type { AgentActivity } from '@/core/terminal/session-plugins.js';
+import type { NotificationPayload } from './sender.js';
+import {
+  buildTerminalNotification,
+  createTerminalNotifier,
+  describeAgentActivity
+} from './terminal-notifier.js';
+import type { NotificationConfig } from './types.js';
+
+const CWD = '/home/user/project';
+const NOW = Date.parse('2026-01-01T12:00:00.000Z');
+
+function toolUse(toolName: string, input: Record<string, unknown>, timestamp = NOW): AgentActivity {
+  return {
+    type: 'claudeToolUse',
+    uuid: 'u1',
+    toolId: 't1',
+    toolName,
+    input,
+    timestamp: new Date(timestamp).toISOString()
+  };
+}
+
+describe('describeAgentActivity', () => {
+  test('shows file paths relative to the session directory', () => {
+    const activity = toolUse('Edit', { file_path: `${CWD}/src/foo.ts`, old_string: 'a' });
+    expect(describeAgentActivity(activity, CWD)).toBe('Edit src/foo.ts');
+  });
+
+  test('keeps paths outside the session directory absolute', () => {
+    const activity = toolUse('Read', { file_path: '/etc/hosts' });
+    expect(describeAgentActivity(activity, CWD)).toBe('Read /etc/hosts');
+  });
+
+  test('uses the first line of a Bash command', () => {
+    const activity = toolUse('Bash', { command: 'npm test\necho done' });
+    expect(describeAgentActivity(activity, CWD)).toBe('Bash npm test');
+  });
+
+  test('falls back to the tool name', () => {
+    expect(describeAgentActivity(toolUse('TodoWrite', { todos: [] }), CWD)).toBe('TodoWrite');
+  });
+
+  test('summarizes assistant text by its first line', () => {
+    const activity: AgentActivity = {
+      type: 'claudeAssistantText',
+      uuid: 'u2',
+      text: 'I updated the parser.\nNext I will run the tests.',
+      timestamp: new Date(NOW).toISOString()
+    };
+    expect(describeAgentActivity(activity, CWD)).toBe('I updated the parser.');
+  });
+});
+
+describe('buildTerminalNotification', () => {
+  test('uses OSC 777 title and body', () => {
+    const result = buildTerminalNotification(
+      'dev',
+      CWD,
+      { type: 'osc777', title: 'Build', body: 'Compilation finished' },
+      null,
+      NOW
+    );
+    expect(result).toEqual({ title: 'Build', body: 'Compilation finished' });
+  });
+
+  test('adds Claude context for recent activity', () => {
+    const activity = toolUse('Edit', { file_path: `${CWD}/src/foo.ts` }, NOW - 5000);
+    const result = buildTerminalNotification(
+      'dev',
+      CWD,
+      { type: 'osc9', body: 'Claude needs your permission' },
+      activity,
+      NOW
+    );
+    expect(result.title).toBe('bunterm: dev');
+    expect(result.body).toBe('Claude needs your permission\nClaude is waiting: Edit src/foo.ts');
+  });
+
+  test('ignores stale activity', () => {
+    const activity = toolUse('Edit', { file_path: `${CWD}/src/foo.ts` }, NOW - 60 * 60 * 1000);
+    const result = buildTerminalNotification(
+      'dev',
+      CWD,
+      { type: 'osc9', body: 'Done' },
+      activity,
+      NOW
+    );
+    expect(result.body).toBe('Done');
+  });
+});
+
+describe('createTerminalNotifier', () => {
+  let config: NotificationConfig;
+  let sent: NotificationPayload[];
+
+  const createNotifier = () =>
+    createTerminalNotifier({
+      sessionName: 'dev',
+      cwd: CWD,
+      getConfig: () => config,
+      url: '/bunterm/dev/',
+      send: (payload) => sent.push(payload)
+    });
+
+  beforeEach(() => {
+    config = { enabled: true, bell_cooldown: 10 };
+    sent = [];
+  });
+
+  test('sends a terminal push deep-linked to the session', () => {
+    createNotifier().notify({ type: 'osc99', body: 'Task complete' }, null);
+
+    expect(sent).toHaveLength(1);
+    expect(sent[0]).toMatchObject({
+      title: 'bunterm: dev',
+      body: 'Task complete',
+      sessionName: 'dev',
+      kind: 'terminal',
+      url: '/bunterm/dev/'
+    });
+  });
+
+  test('rate-limits notifications with the bell cooldown', () => {
+    const notifier = createNotifier();
+    notifier.notify({ type: 'osc9', body: 'one' }, null);
+    notifier.notify({ type: 'osc9', body: 'two' }, null);
+
+    expect(sent.map((p) => p.body)).toEqual(['one']);
+  });
+
+  test('does nothing when notifications are disabled', () => {
+    config.enabled = false;
+    createNotifier().notify({ type: 'osc9', body: 'hello' }, null);
+
+    expect(sent).toHaveLength(0);
+  });
+});
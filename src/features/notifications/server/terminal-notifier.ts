@@ -0,0 +1,122 @@
+/**
+ * Terminal notifications (OSC 9/99/777) as Web Push
+ *
+ * Programs running in a session raise notifications with OSC sequences.
+ * Each one becomes a push payload deep-linked to the session; for Claude
+ * sessions the body says what Claude was last doing
+ * (e.g. "Claude is waiting: Edit src/foo.ts").
+ */
+
+import { isAbsolute, relative } from 'node:path';
+import type { OscNotification } from '@/core/terminal/osc-notification-parser.js';
+import type { AgentActivity, SessionNotifier } from '@/core/terminal/session-plugins.js';
+import type { NotificationPayload } from './sender.js';
+import type { NotificationConfig } from './types.js';
+
+/** Agent activity older than this is not attached to notifications */
+const ACTIVITY_MAX_AGE_MS = 10 * 60 * 1000;
+
+/** Maximum length of the activity summary */
+const MAX_SUMMARY_LENGTH = 80;
+
+/** Tool input fields that best describe a tool call, in priority order */
+const TOOL_DETAIL_KEYS = ['file_path', 'notebook_path', 'command', 'pattern', 'url', 'description'];
+
+export interface TerminalNotifierOptions {
+  sessionName: string;
+  /** Session working directory (file paths are shown relative to it) */
+  cwd: string;
+  /** Current notification config (enabled flag and bell_cooldown) */
+  getConfig: () => NotificationConfig;
+  /** Session page URL for the click-through link */
+  url: string;
+  send: (payload: NotificationPayload) => void;
+}
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max - 1)}…` : text;
+}
+
+/**
+ * Summarize agent activity in one line (e.g. "Edit src/foo.ts", "Bash npm test")
+ */
+export function describeAgentActivity(activity: AgentActivity, cwd: string): string {
+  if (activity.type === 'claudeAssistantText') {
+    const firstLine = activity.text.trim().split('\n')[0] ?? '';
+    return truncate(firstLine, MAX_SUMMARY_LENGTH);
+  }
+
+  const detailKey = TOOL_DETAIL_KEYS.find((key) => typeof activity.input[key] === 'string');
+  if (!detailKey) {
+    return activity.toolName;
+  }
+  let detail = (activity.input[detailKey] as string).split('\n')[0] ?? '';
+  if (detailKey.endsWith('_path') && isAbsolute(detail)) {
+    const rel = relative(cwd, detail);
+    detail = rel.startsWith('..') ? detail : rel;
+  }
+  return truncate(`${activity.toolName} ${detail}`, MAX_SUMMARY_LENGTH);
+}
+
+/**
+ * Build the push title/body for a terminal notification
+ */
+export function buildTerminalNotification(
+  sessionName: string,
+  cwd: string,
+  notification: OscNotification,
+  activity: AgentActivity | null,
+  now: number = Date.now()
+): { title: string; body: string } {
+  const title = notification.title || `bunterm: ${sessionName}`;
+  const lines = notification.body ? [notification.body] : [];
+
+  const activityAge = activity ? now - Date.parse(activity.timestamp) : Number.POSITIVE_INFINITY;
+  if (activity && activityAge <= ACTIVITY_MAX_AGE_MS) {
+    lines.push(`Claude is waiting: ${describeAgentActivity(activity, cwd)}`);
+  }
+
+  return { title, body: lines.join('\n') || title };
+}
+
+/**
+ * Create the per-session notifier that turns OSC notifications into Web Push
+ */
+export function createTerminalNotifier(options: TerminalNotifierOptions): SessionNotifier {
+  const { sessionName, cwd, getConfig, url, send } = options;
+  let lastSentAt = 0;
+
+  return {
+    notify(notification, activity) {
+      const config = getConfig();
+      if (config.enabled === false) {
+        return;
+      }
+
+      // Rate-limit noisy programs (shares the bell cooldown)
+      const now = Date.now();
+      if (now - lastSentAt < (config.bell_cooldown ?? 10) * 1000) {
+        return;
+      }
+      lastSentAt = now;
+
+      const { title, body } = buildTerminalNotification(
+        sessionName,
+        cwd,
+        notification,
+        activity,
+        now
+      );
+      send({
+        title,
+        body: truncate(body, 200),
+        sessionName,
+        matchedText: notification.body,
+        timestamp: new Date(now).toISOString(),
+        kind: 'terminal',
+        url,
+        tag: `bunterm-${sessionName}`
+      });
+    }
+  };
+}
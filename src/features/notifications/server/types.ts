@@ -2,6 +2,11 @@
  * Notification system types
  */
 
+import type { NotificationKind } from '@/core/config/types.js';
+import type { AuthUser } from '@/core/server/auth/access-control.js';
+
+export type { NotificationKind };
+
 /**
  * Pattern configuration for notification triggers
  */
@@ -29,6 +34,10 @@ export interface PushSubscription {
   };
   /** Session name this subscription is for (optional, null = all sessions) */
   sessionName?: string;
+  /** Notification kinds to receive (optional, omitted = all kinds) */
+  kinds?: NotificationKind[];
+  /** Subscriber (optional, omitted = subscribed before users were recorded) */
+  user?: AuthUser;
   /** Created timestamp */
   createdAt: string;
 }
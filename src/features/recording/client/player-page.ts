@@ -0,0 +1,59 @@
+/**
+ * Recording Player Page HTML Generator
+ *
+ * Generates the asciicast player page. Playback uses the same xterm.js
+ * bundle as terminal pages; controls live in external JS/CSS (CSP-safe).
+ */
+
+import { escapeHtml } from '@/core/server/portal-utils.js';
+
+/**
+ * Generate player page HTML
+ */
+export function generatePlayerHtml(basePath: string, recordingId: string, nonce: string): string {
+  const base = escapeHtml(basePath);
+  const config = JSON.stringify({
+    basePath,
+    castUrl: `${basePath}/api/recordings/${encodeURIComponent(recordingId)}/download`
+  });
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${escapeHtml(recordingId)} - bunterm recording</title>
+  <link rel="stylesheet" href="${base}/xterm.css">
+  <link rel="stylesheet" href="${base}/recordings/player.css">
+</head>
+<body>
+  <div class="player-header">
+    <a href="${base}/" class="back-link">&larr; Portal</a>
+    <h1>${escapeHtml(recordingId)}</h1>
+    <a href="${base}/api/recordings/${encodeURIComponent(recordingId)}/download" class="download-link">Download .cast</a>
+  </div>
+
+  <div id="playerTerminal" class="player-terminal"></div>
+
+  <div class="player-controls">
+    <button id="playPauseBtn" class="player-btn" disabled>Play</button>
+    <input id="seekBar" class="player-seek" type="range" min="0" max="0" step="0.1" value="0" disabled>
+    <span id="timeLabel" class="player-time">0:00 / 0:00</span>
+    <select id="speedSelect" class="player-speed">
+      <option value="0.5">0.5x</option>
+      <option value="1" selected>1x</option>
+      <option value="2">2x</option>
+      <option value="4">4x</option>
+      <option value="8">8x</option>
+    </select>
+  </div>
+
+  <div id="playerStatus" class="player-status">Loading recording...</div>
+
+  <script nonce="${escapeHtml(nonce)}">window.__PLAYER_CONFIG__ = ${config.replace(/</g, '\\u003c')};</script>
+  <script src="${base}/xterm-bundle.js" nonce="${escapeHtml(nonce)}"></script>
+  <script src="${base}/recordings/player.js" nonce="${escapeHtml(nonce)}"></script>
+</body>
+</html>
+`;
+}
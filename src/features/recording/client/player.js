@@ -0,0 +1,225 @@
+/**
+ * Recording Player JavaScript
+ *
+ * Loads an asciicast v2 file and replays it into an xterm.js terminal
+ * (from xterm-bundle.js) with play/pause, seek and speed controls.
+ * Reads configuration from window.__PLAYER_CONFIG__.
+ */
+(() => {
+  var CONFIG = window.__PLAYER_CONFIG__ || {};
+  var container = document.getElementById('playerTerminal');
+  var playPauseBtn = document.getElementById('playPauseBtn');
+  var seekBar = document.getElementById('seekBar');
+  var timeLabel = document.getElementById('timeLabel');
+  var speedSelect = document.getElementById('speedSelect');
+  var statusEl = document.getElementById('playerStatus');
+
+  // === State ===
+  var header = null;
+  var events = []; // [time, code, data]
+  var duration = 0;
+  var terminal = null;
+  var position = 0; // seconds into the recording
+  var nextIndex = 0; // next event to apply
+  var playing = false;
+  var speed = 1;
+  var lastTick = 0;
+  var frameId = null;
+
+  // === Utilities ===
+
+  function formatDuration(seconds) {
+    var total = Math.floor(seconds);
+    var h = Math.floor(total / 3600);
+    var m = Math.floor((total % 3600) / 60);
+    var s = total % 60;
+    var mm = h > 0 && m < 10 ? `0${m}` : String(m);
+    var ss = s < 10 ? `0${s}` : String(s);
+    var hh = h > 0 ? `${h}:` : '';
+    return `${hh}${mm}:${ss}`;
+  }
+
+  function setStatus(text) {
+    if (!statusEl) return;
+    statusEl.textContent = text;
+    statusEl.style.display = text ? '' : 'none';
+  }
+
+  function updateTimeDisplay() {
+    if (seekBar) seekBar.value = String(position);
+    if (timeLabel) {
+      timeLabel.textContent = `${formatDuration(position)} / ${formatDuration(duration)}`;
+    }
+  }
+
+  // === Parsing ===
+
+  function parseCast(text) {
+    var lines = text.split('\n');
+    var parsedHeader = JSON.parse(lines[0]);
+    if (!parsedHeader || parsedHeader.version !== 2) {
+      throw new Error('Unsupported asciicast version');
+    }
+    var parsedEvents = [];
+    for (var i = 1; i < lines.length; i++) {
+      if (!lines[i]) continue;
+      try {
+        var ev = JSON.parse(lines[i]);
+        if (Array.isArray(ev) && ev.length >= 3) parsedEvents.push(ev);
+      } catch (_e) {
+        // Truncated last line of a recording still in progress
+      }
+    }
+    return { header: parsedHeader, events: parsedEvents };
+  }
+
+  // === Playback ===
+
+  function applyEvent(ev) {
+    if (ev[1] === 'o') {
+      terminal.write(ev[2]);
+    } else if (ev[1] === 'r') {
+      var size = String(ev[2]).split('x');
+      var cols = parseInt(size[0], 10);
+      var rows = parseInt(size[1], 10);
+      if (cols > 0 && rows > 0) terminal.resize(cols, rows);
+    }
+  }
+
+  /** Apply all events up to `target`, batching consecutive output writes */
+  function applyUntil(target) {
+    var pending = '';
+    while (nextIndex < events.length && events[nextIndex][0] <= target) {
+      var ev = events[nextIndex];
+      if (ev[1] === 'o') {
+        pending += ev[2];
+      } else {
+        if (pending) {
+          terminal.write(pending);
+          pending = '';
+        }
+        applyEvent(ev);
+      }
+      nextIndex++;
+    }
+    if (pending) terminal.write(pending);
+  }
+
+  function tick(now) {
+    if (!playing) return;
+    position = Math.min(duration, position + ((now - lastTick) / 1000) * speed);
+    lastTick = now;
+    applyUntil(position);
+    updateTimeDisplay();
+
+    if (position >= duration) {
+      pause();
+      return;
+    }
+    frameId = requestAnimationFrame(tick);
+  }
+
+  function play() {
+    if (playing || !terminal) return;
+    if (position >= duration) seek(0);
+    playing = true;
+    lastTick = performance.now();
+    if (playPauseBtn) playPauseBtn.textContent = 'Pause';
+    frameId = requestAnimationFrame(tick);
+  }
+
+  function pause() {
+    playing = false;
+    if (frameId !== null) {
+      cancelAnimationFrame(frameId);
+      frameId = null;
+    }
+    if (playPauseBtn) playPauseBtn.textContent = 'Play';
+  }
+
+  function seek(target) {
+    var clamped = Math.max(0, Math.min(duration, target));
+    if (clamped < position) {
+      // Rewind: replay from the beginning
+      terminal.reset();
+      terminal.resize(header.width, header.height);
+      nextIndex = 0;
+    }
+    position = clamped;
+    applyUntil(position);
+    lastTick = performance.now();
+    updateTimeDisplay();
+  }
+
+  // === Setup ===
+
+  function initTerminal() {
+    var Terminal = window.XtermBundle?.Terminal;
+    if (!Terminal) {
+      throw new Error('xterm bundle not loaded');
+    }
+    terminal = new Terminal({
+      cols: header.width,
+      rows: header.height,
+      disableStdin: true,
+      cursorBlink: false,
+      scrollback: 10000,
+      fontSize: 14,
+      fontFamily: 'Menlo, Monaco, "Courier New", monospace',
+      theme: { background: '#1e1e1e', foreground: '#d4d4d4' }
+    });
+    terminal.open(container);
+  }
+
+  function bindControls() {
+    playPauseBtn.disabled = false;
+    seekBar.disabled = false;
+    seekBar.max = String(duration);
+
+    // biome-ignore lint: static page script
+    playPauseBtn.addEventListener('click', () => {
+      if (playing) pause();
+      else play();
+    });
+    // biome-ignore lint: static page script
+    seekBar.addEventListener('input', () => {
+      seek(parseFloat(seekBar.value));
+    });
+    // biome-ignore lint: static page script
+    speedSelect.addEventListener('change', () => {
+      speed = parseFloat(speedSelect.value) || 1;
+    });
+    // biome-ignore lint: static page script
+    document.addEventListener('keydown', (e) => {
+      if (e.key === ' ' && e.target === document.body) {
+        e.preventDefault();
+        if (playing) pause();
+        else play();
+      } else if (e.key === 'ArrowRight') {
+        seek(position + 5);
+      } else if (e.key === 'ArrowLeft') {
+        seek(position - 5);
+      }
+    });
+  }
+
+  async function load() {
+    try {
+      var res = await fetch(CONFIG.castUrl, { credentials: 'same-origin' });
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      var parsed = parseCast(await res.text());
+      header = parsed.header;
+      events = parsed.events;
+      duration = events.length > 0 ? events[events.length - 1][0] : 0;
+
+      initTerminal();
+      bindControls();
+      updateTimeDisplay();
+      setStatus(events.length === 0 ? 'Recording is empty.' : '');
+    } catch (e) {
+      setStatus(`Failed to load recording: ${e?.message || e}`);
+    }
+  }
+
+  load();
+})();
@@ -0,0 +1,132 @@
+/**
+ * Asciicast v2 - Writer and header reader
+ *
+ * File format (https://docs.asciinema.org/manual/asciicast/v2/):
+ * - Line 1: JSON header ({"version": 2, "width", "height", "timestamp", ...})
+ * - Following lines: JSON event arrays [elapsedSeconds, code, data]
+ *   where code is "o" (output) or "r" (resize, data = "COLSxROWS")
+ */
+
+import { closeSync, openSync, readSync, writeSync } from 'node:fs';
+import { z } from 'zod';
+import { parseJsonString } from '@/utils/parse-helpers.js';
+
+export const AsciicastHeaderSchema = z
+  .object({
+    version: z.literal(2),
+    width: z.number().int().positive(),
+    height: z.number().int().positive(),
+    timestamp: z.number().optional(),
+    title: z.string().optional()
+  })
+  .passthrough();
+
+export type AsciicastHeader = z.infer<typeof AsciicastHeaderSchema>;
+
+/** Maximum header size read when listing recordings */
+const HEADER_READ_BYTES = 4096;
+
+export interface AsciicastWriterOptions {
+  width: number;
+  height: number;
+  title?: string;
+  /** Recording start time (default: now) */
+  startedAt?: Date;
+}
+
+/**
+ * Append-only asciicast v2 writer.
+ * Events are written synchronously so a crash loses at most the current event.
+ */
+export class AsciicastWriter {
+  private fd: number | null;
+  private readonly startTime: number;
+  // Streaming decoder so multi-byte characters split across PTY reads stay intact
+  private readonly decoder = new TextDecoder('utf-8', { fatal: false });
+
+  constructor(path: string, options: AsciicastWriterOptions) {
+    const startedAt = options.startedAt ?? new Date();
+    this.startTime = performance.now();
+    // Recordings contain raw terminal output, so keep them owner-only
+    this.fd = openSync(path, 'w', 0o600);
+
+    const header: AsciicastHeader = {
+      version: 2,
+      width: options.width,
+      height: options.height,
+      timestamp: Math.floor(startedAt.getTime() / 1000),
+      ...(options.title !== undefined && { title: options.title }),
+      env: { TERM: 'xterm-256color' }
+    };
+    this.writeLine(header);
+  }
+
+  /**
+   * Record PTY output
+   */
+  output(data: Uint8Array): void {
+    const text = this.decoder.decode(data, { stream: true });
+    if (text.length > 0) {
+      this.writeLine([this.elapsed(), 'o', text]);
+    }
+  }
+
+  /**
+   * Record a terminal resize
+   */
+  resize(cols: number, rows: number): void {
+    this.writeLine([this.elapsed(), 'r', `${cols}x${rows}`]);
+  }
+
+  close(): void {
+    if (this.fd === null) {
+      return;
+    }
+    const rest = this.decoder.decode();
+    if (rest.length > 0) {
+      this.writeLine([this.elapsed(), 'o', rest]);
+    }
+    closeSync(this.fd);
+    this.fd = null;
+  }
+
+  get closed(): boolean {
+    return this.fd === null;
+  }
+
+  private elapsed(): number {
+    return Math.round(performance.now() - this.startTime) / 1000;
+  }
+
+  private writeLine(value: unknown): void {
+    if (this.fd === null) {
+      return;
+    }
+    writeSync(this.fd, `${JSON.stringify(value)}\n`);
+  }
+}
+
+/**
+ * Read and validate the header line of an asciicast file.
+ * Returns null if the file cannot be read or is not asciicast v2.
+ */
+export function readAsciicastHeader(path: string): AsciicastHeader | null {
+  let fd: number;
+  try {
+    fd = openSync(path, 'r');
+  } catch {
+    return null;
+  }
+
+  try {
+    const buffer = Buffer.alloc(HEADER_READ_BYTES);
+    const bytesRead = readSync(fd, buffer, 0, HEADER_READ_BYTES, 0);
+    const firstLine = buffer.subarray(0, bytesRead).toString('utf-8').split('\n', 1)[0] ?? '';
+    const parsed = parseJsonString(AsciicastHeaderSchema, 'file', firstLine);
+    return parsed.ok ? parsed.value : null;
+  } catch {
+    return null;
+  } finally {
+    closeSync(fd);
+  }
+}
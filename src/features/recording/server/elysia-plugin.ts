@@ -0,0 +1,188 @@
+/**
+ * Recordings API Routes (Elysia)
+ *
+ * Start/stop asciicast recording of sessions, list recordings,
+ * download .cast files and serve the browser player page.
+ */
+
+import { randomBytes } from 'node:crypto';
+import { Elysia, t } from 'elysia';
+import { match } from 'ts-pattern';
+import { coreContext } from '@/core/server/elysia/context.js';
+import { ErrorResponseSchema } from '@/core/server/elysia/errors.js';
+import { authContextPlugin } from '@/core/server/elysia/middleware/auth.js';
+import { securityHeadersPlugin } from '@/core/server/elysia/middleware/security-headers.js';
+import {
+  generatePlayerHtml,
+  servePlayerCss,
+  servePlayerJs
+} from '@/features/recording/client/index.js';
+import type { RecordingError } from './recording-manager.js';
+
+// === Response Schemas ===
+
+const RecordingInfoSchema = t.Object({
+  id: t.String(),
+  sessionName: t.String(),
+  startedAt: t.String(),
+  size: t.Number(),
+  active: t.Boolean()
+});
+
+const RecordingSessionBodySchema = t.Object({
+  session: t.String({ minLength: 1 })
+});
+
+// === Helpers ===
+
+function recordingErrorResponse(code: RecordingError, sessionName: string) {
+  return match(code)
+    .with('SESSION_NOT_FOUND', () => ({
+      status: 404 as const,
+      body: { error: code, message: `Session '${sessionName}' not found` }
+    }))
+    .with('ALREADY_RECORDING', () => ({
+      status: 409 as const,
+      body: { error: code, message: `Session '${sessionName}' is already being recorded` }
+    }))
+    .with('NOT_RECORDING', () => ({
+      status: 404 as const,
+      body: { error: code, message: `Session '${sessionName}' is not being recorded` }
+    }))
+    .exhaustive();
+}
+
+const RECORDING_MANAGER_NOT_INITIALIZED = {
+  error: 'RECORDING_MANAGER_NOT_INITIALIZED',
+  message: 'Recording manager is not initialized'
+};
+
+// === API Plugin ===
+
+export const recordingsPlugin = new Elysia({ prefix: '/api' })
+  .use(coreContext)
+  .use(authContextPlugin)
+
+  // GET /api/recordings - List recordings of sessions the user can view (newest first)
+  .get(
+    '/recordings',
+    ({ recordingManager, can }) => {
+      return (recordingManager?.list() ?? []).filter((r) => can(r.sessionName, 'view'));
+    },
+    { response: t.Array(RecordingInfoSchema) }
+  )
+
+  // POST /api/recordings - Start recording a session
+  .post(
+    '/recordings',
+    ({ recordingManager, body, set }) => {
+      if (!recordingManager) {
+        set.status = 500;
+        return RECORDING_MANAGER_NOT_INITIALIZED;
+      }
+      const result = recordingManager.start(body.session);
+      if (!result.ok) {
+        const { status, body: errorBody } = recordingErrorResponse(result.error, body.session);
+        set.status = status;
+        return errorBody;
+      }
+      return result.value;
+    },
+    {
+      body: RecordingSessionBodySchema,
+      response: {
+        200: RecordingInfoSchema,
+        404: ErrorResponseSchema,
+        409: ErrorResponseSchema,
+        500: ErrorResponseSchema
+      }
+    }
+  )
+
+  // POST /api/recordings/stop - Stop recording a session
+  .post(
+    '/recordings/stop',
+    ({ recordingManager, body, set }) => {
+      if (!recordingManager) {
+        set.status = 500;
+        return RECORDING_MANAGER_NOT_INITIALIZED;
+      }
+      const result = recordingManager.stop(body.session);
+      if (!result.ok) {
+        set.status = 404;
+        return recordingErrorResponse(result.error, body.session).body;
+      }
+      return result.value;
+    },
+    {
+      body: RecordingSessionBodySchema,
+      response: {
+        200: RecordingInfoSchema,
+        404: ErrorResponseSchema,
+        500: ErrorResponseSchema
+      }
+    }
+  )
+
+  // GET /api/recordings/:id/download - Download an asciicast file
+  .get(
+    '/recordings/:id/download',
+    ({ recordingManager, params, set, can }) => {
+      // Recordings of sessions the user cannot view are reported as missing
+      const recording = recordingManager?.get(params.id);
+      const path =
+        recording && can(recording.sessionName, 'view')
+          ? recordingManager?.getFilePath(params.id)
+          : null;
+      if (!path) {
+        set.status = 404;
+        return { error: 'NOT_FOUND', message: `Recording '${params.id}' not found` };
+      }
+      return new Response(Bun.file(path), {
+        headers: {
+          'Content-Type': 'application/x-asciicast',
+          'Content-Disposition': `attachment; filename="${params.id}.cast"`,
+          'Cache-Control': 'no-store'
+        }
+      });
+    },
+    {
+      params: t.Object({ id: t.String() }),
+      response: { 404: ErrorResponseSchema }
+    }
+  );
+
+// === Player Page Plugin ===
+
+export const recordingPlayerPlugin = new Elysia()
+  .use(coreContext)
+  .use(authContextPlugin)
+  .use(securityHeadersPlugin)
+
+  // Player static files
+  .get('/recordings/player.js', ({ request }) => servePlayerJs(request))
+  .get('/recordings/player.css', ({ request }) => servePlayerCss(request))
+
+  // GET /basePath/recordings/:id - Player page
+  .get(
+    '/recordings/:id',
+    ({ recordingManager, config, params, store, can }) => {
+      const recording = recordingManager?.get(params.id);
+      if (!recording || !can(recording.sessionName, 'view')) {
+        return new Response('Recording not found', {
+          status: 404,
+          headers: { 'Content-Type': 'text/plain' }
+        });
+      }
+
+      const nonce = randomBytes(16).toString('base64');
+      store.cspNonce = nonce;
+      const html = generatePlayerHtml(config.base_path, params.id, nonce);
+      return new Response(html, {
+        headers: { 'Content-Type': 'text/html; charset=utf-8' }
+      });
+    },
+    {
+      params: t.Object({ id: t.String() })
+    }
+  );
@@ -0,0 +1,172 @@
+/**
+ * Tests for RecordingManager
+ */
+
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  createRecordingManager,
+  type RecordableSession,
+  type RecordingManager
+} from './recording-manager.js';
+
+function createFakeSession(name: string) {
+  const outputListeners = new Set<(data: Uint8Array) => void>();
+  const resizeListeners = new Set<(cols: number, rows: number) => void>();
+  const exitListeners = new Set<(code: number) => void>();
+  const encoder = new TextEncoder();
+
+  const session: RecordableSession = {
+    name,
+    info: { cols: 80, rows: 24 },
+    addRawOutputListener: (l) => outputListeners.add(l),
+    removeRawOutputListener: (l) => outputListeners.delete(l),
+    addResizeListener: (l) => resizeListeners.add(l),
+    removeResizeListener: (l) => resizeListeners.delete(l),
+    addExitListener: (l) => exitListeners.add(l),
+    removeExitListener: (l) => exitListeners.delete(l)
+  };
+
+  return {
+    session,
+    listenerCount: () => outputListeners.size + resizeListeners.size + exitListeners.size,
+    emitOutput: (text: string) => {
+      for (const l of outputListeners) l(encoder.encode(text));
+    },
+    emitResize: (cols: number, rows: number) => {
+      for (const l of resizeListeners) l(cols, rows);
+    },
+    emitExit: (code: number) => {
+      for (const l of Array.from(exitListeners)) l(code);
+    }
+  };
+}
+
+async function readCast(
+  path: string
+): Promise<{ header: Record<string, unknown>; events: unknown[][] }> {
+  const lines = (await Bun.file(path).text()).trim().split('\n');
+  return {
+    header: JSON.parse(lines[0]),
+    events: lines.slice(1).map((line) => JSON.parse(line))
+  };
+}
+
+describe('RecordingManager', () => {
+  let dir: string;
+  let fake: ReturnType<typeof createFakeSession>;
+  let manager: RecordingManager;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'bunterm-recording-test-'));
+    fake = createFakeSession('my-session');
+    manager = createRecordingManager({
+      dir: join(dir, 'recordings'),
+      getSession: (name) => (name === 'my-session' ? fake.session : undefined)
+    });
+  });
+
+  afterEach(() => {
+    manager.stopAll();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should reject unknown sessions', () => {
+    const result = manager.start('missing');
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error).toBe('SESSION_NOT_FOUND');
+    }
+  });
+
+  it('should reject starting a second recording for the same session', () => {
+    expect(manager.start('my-session').ok).toBe(true);
+    const second = manager.start('my-session');
+    expect(second.ok).toBe(false);
+    if (!second.ok) {
+      expect(second.error).toBe('ALREADY_RECORDING');
+    }
+  });
+
+  it('should return NOT_RECORDING when stopping an idle session', () => {
+    const result = manager.stop('my-session');
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error).toBe('NOT_RECORDING');
+    }
+  });
+
+  it('should write an asciicast v2 file with output and resize events', async () => {
+    const started = manager.start('my-session');
+    expect(started.ok).toBe(true);
+    if (!started.ok) return;
+    expect(started.value.id).toMatch(/^my-session-\d{8}T\d{6}Z$/);
+    expect(started.value.active).toBe(true);
+    expect(manager.isRecording('my-session')).toBe(true);
+
+    fake.emitOutput('hello\r\n');
+    fake.emitResize(120, 40);
+
+    const stopped = manager.stop('my-session');
+    expect(stopped.ok).toBe(true);
+    if (!stopped.ok) return;
+    expect(stopped.value.active).toBe(false);
+    expect(stopped.value.size).toBeGreaterThan(0);
+    expect(manager.isRecording('my-session')).toBe(false);
+    expect(fake.listenerCount()).toBe(0);
+
+    const path = manager.getFilePath(started.value.id);
+    expect(path).not.toBeNull();
+    const cast = await readCast(path as string);
+    expect(cast.header['version']).toBe(2);
+    expect(cast.header['width']).toBe(80);
+    expect(cast.header['height']).toBe(24);
+    expect(cast.header['title']).toBe('my-session');
+    expect(cast.events.map((e) => [e[1], e[2]])).toEqual([
+      ['o', 'hello\r\n'],
+      ['r', '120x40']
+    ]);
+  });
+
+  it('should finish the recording when the session exits', () => {
+    manager.start('my-session');
+    fake.emitExit(0);
+
+    expect(manager.isRecording('my-session')).toBe(false);
+    expect(fake.listenerCount()).toBe(0);
+    expect(manager.list()[0]?.active).toBe(false);
+  });
+
+  it('should list finished and active recordings', () => {
+    const first = manager.start('my-session');
+    manager.stop('my-session');
+    const second = manager.start('my-session');
+    if (!first.ok || !second.ok) throw new Error('start failed');
+
+    const ids = manager.list().map((r) => r.id);
+    expect(ids).toHaveLength(2);
+    expect(new Set(ids)).toEqual(new Set([first.value.id, second.value.id]));
+    expect(manager.list().find((r) => r.id === second.value.id)?.active).toBe(true);
+  });
+
+  it('should look up a recording with its session name', () => {
+    const started = manager.start('my-session');
+    if (!started.ok) throw new Error('start failed');
+
+    expect(manager.get(started.value.id)).toMatchObject({
+      id: started.value.id,
+      sessionName: 'my-session',
+      active: true
+    });
+    expect(manager.get('does-not-exist')).toBeNull();
+    expect(manager.get('../etc/passwd')).toBeNull();
+  });
+
+  it('should reject invalid recording IDs', () => {
+    expect(manager.getFilePath('../etc/passwd')).toBeNull();
+    expect(manager.getFilePath('a/b')).toBeNull();
+    expect(manager.getFilePath('does-not-exist')).toBeNull();
+  });
+});
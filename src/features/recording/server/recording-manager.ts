@@ -0,0 +1,256 @@
+/**
+ * Recording Manager - Opt-in asciicast recording of terminal sessions
+ *
+ * Recording taps TerminalSession through the same listener hooks as the
+ * Unix socket relay (raw PTY output + resize), so sessions are unaware of it.
+ * Recordings are written to `<stateDir>/recordings/<id>.cast`.
+ */
+
+import { existsSync, mkdirSync, readdirSync, statSync } from 'node:fs';
+import { join } from 'node:path';
+import { sanitizeName } from '@/utils/command-template.js';
+import { createLogger } from '@/utils/logger.js';
+import { err, ok, type Result } from '@/utils/result.js';
+import { AsciicastWriter, readAsciicastHeader } from './asciicast.js';
+
+const log = createLogger('recording');
+
+/** Directory (inside the state directory) holding recordings */
+export const RECORDINGS_DIRNAME = 'recordings';
+
+/** File extension for asciicast files */
+const CAST_EXTENSION = '.cast';
+
+/** Valid recording IDs (also guards against path traversal) */
+const RECORDING_ID_PATTERN = /^[A-Za-z0-9._-]+$/;
+
+/**
+ * Session hooks used for recording (implemented by TerminalSession)
+ */
+export interface RecordableSession {
+  readonly name: string;
+  readonly info: { cols: number; rows: number };
+  addRawOutputListener(listener: (data: Uint8Array) => void): void;
+  removeRawOutputListener(listener: (data: Uint8Array) => void): void;
+  addResizeListener(listener: (cols: number, rows: number) => void): void;
+  removeResizeListener(listener: (cols: number, rows: number) => void): void;
+  addExitListener(listener: (code: number) => void): void;
+  removeExitListener(listener: (code: number) => void): void;
+}
+
+export interface RecordingInfo {
+  id: string;
+  sessionName: string;
+  startedAt: string;
+  /** File size in bytes */
+  size: number;
+  /** True while the session is still being recorded */
+  active: boolean;
+}
+
+export type RecordingError = 'SESSION_NOT_FOUND' | 'ALREADY_RECORDING' | 'NOT_RECORDING';
+
+export interface RecordingManagerOptions {
+  /** Directory for .cast files */
+  dir: string;
+  /** Look up a running session by name */
+  getSession: (name: string) => RecordableSession | undefined;
+}
+
+interface ActiveRecording {
+  id: string;
+  startedAt: string;
+  writer: AsciicastWriter;
+  detach: () => void;
+}
+
+/**
+ * RecordingManager interface
+ */
+export interface RecordingManager {
+  start(sessionName: string): Result<RecordingInfo, RecordingError>;
+  stop(sessionName: string): Result<RecordingInfo, RecordingError>;
+  isRecording(sessionName: string): boolean;
+  list(): RecordingInfo[];
+  /** A recording by ID, or null if the ID is invalid or unknown */
+  get(id: string): RecordingInfo | null;
+  /** Absolute path of a recording file, or null if the ID is invalid or unknown */
+  getFilePath(id: string): string | null;
+  stopAll(): void;
+}
+
+/**
+ * Build a recording ID from the session name and start time
+ * (e.g. "my-project-20261018T145200Z")
+ */
+function buildRecordingId(sessionName: string, startedAt: Date): string {
+  const stamp = startedAt
+    .toISOString()
+    .replace(/[-:]/g, '')
+    .replace(/\.\d+Z$/, 'Z');
+  const safeName = sanitizeName(sessionName).replace(/[^A-Za-z0-9._-]/g, '_');
+  return `${safeName}-${stamp}`;
+}
+
+/**
+ * Create a RecordingManager
+ */
+export function createRecordingManager(options: RecordingManagerOptions): RecordingManager {
+  const { dir, getSession } = options;
+  const active = new Map<string, ActiveRecording>();
+
+  function pathFor(id: string): string {
+    return join(dir, `${id}${CAST_EXTENSION}`);
+  }
+
+  function existingPath(id: string): string | null {
+    if (!RECORDING_ID_PATTERN.test(id)) {
+      return null;
+    }
+    const path = pathFor(id);
+    return existsSync(path) ? path : null;
+  }
+
+  function infoFor(sessionName: string, recording: ActiveRecording): RecordingInfo {
+    return {
+      id: recording.id,
+      sessionName,
+      startedAt: recording.startedAt,
+      size: statSync(pathFor(recording.id)).size,
+      active: !recording.writer.closed
+    };
+  }
+
+  /**
+   * Read a recording's info from its file (null if it is not an asciicast)
+   */
+  function readInfo(id: string, activeIds: ReadonlySet<string>): RecordingInfo | null {
+    const path = pathFor(id);
+    const header = readAsciicastHeader(path);
+    if (!header) {
+      return null;
+    }
+    const stat = statSync(path);
+    return {
+      id,
+      sessionName: header.title ?? id,
+      startedAt: header.timestamp
+        ? new Date(header.timestamp * 1000).toISOString()
+        : stat.birthtime.toISOString(),
+      size: stat.size,
+      active: activeIds.has(id)
+    };
+  }
+
+  function activeIds(): Set<string> {
+    return new Set(Array.from(active.values(), (r) => r.id));
+  }
+
+  function finish(sessionName: string): RecordingInfo | null {
+    const recording = active.get(sessionName);
+    if (!recording) {
+      return null;
+    }
+    active.delete(sessionName);
+    recording.detach();
+    recording.writer.close();
+    log.info(`Stopped recording ${recording.id}`);
+    return infoFor(sessionName, recording);
+  }
+
+  return {
+    start(sessionName) {
+      const session = getSession(sessionName);
+      if (!session) {
+        return err('SESSION_NOT_FOUND');
+      }
+      if (active.has(sessionName)) {
+        return err('ALREADY_RECORDING');
+      }
+
+      if (!existsSync(dir)) {
+        mkdirSync(dir, { recursive: true, mode: 0o700 });
+      }
+
+      const startedAt = new Date();
+      // Disambiguate recordings started within the same second
+      let id = buildRecordingId(sessionName, startedAt);
+      for (let n = 2; existsSync(pathFor(id)); n++) {
+        id = `${buildRecordingId(sessionName, startedAt)}-${n}`;
+      }
+
+      const writer = new AsciicastWriter(pathFor(id), {
+        width: session.info.cols,
+        height: session.info.rows,
+        title: sessionName,
+        startedAt
+      });
+
+      const onOutput = (data: Uint8Array) => writer.output(data);
+      const onResize = (cols: number, rows: number) => writer.resize(cols, rows);
+      const onExit = () => {
+        finish(sessionName);
+      };
+      session.addRawOutputListener(onOutput);
+      session.addResizeListener(onResize);
+      session.addExitListener(onExit);
+
+      const recording: ActiveRecording = {
+        id,
+        startedAt: startedAt.toISOString(),
+        writer,
+        detach: () => {
+          session.removeRawOutputListener(onOutput);
+          session.removeResizeListener(onResize);
+          session.removeExitListener(onExit);
+        }
+      };
+      active.set(sessionName, recording);
+      log.info(`Started recording ${id}`);
+
+      return ok(infoFor(sessionName, recording));
+    },
+
+    stop(sessionName) {
+      const info = finish(sessionName);
+      return info ? ok(info) : err('NOT_RECORDING');
+    },
+
+    isRecording(sessionName) {
+      return active.has(sessionName);
+    },
+
+    list() {
+      if (!existsSync(dir)) {
+        return [];
+      }
+
+      const ids = activeIds();
+      const recordings: RecordingInfo[] = [];
+      for (const entry of readdirSync(dir)) {
+        if (!entry.endsWith(CAST_EXTENSION)) {
+          continue;
+        }
+        const info = readInfo(entry.slice(0, -CAST_EXTENSION.length), ids);
+        if (info) {
+          recordings.push(info);
+        }
+      }
+
+      // Newest first
+      return recordings.sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+    },
+
+    get(id) {
+      return existingPath(id) ? readInfo(id, activeIds()) : null;
+    },
+
+    getFilePath: existingPath,
+
+    stopAll() {
+      for (const sessionName of Array.from(active.keys())) {
+        finish(sessionName);
+      }
+    }
+  };
+}
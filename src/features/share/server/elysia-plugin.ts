@@ -8,6 +8,7 @@
 import { Elysia, t } from 'elysia';
 import { coreContext } from '@/core/server/elysia/context.js';
 import { ErrorResponseSchema } from '@/core/server/elysia/errors.js';
+import { authContextPlugin } from '@/core/server/elysia/middleware/auth.js';
 
 // === Response Schemas ===
 
@@ -27,15 +28,16 @@ const RevokeShareResponseSchema = t.Object({
 
 export const sharesPlugin = new Elysia({ prefix: '/api' })
   .use(coreContext)
+  .use(authContextPlugin)
 
-  // GET /api/shares - List all shares
+  // GET /api/shares - List shares of sessions the user can view
   .get(
     '/shares',
-    ({ shareManager }) => {
+    ({ shareManager, can }) => {
       if (!shareManager) {
         return [];
       }
-      return shareManager.listShares();
+      return shareManager.listShares().filter((share) => can(share.sessionName, 'view'));
     },
     { response: t.Array(ShareStateSchema) }
   )
@@ -79,17 +81,19 @@ export const sharesPlugin = new Elysia({ prefix: '/api' })
   // GET /api/shares/:token - Validate a share link
   .get(
     '/shares/:token',
-    ({ shareManager, params, error }) => {
+    ({ shareManager, params, set, can }) => {
       const { token } = params;
 
       if (!shareManager) {
-        return error(404, { error: 'NOT_FOUND', message: 'Share not found or expired' });
+        set.status = 404;
+        return { error: 'NOT_FOUND', message: 'Share not found or expired' };
       }
 
       const share = shareManager.validateShare(token);
 
-      if (!share) {
-        return error(404, { error: 'NOT_FOUND', message: 'Share not found or expired' });
+      if (!share || !can(share.sessionName, 'view')) {
+        set.status = 404;
+        return { error: 'NOT_FOUND', message: 'Share not found or expired' };
       }
 
       return share;
@@ -106,17 +110,26 @@ export const sharesPlugin = new Elysia({ prefix: '/api' })
   // DELETE /api/shares/:token - Revoke a share link
   .delete(
     '/shares/:token',
-    ({ shareManager, params, error }) => {
+    ({ shareManager, params, set, can }) => {
       const { token } = params;
 
       if (!shareManager) {
-        return error(404, { error: 'NOT_FOUND', message: 'Share not found' });
+        set.status = 404;
+        return { error: 'NOT_FOUND', message: 'Share not found' };
+      }
+
+      // Shares of sessions the user cannot view are reported as missing
+      const share = shareManager.getShare(token);
+      if (!share || !can(share.sessionName, 'view')) {
+        set.status = 404;
+        return { error: 'NOT_FOUND', message: 'Share not found' };
       }
 
       const success = shareManager.revokeShare(token);
 
       if (!success) {
-        return error(404, { error: 'NOT_FOUND', message: 'Share not found' });
+        set.status = 404;
+        return { error: 'NOT_FOUND', message: 'Share not found' };
       }
 
       return { success: true };
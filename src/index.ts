@@ -2,6 +2,7 @@
 
 import { program } from 'commander';
 import { wrapCommand } from '@/core/cli/command-runner.js';
+import { auditCommand } from '@/core/cli/commands/audit.js';
 import {
   caddyRemoveCommand,
   caddySetupCommand,
@@ -16,6 +17,13 @@ import { deployCommand } from '@/core/cli/commands/deploy.js';
 import { doctorCommand } from '@/core/cli/commands/doctor.js';
 import { downCommand } from '@/core/cli/commands/down.js';
 import { listCommand } from '@/core/cli/commands/list.js';
+import { loginCodeCommand } from '@/core/cli/commands/login-code.js';
+import { passkeysCommand, passkeysRevokeCommand } from '@/core/cli/commands/passkeys.js';
+import {
+  recordListCommand,
+  recordStartCommand,
+  recordStopCommand
+} from '@/core/cli/commands/record.js';
 import { reloadCommand } from '@/core/cli/commands/reload.js';
 import { restartCommand } from '@/core/cli/commands/restart.js';
 import { shareCommand, shareListCommand, shareRevokeCommand } from '@/core/cli/commands/share.js';
@@ -159,6 +167,47 @@ connections
 // Also register 'connections' without subcommand as alias for 'connections list'
 connections.action(wrapCommand((options) => connectionsCommand(options)));
 
+const passkeys = program.command('passkeys').description('Manage passkeys for passwordless login');
+
+passkeys
+  .command('list')
+  .alias('ls')
+  .description('List registered passkeys')
+  .option('-c, --config <path>', 'Config file path')
+  .option('--json', 'Output as JSON')
+  .action(wrapCommand((options) => passkeysCommand(options)));
+
+passkeys
+  .command('revoke <id>')
+  .description('Revoke a passkey (ID prefix from "passkeys list")')
+  .option('-c, --config <path>', 'Config file path')
+  .action(wrapCommand((id, options) => passkeysRevokeCommand(id, options)));
+
+// Also register 'passkeys' without subcommand as alias for 'passkeys list'
+passkeys.action(wrapCommand((options) => passkeysCommand(options)));
+
+program
+  .command('audit')
+  .description('Show audit events (logins, connections, session and command activity)')
+  .option('-c, --config <path>', 'Config file path')
+  .option('--since <time>', 'Events since a duration ago (30m, 12h, 7d) or a date')
+  .option('--type <types>', 'Comma-separated event types (e.g. ws_connect,auth_failure)')
+  .option('--session <name>', 'Only events for this session')
+  .option('--user <name>', 'Only events by this proxy user')
+  .option('--limit <n>', 'Show at most the newest n events')
+  .option('--json', 'Output as JSON')
+  .action(wrapCommand((options) => auditCommand(options)));
+
+program
+  .command('login-code')
+  .description('Issue a one-time login code (and QR code) for another device')
+  .option('-c, --config <path>', 'Config file path')
+  .option('--ttl <seconds>', 'Code lifetime in seconds (max 3600)')
+  .option('--no-qr', 'Do not print the QR code')
+  .option('--user <name>', 'Log in as a named user from the user file')
+  .option('--json', 'Output as JSON')
+  .action(wrapCommand((options) => loginCodeCommand(options)));
+
 // === Caddy integration ===
 
 const caddy = program.command('caddy').description('Caddy reverse proxy integration');
@@ -219,5 +268,29 @@ share
   .description('Revoke a share link')
   .action(wrapCommand((token, options) => shareRevokeCommand(token, options)));
 
+// === Session recording ===
+
+const record = program.command('record').description('Session recording (asciicast)');
+
+record
+  .command('start [session]')
+  .description('Start recording a session (default: session for current directory)')
+  .option('-c, --config <path>', 'Config file path')
+  .action(wrapCommand((session, options) => recordStartCommand(session, options)));
+
+record
+  .command('stop [session]')
+  .description('Stop recording a session')
+  .option('-c, --config <path>', 'Config file path')
+  .action(wrapCommand((session, options) => recordStopCommand(session, options)));
+
+record
+  .command('list')
+  .alias('ls')
+  .description('List recordings')
+  .option('-c, --config <path>', 'Config file path')
+  .option('--json', 'Output as JSON')
+  .action(wrapCommand((options) => recordListCommand(options)));
+
 // Parse arguments
 program.parse();